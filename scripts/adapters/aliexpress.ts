@@ -0,0 +1,120 @@
+/**
+ * aliexpress.ts
+ *
+ * AliExpress Affiliate API, one adapter per curated official store.
+ * Collections are the store's search keywords; results from other sellers
+ * are dropped. Affiliate links come from the API (promotion_link, or a
+ * generateAffiliateLinks batch), not from the retailer's URL template.
+ */
+
+import type { AliExpressClient, AliExpressProduct } from '../scrapers/aliexpress.ts';
+import type { AliExpressStoreConfig } from '../config/aliexpress-stores.ts';
+import type { CategoryId } from '../config/store-collections.ts';
+import { detectCorrectCategory } from '../scrapers/matcher.ts';
+import { extractBrand } from '../brand-config.ts';
+import { delay } from '../lib/log.ts';
+import { parsePrice } from './common.ts';
+import type { RetailerAdapter } from './types.ts';
+
+const SEARCH_DELAY_MS = 300;
+/** Affiliate API caps page_size at 50 */
+const MAX_PAGE_SIZE = 50;
+
+/** Category for a product from a multi-category store, from its title */
+export function detectAliExpressCategory(
+  product: AliExpressProduct,
+  storeConfig: AliExpressStoreConfig,
+): CategoryId {
+  // Single-category store: use it directly
+  if (storeConfig.categories.length === 1) {
+    return storeConfig.categories[0];
+  }
+
+  // Try the title-based detector from matcher.ts
+  const brand = storeConfig.brandName;
+  const detected = detectCorrectCategory(product.product_title, brand, storeConfig.categories[0]);
+  if (detected && storeConfig.categories.includes(detected as CategoryId)) {
+    return detected as CategoryId;
+  }
+
+  // Try brand extraction from title for category hint
+  const titleBrand = extractBrand(product.product_title);
+  const detectedFromTitle = detectCorrectCategory(product.product_title, titleBrand, storeConfig.categories[0]);
+  if (detectedFromTitle && storeConfig.categories.includes(detectedFromTitle as CategoryId)) {
+    return detectedFromTitle as CategoryId;
+  }
+
+  // Fallback: use first category in config
+  return storeConfig.categories[0];
+}
+
+export function isFromStore(product: AliExpressProduct, store: AliExpressStoreConfig): boolean {
+  return String(product.shop_id) === String(store.sellerId);
+}
+
+export function createAliExpressAdapter(
+  client: AliExpressClient,
+  store: AliExpressStoreConfig,
+): RetailerAdapter<AliExpressProduct> {
+  return {
+    platform: 'aliexpress',
+
+    async listCollections() {
+      return store.searchKeywords.map((keyword) => ({ handle: keyword, categoryId: store.categories[0] }));
+    },
+
+    async fetchProducts(collection, _ctx, options) {
+      const pageSize = Math.min(options.limit, MAX_PAGE_SIZE);
+      const products: AliExpressProduct[] = [];
+
+      for (let page = 1; page <= options.maxPages; page++) {
+        const result = await client.searchProducts({ keywords: collection.handle, pageNo: page, pageSize });
+        products.push(...result.products.filter((p) => isFromStore(p, store)));
+        if (result.products.length === 0 || page * pageSize >= result.totalCount) break;
+        await delay(SEARCH_DELAY_MS);
+      }
+
+      return products;
+    },
+
+    normalize(p) {
+      return [{
+        externalId: p.product_id,
+        handle: p.product_id,
+        sourceId: p.product_id,
+        title: p.product_title,
+        vendor: store.brandName,
+        productType: null,
+        tags: [],
+        imageUrl: p.product_main_image_url || null,
+        variantId: null,
+        variantTitle: null,
+        variantOptions: null,
+        price: parsePrice(p.sale_price),
+        compareAtPrice: null,
+        inStock: true,
+        productUrl: p.product_url,
+        affiliateUrl: p.promotion_link || null,
+        categoryId: detectAliExpressCategory(p, store),
+        rawData: {
+          original_price: p.original_price,
+          discount: p.discount,
+          evaluate_rate: p.evaluate_rate,
+          shop_id: p.shop_id,
+          ali_category_id: p.second_level_category_id,
+          ...(p.sku_id ? { sku_id: p.sku_id } : {}),
+          ...(p.product_small_image_urls?.string?.length
+            ? { variant_images: p.product_small_image_urls.string }
+            : {}),
+          ...(p.product_video_url ? { video_url: p.product_video_url } : {}),
+          ...(p.lastest_volume ? { sales_volume: p.lastest_volume } : {}),
+          last_seen_at: new Date().toISOString(),
+        },
+      }];
+    },
+
+    buildAffiliateUrl(product) {
+      return product.affiliateUrl ?? product.productUrl;
+    },
+  };
+}
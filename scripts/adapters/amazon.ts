@@ -0,0 +1,100 @@
+/**
+ * amazon.ts
+ *
+ * Amazon search results, scraped with Playwright. Collections are search
+ * queries; each adapter drives one browser page, so bulk workers create one
+ * adapter per page. A CAPTCHA surfaces as AmazonCaptchaError so callers can
+ * back off.
+ *
+ * With HTTP_FIXTURES_DIR set, result pages are saved as fixtures (record)
+ * or loaded back into the page instead of navigating (replay).
+ */
+
+import {
+  amazonSearchUrl,
+  parseAmazonSearchHtml,
+  searchAmazonWithPage,
+  type AmazonProduct,
+  type Page,
+} from '../scrapers/amazon.ts';
+import { buildAffiliateUrl } from '../config/retailers.ts';
+import { fixtureName, getFixtureOptions, readFixture, writeFixture } from '../lib/http.ts';
+import type { RetailerAdapter } from './types.ts';
+
+export class AmazonCaptchaError extends Error {
+  constructor(query: string) {
+    super(`CAPTCHA while searching "${query}"`);
+    this.name = 'AmazonCaptchaError';
+  }
+}
+
+function dpUrl(asin: string): string {
+  return `https://www.amazon.com/dp/${asin}`;
+}
+
+export function createAmazonAdapter(page: Page): RetailerAdapter<AmazonProduct> {
+  const fixtures = getFixtureOptions();
+
+  return {
+    platform: 'amazon',
+
+    async listCollections(store) {
+      return store.collections;
+    },
+
+    async fetchProducts(collection, _ctx, options) {
+      const query = collection.handle;
+      const url = amazonSearchUrl(query);
+      const name = fixtureName(url);
+
+      if (fixtures.fixturesDir && fixtures.fixtureMode === 'replay') {
+        const fixture = readFixture(fixtures.fixturesDir, name);
+        if (!fixture) throw new Error(`No recorded fixture for GET ${url} (${name})`);
+        return parseAmazonSearchHtml(page, fixture.body, options.limit);
+      }
+
+      const { products, captcha } = await searchAmazonWithPage(page, query, { maxResults: options.limit });
+      if (captcha) throw new AmazonCaptchaError(query);
+
+      if (fixtures.fixturesDir) {
+        writeFixture(fixtures.fixturesDir, name, {
+          method: 'GET',
+          url,
+          status: 200,
+          headers: { 'content-type': 'text/html' },
+          body: await page.content(),
+        });
+      }
+      return products;
+    },
+
+    normalize(ap) {
+      return [{
+        externalId: ap.asin,
+        handle: ap.asin,
+        sourceId: ap.asin,
+        title: ap.name,
+        vendor: ap.manufacturer,
+        productType: null,
+        tags: [],
+        imageUrl: ap.image,
+        variantId: null,
+        variantTitle: null,
+        variantOptions: null,
+        price: ap.price,
+        compareAtPrice: null,
+        inStock: ap.inStock,
+        productUrl: dpUrl(ap.asin),
+        affiliateUrl: null,
+        rawData: { department: ap.department },
+      }];
+    },
+
+    buildAffiliateUrl(product, retailer) {
+      const tagged = retailer.affiliate_tag
+        ? `${product.productUrl}?tag=${retailer.affiliate_tag}`
+        : product.productUrl;
+      return buildAffiliateUrl(retailer, tagged, product.handle, product.sourceId) ?? tagged;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * bestbuy.ts
+ *
+ * Best Buy Products API. Collections are search queries: sync-prices.ts
+ * searches once per catalog product and matches the results.
+ */
+
+import { searchBestBuy, type BestBuyProduct } from '../scrapers/bestbuy.ts';
+import { compareAtAbove, parsePrice, templateAffiliateUrl } from './common.ts';
+import type { RetailerAdapter } from './types.ts';
+
+export function createBestBuyAdapter(apiKey: string): RetailerAdapter<BestBuyProduct> {
+  return {
+    platform: 'bestbuy',
+
+    async listCollections(store) {
+      return store.collections;
+    },
+
+    fetchProducts(collection, ctx, options) {
+      return searchBestBuy(collection.handle, apiKey, { pageSize: options.limit, http: ctx.http });
+    },
+
+    normalize(bp) {
+      const sku = String(bp.sku);
+      const price = parsePrice(bp.salePrice) ?? parsePrice(bp.regularPrice);
+      return [{
+        externalId: sku,
+        handle: sku,
+        sourceId: sku,
+        title: bp.name,
+        vendor: bp.manufacturer,
+        productType: null,
+        tags: [],
+        imageUrl: bp.image,
+        variantId: null,
+        variantTitle: null,
+        variantOptions: null,
+        price,
+        compareAtPrice: compareAtAbove(price, parsePrice(bp.regularPrice)),
+        inStock: bp.onlineAvailability,
+        productUrl: bp.url ?? `https://www.bestbuy.com/site/${sku}.p`,
+        affiliateUrl: bp.affiliateUrl,
+        rawData: { model_number: bp.modelNumber },
+      }];
+    },
+
+    buildAffiliateUrl: templateAffiliateUrl,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * bigcommerce.ts
+ *
+ * BigCommerce shops via the v3 Catalog API. Needs the store hash in
+ * STORE_COLLECTIONS and a read-only API token in
+ * BIGCOMMERCE_TOKEN_<RETAILER ID> (e.g. BIGCOMMERCE_TOKEN_AUDIO46).
+ * Collection handles are category URL slugs ("/headphones/" -> "headphones").
+ */
+
+import { STORE_COLLECTIONS } from '../config/store-collections.ts';
+import { log, delay } from '../lib/log.ts';
+import { compareAtAbove, parsePrice, readJson, templateAffiliateUrl } from './common.ts';
+import type { AdapterContext, RetailerAdapter, StoreProduct } from './types.ts';
+
+type BigCommerceVariant = {
+  id: number;
+  sku: string;
+  price: number | null;
+  sale_price: number | null;
+  calculated_price: number;
+  inventory_level: number;
+  purchasing_disabled: boolean;
+  option_values: Array<{ option_display_name: string; label: string }>;
+};
+
+export type BigCommerceProduct = {
+  id: number;
+  name: string;
+  sku: string;
+  price: number;
+  sale_price: number;
+  retail_price: number;
+  calculated_price: number;
+  availability: 'available' | 'disabled' | 'preorder';
+  inventory_level: number;
+  inventory_tracking: 'none' | 'product' | 'variant';
+  brand_id: number;
+  categories: number[];
+  custom_url: { url: string };
+  variants?: BigCommerceVariant[];
+  images?: Array<{ url_standard: string; is_thumbnail: boolean }>;
+};
+
+type Page<T> = {
+  data: T[];
+  meta: { pagination: { total_pages: number; current_page: number } };
+};
+
+type Lookups = { categories: Map<string, number>; brands: Map<number, string> };
+
+const PAGE_DELAY_MS = 400;
+const MAX_PER_PAGE = 250;
+
+const lookupCache = new Map<string, Lookups>();
+
+function apiBase(ctx: AdapterContext): string {
+  const storeHash = STORE_COLLECTIONS[ctx.domain]?.storeHash;
+  if (!storeHash) throw new Error(`BigCommerce store ${ctx.domain} has no storeHash configured`);
+  return `https://api.bigcommerce.com/stores/${storeHash}/v3/catalog`;
+}
+
+function apiHeaders(ctx: AdapterContext): Record<string, string> {
+  const envName = `BIGCOMMERCE_TOKEN_${ctx.retailer.id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  const token = process.env[envName];
+  if (!token) throw new Error(`Missing ${envName} for BigCommerce store ${ctx.domain}`);
+  return { 'X-Auth-Token': token, Accept: 'application/json' };
+}
+
+async function fetchAll<T>(ctx: AdapterContext, path: string, maxPages = 100): Promise<T[]> {
+  const base = apiBase(ctx);
+  const headers = apiHeaders(ctx);
+  const separator = path.includes('?') ? '&' : '?';
+  const items: T[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await ctx.http(`${base}/${path}${separator}page=${page}`, { headers });
+    const body = await readJson<Page<T>>(response, `BigCommerce ${ctx.domain} ${path}`);
+    items.push(...body.data);
+    if (page >= body.meta.pagination.total_pages) break;
+    await delay(PAGE_DELAY_MS);
+  }
+
+  return items;
+}
+
+/** "/in-ear-monitors/" -> "in-ear-monitors" */
+function slugFromUrl(url: string): string {
+  return url.replace(/^\/+|\/+$/g, '').split('/').pop() ?? '';
+}
+
+async function loadLookups(ctx: AdapterContext): Promise<Lookups> {
+  const cached = lookupCache.get(ctx.domain);
+  if (cached) return cached;
+
+  const [categories, brands] = await Promise.all([
+    fetchAll<{ id: number; custom_url: { url: string } }>(ctx, `categories?limit=${MAX_PER_PAGE}`),
+    fetchAll<{ id: number; name: string }>(ctx, `brands?limit=${MAX_PER_PAGE}`),
+  ]);
+  const lookups: Lookups = {
+    categories: new Map(categories.map((c) => [slugFromUrl(c.custom_url.url), c.id])),
+    brands: new Map(brands.map((b) => [b.id, b.name])),
+  };
+
+  lookupCache.set(ctx.domain, lookups);
+  return lookups;
+}
+
+function variantInStock(p: BigCommerceProduct, v: BigCommerceVariant | null): boolean {
+  if (p.availability === 'disabled' || v?.purchasing_disabled) return false;
+  if (p.inventory_tracking === 'none') return true;
+  return (p.inventory_tracking === 'variant' && v ? v.inventory_level : p.inventory_level) > 0;
+}
+
+export const bigCommerceAdapter: RetailerAdapter<BigCommerceProduct> = {
+  platform: 'bigcommerce',
+
+  async listCollections(store, ctx) {
+    const { categories } = await loadLookups(ctx);
+    return store.collections.filter((c) => {
+      if (categories.has(c.handle)) return true;
+      log('SKIP', `${ctx.domain}: no BigCommerce category "${c.handle}"`);
+      return false;
+    });
+  },
+
+  async fetchProducts(collection, ctx, options) {
+    const { categories } = await loadLookups(ctx);
+    const categoryId = categories.get(collection.handle);
+    if (categoryId === undefined) return [];
+
+    const limit = Math.min(options.limit, MAX_PER_PAGE);
+    return fetchAll<BigCommerceProduct>(
+      ctx,
+      `products?categories:in=${categoryId}&is_visible=true&include=variants,images&limit=${limit}`,
+      options.maxPages,
+    );
+  },
+
+  normalize(p, ctx) {
+    const brand = lookupCache.get(ctx.domain)?.brands.get(p.brand_id) ?? null;
+    const baseUrl = `https://${ctx.domain}${p.custom_url.url}`;
+    const handle = slugFromUrl(p.custom_url.url) || String(p.id);
+    const shared = {
+      handle,
+      sourceId: String(p.id),
+      title: p.name,
+      vendor: brand,
+      productType: null,
+      tags: [],
+      imageUrl: (p.images ?? []).find((i) => i.is_thumbnail)?.url_standard ?? p.images?.[0]?.url_standard ?? null,
+      affiliateUrl: null,
+    };
+
+    // Products without options still carry one base variant
+    const optioned = (p.variants ?? []).filter((v) => v.option_values.length > 0);
+    if (optioned.length <= 1) {
+      const price = parsePrice(p.calculated_price);
+      if (price === null) return [];
+      return [{
+        ...shared,
+        externalId: handle,
+        variantId: null,
+        variantTitle: null,
+        variantOptions: null,
+        price,
+        compareAtPrice: compareAtAbove(price, parsePrice(p.retail_price) ?? parsePrice(p.price)),
+        inStock: variantInStock(p, p.variants?.[0] ?? null),
+        productUrl: baseUrl,
+        rawData: { platform: 'bigcommerce', sku: p.sku || null },
+      }];
+    }
+
+    return optioned.flatMap((v): StoreProduct[] => {
+      const price = parsePrice(v.calculated_price);
+      if (price === null) return [];
+      const variantOptions = Object.fromEntries(v.option_values.map((o) => [o.option_display_name, o.label]));
+      return [{
+        ...shared,
+        externalId: `${handle}::${v.id}`,
+        variantId: String(v.id),
+        variantTitle: v.option_values.map((o) => o.label).join(' / '),
+        variantOptions,
+        price,
+        compareAtPrice: compareAtAbove(price, parsePrice(v.price) ?? parsePrice(p.price)),
+        inStock: variantInStock(p, v),
+        productUrl: baseUrl,
+        rawData: { platform: 'bigcommerce', sku: v.sku || null },
+      }];
+    });
+  },
+
+  buildAffiliateUrl: templateAffiliateUrl,
+};
@@ -0,0 +1,38 @@
+/**
+ * common.ts
+ *
+ * Helpers shared by the retailer adapters.
+ */
+
+import { buildAffiliateUrl, type Retailer } from '../config/retailers.ts';
+import type { StoreProduct } from './types.ts';
+
+/**
+ * The retailer's affiliate_url_template applied to a listing; without a
+ * template, the link the retailer's API supplied, then the product URL.
+ */
+export function templateAffiliateUrl(product: StoreProduct, retailer: Retailer): string {
+  return buildAffiliateUrl(retailer, product.productUrl, product.handle, product.sourceId)
+    ?? product.affiliateUrl
+    ?? product.productUrl;
+}
+
+/** Positive price from a string or number, else null */
+export function parsePrice(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(n) || n <= 0 ? null : n;
+}
+
+/** compare-at price only when it is above the selling price */
+export function compareAtAbove(price: number | null, compareAt: number | null): number | null {
+  return price !== null && compareAt !== null && compareAt > price ? compareAt : null;
+}
+
+/** Throw on a non-2xx response, naming the adapter and URL */
+export async function readJson<T>(response: Response, what: string): Promise<T> {
+  if (!response.ok) {
+    throw new Error(`${what}: HTTP ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as T;
+}
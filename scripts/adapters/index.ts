@@ -0,0 +1,26 @@
+/**
+ * Retailer adapters. Storefront platforms are looked up from a store's
+ * STORE_COLLECTIONS entry; the marketplace adapters need credentials or a
+ * browser page and are created by the scripts that use them.
+ */
+
+import type { StoreConfig, StorePlatform } from '../config/store-collections.ts';
+import { shopifyAdapter } from './shopify.ts';
+import { wooCommerceAdapter } from './woocommerce.ts';
+import { bigCommerceAdapter } from './bigcommerce.ts';
+import type { RetailerAdapter } from './types.ts';
+
+export type { AdapterContext, AdapterPlatform, FetchOptions, RetailerAdapter, StoreProduct } from './types.ts';
+export { createAliExpressAdapter } from './aliexpress.ts';
+export { createAmazonAdapter, AmazonCaptchaError } from './amazon.ts';
+export { createBestBuyAdapter } from './bestbuy.ts';
+
+export const STORE_ADAPTERS: Record<StorePlatform, RetailerAdapter> = {
+  shopify: shopifyAdapter,
+  woocommerce: wooCommerceAdapter,
+  bigcommerce: bigCommerceAdapter,
+};
+
+export function getStoreAdapter(store: StoreConfig): RetailerAdapter {
+  return STORE_ADAPTERS[store.platform ?? 'shopify'];
+}
@@ -0,0 +1,71 @@
+/**
+ * shopify.ts
+ *
+ * Shopify storefronts via the public collection products.json endpoints.
+ * Multi-variant products are split into one listing per variant
+ * (see expandVariants).
+ */
+
+import { fetchShopifyCollection, expandVariants, type ShopifyProduct } from '../scrapers/shopify.ts';
+import { templateAffiliateUrl } from './common.ts';
+import type { RetailerAdapter, StoreProduct } from './types.ts';
+
+export const shopifyAdapter: RetailerAdapter<ShopifyProduct> = {
+  platform: 'shopify',
+
+  async listCollections(store) {
+    return store.collections;
+  },
+
+  fetchProducts(collection, ctx, options) {
+    return fetchShopifyCollection(ctx.domain, collection.handle, {
+      maxPages: options.maxPages,
+      limit: options.limit,
+      http: ctx.http,
+    });
+  },
+
+  normalize(p, ctx) {
+    const shared = {
+      handle: p.handle,
+      sourceId: String(p.id),
+      title: p.title,
+      vendor: p.vendor || null,
+      productType: p.product_type || null,
+      tags: p.tags || [],
+      imageUrl: p.images?.[0]?.src ?? null,
+      affiliateUrl: null,
+      rawData: {},
+    };
+
+    const listings = expandVariants(p, ctx.domain);
+    if (listings.length === 0) {
+      // No priced variant: keep a single unpriced row so the product stays known
+      return [{
+        ...shared,
+        externalId: p.handle,
+        variantId: null,
+        variantTitle: null,
+        variantOptions: null,
+        price: null,
+        compareAtPrice: null,
+        inStock: false,
+        productUrl: `https://${ctx.domain}/products/${p.handle}`,
+      }];
+    }
+
+    return listings.map((listing): StoreProduct => ({
+      ...shared,
+      externalId: listing.externalId,
+      variantId: listing.variantId,
+      variantTitle: listing.variantTitle,
+      variantOptions: listing.variantOptions,
+      price: listing.price,
+      compareAtPrice: listing.compareAtPrice,
+      inStock: listing.inStock,
+      productUrl: listing.productUrl,
+    }));
+  },
+
+  buildAffiliateUrl: templateAffiliateUrl,
+};
@@ -0,0 +1,73 @@
+/**
+ * types.ts
+ *
+ * The RetailerAdapter contract. Every source of store_products rows --
+ * storefront platforms (Shopify, WooCommerce, BigCommerce) and the
+ * marketplace/search APIs (AliExpress, Amazon, Best Buy) -- implements it,
+ * so the sync scripts never deal with a retailer's wire format directly.
+ */
+
+import type { Retailer } from '../config/retailers.ts';
+import type { CategoryId, CollectionMapping, StoreConfig } from '../config/store-collections.ts';
+import type { HttpClient } from '../lib/http.ts';
+
+export type AdapterPlatform =
+  | 'shopify' | 'woocommerce' | 'bigcommerce'
+  | 'aliexpress' | 'amazon' | 'bestbuy';
+
+/** One purchasable listing, normalized from whatever the retailer returned. */
+export type StoreProduct = {
+  /** Unique per retailer; '<handle>::<variant id>' when a product is split into variants */
+  externalId: string;
+  /** Identifier shared by all variants of a product (Shopify handle, Woo slug, ...) */
+  handle: string;
+  /** The retailer's own product id, {external_id} in affiliate URL templates */
+  sourceId: string;
+  title: string;
+  vendor: string | null;
+  productType: string | null;
+  tags: string[];
+  imageUrl: string | null;
+  variantId: string | null;
+  variantTitle: string | null;
+  /** Option name -> value, e.g. { Termination: '4.4mm' } */
+  variantOptions: Record<string, string> | null;
+  price: number | null;
+  compareAtPrice: number | null;
+  inStock: boolean;
+  productUrl: string;
+  /** Tracking link handed out by the retailer's own API, when it has one */
+  affiliateUrl: string | null;
+  /** Overrides the collection's category (multi-category search results) */
+  categoryId?: CategoryId;
+  rawData: Record<string, unknown>;
+};
+
+export type AdapterContext = {
+  /** Store domain, the STORE_COLLECTIONS key for storefront platforms */
+  domain: string;
+  retailer: Retailer;
+  http: HttpClient;
+};
+
+export type FetchOptions = {
+  maxPages: number;
+  /** Page size, or result count for search APIs */
+  limit: number;
+};
+
+/**
+ * A collection is whatever the retailer groups products by: a Shopify
+ * collection handle, a WooCommerce/BigCommerce category slug, or a search
+ * query for the marketplaces.
+ */
+export interface RetailerAdapter<Raw = unknown> {
+  readonly platform: AdapterPlatform;
+  /** Collections to pull for a store, resolved against the retailer where needed */
+  listCollections(store: StoreConfig, ctx: AdapterContext): Promise<CollectionMapping[]>;
+  fetchProducts(collection: CollectionMapping, ctx: AdapterContext, options: FetchOptions): Promise<Raw[]>;
+  /** One raw product as listings; empty when nothing is purchasable */
+  normalize(raw: Raw, ctx: AdapterContext): StoreProduct[];
+  /** Tracking link for a listing, falling back to the plain product URL */
+  buildAffiliateUrl(product: StoreProduct, retailer: Retailer): string;
+}
@@ -0,0 +1,162 @@
+/**
+ * woocommerce.ts
+ *
+ * WooCommerce shops via the public Store API (wp-json/wc/store/v1), which
+ * needs no credentials. Collection handles are product category slugs.
+ * The Store API lists a variable product once with its lowest price, so
+ * each product becomes a single listing keyed by its product id.
+ */
+
+import { log, delay } from '../lib/log.ts';
+import type { HttpClient } from '../lib/http.ts';
+import { compareAtAbove, parsePrice, readJson, templateAffiliateUrl } from './common.ts';
+import type { RetailerAdapter } from './types.ts';
+
+export type WooProduct = {
+  id: number;
+  name: string;
+  slug: string;
+  permalink: string;
+  sku: string;
+  type: string;
+  prices: {
+    price: string;
+    regular_price: string;
+    sale_price: string;
+    currency_code: string;
+    currency_minor_unit: number;
+    price_range: { min_amount: string; max_amount: string } | null;
+  };
+  images: Array<{ src: string }>;
+  categories: Array<{ id: number; name: string; slug: string }>;
+  tags: Array<{ id: number; name: string; slug: string }>;
+  /** Present when a brands plugin is active */
+  brands?: Array<{ name: string }>;
+  is_in_stock: boolean;
+  is_purchasable: boolean;
+  on_sale: boolean;
+};
+
+type WooCategory = { id: number; name: string; slug: string; parent: number; count: number };
+
+const USER_AGENT = 'AudioList Price Checker/1.0';
+const PAGE_DELAY_MS = 600;
+/** Store API caps per_page at 100 */
+const MAX_PER_PAGE = 100;
+
+const categoryCache = new Map<string, Map<string, number>>();
+
+function storeApi(domain: string, path: string): string {
+  return `https://${domain}/wp-json/wc/store/v1/${path}`;
+}
+
+/** Store API names come HTML-escaped ("Ear &amp; Tips", "&#8211;") */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/** Minor units ("12999", 2) to a price */
+function fromMinorUnits(amount: string, minorUnit: number): number | null {
+  const n = parsePrice(amount);
+  return n === null ? null : n / 10 ** minorUnit;
+}
+
+async function loadCategories(domain: string, http: HttpClient): Promise<Map<string, number>> {
+  const cached = categoryCache.get(domain);
+  if (cached) return cached;
+
+  const bySlug = new Map<string, number>();
+  for (let page = 1; ; page++) {
+    const response = await http(storeApi(domain, `products/categories?per_page=${MAX_PER_PAGE}&page=${page}`), {
+      headers: { 'User-Agent': USER_AGENT },
+    });
+    const categories = await readJson<WooCategory[]>(response, `WooCommerce categories from ${domain}`);
+    for (const c of categories) bySlug.set(c.slug, c.id);
+    const totalPages = Number(response.headers.get('x-wp-totalpages') ?? 1);
+    if (categories.length < MAX_PER_PAGE || page >= totalPages) break;
+  }
+
+  categoryCache.set(domain, bySlug);
+  return bySlug;
+}
+
+export const wooCommerceAdapter: RetailerAdapter<WooProduct> = {
+  platform: 'woocommerce',
+
+  async listCollections(store, ctx) {
+    const categories = await loadCategories(ctx.domain, ctx.http);
+    return store.collections.filter((c) => {
+      if (categories.has(c.handle)) return true;
+      log('SKIP', `${ctx.domain}: no WooCommerce category "${c.handle}"`);
+      return false;
+    });
+  },
+
+  async fetchProducts(collection, ctx, options) {
+    const categories = await loadCategories(ctx.domain, ctx.http);
+    const categoryId = categories.get(collection.handle);
+    if (categoryId === undefined) return [];
+
+    const perPage = Math.min(options.limit, MAX_PER_PAGE);
+    const products: WooProduct[] = [];
+
+    for (let page = 1; page <= options.maxPages; page++) {
+      const url = storeApi(ctx.domain, `products?category=${categoryId}&per_page=${perPage}&page=${page}`);
+      const response = await ctx.http(url, { headers: { 'User-Agent': USER_AGENT } });
+      if (response.status === 400 && page > 1) break; // past the last page
+      const batch = await readJson<WooProduct[]>(response, `WooCommerce ${ctx.domain}/${collection.handle}`);
+      products.push(...batch);
+
+      const totalPages = Number(response.headers.get('x-wp-totalpages') ?? page);
+      if (batch.length < perPage || page >= totalPages) break;
+      await delay(PAGE_DELAY_MS);
+    }
+
+    return products;
+  },
+
+  normalize(p) {
+    if (!p.is_purchasable) return [];
+
+    const minorUnit = p.prices.currency_minor_unit ?? 2;
+    const price = fromMinorUnits(p.prices.price, minorUnit);
+    const regular = fromMinorUnits(p.prices.regular_price, minorUnit);
+
+    return [{
+      externalId: String(p.id),
+      handle: p.slug,
+      sourceId: String(p.id),
+      title: decodeEntities(p.name),
+      vendor: p.brands?.[0]?.name ? decodeEntities(p.brands[0].name) : null,
+      productType: p.categories[0] ? decodeEntities(p.categories[0].name) : null,
+      tags: p.tags.map((t) => decodeEntities(t.name)),
+      imageUrl: p.images[0]?.src ?? null,
+      variantId: null,
+      variantTitle: null,
+      variantOptions: null,
+      price,
+      compareAtPrice: compareAtAbove(price, regular),
+      inStock: p.is_in_stock && price !== null,
+      productUrl: p.permalink,
+      affiliateUrl: null,
+      rawData: {
+        platform: 'woocommerce',
+        sku: p.sku || null,
+        type: p.type,
+        currency: p.prices.currency_code,
+        ...(p.prices.price_range
+          ? { max_price: fromMinorUnits(p.prices.price_range.max_amount, minorUnit) }
+          : {}),
+      },
+    }];
+  },
+
+  buildAffiliateUrl: templateAffiliateUrl,
+};
@@ -7,6 +7,15 @@
 
 import express, { Request, Response, NextFunction } from "express";
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import {
+  normalizeName,
+  diceCoefficient,
+  brandsSimilar,
+  detectCorrectCategory,
+  isJunkProduct,
+  isMicrophoneJunk,
+} from "./scrapers/matcher.ts";
+import type { CategoryId } from "./config/store-collections.ts";
 
 // ---------------------------------------------------------------------------
 // Config
@@ -17,8 +26,16 @@ const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
 const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD ?? "admin";
 const PORT = 3001;
 const AUTH_COOKIE = "admin_auth";
+const ADMIN_USER_COOKIE = "admin_user";
 const COOKIE_VALUE = Buffer.from(ADMIN_PASSWORD).toString("base64");
 const PAGE_SIZE = 50;
+const PIPELINE_RUNS_SHOWN = 10;
+const AUDIT_ENTRIES_SHOWN = 100;
+const DUPLICATE_MIN_SCORE = 0.6;
+const DUPLICATE_CANDIDATES_SHOWN = 15;
+const TRIAGE_DEFAULT_CATEGORY = "microphone";
+const MODERATION_ITEMS_SHOWN = 100;
+const SITE_URL = process.env.SITE_URL ?? "https://audiolist.pages.dev";
 
 if (!SUPABASE_SERVICE_KEY) {
   console.error("ERROR: SUPABASE_SERVICE_KEY environment variable is required.");
@@ -93,12 +110,13 @@ app.get("/login", (_req: Request, res: Response) => {
 // ---------------------------------------------------------------------------
 
 app.post("/login", (req: Request, res: Response) => {
-  const { password } = req.body as { password?: string };
+  const { password, name } = req.body as { password?: string; name?: string };
   if (password === ADMIN_PASSWORD) {
-    res.setHeader(
-      "Set-Cookie",
-      `${AUTH_COOKIE}=${encodeURIComponent(COOKIE_VALUE)}; Path=/; HttpOnly; SameSite=Lax`
-    );
+    // The name is what admin_audit records as the admin behind each change
+    res.setHeader("Set-Cookie", [
+      `${AUTH_COOKIE}=${encodeURIComponent(COOKIE_VALUE)}; Path=/; HttpOnly; SameSite=Lax`,
+      `${ADMIN_USER_COOKIE}=${encodeURIComponent((name ?? "").trim() || "admin")}; Path=/; HttpOnly; SameSite=Lax`,
+    ]);
     res.redirect("/");
   } else {
     res.send(loginPage("Invalid password."));
@@ -158,9 +176,27 @@ app.get("/", async (req: Request, res: Response) => {
     // Retailers for config section
     const { data: retailers } = await supabase
       .from("retailers")
-      .select("id, name, base_url, shop_domain, api_type, affiliate_tag, affiliate_url_template, is_active")
+      .select("id, name, base_url, shop_domain, api_type, affiliate_tag, affiliate_url_template, is_active, currency, shipping_cost, free_shipping_min")
       .order("name");
 
+    // Listings held back by the price guard (scripts/lib/price-guard.ts)
+    const { data: quarantine, count: quarantineCount } = await supabase
+      .from("listing_quarantine")
+      .select(
+        "id, product_id, retailer_id, external_id, price, price_usd, reference_price, reference_source, ratio, listing, source, updated_at, products!inner(name, brand, price)",
+        { count: "exact" }
+      )
+      .eq("status", "pending")
+      .order("updated_at", { ascending: false })
+      .limit(PAGE_SIZE);
+
+    // Recent sync pipeline runs (scripts/pipeline.ts)
+    const { data: pipelineRuns } = await supabase
+      .from("pipeline_runs")
+      .select("id, status, args, steps, retry_of, started_at, finished_at")
+      .order("started_at", { ascending: false })
+      .limit(PIPELINE_RUNS_SHOWN);
+
     const totalPages = Math.ceil((pendingTotal ?? 0) / PAGE_SIZE);
 
     res.send(
@@ -173,6 +209,9 @@ app.get("/", async (req: Request, res: Response) => {
         page,
         totalPages,
         retailers: retailers ?? [],
+        quarantine: quarantine ?? [],
+        quarantineCount: quarantineCount ?? 0,
+        pipelineRuns: pipelineRuns ?? [],
       })
     );
   } catch (err) {
@@ -187,7 +226,11 @@ app.get("/", async (req: Request, res: Response) => {
 
 app.post("/match/:id/approve", async (req: Request, res: Response) => {
   try {
-    await approveMatch(req.params.id as string);
+    const id = req.params.id as string;
+    await audited(req, "match.approve", id, async (audit) => {
+      const match = await approveMatch(audit, id);
+      audit.summary = `${match.retailer_id}: ${match.external_name}`;
+    });
     res.redirect("/");
   } catch (err) {
     console.error("Approve error:", err);
@@ -195,16 +238,127 @@ app.post("/match/:id/approve", async (req: Request, res: Response) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// POST /quarantine/:id/approve — publish the held-back listing
+// ---------------------------------------------------------------------------
+
+app.post("/quarantine/:id/approve", async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { data: held, error } = await supabase
+      .from("listing_quarantine")
+      .select("listing, retailer_id, external_id")
+      .eq("id", id)
+      .single();
+    if (error || !held) throw new Error(`Quarantined listing ${id} not found: ${error?.message}`);
+
+    await audited(req, "quarantine.approve", `${held.retailer_id}: published ${held.external_id}`, async (audit) => {
+      await trackRows(
+        audit,
+        "price_listings",
+        { retailer_id: held.retailer_id, external_id: held.external_id },
+        async () => {
+          const { error: upsertError } = await supabase
+            .from("price_listings")
+            .upsert(held.listing, { onConflict: "retailer_id,external_id" });
+          if (upsertError) throw new Error(`Failed to publish listing: ${upsertError.message}`);
+        }
+      );
+
+      await trackRows(audit, "listing_quarantine", { id }, async () => {
+        const { error: updateError } = await supabase
+          .from("listing_quarantine")
+          .update({ status: "approved", reviewed_at: new Date().toISOString() })
+          .eq("id", id);
+        if (updateError) throw new Error(`Failed to mark listing approved: ${updateError.message}`);
+      });
+    });
+    res.redirect("/");
+  } catch (err) {
+    console.error("Quarantine approve error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /quarantine/:id/reject — keep the price unpublished
+//   (with reject_match=1 also reject the match and drop its live listing)
+// ---------------------------------------------------------------------------
+
+app.post("/quarantine/:id/reject", async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const now = new Date().toISOString();
+    const rejectMatch = req.body.reject_match === "1";
+    await audited(req, rejectMatch ? "quarantine.reject_match" : "quarantine.reject", id, async (audit) => {
+      const { result: rejected } = await trackRows(audit, "listing_quarantine", { id }, () =>
+        supabase
+          .from("listing_quarantine")
+          .update({ status: "rejected", reviewed_at: now })
+          .eq("id", id)
+          .select("product_id, retailer_id, external_id")
+          .single()
+      );
+      const held = rejected.data;
+      if (rejected.error || !held) throw new Error(`Quarantined listing ${id} not found: ${rejected.error?.message}`);
+      audit.summary = `${held.retailer_id}: ${held.external_id}`;
+
+      if (rejectMatch) {
+        await trackRows(
+          audit,
+          "product_matches",
+          { product_id: held.product_id, retailer_id: held.retailer_id },
+          async () => {
+            const { error: matchError } = await supabase
+              .from("product_matches")
+              .update({ status: "rejected", reviewed_at: now })
+              .eq("product_id", held.product_id)
+              .eq("retailer_id", held.retailer_id);
+            if (matchError) throw new Error(`Failed to reject match: ${matchError.message}`);
+          }
+        );
+        await trackRows(
+          audit,
+          "price_listings",
+          { retailer_id: held.retailer_id, external_id: held.external_id },
+          async () => {
+            const { error: deleteError } = await supabase
+              .from("price_listings")
+              .delete()
+              .eq("retailer_id", held.retailer_id)
+              .eq("external_id", held.external_id);
+            if (deleteError) throw new Error(`Failed to remove listing: ${deleteError.message}`);
+          }
+        );
+      }
+    });
+    res.redirect("/");
+  } catch (err) {
+    console.error("Quarantine reject error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
 // ---------------------------------------------------------------------------
 // POST /match/:id/reject
 // ---------------------------------------------------------------------------
 
 app.post("/match/:id/reject", async (req: Request, res: Response) => {
   try {
-    await supabase
-      .from("product_matches")
-      .update({ status: "rejected", reviewed_at: new Date().toISOString() })
-      .eq("id", req.params.id as string);
+    const id = req.params.id as string;
+    await audited(req, "match.reject", id, async (audit) => {
+      const { result } = await trackRows(audit, "product_matches", { id }, () =>
+        supabase
+          .from("product_matches")
+          .update({ status: "rejected", reviewed_at: new Date().toISOString() })
+          .eq("id", id)
+          .select("retailer_id, external_name")
+          .maybeSingle()
+      );
+      if (result.error) throw new Error(`Failed to reject match ${id}: ${result.error.message}`);
+      const match = result.data;
+      if (match) audit.summary = `${match.retailer_id}: ${match.external_name}`;
+    });
     res.redirect("/");
   } catch (err) {
     console.error("Reject error:", err);
@@ -230,15 +384,20 @@ app.post("/bulk-approve", async (req: Request, res: Response) => {
       .eq("status", "pending")
       .gte("match_score", threshold);
 
+    // One audit entry for the whole batch, so it can be reverted in one go
     let approved = 0;
-    for (const m of matches ?? []) {
-      try {
-        await approveMatch(m.id);
-        approved++;
-      } catch (e) {
-        console.error(`Failed to approve ${m.id}:`, e);
+    await audited(req, "bulk_approve", `Approving matches with score >= ${threshold}`, async (audit) => {
+      for (const m of matches ?? []) {
+        try {
+          await approveMatch(audit, m.id);
+          approved++;
+        } catch (e) {
+          if (e instanceof AuditWriteError) throw e;
+          console.error(`Failed to approve ${m.id}:`, e);
+        }
       }
-    }
+      audit.summary = `Approved ${approved} matches with score >= ${threshold}`;
+    });
     console.log(`Bulk approved ${approved}/${(matches ?? []).length} matches with score >= ${threshold}`);
     res.redirect("/");
   } catch (err) {
@@ -290,39 +449,43 @@ app.post("/amazon-link", async (req: Request, res: Response) => {
       affiliateUrl = `${amazon_url}${separator}tag=${retailer.affiliate_tag}`;
     }
 
-    // Upsert product_match
-    await supabase.from("product_matches").upsert(
-      {
-        product_id,
-        retailer_id: "amazon",
-        external_id: externalId,
-        external_name: `Amazon: ${externalId}`,
-        external_price: numericPrice,
-        match_score: 1.0,
-        status: "approved",
-        reviewed_at: new Date().toISOString(),
-      },
-      { onConflict: "product_id,retailer_id" }
-    );
-
-    // Upsert price_listing
-    await supabase.from("price_listings").upsert(
-      {
-        product_id,
-        retailer_id: "amazon",
-        external_id: externalId,
-        price: numericPrice,
-        in_stock: true,
-        product_url: amazon_url,
-        affiliate_url: affiliateUrl,
-        last_checked: new Date().toISOString(),
-      },
-      { onConflict: "retailer_id,external_id" }
-    );
-
-    // Update product price to lowest
-    await updateProductLowestPrice(product_id);
-
+    await audited(req, "amazon_link", `amazon: ${externalId}`, async (audit) => {
+      // Upsert product_match
+      await trackRows(audit, "product_matches", { product_id, retailer_id: "amazon" }, async () => {
+        const { error: matchError } = await supabase.from("product_matches").upsert(
+          {
+            product_id,
+            retailer_id: "amazon",
+            external_id: externalId,
+            external_name: `Amazon: ${externalId}`,
+            external_price: numericPrice,
+            match_score: 1.0,
+            status: "approved",
+            reviewed_at: new Date().toISOString(),
+          },
+          { onConflict: "product_id,retailer_id" }
+        );
+        if (matchError) throw new Error(`Failed to save Amazon match: ${matchError.message}`);
+      });
+
+      // Upsert price_listing
+      await trackRows(audit, "price_listings", { retailer_id: "amazon", external_id: externalId }, async () => {
+        const { error: listingError } = await supabase.from("price_listings").upsert(
+          {
+            product_id,
+            retailer_id: "amazon",
+            external_id: externalId,
+            price: numericPrice,
+            in_stock: true,
+            product_url: amazon_url,
+            affiliate_url: affiliateUrl,
+            last_checked: new Date().toISOString(),
+          },
+          { onConflict: "retailer_id,external_id" }
+        );
+        if (listingError) throw new Error(`Failed to save Amazon listing: ${listingError.message}`);
+      });
+    });
     res.redirect("/");
   } catch (err) {
     console.error("Amazon link error:", err);
@@ -336,17 +499,28 @@ app.post("/amazon-link", async (req: Request, res: Response) => {
 
 app.post("/retailer/:id/update", async (req: Request, res: Response) => {
   try {
-    const { affiliate_tag, is_active } = req.body as {
+    const { affiliate_tag, is_active, shipping_cost, free_shipping_min } = req.body as {
       affiliate_tag?: string;
       is_active?: string;
+      shipping_cost?: string;
+      free_shipping_min?: string;
     };
-    await supabase
-      .from("retailers")
-      .update({
-        affiliate_tag: affiliate_tag || null,
-        is_active: is_active === "on",
+    const amount = (value: string | undefined) => (value?.trim() ? Number(value) : null);
+    const id = req.params.id as string;
+    await audited(req, "retailer.update", id, (audit) =>
+      trackRows(audit, "retailers", { id }, async () => {
+        const { error: updateError } = await supabase
+          .from("retailers")
+          .update({
+            affiliate_tag: affiliate_tag || null,
+            is_active: is_active === "on",
+            shipping_cost: amount(shipping_cost),
+            free_shipping_min: amount(free_shipping_min),
+          })
+          .eq("id", id);
+        if (updateError) throw new Error(`Failed to update retailer ${id}: ${updateError.message}`);
       })
-      .eq("id", req.params.id as string);
+    );
     res.redirect("/");
   } catch (err) {
     console.error("Retailer update error:", err);
@@ -354,6 +528,439 @@ app.post("/retailer/:id/update", async (req: Request, res: Response) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// GET /audit — admin change history (?product=<id> for one product)
+// ---------------------------------------------------------------------------
+
+app.get("/audit", async (req: Request, res: Response) => {
+  try {
+    const productId = (req.query.product as string | undefined) || null;
+
+    let query = supabase
+      .from("admin_audit")
+      .select("id, action, admin, summary, product_ids, changes, revert_of, reverted_at, reverted_by, created_at")
+      .order("created_at", { ascending: false })
+      .limit(AUDIT_ENTRIES_SHOWN);
+    if (productId) query = query.contains("product_ids", [productId]);
+    const { data: entries, error } = await query;
+    if (error) throw new Error(error.message);
+
+    let product: Record<string, unknown> | null = null;
+    if (productId) {
+      const { data } = await supabase.from("products").select("id, name, brand").eq("id", productId).maybeSingle();
+      product = data;
+    }
+
+    res.send(auditPage(entries ?? [], productId, product));
+  } catch (err) {
+    console.error("Audit log error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /audit/:id/revert — restore the rows an audited action changed
+// ---------------------------------------------------------------------------
+
+app.post("/audit/:id/revert", async (req: Request, res: Response) => {
+  try {
+    await revertAudit(req, req.params.id as string);
+    const product = req.body.product as string | undefined;
+    res.redirect(product ? `/audit?product=${encodeURIComponent(product)}` : "/audit");
+  } catch (err) {
+    console.error("Revert error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /products?q=... — product console search
+// ---------------------------------------------------------------------------
+
+app.get("/products", async (req: Request, res: Response) => {
+  try {
+    const q = ((req.query.q as string) ?? "").trim();
+    let products: Array<Record<string, unknown>> = [];
+    if (q.length >= 2) {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, brand, category_id, price, in_stock")
+        .ilike("name", `%${q}%`)
+        .order("name")
+        .limit(PAGE_SIZE);
+      if (error) throw new Error(error.message);
+      products = data ?? [];
+    }
+    res.send(productSearchPage(q, products));
+  } catch (err) {
+    console.error("Product search error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /products/:id — listings (for splitting) and duplicate candidates
+// ---------------------------------------------------------------------------
+
+app.get("/products/:id", async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { data: product, error } = await supabase
+      .from("products")
+      .select("id, name, brand, category_id, price, in_stock, ppi_score, image_url")
+      .eq("id", id)
+      .single();
+    if (error || !product) throw new Error(`Product ${id} not found: ${error?.message}`);
+
+    const [{ data: listings }, candidates] = await Promise.all([
+      supabase
+        .from("price_listings")
+        .select("id, retailer_id, external_id, price, currency, price_usd, in_stock, product_url, last_checked")
+        .eq("product_id", id)
+        .order("retailer_id"),
+      findDuplicateCandidates(product),
+    ]);
+
+    res.send(productPage(product, listings ?? [], candidates));
+  } catch (err) {
+    console.error("Product page error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /products/:id/merge?loser=... — preview what a merge would move
+// ---------------------------------------------------------------------------
+
+app.get("/products/:id/merge", async (req: Request, res: Response) => {
+  try {
+    const winnerId = req.params.id as string;
+    const loserIds = formList(req.query.loser).filter((l) => l !== winnerId);
+    if (loserIds.length === 0) {
+      res.status(400).send("Select at least one product to merge");
+      return;
+    }
+    res.send(mergePreviewPage(await loadMergePreview(winnerId, loserIds)));
+  } catch (err) {
+    console.error("Merge preview error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /products/:id/merge — merge the losers into this product
+// ---------------------------------------------------------------------------
+
+app.post("/products/:id/merge", async (req: Request, res: Response) => {
+  try {
+    const winnerId = req.params.id as string;
+    const loserIds = formList(req.body.loser).filter((l) => l !== winnerId);
+    if (loserIds.length === 0) {
+      res.status(400).send("Select at least one product to merge");
+      return;
+    }
+
+    const { data: names } = await supabase.from("products").select("id, name").in("id", [winnerId, ...loserIds]);
+    const nameOf = (pid: string) => names?.find((n) => n.id === pid)?.name ?? pid;
+
+    const summary = `Merged ${loserIds.map(nameOf).join(", ")} into ${nameOf(winnerId)}`;
+    await audited(req, "product.merge", summary, async (audit) => {
+      for (const pid of [winnerId, ...loserIds]) audit.productIds.add(pid);
+      const { data: counts, error } = await supabase.rpc("merge_products", {
+        p_winner: winnerId,
+        p_losers: loserIds,
+      });
+      if (error) throw new Error(`Merge failed: ${error.message}`);
+      audit.summary = `${summary} — ${JSON.stringify(counts)}`;
+    });
+    res.redirect(`/products/${encodeURIComponent(winnerId)}`);
+  } catch (err) {
+    console.error("Merge error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /products/:id/split — move the selected listings to a new product
+// ---------------------------------------------------------------------------
+
+app.post("/products/:id/split", async (req: Request, res: Response) => {
+  try {
+    const sourceId = req.params.id as string;
+    const listingIds = formList(req.body.listing_id);
+    const { name, brand } = req.body as { name?: string; brand?: string };
+    if (listingIds.length === 0 || !name?.trim()) {
+      res.status(400).send("Select the listings to split off and name the new product");
+      return;
+    }
+
+    const newId = await audited(
+      req,
+      "product.split",
+      `Split ${listingIds.length} listing(s) off into "${name.trim()}"`,
+      async (audit) => {
+        audit.productIds.add(sourceId);
+        const { data, error } = await supabase.rpc("split_product", {
+          p_source: sourceId,
+          p_listing_ids: listingIds,
+          p_name: name,
+          p_brand: brand ?? null,
+        });
+        if (error) throw new Error(`Split failed: ${error.message}`);
+        audit.productIds.add(data as string);
+        return data as string;
+      }
+    );
+    res.redirect(`/products/${encodeURIComponent(newId)}`);
+  } catch (err) {
+    console.error("Split error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /triage — category triage with suggested reclassifications
+// ---------------------------------------------------------------------------
+
+app.get("/triage", async (req: Request, res: Response) => {
+  try {
+    const category = (req.query.category as string) || TRIAGE_DEFAULT_CATEGORY;
+    const q = ((req.query.q as string) ?? "").trim().toLowerCase();
+    const suggestedOnly = req.query.suggested === "1";
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+
+    const { data: categories } = await supabase.from("categories").select("id, name").order("sort_order");
+
+    // Suggestions need every product in the category, so filter and page in memory
+    const rows: TriageRow[] = [];
+    let offset = 0;
+    while (true) {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, brand, category_id, image_url, price")
+        .eq("category_id", category)
+        .order("name")
+        .range(offset, offset + 999);
+      if (error) throw new Error(error.message);
+      if (!data || data.length === 0) break;
+      for (const p of data) rows.push({ ...p, suggestion: triageSuggestion(p) });
+      offset += data.length;
+      if (data.length < 1000) break;
+    }
+
+    const filtered = rows.filter(
+      (p) =>
+        (!suggestedOnly || p.suggestion !== null) &&
+        (!q || p.name.toLowerCase().includes(q) || (p.brand ?? "").toLowerCase().includes(q))
+    );
+
+    res.send(
+      triagePage({
+        categories: categories ?? [],
+        category,
+        q: (req.query.q as string) ?? "",
+        suggestedOnly,
+        page,
+        totalPages: Math.max(1, Math.ceil(filtered.length / PAGE_SIZE)),
+        total: filtered.length,
+        suggestedCount: rows.filter((p) => p.suggestion !== null).length,
+        products: filtered.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+        message: (req.query.msg as string) ?? null,
+      })
+    );
+  } catch (err) {
+    console.error("Triage error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /triage — apply a decision to the selected products
+//   action: a category id, DELETE, or SUGGESTED (each product's suggestion);
+//   apply=<id>:<action> applies to one row
+// ---------------------------------------------------------------------------
+
+app.post("/triage", async (req: Request, res: Response) => {
+  const back = new URLSearchParams({
+    category: String(req.body.category ?? TRIAGE_DEFAULT_CATEGORY),
+    q: String(req.body.q ?? ""),
+    suggested: String(req.body.suggested ?? ""),
+    page: String(req.body.page ?? "1"),
+  });
+  try {
+    let ids = formList(req.body.product_id);
+    let action = String(req.body.action ?? "");
+    if (req.body.apply) {
+      const [id, rowAction] = String(req.body.apply).split(":");
+      ids = [id];
+      action = rowAction;
+    }
+    if (ids.length === 0 || !action) {
+      back.set("msg", "Select products and an action first.");
+      res.redirect(`/triage?${back}`);
+      return;
+    }
+
+    const { data: products, error } = await supabase
+      .from("products")
+      .select("id, name, brand, category_id")
+      .in("id", ids);
+    if (error) throw new Error(error.message);
+
+    const decisions: Row[] = [];
+    const failures: string[] = [];
+    const actionLabel = action === "SUGGESTED" ? "applied suggestions" : action === "DELETE" ? "deleted" : `moved to ${action}`;
+    await audited(req, "triage", actionLabel, async (audit) => {
+      for (const product of products ?? []) {
+        const suggestion = triageSuggestion(product);
+        const decision = action === "SUGGESTED" ? suggestion : action;
+        if (!decision || decision === product.category_id) continue;
+
+        const { result } = await trackRows(audit, "products", { id: product.id }, () =>
+          decision === "DELETE"
+            ? supabase.from("products").delete().eq("id", product.id)
+            : supabase.from("products").update({ category_id: decision }).eq("id", product.id)
+        );
+        if (result.error) {
+          failures.push(`${product.name}: ${result.error.message}`);
+          continue;
+        }
+        decisions.push({
+          product_id: decision === "DELETE" ? null : product.id,
+          product_name: product.name,
+          brand: product.brand,
+          action: decision === "DELETE" ? "delete" : "move",
+          from_category: product.category_id,
+          to_category: decision === "DELETE" ? null : decision,
+          suggested_category: suggestion,
+          decided_by: adminName(req),
+        });
+        audit.summary = `${decisions.length} product(s): ${actionLabel}`;
+      }
+    });
+
+    if (decisions.length > 0) {
+      const { error: candidateError } = await supabase.from("category_rule_candidates").insert(decisions);
+      if (candidateError) console.error("Failed to save rule candidates:", candidateError.message);
+    }
+
+    for (const f of failures) console.error("Triage failed:", f);
+    back.set(
+      "msg",
+      `Saved ${decisions.length} decision(s).` +
+        (failures.length > 0 ? ` ${failures.length} failed (products still in builds cannot be deleted): ${failures.join("; ")}` : "")
+    );
+    res.redirect(`/triage?${back}`);
+  } catch (err) {
+    console.error("Triage save error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /moderation — reported and auto-flagged community content
+// ---------------------------------------------------------------------------
+
+app.get("/moderation", async (req: Request, res: Response) => {
+  try {
+    const [reportsRes, flaggedBuildsRes, commentsRes] = await Promise.all([
+      supabase
+        .from("build_reports")
+        .select("id, build_id, reason, details, created_at")
+        .is("resolved_at", null)
+        .order("created_at", { ascending: false })
+        .limit(MODERATION_ITEMS_SHOWN * 5),
+      supabase
+        .from("builds")
+        .select("id")
+        .eq("is_flagged", true)
+        .is("reviewed_at", null)
+        .order("flagged_at", { ascending: false })
+        .limit(MODERATION_ITEMS_SHOWN),
+      supabase
+        .from("build_comments")
+        .select("id, client_hash, is_flagged, flag_reason, body, author_name, created_at, build:builds(share_code, name)")
+        .eq("is_flagged", true)
+        .is("reviewed_at", null)
+        .order("flagged_at", { ascending: false })
+        .limit(MODERATION_ITEMS_SHOWN),
+    ]);
+    for (const r of [reportsRes, flaggedBuildsRes, commentsRes]) {
+      if (r.error) throw new Error(r.error.message);
+    }
+
+    const reports = reportsRes.data ?? [];
+    const buildIds = [...new Set([...reports.map((r) => r.build_id), ...(flaggedBuildsRes.data ?? []).map((b) => b.id)])];
+    const { data: builds, error } = buildIds.length > 0
+      ? await supabase
+          .from("builds")
+          .select("id, share_code, client_hash, is_flagged, flag_reason, name, description, author_name, created_at")
+          .in("id", buildIds.slice(0, MODERATION_ITEMS_SHOWN))
+      : { data: [], error: null };
+    if (error) throw new Error(error.message);
+
+    const queue: ModerationBuild[] = (builds ?? []).map((b) => ({
+      ...b,
+      reports: reports.filter((r) => r.build_id === b.id),
+    }));
+    // Hidden and most-reported first
+    queue.sort((a, b) => Number(b.is_flagged) - Number(a.is_flagged) || b.reports.length - a.reports.length);
+
+    res.send(moderationPage(queue, commentsRes.data ?? [], (req.query.msg as string) ?? null));
+  } catch (err) {
+    console.error("Moderation error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /moderation/:kind/:id/:action — kind build|comment, action
+//   approve (visible), flag (hidden) or ban (hide everything the client
+//   posted and stop it posting)
+// ---------------------------------------------------------------------------
+
+app.post("/moderation/:kind/:id/:action", async (req: Request, res: Response) => {
+  try {
+    const kind = req.params.kind as string;
+    const id = req.params.id as string;
+    const action = req.params.action as string;
+    if (!["build", "comment"].includes(kind) || !["approve", "flag", "ban"].includes(action)) {
+      res.status(400).send("Unknown moderation action");
+      return;
+    }
+    const table = kind === "build" ? "builds" : "build_comments";
+    const [row] = await selectRows(table, { id });
+    if (!row) throw new Error(`${kind} ${id} not found`);
+
+    const now = new Date().toISOString();
+    if (action === "ban" && !row.client_hash) {
+      res.redirect(`/moderation?msg=${encodeURIComponent(`This ${kind} has no client hash to ban; flag it instead.`)}`);
+      return;
+    }
+    const summary = await audited(req, `moderation.${action}`, `${action} ${kind} ${id}`, async (audit) => {
+      if (action === "ban") {
+        const hidden = await banClientHash(req, audit, String(row.client_hash), `${kind} ${id}`);
+        audit.summary = `Banned client ${String(row.client_hash).slice(0, 8)}, hid ${hidden} build(s)/comment(s)`;
+      } else {
+        const approve = action === "approve";
+        await moderateRows(audit, table, { id }, {
+          is_flagged: !approve,
+          flagged_at: approve ? null : row.flagged_at ?? now,
+          flag_reason: approve ? null : row.flag_reason ?? "manual",
+          reviewed_at: now,
+        });
+        if (kind === "build") await resolveReports(audit, id, approve ? "approved" : "flagged");
+        audit.summary = `${approve ? "Approved" : "Flagged"} ${kind} ${kind === "build" ? row.share_code : id.slice(0, 8)}`;
+      }
+      return audit.summary;
+    });
+    res.redirect(`/moderation?msg=${encodeURIComponent(summary)}`);
+  } catch (err) {
+    console.error("Moderation action error:", err);
+    res.status(500).send(`<pre>Error: ${esc(err)}</pre>`);
+  }
+});
+
 // ---------------------------------------------------------------------------
 // GET /api/products/search?q=...
 // ---------------------------------------------------------------------------
@@ -376,14 +983,17 @@ app.get("/api/products/search", async (req: Request, res: Response) => {
 // Approve logic
 // ---------------------------------------------------------------------------
 
-async function approveMatch(matchId: string): Promise<void> {
+async function approveMatch(audit: Audit, matchId: string): Promise<Row> {
   // 1. Update match status
-  const { data: match, error: matchErr } = await supabase
-    .from("product_matches")
-    .update({ status: "approved", reviewed_at: new Date().toISOString() })
-    .eq("id", matchId)
-    .select("*")
-    .single();
+  const { result } = await trackRows(audit, "product_matches", { id: matchId }, () =>
+    supabase
+      .from("product_matches")
+      .update({ status: "approved", reviewed_at: new Date().toISOString() })
+      .eq("id", matchId)
+      .select("*")
+      .single()
+  );
+  const { data: match, error: matchErr } = result;
 
   if (matchErr || !match) {
     throw new Error(`Failed to update match ${matchId}: ${matchErr?.message}`);
@@ -424,44 +1034,653 @@ async function approveMatch(matchId: string): Promise<void> {
   }
 
   // 5. Upsert price_listing
-  await supabase.from("price_listings").upsert(
-    {
-      product_id: match.product_id,
-      retailer_id: match.retailer_id,
-      external_id: match.external_id,
-      price: match.external_price ?? 0,
-      in_stock: true,
-      product_url: productUrl,
-      affiliate_url: affiliateUrl,
-      last_checked: new Date().toISOString(),
-    },
-    { onConflict: "retailer_id,external_id" }
+  await trackRows(
+    audit,
+    "price_listings",
+    { retailer_id: match.retailer_id, external_id: match.external_id },
+    async () => {
+      const { error: listingError } = await supabase.from("price_listings").upsert(
+        {
+          product_id: match.product_id,
+          retailer_id: match.retailer_id,
+          external_id: match.external_id,
+          price: match.external_price ?? 0,
+          in_stock: true,
+          product_url: productUrl,
+          affiliate_url: affiliateUrl,
+          last_checked: new Date().toISOString(),
+        },
+        { onConflict: "retailer_id,external_id" }
+      );
+      if (listingError) throw new Error(`Failed to publish listing for match ${matchId}: ${listingError.message}`);
+    }
   );
+  // products.price follows from the listing (refresh_product_prices trigger)
 
-  // 6. Update product price to the lowest across all in-stock listings
-  await updateProductLowestPrice(match.product_id);
+  return match;
 }
 
-async function updateProductLowestPrice(productId: string): Promise<void> {
-  const { data: listings } = await supabase
-    .from("price_listings")
-    .select("price, affiliate_url")
-    .eq("product_id", productId)
-    .eq("in_stock", true)
-    .gt("price", 0)
-    .order("price", { ascending: true })
-    .limit(1);
+// ---------------------------------------------------------------------------
+// Triage
+// ---------------------------------------------------------------------------
+
+type TriageRow = {
+  id: string;
+  name: string;
+  brand: string | null;
+  category_id: string;
+  image_url: string | null;
+  price: number | null;
+  suggestion: string | null;
+};
 
-  if (listings && listings.length > 0) {
-    await supabase
+/**
+ * Where the sync's own rules would put this product: DELETE for junk, a
+ * category from detectCorrectCategory(), or null when it looks right.
+ */
+function triageSuggestion(p: { name: string; brand: string | null; category_id: string }): string | null {
+  if (isJunkProduct(p.name)) return "DELETE";
+  if (p.category_id === "microphone" && isMicrophoneJunk(p.name)) return "DELETE";
+  return detectCorrectCategory(p.name, p.brand, p.category_id as CategoryId);
+}
+
+interface TriagePageData {
+  categories: Row[];
+  category: string;
+  q: string;
+  suggestedOnly: boolean;
+  page: number;
+  totalPages: number;
+  total: number;
+  suggestedCount: number;
+  products: TriageRow[];
+  message: string | null;
+}
+
+function triagePage(d: TriagePageData): string {
+  const categoryName = (id: string | null) =>
+    id === "DELETE" ? "Delete (junk)" : esc(d.categories.find((c) => c.id === id)?.name ?? id ?? "");
+  const categoryOptions = d.categories
+    .filter((c) => c.id !== d.category)
+    .map((c) => `<option value="${esc(c.id)}">${esc(c.name)}</option>`)
+    .join("");
+  const query = (page: number) =>
+    `/triage?${new URLSearchParams({ category: d.category, q: d.q, suggested: d.suggestedOnly ? "1" : "", page: String(page) })}`;
+
+  const rows = d.products
+    .map((p) => `<tr data-id="${esc(p.id)}" data-suggestion="${esc(p.suggestion ?? "")}">
+        <td><input type="checkbox" name="product_id" value="${esc(p.id)}"></td>
+        <td>${p.image_url ? `<img class="triage-thumb" src="${esc(p.image_url)}" alt="" loading="lazy">` : ""}</td>
+        <td><a href="/products/${esc(p.id)}">${productLabel(p)}</a></td>
+        <td>${priceCell({ ...p, in_stock: true })}</td>
+        <td>${p.suggestion ? `<span class="score-badge" style="background:${p.suggestion === "DELETE" ? "#e74c3c" : "#2980b9"}">${categoryName(p.suggestion)}</span>` : '<span class="muted">—</span>'}</td>
+        <td class="actions-cell">
+          ${p.suggestion ? `<button type="submit" name="apply" value="${esc(p.id)}:${esc(p.suggestion)}" class="btn btn-green btn-sm">Apply</button>` : ""}
+          <button type="submit" name="apply" value="${esc(p.id)}:DELETE" class="btn btn-red btn-sm" onclick="return confirm('Delete this product?')">Delete</button>
+        </td>
+      </tr>`)
+    .join("");
+
+  const pagination =
+    d.totalPages > 1
+      ? `<div class="pagination">
+        ${d.page > 1 ? `<a href="${esc(query(d.page - 1))}">&laquo; Prev</a>` : ""}
+        <span class="current">${d.page} / ${d.totalPages}</span>
+        ${d.page < d.totalPages ? `<a href="${esc(query(d.page + 1))}">Next &raquo;</a>` : ""}
+      </div>`
+      : "";
+
+  // j/k move, x select, a apply suggestion, A apply to selected, d delete selected, m move, / search
+  const script = `
+  <script>
+  (function() {
+    const form = document.getElementById('triage-form');
+    const rows = Array.from(document.querySelectorAll('#triage-rows tr[data-id]'));
+    const action = document.getElementById('triage-action');
+    let focused = -1;
+
+    function focus(i) {
+      if (rows.length === 0) return;
+      focused = Math.max(0, Math.min(rows.length - 1, i));
+      rows.forEach((r, j) => r.classList.toggle('focused', j === focused));
+      rows[focused].scrollIntoView({ block: 'nearest' });
+    }
+    function submitBulk(value) {
+      if (!form.querySelector('input[name=product_id]:checked')) return;
+      action.value = value;
+      form.submit();
+    }
+
+    document.getElementById('select-all').addEventListener('change', function() {
+      form.querySelectorAll('input[name=product_id]').forEach(c => { c.checked = this.checked; });
+    });
+
+    document.addEventListener('keydown', function(e) {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.target.matches('input[type=text], select')) {
+        if (e.key === 'Escape') e.target.blur();
+        return;
+      }
+      const row = rows[focused];
+      if (e.key === 'j') focus(focused + 1);
+      else if (e.key === 'k') focus(focused - 1);
+      else if (e.key === 'x' && row) { const c = row.querySelector('input[name=product_id]'); c.checked = !c.checked; }
+      else if (e.key === 'a' && row && row.dataset.suggestion) row.querySelector('button[name=apply]').click();
+      else if (e.key === 'A') submitBulk('SUGGESTED');
+      else if (e.key === 'd') { if (confirm('Delete the selected products?')) submitBulk('DELETE'); }
+      else if (e.key === 'm') action.focus();
+      else if (e.key === '/') document.getElementById('triage-search').focus();
+      else return;
+      e.preventDefault();
+    });
+  })();
+  </script>`;
+
+  return subPage(
+    "Category triage",
+    `<div class="nav"><a href="/">&laquo; Dashboard</a> · <a href="/audit">Admin history</a></div>
+  <h1>Category triage</h1>
+  <p class="muted">Suggestions come from the sync's own rules (detectCorrectCategory / junk patterns).
+    Every decision is saved as a rule candidate; run <code>npm run export:category-rules</code> to write them into scripts/config/category-rules.ts.
+    Keys: j/k move, x select, a apply suggestion, A apply suggestions to selected, d delete selected, m move selected, / search.</p>
+  ${d.message ? `<div class="section">${esc(d.message)}</div>` : ""}
+  <form method="GET" action="/triage" class="form-row">
+    <select name="category" onchange="this.form.submit()">
+      ${d.categories.map((c) => `<option value="${esc(c.id)}"${c.id === d.category ? " selected" : ""}>${esc(c.name)}</option>`).join("")}
+    </select>
+    <input type="text" id="triage-search" name="q" value="${esc(d.q)}" placeholder="Filter by name or brand..." style="min-width:280px;">
+    <label class="check-row" style="margin:0;"><input type="checkbox" name="suggested" value="1"${d.suggestedOnly ? " checked" : ""}> With suggestion only</label>
+    <button type="submit" class="btn btn-blue">Filter</button>
+    <span class="muted">${d.total} shown, ${d.suggestedCount} with a suggestion</span>
+  </form>
+  <form method="POST" action="/triage" id="triage-form">
+    <input type="hidden" name="category" value="${esc(d.category)}">
+    <input type="hidden" name="q" value="${esc(d.q)}">
+    <input type="hidden" name="suggested" value="${d.suggestedOnly ? "1" : ""}">
+    <input type="hidden" name="page" value="${d.page}">
+    <div class="bulk-bar">
+      <select name="action" id="triage-action">
+        <option value="">Selected products…</option>
+        <option value="SUGGESTED">Apply suggestion</option>
+        <option value="DELETE">Delete (junk)</option>
+        <optgroup label="Move to">${categoryOptions}</optgroup>
+      </select>
+      <button type="submit" class="btn btn-blue">Apply to selected</button>
+    </div>
+    <table>
+      <thead><tr><th><input type="checkbox" id="select-all"></th><th></th><th>Product</th><th>Price</th><th>Suggestion</th><th>Actions</th></tr></thead>
+      <tbody id="triage-rows">${rows || '<tr><td colspan="6" style="text-align:center;padding:24px;color:#888;">Nothing to triage.</td></tr>'}</tbody>
+    </table>
+  </form>
+  ${pagination}
+  ${script}`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Merge / split console
+// ---------------------------------------------------------------------------
+
+/** A repeated form or query field as a list (express gives a string for one value) */
+function formList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value != null ? [value] : [];
+  return values.map(String).filter((v) => v.length > 0);
+}
+
+/**
+ * Products in the same category whose normalized name is close to this one
+ * (the same normalizeName / diceCoefficient the sync scripts match with).
+ * Products from a clearly different brand are left out.
+ */
+async function findDuplicateCandidates(product: Row): Promise<Array<Row & { score: number }>> {
+  const target = normalizeName(String(product.name));
+  const candidates: Array<Row & { score: number }> = [];
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await supabase
       .from("products")
-      .update({
-        price: listings[0].price,
-        affiliate_url: listings[0].affiliate_url,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", productId);
+      .select("id, name, brand, price, in_stock, ppi_score")
+      .eq("category_id", product.category_id as string)
+      .neq("id", product.id as string)
+      .range(offset, offset + 999);
+    if (error) throw new Error(`Failed to load candidates: ${error.message}`);
+    if (!data || data.length === 0) break;
+
+    for (const c of data) {
+      if (brandsSimilar(product.brand as string | null, c.brand) === "different") continue;
+      const score = diceCoefficient(target, normalizeName(c.name));
+      if (score >= DUPLICATE_MIN_SCORE) candidates.push({ ...c, score });
+    }
+    offset += data.length;
+    if (data.length < 1000) break;
   }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, DUPLICATE_CANDIDATES_SHOWN);
+}
+
+interface MergePreview {
+  winner: Row;
+  losers: Array<{
+    product: Row;
+    listings: Row[];
+    matches: Array<Row & { dropped: boolean }>;
+    buildItems: number;
+    priceHistory: number;
+    storeProducts: number;
+    priceWatches: number;
+    stockEvents: number;
+  }>;
+}
+
+async function countRows(table: string, column: string, id: string): Promise<number> {
+  const { count } = await supabase.from(table).select("*", { count: "exact", head: true }).eq(column, id);
+  return count ?? 0;
+}
+
+/** What merge_products() would move for each loser, read without changing anything */
+async function loadMergePreview(winnerId: string, loserIds: string[]): Promise<MergePreview> {
+  const { data: products, error } = await supabase
+    .from("products")
+    .select("id, name, brand, category_id, price, in_stock, ppi_score")
+    .in("id", [winnerId, ...loserIds]);
+  if (error) throw new Error(error.message);
+  const winner = products?.find((p) => p.id === winnerId);
+  if (!winner) throw new Error(`Product ${winnerId} not found`);
+
+  const { data: winnerMatches } = await supabase
+    .from("product_matches")
+    .select("retailer_id")
+    .eq("product_id", winnerId);
+  const winnerRetailers = new Set((winnerMatches ?? []).map((m) => m.retailer_id));
+
+  const losers: MergePreview["losers"] = [];
+  for (const loserId of loserIds) {
+    const product = products?.find((p) => p.id === loserId);
+    if (!product) throw new Error(`Product ${loserId} not found`);
+
+    const [{ data: listings }, { data: matches }, buildItems, priceHistory, storeProducts, priceWatches, stockEvents] =
+      await Promise.all([
+        supabase
+          .from("price_listings")
+          .select("id, retailer_id, external_id, price, currency, in_stock")
+          .eq("product_id", loserId),
+        supabase
+          .from("product_matches")
+          .select("id, retailer_id, external_name, status")
+          .eq("product_id", loserId),
+        countRows("build_items", "product_id", loserId),
+        countRows("price_history", "product_id", loserId),
+        countRows("store_products", "canonical_product_id", loserId),
+        countRows("price_watches", "product_id", loserId),
+        countRows("stock_events", "product_id", loserId),
+      ]);
+
+    losers.push({
+      product,
+      listings: listings ?? [],
+      // Mirrors merge_products(): the winner keeps its own match for a retailer
+      matches: (matches ?? []).map((m) => ({ ...m, dropped: winnerRetailers.has(m.retailer_id) })),
+      buildItems,
+      priceHistory,
+      storeProducts,
+      priceWatches,
+      stockEvents,
+    });
+  }
+
+  return { winner, losers };
+}
+
+// ---------------------------------------------------------------------------
+// Moderation (build_reports / banned_client_hashes, migration 031)
+// ---------------------------------------------------------------------------
+
+type ModerationBuild = Row & { reports: Row[] };
+
+/** Update the matching rows under `audit` and return what changed */
+async function moderateRows(
+  audit: Audit,
+  table: AuditTable,
+  filter: Record<string, string>,
+  update: Row
+): Promise<AuditChange[]> {
+  const { result, changes } = await trackRows(audit, table, filter, () => supabase.from(table).update(update).match(filter));
+  if (result.error) throw new Error(`Failed to update ${table}: ${result.error.message}`);
+  return changes;
+}
+
+/** Close a build's open reports with the admin's decision */
+async function resolveReports(audit: Audit, buildId: string, resolution: "approved" | "flagged"): Promise<void> {
+  const { result } = await trackRows(audit, "build_reports", { build_id: buildId }, () =>
+    supabase
+      .from("build_reports")
+      .update({ resolved_at: new Date().toISOString(), resolution })
+      .eq("build_id", buildId)
+      .is("resolved_at", null)
+  );
+  if (result.error) throw new Error(`Failed to resolve reports: ${result.error.message}`);
+}
+
+/**
+ * Ban a client hash (the triggers from 031 then reject its builds, comments
+ * and reports; votes use a separate voter hash, see 041) and hide
+ * every build and comment it already posted. Returns how many were hidden.
+ */
+async function banClientHash(req: Request, audit: Audit, clientHash: string, reason: string): Promise<number> {
+  const { result } = await trackRows(audit, "banned_client_hashes", { client_hash: clientHash }, () =>
+    supabase
+      .from("banned_client_hashes")
+      .upsert({ client_hash: clientHash, reason, banned_by: adminName(req) }, { onConflict: "client_hash" })
+  );
+  if (result.error) throw new Error(`Failed to ban ${clientHash}: ${result.error.message}`);
+
+  const now = new Date().toISOString();
+  const hide = { is_flagged: true, flag_reason: "banned", reviewed_at: now };
+  const buildChanges = await moderateRows(audit, "builds", { client_hash: clientHash }, hide);
+  const commentChanges = await moderateRows(audit, "build_comments", { client_hash: clientHash }, hide);
+  for (const c of buildChanges) await resolveReports(audit, String(c.after!.id), "flagged");
+
+  // flagged_at stays as it was on rows that were already hidden
+  for (const c of [...buildChanges, ...commentChanges]) {
+    if (c.before?.flagged_at || !c.after) continue;
+    await moderateRows(audit, c.table, { id: String(c.after.id) }, { flagged_at: now });
+  }
+  return buildChanges.length + commentChanges.length;
+}
+
+function flagReasonBadge(row: Row): string {
+  if (!row.is_flagged) return '<span class="muted">visible</span>';
+  const reason = String(row.flag_reason ?? "manual");
+  const color = reason === "reports" ? "#e67e22" : reason.startsWith("auto") ? "#8e44ad" : "#e74c3c";
+  return `<span class="score-badge" style="background:${color}">hidden: ${esc(reason)}</span>`;
+}
+
+function moderationActions(kind: "build" | "comment", id: unknown): string {
+  const action = (name: string) => `/moderation/${kind}/${esc(id)}/${name}`;
+  return `<form method="POST" action="${action("approve")}" style="display:inline;"><button class="btn btn-green btn-sm" type="submit">Approve</button></form>
+    <form method="POST" action="${action("flag")}" style="display:inline;"><button class="btn btn-red btn-sm" type="submit">Flag</button></form>
+    <form method="POST" action="${action("ban")}" style="display:inline;" onsubmit="return confirm('Ban this client and hide everything it posted?')"><button class="btn btn-red btn-sm" type="submit">Ban hash</button></form>`;
+}
+
+function moderationPage(builds: ModerationBuild[], comments: Row[], message: string | null): string {
+  const buildRows = builds
+    .map((b) => {
+      const reasons = new Map<string, number>();
+      for (const r of b.reports) reasons.set(String(r.reason), (reasons.get(String(r.reason)) ?? 0) + 1);
+      const details = b.reports.filter((r) => r.details).map((r) => `<li>${esc(r.details)}</li>`).join("");
+      return `<tr>
+        <td>
+          <a href="${esc(`${SITE_URL}/build/${b.share_code}`)}" target="_blank" rel="noopener">${esc(b.name)}</a>
+          <div class="muted">by ${esc(b.author_name || "Anonymous")} · ${esc(String(b.created_at).slice(0, 10))}</div>
+          ${b.description ? `<div class="ext-name" title="${esc(b.description)}">${esc(b.description)}</div>` : ""}
+        </td>
+        <td>${flagReasonBadge(b)}</td>
+        <td>
+          ${b.reports.length > 0 ? `<strong>${b.reports.length}</strong> · ${[...reasons].map(([r, n]) => `${esc(r)}${n > 1 ? ` ×${n}` : ""}`).join(", ")}` : '<span class="muted">—</span>'}
+          ${details ? `<ul class="muted">${details}</ul>` : ""}
+        </td>
+        <td><code>${esc(String(b.client_hash ?? "").slice(0, 8))}</code></td>
+        <td class="actions-cell">${moderationActions("build", b.id)}</td>
+      </tr>`;
+    })
+    .join("");
+
+  const commentRows = comments
+    .map((c) => {
+      const build = c.build as Row | null;
+      return `<tr>
+        <td>
+          <div style="white-space:pre-line;">${esc(c.body)}</div>
+          <div class="muted">by ${esc(c.author_name || "Anonymous")} · ${esc(String(c.created_at).slice(0, 10))}${build ? ` · on <a href="${esc(`${SITE_URL}/build/${build.share_code}`)}" target="_blank" rel="noopener">${esc(build.name)}</a>` : ""}</div>
+        </td>
+        <td>${flagReasonBadge(c)}</td>
+        <td><code>${esc(String(c.client_hash ?? "").slice(0, 8))}</code></td>
+        <td class="actions-cell">${moderationActions("comment", c.id)}</td>
+      </tr>`;
+    })
+    .join("");
+
+  return subPage(
+    "Moderation queue",
+    `<div class="nav"><a href="/">&laquo; Dashboard</a> · <a href="/audit">Admin history</a></div>
+  <h1>Moderation queue</h1>
+  <p class="muted">Builds with open reports (hidden automatically after 3 different reporters) and builds and comments hidden by the spam filter.
+    Approve makes it visible again, Flag keeps it hidden, Ban hash also hides everything else from that browser and stops it posting builds, comments and reports.
+    Every decision can be reverted from the admin history.</p>
+  ${message ? `<div class="section">${esc(message)}</div>` : ""}
+  <h2>Builds</h2>
+  <table>
+    <thead><tr><th>Build</th><th>Status</th><th>Open reports</th><th>Client</th><th>Actions</th></tr></thead>
+    <tbody>${buildRows || '<tr><td colspan="5" style="text-align:center;padding:24px;color:#888;">No builds waiting for review.</td></tr>'}</tbody>
+  </table>
+  <h2>Comments</h2>
+  <table>
+    <thead><tr><th>Comment</th><th>Status</th><th>Client</th><th>Actions</th></tr></thead>
+    <tbody>${commentRows || '<tr><td colspan="4" style="text-align:center;padding:24px;color:#888;">No comments waiting for review.</td></tr>'}</tbody>
+  </table>`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Audit log (admin_audit, migration 024)
+// ---------------------------------------------------------------------------
+
+type Row = Record<string, unknown>;
+type AuditTable =
+  | "product_matches"
+  | "price_listings"
+  | "retailers"
+  | "listing_quarantine"
+  | "products"
+  | "builds"
+  | "build_comments"
+  | "build_reports"
+  | "banned_client_hashes";
+
+interface AuditChange {
+  table: AuditTable;
+  before: Row | null; // null: the action created the row
+  after: Row | null; // null: the action deleted the row
+}
+
+/** Columns identifying a row of each audited table (its upsert conflict key) */
+const AUDIT_KEYS: Record<AuditTable, string[]> = {
+  product_matches: ["id"],
+  price_listings: ["retailer_id", "external_id"],
+  retailers: ["id"],
+  listing_quarantine: ["id"],
+  products: ["id"],
+  builds: ["id"],
+  build_comments: ["id"],
+  build_reports: ["id"],
+  banned_client_hashes: ["client_hash"],
+};
+
+/**
+ * Tables audited by a subset of their columns: builds has a generated
+ * search_vector that cannot be written back, and moderation only touches
+ * these columns anyway
+ */
+const AUDIT_COLUMNS: Partial<Record<AuditTable, string>> = {
+  builds: "id, share_code, client_hash, is_flagged, flagged_at, flag_reason, reviewed_at",
+  build_comments: "id, build_id, client_hash, is_flagged, flagged_at, flag_reason, reviewed_at",
+};
+
+function adminName(req: Request): string {
+  return parseCookies(req.headers.cookie)[ADMIN_USER_COOKIE] || "admin";
+}
+
+function rowKey(table: AuditTable, row: Row): Record<string, string> {
+  return Object.fromEntries(AUDIT_KEYS[table].map((col) => [col, String(row[col])]));
+}
+
+async function selectRows(table: AuditTable, filter: Record<string, string>): Promise<Row[]> {
+  const { data, error } = await supabase
+    .from(table)
+    .select(AUDIT_COLUMNS[table] ?? "*")
+    .match(filter)
+    .overrideTypes<Row[], { merge: false }>();
+  if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+  return data ?? [];
+}
+
+/**
+ * An admin_audit entry being written while its action runs. The row is
+ * inserted before the action's first write and saved again after each
+ * tracked write, so an action that fails part-way still leaves a revertable
+ * record of what it changed.
+ */
+interface Audit {
+  id: string;
+  action: string;
+  summary: string;
+  changes: AuditChange[];
+  /** Products touched beyond the audited rows (merges and splits run inside the database) */
+  productIds: Set<string>;
+}
+
+/** The audit entry itself could not be written; never swallowed with the action's own errors */
+class AuditWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditWriteError";
+  }
+}
+
+function auditProductIds(audit: Audit): string[] {
+  const productIds = new Set(audit.productIds);
+  for (const c of audit.changes) {
+    for (const row of [c.before, c.after]) {
+      if (typeof row?.product_id === "string") productIds.add(row.product_id);
+    }
+  }
+  return [...productIds];
+}
+
+async function saveAudit(audit: Audit): Promise<void> {
+  const { error } = await supabase
+    .from("admin_audit")
+    .update({ summary: audit.summary, product_ids: auditProductIds(audit), changes: audit.changes })
+    .eq("id", audit.id);
+  if (error) throw new AuditWriteError(`Failed to record audit entry for ${audit.action}: ${error.message}`);
+}
+
+/**
+ * Run an admin action under a new audit entry. An entry that ends up with
+ * no row changes and no products is dropped; one whose action failed keeps
+ * the changes made so far and says so in its summary. Audit writes that
+ * fail are thrown, never just logged.
+ */
+async function audited<T>(
+  req: Request,
+  action: string,
+  summary: string,
+  run: (audit: Audit) => Promise<T>,
+  opts: { revertOf?: string } = {}
+): Promise<T> {
+  const { data, error } = await supabase
+    .from("admin_audit")
+    .insert({ action, admin: adminName(req), summary, revert_of: opts.revertOf ?? null })
+    .select("id")
+    .single();
+  if (error || !data) throw new AuditWriteError(`Failed to start audit entry for ${action}: ${error?.message}`);
+  const audit: Audit = { id: data.id, action, summary, changes: [], productIds: new Set() };
+
+  const finish = async () => {
+    if (audit.changes.length === 0 && audit.productIds.size === 0) {
+      const { error: deleteError } = await supabase.from("admin_audit").delete().eq("id", audit.id);
+      if (deleteError) throw new AuditWriteError(`Failed to drop empty audit entry for ${action}: ${deleteError.message}`);
+      return;
+    }
+    await saveAudit(audit);
+  };
+
+  let result: T;
+  try {
+    result = await run(audit);
+  } catch (err) {
+    audit.summary = `${audit.summary} (failed part-way: ${err instanceof Error ? err.message : String(err)})`;
+    // The action's own error is the one to report
+    await finish().catch((auditErr) => console.error(auditErr));
+    throw err;
+  }
+  await finish();
+  return result;
+}
+
+/**
+ * Run `mutate` and capture every `table` row matching `filter` before and
+ * after it. Rows that actually changed are added to `audit` and saved before
+ * this returns.
+ */
+async function trackRows<T>(
+  audit: Audit,
+  table: AuditTable,
+  filter: Record<string, string>,
+  mutate: () => PromiseLike<T>
+): Promise<{ result: T; changes: AuditChange[] }> {
+  const before = await selectRows(table, filter);
+  const result = await mutate();
+  const after = await selectRows(table, filter);
+
+  const keyOf = (row: Row) => JSON.stringify(rowKey(table, row));
+  const remaining = new Map(after.map((row) => [keyOf(row), row]));
+  const changes: AuditChange[] = [];
+  for (const row of before) {
+    const updated = remaining.get(keyOf(row)) ?? null;
+    remaining.delete(keyOf(row));
+    if (JSON.stringify(updated) !== JSON.stringify(row)) changes.push({ table, before: row, after: updated });
+  }
+  for (const row of remaining.values()) changes.push({ table, before: null, after: row });
+
+  if (changes.length > 0) {
+    audit.changes.push(...changes);
+    await saveAudit(audit);
+  }
+  return { result, changes };
+}
+
+/**
+ * Put every row an audit entry touched back to its `before` state (rows it
+ * created are deleted), newest change first. The revert is itself audited,
+ * including any changes made before a failure.
+ */
+async function revertAudit(req: Request, entryId: string): Promise<void> {
+  const { data: entry, error } = await supabase
+    .from("admin_audit")
+    .select("*")
+    .eq("id", entryId)
+    .single();
+  if (error || !entry) throw new Error(`Audit entry ${entryId} not found: ${error?.message}`);
+  if (entry.reverted_at) throw new Error(`Audit entry ${entryId} was already reverted by ${entry.reverted_by}`);
+  if ((entry.changes as AuditChange[]).length === 0) throw new Error(`Audit entry ${entryId} (${entry.action}) cannot be reverted`);
+
+  await audited(req, "revert", `Revert ${entry.action}: ${entry.summary ?? ""}`, async (audit) => {
+    for (const change of [...(entry.changes as AuditChange[])].reverse()) {
+      const key = rowKey(change.table, (change.before ?? change.after)!);
+      await trackRows(audit, change.table, key, async () => {
+        // A partial row cannot be upserted (the insert half would miss NOT
+        // NULL columns), so column-subset tables restore with an update
+        const { error: restoreError } = !change.before
+          ? await supabase.from(change.table).delete().match(key)
+          : AUDIT_COLUMNS[change.table] && change.after
+          ? await supabase.from(change.table).update(change.before).match(key)
+          : await supabase
+              .from(change.table)
+              .upsert(change.before, { onConflict: AUDIT_KEYS[change.table].join(",") });
+        if (restoreError) {
+          throw new Error(`Failed to restore ${change.table} ${JSON.stringify(key)}: ${restoreError.message}`);
+        }
+      });
+    }
+  }, { revertOf: entryId });
+
+  const { error: stampError } = await supabase
+    .from("admin_audit")
+    .update({ reverted_at: new Date().toISOString(), reverted_by: adminName(req) })
+    .eq("id", entryId);
+  if (stampError) throw new AuditWriteError(`Reverted, but failed to mark audit entry ${entryId} reverted: ${stampError.message}`);
 }
 
 // ---------------------------------------------------------------------------
@@ -526,6 +1745,17 @@ const STYLES = `
   #product-search-results .result-item { padding: 8px 12px; cursor: pointer; font-size: 14px; }
   #product-search-results .result-item:hover { background: #0f3460; }
   .search-wrapper { position: relative; }
+  .muted { color: #888; font-size: 12px; }
+  .run-step { margin: 2px 0; }
+  .run-step details { display: inline-block; margin-left: 6px; font-size: 12px; }
+  .run-step summary { cursor: pointer; color: #64b5f6; }
+  .run-stats { background: #16213e; padding: 8px; border-radius: 4px; font-size: 12px; white-space: pre-wrap; }
+  .nav { margin-bottom: 8px; font-size: 14px; }
+  .audit-change { margin: 2px 0; font-size: 13px; }
+  .audit-change code { color: #b0bec5; }
+  select { padding: 6px 8px; background: #16213e; border: 1px solid #333; border-radius: 4px; color: #e0e0e0; font-size: 14px; }
+  tr.focused td { background: #0f3460; }
+  .triage-thumb { width: 40px; height: 40px; object-fit: contain; background: #fff; border-radius: 4px; }
 `;
 
 function loginPage(error?: string): string {
@@ -537,7 +1767,8 @@ function loginPage(error?: string): string {
 <div class="login-box">
   <h1>AudioL Admin</h1>
   <form method="POST" action="/login">
-    <input type="password" name="password" placeholder="Password" autofocus required>
+    <input type="text" name="name" placeholder="Your name" autofocus required>
+    <input type="password" name="password" placeholder="Password" required>
     <button type="submit" class="btn btn-blue">Login</button>
   </form>
   ${error ? `<p class="error-msg">${esc(error)}</p>` : ""}
@@ -554,6 +1785,303 @@ interface DashboardData {
   page: number;
   totalPages: number;
   retailers: Array<Record<string, unknown>>;
+  quarantine: Array<Record<string, unknown>>;
+  quarantineCount: number;
+  pipelineRuns: Array<Record<string, unknown>>;
+}
+
+const RUN_STATUS_COLORS: Record<string, string> = {
+  succeeded: "#27ae60",
+  partial: "#f39c12",
+  failed: "#e74c3c",
+  skipped: "#7f8c8d",
+  running: "#2980b9",
+};
+
+function statusBadge(status: unknown): string {
+  const color = RUN_STATUS_COLORS[String(status)] ?? "#7f8c8d";
+  return `<span class="score-badge" style="background:${color}">${esc(status)}</span>`;
+}
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  return s >= 60 ? `${Math.floor(s / 60)}m${String(s % 60).padStart(2, "0")}s` : `${s}s`;
+}
+
+function quarantineHtml(rows: Array<Record<string, unknown>>, total: number): string {
+  const body = rows
+    .map((q) => {
+      const prod = q.products as Record<string, unknown> | null;
+      const listing = (q.listing ?? {}) as Record<string, unknown>;
+      const ratio = Number(q.ratio);
+      const url = (listing.product_url ?? listing.affiliate_url) as string | undefined;
+      return `<tr>
+        <td class="product-name" title="${esc(prod?.name)}"><a href="/products/${esc(q.product_id)}">${esc(prod?.brand)} ${esc(prod?.name)}</a></td>
+        <td>${esc(q.retailer_id)}</td>
+        <td>${url ? `<a href="${esc(url)}" target="_blank" rel="noopener">${esc(q.external_id)}</a>` : esc(q.external_id)}</td>
+        <td>${esc(listing.currency ?? "USD")} ${Number(q.price).toFixed(2)}${q.price_usd != null && listing.currency && listing.currency !== "USD" ? ` <span class="muted">($${Number(q.price_usd).toFixed(2)})</span>` : ""}</td>
+        <td>$${Number(q.reference_price).toFixed(2)} <span class="muted">${esc(q.reference_source)}</span></td>
+        <td><span class="score-badge" style="background:${ratio < 1 ? "#e74c3c" : "#f39c12"}">${ratio.toFixed(2)}&times;</span></td>
+        <td class="muted">${esc(q.source)}</td>
+        <td class="actions-cell">
+          <form method="POST" action="/quarantine/${esc(q.id)}/approve"><button class="btn btn-green btn-sm" type="submit">Publish</button></form>
+          <form method="POST" action="/quarantine/${esc(q.id)}/reject"><button class="btn btn-blue btn-sm" type="submit">Reject price</button></form>
+          <form method="POST" action="/quarantine/${esc(q.id)}/reject"><input type="hidden" name="reject_match" value="1"><button class="btn btn-red btn-sm" type="submit">Reject match</button></form>
+        </td>
+      </tr>`;
+    })
+    .join("");
+
+  return `
+    <h2>Quarantined Prices (${total})</h2>
+    <table>
+      <thead><tr>
+        <th>Product</th><th>Retailer</th><th>External ID</th><th>New Price</th><th>Reference</th><th>Ratio</th><th>Source</th><th>Actions</th>
+      </tr></thead>
+      <tbody>${body || '<tr><td colspan="8" style="text-align:center;padding:24px;color:#888;">No quarantined prices.</td></tr>'}</tbody>
+    </table>`;
+}
+
+function pipelineRunsHtml(runs: Array<Record<string, unknown>>): string {
+  const rows = runs
+    .map((run) => {
+      const steps = (run.steps ?? []) as Array<Record<string, unknown>>;
+      const started = new Date(String(run.started_at));
+      const duration = run.finished_at
+        ? formatDuration(new Date(String(run.finished_at)).getTime() - started.getTime())
+        : "—";
+      const args = (run.args as string[] | null)?.join(" ") ?? "";
+      const stepList = steps
+        .map((step) => {
+          const detail = step.status === "skipped"
+            ? esc(step.error)
+            : `${formatDuration(Number(step.duration_ms ?? 0))}${Number(step.attempts) > 1 ? `, ${esc(step.attempts)} attempts` : ""}`;
+          const stats = step.stats
+            ? `<details><summary>stats</summary><pre class="run-stats">${esc(JSON.stringify(step.stats, null, 2))}</pre></details>`
+            : "";
+          return `<div class="run-step">${statusBadge(step.status)} <strong>${esc(step.name)}</strong> <span class="muted">${detail}</span>${stats}</div>`;
+        })
+        .join("");
+      return `<tr>
+        <td style="white-space:nowrap;">${esc(started.toISOString().replace("T", " ").slice(0, 16))}</td>
+        <td>${statusBadge(run.status)}${run.retry_of ? `<div class="muted">retry of ${esc(String(run.retry_of).slice(0, 8))}</div>` : ""}</td>
+        <td>${duration}</td>
+        <td><code>${esc(args) || "—"}</code></td>
+        <td>${stepList || '<span class="muted">No steps yet</span>'}</td>
+      </tr>`;
+    })
+    .join("");
+
+  return `
+    <h2>Pipeline Runs</h2>
+    <table>
+      <thead><tr><th>Started (UTC)</th><th>Status</th><th>Duration</th><th>Args</th><th>Steps</th></tr></thead>
+      <tbody>${rows || '<tr><td colspan="5" style="text-align:center;padding:24px;color:#888;">No pipeline runs recorded. Run npm run sync:all.</td></tr>'}</tbody>
+    </table>`;
+}
+
+/** "field: old → new" for each column a change touched */
+function changeDiffHtml(change: AuditChange): string {
+  const verb = !change.before ? "created" : !change.after ? "deleted" : "updated";
+  const row = (change.before ?? change.after)!;
+  const key = AUDIT_KEYS[change.table].map((col) => esc(row[col])).join(" / ");
+  const fields = change.before && change.after
+    ? Object.keys(change.after)
+        .filter((k) => JSON.stringify(change.before![k]) !== JSON.stringify(change.after![k]))
+        .map((k) => `<code>${esc(k)}</code>: ${esc(JSON.stringify(change.before![k]))} &rarr; ${esc(JSON.stringify(change.after![k]))}`)
+        .join(", ")
+    : "";
+  return `<div class="audit-change"><strong>${esc(change.table)}</strong> ${verb} <span class="muted">${key}</span>${fields ? ` — ${fields}` : ""}</div>`;
+}
+
+function auditPage(
+  entries: Array<Record<string, unknown>>,
+  productId: string | null,
+  product: Record<string, unknown> | null
+): string {
+  const rows = entries
+    .map((e) => {
+      const changes = (e.changes ?? []) as AuditChange[];
+      const state = e.reverted_at
+        ? `<span class="muted">reverted by ${esc(e.reverted_by)}<br>${esc(String(e.reverted_at).replace("T", " ").slice(0, 16))}</span>`
+        : changes.length === 0
+        ? '<span class="muted">not revertable</span>'
+        : `<form method="POST" action="/audit/${esc(e.id)}/revert" onsubmit="return confirm('Revert ${changes.length} change(s)?')">
+            ${productId ? `<input type="hidden" name="product" value="${esc(productId)}">` : ""}
+            <button class="btn btn-red btn-sm" type="submit">Revert</button>
+          </form>`;
+      return `<tr>
+        <td style="white-space:nowrap;">${esc(String(e.created_at).replace("T", " ").slice(0, 16))}</td>
+        <td>${esc(e.admin)}</td>
+        <td><code>${esc(e.action)}</code>${e.revert_of ? `<div class="muted">of ${esc(String(e.revert_of).slice(0, 8))}</div>` : ""}</td>
+        <td class="ext-name" title="${esc(e.summary)}">${esc(e.summary)}</td>
+        <td>
+          ${changes.slice(0, 5).map(changeDiffHtml).join("")}
+          ${changes.length > 5 ? `<div class="muted">+${changes.length - 5} more</div>` : ""}
+          <details><summary class="muted">before / after JSON</summary><pre class="run-stats">${esc(JSON.stringify(changes, null, 2))}</pre></details>
+        </td>
+        <td class="actions-cell">${state}</td>
+      </tr>`;
+    })
+    .join("");
+
+  const title = productId
+    ? `History — ${esc(product?.brand ?? "")} ${esc(product?.name ?? productId)}`
+    : "Admin History";
+
+  return subPage(
+    title,
+    `<div class="nav"><a href="/">&laquo; Dashboard</a>${productId ? ` · <a href="/products/${esc(productId)}">Product</a> · <a href="/audit">All history</a>` : ""}</div>
+  <h1>${title}</h1>
+  <p class="muted">Latest ${AUDIT_ENTRIES_SHOWN} entries. Revert restores the listed rows to their state before the action.</p>
+  <table>
+    <thead><tr><th>When (UTC)</th><th>Admin</th><th>Action</th><th>Summary</th><th>Changes</th><th></th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="6" style="text-align:center;padding:24px;color:#888;">No admin changes recorded.</td></tr>'}</tbody>
+  </table>`
+  );
+}
+
+/** Page chrome shared by the pages other than the dashboard */
+function subPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${title} — AudioL Admin</title>
+<style>${STYLES}</style>
+</head><body>
+<div class="container">
+  ${body}
+</div>
+</body></html>`;
+}
+
+function productLabel(p: Row): string {
+  return `${p.brand ? `${esc(p.brand)} ` : ""}${esc(p.name)}`;
+}
+
+function priceCell(p: Row): string {
+  const price = p.price != null ? `$${Number(p.price).toFixed(2)}` : "—";
+  return `${price}${p.in_stock ? "" : ' <span class="muted">out of stock</span>'}`;
+}
+
+function productSearchPage(q: string, products: Row[]): string {
+  const rows = products
+    .map((p) => `<tr>
+        <td><a href="/products/${esc(p.id)}">${productLabel(p)}</a></td>
+        <td>${esc(p.category_id)}</td>
+        <td>${priceCell(p)}</td>
+      </tr>`)
+    .join("");
+
+  return subPage(
+    "Products",
+    `<div class="nav"><a href="/">&laquo; Dashboard</a></div>
+  <h1>Products</h1>
+  <p class="muted">Find a product to merge duplicates into it or split wrongly matched listings off it.</p>
+  <form method="GET" action="/products" class="form-row">
+    <input type="text" name="q" value="${esc(q)}" placeholder="Product name..." autofocus style="min-width:320px;">
+    <button type="submit" class="btn btn-blue">Search</button>
+  </form>
+  ${q.length >= 2
+    ? `<table>
+    <thead><tr><th>Product</th><th>Category</th><th>Price</th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="3" style="text-align:center;padding:24px;color:#888;">No products found.</td></tr>'}</tbody>
+  </table>`
+    : ""}`
+  );
+}
+
+function productPage(product: Row, listings: Row[], candidates: Array<Row & { score: number }>): string {
+  const listingRows = listings
+    .map((l) => `<tr>
+        <td><input type="checkbox" name="listing_id" value="${esc(l.id)}"></td>
+        <td>${esc(l.retailer_id)}</td>
+        <td>${l.product_url ? `<a href="${esc(l.product_url)}" target="_blank" rel="noopener">${esc(l.external_id)}</a>` : esc(l.external_id)}</td>
+        <td>${esc(l.currency ?? "USD")} ${Number(l.price ?? 0).toFixed(2)}</td>
+        <td>${l.in_stock ? "yes" : '<span class="muted">no</span>'}</td>
+        <td class="muted">${esc(String(l.last_checked ?? "").slice(0, 10))}</td>
+      </tr>`)
+    .join("");
+
+  const candidateRows = candidates
+    .map((c) => `<tr>
+        <td><input type="checkbox" name="loser" value="${esc(c.id)}"></td>
+        <td><a href="/products/${esc(c.id)}">${productLabel(c)}</a></td>
+        <td>${priceCell(c)}</td>
+        <td>${c.ppi_score != null ? Number(c.ppi_score).toFixed(2) : "—"}</td>
+        <td><span class="score-badge" style="background:${scoreColor(c.score)}">${c.score.toFixed(3)}</span></td>
+      </tr>`)
+    .join("");
+
+  return subPage(
+    productLabel(product),
+    `<div class="nav"><a href="/">&laquo; Dashboard</a> · <a href="/products">Products</a> · <a href="/audit?product=${esc(product.id)}">History</a></div>
+  <h1>${productLabel(product)}</h1>
+  <p class="muted">${esc(product.category_id)} · ${priceCell(product)}${product.ppi_score != null ? ` · PPI ${Number(product.ppi_score).toFixed(2)}` : ""} · <code>${esc(product.id)}</code></p>
+
+  <h2>Possible Duplicates</h2>
+  <form method="GET" action="/products/${esc(product.id)}/merge">
+    <table>
+      <thead><tr><th></th><th>Product</th><th>Price</th><th>PPI</th><th>Name Similarity</th></tr></thead>
+      <tbody>${candidateRows || `<tr><td colspan="5" style="text-align:center;padding:24px;color:#888;">No products in ${esc(product.category_id)} with a similar name.</td></tr>`}</tbody>
+    </table>
+    ${candidateRows ? '<div class="bulk-bar"><button type="submit" class="btn btn-blue">Preview merge into this product</button></div>' : ""}
+  </form>
+
+  <h2>Listings (${listings.length})</h2>
+  <form method="POST" action="/products/${esc(product.id)}/split" onsubmit="return confirm('Move the selected listings to a new product?')">
+    <table>
+      <thead><tr><th></th><th>Retailer</th><th>External ID</th><th>Price</th><th>In Stock</th><th>Checked</th></tr></thead>
+      <tbody>${listingRows || '<tr><td colspan="6" style="text-align:center;padding:24px;color:#888;">No listings.</td></tr>'}</tbody>
+    </table>
+    ${listingRows
+      ? `<div class="section">
+      <strong>Split selected listings into a new product</strong>
+      <p class="muted">Their matches, store products and quarantined prices move too; price history and stock changes move for retailers this product no longer lists.</p>
+      <div class="form-row">
+        <input type="text" name="brand" value="${esc(product.brand ?? "")}" placeholder="Brand">
+        <input type="text" name="name" placeholder="New product name" required style="min-width:320px;">
+        <button type="submit" class="btn btn-red">Split off</button>
+      </div>
+    </div>`
+      : ""}
+  </form>`
+  );
+}
+
+function mergePreviewPage(preview: MergePreview): string {
+  const { winner, losers } = preview;
+  const sections = losers
+    .map(({ product, listings, matches, buildItems, priceHistory, storeProducts, priceWatches, stockEvents }) => {
+      const listingList = listings
+        .map((l) => `<div class="audit-change">${esc(l.retailer_id)} <span class="muted">${esc(l.external_id)}</span> — ${esc(l.currency ?? "USD")} ${Number(l.price ?? 0).toFixed(2)}${l.in_stock ? "" : ' <span class="muted">out of stock</span>'}</div>`)
+        .join("");
+      const matchList = matches
+        .map((m) => `<div class="audit-change">${esc(m.retailer_id)} <span class="muted">${esc(m.status)}</span> ${esc(m.external_name)}${m.dropped ? ' — <strong>dropped</strong> <span class="muted">(winner already has a match at this retailer)</span>' : ""}</div>`)
+        .join("");
+      const crossCategory = product.category_id !== winner.category_id
+        ? `<p class="error-msg">Different category (${esc(product.category_id)}) — build items keep their category slot.</p>`
+        : "";
+      return `<div class="section">
+        <strong><a href="/products/${esc(product.id)}">${productLabel(product)}</a></strong> <span class="muted">${priceCell(product)} · deleted after the merge</span>
+        ${crossCategory}
+        <p style="margin-top:8px;"><strong>Price listings (${listings.length})</strong></p>${listingList || '<div class="muted">none</div>'}
+        <p style="margin-top:8px;"><strong>Product matches (${matches.length})</strong></p>${matchList || '<div class="muted">none</div>'}
+        <p style="margin-top:8px;">Build items: <strong>${buildItems}</strong> · Price history rows: <strong>${priceHistory}</strong> · Store products: <strong>${storeProducts}</strong> · Price watches: <strong>${priceWatches}</strong> · Stock changes: <strong>${stockEvents}</strong></p>
+      </div>`;
+    })
+    .join("");
+
+  return subPage(
+    `Merge into ${productLabel(winner)}`,
+    `<div class="nav"><a href="/products/${esc(winner.id)}">&laquo; Back to product</a></div>
+  <h1>Merge into ${productLabel(winner)}</h1>
+  <p class="muted">Everything below moves to the kept product in one transaction, then the merged products are deleted.</p>
+  ${sections}
+  <form method="POST" action="/products/${esc(winner.id)}/merge" onsubmit="return confirm('Merge ${losers.length} product(s)? This cannot be reverted from the history page.')">
+    ${losers.map((l) => `<input type="hidden" name="loser" value="${esc(l.product.id)}">`).join("")}
+    <button type="submit" class="btn btn-red">Merge ${losers.length} product(s)</button>
+  </form>`
+  );
 }
 
 function dashboardPage(d: DashboardData): string {
@@ -563,6 +2091,7 @@ function dashboardPage(d: DashboardData): string {
       <div class="stat-card"><div class="label">Products</div><div class="value">${d.totalProducts}</div></div>
       <div class="stat-card"><div class="label">Matched</div><div class="value green">${d.totalMatched}</div></div>
       <div class="stat-card"><div class="label">Pending Review</div><div class="value yellow">${d.pendingCount}</div></div>
+      <div class="stat-card"><div class="label">Quarantined</div><div class="value yellow">${d.quarantineCount}</div></div>
       ${Object.entries(d.perRetailer)
         .map(
           ([rid, c]) =>
@@ -578,7 +2107,7 @@ function dashboardPage(d: DashboardData): string {
       const score = Number(m.match_score ?? 0);
       const color = scoreColor(score);
       return `<tr>
-        <td class="product-name" title="${esc(prod?.name)}">${esc(prod?.name)}</td>
+        <td class="product-name" title="${esc(prod?.name)}"><a href="/products/${esc(m.product_id)}">${esc(prod?.name)}</a></td>
         <td>${esc(prod?.brand)}</td>
         <td>${prod?.ppi_score != null ? Number(prod.ppi_score).toFixed(2) : "—"}</td>
         <td>${esc(m.retailer_id)}</td>
@@ -674,6 +2203,12 @@ function dashboardPage(d: DashboardData): string {
           <label>Affiliate Tag
             <input type="text" name="affiliate_tag" value="${esc(r.affiliate_tag ?? "")}" placeholder="None">
           </label>
+          <label>Shipping / free from (${esc(r.currency ?? "USD")})
+            <span class="form-row" style="margin:2px 0 0;">
+              <input type="number" name="shipping_cost" value="${esc(r.shipping_cost ?? "")}" min="0" step="0.01" placeholder="Unknown" style="width:90px;">
+              <input type="number" name="free_shipping_min" value="${esc(r.free_shipping_min ?? "")}" min="0" step="0.01" placeholder="No threshold" style="width:110px;">
+            </span>
+          </label>
           <div class="check-row">
             <input type="checkbox" name="is_active" id="active-${esc(r.id)}" ${r.is_active ? "checked" : ""}>
             <label for="active-${esc(r.id)}" style="display:inline;margin:0;">Active</label>
@@ -741,9 +2276,12 @@ function dashboardPage(d: DashboardData): string {
 </head><body>
 <div class="container">
   <h1>AudioL Admin Dashboard</h1>
+  <div class="nav"><a href="/products">Products (merge / split) &raquo;</a> · <a href="/triage">Category triage &raquo;</a> · <a href="/moderation">Moderation queue &raquo;</a> · <a href="/audit">Admin history &raquo;</a></div>
   ${statsHtml}
   ${matchesTableHtml}
   ${paginationHtml}
+  ${quarantineHtml(d.quarantine, d.quarantineCount)}
+  ${pipelineRunsHtml(d.pipelineRuns)}
   ${amazonHtml}
   ${retailerHtml}
 </div>
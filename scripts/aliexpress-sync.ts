@@ -36,11 +36,14 @@ import {
   ALIEXPRESS_STORES,
   CURATED_SELLER_IDS,
   SELLER_ID_MAP,
-  type AliExpressStoreConfig,
 } from './config/aliexpress-stores.ts';
 import { isAliExpressJunk } from './lib/aliexpress-quality-gate.ts';
-import { detectCorrectCategory } from './scrapers/matcher.ts';
-import { extractBrand } from './brand-config.ts';
+import { createAliExpressAdapter, type AdapterContext } from './adapters/index.ts';
+import { isFromStore } from './adapters/aliexpress.ts';
+import { getHttpClient } from './lib/http.ts';
+import { log, logError, delay } from './lib/log.ts';
+import { toStoreProductRow, upsertStoreProducts } from './lib/store-products.ts';
+import { reportStats } from './lib/run-stats.ts';
 import type { CategoryId } from './config/store-collections.ts';
 
 // ---------------------------------------------------------------------------
@@ -62,32 +65,10 @@ const API_BUDGET = parseInt(getArg('budget', '4500'), 10);
 const LIMIT = parseInt(getArg('limit', '0'), 10) || 0;
 const DRY_RUN = args.includes('--dry-run');
 
-const UPSERT_BATCH_SIZE = 100;
 const SEARCH_PAGE_SIZE = 50;
 const SEARCH_DELAY_MS = 300;
 const AFFILIATE_LINK_BATCH_SIZE = 50;
 
-// ---------------------------------------------------------------------------
-// Logging
-// ---------------------------------------------------------------------------
-
-function timestamp(): string {
-  return new Date().toISOString().slice(11, 19);
-}
-
-function log(phase: string, msg: string): void {
-  console.log(`[${timestamp()}] [${phase}] ${msg}`);
-}
-
-function logError(phase: string, msg: string, err: unknown): void {
-  const detail = err instanceof Error ? err.message : String(err);
-  console.error(`[${timestamp()}] [${phase}] ERROR: ${msg} -- ${detail}`);
-}
-
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 // ---------------------------------------------------------------------------
 // Stats
 // ---------------------------------------------------------------------------
@@ -121,46 +102,27 @@ function emptyStats(): SyncStats {
 }
 
 // ---------------------------------------------------------------------------
-// Category detection for multi-category stores
+// Discover mode
 // ---------------------------------------------------------------------------
 
-function detectAliExpressCategory(
-  product: AliExpressProduct,
-  storeConfig: AliExpressStoreConfig,
-): CategoryId {
-  // Single-category store: use it directly
-  if (storeConfig.categories.length === 1) {
-    return storeConfig.categories[0];
-  }
-
-  // Try the title-based detector from matcher.ts
-  const brand = storeConfig.brandName;
-  const detected = detectCorrectCategory(product.product_title, brand, storeConfig.categories[0]);
-  if (detected && storeConfig.categories.includes(detected as CategoryId)) {
-    return detected as CategoryId;
-  }
-
-  // Try brand extraction from title for category hint
-  const titleBrand = extractBrand(product.product_title);
-  const detectedFromTitle = detectCorrectCategory(product.product_title, titleBrand, storeConfig.categories[0]);
-  if (detectedFromTitle && storeConfig.categories.includes(detectedFromTitle as CategoryId)) {
-    return detectedFromTitle as CategoryId;
-  }
-
-  // Fallback: use first category in config
-  return storeConfig.categories[0];
+/** The aliexpress retailers row, active or not (discovery runs either way) */
+async function loadRetailer(): Promise<Retailer> {
+  const { data, error } = await getSupabase()
+    .from('retailers')
+    .select('*')
+    .eq('id', 'aliexpress')
+    .single();
+  if (error || !data) throw new Error(`No "aliexpress" retailer: ${error?.message ?? 'not found'}`);
+  return data as Retailer;
 }
 
-// ---------------------------------------------------------------------------
-// Discover mode
-// ---------------------------------------------------------------------------
-
 async function discoverProducts(
   client: AliExpressClient,
   stats: SyncStats,
   budgetLimit?: number,
 ): Promise<void> {
   const supabase = getSupabase();
+  const ctx: AdapterContext = { domain: 'aliexpress.com', retailer: await loadRetailer(), http: getHttpClient() };
 
   // Load existing AliExpress store_products to skip duplicates
   log('LOAD', 'Loading existing AliExpress store_products...');
@@ -210,6 +172,7 @@ async function discoverProducts(
 
     log('DISCOVER', `--- ${store.brandName} (seller: ${store.sellerId}) ---`);
     stats.brandsProcessed++;
+    const adapter = createAliExpressAdapter(client, store);
 
     const storeNewProducts: AliExpressProduct[] = [];
 
@@ -239,9 +202,7 @@ async function discoverProducts(
           }
 
           // Filter to only products from this curated store
-          const fromStore = result.products.filter(p =>
-            String(p.shop_id) === String(store.sellerId)
-          );
+          const fromStore = result.products.filter(p => isFromStore(p, store));
           stats.productsFromCurated += fromStore.length;
 
           // Filter out already-known products
@@ -304,63 +265,19 @@ async function discoverProducts(
 
     // Transform to store_products rows
     for (const p of storeNewProducts) {
-      const price = parseFloat(p.sale_price);
-      const categoryId = detectAliExpressCategory(p, store);
-      const affiliateUrl = affiliateLinkMap.get(p.product_url) ?? p.promotion_link ?? p.product_url;
-
-      allRows.push({
-        retailer_id: 'aliexpress',
-        external_id: p.product_id,
-        title: p.product_title,
-        vendor: store.brandName,
-        product_type: null,
-        tags: [],
-        category_id: categoryId,
-        price: isNaN(price) ? null : price,
-        in_stock: true,
-        image_url: p.product_main_image_url || null,
-        product_url: p.product_url,
-        affiliate_url: affiliateUrl,
-        raw_data: {
-          original_price: p.original_price,
-          discount: p.discount,
-          evaluate_rate: p.evaluate_rate,
-          shop_id: p.shop_id,
-          ali_category_id: p.second_level_category_id,
-          ...(p.sku_id ? { sku_id: p.sku_id } : {}),
-          ...(p.product_small_image_urls?.string?.length
-            ? { variant_images: p.product_small_image_urls.string }
-            : {}),
-          ...(p.product_video_url ? { video_url: p.product_video_url } : {}),
-          ...(p.lastest_volume ? { sales_volume: p.lastest_volume } : {}),
-          last_seen_at: new Date().toISOString(),
-        },
-        imported_at: new Date().toISOString(),
-        processed: false,
-      });
+      for (const listing of adapter.normalize(p, ctx)) {
+        listing.affiliateUrl = affiliateLinkMap.get(p.product_url) ?? listing.affiliateUrl;
+        allRows.push(toStoreProductRow(listing, 'aliexpress', store.categories[0], adapter.buildAffiliateUrl(listing, ctx.retailer)));
+      }
     }
   }
 
   // Batch upsert all rows
   if (allRows.length > 0 && !DRY_RUN) {
     log('UPSERT', `Upserting ${allRows.length} store_products...`);
-    for (let i = 0; i < allRows.length; i += UPSERT_BATCH_SIZE) {
-      const batch = allRows.slice(i, i + UPSERT_BATCH_SIZE);
-      try {
-        const { error } = await supabase
-          .from('store_products')
-          .upsert(batch, { onConflict: 'retailer_id,external_id' });
-        if (error) {
-          logError('UPSERT', `Batch ${Math.floor(i / UPSERT_BATCH_SIZE) + 1}`, error);
-          stats.errors++;
-        } else {
-          stats.productsUpserted += batch.length;
-        }
-      } catch (err) {
-        logError('UPSERT', 'Batch exception', err);
-        stats.errors++;
-      }
-    }
+    const upserted = await upsertStoreProducts(allRows, 'aliexpress');
+    stats.productsUpserted += upserted;
+    if (upserted < allRows.length) stats.errors++;
   }
 }
 
@@ -538,7 +455,7 @@ async function main(): Promise<void> {
   console.log('=================================================================\n');
 
   const config: AliExpressConfig = { appKey, appSecret, trackingId };
-  const client = createAliExpressClient(config);
+  const client = createAliExpressClient(config, getHttpClient());
 
   const stats = emptyStats();
 
@@ -581,6 +498,8 @@ async function main(): Promise<void> {
     stats.errors++;
   }
 
+  reportStats({ mode: MODE, ...stats, apiCalls: client.getCallCount() });
+
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
   console.log('\n=================================================================');
@@ -28,7 +28,6 @@ import {
   getBrowser,
   closeBrowser,
   createAmazonPage,
-  searchAmazonWithPage,
   type AmazonProduct,
   type BrowserContext,
   type Page,
@@ -36,10 +35,21 @@ import {
 import {
   getRetailers,
   getSupabase,
-  buildAffiliateUrl,
   type Retailer,
 } from "./config/retailers.ts";
+import {
+  createAmazonAdapter,
+  AmazonCaptchaError,
+  type AdapterContext,
+  type RetailerAdapter,
+} from "./adapters/index.ts";
+import type { CategoryId } from "./config/store-collections.ts";
+import { getHttpClient } from "./lib/http.ts";
+import { log, logError, delay } from "./lib/log.ts";
+import { upsertInBatches } from "./lib/store-products.ts";
+import { publishListings } from "./lib/price-guard.ts";
 import { findBestMatch, MATCH_THRESHOLDS } from "./scrapers/matcher.ts";
+import { reportStats } from "./lib/run-stats.ts";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -166,7 +176,6 @@ const PROGRESS_FILE = path.join(
 // ---------------------------------------------------------------------------
 
 const PRODUCT_BATCH_SIZE = 1000;
-const UPSERT_BATCH_SIZE = 100;
 const PROGRESS_SAVE_INTERVAL = 50;
 const PROGRESS_LOG_INTERVAL = 25;
 
@@ -179,33 +188,11 @@ const CLEAR_WINDOW_MS = 10 * 60 * 1000;
 // Helpers
 // ---------------------------------------------------------------------------
 
-function timestamp(): string {
-  return new Date().toISOString().slice(11, 19);
-}
-
-function log(phase: string, msg: string): void {
-  console.log(`[${timestamp()}] [${phase}] ${msg}`);
-}
-
-function logError(phase: string, msg: string, err: unknown): void {
-  const detail =
-    err instanceof Error
-      ? err.message
-      : typeof err === "object" && err !== null
-        ? JSON.stringify(err)
-        : String(err);
-  console.error(`[${timestamp()}] [${phase}] ERROR: ${msg} -- ${detail}`);
-}
-
 function jitteredDelay(baseMs: number): number {
   const jitter = 0.3;
   return baseMs * (1 - jitter + Math.random() * 2 * jitter);
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 // ---------------------------------------------------------------------------
 // Priority scoring
 // ---------------------------------------------------------------------------
@@ -470,116 +457,6 @@ async function loadStaleListings(amazonRetailerId: string, products: Product[]):
   return result;
 }
 
-async function upsertBatch(
-  table: string,
-  rows: Record<string, unknown>[],
-  conflictColumns: string,
-  phase: string
-): Promise<number> {
-  if (rows.length === 0) return 0;
-
-  const supabase = getSupabase();
-  let successCount = 0;
-
-  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
-    const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
-    const batchNum = Math.floor(i / UPSERT_BATCH_SIZE) + 1;
-    const totalBatches = Math.ceil(rows.length / UPSERT_BATCH_SIZE);
-
-    try {
-      const { error } = await supabase
-        .from(table)
-        .upsert(batch, { onConflict: conflictColumns });
-
-      if (error) {
-        logError(phase, `Upsert ${table} batch ${batchNum}/${totalBatches} failed`, error);
-      } else {
-        successCount += batch.length;
-      }
-    } catch (err) {
-      logError(phase, `Upsert ${table} batch ${batchNum}/${totalBatches} exception`, err);
-    }
-  }
-
-  return successCount;
-}
-
-async function denormalizeLowestPrices(): Promise<number> {
-  const supabase = getSupabase();
-
-  log("DENORM", "Finding lowest in-stock price per product...");
-
-  const PAGE_SIZE = 1000;
-  const listings: { product_id: string; price: number; affiliate_url: string | null; product_url: string | null }[] = [];
-  let offset = 0;
-
-  while (true) {
-    const { data, error } = await supabase
-      .from("price_listings")
-      .select("product_id, price, affiliate_url, product_url")
-      .eq("in_stock", true)
-      .order("price", { ascending: true })
-      .range(offset, offset + PAGE_SIZE - 1);
-
-    if (error) {
-      logError("DENORM", "Failed to fetch price_listings", error);
-      return 0;
-    }
-
-    if (!data || data.length === 0) break;
-    listings.push(...data);
-    offset += data.length;
-    if (data.length < PAGE_SIZE) break;
-  }
-
-  if (listings.length === 0) {
-    log("DENORM", "No in-stock listings found.");
-    return 0;
-  }
-
-  log("DENORM", `Fetched ${listings.length} in-stock listings`);
-
-  const lowestByProduct = new Map<string, { price: number; affiliate_url: string | null }>();
-
-  for (const listing of listings) {
-    const existing = lowestByProduct.get(listing.product_id);
-    if (!existing || listing.price < existing.price) {
-      lowestByProduct.set(listing.product_id, {
-        price: listing.price,
-        affiliate_url: listing.affiliate_url ?? listing.product_url,
-      });
-    }
-  }
-
-  log("DENORM", `Found lowest prices for ${lowestByProduct.size} product(s). Updating...`);
-
-  let updatedCount = 0;
-  const entries = Array.from(lowestByProduct.entries());
-  for (let i = 0; i < entries.length; i += UPSERT_BATCH_SIZE) {
-    const batch = entries.slice(i, i + UPSERT_BATCH_SIZE);
-    const batchNum = Math.floor(i / UPSERT_BATCH_SIZE) + 1;
-    const totalBatches = Math.ceil(entries.length / UPSERT_BATCH_SIZE);
-
-    let batchSuccess = 0;
-    for (const [productId, info] of batch) {
-      const { error: updateError } = await supabase
-        .from("products")
-        .update({ price: info.price, affiliate_url: info.affiliate_url })
-        .eq("id", productId);
-
-      if (!updateError) batchSuccess++;
-    }
-
-    updatedCount += batchSuccess;
-    if (batchNum % 10 === 0 || batchNum === totalBatches) {
-      log("DENORM", `Updated products batch ${batchNum}/${totalBatches}`);
-    }
-  }
-
-  log("DENORM", `Denormalized prices for ${updatedCount} product(s)`);
-  return updatedCount;
-}
-
 // ---------------------------------------------------------------------------
 // Worker Pool
 // ---------------------------------------------------------------------------
@@ -592,14 +469,21 @@ type WorkerResult = {
   error: boolean;
 };
 
+type AmazonWorker = {
+  context: BrowserContext;
+  page: Page;
+  adapter: RetailerAdapter<AmazonProduct>;
+  id: number;
+};
+
 class WorkerPool {
-  private workers: { context: BrowserContext; page: Page; id: number }[] = [];
+  private workers: AmazonWorker[] = [];
   private queue: Product[] = [];
   private queueIndex = 0;
   private completedIds: string[] = [];
   private matchRows: Record<string, unknown>[] = [];
   private listingRows: Record<string, unknown>[] = [];
-  private stats = { auto: 0, pending: 0, skipped: 0, errors: 0, captchas: 0 };
+  private stats = { auto: 0, pending: 0, skipped: 0, errors: 0, captchas: 0, quarantined: 0 };
   private captchaTimestamps: number[] = [];
   private lastCaptchaCheck = Date.now();
   private activeWorkerCount: number;
@@ -608,6 +492,7 @@ class WorkerPool {
   private startTime = Date.now();
   private deadline = 0; // 0 = no deadline
   private amazonRetailer: Retailer;
+  private adapterContext: AdapterContext;
   public phaseLabel: string;
   private currentDelayMs: number;
 
@@ -620,6 +505,7 @@ class WorkerPool {
     this.activeWorkerCount = concurrency;
     this.originalConcurrency = concurrency;
     this.amazonRetailer = amazonRetailer;
+    this.adapterContext = { domain: "www.amazon.com", retailer: amazonRetailer, http: getHttpClient() };
     this.phaseLabel = phaseLabel;
     this.currentDelayMs = delayMs;
   }
@@ -628,7 +514,7 @@ class WorkerPool {
     log("POOL", `Creating ${this.concurrency} browser contexts...`);
     for (let i = 0; i < this.concurrency; i++) {
       const { context, page } = await createAmazonPage();
-      this.workers.push({ context, page, id: i });
+      this.workers.push({ context, page, adapter: createAmazonAdapter(page), id: i });
     }
     log("POOL", `${this.workers.length} workers ready`);
   }
@@ -639,7 +525,7 @@ class WorkerPool {
     this.deadline = deadlineMs;
     this.startTime = Date.now();
     this.queueIndex = 0;
-    this.stats = { auto: 0, pending: 0, skipped: 0, errors: 0, captchas: 0 };
+    this.stats = { auto: 0, pending: 0, skipped: 0, errors: 0, captchas: 0, quarantined: 0 };
     this.matchRows = [];
     this.listingRows = [];
 
@@ -667,7 +553,7 @@ class WorkerPool {
     return null;
   }
 
-  private async workerLoop(worker: { context: BrowserContext; page: Page; id: number }): Promise<void> {
+  private async workerLoop(worker: AmazonWorker): Promise<void> {
     while (true) {
       // Check time budget
       if (this.isExpired()) {
@@ -677,7 +563,7 @@ class WorkerPool {
 
       // Check if this worker should be suspended (adaptive concurrency)
       if (worker.id >= this.activeWorkerCount) {
-        await sleep(5000);
+        await delay(5000);
         if (worker.id >= this.activeWorkerCount) continue;
       }
 
@@ -687,7 +573,7 @@ class WorkerPool {
       const { product } = next;
 
       try {
-        const result = await this.processProduct(worker.page, product);
+        const result = await this.processProduct(worker.adapter, product);
 
         if (result.captcha) {
           this.handleCaptcha(worker);
@@ -741,23 +627,28 @@ class WorkerPool {
         logError("WORKER", `Worker ${worker.id} error on "${product.name}"`, err);
       }
 
-      await sleep(jitteredDelay(this.currentDelayMs));
+      await delay(jitteredDelay(this.currentDelayMs));
     }
   }
 
-  private async processProduct(page: Page, product: Product): Promise<WorkerResult> {
+  private async processProduct(adapter: RetailerAdapter<AmazonProduct>, product: Product): Promise<WorkerResult> {
     let searchQuery = product.name;
     if (product.brand && !product.name.toLowerCase().includes(product.brand.toLowerCase())) {
       searchQuery = `${product.brand} ${product.name}`;
     }
 
-    const { products: azResults, captcha } = await searchAmazonWithPage(page, searchQuery, {
-      maxResults: 5,
-      affiliateTag: this.amazonRetailer.affiliate_tag ?? undefined,
-    });
-
-    if (captcha) {
-      return { productId: product.id, matchRow: null, listingRow: null, captcha: true, error: false };
+    let azResults: AmazonProduct[];
+    try {
+      azResults = await adapter.fetchProducts(
+        { handle: searchQuery, categoryId: (product.category_id ?? "iem") as CategoryId },
+        this.adapterContext,
+        { maxPages: 1, limit: 5 },
+      );
+    } catch (err) {
+      if (err instanceof AmazonCaptchaError) {
+        return { productId: product.id, matchRow: null, listingRow: null, captcha: true, error: false };
+      }
+      throw err;
     }
 
     if (azResults.length === 0) {
@@ -805,16 +696,8 @@ class WorkerPool {
     const status = isAutoApprove ? "approved" : "pending";
 
     const azProduct = azResults.find((ap) => ap.asin === match.id);
-    const price = azProduct?.price ?? null;
-    const inStock = azProduct?.inStock ?? false;
-    const imageUrl = azProduct?.image ?? null;
-
-    const affiliateUrl = buildAffiliateUrl(
-      this.amazonRetailer,
-      azProduct?.url ?? `https://www.amazon.com/dp/${match.id}`,
-      match.id,
-      match.id
-    );
+    const listing = azProduct ? adapter.normalize(azProduct, this.adapterContext)[0] : null;
+    const price = listing?.price ?? null;
 
     const matchRow: Record<string, unknown> = {
       product_id: product.id,
@@ -833,17 +716,17 @@ class WorkerPool {
     }
 
     let listingRow: Record<string, unknown> | null = null;
-    if (isAutoApprove && price !== null && price > 0) {
+    if (isAutoApprove && listing && price !== null && price > 0) {
       listingRow = {
         product_id: product.id,
         retailer_id: this.amazonRetailer.id,
         external_id: match.id,
         price,
         currency: "USD",
-        in_stock: inStock,
-        product_url: azProduct?.url ?? `https://www.amazon.com/dp/${match.id}`,
-        affiliate_url: affiliateUrl ?? `https://www.amazon.com/dp/${match.id}?tag=${this.amazonRetailer.affiliate_tag}`,
-        image_url: imageUrl,
+        in_stock: listing.inStock,
+        product_url: listing.productUrl,
+        affiliate_url: adapter.buildAffiliateUrl(listing, this.amazonRetailer),
+        image_url: listing.imageUrl,
         last_checked: new Date().toISOString(),
       };
     }
@@ -851,7 +734,7 @@ class WorkerPool {
     return { productId: product.id, matchRow, listingRow, captcha: false, error: false };
   }
 
-  private handleCaptcha(worker: { context: BrowserContext; page: Page; id: number }): void {
+  private handleCaptcha(worker: AmazonWorker): void {
     const now = Date.now();
     this.captchaTimestamps.push(now);
     this.captchaTimestamps = this.captchaTimestamps.filter((t) => now - t < CAPTCHA_WINDOW_MS);
@@ -885,8 +768,9 @@ class WorkerPool {
 
     log("FLUSH", `Upserting ${matchCount} matches, ${listingCount} listings...`);
 
-    await upsertBatch("product_matches", [...this.matchRows], "product_id,retailer_id", "FLUSH");
-    await upsertBatch("price_listings", [...this.listingRows], "retailer_id,external_id", "FLUSH");
+    await upsertInBatches("product_matches", [...this.matchRows], "product_id,retailer_id", "FLUSH");
+    const { quarantined } = await publishListings([...this.listingRows], "retailer_id,external_id", "FLUSH");
+    this.stats.quarantined += quarantined;
 
     this.matchRows.length = 0;
     this.listingRows.length = 0;
@@ -995,7 +879,7 @@ async function main(): Promise<void> {
   const pool = new WorkerPool(CONCURRENCY, DELAY_MS, amazonRetailer, "DISCOVER");
   await pool.init();
 
-  let totalStats = { auto: 0, pending: 0, skipped: 0, errors: 0, captchas: 0, completed: 0 };
+  let totalStats = { auto: 0, pending: 0, skipped: 0, errors: 0, captchas: 0, quarantined: 0, completed: 0 };
 
   try {
     if (MODE === "discover") {
@@ -1037,6 +921,7 @@ async function main(): Promise<void> {
         totalStats.skipped += discoverStats.skipped;
         totalStats.errors += discoverStats.errors;
         totalStats.captchas += discoverStats.captchas;
+        totalStats.quarantined += discoverStats.quarantined;
         totalStats.completed += discoverStats.completed;
         log("DISCOVER", `Completed: ${discoverStats.completed} | Auto: ${discoverStats.auto} | Pending: ${discoverStats.pending}`);
       } else {
@@ -1057,6 +942,7 @@ async function main(): Promise<void> {
         totalStats.skipped += refreshStats.skipped;
         totalStats.errors += refreshStats.errors;
         totalStats.captchas += refreshStats.captchas;
+        totalStats.quarantined += refreshStats.quarantined;
         totalStats.completed += refreshStats.completed;
         log("REFRESH", `Refreshed: ${refreshStats.completed} listings`);
       } else {
@@ -1068,9 +954,7 @@ async function main(): Promise<void> {
     await closeBrowser();
   }
 
-  // Denormalize lowest prices
-  console.log("\n--- Denormalize Lowest Prices ---\n");
-  const pricesUpdated = await denormalizeLowestPrices();
+  reportStats({ mode: MODE, ...totalStats });
 
   // Clean up progress file on success
   deleteProgress();
@@ -1089,8 +973,8 @@ async function main(): Promise<void> {
   console.log(`  Pending review:     ${totalStats.pending}`);
   console.log(`  Skipped (no match): ${totalStats.skipped}`);
   console.log(`  CAPTCHAs hit:       ${totalStats.captchas}`);
+  console.log(`  Quarantined:        ${totalStats.quarantined}`);
   console.log(`  Errors:             ${totalStats.errors}`);
-  console.log(`  Prices denormalized: ${pricesUpdated}`);
   console.log("=================================================================\n");
 }
 
@@ -0,0 +1,465 @@
+/**
+ * api-server.ts — Public read-only JSON API (/api/v1).
+ *
+ *   GET /api/v1/openapi.json                OpenAPI document (no key needed)
+ *   GET /api/v1/products                    catalog, ProductFilters as query params
+ *   GET /api/v1/products/:id                one product
+ *   GET /api/v1/products/:id/prices         current listings at active retailers
+ *   GET /api/v1/products/:id/history        daily price / stock snapshots
+ *   GET /api/v1/builds/:shareCode           a shared build with its products
+ *
+ * Every other request needs an API key (Authorization: Bearer <key> or
+ * X-API-Key), issued with scripts/create-api-key.ts and rate limited per
+ * minute and per day (migration 028). Lists are paged with an opaque
+ * cursor: pass next_cursor back as ?cursor= until it is null.
+ *
+ * Usage:
+ *   SUPABASE_SERVICE_KEY=... npx tsx scripts/api-server.ts
+ *   (API_PORT, default 3002; regenerate the OpenAPI document with npm run api:openapi)
+ */
+
+import "./lib/env.js";
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import express, { Request, Response, NextFunction } from "express";
+import { getSupabase } from "./config/retailers.ts";
+import { applyProductFilters } from "../src/lib/productQuery.ts";
+import { getPpiScoreColumn } from "../src/lib/productUtils.ts";
+import type { CategoryId, Product, SortDirection, SortField, TargetType } from "../src/types/index.ts";
+import { parseProductFilters } from "./api/filters.ts";
+import type {
+  ApiBuild,
+  ApiBuildItem,
+  ApiErrorBody,
+  ApiErrorCode,
+  ApiPriceHistoryPoint,
+  ApiPriceListing,
+  PriceHistoryPage,
+  PriceListingList,
+  ProductPage,
+} from "./api/types.ts";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const OPENAPI_FILE = join(__dirname, "api", "openapi.json");
+const PORT = Number(process.env.API_PORT ?? 3002);
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+const HISTORY_DEFAULT_DAYS = 90;
+const HISTORY_MAX_DAYS = 365;
+const HISTORY_MAX_LIMIT = 1000;
+const SORT_FIELDS: SortField[] = ["ppi_score", "price", "name", "sinad_db"];
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const supabase = getSupabase();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+
+  constructor(status: number, code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+function sendError(res: Response, status: number, code: ApiErrorCode, message: string): void {
+  const body: ApiErrorBody = { error: { code, message } };
+  res.status(status).json(body);
+}
+
+/** Single-valued query parameter, or undefined */
+function queryParam(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") throw new ApiError(400, "bad_request", `${name} must be given once`);
+  return value.trim() || undefined;
+}
+
+function intParam(req: Request, name: string, fallback: number, max: number): number {
+  const raw = queryParam(req, name);
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1 || n > max) {
+    throw new ApiError(400, "bad_request", `${name} must be an integer from 1 to ${max}`);
+  }
+  return n;
+}
+
+function encodeCursor(payload: object): string {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/** Decode a cursor from encodeCursor(); anything `isValid` rejects is a 400 */
+function decodeCursor<T>(cursor: string, isValid: (payload: Record<string, unknown>) => boolean): T {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new ApiError(400, "bad_request", "Invalid cursor");
+  }
+  if (typeof payload !== "object" || payload === null || Array.isArray(payload) || !isValid(payload as Record<string, unknown>)) {
+    throw new ApiError(400, "bad_request", "Invalid cursor");
+  }
+  return payload as T;
+}
+
+/** A value inside a PostgREST or=() filter, quoted when it is text */
+function filterValue(value: string | number): string {
+  return typeof value === "number" ? String(value) : `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function requireUuid(id: string, what: string): void {
+  if (!UUID_RE.test(id)) throw new ApiError(404, "not_found", `${what} ${id} not found`);
+}
+
+async function requireProduct(id: string): Promise<Product> {
+  requireUuid(id, "Product");
+  const { data, error } = await supabase.from("products").select("*").eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new ApiError(404, "not_found", `Product ${id} not found`);
+  return data as Product;
+}
+
+// ---------------------------------------------------------------------------
+// Auth + rate limits
+// ---------------------------------------------------------------------------
+
+interface ApiUsage {
+  key_id: string;
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset_at: string;
+}
+
+function apiKeyFrom(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length).trim() || null;
+  const key = req.headers["x-api-key"];
+  return typeof key === "string" && key.trim() ? key.trim() : null;
+}
+
+async function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  const key = apiKeyFrom(req);
+  if (!key) {
+    sendError(res, 401, "unauthorized", "An API key is required (Authorization: Bearer <key> or X-API-Key)");
+    return;
+  }
+
+  const keyHash = createHash("sha256").update(key).digest("hex");
+  const { data, error } = await supabase.rpc("consume_api_request", { p_key_hash: keyHash });
+  if (error) throw new Error(`Rate limit check failed: ${error.message}`);
+  if (!data) {
+    sendError(res, 401, "unauthorized", "Unknown or revoked API key");
+    return;
+  }
+
+  const usage = data as ApiUsage;
+  const resetAt = new Date(usage.reset_at).getTime();
+  res.set("X-RateLimit-Limit", String(usage.limit));
+  res.set("X-RateLimit-Remaining", String(usage.remaining));
+  res.set("X-RateLimit-Reset", String(Math.ceil(resetAt / 1000)));
+
+  if (!usage.allowed) {
+    res.set("Retry-After", String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))));
+    sendError(res, 429, "rate_limited", `Rate limit of ${usage.limit} requests exceeded; retry after ${usage.reset_at}`);
+    return;
+  }
+  next();
+}
+
+// ---------------------------------------------------------------------------
+// App
+// ---------------------------------------------------------------------------
+
+const app = express();
+app.set("query parser", "simple");
+
+// Read-only and keyed, so any origin may call it
+app.use("/api/v1", (req: Request, res: Response, next: NextFunction) => {
+  res.set("Access-Control-Allow-Origin", "*");
+  res.set("Access-Control-Allow-Headers", "Authorization, X-API-Key");
+  if (req.method === "OPTIONS") {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/openapi.json
+// ---------------------------------------------------------------------------
+
+app.get("/api/v1/openapi.json", (_req: Request, res: Response) => {
+  if (!existsSync(OPENAPI_FILE)) {
+    sendError(res, 404, "not_found", "OpenAPI document not generated (npm run api:openapi)");
+    return;
+  }
+  res.type("application/json").send(readFileSync(OPENAPI_FILE, "utf-8"));
+});
+
+app.use("/api/v1", requireApiKey);
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/products — filtered, sorted, cursor-paged catalog
+// ---------------------------------------------------------------------------
+
+/** Where the previous page ended: the sort it was made with and its last row */
+interface ProductCursor {
+  sort: string;
+  value: string | number | null;
+  id: string;
+}
+
+function isProductCursor(c: Record<string, unknown>): boolean {
+  return (
+    typeof c.sort === "string" &&
+    typeof c.id === "string" &&
+    (c.value === null || typeof c.value === "string" || (typeof c.value === "number" && Number.isFinite(c.value)))
+  );
+}
+
+app.get("/api/v1/products", async (req: Request, res: Response) => {
+  let filters;
+  try {
+    filters = parseProductFilters(req.query);
+  } catch (err) {
+    throw new ApiError(400, "bad_request", err instanceof Error ? err.message : String(err));
+  }
+
+  const category = queryParam(req, "category");
+  const field = (queryParam(req, "sort") ?? "ppi_score") as SortField;
+  if (!SORT_FIELDS.includes(field)) {
+    throw new ApiError(400, "bad_request", `sort must be one of ${SORT_FIELDS.join(", ")}`);
+  }
+  const direction = (queryParam(req, "direction") ?? (field === "name" || field === "price" ? "asc" : "desc")) as SortDirection;
+  if (direction !== "asc" && direction !== "desc") throw new ApiError(400, "bad_request", "direction must be asc or desc");
+  const target = (queryParam(req, "target") ?? "df") as TargetType;
+  if (target !== "df" && target !== "harman") throw new ApiError(400, "bad_request", "target must be df or harman");
+  const limit = intParam(req, "limit", DEFAULT_LIMIT, MAX_LIMIT);
+
+  // PPI range and ppi_score sorting follow the target curve, as in the app
+  const ppiColumn = category ? getPpiScoreColumn(category as CategoryId, target) : "ppi_score";
+  const sortColumn = field === "ppi_score" ? ppiColumn : field;
+  const sortKey = `${sortColumn}:${direction}`;
+  const hasRetailerFilter = filters.retailers.length > 0;
+
+  let query = supabase.from("products").select(hasRetailerFilter ? "*, price_listings!inner(retailer_id)" : "*");
+  if (category) query = query.eq("category_id", category);
+  query = applyProductFilters(query, filters, ppiColumn);
+  // The app overrides in_stock from the chosen retailers' listings; here
+  // "in stock" means in stock at one of them
+  if (filters.hideOutOfStock && hasRetailerFilter) query = query.eq("price_listings.in_stock", true);
+
+  // Keyset pagination on (sort column, id), nulls last
+  const cursorParam = queryParam(req, "cursor");
+  if (cursorParam) {
+    const cursor = decodeCursor<ProductCursor>(cursorParam, isProductCursor);
+    if (cursor.sort !== sortKey) {
+      throw new ApiError(400, "bad_request", "Cursor was made with a different sort; start again without it");
+    }
+    const id = filterValue(cursor.id);
+    if (cursor.value === null) {
+      query = query.is(sortColumn, null).gt("id", cursor.id);
+    } else {
+      const value = filterValue(cursor.value);
+      const past = direction === "asc" ? "gt" : "lt";
+      query = query.or(`${sortColumn}.${past}.${value},and(${sortColumn}.eq.${value},id.gt.${id}),${sortColumn}.is.null`);
+    }
+  }
+
+  const { data, error } = await query
+    .order(sortColumn, { ascending: direction === "asc", nullsFirst: false })
+    .order("id", { ascending: true })
+    .limit(limit + 1);
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as unknown as Array<Product & { price_listings?: unknown }>;
+  const pageRows = rows.slice(0, limit);
+  // The retailer filter's join is not part of the product
+  for (const row of pageRows) delete row.price_listings;
+  const products: Product[] = pageRows;
+  const last = products[products.length - 1];
+  const page: ProductPage = {
+    data: products,
+    next_cursor:
+      rows.length > limit
+        ? encodeCursor({
+            sort: sortKey,
+            value: (last as unknown as Record<string, string | number | null>)[sortColumn],
+            id: last.id,
+          } satisfies ProductCursor)
+        : null,
+  };
+  res.json(page);
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/products/:id
+// ---------------------------------------------------------------------------
+
+app.get("/api/v1/products/:id", async (req: Request, res: Response) => {
+  res.json(await requireProduct(req.params.id as string));
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/products/:id/prices — current listings, cheapest first
+// ---------------------------------------------------------------------------
+
+app.get("/api/v1/products/:id/prices", async (req: Request, res: Response) => {
+  const product = await requireProduct(req.params.id as string);
+
+  const { data, error } = await supabase
+    .from("price_listings")
+    .select("*, retailer:retailers!retailer_id(id, name, is_active, authorized_dealer, ships_from, region, ships_to, currency)")
+    .eq("product_id", product.id)
+    .order("price_usd", { ascending: true, nullsFirst: false });
+  if (error) throw new Error(error.message);
+
+  // Only active retailers, as on the product page
+  const rows = (data ?? []) as unknown as Array<Omit<ApiPriceListing, "retailer"> & { retailer: (ApiPriceListing["retailer"] & { is_active?: boolean }) | null }>;
+  const listings = rows.filter((l) => l.retailer?.is_active === true) as ApiPriceListing[];
+  for (const listing of listings) delete (listing.retailer as { is_active?: boolean }).is_active;
+
+  const body: PriceListingList = { data: listings };
+  res.json(body);
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/products/:id/history — oldest first, offset-paged
+//   (history is append-only in time order, so offsets stay stable)
+// ---------------------------------------------------------------------------
+
+interface HistoryCursor {
+  product: string;
+  since: string;
+  offset: number;
+}
+
+function isHistoryCursor(c: Record<string, unknown>): boolean {
+  return (
+    typeof c.product === "string" &&
+    typeof c.since === "string" &&
+    !Number.isNaN(Date.parse(c.since)) &&
+    Number.isInteger(c.offset) &&
+    (c.offset as number) >= 0
+  );
+}
+
+app.get("/api/v1/products/:id/history", async (req: Request, res: Response) => {
+  const product = await requireProduct(req.params.id as string);
+  const limit = intParam(req, "limit", HISTORY_MAX_LIMIT, HISTORY_MAX_LIMIT);
+
+  let since: string;
+  let offset = 0;
+  const cursorParam = queryParam(req, "cursor");
+  if (cursorParam) {
+    const cursor = decodeCursor<HistoryCursor>(cursorParam, isHistoryCursor);
+    if (cursor.product !== product.id) {
+      throw new ApiError(400, "bad_request", "Cursor belongs to a different product");
+    }
+    since = cursor.since;
+    offset = cursor.offset;
+  } else {
+    const days = intParam(req, "days", HISTORY_DEFAULT_DAYS, HISTORY_MAX_DAYS);
+    since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  const { data, error } = await supabase
+    .from("price_history")
+    .select("recorded_at, retailer_id, price, price_usd, in_stock")
+    .eq("product_id", product.id)
+    .gte("recorded_at", since)
+    .order("recorded_at", { ascending: true })
+    .range(offset, offset + limit);
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as ApiPriceHistoryPoint[];
+  const page: PriceHistoryPage = {
+    data: rows
+      .slice(0, limit)
+      .map((r) => ({ ...r, price: Number(r.price), price_usd: r.price_usd === null ? null : Number(r.price_usd) })),
+    next_cursor:
+      rows.length > limit
+        ? encodeCursor({ product: product.id, since, offset: offset + limit } satisfies HistoryCursor)
+        : null,
+  };
+  res.json(page);
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/builds/:shareCode — a shared build (not private saved builds or
+//   builds hidden by moderation)
+// ---------------------------------------------------------------------------
+
+app.get("/api/v1/builds/:shareCode", async (req: Request, res: Response) => {
+  const shareCode = req.params.shareCode as string;
+
+  const { data: build, error } = await supabase
+    .from("builds")
+    .select("id, share_code, name, description, upvotes, author_name, tags, shared_total, created_at, updated_at")
+    .eq("share_code", shareCode)
+    .eq("is_saved", false)
+    // The service key bypasses RLS: leave out builds hidden by moderation
+    .eq("is_flagged", false)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!build) throw new ApiError(404, "not_found", `Build ${shareCode} not found`);
+  const { id: buildId, ...publicBuild } = build;
+
+  const { data: items, error: itemsError } = await supabase
+    .from("build_items")
+    .select("category_id, product_id, custom_price, quantity, position, shared_price, shared_retailer_id, product:products(*)")
+    .eq("build_id", buildId)
+    .order("category_id")
+    .order("position");
+  if (itemsError) throw new Error(itemsError.message);
+
+  const body: ApiBuild = {
+    ...publicBuild,
+    description: publicBuild.description ?? "",
+    tags: publicBuild.tags ?? [],
+    items: (items ?? []) as unknown as ApiBuildItem[],
+  };
+  res.json(body);
+});
+
+// ---------------------------------------------------------------------------
+// Fallthrough + errors
+// ---------------------------------------------------------------------------
+
+app.use("/api/v1", (req: Request, res: Response) => {
+  sendError(res, 404, "not_found", `No route for ${req.method} ${req.path}`);
+});
+
+// Express recognizes error handlers by their four parameters
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+app.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+  if (err instanceof ApiError) {
+    sendError(res, err.status, err.code, err.message);
+    return;
+  }
+  console.error(`API error on ${req.method} ${req.originalUrl}:`, err);
+  sendError(res, 500, "internal", "Internal error");
+});
+
+// ---------------------------------------------------------------------------
+// Start
+// ---------------------------------------------------------------------------
+
+app.listen(PORT, () => {
+  console.log(`Public API running at http://localhost:${PORT}/api/v1`);
+  if (!existsSync(OPENAPI_FILE)) console.log("  (no OpenAPI document yet: npm run api:openapi)");
+});
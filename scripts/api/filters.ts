@@ -0,0 +1,72 @@
+/**
+ * Query parameters of GET /api/v1/products: every ProductFilters field as
+ * a snake_case parameter (priceMin -> price_min), lists comma-separated.
+ * The server and scripts/generate-openapi.ts both read PRODUCT_FILTER_KINDS,
+ * and its type makes a new ProductFilters field a compile error here until
+ * it is given a kind.
+ */
+
+import type { ProductFilters } from '../../src/types/index.ts';
+
+type FilterKind<T> = T extends string[] ? 'list' : T extends boolean ? 'flag' : T extends number | null ? 'number' : 'text';
+
+export const PRODUCT_FILTER_KINDS: { [K in keyof ProductFilters]: FilterKind<ProductFilters[K]> } = {
+  search: 'text',
+  brands: 'list',
+  priceMin: 'number',
+  priceMax: 'number',
+  ppiMin: 'number',
+  ppiMax: 'number',
+  quality: 'text',
+  rigType: 'text',
+  retailers: 'list',
+  hideOutOfStock: 'flag',
+  speakerTypes: 'list',
+  sinadMin: 'number',
+  sinadMax: 'number',
+  headphoneDesigns: 'list',
+  iemTypes: 'list',
+  driverTypes: 'list',
+  micConnections: 'list',
+  micTypes: 'list',
+  micPatterns: 'list',
+};
+
+/** priceMin -> price_min */
+export function filterParamName(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+/** Build ProductFilters from query parameters; throws on a malformed value */
+export function parseProductFilters(query: Record<string, unknown>): ProductFilters {
+  const filters: Record<string, unknown> = {};
+
+  for (const [key, kind] of Object.entries(PRODUCT_FILTER_KINDS)) {
+    const param = filterParamName(key);
+    const raw = query[param];
+    if (raw !== undefined && typeof raw !== 'string') {
+      throw new Error(`${param} must be given once`);
+    }
+    const value = raw?.trim() ?? '';
+
+    switch (kind) {
+      case 'list':
+        filters[key] = value ? value.split(',').map((v) => v.trim()).filter(Boolean) : [];
+        break;
+      case 'flag':
+        if (value && value !== 'true' && value !== 'false') throw new Error(`${param} must be true or false`);
+        filters[key] = value === 'true';
+        break;
+      case 'number':
+        if (value && !Number.isFinite(Number(value))) throw new Error(`${param} must be a number`);
+        filters[key] = value ? Number(value) : null;
+        break;
+      case 'text':
+        // search is '' when unset, the other text filters null
+        filters[key] = value || (key === 'search' ? '' : null);
+        break;
+    }
+  }
+
+  return filters as unknown as ProductFilters;
+}
@@ -0,0 +1,65 @@
+/**
+ * Response shapes of the public API (/api/v1, scripts/api-server.ts).
+ *
+ * Built from the app's own types in src/types/index.ts, so a column added
+ * there shows up in the API and its OpenAPI document
+ * (scripts/generate-openapi.ts reads this file) without a second definition.
+ * Only object types, unions of literals, arrays, null, Pick/Omit/Record and
+ * references to other types from these two files can be described.
+ */
+
+import type { Build, BuildItem, PriceListing, Product, Retailer } from '../../src/types/index.ts';
+
+/** Retailer details attached to each listing */
+export type ApiRetailer = Pick<Retailer, 'id' | 'name' | 'authorized_dealer' | 'ships_from' | 'region' | 'ships_to' | 'currency'>;
+
+/** A retailer's current offer for a product */
+export interface ApiPriceListing extends Omit<PriceListing, 'retailer'> {
+  retailer: ApiRetailer;
+}
+
+/** One daily snapshot of a listing's price and availability */
+export interface ApiPriceHistoryPoint {
+  recorded_at: string;
+  retailer_id: string;
+  /** In the retailer's catalog currency */
+  price: number;
+  /** price in USD at the time of the snapshot; null when the currency had no exchange rate */
+  price_usd: number | null;
+  in_stock: boolean;
+}
+
+/** A product in a shared build; product is null if it has since been removed */
+export interface ApiBuildItem extends Pick<BuildItem, 'category_id' | 'product_id' | 'custom_price' | 'quantity' | 'position' | 'shared_price' | 'shared_retailer_id'> {
+  product: Product | null;
+}
+
+/** A shared build; owner and moderation fields are not exposed */
+export interface ApiBuild extends Pick<Build, 'share_code' | 'name' | 'description' | 'upvotes' | 'author_name' | 'tags' | 'shared_total' | 'created_at' | 'updated_at'> {
+  items: ApiBuildItem[];
+}
+
+export interface ProductPage {
+  data: Product[];
+  /** Pass as ?cursor= to fetch the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+export interface PriceListingList {
+  data: ApiPriceListing[];
+}
+
+export interface PriceHistoryPage {
+  data: ApiPriceHistoryPoint[];
+  /** Pass as ?cursor= to fetch the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+export type ApiErrorCode = 'bad_request' | 'unauthorized' | 'not_found' | 'rate_limited' | 'internal';
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+}
@@ -3,7 +3,8 @@
  *
  * General audit: find all approved product_matches where the matched product's
  * brand and the external product's extracted brand are completely different.
- * Rejects those matches, deletes associated price_listings, and re-denormalizes.
+ * Rejects those matches and deletes associated price_listings; the database
+ * re-derives products.price from what remains.
  *
  * Handles false positives:
  * - Strips retailer name prefixes from external product names before brand
@@ -229,47 +230,10 @@ async function main() {
 
   console.log(`Deleted ${deletedListings} price_listings`);
 
-  // Step 7: Re-denormalize affected products
-  const affectedProductIds = [...new Set(mismatches.map(m => m.product_id))];
-  let redenormalized = 0;
-
-  for (const productId of affectedProductIds) {
-    // Find the next best valid listing
-    const { data: bestListing } = await supabase
-      .from('price_listings')
-      .select('price, affiliate_url, product_url, image_url')
-      .eq('product_id', productId)
-      .eq('in_stock', true)
-      .order('price', { ascending: true })
-      .limit(1);
-
-    if (bestListing && bestListing.length > 0) {
-      const best = bestListing[0];
-      await supabase
-        .from('products')
-        .update({
-          price: best.price,
-          affiliate_url: best.affiliate_url ?? best.product_url,
-          ...(best.image_url ? { image_url: best.image_url } : {}),
-        })
-        .eq('id', productId);
-    } else {
-      // No valid listings remain -- clear price and affiliate
-      await supabase
-        .from('products')
-        .update({ price: null, affiliate_url: null, image_url: null })
-        .eq('id', productId);
-    }
-    redenormalized++;
-  }
-
-  console.log(`Re-denormalized ${redenormalized} products`);
-
   console.log(`\n=================================================================`);
   console.log('  AUDIT COMPLETE');
   console.log(`  Matches rejected: ${rejectedCount}`);
   console.log(`  Listings deleted: ${deletedListings}`);
-  console.log(`  Products re-denormalized: ${redenormalized}`);
   console.log('=================================================================\n');
 }
 
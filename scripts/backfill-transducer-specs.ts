@@ -0,0 +1,223 @@
+/**
+ * backfill-transducer-specs.ts
+ *
+ * Populate impedance_ohms and sensitivity_db_mw for IEM and headphone
+ * products so the builder can check amp/transducer power matching.
+ *
+ * Extraction passes (only fills NULLs):
+ * 1. Store product tags (via canonical_product_id + extractTagAttributes)
+ * 2. Known brand/model lookup table
+ *
+ * Sensitivity quoted in dB/V is converted to dB/mW using the impedance,
+ * so a dB/V value is only usable once the impedance is known.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-transducer-specs.ts --dry-run
+ *   npx tsx scripts/backfill-transducer-specs.ts
+ *   npx tsx scripts/backfill-transducer-specs.ts --dev
+ */
+
+import { getSupabase } from './config/retailers.ts';
+import { extractTagAttributes } from './lib/extract-tags.ts';
+import { lookupKnownTransducerSpecs, toSensitivityDbMw } from './lib/transducer-known-specs.ts';
+
+const BATCH = 1000;
+const DRY = process.argv.includes('--dry-run');
+const DEV = process.argv.includes('--dev');
+
+const CATEGORIES = ['iem', 'headphone'];
+
+interface TransducerProduct {
+  id: string;
+  name: string;
+  brand: string | null;
+  impedance_ohms: number | null;
+  sensitivity_db_mw: number | null;
+}
+
+interface TransducerUpdate {
+  impedance_ohms?: number;
+  sensitivity_db_mw?: number;
+}
+
+/** A sensitivity spec waiting for an impedance to be converted */
+interface PendingSensitivity {
+  db: number;
+  unit: 'db_mw' | 'db_v';
+}
+
+async function main() {
+  const supabase = getSupabase();
+
+  console.log('=================================================================');
+  console.log('  Backfill transducer specs (impedance, sensitivity)');
+  console.log(`  Mode: ${DRY ? 'DRY RUN' : 'LIVE'}${DEV ? ' [DEV]' : ''}`);
+  console.log('=================================================================\n');
+
+  // Step 1: Load IEM/headphone products missing either spec
+  const products: TransducerProduct[] = [];
+  let offset = 0;
+  const limit = DEV ? 100 : 50000;
+
+  while (products.length < limit) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, name, brand, impedance_ohms, sensitivity_db_mw')
+      .in('category_id', CATEGORIES)
+      .or('impedance_ohms.is.null,sensitivity_db_mw.is.null')
+      .range(offset, offset + BATCH - 1);
+
+    if (error) {
+      console.error('Error loading products:', error.message);
+      break;
+    }
+    if (!data || data.length === 0) break;
+    products.push(...data);
+    offset += BATCH;
+    if (data.length < BATCH) break;
+  }
+
+  console.log(`Loaded ${products.length} IEM/headphone products missing a spec\n`);
+
+  if (products.length === 0) {
+    console.log('Nothing to backfill.');
+    return;
+  }
+
+  const productMap = new Map(products.map(p => [p.id, p]));
+  const impedances = new Map<string, number>();
+  const sensitivities = new Map<string, PendingSensitivity>();
+
+  // ── Pass 1: Store product tags ──
+  console.log('Pass 1: Checking store_products tags...');
+  let p1imp = 0, p1sens = 0;
+  let spOffset = 0;
+
+  while (true) {
+    const { data: storeProducts, error } = await supabase
+      .from('store_products')
+      .select('canonical_product_id, tags')
+      .not('canonical_product_id', 'is', null)
+      .in('category_id', CATEGORIES)
+      .range(spOffset, spOffset + BATCH - 1);
+
+    if (error) {
+      console.error('Error loading store_products:', error.message);
+      break;
+    }
+    if (!storeProducts || storeProducts.length === 0) break;
+
+    for (const sp of storeProducts) {
+      const pid = sp.canonical_product_id as string;
+      const p = productMap.get(pid);
+      const tags = sp.tags as string[] | null;
+      if (!p || !tags || tags.length === 0) continue;
+
+      const attrs = extractTagAttributes(tags);
+      if (p.impedance_ohms === null && !impedances.has(pid) && attrs.impedance_ohms !== undefined) {
+        impedances.set(pid, attrs.impedance_ohms);
+        p1imp++;
+      }
+      if (p.sensitivity_db_mw === null && !sensitivities.has(pid) && attrs.sensitivity_db !== undefined) {
+        sensitivities.set(pid, { db: attrs.sensitivity_db, unit: attrs.sensitivity_unit ?? 'db_mw' });
+        p1sens++;
+      }
+    }
+
+    spOffset += BATCH;
+    if (storeProducts.length < BATCH) break;
+  }
+  console.log(`  impedance: ${p1imp}, sensitivity: ${p1sens}`);
+
+  // ── Pass 2: Known brand/model lookup ──
+  console.log('Pass 2: Known brand/model lookup...');
+  let p2imp = 0, p2sens = 0;
+  for (const p of products) {
+    const needsImpedance = p.impedance_ohms === null && !impedances.has(p.id);
+    const needsSensitivity = p.sensitivity_db_mw === null && !sensitivities.has(p.id);
+    if (!needsImpedance && !needsSensitivity) continue;
+
+    const known = lookupKnownTransducerSpecs(p.name, p.brand);
+    if (!known) continue;
+    if (needsImpedance) { impedances.set(p.id, known.impedance_ohms); p2imp++; }
+    if (needsSensitivity) {
+      sensitivities.set(p.id, { db: known.sensitivity_db, unit: known.sensitivity_unit });
+      p2sens++;
+    }
+  }
+  console.log(`  impedance: ${p2imp}, sensitivity: ${p2sens}`);
+
+  // ── Resolve updates (dB/V -> dB/mW needs the impedance) ──
+  const updates = new Map<string, TransducerUpdate>();
+  let unconverted = 0;
+
+  for (const p of products) {
+    const u: TransducerUpdate = {};
+    const impedance = impedances.get(p.id);
+    if (impedance !== undefined) u.impedance_ohms = impedance;
+
+    const sens = sensitivities.get(p.id);
+    if (sens) {
+      const dbMw = toSensitivityDbMw(sens.db, sens.unit, impedance ?? p.impedance_ohms);
+      if (dbMw !== null) u.sensitivity_db_mw = dbMw;
+      else unconverted++;
+    }
+
+    if (Object.keys(u).length > 0) updates.set(p.id, u);
+  }
+
+  const impUpdates = [...updates.values()].filter(u => u.impedance_ohms !== undefined).length;
+  const sensUpdates = [...updates.values()].filter(u => u.sensitivity_db_mw !== undefined).length;
+
+  console.log(`\nSummary:`);
+  console.log(`  Products to update: ${updates.size}`);
+  console.log(`  Impedance fills: ${impUpdates}`);
+  console.log(`  Sensitivity fills: ${sensUpdates}`);
+  console.log(`  dB/V specs without impedance (skipped): ${unconverted}`);
+
+  if (DRY) {
+    console.log('\nSample updates:');
+    let shown = 0;
+    for (const [id, u] of updates) {
+      const p = productMap.get(id)!;
+      console.log(`  ${p.brand ?? ''} ${p.name}`.trimEnd());
+      if (u.impedance_ohms !== undefined) console.log(`    impedance: NULL -> ${u.impedance_ohms} ohm`);
+      if (u.sensitivity_db_mw !== undefined) console.log(`    sensitivity: NULL -> ${u.sensitivity_db_mw} dB/mW`);
+      if (++shown >= 20) {
+        console.log(`  ... and ${updates.size - shown} more`);
+        break;
+      }
+    }
+    console.log('\n*** DRY RUN complete. No changes made. ***');
+    return;
+  }
+
+  // ── Apply updates ──
+  console.log('\nApplying updates...');
+  let updated = 0;
+  let errors = 0;
+
+  for (const [id, u] of updates) {
+    const { error } = await supabase
+      .from('products')
+      .update(u)
+      .eq('id', id);
+
+    if (error) {
+      console.error(`  Error updating ${id}:`, error.message);
+      errors++;
+    } else {
+      updated++;
+    }
+  }
+
+  console.log(`\n=================================================================`);
+  console.log(`  BACKFILL COMPLETE`);
+  console.log(`  Products updated: ${updated}`);
+  console.log(`  Errors: ${errors}`);
+  console.log(`  Impedance fills: ${impUpdates}`);
+  console.log(`  Sensitivity fills: ${sensUpdates}`);
+  console.log('=================================================================\n');
+}
+
+main().catch(console.error);
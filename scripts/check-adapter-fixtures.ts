@@ -0,0 +1,139 @@
+/**
+ * check-adapter-fixtures.ts
+ *
+ * Replay the HTTP responses recorded under scripts/fixtures/<platform>/
+ * through the WooCommerce and BigCommerce adapters and compare the
+ * normalized listings (and affiliate URLs) with the expected.json next to
+ * them. Fully offline; exits 1 on any difference, so a change to an
+ * adapter's parsing shows up as a diff here rather than as bad
+ * store_products rows.
+ *
+ * The fixture stores below are not in STORE_COLLECTIONS. To re-record, add a
+ * real store there and run check-adapter.ts with --fixtures=<dir> --record,
+ * then trim the responses to a few products.
+ *
+ * Usage:
+ *   npx tsx scripts/check-adapter-fixtures.ts [--update]
+ *
+ * Options:
+ *   --update   Rewrite each expected.json from the current adapter output
+ */
+
+import assert from 'assert';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import type { Retailer } from './config/retailers.ts';
+import { STORE_COLLECTIONS, type StoreConfig } from './config/store-collections.ts';
+import { getStoreAdapter, type AdapterContext, type StoreProduct } from './adapters/index.ts';
+import { createHttpClient } from './lib/http.ts';
+import { log, logError } from './lib/log.ts';
+
+const FIXTURES_ROOT = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const UPDATE = process.argv.slice(2).includes('--update');
+
+type FixtureCase = {
+  /** Directory under scripts/fixtures */
+  name: string;
+  domain: string;
+  store: StoreConfig;
+};
+
+const CASES: FixtureCase[] = [
+  {
+    name: 'woocommerce',
+    domain: 'woo.example.com',
+    store: {
+      retailerId: 'fixture_woo',
+      platform: 'woocommerce',
+      collections: [{ handle: 'in-ear-monitors', categoryId: 'iem' }],
+    },
+  },
+  {
+    name: 'bigcommerce',
+    domain: 'bigcommerce.example.com',
+    store: {
+      retailerId: 'fixture_bc',
+      platform: 'bigcommerce',
+      storeHash: 'fx7q2k',
+      collections: [{ handle: 'headphones', categoryId: 'headphone' }],
+    },
+  },
+];
+
+type ExpectedCollection = {
+  handle: string;
+  listings: (StoreProduct & { affiliateLink: string })[];
+};
+
+async function runCase(c: FixtureCase): Promise<ExpectedCollection[]> {
+  // The BigCommerce adapter reads its store hash from STORE_COLLECTIONS and
+  // insists on a token; replayed requests never send it
+  STORE_COLLECTIONS[c.domain] = c.store;
+  const tokenVar = `BIGCOMMERCE_TOKEN_${c.store.retailerId.toUpperCase()}`;
+  process.env[tokenVar] ??= 'fixture';
+
+  const adapter = getStoreAdapter(c.store);
+  const retailer: Retailer = {
+    id: c.store.retailerId,
+    name: c.store.retailerId,
+    base_url: `https://${c.domain}`,
+    shop_domain: c.domain,
+    api_type: adapter.platform,
+    affiliate_tag: null,
+    affiliate_url_template: null,
+    is_active: true,
+    region: 'us',
+    currency: 'USD',
+  };
+  const ctx: AdapterContext = {
+    domain: c.domain,
+    retailer,
+    http: createHttpClient({ fixturesDir: join(FIXTURES_ROOT, c.name), fixtureMode: 'replay' }),
+  };
+
+  const result: ExpectedCollection[] = [];
+  for (const collection of await adapter.listCollections(c.store, ctx)) {
+    const raw = await adapter.fetchProducts(collection, ctx, { maxPages: 1, limit: 100 });
+    const listings = raw
+      .flatMap((p) => adapter.normalize(p, ctx))
+      .map((l) => ({ ...l, affiliateLink: adapter.buildAffiliateUrl(l, retailer) }));
+    result.push({ handle: collection.handle, listings });
+  }
+  return result;
+}
+
+async function main(): Promise<void> {
+  let failures = 0;
+
+  for (const c of CASES) {
+    const expectedFile = join(FIXTURES_ROOT, c.name, 'expected.json');
+    try {
+      const actual = await runCase(c);
+      // Through JSON so undefined fields compare like they are stored
+      const normalized = JSON.parse(JSON.stringify(actual)) as ExpectedCollection[];
+
+      if (UPDATE) {
+        writeFileSync(expectedFile, JSON.stringify(normalized, null, 2) + '\n');
+        log('UPDATE', `${c.name}: wrote ${expectedFile}`);
+        continue;
+      }
+      if (!existsSync(expectedFile)) throw new Error(`No ${expectedFile}; run with --update`);
+
+      const expected = JSON.parse(readFileSync(expectedFile, 'utf-8')) as ExpectedCollection[];
+      assert.deepStrictEqual(normalized, expected);
+      const count = normalized.reduce((sum, col) => sum + col.listings.length, 0);
+      log('OK', `${c.name}: ${count} listings match expected.json`);
+    } catch (err) {
+      failures++;
+      logError('FAIL', c.name, err);
+    }
+  }
+
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+/**
+ * check-adapter.ts
+ *
+ * Run one store's retailer adapter end to end -- list collections, fetch,
+ * normalize -- and print what would be written to store_products. No
+ * database access, so it runs against recorded HTTP fixtures in CI or when
+ * adding a new shop.
+ *
+ * Usage:
+ *   npx tsx scripts/check-adapter.ts --store=<domain> [options]
+ *
+ * Options:
+ *   --collection=<handle>  Only this collection (default: all configured)
+ *   --fixtures=<dir>       Replay responses recorded in <dir>
+ *   --record               With --fixtures, hit the network and record into <dir>
+ *   --show=N               Listings to print per collection (default: 5)
+ */
+
+import "./lib/env.js";
+import type { Retailer } from './config/retailers.ts';
+import { STORE_COLLECTIONS } from './config/store-collections.ts';
+import { getStoreAdapter, type AdapterContext } from './adapters/index.ts';
+import { createHttpClient } from './lib/http.ts';
+import { log, logError } from './lib/log.ts';
+
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | null {
+  const prefix = `--${name}=`;
+  const arg = args.find((a) => a.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : null;
+}
+
+const STORE = getArg('store');
+const COLLECTION = getArg('collection');
+const FIXTURES_DIR = getArg('fixtures');
+const RECORD = args.includes('--record');
+const SHOW = parseInt(getArg('show') ?? '5', 10);
+
+async function main(): Promise<void> {
+  const config = STORE ? STORE_COLLECTIONS[STORE] : undefined;
+  if (!STORE || !config) {
+    console.error(`Unknown or missing --store. Known stores:\n  ${Object.keys(STORE_COLLECTIONS).join('\n  ')}`);
+    process.exit(1);
+  }
+
+  const adapter = getStoreAdapter(config);
+  // Offline stand-in for the retailers row: no affiliate template is applied
+  const retailer: Retailer = {
+    id: config.retailerId,
+    name: config.retailerId,
+    base_url: `https://${STORE}`,
+    shop_domain: STORE,
+    api_type: adapter.platform,
+    affiliate_tag: null,
+    affiliate_url_template: null,
+    is_active: true,
+    region: 'us',
+    currency: 'USD',
+  };
+  const ctx: AdapterContext = {
+    domain: STORE,
+    retailer,
+    http: createHttpClient({
+      fixturesDir: FIXTURES_DIR ?? undefined,
+      fixtureMode: RECORD ? 'record' : 'replay',
+    }),
+  };
+
+  console.log('=================================================================');
+  console.log(`  Adapter check — ${STORE} (${adapter.platform})`);
+  console.log(`  HTTP: ${FIXTURES_DIR ? `${RECORD ? 'recording to' : 'replaying'} ${FIXTURES_DIR}` : 'live'}`);
+  console.log('=================================================================\n');
+
+  const wanted = COLLECTION
+    ? { ...config, collections: config.collections.filter((c) => c.handle === COLLECTION) }
+    : config;
+  const collections = await adapter.listCollections(wanted, ctx);
+  log('LIST', `${collections.length}/${wanted.collections.length} collections found on the store`);
+
+  let failures = 0;
+  for (const collection of collections) {
+    try {
+      const raw = await adapter.fetchProducts(collection, ctx, { maxPages: 1, limit: 100 });
+      const listings = raw.flatMap((p) => adapter.normalize(p, ctx));
+      const priced = listings.filter((l) => l.price !== null).length;
+      const split = listings.filter((l) => l.variantId !== null).length;
+      log('FETCH', `${collection.handle} (${collection.categoryId}): ${raw.length} products -> ${listings.length} listings (${priced} priced, ${split} variants)`);
+
+      for (const l of listings.slice(0, SHOW)) {
+        const price = l.price !== null ? `$${l.price.toFixed(2)}` : 'no price';
+        console.log(`    ${l.externalId}  ${l.title}${l.variantTitle ? ` [${l.variantTitle}]` : ''}  ${price}${l.inStock ? '' : ' (out of stock)'}`);
+        console.log(`      ${adapter.buildAffiliateUrl(l, retailer)}`);
+      }
+    } catch (err) {
+      failures++;
+      logError('FETCH', collection.handle, err);
+    }
+  }
+
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
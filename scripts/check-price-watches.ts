@@ -0,0 +1,415 @@
+/**
+ * check-price-watches.ts
+ *
+ * Runs after snapshot-prices.ts. Compares the newest price_history snapshot
+ * (its USD prices, migration 040) against every row in price_watches and queues a notification for each
+ * watch whose lowest in-stock price has reached its target, and for each
+ * restock watch whose product is back in stock after selling out everywhere.
+ *
+ * A watch notifies once when it first triggers and again only if the price
+ * keeps falling below the last notified price. A restock watch notifies on
+ * every sold-out -> in-stock transition. Notifications are rendered
+ * email/webhook payloads written to the notification_outbox table (or a
+ * local JSONL file with --outbox-file) for a sender to deliver.
+ *
+ * Usage:
+ *   SUPABASE_SERVICE_KEY=<key> npx tsx scripts/check-price-watches.ts [--dry-run] [--outbox-file=<path>]
+ *
+ * --dry-run:            Log what would be queued without writing anything.
+ * --outbox-file=<path>: Append notifications to a JSONL file instead of the
+ *                       notification_outbox table (watch state is still updated).
+ *
+ * Notifications are written before any watch is updated, and a watch whose
+ * notifications could not be written keeps its old state, so the next run
+ * queues them again.
+ */
+
+import "./lib/env.js";
+import fs from 'fs';
+import path from 'path';
+import { getSupabase } from './config/retailers.ts';
+import { log, logError } from './lib/log.ts';
+import { reportStats } from './lib/run-stats.ts';
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const OUTBOX_FILE = (() => {
+  const idx = process.argv.findIndex((a) => a.startsWith('--outbox-file='));
+  return idx >= 0 ? process.argv[idx].split('=')[1] : null;
+})();
+
+const SITE_URL = process.env.SITE_URL ?? 'https://audiolist.pages.dev';
+const BATCH_SIZE = 500;
+/** Only look at price_history rows this recent (snapshots run daily). */
+const LOOKBACK_HOURS = 48;
+/** Rows within this window of a product's newest row belong to the same snapshot. */
+const SNAPSHOT_WINDOW_MS = 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type PriceWatch = {
+  id: string;
+  product_id: string;
+  target_price: number | null;
+  notify_restock: boolean;
+  email: string | null;
+  webhook_url: string | null;
+  last_price: number | null;
+  triggered_at: string | null;
+  last_notified_price: number | null;
+  last_in_stock: boolean | null;
+  restocked_at: string | null;
+  products: { name: string; brand: string | null } | null;
+};
+
+type HistoryRow = {
+  product_id: string;
+  retailer_id: string;
+  /** null when the retailer's currency had no exchange rate */
+  price_usd: number | null;
+  in_stock: boolean;
+  recorded_at: string;
+};
+
+type SnapshotPrice = {
+  /** USD, like target_price */
+  price: number;
+  retailerId: string;
+};
+
+/** A product's newest snapshot; price is null when nothing is in stock */
+type Snapshot = SnapshotPrice | { price: null; retailerId: null };
+
+type NotificationKind = 'price_drop' | 'back_in_stock';
+
+type OutboxRow = {
+  watch_id: string;
+  kind: NotificationKind;
+  channel: 'email' | 'webhook';
+  recipient: string;
+  payload: Record<string, unknown>;
+};
+
+/** One watch's new state and the notifications that go with it */
+type WatchCheck = {
+  watch: PriceWatch;
+  update: Record<string, unknown>;
+  notifications: OutboxRow[];
+};
+
+type Stats = {
+  watches: number;
+  priced: number;
+  triggered: number;
+  restocked: number;
+  notifications: number;
+  errors: number;
+};
+
+// ---------------------------------------------------------------------------
+// Load
+// ---------------------------------------------------------------------------
+
+async function loadWatches(): Promise<PriceWatch[]> {
+  const supabase = getSupabase();
+  const all: PriceWatch[] = [];
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('price_watches')
+      .select('id, product_id, target_price, notify_restock, email, webhook_url, last_price, triggered_at, last_notified_price, last_in_stock, restocked_at, products(name, brand)')
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) throw error;
+
+    const batch = (data ?? []) as unknown as PriceWatch[];
+    all.push(...batch);
+    offset += BATCH_SIZE;
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  return all;
+}
+
+/**
+ * Lowest in-stock USD price per product from each product's newest snapshot.
+ * Products with no in-stock listing in that snapshot map to a null price;
+ * products with no recent snapshot are left out.
+ */
+async function loadSnapshots(productIds: string[]): Promise<Map<string, Snapshot>> {
+  const supabase = getSupabase();
+  const since = new Date(Date.now() - LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+  const rowsByProduct = new Map<string, HistoryRow[]>();
+
+  for (let i = 0; i < productIds.length; i += BATCH_SIZE) {
+    const ids = productIds.slice(i, i + BATCH_SIZE);
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await supabase
+        .from('price_history')
+        .select('product_id, retailer_id, price_usd, in_stock, recorded_at')
+        .in('product_id', ids)
+        .gte('recorded_at', since)
+        .order('recorded_at', { ascending: false })
+        .range(offset, offset + BATCH_SIZE - 1);
+
+      if (error) throw error;
+
+      const batch = (data ?? []) as HistoryRow[];
+      for (const row of batch) {
+        const list = rowsByProduct.get(row.product_id) ?? [];
+        list.push(row);
+        rowsByProduct.set(row.product_id, list);
+      }
+      offset += BATCH_SIZE;
+      if (batch.length < BATCH_SIZE) break;
+    }
+  }
+
+  const snapshots = new Map<string, Snapshot>();
+  for (const [productId, rows] of rowsByProduct) {
+    // Rows are newest-first, so rows[0] marks the latest snapshot
+    const newest = new Date(rows[0].recorded_at).getTime();
+    let best: SnapshotPrice | null = null;
+
+    for (const row of rows) {
+      if (newest - new Date(row.recorded_at).getTime() > SNAPSHOT_WINDOW_MS) break;
+      if (!row.in_stock || row.price_usd == null) continue;
+      const price = Number(row.price_usd);
+      if (!best || price < best.price) {
+        best = { price, retailerId: row.retailer_id };
+      }
+    }
+
+    snapshots.set(productId, best ?? { price: null, retailerId: null });
+  }
+
+  return snapshots;
+}
+
+// ---------------------------------------------------------------------------
+// Notifications
+// ---------------------------------------------------------------------------
+
+function buildNotifications(watch: PriceWatch, snapshot: SnapshotPrice, kind: NotificationKind): OutboxRow[] {
+  const name = watch.products?.name ?? 'A watched product';
+  const url = `${SITE_URL}/product/${watch.product_id}`;
+  const price = snapshot.price.toFixed(2);
+  const target = Number(watch.target_price).toFixed(2);
+  const rows: OutboxRow[] = [];
+
+  if (watch.email) {
+    rows.push({
+      watch_id: watch.id,
+      kind,
+      channel: 'email',
+      recipient: watch.email,
+      payload:
+        kind === 'price_drop'
+          ? {
+              subject: `Price drop: ${name} is now $${price}`,
+              text: [
+                `${name} dropped to $${price} (your target: $${target}).`,
+                '',
+                `View it on AudioList: ${url}`,
+              ].join('\n'),
+            }
+          : {
+              subject: `Back in stock: ${name}`,
+              text: [
+                `${name} is back in stock at $${price} (${snapshot.retailerId}).`,
+                '',
+                `View it on AudioList: ${url}`,
+              ].join('\n'),
+            },
+    });
+  }
+
+  if (watch.webhook_url) {
+    rows.push({
+      watch_id: watch.id,
+      kind,
+      channel: 'webhook',
+      recipient: watch.webhook_url,
+      payload: {
+        event: kind,
+        product_id: watch.product_id,
+        product_name: name,
+        price: snapshot.price,
+        ...(kind === 'price_drop' ? { target_price: Number(watch.target_price) } : {}),
+        retailer_id: snapshot.retailerId,
+        url,
+      },
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Write the checks' notifications. A watch's rows always go in the same
+ * batch, so each watch is either fully queued or not at all. Returns the ids
+ * of the watches whose notifications were not written.
+ */
+async function writeOutbox(checks: WatchCheck[]): Promise<Set<string>> {
+  const failed = new Set<string>();
+  const pending = checks.filter((c) => c.notifications.length > 0);
+  if (pending.length === 0) return failed;
+
+  if (OUTBOX_FILE) {
+    const created_at = new Date().toISOString();
+    const lines =
+      pending.flatMap((c) => c.notifications.map((r) => JSON.stringify({ ...r, created_at }))).join('\n') + '\n';
+    try {
+      fs.mkdirSync(path.dirname(path.resolve(OUTBOX_FILE)), { recursive: true });
+      fs.appendFileSync(OUTBOX_FILE, lines, 'utf-8');
+    } catch (err) {
+      logError('OUTBOX', `Failed to append to ${OUTBOX_FILE}`, err);
+      for (const c of pending) failed.add(c.watch.id);
+    }
+    return failed;
+  }
+
+  const supabase = getSupabase();
+  let batch: WatchCheck[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const { error } = await supabase.from('notification_outbox').insert(batch.flatMap((c) => c.notifications));
+    if (error) {
+      logError('OUTBOX', `Failed to insert notifications for ${batch.length} watches`, error);
+      for (const c of batch) failed.add(c.watch.id);
+    }
+    batch = [];
+  };
+
+  let rowCount = 0;
+  for (const check of pending) {
+    if (rowCount + check.notifications.length > BATCH_SIZE) {
+      await flush();
+      rowCount = 0;
+    }
+    batch.push(check);
+    rowCount += check.notifications.length;
+  }
+  await flush();
+  return failed;
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main() {
+  const stats: Stats = { watches: 0, priced: 0, triggered: 0, restocked: 0, notifications: 0, errors: 0 };
+  const supabase = getSupabase();
+
+  console.log('=====================================================');
+  console.log('  AudioList Price Watch Check');
+  console.log(`  Mode: ${DRY_RUN ? 'DRY RUN' : 'LIVE'}${OUTBOX_FILE ? ` (outbox file: ${OUTBOX_FILE})` : ''}`);
+  console.log('=====================================================\n');
+
+  const watches = await loadWatches();
+  stats.watches = watches.length;
+  log('LOAD', `${watches.length} price watches`);
+
+  if (watches.length === 0) {
+    log('DONE', 'No watches. Nothing to check.');
+    return;
+  }
+
+  const productIds = [...new Set(watches.map((w) => w.product_id))];
+  const snapshots = await loadSnapshots(productIds);
+  const inStockCount = [...snapshots.values()].filter((s) => s.price !== null).length;
+  log('LOAD', `${inStockCount} / ${productIds.length} watched products have an in-stock price in the latest snapshot`);
+
+  const now = new Date().toISOString();
+  const checks: WatchCheck[] = [];
+
+  for (const watch of watches) {
+    const snapshot = snapshots.get(watch.product_id);
+    const update: Record<string, unknown> = { last_checked_at: now };
+    const outbox: OutboxRow[] = [];
+    checks.push({ watch, update, notifications: outbox });
+
+    if (snapshot) {
+      const inStock = snapshot.price !== null;
+      update.last_in_stock = inStock;
+      if (inStock) update.last_price = snapshot.price;
+
+      if (watch.notify_restock && inStock && watch.last_in_stock === false) {
+        stats.restocked++;
+        outbox.push(...buildNotifications(watch, snapshot, 'back_in_stock'));
+        update.restocked_at = now;
+        log('RESTOCK', `${watch.products?.name ?? watch.product_id}: back in stock at $${snapshot.price}`);
+      } else if (!inStock && watch.restocked_at) {
+        // Sold out again: clear the alert until the next restock
+        update.restocked_at = null;
+      }
+    }
+
+    if (snapshot?.price != null && watch.target_price != null) {
+      stats.priced++;
+
+      const reached = snapshot.price <= Number(watch.target_price);
+      const lastNotified = watch.last_notified_price != null ? Number(watch.last_notified_price) : null;
+
+      if (reached && (lastNotified === null || snapshot.price < lastNotified)) {
+        stats.triggered++;
+        outbox.push(...buildNotifications(watch, snapshot, 'price_drop'));
+        update.triggered_at = watch.triggered_at ?? now;
+        update.last_notified_price = snapshot.price;
+        log('TRIGGER', `${watch.products?.name ?? watch.product_id}: $${snapshot.price} <= $${watch.target_price}`);
+      } else if (!reached && watch.triggered_at) {
+        // Price climbed back above target: re-arm so the next drop notifies again
+        update.triggered_at = null;
+        update.last_notified_price = null;
+      }
+    }
+
+  }
+
+  const outbox = checks.flatMap((c) => c.notifications);
+  if (DRY_RUN) {
+    stats.notifications = outbox.length;
+    for (const row of outbox) {
+      log('DRY', `${row.channel} -> ${row.recipient}`);
+    }
+  } else {
+    // Queue first: a watch is only marked notified once its notifications exist
+    const failed = await writeOutbox(checks);
+    stats.notifications = outbox.filter((row) => !failed.has(row.watch_id)).length;
+
+    for (const { watch, update } of checks) {
+      if (failed.has(watch.id)) {
+        stats.errors++;
+        continue;
+      }
+      const { error } = await supabase.from('price_watches').update(update).eq('id', watch.id);
+      if (error) {
+        stats.errors++;
+        logError('UPDATE', `Failed to update watch ${watch.id}`, error);
+      }
+    }
+  }
+  reportStats(stats);
+
+  console.log('\n=====================================================');
+  console.log('  Summary');
+  console.log('=====================================================');
+  console.log(`  Watches checked:      ${stats.watches}`);
+  console.log(`  With snapshot price:  ${stats.priced}`);
+  console.log(`  Triggered:            ${stats.triggered}`);
+  console.log(`  Back in stock:        ${stats.restocked}`);
+  console.log(`  Notifications queued: ${stats.notifications}`);
+  console.log(`  Errors:               ${stats.errors}`);
+  console.log('=====================================================\n');
+}
+
+main().catch((err) => {
+  logError('FATAL', 'Price watch check failed', err);
+  process.exit(1);
+});
@@ -13,7 +13,7 @@
  * For each false positive:
  * - Delete the price_listing
  * - Update product_matches status to 'rejected'
- * - Re-denormalize the product's price from remaining valid listings
+ * (products.price is re-derived from the remaining listings by the database)
  *
  * Usage: npx tsx scripts/cleanup-amazon-false-positives.ts [--dry-run]
  */
@@ -301,69 +301,6 @@ async function main() {
     }
   }
 
-  // Step 8: Re-denormalize prices for affected products
-  log('DENORM', `Re-denormalizing prices for ${affectedProductIds.size} affected products...`);
-  let priceFixed = 0;
-  let priceCleared = 0;
-
-  for (const productId of affectedProductIds) {
-    // Find the cheapest valid in-stock listing
-    const { data: validListings } = await supabase
-      .from('price_listings')
-      .select('price, affiliate_url, product_url, in_stock, image_url')
-      .eq('product_id', productId)
-      .eq('in_stock', true)
-      .order('price', { ascending: true })
-      .limit(1);
-
-    if (validListings && validListings.length > 0) {
-      const best = validListings[0];
-      await supabase.from('products').update({
-        price: best.price,
-        affiliate_url: best.affiliate_url ?? best.product_url,
-        in_stock: true,
-      }).eq('id', productId);
-      priceFixed++;
-    } else {
-      // No valid listings remain -- check if any listing exists at all
-      const { data: anyListings } = await supabase
-        .from('price_listings')
-        .select('price, affiliate_url, product_url')
-        .eq('product_id', productId)
-        .order('price', { ascending: true })
-        .limit(1);
-
-      if (anyListings && anyListings.length > 0) {
-        const best = anyListings[0];
-        await supabase.from('products').update({
-          price: best.price,
-          affiliate_url: best.affiliate_url ?? best.product_url,
-          in_stock: false,
-        }).eq('id', productId);
-        priceFixed++;
-      } else {
-        // No listings at all -- clear denormalized price only if it was from Amazon
-        const product = productPrices.get(productId);
-        if (product?.price !== null) {
-          // Check if the product's affiliate_url is from Amazon
-          const { data: p } = await supabase
-            .from('products')
-            .select('affiliate_url')
-            .eq('id', productId)
-            .single();
-
-          if (p?.affiliate_url?.includes('amazon.com')) {
-            await supabase.from('products').update({
-              affiliate_url: null,
-              in_stock: false,
-            }).eq('id', productId);
-            priceCleared++;
-          }
-        }
-      }
-    }
-  }
-
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log('\n=================================================================');
   console.log('  AMAZON CLEANUP COMPLETE');
@@ -371,8 +308,6 @@ async function main() {
   console.log(`  Duration:              ${elapsed}s`);
   console.log(`  False positive listings: ${falsePositiveListingIds.length}`);
   console.log(`  Matches rejected:      ${falsePositiveMatchIds.length}`);
-  console.log(`  Products re-priced:    ${priceFixed}`);
-  console.log(`  Prices cleared:        ${priceCleared}`);
   console.log('=================================================================\n');
 }
 
@@ -519,6 +519,8 @@ export const JUNK_PRODUCT_PATTERNS: RegExp[] = [
   /^DAC\s+Test\b/i,
   /\bTest\s+DAC\s+Test\b/i,
   /^Test\s+Reference$/i,
+  // --- triage: delete (generated by scripts/export-category-rules.ts, do not edit) ---
+  // --- end triage: delete ---
 ];
 
 /** Explicit product overrides: items known to be in the wrong category. */
@@ -542,4 +544,6 @@ export const MISPLACED_OVERRIDES: Array<{
   { pattern: /\bInterspeaker\s+Cable\b/i, sourceCategory: 'headphone', targetCategory: 'cable' },
   { pattern: /\bSubwoofer\s+Adapter\b/i, sourceCategory: 'headphone', targetCategory: 'cable' },
   { pattern: /\bCanpur\s+Silver\s+Flash\b/i, sourceCategory: 'headphone', targetCategory: 'iem' },
+  // --- triage: move (generated by scripts/export-category-rules.ts, do not edit) ---
+  // --- end triage: move ---
 ];
@@ -11,6 +11,10 @@ export type Retailer = {
   affiliate_tag: string | null;
   affiliate_url_template: string | null;
   is_active: boolean;
+  /** Home region ('us' | 'eu' | 'uk' | 'au' | 'cn') */
+  region: string;
+  /** Catalog currency; listings from this retailer are stored in it */
+  currency: string;
 };
 
 let supabaseInstance: SupabaseClient | null = null;
@@ -35,7 +39,7 @@ export async function getRetailers(): Promise<Retailer[]> {
   const { data, error } = await supabase
     .from("retailers")
     .select(
-      "id, name, base_url, shop_domain, api_type, affiliate_tag, affiliate_url_template, is_active"
+      "id, name, base_url, shop_domain, api_type, affiliate_tag, affiliate_url_template, is_active, region, currency"
     )
     .eq("is_active", true);
 
@@ -79,5 +83,11 @@ export function buildAffiliateUrl(
     url = url.replace("{external_id}", "");
   }
 
+  // Variant URLs already carry "?variant=..."; keep a single query string
+  const firstQuery = url.indexOf("?");
+  if (firstQuery !== -1) {
+    url = url.slice(0, firstQuery + 1) + url.slice(firstQuery + 1).replace(/\?/g, "&");
+  }
+
   return url;
 }
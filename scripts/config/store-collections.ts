@@ -1,12 +1,14 @@
 /**
  * store-collections.ts
  *
- * Static mapping of Shopify store domains → collection handles → AudioList categories.
+ * Static mapping of store domains → collection handles → AudioList categories.
  * Used by sync-stores.ts to fetch pre-categorized products from each store's
  * collection endpoints instead of pulling entire catalogs.
  *
  * To add a new store: add an entry with the domain, retailer ID, and collection mappings.
  * To add a new category to a store: add a { handle, categoryId } entry.
+ * Stores default to Shopify; set `platform` for WooCommerce or BigCommerce,
+ * where a handle is the category slug.
  */
 
 export type CategoryId =
@@ -18,8 +20,14 @@ export interface CollectionMapping {
   categoryId: CategoryId;
 }
 
+export type StorePlatform = 'shopify' | 'woocommerce' | 'bigcommerce';
+
 export interface StoreConfig {
   retailerId: string;
+  /** Storefront platform (default 'shopify') */
+  platform?: StorePlatform;
+  /** BigCommerce store hash; the API token is read from BIGCOMMERCE_TOKEN_<RETAILER ID> */
+  storeHash?: string;
   collections: CollectionMapping[];
   /** Collection handles for sale/deals/clearance pages. Products in these
    *  collections get their on_sale flag set during sync. */
@@ -0,0 +1,125 @@
+/**
+ * create-api-key.ts
+ *
+ * Issue, list and revoke keys for the public API (scripts/api-server.ts,
+ * migration 028). A new key is printed once; only its SHA-256 hash and a
+ * short prefix are stored, so a lost key is revoked and re-issued.
+ *
+ * Usage:
+ *   npx tsx scripts/create-api-key.ts --name="discord bot" [--contact=someone@example.com]
+ *                                     [--per-minute=60] [--per-day=10000]
+ *   npx tsx scripts/create-api-key.ts --list
+ *   npx tsx scripts/create-api-key.ts --revoke=<key prefix>
+ */
+
+import "./lib/env.js";
+import { createHash, randomBytes } from 'crypto';
+import { getSupabase } from './config/retailers.ts';
+
+const KEY_PREFIX = 'al_';
+const PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+function flag(name: string): string | null {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : null;
+}
+
+function intFlag(name: string): number | null {
+  const raw = flag(name);
+  if (raw === null) return null;
+  const value = parseInt(raw, 10);
+  if (!Number.isInteger(value) || value <= 0) {
+    console.error(`--${name} must be a positive integer`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function list(): Promise<void> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('key_prefix, name, contact, requests_per_minute, requests_per_day, created_at, last_used_at, revoked_at')
+    .order('created_at');
+  if (error) throw new Error(`Failed to list keys: ${error.message}`);
+
+  if (!data || data.length === 0) {
+    console.log('No API keys.');
+    return;
+  }
+  for (const k of data) {
+    const status = k.revoked_at ? `revoked ${k.revoked_at.slice(0, 10)}` : `last used ${k.last_used_at?.slice(0, 10) ?? 'never'}`;
+    console.log(
+      `  ${k.key_prefix}…  ${k.name}${k.contact ? ` <${k.contact}>` : ''}  ` +
+      `${k.requests_per_minute}/min ${k.requests_per_day}/day  ${status}`
+    );
+  }
+}
+
+async function revoke(prefix: string): Promise<void> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('key_prefix', prefix)
+    .is('revoked_at', null)
+    .select('name');
+  if (error) throw new Error(`Failed to revoke key: ${error.message}`);
+
+  if (!data || data.length === 0) {
+    console.error(`No active key with prefix ${prefix}`);
+    process.exit(1);
+  }
+  console.log(`Revoked ${prefix}… (${data.map((k) => k.name).join(', ')})`);
+}
+
+async function create(name: string): Promise<void> {
+  const supabase = getSupabase();
+  const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+  const row: Record<string, unknown> = {
+    name,
+    contact: flag('contact'),
+    key_prefix: key.slice(0, PREFIX_LENGTH),
+    key_hash: createHash('sha256').update(key).digest('hex'),
+  };
+  const perMinute = intFlag('per-minute');
+  const perDay = intFlag('per-day');
+  if (perMinute !== null) row.requests_per_minute = perMinute;
+  if (perDay !== null) row.requests_per_day = perDay;
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert(row)
+    .select('requests_per_minute, requests_per_day')
+    .single();
+  if (error) throw new Error(`Failed to create key: ${error.message}`);
+
+  console.log(`Created API key for ${name} (${data.requests_per_minute}/min, ${data.requests_per_day}/day):`);
+  console.log(`\n  ${key}\n`);
+  console.log('It is not stored and will not be shown again.');
+}
+
+async function main() {
+  console.log('=================================================================');
+  console.log('  Public API keys');
+  console.log('=================================================================\n');
+
+  const revokePrefix = flag('revoke');
+  const name = flag('name');
+
+  if (process.argv.includes('--list')) {
+    await list();
+  } else if (revokePrefix) {
+    await revoke(revokePrefix);
+  } else if (name?.trim()) {
+    await create(name.trim());
+  } else {
+    console.error('Pass --name=<who the key is for>, --list or --revoke=<key prefix>');
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
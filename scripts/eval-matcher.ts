@@ -0,0 +1,452 @@
+/**
+ * eval-matcher.ts
+ *
+ * Measure the fuzzy matcher (scripts/scrapers/matcher.ts) against matches an
+ * admin has already reviewed. Approved product_matches are positives,
+ * rejected ones negatives.
+ *
+ *   export    Pull reviewed product_matches plus the candidate products into
+ *             a versioned dataset, scripts/eval/match-labels.v<N>.json.
+ *             Commit it; it is the ground truth matcher changes are gated on.
+ *   evaluate  (default) Replay every label through the matcher, fully
+ *             offline, and report precision / recall overall, per retailer
+ *             and per category, plus the threshold curve.
+ *
+ * A label counts as accepted at threshold t when the matcher's best
+ * candidate is the labelled product and scores >= t. An approved label whose
+ * best candidate is a different product above t is both a miss and a false
+ * positive (the listing would be linked to the wrong product).
+ *
+ * Usage:
+ *   npx tsx scripts/eval-matcher.ts export [--out=<file>]
+ *   npx tsx scripts/eval-matcher.ts [evaluate] [options]
+ *
+ * Evaluate options:
+ *   --dataset=<file>        Dataset to replay (default: highest version in scripts/eval/)
+ *   --matcher=indexed|linear  findBestMatchIndexed (default) or findBestMatch
+ *   --min-precision=0.95    Exit 1 if precision at AUTO_APPROVE is below this
+ *   --min-recall=0.80       Exit 1 if recall at AUTO_APPROVE is below this
+ *   --errors=N              False positives / misses to print (default: 10)
+ *   --json=<file>           Also write the report as JSON
+ */
+
+import "./lib/env.js";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { getSupabase } from './config/retailers.ts';
+import { extractBrand } from './brand-config.ts';
+import {
+  buildCandidateIndex,
+  findBestMatch,
+  findBestMatchIndexed,
+  MATCH_THRESHOLDS,
+} from './scrapers/matcher.ts';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DATASET_DIR = join(__dirname, 'eval');
+const DATASET_RE = /^match-labels\.v(\d+)\.json$/;
+/** Bump when the dataset layout changes incompatibly */
+const DATASET_FORMAT = 1;
+const PAGE = 1000;
+
+const CURVE_THRESHOLDS = [0.5, 0.55, 0.6, 0.65, 0.7, 0.75, 0.8, 0.85, 0.9, 0.95, 1];
+
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | null {
+  const prefix = `--${name}=`;
+  const arg = args.find((a) => a.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : null;
+}
+
+const MODE = args.find((a) => !a.startsWith('--')) ?? 'evaluate';
+
+interface DatasetProduct {
+  id: string;
+  name: string;
+  brand: string | null;
+  category_id: string;
+}
+
+interface DatasetLabel {
+  match_id: string;
+  product_id: string;
+  retailer_id: string;
+  external_id: string;
+  external_name: string;
+  label: 'approved' | 'rejected';
+  /** Score the matcher gave when the match was created */
+  match_score: number | null;
+  reviewed_at: string | null;
+}
+
+interface Dataset {
+  format: number;
+  version: number;
+  exported_at: string;
+  products: DatasetProduct[];
+  labels: DatasetLabel[];
+}
+
+/** One replayed label: what the matcher picked and how confidently */
+interface Prediction {
+  label: DatasetLabel;
+  category: string;
+  predictedId: string | null;
+  predictedName: string | null;
+  score: number;
+}
+
+interface Metrics {
+  labels: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Dataset files
+// ---------------------------------------------------------------------------
+
+function datasetVersions(): { version: number; path: string }[] {
+  if (!existsSync(DATASET_DIR)) return [];
+  return readdirSync(DATASET_DIR)
+    .map((f) => ({ match: DATASET_RE.exec(f), file: f }))
+    .filter((f) => f.match)
+    .map((f) => ({ version: parseInt(f.match![1], 10), path: join(DATASET_DIR, f.file) }))
+    .sort((a, b) => a.version - b.version);
+}
+
+/** One record per line so re-exports diff readably */
+function serializeDataset(dataset: Dataset): string {
+  const lines = (rows: unknown[]) => rows.map((r) => `    ${JSON.stringify(r)}`).join(',\n');
+  return [
+    '{',
+    `  "format": ${dataset.format},`,
+    `  "version": ${dataset.version},`,
+    `  "exported_at": ${JSON.stringify(dataset.exported_at)},`,
+    '  "products": [',
+    lines(dataset.products),
+    '  ],',
+    '  "labels": [',
+    lines(dataset.labels),
+    '  ]',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function loadDataset(path: string): Dataset {
+  const dataset = JSON.parse(readFileSync(path, 'utf-8')) as Dataset;
+  if (dataset.format !== DATASET_FORMAT) {
+    throw new Error(`${path} is dataset format ${dataset.format}; this script reads format ${DATASET_FORMAT}`);
+  }
+  return dataset;
+}
+
+// ---------------------------------------------------------------------------
+// export
+// ---------------------------------------------------------------------------
+
+async function fetchAll<T>(
+  table: string,
+  columns: string,
+  filter?: { column: string; values: string[] }
+): Promise<T[]> {
+  const supabase = getSupabase();
+  const rows: T[] = [];
+  let offset = 0;
+
+  while (true) {
+    let query = supabase.from(table).select(columns);
+    if (filter) query = query.in(filter.column, filter.values);
+    const { data, error } = await query.order('id').range(offset, offset + PAGE - 1);
+    if (error) throw new Error(`Failed to load ${table}: ${error.message}`);
+    if (!data || data.length === 0) break;
+    rows.push(...(data as T[]));
+    offset += PAGE;
+    if (data.length < PAGE) break;
+  }
+
+  return rows;
+}
+
+async function exportDataset(): Promise<void> {
+  console.log('=================================================================');
+  console.log('  Matcher Evaluation — export reviewed matches');
+  console.log('=================================================================\n');
+
+  const matches = await fetchAll<Record<string, unknown>>(
+    'product_matches',
+    'id, product_id, retailer_id, external_id, external_name, match_score, status, reviewed_at',
+    { column: 'status', values: ['approved', 'rejected'] }
+  );
+  console.log(`Loaded ${matches.length} reviewed matches`);
+
+  const products = await fetchAll<DatasetProduct>('products', 'id, name, brand, category_id');
+  console.log(`Loaded ${products.length} products`);
+
+  // Only categories that have labels are needed as candidate pools
+  const productCategory = new Map(products.map((p) => [p.id, p.category_id]));
+  const labelledCategories = new Set(
+    matches.map((m) => productCategory.get(m.product_id as string)).filter((c): c is string => !!c)
+  );
+
+  const labels: DatasetLabel[] = matches
+    .filter((m) => productCategory.has(m.product_id as string))
+    .map((m) => ({
+      match_id: m.id as string,
+      product_id: m.product_id as string,
+      retailer_id: m.retailer_id as string,
+      external_id: m.external_id as string,
+      external_name: m.external_name as string,
+      label: m.status as 'approved' | 'rejected',
+      match_score: m.match_score != null ? Number(m.match_score) : null,
+      reviewed_at: (m.reviewed_at as string | null) ?? null,
+    }));
+
+  const versions = datasetVersions();
+  const version = (versions.at(-1)?.version ?? 0) + 1;
+  const dataset: Dataset = {
+    format: DATASET_FORMAT,
+    version,
+    exported_at: new Date().toISOString(),
+    products: products
+      .filter((p) => labelledCategories.has(p.category_id))
+      .map((p) => ({ id: p.id, name: p.name, brand: p.brand ?? null, category_id: p.category_id })),
+    labels,
+  };
+
+  const out = resolve(getArg('out') ?? join(DATASET_DIR, `match-labels.v${version}.json`));
+  mkdirSync(dirname(out), { recursive: true });
+  writeFileSync(out, serializeDataset(dataset));
+
+  const approved = labels.filter((l) => l.label === 'approved').length;
+  console.log(`\nWrote dataset v${version}: ${labels.length} labels (${approved} approved, ${labels.length - approved} rejected)`);
+  console.log(`  ${dataset.products.length} candidate products across ${labelledCategories.size} categories`);
+  console.log(`  ${out}`);
+}
+
+// ---------------------------------------------------------------------------
+// evaluate
+// ---------------------------------------------------------------------------
+
+function replay(dataset: Dataset, matcher: 'indexed' | 'linear'): { predictions: Prediction[]; skipped: number } {
+  const byCategory = new Map<string, DatasetProduct[]>();
+  for (const p of dataset.products) {
+    const list = byCategory.get(p.category_id);
+    if (list) list.push(p);
+    else byCategory.set(p.category_id, [p]);
+  }
+  const productCategory = new Map(dataset.products.map((p) => [p.id, p.category_id]));
+  const indices = new Map(
+    [...byCategory].map(([cat, prods]) => [cat, buildCandidateIndex(prods)])
+  );
+
+  const predictions: Prediction[] = [];
+  let skipped = 0;
+
+  for (const label of dataset.labels) {
+    const category = productCategory.get(label.product_id);
+    if (!category) {
+      skipped++;
+      continue;
+    }
+
+    // Same brand hint the sync scripts derive from the retailer's title
+    const options = { productBrand: extractBrand(label.external_name) };
+    const match = matcher === 'linear'
+      ? findBestMatch(label.external_name, byCategory.get(category)!, options)
+      : findBestMatchIndexed(label.external_name, indices.get(category)!, options);
+
+    predictions.push({
+      label,
+      category,
+      predictedId: match?.id ?? null,
+      predictedName: match?.name ?? null,
+      score: match?.score ?? 0,
+    });
+  }
+
+  return { predictions, skipped };
+}
+
+function ratio(num: number, den: number): number | null {
+  return den > 0 ? num / den : null;
+}
+
+function metricsAt(predictions: Prediction[], threshold: number): Metrics {
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+
+  for (const p of predictions) {
+    const accepted = p.predictedId !== null && p.score >= threshold;
+    const correct = p.predictedId === p.label.product_id;
+    if (p.label.label === 'approved') {
+      if (accepted && correct) tp++;
+      else fn++;
+      if (accepted && !correct) fp++;
+    } else if (accepted && correct) {
+      fp++;
+    }
+  }
+
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : null;
+  return { labels: predictions.length, tp, fp, fn, precision, recall, f1 };
+}
+
+function groupBy(predictions: Prediction[], key: (p: Prediction) => string): Map<string, Prediction[]> {
+  const groups = new Map<string, Prediction[]>();
+  for (const p of predictions) {
+    const k = key(p);
+    const list = groups.get(k);
+    if (list) list.push(p);
+    else groups.set(k, [p]);
+  }
+  return new Map([...groups].sort((a, b) => b[1].length - a[1].length));
+}
+
+function pct(value: number | null): string {
+  return value === null ? '     -' : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+function printTable(title: string, groups: Map<string, Prediction[]>, threshold: number): Record<string, Metrics> {
+  const out: Record<string, Metrics> = {};
+  const width = Math.max(12, ...[...groups.keys()].map((k) => k.length));
+
+  console.log(`\n${title} (at ${threshold})`);
+  console.log(`  ${'name'.padEnd(width)}  labels  precision  recall     tp    fp    fn`);
+  for (const [name, preds] of groups) {
+    const m = metricsAt(preds, threshold);
+    out[name] = m;
+    console.log(
+      `  ${name.padEnd(width)}  ${String(m.labels).padStart(6)}  ${pct(m.precision).padStart(9)}  ${pct(m.recall)}` +
+        `  ${String(m.tp).padStart(5)} ${String(m.fp).padStart(5)} ${String(m.fn).padStart(5)}`
+    );
+  }
+  return out;
+}
+
+function evaluate(): void {
+  const datasetPath = getArg('dataset') ?? datasetVersions().at(-1)?.path;
+  if (!datasetPath) {
+    console.error(`No dataset found in ${DATASET_DIR}. Run: npx tsx scripts/eval-matcher.ts export`);
+    process.exit(1);
+  }
+  const matcher = getArg('matcher') === 'linear' ? 'linear' : 'indexed';
+  const minPrecision = getArg('min-precision') !== null ? parseFloat(getArg('min-precision')!) : null;
+  const minRecall = getArg('min-recall') !== null ? parseFloat(getArg('min-recall')!) : null;
+  const showErrors = parseInt(getArg('errors') ?? '10', 10);
+  const jsonOut = getArg('json');
+
+  const dataset = loadDataset(datasetPath);
+  const approved = dataset.labels.filter((l) => l.label === 'approved').length;
+
+  console.log('=================================================================');
+  console.log('  Matcher Evaluation');
+  console.log(`  Dataset: v${dataset.version} (exported ${dataset.exported_at.slice(0, 10)})`);
+  console.log(`  Labels: ${dataset.labels.length} (${approved} approved, ${dataset.labels.length - approved} rejected)`);
+  console.log(`  Matcher: ${matcher === 'linear' ? 'findBestMatch' : 'findBestMatchIndexed'}`);
+  console.log(`  Thresholds: auto-approve ${MATCH_THRESHOLDS.AUTO_APPROVE}, review ${MATCH_THRESHOLDS.PENDING_REVIEW}`);
+  console.log('=================================================================');
+
+  const { predictions, skipped } = replay(dataset, matcher);
+  if (skipped > 0) console.log(`\nSkipped ${skipped} label(s) whose product is not in the dataset`);
+
+  const auto = metricsAt(predictions, MATCH_THRESHOLDS.AUTO_APPROVE);
+  const review = metricsAt(predictions, MATCH_THRESHOLDS.PENDING_REVIEW);
+  console.log('\nOverall');
+  console.log(`  auto-approve (${MATCH_THRESHOLDS.AUTO_APPROVE}):  precision ${pct(auto.precision)}  recall ${pct(auto.recall)}  (tp ${auto.tp}, fp ${auto.fp}, fn ${auto.fn})`);
+  console.log(`  review queue (${MATCH_THRESHOLDS.PENDING_REVIEW}):  precision ${pct(review.precision)}  recall ${pct(review.recall)}  (tp ${review.tp}, fp ${review.fp}, fn ${review.fn})`);
+
+  const byRetailer = printTable('Per retailer', groupBy(predictions, (p) => p.label.retailer_id), MATCH_THRESHOLDS.AUTO_APPROVE);
+  const byCategory = printTable('Per category', groupBy(predictions, (p) => p.category), MATCH_THRESHOLDS.AUTO_APPROVE);
+
+  console.log('\nThreshold curve');
+  console.log('  threshold  precision  recall      f1  accepted');
+  const curve = CURVE_THRESHOLDS.map((t) => {
+    const m = metricsAt(predictions, t);
+    const marker = t === MATCH_THRESHOLDS.AUTO_APPROVE
+      ? '  <- auto-approve'
+      : t === MATCH_THRESHOLDS.PENDING_REVIEW ? '  <- review' : '';
+    console.log(
+      `  ${t.toFixed(2).padStart(9)}  ${pct(m.precision).padStart(9)}  ${pct(m.recall)}  ${pct(m.f1)}  ${String(m.tp + m.fp).padStart(8)}${marker}`
+    );
+    return { threshold: t, ...m };
+  });
+
+  if (showErrors > 0) {
+    const threshold = MATCH_THRESHOLDS.AUTO_APPROVE;
+    const falsePositives = predictions
+      .filter((p) => {
+        if (p.predictedId === null || p.score < threshold) return false;
+        const correct = p.predictedId === p.label.product_id;
+        return p.label.label === 'rejected' ? correct : !correct;
+      })
+      .sort((a, b) => b.score - a.score);
+    const misses = predictions
+      .filter((p) => p.label.label === 'approved' && !(p.predictedId === p.label.product_id && p.score >= threshold))
+      .sort((a, b) => b.score - a.score);
+
+    console.log(`\nFalse positives at ${threshold} (${falsePositives.length}, highest score first)`);
+    for (const p of falsePositives.slice(0, showErrors)) {
+      console.log(`  ${p.score.toFixed(3)}  [${p.label.retailer_id}] "${p.label.external_name}" -> "${p.predictedName}" (${p.label.label})`);
+    }
+    console.log(`\nMissed approved matches at ${threshold} (${misses.length}, highest score first)`);
+    const productName = new Map(dataset.products.map((p) => [p.id, p.name]));
+    for (const p of misses.slice(0, showErrors)) {
+      const picked = p.predictedId === p.label.product_id ? '' : `, picked "${p.predictedName}"`;
+      console.log(`  ${p.score.toFixed(3)}  [${p.label.retailer_id}] "${p.label.external_name}" -> "${productName.get(p.label.product_id)}"${picked}`);
+    }
+  }
+
+  if (jsonOut) {
+    const report = {
+      dataset: { version: dataset.version, exported_at: dataset.exported_at, path: datasetPath },
+      matcher,
+      thresholds: MATCH_THRESHOLDS,
+      skipped,
+      auto_approve: auto,
+      review_queue: review,
+      by_retailer: byRetailer,
+      by_category: byCategory,
+      curve,
+    };
+    writeFileSync(jsonOut, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nReport written to ${jsonOut}`);
+  }
+
+  // Gate: fail the run when the matcher regresses below the given floors
+  const failures: string[] = [];
+  if (minPrecision !== null && (auto.precision ?? 0) < minPrecision) {
+    failures.push(`precision ${pct(auto.precision).trim()} < ${(minPrecision * 100).toFixed(1)}%`);
+  }
+  if (minRecall !== null && (auto.recall ?? 0) < minRecall) {
+    failures.push(`recall ${pct(auto.recall).trim()} < ${(minRecall * 100).toFixed(1)}%`);
+  }
+  if (failures.length > 0) {
+    console.error(`\nFAILED at auto-approve threshold: ${failures.join(', ')}`);
+    process.exit(1);
+  }
+}
+
+if (MODE === 'export') {
+  exportDataset().catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+} else if (MODE === 'evaluate') {
+  evaluate();
+} else {
+  console.error(`Unknown mode "${MODE}". Use "export" or "evaluate".`);
+  process.exit(1);
+}
@@ -0,0 +1,147 @@
+/**
+ * export-category-rules.ts
+ *
+ * Write the admin triage decisions (category_rule_candidates, migration 026)
+ * into scripts/config/category-rules.ts:
+ *   move   -> MISPLACED_OVERRIDES entry  { pattern, sourceCategory, targetCategory }
+ *   delete -> JUNK_PRODUCT_PATTERNS entry
+ * Each pattern matches the product name as a phrase, case-insensitively, so
+ * a store title containing it is classified the same way on the next sync.
+ *
+ * The generated blocks between the "triage:" markers are rebuilt from every
+ * candidate on each run (latest decision per name and source category
+ * wins), so re-running is safe. Review the diff and commit it.
+ *
+ * Usage: npx tsx scripts/export-category-rules.ts [--dry-run]
+ */
+
+import "./lib/env.js";
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { getSupabase } from './config/retailers.ts';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const RULES_FILE = join(__dirname, 'config', 'category-rules.ts');
+const BATCH = 1000;
+const UPDATE_BATCH = 200;
+
+const dryRun = process.argv.includes('--dry-run');
+
+interface Candidate {
+  id: string;
+  product_name: string;
+  action: 'move' | 'delete';
+  from_category: string;
+  to_category: string | null;
+  decided_by: string;
+  decided_at: string;
+}
+
+/** Regex source matching `name` as a phrase: literal text, flexible whitespace */
+function namePattern(name: string): string {
+  const body = name
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'))
+    .join('\\s+');
+  const start = /^\w/.test(name.trim()) ? '\\b' : '';
+  const end = /\w$/.test(name.trim()) ? '\\b' : '';
+  return `/${start}${body}${end}/i`;
+}
+
+/** Replace the lines between `// --- <marker> (...` and `// --- end <marker> ---` */
+function replaceBlock(source: string, marker: string, lines: string[]): string {
+  const startRe = new RegExp(`^([ \\t]*)// --- ${marker} \\(.*$`, 'm');
+  const start = startRe.exec(source);
+  const endMarker = `// --- end ${marker} ---`;
+  const end = source.indexOf(endMarker);
+  if (!start || end === -1) throw new Error(`Marker "${marker}" not found in ${RULES_FILE}`);
+
+  const indent = start[1];
+  const blockStart = start.index + start[0].length + 1;
+  const blockEnd = source.lastIndexOf('\n', end) + 1;
+  const body = lines.map((l) => `${indent}${l}\n`).join('');
+  return source.slice(0, blockStart) + body + source.slice(blockEnd);
+}
+
+async function main() {
+  const supabase = getSupabase();
+
+  console.log('=================================================================');
+  console.log('  Export triage decisions to category-rules.ts');
+  console.log(`  Mode: ${dryRun ? 'DRY RUN' : 'WRITE'}`);
+  console.log('=================================================================\n');
+
+  const candidates: Candidate[] = [];
+  let offset = 0;
+  while (true) {
+    const { data, error } = await supabase
+      .from('category_rule_candidates')
+      .select('id, product_name, action, from_category, to_category, decided_by, decided_at')
+      .order('decided_at', { ascending: true })
+      .range(offset, offset + BATCH - 1);
+    if (error) throw new Error(`Failed to load category_rule_candidates: ${error.message}`);
+    if (!data || data.length === 0) break;
+    candidates.push(...(data as Candidate[]));
+    offset += BATCH;
+    if (data.length < BATCH) break;
+  }
+  console.log(`Loaded ${candidates.length} triage decisions`);
+
+  // Latest decision per (name, source category) wins
+  const latest = new Map<string, Candidate>();
+  for (const c of candidates) {
+    latest.set(`${c.product_name.trim().toLowerCase()}|${c.from_category}`, c);
+  }
+
+  const moves = [...latest.values()]
+    .filter((c) => c.action === 'move' && c.to_category && c.to_category !== c.from_category)
+    .sort((a, b) => a.from_category.localeCompare(b.from_category) || a.product_name.localeCompare(b.product_name));
+  const deletes = [...latest.values()]
+    .filter((c) => c.action === 'delete')
+    .sort((a, b) => a.product_name.localeCompare(b.product_name));
+
+  // One junk pattern per name, whichever category it was deleted from
+  const junkPatterns = [...new Set(deletes.map((c) => namePattern(c.product_name)))];
+
+  const moveLines = moves.map(
+    (c) => `{ pattern: ${namePattern(c.product_name)}, sourceCategory: '${c.from_category}', targetCategory: '${c.to_category}' },`
+  );
+  const deleteLines = junkPatterns.map((p) => `${p},`);
+
+  console.log(`  ${moveLines.length} misplaced overrides, ${deleteLines.length} junk patterns`);
+
+  const source = readFileSync(RULES_FILE, 'utf-8');
+  let updated = replaceBlock(source, 'triage: move', moveLines);
+  updated = replaceBlock(updated, 'triage: delete', deleteLines);
+
+  if (dryRun) {
+    console.log('\nMISPLACED_OVERRIDES:');
+    for (const l of moveLines) console.log(`  ${l}`);
+    console.log('\nJUNK_PRODUCT_PATTERNS:');
+    for (const l of deleteLines) console.log(`  ${l}`);
+    return;
+  }
+
+  if (updated === source) {
+    console.log('\ncategory-rules.ts is already up to date.');
+  } else {
+    writeFileSync(RULES_FILE, updated);
+    console.log(`\nUpdated ${RULES_FILE}`);
+  }
+
+  const exported = [...moves, ...deletes].map((c) => c.id);
+  for (let i = 0; i < exported.length; i += UPDATE_BATCH) {
+    const { error } = await supabase
+      .from('category_rule_candidates')
+      .update({ exported_at: new Date().toISOString() })
+      .in('id', exported.slice(i, i + UPDATE_BATCH));
+    if (error) console.error(`Failed to mark candidates exported: ${error.message}`);
+  }
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -10,8 +10,6 @@
  * 2. The "[IEMs] ArpegEar Hane (8kHz)" and "[IEMs] ArpegEar Hane switches"
  *    rows are measurement variants with null brand -- set brand and merge
  *    if they overlap with existing switch variants.
- *
- * 3. Re-denormalize the canonical product's price from consolidated listings.
  */
 
 import { getSupabase } from './config/retailers.ts';
@@ -118,50 +116,8 @@ async function main() {
     console.log(`  Set brand on ${orphanId}:`, error ? error.message : 'OK');
   }
 
-  // Step 7: Re-denormalize price for canonical from consolidated listings
-  console.log('\nStep 7: Re-denormalizing canonical product price...');
-  const { data: bestListing } = await supabase
-    .from('price_listings')
-    .select('price, affiliate_url, product_url, in_stock, image_url')
-    .eq('product_id', CANONICAL_ID)
-    .eq('in_stock', true)
-    .order('price', { ascending: true })
-    .limit(1);
-
-  if (bestListing && bestListing.length > 0) {
-    const best = bestListing[0];
-    const { error } = await supabase.from('products').update({
-      price: best.price,
-      affiliate_url: best.affiliate_url ?? best.product_url,
-      image_url: best.image_url,
-      in_stock: true,
-    }).eq('id', CANONICAL_ID);
-    console.log(`  Set price=$${best.price}, in_stock=true:`, error ? error.message : 'OK');
-  } else {
-    // Try any listing (even out of stock)
-    const { data: anyListing } = await supabase
-      .from('price_listings')
-      .select('price, affiliate_url, product_url, image_url')
-      .eq('product_id', CANONICAL_ID)
-      .order('price', { ascending: true })
-      .limit(1);
-
-    if (anyListing && anyListing.length > 0) {
-      const best = anyListing[0];
-      await supabase.from('products').update({
-        price: best.price,
-        affiliate_url: best.affiliate_url ?? best.product_url,
-        image_url: best.image_url,
-        in_stock: false,
-      }).eq('id', CANONICAL_ID);
-      console.log(`  Set price=$${best.price}, in_stock=false`);
-    } else {
-      console.log('  No listings found for canonical product');
-    }
-  }
-
-  // Step 8: Verify final state
-  console.log('\nStep 8: Verification...');
+  // Step 7: Verify final state (products.price follows the re-pointed listings)
+  console.log('\nStep 7: Verification...');
   const { data: haneProducts } = await supabase
     .from('products')
     .select('id, name, brand, price, in_stock, ppi_score')
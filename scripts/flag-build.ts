@@ -3,6 +3,8 @@
  *
  * Admin moderation tool for community builds.
  * Flags or unflags a build by share code, hiding it from the community listing.
+ * Reports and auto-flagged builds are reviewed in the admin server's
+ * /moderation queue; this records the same decision from the command line.
  *
  * Usage:
  *   npx tsx scripts/flag-build.ts <share_code>
@@ -27,9 +29,11 @@ async function main() {
     .update({
       is_flagged: !unflag,
       flagged_at: unflag ? null : new Date().toISOString(),
+      flag_reason: unflag ? null : 'manual',
+      reviewed_at: new Date().toISOString(),
     })
     .eq('share_code', shareCode)
-    .select('id, share_code, name, is_public, is_flagged, author_name')
+    .select('id, share_code, name, is_public, is_flagged, flag_reason, author_name')
     .single();
 
   if (error) {
@@ -42,6 +46,13 @@ async function main() {
     process.exit(1);
   }
 
+  const { error: reportsError } = await supabase
+    .from('build_reports')
+    .update({ resolved_at: new Date().toISOString(), resolution: unflag ? 'approved' : 'flagged' })
+    .eq('build_id', data.id)
+    .is('resolved_at', null);
+  if (reportsError) console.error('Failed to resolve open reports:', reportsError.message);
+
   console.log(unflag ? 'Unflagged:' : 'Flagged:', data);
 }
 
@@ -0,0 +1,300 @@
+/**
+ * generate-openapi.ts
+ *
+ * Writes scripts/api/openapi.json, the OpenAPI 3.1 document served by
+ * scripts/api-server.ts at /api/v1/openapi.json. Schemas are generated with
+ * the TypeScript type checker from src/types/index.ts and the API's response
+ * types in scripts/api/types.ts, so Pick / Omit / extends resolve exactly as
+ * the compiler sees them; doc comments become descriptions. The /products
+ * query parameters come from PRODUCT_FILTER_KINDS.
+ *
+ * Re-run after changing either types file and commit the result.
+ *
+ * Usage: npx tsx scripts/generate-openapi.ts [--check]
+ *   --check  exit 1 if openapi.json is out of date instead of writing it
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import { PRODUCT_FILTER_KINDS, filterParamName } from './api/filters.ts';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const APP_TYPES = join(__dirname, '..', 'src', 'types', 'index.ts');
+const API_TYPES = join(__dirname, 'api', 'types.ts');
+const OUTPUT = join(__dirname, 'api', 'openapi.json');
+
+/** Types emitted under components/schemas and referenced by $ref */
+const SCHEMAS = [
+  'CategoryId',
+  'PpiTargetScore',
+  'Product',
+  'ApiRetailer',
+  'ApiPriceListing',
+  'ApiPriceHistoryPoint',
+  'ApiBuildItem',
+  'ApiBuild',
+  'ProductPage',
+  'PriceListingList',
+  'PriceHistoryPage',
+  'ApiErrorBody',
+];
+
+type Schema = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Type -> JSON Schema
+// ---------------------------------------------------------------------------
+
+const program = ts.createProgram([APP_TYPES, API_TYPES], {
+  strict: true,
+  noEmit: true,
+  allowImportingTsExtensions: true,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  target: ts.ScriptTarget.ES2022,
+});
+const checker = program.getTypeChecker();
+
+function findDeclarations(): Map<string, ts.Declaration> {
+  const found = new Map<string, ts.Declaration>();
+  for (const file of [APP_TYPES, API_TYPES]) {
+    const source = program.getSourceFile(file);
+    if (!source) throw new Error(`Cannot read ${file}`);
+    ts.forEachChild(source, (node) => {
+      if ((ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) && SCHEMAS.includes(node.name.text)) {
+        found.set(node.name.text, node);
+      }
+    });
+  }
+  const missing = SCHEMAS.filter((name) => !found.has(name));
+  if (missing.length > 0) throw new Error(`Types not found: ${missing.join(', ')}`);
+  return found;
+}
+
+function namedSchema(type: ts.Type): string | null {
+  const name = type.aliasSymbol?.name ?? type.getSymbol()?.name;
+  return name && SCHEMAS.includes(name) ? name : null;
+}
+
+function withNull(schema: Schema): Schema {
+  if (typeof schema.type === 'string') {
+    return {
+      ...schema,
+      type: [schema.type, 'null'],
+      ...(Array.isArray(schema.enum) ? { enum: [...schema.enum, null] } : {}),
+    };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function toSchema(type: ts.Type, node: ts.Node, root = false): Schema {
+  const ref = root ? null : namedSchema(type);
+  if (ref) return { $ref: `#/components/schemas/${ref}` };
+
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+  if (type.flags & ts.TypeFlags.Null) return { type: 'null' };
+  if (type.flags & ts.TypeFlags.StringLiteral) return { type: 'string', enum: [(type as ts.StringLiteralType).value] };
+  if (type.flags & ts.TypeFlags.String) return { type: 'string' };
+  if (type.flags & (ts.TypeFlags.Number | ts.TypeFlags.NumberLiteral)) return { type: 'number' };
+  if (type.flags & (ts.TypeFlags.Boolean | ts.TypeFlags.BooleanLiteral)) return { type: 'boolean' };
+
+  if (type.isUnion()) {
+    const members = type.types.filter((t) => !(t.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)));
+    const nullable = members.length < type.types.length;
+    let schema: Schema;
+    if (members.every((t) => t.flags & ts.TypeFlags.BooleanLiteral)) {
+      schema = { type: 'boolean' };
+    } else if (members.every((t) => t.isStringLiteral())) {
+      schema = { type: 'string', enum: members.map((t) => (t as ts.StringLiteralType).value) };
+    } else if (members.length === 1) {
+      schema = toSchema(members[0], node);
+    } else {
+      schema = { anyOf: members.map((t) => toSchema(t, node)) };
+    }
+    return nullable ? withNull(schema) : schema;
+  }
+
+  if (checker.isArrayType(type)) {
+    return { type: 'array', items: toSchema(checker.getTypeArguments(type as ts.TypeReference)[0], node) };
+  }
+
+  // Object: properties, or a string index (Record<string, T>)
+  const properties: Record<string, Schema> = {};
+  const required: string[] = [];
+  for (const prop of checker.getPropertiesOfType(type)) {
+    let schema = toSchema(checker.getTypeOfSymbolAtLocation(prop, node), node);
+    const description = ts.displayPartsToString(prop.getDocumentationComment(checker)).trim();
+    if (description) schema = schema.$ref ? { allOf: [schema], description } : { ...schema, description };
+    properties[prop.name] = schema;
+    if (!(prop.flags & ts.SymbolFlags.Optional)) required.push(prop.name);
+  }
+
+  const schema: Schema = { type: 'object' };
+  if (required.length > 0 || Object.keys(properties).length > 0) {
+    schema.properties = properties;
+    if (required.length > 0) schema.required = required;
+  }
+  const index = checker.getIndexInfosOfType(type)[0];
+  if (index) schema.additionalProperties = toSchema(index.type, node);
+  return schema;
+}
+
+function buildSchemas(): Record<string, Schema> {
+  const schemas: Record<string, Schema> = {};
+  for (const [name, decl] of findDeclarations()) {
+    const type = checker.getTypeAtLocation(decl);
+    const description = ts.displayPartsToString(
+      checker.getSymbolAtLocation((decl as ts.InterfaceDeclaration | ts.TypeAliasDeclaration).name)?.getDocumentationComment(checker)
+    ).trim();
+    schemas[name] = { ...toSchema(type, decl, true), ...(description ? { description } : {}) };
+  }
+  return schemas;
+}
+
+// ---------------------------------------------------------------------------
+// Document
+// ---------------------------------------------------------------------------
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: Schema, description: string) => ({ description, content: { 'application/json': { schema } } });
+
+function productFilterParams(): Schema[] {
+  const kinds: Record<string, Schema> = {
+    list: { type: 'string', description: 'Comma-separated values' },
+    flag: { type: 'boolean' },
+    number: { type: 'number' },
+    text: { type: 'string' },
+  };
+  return Object.entries(PRODUCT_FILTER_KINDS).map(([key, kind]) => ({
+    name: filterParamName(key),
+    in: 'query',
+    required: false,
+    schema: kinds[kind],
+  }));
+}
+
+function cursorParam(): Schema {
+  return { name: 'cursor', in: 'query', required: false, description: 'next_cursor from the previous page', schema: { type: 'string' } };
+}
+
+function limitParam(max: number, fallback: number): Schema {
+  return { name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: max, default: fallback } };
+}
+
+function idParam(name: string, description: string): Schema {
+  return { name, in: 'path', required: true, description, schema: { type: 'string' } };
+}
+
+function buildDocument(): Schema {
+  const errors = {
+    '400': { $ref: '#/components/responses/BadRequest' },
+    '401': { $ref: '#/components/responses/Unauthorized' },
+    '429': { $ref: '#/components/responses/RateLimited' },
+  };
+  const notFound = { '404': { $ref: '#/components/responses/NotFound' } };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'AudioList API',
+      version: '1',
+      description:
+        'Read-only access to the AudioList catalog, prices and shared builds. ' +
+        'Every request except this document needs an API key. Lists are paged ' +
+        'with an opaque cursor: pass next_cursor back as ?cursor= until it is null.',
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearer: [] }, { apiKey: [] }],
+    paths: {
+      '/products': {
+        get: {
+          summary: 'Search the catalog',
+          description: 'Same filters as the product browser. Non-best variants (DSP/ANC modes) are left out.',
+          parameters: [
+            { name: 'category', in: 'query', required: false, schema: ref('CategoryId') },
+            ...productFilterParams(),
+            { name: 'sort', in: 'query', required: false, schema: { type: 'string', enum: ['ppi_score', 'price', 'name', 'sinad_db'], default: 'ppi_score' } },
+            { name: 'direction', in: 'query', required: false, description: 'Default: asc for name and price, desc otherwise', schema: { type: 'string', enum: ['asc', 'desc'] } },
+            { name: 'target', in: 'query', required: false, description: 'Target curve for ppi_score sorting and ppi_min/ppi_max (IEMs and headphones)', schema: { type: 'string', enum: ['df', 'harman'], default: 'df' } },
+            limitParam(100, 50),
+            cursorParam(),
+          ],
+          responses: { '200': json(ref('ProductPage'), 'A page of products'), ...errors },
+        },
+      },
+      '/products/{id}': {
+        get: {
+          summary: 'One product',
+          parameters: [idParam('id', 'Product id')],
+          responses: { '200': json(ref('Product'), 'The product'), ...errors, ...notFound },
+        },
+      },
+      '/products/{id}/prices': {
+        get: {
+          summary: 'Current listings at active retailers, cheapest first',
+          parameters: [idParam('id', 'Product id')],
+          responses: { '200': json(ref('PriceListingList'), 'Listings'), ...errors, ...notFound },
+        },
+      },
+      '/products/{id}/history': {
+        get: {
+          summary: 'Daily price and stock snapshots, oldest first',
+          parameters: [
+            idParam('id', 'Product id'),
+            { name: 'days', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 365, default: 90 } },
+            limitParam(1000, 1000),
+            cursorParam(),
+          ],
+          responses: { '200': json(ref('PriceHistoryPage'), 'A page of snapshots'), ...errors, ...notFound },
+        },
+      },
+      '/builds/{shareCode}': {
+        get: {
+          summary: 'A shared build',
+          parameters: [idParam('shareCode', 'Share code from the build URL')],
+          responses: { '200': json(ref('ApiBuild'), 'The build'), ...errors, ...notFound },
+        },
+      },
+    },
+    components: {
+      schemas: buildSchemas(),
+      securitySchemes: {
+        bearer: { type: 'http', scheme: 'bearer' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      headers: {
+        'X-RateLimit-Limit': { schema: { type: 'integer' }, description: 'Requests allowed in the current window' },
+        'X-RateLimit-Remaining': { schema: { type: 'integer' }, description: 'Requests left in the current window' },
+        'X-RateLimit-Reset': { schema: { type: 'integer' }, description: 'Unix time the window resets' },
+      },
+      responses: {
+        BadRequest: json(ref('ApiErrorBody'), 'Invalid parameter or cursor'),
+        Unauthorized: json(ref('ApiErrorBody'), 'Missing, unknown or revoked API key'),
+        NotFound: json(ref('ApiErrorBody'), 'No such product or build'),
+        RateLimited: {
+          ...json(ref('ApiErrorBody'), 'Per-minute or per-day limit reached'),
+          headers: { 'Retry-After': { schema: { type: 'integer' }, description: 'Seconds until the window resets' } },
+        },
+      },
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+const output = JSON.stringify(buildDocument(), null, 2) + '\n';
+
+if (process.argv.includes('--check')) {
+  if (!existsSync(OUTPUT) || readFileSync(OUTPUT, 'utf-8') !== output) {
+    console.error(`${OUTPUT} is out of date: run npm run api:openapi`);
+    process.exit(1);
+  }
+  console.log(`${OUTPUT} is up to date.`);
+} else {
+  writeFileSync(OUTPUT, output);
+  console.log(`Wrote ${OUTPUT} (${Object.keys(JSON.parse(output).components.schemas).length} schemas)`);
+}
@@ -0,0 +1,90 @@
+/**
+ * currency.ts
+ *
+ * Exchange-rate table shared by the price sync scripts.
+ *
+ * Rates come from a JSON file (scripts/config/exchange-rates.json by default,
+ * override with EXCHANGE_RATES_FILE) and are upserted into the exchange_rates
+ * table. A rate is the number of units of a currency per 1 USD.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getSupabase } from '../config/retailers.ts';
+import { log, logError } from './log.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_RATES_FILE = path.resolve(__dirname, '../config/exchange-rates.json');
+
+export type ExchangeRates = Record<string, number>;
+
+interface RatesFile {
+  base: string;
+  asOf?: string;
+  rates: ExchangeRates;
+}
+
+export function readRatesFile(file = process.env.EXCHANGE_RATES_FILE ?? DEFAULT_RATES_FILE): RatesFile {
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf-8')) as RatesFile;
+
+  if (parsed.base !== 'USD') {
+    throw new Error(`${file}: base must be USD (got ${parsed.base})`);
+  }
+  for (const [currency, rate] of Object.entries(parsed.rates ?? {})) {
+    if (!/^[A-Z]{3}$/.test(currency) || typeof rate !== 'number' || !(rate > 0)) {
+      throw new Error(`${file}: invalid rate ${currency}=${rate}`);
+    }
+  }
+
+  return { ...parsed, rates: { ...parsed.rates, USD: 1 } };
+}
+
+/**
+ * Upsert the rates file into exchange_rates and re-convert non-USD
+ * price_listings. Returns the rates that were written.
+ */
+export async function refreshExchangeRates(file?: string): Promise<ExchangeRates> {
+  const supabase = getSupabase();
+  const { asOf, rates } = readRatesFile(file);
+
+  const rows = Object.entries(rates).map(([currency, rate]) => ({
+    currency,
+    rate,
+    as_of: asOf ?? null,
+    updated_at: new Date().toISOString(),
+  }));
+
+  const { error } = await supabase.from('exchange_rates').upsert(rows, { onConflict: 'currency' });
+  if (error) throw error;
+  log('RATES', `Upserted ${rows.length} exchange rate(s)${asOf ? ` (as of ${asOf})` : ''}`);
+
+  const { data: converted, error: rpcError } = await supabase.rpc('refresh_price_listings_usd');
+  if (rpcError) {
+    logError('RATES', 'Failed to re-convert non-USD listings', rpcError);
+  } else {
+    log('RATES', `Re-converted ${converted ?? 0} non-USD listing(s)`);
+  }
+
+  return rates;
+}
+
+/** Load the current rates from the exchange_rates table. */
+export async function getExchangeRates(): Promise<ExchangeRates> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from('exchange_rates').select('currency, rate');
+  if (error) throw error;
+
+  const rates: ExchangeRates = { USD: 1 };
+  for (const row of data ?? []) rates[row.currency] = Number(row.rate);
+  return rates;
+}
+
+/** Convert a native-currency price to USD. Returns null when the currency has no rate. */
+export function toUsd(price: number, currency: string | null | undefined, rates: ExchangeRates): number | null {
+  const code = currency ?? 'USD';
+  if (code === 'USD') return price;
+  const rate = rates[code];
+  return rate ? Math.round((price / rate) * 100) / 100 : null;
+}
@@ -1,10 +1,12 @@
 /**
  * Extract structured product attributes from Shopify tags.
  *
- * Currently extracts 3 attributes:
+ * Currently extracts:
  *   - headphone_design: 'open' | 'closed'
  *   - driver_type: 'Dynamic' | 'Planar Magnetic' | 'Electrostatic'
  *   - wearing_style: 'Over-ear' | 'On-ear' | 'In-ear'
+ *   - mic_connection / mic_type / mic_pattern (microphones)
+ *   - impedance_ohms / sensitivity (IEMs and headphones)
  *
  * Designed to be extended for additional retailers in the future.
  */
@@ -17,6 +19,10 @@ export interface ExtractedTags {
   mic_connection?: 'usb' | 'xlr' | 'usb_xlr' | 'wireless' | '3.5mm';
   mic_type?: 'dynamic' | 'condenser' | 'ribbon';
   mic_pattern?: 'cardioid' | 'omnidirectional' | 'bidirectional' | 'supercardioid' | 'hypercardioid' | 'multipattern' | 'shotgun';
+  impedance_ohms?: number;
+  /** Sensitivity as quoted; see sensitivity_unit */
+  sensitivity_db?: number;
+  sensitivity_unit?: 'db_mw' | 'db_v';
 }
 
 /**
@@ -53,6 +59,18 @@ function extractStructuredTagValues(tags: string[], prefix: string): string[] {
   return values;
 }
 
+/**
+ * Impedance tags: "Impedance_32Ω", "impedance: 32 ohm", bare "300 Ohms".
+ */
+const IMPEDANCE_TAG_RE = /^(?:impedance[\s_:-]*)?(\d+(?:\.\d+)?)\s*(?:ω|Ω|ohms?)$/i;
+
+/**
+ * Sensitivity tags: "Sensitivity_105dB", "sensitivity: 110 dB/Vrms",
+ * "98 dB SPL/mW". Without a unit the value is taken as dB/mW, which is how
+ * most store spec tags quote it.
+ */
+const SENSITIVITY_TAG_RE = /^(?:sensitivity[\s_:-]*)(\d+(?:\.\d+)?)\s*db(?:\s*spl)?(?:\s*[/@]\s*(1\s*)?(mw|vrms|v))?/i;
+
 /**
  * Parse an array of Shopify tags into structured product attributes.
  * Returns only fields that were found; undefined fields are omitted.
@@ -182,5 +200,27 @@ export function extractTagAttributes(tags: string[]): ExtractedTags {
     }
   }
 
+  // Impedance / sensitivity (power matching in the builder)
+  for (const tag of tags) {
+    const trimmed = tag.trim();
+    if (result.impedance_ohms === undefined) {
+      const m = trimmed.match(IMPEDANCE_TAG_RE);
+      if (m) {
+        const ohms = parseFloat(m[1]);
+        if (ohms > 0 && ohms <= 1000) result.impedance_ohms = ohms;
+      }
+    }
+    if (result.sensitivity_db === undefined) {
+      const m = trimmed.match(SENSITIVITY_TAG_RE);
+      if (m) {
+        const db = parseFloat(m[1]);
+        if (db >= 60 && db <= 140) {
+          result.sensitivity_db = db;
+          result.sensitivity_unit = m[3] && m[3].toLowerCase().startsWith('v') ? 'db_v' : 'db_mw';
+        }
+      }
+    }
+  }
+
   return result;
 }
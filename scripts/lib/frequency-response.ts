@@ -0,0 +1,160 @@
+/**
+ * frequency-response.ts
+ *
+ * Raw frequency-response (FR) data for the measurement linker.
+ *
+ * Measurements are fetched from the CrinGraph database they were published in
+ * (the domain half of the Squig-Rank id), target curves from the Squig-Rank
+ * repo. Every curve is resampled to a shared 1/24-octave grid so the frontend
+ * can overlay curves point-for-point and rows stay small (~240 points).
+ */
+
+import type { DataSource, RankedEntry } from './squig-rank.ts';
+
+export interface FrCurve {
+  frequencies: number[];
+  spl: number[];
+}
+
+/** Target curves used by Squig-Rank, one `<target group name>.txt` per group */
+export const SQUIG_RANK_TARGETS_URL = 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/targets';
+
+const GRID_MIN_HZ = 20;
+const GRID_MAX_HZ = 20000;
+const GRID_POINTS_PER_OCTAVE = 24;
+
+/** 1/24-octave frequency grid from 20 Hz to 20 kHz */
+export const FR_GRID: readonly number[] = (() => {
+  const grid: number[] = [];
+  for (let i = 0; ; i++) {
+    const hz = GRID_MIN_HZ * 2 ** (i / GRID_POINTS_PER_OCTAVE);
+    if (hz > GRID_MAX_HZ * 1.0001) break;
+    grid.push(Math.round(hz * 100) / 100);
+  }
+  return grid;
+})();
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a CrinGraph/REW text export: one "frequency spl [phase]" row per line,
+ * separated by whitespace, commas or semicolons. Header and comment lines
+ * (anything not starting with two numbers) are skipped.
+ */
+export function parseFrText(text: string): FrCurve | null {
+  const points: [number, number][] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const parts = line.trim().split(/[\s,;]+/);
+    if (parts.length < 2) continue;
+    const hz = Number(parts[0]);
+    const db = Number(parts[1]);
+    if (!Number.isFinite(hz) || !Number.isFinite(db) || hz <= 0) continue;
+    points.push([hz, db]);
+  }
+
+  if (points.length < 2) return null;
+  points.sort((a, b) => a[0] - b[0]);
+  return {
+    frequencies: points.map((p) => p[0]),
+    spl: points.map((p) => p[1]),
+  };
+}
+
+/** Linear interpolation in log-frequency; values outside the data are clamped to the ends. */
+function interpolateAt(curve: FrCurve, hz: number): number {
+  const { frequencies: f, spl } = curve;
+  if (hz <= f[0]) return spl[0];
+  if (hz >= f[f.length - 1]) return spl[spl.length - 1];
+
+  let lo = 0;
+  let hi = f.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (f[mid] <= hz) lo = mid;
+    else hi = mid;
+  }
+  const t = (Math.log(hz) - Math.log(f[lo])) / (Math.log(f[hi]) - Math.log(f[lo]));
+  return spl[lo] + t * (spl[hi] - spl[lo]);
+}
+
+/** Resample a curve onto FR_GRID (SPL rounded to 0.01 dB) */
+export function resampleToGrid(curve: FrCurve): FrCurve {
+  return {
+    frequencies: [...FR_GRID],
+    spl: FR_GRID.map((hz) => Math.round(interpolateAt(curve, hz) * 100) / 100),
+  };
+}
+
+/** Average channels in the pressure domain, as CrinGraph does for L/R pairs. Inputs must share a grid. */
+export function averageChannels(channels: FrCurve[]): FrCurve {
+  if (channels.length === 1) return channels[0];
+  const { frequencies } = channels[0];
+  const spl = frequencies.map((_, i) => {
+    const meanPressure = channels.reduce((sum, c) => sum + 10 ** (c.spl[i] / 20), 0) / channels.length;
+    return Math.round(20 * Math.log10(meanPressure) * 100) / 100;
+  });
+  return { frequencies: [...frequencies], spl };
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+async function fetchText(url: string): Promise<string | null> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    return await res.text();
+  } catch {
+    return null;
+  }
+}
+
+/** Database directories to try on a measurement's source domain, most likely first */
+function dataDirectories(domain: string, categoryId: DataSource['categoryId'], rig: RankedEntry['rig']): string[] {
+  if (domain === 'graph.hangout.audio') {
+    return categoryId === 'headphone' ? ['headphones/data/'] : [`iem/${rig}/data/`, 'iem/data/'];
+  }
+  return categoryId === 'headphone' ? ['headphones/data/', 'data/'] : ['data/'];
+}
+
+/**
+ * Fetch the FR curve for a Squig-Rank measurement from its source database.
+ * Tries the "<name> L.txt"/"<name> R.txt" channel pair first and falls back
+ * to a single "<name>.txt". Returns null when nothing parseable is found.
+ */
+export async function fetchMeasurementFr(
+  entry: Pick<RankedEntry, 'id' | 'sourceDomain' | 'rig'>,
+  categoryId: DataSource['categoryId'],
+): Promise<FrCurve | null> {
+  const separatorIdx = entry.id.indexOf('::');
+  const name = separatorIdx >= 0 ? entry.id.substring(separatorIdx + 2) : entry.id;
+  if (!name || !entry.sourceDomain) return null;
+
+  for (const dir of dataDirectories(entry.sourceDomain, categoryId, entry.rig)) {
+    const base = `https://${entry.sourceDomain}/${dir}${encodeURIComponent(name)}`;
+
+    const [left, right] = await Promise.all([fetchText(`${base}%20L.txt`), fetchText(`${base}%20R.txt`)]);
+    const channels = [left, right]
+      .map((text) => (text ? parseFrText(text) : null))
+      .filter((c): c is FrCurve => c !== null)
+      .map(resampleToGrid);
+    if (channels.length > 0) return averageChannels(channels);
+
+    const single = await fetchText(`${base}.txt`);
+    const parsed = single ? parseFrText(single) : null;
+    if (parsed) return resampleToGrid(parsed);
+  }
+
+  return null;
+}
+
+/** Fetch a Squig-Rank target curve by its target group name */
+export async function fetchTargetFr(targetName: string): Promise<FrCurve | null> {
+  const text = await fetchText(`${SQUIG_RANK_TARGETS_URL}/${encodeURIComponent(targetName)}.txt`);
+  const parsed = text ? parseFrText(text) : null;
+  return parsed ? resampleToGrid(parsed) : null;
+}
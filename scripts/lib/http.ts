@@ -0,0 +1,136 @@
+/**
+ * http.ts
+ *
+ * fetch() wrapper shared by the retailer adapters. Pointed at a fixtures
+ * directory it records every response to disk, or replays recorded
+ * responses without touching the network:
+ *
+ *   HTTP_FIXTURES_DIR=scripts/fixtures/hifigo HTTP_FIXTURES_MODE=record npx tsx ...
+ *   HTTP_FIXTURES_DIR=scripts/fixtures/hifigo npx tsx ...           (replay)
+ *
+ * Fixture files are keyed by method, URL and body with credentials and
+ * per-request signatures stripped, so a recording made with one API key
+ * replays under another.
+ */
+
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type HttpClient = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type FixtureMode = 'record' | 'replay';
+
+export type HttpClientOptions = {
+  fixturesDir?: string;
+  /** Defaults to 'replay' when a fixtures directory is given */
+  fixtureMode?: FixtureMode;
+};
+
+type Fixture = {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+/** Query/body params left out of fixture keys and recorded URLs */
+const VOLATILE_PARAMS = new Set([
+  'apiKey', 'api_key', 'app_key', 'access_token', 'sign', 'timestamp', 'tracking_id',
+]);
+
+/** Response headers worth keeping (pagination, content type) */
+const RECORDED_HEADERS = ['content-type', 'x-wp-total', 'x-wp-totalpages', 'link'];
+
+function stripVolatile(params: URLSearchParams): URLSearchParams {
+  const kept = new URLSearchParams();
+  for (const [key, value] of params) {
+    if (!VOLATILE_PARAMS.has(key)) kept.append(key, value);
+  }
+  return kept;
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.search = stripVolatile(parsed.searchParams).toString();
+  return parsed.toString();
+}
+
+function bodyText(body: RequestInit['body']): string {
+  if (!body) return '';
+  if (body instanceof URLSearchParams) return stripVolatile(body).toString();
+  return typeof body === 'string' ? body : '';
+}
+
+/** Stable fixture file name for a request, e.g. "hifigo.com-3f9a0c1b2d4e5f60.json" */
+export function fixtureName(url: string, init?: RequestInit): string {
+  const method = (init?.method ?? 'GET').toUpperCase();
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${method} ${redactUrl(url)}\n${bodyText(init?.body)}`)
+    .digest('hex')
+    .slice(0, 16);
+  return `${new URL(url).hostname}-${hash}.json`;
+}
+
+export function readFixture(dir: string, name: string): Fixture | null {
+  const file = path.join(dir, name);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as Fixture;
+}
+
+export function writeFixture(dir: string, name: string, fixture: Fixture): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, name), JSON.stringify(fixture, null, 2));
+}
+
+export function createHttpClient(options: HttpClientOptions = {}): HttpClient {
+  const { fixturesDir } = options;
+  if (!fixturesDir) return (url, init) => fetch(url, init);
+
+  const mode = options.fixtureMode ?? 'replay';
+
+  return async (url, init) => {
+    const name = fixtureName(url, init);
+
+    if (mode === 'replay') {
+      const fixture = readFixture(fixturesDir, name);
+      if (!fixture) {
+        throw new Error(`No recorded fixture for ${init?.method ?? 'GET'} ${redactUrl(url)} (${name})`);
+      }
+      return new Response(fixture.body, { status: fixture.status, headers: fixture.headers });
+    }
+
+    const response = await fetch(url, init);
+    const body = await response.text();
+    const headers: Record<string, string> = {};
+    for (const header of RECORDED_HEADERS) {
+      const value = response.headers.get(header);
+      if (value !== null) headers[header] = value;
+    }
+    writeFixture(fixturesDir, name, {
+      method: (init?.method ?? 'GET').toUpperCase(),
+      url: redactUrl(url),
+      status: response.status,
+      headers,
+      body,
+    });
+    return new Response(body, { status: response.status, statusText: response.statusText, headers });
+  };
+}
+
+/** Fixture settings from HTTP_FIXTURES_DIR / HTTP_FIXTURES_MODE, if any */
+export function getFixtureOptions(): HttpClientOptions {
+  const fixturesDir = process.env.HTTP_FIXTURES_DIR || undefined;
+  const fixtureMode = process.env.HTTP_FIXTURES_MODE === 'record' ? 'record' : 'replay';
+  return { fixturesDir, fixtureMode };
+}
+
+let defaultClient: HttpClient | null = null;
+
+/** Process-wide client, configured from the environment */
+export function getHttpClient(): HttpClient {
+  if (!defaultClient) defaultClient = createHttpClient(getFixtureOptions());
+  return defaultClient;
+}
@@ -0,0 +1,213 @@
+/**
+ * price-guard.ts
+ *
+ * Screens price_listings rows before a sync script publishes them. A bad
+ * match (a $9 book matched to a $1,500 headphone) would otherwise flow
+ * straight into products.price and the deals page.
+ *
+ * Each new price is compared, in USD, against a reference:
+ *   1. the median in-stock price_history price over 90 days, when there are
+ *      at least MIN_HISTORY_POINTS snapshots, else
+ *   2. the median of the other retailers' current in-stock listings.
+ * Prices outside [LOW_RATIO, HIGH_RATIO] x reference are held in
+ * listing_quarantine (migration 023) for review on the admin dashboard.
+ * Products with no reference, and listings whose price has not changed
+ * since it was last published, always go through.
+ */
+
+import { getSupabase } from '../config/retailers.ts';
+import { getExchangeRates, toUsd, type ExchangeRates } from './currency.ts';
+import { log, logError } from './log.ts';
+import { upsertInBatches } from './store-products.ts';
+
+/** Below this fraction of the reference a price is a suspected bad match */
+export const LOW_RATIO = 0.5;
+/** Above this multiple of the reference a price is a suspected bad match */
+export const HIGH_RATIO = 3;
+
+const MIN_HISTORY_POINTS = 3;
+/** Relative change treated as "the same price" */
+const SAME_PRICE_TOLERANCE = 0.01;
+const REFERENCE_BATCH_SIZE = 200;
+
+type ListingRow = Record<string, unknown>;
+
+type CurrentListing = {
+  retailer_id: string;
+  external_id: string | null;
+  price: number;
+  price_usd: number;
+  in_stock: boolean | null;
+};
+
+type PriceReference = {
+  historyMedian: number | null;
+  historyPoints: number;
+  listings: CurrentListing[];
+};
+
+export type ScreenResult = {
+  publish: ListingRow[];
+  quarantined: number;
+};
+
+let ratesCache: ExchangeRates | null = null;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function samePrice(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(a, b) * SAME_PRICE_TOLERANCE;
+}
+
+async function loadReferences(productIds: string[]): Promise<Map<string, PriceReference>> {
+  const supabase = getSupabase();
+  const refs = new Map<string, PriceReference>();
+
+  for (let i = 0; i < productIds.length; i += REFERENCE_BATCH_SIZE) {
+    const batch = productIds.slice(i, i + REFERENCE_BATCH_SIZE);
+    const { data, error } = await supabase.rpc('listing_price_references', { p_product_ids: batch });
+    if (error) throw error;
+
+    for (const row of (data ?? []) as Record<string, unknown>[]) {
+      refs.set(row.product_id as string, {
+        historyMedian: row.history_median != null ? Number(row.history_median) : null,
+        historyPoints: Number(row.history_points ?? 0),
+        listings: ((row.listings ?? []) as CurrentListing[]).map((l) => ({
+          ...l,
+          price: Number(l.price),
+          price_usd: Number(l.price_usd),
+        })),
+      });
+    }
+  }
+
+  return refs;
+}
+
+/** Reference USD price for `row`, or null when there is nothing to compare with */
+function referenceFor(row: ListingRow, ref: PriceReference): { price: number; source: 'history' | 'retailers' } | null {
+  if (ref.historyMedian !== null && ref.historyPoints >= MIN_HISTORY_POINTS) {
+    return { price: ref.historyMedian, source: 'history' };
+  }
+  const peers = ref.listings
+    .filter((l) => l.retailer_id !== row.retailer_id && l.in_stock !== false)
+    .map((l) => l.price_usd);
+  const peerMedian = median(peers);
+  return peerMedian !== null ? { price: peerMedian, source: 'retailers' } : null;
+}
+
+/**
+ * Split `rows` into listings safe to publish and outliers, which are written
+ * to listing_quarantine. If the reference lookup fails the rows are published
+ * unscreened rather than blocking the sync.
+ */
+export async function screenListings(rows: ListingRow[], phase: string): Promise<ScreenResult> {
+  if (rows.length === 0) return { publish: [], quarantined: 0 };
+
+  let refs: Map<string, PriceReference>;
+  try {
+    ratesCache ??= await getExchangeRates();
+    refs = await loadReferences([...new Set(rows.map((r) => r.product_id as string))]);
+  } catch (err) {
+    logError(phase, 'Price guard: could not load reference prices, publishing unscreened', err);
+    return { publish: rows, quarantined: 0 };
+  }
+
+  const publish: ListingRow[] = [];
+  const flagged: { row: ListingRow; priceUsd: number; reference: number; source: 'history' | 'retailers' }[] = [];
+
+  for (const row of rows) {
+    const price = typeof row.price === 'number' ? row.price : null;
+    const priceUsd = price !== null && price > 0 ? toUsd(price, row.currency as string | null, ratesCache) : null;
+    const ref = refs.get(row.product_id as string);
+    if (priceUsd === null || !ref) {
+      publish.push(row);
+      continue;
+    }
+
+    // Unchanged since it was last published (or approved): nothing new to check
+    const current = ref.listings.find((l) => l.retailer_id === row.retailer_id && l.external_id === row.external_id);
+    if (current && samePrice(current.price, price!)) {
+      publish.push(row);
+      continue;
+    }
+
+    const reference = referenceFor(row, ref);
+    const ratio = reference ? priceUsd / reference.price : 1;
+    if (!reference || (ratio >= LOW_RATIO && ratio <= HIGH_RATIO)) {
+      publish.push(row);
+      continue;
+    }
+
+    flagged.push({ row, priceUsd, reference: reference.price, source: reference.source });
+  }
+
+  if (flagged.length === 0) return { publish, quarantined: 0 };
+
+  // A price an admin already rejected stays rejected instead of re-queueing
+  const supabase = getSupabase();
+  const { data: existing } = await supabase
+    .from('listing_quarantine')
+    .select('retailer_id, external_id, price, status')
+    .in('external_id', flagged.map((f) => f.row.external_id as string))
+    .eq('status', 'rejected');
+  const rejected = (existing ?? []).filter((q) =>
+    flagged.some((f) =>
+      f.row.retailer_id === q.retailer_id
+      && f.row.external_id === q.external_id
+      && samePrice(Number(q.price), f.row.price as number)
+    )
+  );
+  const isRejected = (row: ListingRow) =>
+    rejected.some((q) => q.retailer_id === row.retailer_id && q.external_id === row.external_id);
+
+  const quarantineRows = flagged
+    .filter((f) => !isRejected(f.row))
+    .map((f) => ({
+      product_id: f.row.product_id,
+      retailer_id: f.row.retailer_id,
+      external_id: f.row.external_id,
+      price: f.row.price,
+      price_usd: f.priceUsd,
+      reference_price: Math.round(f.reference * 100) / 100,
+      reference_source: f.source,
+      ratio: Math.round((f.priceUsd / f.reference) * 1000) / 1000,
+      listing: f.row,
+      source: phase,
+      status: 'pending',
+      updated_at: new Date().toISOString(),
+      reviewed_at: null,
+    }));
+
+  if (quarantineRows.length > 0) {
+    const { error } = await supabase
+      .from('listing_quarantine')
+      .upsert(quarantineRows, { onConflict: 'retailer_id,external_id' });
+    if (error) logError(phase, 'Price guard: failed to write listing_quarantine', error);
+  }
+
+  const low = flagged.filter((f) => f.priceUsd < f.reference).length;
+  log(
+    phase,
+    `Price guard: held back ${flagged.length} listing(s) (${low} too low, ${flagged.length - low} too high)` +
+      (rejected.length > 0 ? `, ${rejected.length} previously rejected` : '')
+  );
+
+  return { publish, quarantined: quarantineRows.length };
+}
+
+/** Screen `rows` and upsert the ones that pass into price_listings */
+export async function publishListings(
+  rows: ListingRow[],
+  onConflict: string,
+  phase: string
+): Promise<{ upserted: number; quarantined: number }> {
+  const { publish, quarantined } = await screenListings(rows, phase);
+  const upserted = await upsertInBatches('price_listings', publish, onConflict, phase);
+  return { upserted, quarantined };
+}
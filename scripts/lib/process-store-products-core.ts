@@ -6,7 +6,10 @@
  */
 
 import { getSupabase, getRetailers, type Retailer } from '../config/retailers.ts';
+import { getExchangeRates, toUsd, type ExchangeRates } from './currency.ts';
 import { extractBrand } from '../brand-config.ts';
+import { reportStats } from './run-stats.ts';
+import { publishListings } from './price-guard.ts';
 import {
   normalizeName,
   buildCandidateIndex,
@@ -27,12 +30,23 @@ import type { CategoryId } from '../config/store-collections.ts';
 import { log, logError } from './log.ts';
 import { extractTagAttributes } from './extract-tags.ts';
 import { isAliExpressJunk, cleanAliExpressTitle } from './aliexpress-quality-gate.ts';
+import type { VariantType } from '../variant-config.ts';
+import { lookupKnownTransducerSpecs, toSensitivityDbMw } from './transducer-known-specs.ts';
 
 const BATCH_SIZE = 1000;
 const UPSERT_BATCH_SIZE = 100;
 const MERGE_THRESHOLD = 0.85;
 const REVIEW_THRESHOLD = 0.65;
 
+/**
+ * Shopify variant types that change measurements (and so exist as separate
+ * products, e.g. "Moondrop Aria (Foam tips)"). Variants of these types are
+ * matched on "<title> (<variant>)" before falling back to the base product.
+ */
+const MEASURED_VARIANT_TYPES = new Set<VariantType>([
+  'pads', 'tips', 'apex', 'nozzle', 'filter', 'dsp', 'anc', 'switch', 'impedance',
+]);
+
 // ---------------------------------------------------------------------------
 // Bloom Audio product_type gate: allowlist + reclassification
 // Their product_type values are precise and map 1:1 to AudioList categories.
@@ -176,6 +190,11 @@ type StoreProduct = {
   id: string;
   retailer_id: string;
   external_id: string;
+  product_handle: string | null;
+  variant_id: string | null;
+  variant_title: string | null;
+  variant_options: Record<string, string> | null;
+  variant_type: VariantType | null;
   title: string;
   vendor: string | null;
   product_type: string | null;
@@ -204,6 +223,7 @@ type Stats = {
   skipped: number;
   errors: number;
   listingsCreated: number;
+  quarantined: number;
 };
 
 const DEV_LIMIT_PER_CATEGORY = 100;
@@ -229,7 +249,7 @@ async function loadUnprocessed(
   while (true) {
     let query = supabase
       .from('store_products')
-      .select('id, retailer_id, external_id, title, vendor, product_type, tags, category_id, price, compare_at_price, on_sale, in_stock, image_url, product_url, affiliate_url')
+      .select('id, retailer_id, external_id, product_handle, variant_id, variant_title, variant_options, variant_type, title, vendor, product_type, tags, category_id, price, compare_at_price, on_sale, in_stock, image_url, product_url, affiliate_url')
       .eq('processed', false)
       .not('category_id', 'is', null);
 
@@ -327,7 +347,8 @@ async function loadExistingProducts(
 async function processStoreProducts(
   storeProducts: StoreProduct[],
   existingByCategory: Map<string, ExistingProduct[]>,
-  retailerMap: Map<string, Retailer>
+  retailerMap: Map<string, Retailer>,
+  rates: ExchangeRates
 ): Promise<Stats> {
   const supabase = getSupabase();
   const stats: Stats = {
@@ -337,6 +358,7 @@ async function processStoreProducts(
     skipped: 0,
     errors: 0,
     listingsCreated: 0,
+    quarantined: 0,
   };
 
   const listingRows: Record<string, unknown>[] = [];
@@ -344,6 +366,28 @@ async function processStoreProducts(
   const spUpdateWithCanonical: { id: string; canonicalProductId: string }[] = [];
   const spUpdateProcessedOnly: string[] = [];
 
+  function pushListing(sp: StoreProduct, canonicalProductId: string): void {
+    listingRows.push({
+      product_id: canonicalProductId,
+      retailer_id: sp.retailer_id,
+      external_id: sp.external_id,
+      variant_id: sp.variant_id,
+      variant_title: sp.variant_title,
+      variant_options: sp.variant_options,
+      price: sp.price,
+      compare_at_price: sp.compare_at_price,
+      on_sale: sp.on_sale || (sp.compare_at_price != null && sp.price != null && sp.compare_at_price > sp.price),
+      currency: retailerMap.get(sp.retailer_id)?.currency ?? 'USD',
+      in_stock: sp.in_stock,
+      product_url: sp.product_url,
+      affiliate_url: sp.affiliate_url ?? sp.product_url,
+      image_url: sp.image_url,
+      last_checked: new Date().toISOString(),
+    });
+    stats.listingsCreated++;
+    spUpdateWithCanonical.push({ id: sp.id, canonicalProductId });
+  }
+
   // Build a product-id-to-category lookup for cross-category guard
   const productCategoryMap = new Map<string, string>();
   for (const [catId, products] of existingByCategory) {
@@ -385,6 +429,11 @@ async function processStoreProducts(
     linsoulDriverLookup = await buildLinsoulDriverTypeLookup();
   }
 
+  // Sibling variants of one Shopify product share the resolution of the
+  // first variant processed (canonical product id, or null when it went
+  // to review), so a product never spawns one canonical per variant.
+  const handleResolution = new Map<string, string | null>();
+
   for (let i = 0; i < storeProducts.length; i++) {
     const sp = storeProducts[i];
     const categoryId = sp.category_id!;
@@ -542,6 +591,30 @@ async function processStoreProducts(
       const usingBrandIndex = brandIndex && brandIndex.length > 0;
       const candidateIndex = usingBrandIndex ? brandIndex : categoryIndex;
 
+      const handleKey = `${sp.retailer_id}|${sp.product_handle ?? sp.external_id}`;
+
+      // Measurement-relevant variants ("Foam tips", "Red filter") may map to
+      // their own product rather than the base model
+      if (sp.variant_title && sp.variant_type && MEASURED_VARIANT_TYPES.has(sp.variant_type) &&
+          candidateIndex && candidateIndex.length > 0) {
+        const variantMatch = findBestMatchIndexed(`${matchTitle} (${sp.variant_title})`, candidateIndex, { productBrand: brand });
+        const variantCategory = variantMatch ? productCategoryMap.get(variantMatch.id) : undefined;
+        const threshold = usingBrandIndex ? MERGE_THRESHOLD : 0.92;
+        if (variantMatch && variantMatch.score >= threshold && (!variantCategory || variantCategory === effectiveCategoryId)) {
+          log('VARIANT', `"${sp.title}" [${sp.variant_title}] -> "${variantMatch.name}" (score=${variantMatch.score.toFixed(3)})`);
+          pushListing(sp, variantMatch.id);
+          stats.merged++;
+          continue;
+        }
+      }
+
+      if (handleResolution.has(handleKey)) {
+        const siblingProductId = handleResolution.get(handleKey)!;
+        if (siblingProductId) pushListing(sp, siblingProductId);
+        else spUpdateProcessedOnly.push(sp.id);
+        continue;
+      }
+
       const match = (candidateIndex && candidateIndex.length > 0)
         ? findBestMatchIndexed(matchTitle, candidateIndex, { productBrand: brand })
         : null;
@@ -629,7 +702,7 @@ async function processStoreProducts(
           // Linsoul driver-type collection lookup: highest-confidence source
           // because collection membership is curated ground truth
           if (sp.retailer_id === 'linsoul' && linsoulDriverLookup) {
-            const collectionDriverType = linsoulDriverLookup.get(sp.external_id);
+            const collectionDriverType = linsoulDriverLookup.get(sp.product_handle ?? sp.external_id);
             if (collectionDriverType) {
               if (driverType && driverType !== collectionDriverType) {
                 log('LINSOUL_DRIVER', `Collection overrides title: "${sp.title}" ${driverType} -> ${collectionDriverType}`);
@@ -639,14 +712,28 @@ async function processStoreProducts(
           }
         }
 
+        // Impedance/sensitivity for builder power matching: tags first, then known models
+        let impedanceOhms: number | null = null;
+        let sensitivityDbMw: number | null = null;
+        if (effectiveCategoryId === 'iem' || effectiveCategoryId === 'headphone') {
+          const known = lookupKnownTransducerSpecs(sp.title, brand);
+          impedanceOhms = tagAttrs?.impedance_ohms ?? known?.impedance_ohms ?? null;
+          if (tagAttrs?.sensitivity_db !== undefined) {
+            sensitivityDbMw = toSensitivityDbMw(tagAttrs.sensitivity_db, tagAttrs.sensitivity_unit ?? 'db_mw', impedanceOhms);
+          } else if (known) {
+            sensitivityDbMw = toSensitivityDbMw(known.sensitivity_db, known.sensitivity_unit, impedanceOhms);
+          }
+        }
+
         const { data: newProduct, error: insertError } = await supabase
           .from('products')
           .insert({
-            source_id: `store:${sp.retailer_id}:${sp.external_id}`,
+            source_id: `store:${sp.retailer_id}:${sp.product_handle ?? sp.external_id}`,
             category_id: effectiveCategoryId,
             name: sp.title,
             brand,
-            price: sp.price,
+            // products.price is always USD; store prices are in the retailer's currency
+            price: sp.price != null ? toUsd(sp.price, retailer?.currency, rates) : null,
             image_url: sp.image_url,
             affiliate_url: sp.affiliate_url ?? sp.product_url,
             source_type: 'store',
@@ -657,6 +744,8 @@ async function processStoreProducts(
             ...(micType ? { mic_type: micType } : {}),
             ...(micPattern ? { mic_pattern: micPattern } : {}),
             ...(driverType ? { driver_type: driverType } : {}),
+            ...(impedanceOhms !== null ? { impedance_ohms: impedanceOhms } : {}),
+            ...(sensitivityDbMw !== null ? { sensitivity_db_mw: sensitivityDbMw } : {}),
             ...(Object.keys(initialSpecs).length > 0 ? { specs: initialSpecs } : {}),
           })
           .select('id')
@@ -667,7 +756,7 @@ async function processStoreProducts(
             const { data: existing } = await supabase
               .from('products')
               .select('id')
-              .eq('source_id', `store:${sp.retailer_id}:${sp.external_id}`)
+              .eq('source_id', `store:${sp.retailer_id}:${sp.product_handle ?? sp.external_id}`)
               .single();
 
             if (existing) {
@@ -711,23 +800,10 @@ async function processStoreProducts(
         }
       }
 
+      if (sp.variant_id) handleResolution.set(handleKey, canonicalProductId);
+
       if (canonicalProductId) {
-        listingRows.push({
-          product_id: canonicalProductId,
-          retailer_id: sp.retailer_id,
-          external_id: sp.external_id,
-          price: sp.price,
-          compare_at_price: sp.compare_at_price,
-          on_sale: sp.on_sale || (sp.compare_at_price != null && sp.price != null && sp.compare_at_price > sp.price),
-          currency: 'USD',
-          in_stock: sp.in_stock,
-          product_url: sp.product_url,
-          affiliate_url: sp.affiliate_url ?? sp.product_url,
-          image_url: sp.image_url,
-          last_checked: new Date().toISOString(),
-        });
-        stats.listingsCreated++;
-        spUpdateWithCanonical.push({ id: sp.id, canonicalProductId });
+        pushListing(sp, canonicalProductId);
       } else {
         spUpdateProcessedOnly.push(sp.id);
       }
@@ -781,19 +857,11 @@ async function processStoreProducts(
     return deduped;
   })();
 
-  // Batch upsert price_listings
+  // Batch upsert price_listings, holding back suspicious prices
   if (dedupedListingRows.length > 0) {
     log('UPSERT', `Upserting ${dedupedListingRows.length} price_listings...`);
-    for (let i = 0; i < dedupedListingRows.length; i += UPSERT_BATCH_SIZE) {
-      const batch = dedupedListingRows.slice(i, i + UPSERT_BATCH_SIZE);
-      const { error } = await supabase
-        .from('price_listings')
-        .upsert(batch, { onConflict: 'retailer_id,external_id' });
-
-      if (error) {
-        logError('UPSERT', 'price_listings batch', error);
-      }
-    }
+    const { quarantined } = await publishListings(dedupedListingRows, 'retailer_id,external_id', 'UPSERT');
+    stats.quarantined += quarantined;
   }
 
   // Deduplicate matchRows by (retailer_id, external_id)
@@ -827,82 +895,6 @@ async function processStoreProducts(
   return stats;
 }
 
-async function denormalizeLowestPrices(): Promise<number> {
-  const supabase = getSupabase();
-  const PAGE_SIZE = 1000;
-
-  log('DENORM', 'Finding lowest in-stock price per product...');
-
-  const listings: { product_id: string; price: number; affiliate_url: string | null; product_url: string | null }[] = [];
-  let offset = 0;
-
-  while (true) {
-    const { data, error } = await supabase
-      .from('price_listings')
-      .select('product_id, price, affiliate_url, product_url')
-      .eq('in_stock', true)
-      .order('price', { ascending: true })
-      .range(offset, offset + PAGE_SIZE - 1);
-
-    if (error) {
-      logError('DENORM', 'Failed to fetch price_listings', error);
-      return 0;
-    }
-
-    if (!data || data.length === 0) break;
-    listings.push(...data);
-    offset += data.length;
-    if (data.length < PAGE_SIZE) break;
-  }
-
-  if (listings.length === 0) {
-    log('DENORM', 'No in-stock listings found.');
-    return 0;
-  }
-
-  log('DENORM', `Fetched ${listings.length} in-stock listings`);
-
-  const lowestByProduct = new Map<string, { price: number; affiliate_url: string | null }>();
-  for (const listing of listings) {
-    const existing = lowestByProduct.get(listing.product_id);
-    if (!existing || listing.price < existing.price) {
-      lowestByProduct.set(listing.product_id, {
-        price: listing.price,
-        affiliate_url: listing.affiliate_url ?? listing.product_url,
-      });
-    }
-  }
-
-  log('DENORM', `Updating ${lowestByProduct.size} products with lowest prices...`);
-
-  let updatedCount = 0;
-  const entries = Array.from(lowestByProduct.entries());
-  const DENORM_CONCURRENCY = 25;
-
-  for (let i = 0; i < entries.length; i += DENORM_CONCURRENCY) {
-    const chunk = entries.slice(i, i + DENORM_CONCURRENCY);
-    const results = await Promise.all(
-      chunk.map(([productId, info]) =>
-        supabase
-          .from('products')
-          .update({ price: info.price, affiliate_url: info.affiliate_url, in_stock: true })
-          .eq('id', productId)
-      )
-    );
-
-    for (let j = 0; j < results.length; j++) {
-      if (results[j].error) {
-        logError('DENORM', `Failed to update product ${chunk[j][0]}`, results[j].error);
-      } else {
-        updatedCount++;
-      }
-    }
-  }
-
-  log('DENORM', `Updated ${updatedCount} products`);
-  return updatedCount;
-}
-
 export async function runProcessStoreProducts(options: ProcessStoreProductsOptions): Promise<void> {
   const startTime = Date.now();
   console.log('=================================================================');
@@ -916,20 +908,21 @@ export async function runProcessStoreProducts(options: ProcessStoreProductsOptio
 
   const retailers = await getRetailers();
   const retailerMap = new Map(retailers.map((r) => [r.id, r]));
+  const rates = await getExchangeRates();
 
   const storeProducts = await loadUnprocessed(options.categoryFilter, options.devMode);
   if (storeProducts.length === 0) {
     log('DONE', 'No unprocessed store products. Nothing to do.');
+    reportStats({ storeProducts: 0 });
     return;
   }
 
   const existingByCategory = await loadExistingProducts(options.categoryFilter);
 
   log('PROCESS', `Processing ${storeProducts.length} store products...`);
-  const stats = await processStoreProducts(storeProducts, existingByCategory, retailerMap);
+  const stats = await processStoreProducts(storeProducts, existingByCategory, retailerMap, rates);
 
-  console.log('\n--- Denormalize Lowest Prices ---\n');
-  const denormalized = await denormalizeLowestPrices();
+  reportStats({ storeProducts: storeProducts.length, ...stats });
 
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log('\n=================================================================');
@@ -943,6 +936,6 @@ export async function runProcessStoreProducts(options: ProcessStoreProductsOptio
   console.log(`  Skipped:            ${stats.skipped}`);
   console.log(`  Errors:             ${stats.errors}`);
   console.log(`  Listings created:   ${stats.listingsCreated}`);
-  console.log(`  Prices denormalized: ${denormalized}`);
+  console.log(`  Quarantined:        ${stats.quarantined}`);
   console.log('=================================================================\n');
 }
@@ -0,0 +1,25 @@
+/**
+ * product-prices.ts
+ *
+ * products.price / affiliate_url / in_stock are rolled up from price_listings
+ * by the database (refresh_product_prices(), migrations 022 and 037), and
+ * triggers re-run it whenever listings change. Scripts never write those columns
+ * themselves; they only sweep the roll-up once per run so listings that
+ * went stale without being touched drop out.
+ */
+
+import { getSupabase } from '../config/retailers.ts';
+import { log, logError } from './log.ts';
+
+/** Re-apply the listing roll-up to every product; returns how many changed */
+export async function refreshProductPrices(phase: string): Promise<number> {
+  log(phase, 'Refreshing products.price from price_listings...');
+  const { data, error } = await getSupabase().rpc('refresh_product_prices');
+  if (error) {
+    logError(phase, 'refresh_product_prices failed', error);
+    return 0;
+  }
+  const updated = Number(data ?? 0);
+  log(phase, `${updated} product(s) changed price, link or stock`);
+  return updated;
+}
@@ -0,0 +1,25 @@
+/**
+ * run-stats.ts
+ *
+ * Hand a script's end-of-run stats to scripts/pipeline.ts. The orchestrator
+ * sets PIPELINE_STATS_FILE for each step it spawns; outside the pipeline
+ * this is a no-op.
+ */
+
+import * as fs from 'fs';
+
+/** Merge `stats` into the step's stats file (later keys win) */
+export function reportStats(stats: Record<string, unknown>): void {
+  const file = process.env.PIPELINE_STATS_FILE;
+  if (!file) return;
+
+  let existing: Record<string, unknown> = {};
+  if (fs.existsSync(file)) {
+    try {
+      existing = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, unknown>;
+    } catch {
+      // A half-written file from a crashed attempt; start over
+    }
+  }
+  fs.writeFileSync(file, JSON.stringify({ ...existing, ...stats }));
+}
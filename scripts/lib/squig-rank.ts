@@ -0,0 +1,220 @@
+/**
+ * squig-rank.ts
+ *
+ * Shared Squig-Rank data access for the measurement sync scripts
+ * (link-measurements.ts, sync-to-supabase.ts).
+ *
+ * Each results file holds one ranked list per target curve. Every target
+ * group is kept in products.ppi_targets; the groups matching a source's
+ * `targets` map also fill the sortable per-target columns
+ * (ppi_* for Diffuse Field, ppi_harman_* for Harman).
+ */
+
+export type TargetType = 'df' | 'harman';
+
+export const TARGET_TYPES: readonly TargetType[] = ['df', 'harman'];
+
+// ---------------------------------------------------------------------------
+// Data sources
+// ---------------------------------------------------------------------------
+
+export interface DataSource {
+  url: string;
+  label: string;
+  categoryId: 'iem' | 'headphone';
+  /** Substring used to pick the target group for each selectable target type */
+  targets: Record<TargetType, string>;
+}
+
+export const DATA_SOURCES: readonly DataSource[] = [
+  {
+    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results.json',
+    label: 'IEM (711)',
+    categoryId: 'iem',
+    targets: { df: 'ISO 11904-2 DF', harman: 'Harman' },
+  },
+  {
+    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results_hp_kb5.json',
+    label: 'HP KB5',
+    categoryId: 'headphone',
+    targets: { df: 'KEMAR DF', harman: 'Harman' },
+  },
+  {
+    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results_hp_5128.json',
+    label: 'HP 5128',
+    categoryId: 'headphone',
+    targets: { df: '5128 DF', harman: 'Harman' },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RankedEntry {
+  id: string;
+  name: string;
+  similarity: number;
+  stdev: number;
+  slope: number;
+  avgError: number;
+  price: number | null;
+  quality: 'high' | 'low';
+  sourceDomain: string;
+  type: 'iem' | 'headphone';
+  rig: '711' | '5128';
+  pinna: string | null;
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+export interface TargetGroup {
+  targetName: string;
+  ranked: RankedEntry[];
+}
+
+export interface ResultsFile {
+  generatedAt: string;
+  totalIEMs: number;
+  results: TargetGroup[];
+}
+
+/** PPI statistics for one measurement under one target curve (stored in products.ppi_targets) */
+export interface TargetScore {
+  score: number;
+  stdev: number;
+  slope: number;
+  avgError: number;
+}
+
+/** One measurement with its scores under every target group it appears in. */
+export interface MeasurementScores {
+  sourceId: string;
+  categoryId: 'iem' | 'headphone';
+  /** Entry used for name/rig/quality metadata (the DF entry when present) */
+  entry: RankedEntry;
+  /** Entries from the groups selected by DataSource.targets */
+  byType: Partial<Record<TargetType, RankedEntry>>;
+  /** Every target group keyed by its Squig-Rank target name */
+  allTargets: Record<string, TargetScore>;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Find the first target group whose name contains `matchStr` (case-insensitive). */
+export function findTargetGroup(data: ResultsFile, matchStr: string): TargetGroup | null {
+  const matchLower = matchStr.toLowerCase();
+  return data.results.find((g) => g.targetName.toLowerCase().includes(matchLower)) ?? null;
+}
+
+function toTargetScore(entry: RankedEntry): TargetScore {
+  return {
+    score: entry.similarity,
+    stdev: entry.stdev,
+    slope: entry.slope,
+    avgError: entry.avgError,
+  };
+}
+
+/**
+ * Collect every measurement in a results file with its per-target scores.
+ * Returns the measurements plus the target group picked for each target type
+ * (null when the file has no matching group) so callers can log it.
+ */
+export function collectMeasurements(
+  data: ResultsFile,
+  source: DataSource,
+): { measurements: MeasurementScores[]; groups: Record<TargetType, TargetGroup | null> } {
+  const groups = {} as Record<TargetType, TargetGroup | null>;
+  for (const type of TARGET_TYPES) {
+    groups[type] = findTargetGroup(data, source.targets[type]);
+  }
+
+  const bySourceId = new Map<string, MeasurementScores>();
+
+  for (const group of data.results) {
+    const type = TARGET_TYPES.find((t) => groups[t] === group) ?? null;
+
+    for (const entry of group.ranked) {
+      let m = bySourceId.get(entry.id);
+      if (!m) {
+        m = {
+          sourceId: entry.id,
+          categoryId: source.categoryId,
+          entry,
+          byType: {},
+          allTargets: {},
+        };
+        bySourceId.set(entry.id, m);
+      }
+
+      m.allTargets[group.targetName] = toTargetScore(entry);
+      if (type) {
+        m.byType[type] = entry;
+        if (type === 'df') m.entry = entry;
+      }
+    }
+  }
+
+  return { measurements: Array.from(bySourceId.values()), groups };
+}
+
+/**
+ * Merge measurements sharing a source_id (the same measurement can appear in
+ * more than one file). Per target type the highest score wins, matching the
+ * previous "keep highest PPI" dedup behaviour.
+ */
+export function mergeMeasurements(measurements: MeasurementScores[]): MeasurementScores[] {
+  const bySourceId = new Map<string, MeasurementScores>();
+
+  for (const m of measurements) {
+    const existing = bySourceId.get(m.sourceId);
+    if (!existing) {
+      bySourceId.set(m.sourceId, { ...m, byType: { ...m.byType }, allTargets: { ...m.allTargets } });
+      continue;
+    }
+
+    for (const type of TARGET_TYPES) {
+      const candidate = m.byType[type];
+      const current = existing.byType[type];
+      if (candidate && (!current || candidate.similarity > current.similarity)) {
+        existing.byType[type] = candidate;
+        if (type === 'df') existing.entry = candidate;
+      }
+    }
+    for (const [name, score] of Object.entries(m.allTargets)) {
+      const current = existing.allTargets[name];
+      if (!current || score.score > current.score) existing.allTargets[name] = score;
+    }
+  }
+
+  return Array.from(bySourceId.values());
+}
+
+/** Score used for ordering/dedup: DF when available, otherwise the metadata entry. */
+export function primarySimilarity(m: MeasurementScores): number {
+  return (m.byType.df ?? m.entry).similarity;
+}
+
+/**
+ * Product columns holding the per-target PPI data for a measurement.
+ * ppi_* stays the Diffuse Field score so existing queries keep working.
+ */
+export function targetScoreColumns(m: MeasurementScores): Record<string, unknown> {
+  const df = m.byType.df ?? null;
+  const harman = m.byType.harman ?? null;
+
+  return {
+    ppi_score: df?.similarity ?? null,
+    ppi_stdev: df?.stdev ?? null,
+    ppi_slope: df?.slope ?? null,
+    ppi_avg_error: df?.avgError ?? null,
+    ppi_harman_score: harman?.similarity ?? null,
+    ppi_harman_stdev: harman?.stdev ?? null,
+    ppi_harman_slope: harman?.slope ?? null,
+    ppi_harman_avg_error: harman?.avgError ?? null,
+    ppi_targets: m.allTargets,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * store-products.ts
+ *
+ * Turning adapter listings into store_products rows, and the batched upsert
+ * every sync script writes through.
+ */
+
+import { getSupabase } from '../config/retailers.ts';
+import type { CategoryId } from '../config/store-collections.ts';
+import type { StoreProduct } from '../adapters/types.ts';
+import { parseProductVariant, type VariantType } from '../variant-config.ts';
+import { logError } from './log.ts';
+
+export const UPSERT_BATCH_SIZE = 100;
+
+/**
+ * Upsert rows in batches of UPSERT_BATCH_SIZE, logging failed batches
+ * instead of aborting. Returns the number of rows written.
+ */
+export async function upsertInBatches(
+  table: string,
+  rows: Record<string, unknown>[],
+  onConflict: string,
+  phase: string,
+  label: string = table
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const supabase = getSupabase();
+  const totalBatches = Math.ceil(rows.length / UPSERT_BATCH_SIZE);
+  let successCount = 0;
+
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
+    const batchNum = Math.floor(i / UPSERT_BATCH_SIZE) + 1;
+    try {
+      const { error } = await supabase.from(table).upsert(batch, { onConflict });
+      if (error) {
+        logError(phase, `${label} batch ${batchNum}/${totalBatches} failed`, error);
+      } else {
+        successCount += batch.length;
+      }
+    } catch (err) {
+      logError(phase, `${label} batch ${batchNum}/${totalBatches} exception`, err);
+    }
+  }
+
+  return successCount;
+}
+
+export function upsertStoreProducts(rows: Record<string, unknown>[], label: string): Promise<number> {
+  return upsertInBatches('store_products', rows, 'retailer_id,external_id', 'UPSERT', label);
+}
+
+/**
+ * Variant type for a listing, via parseProductVariant on each option
+ * value ("4.4mm" -> cable, "Foam tips" -> tips). Null when nothing matches.
+ */
+export function variantTypeFor(product: StoreProduct): VariantType | null {
+  const values = product.variantOptions
+    ? Object.values(product.variantOptions)
+    : product.variantTitle ? product.variantTitle.split(' / ') : [];
+  for (const value of values) {
+    const { variants } = parseProductVariant(`x (${value.trim()})`);
+    if (variants.length > 0) return variants[0].type;
+  }
+  return null;
+}
+
+/** store_products row for a listing, queued for processing */
+export function toStoreProductRow(
+  product: StoreProduct,
+  retailerId: string,
+  categoryId: CategoryId,
+  affiliateUrl: string
+): Record<string, unknown> {
+  return {
+    retailer_id: retailerId,
+    external_id: product.externalId,
+    product_handle: product.handle,
+    title: product.title,
+    vendor: product.vendor,
+    product_type: product.productType,
+    tags: product.tags,
+    category_id: product.categoryId ?? categoryId,
+    image_url: product.imageUrl,
+    variant_id: product.variantId,
+    variant_title: product.variantTitle,
+    variant_options: product.variantOptions,
+    variant_type: product.variantId ? variantTypeFor(product) : null,
+    price: product.price,
+    compare_at_price: product.compareAtPrice,
+    in_stock: product.inStock,
+    product_url: product.productUrl,
+    affiliate_url: affiliateUrl,
+    raw_data: product.rawData,
+    imported_at: new Date().toISOString(),
+    processed: false,
+  };
+}
@@ -1,16 +1,19 @@
 /**
  * sync-stores-core.ts
  *
- * Shared sync logic extracted from sync-stores.ts.
- * Parameterized by category filter for category-specific pipelines.
+ * Store sync shared by sync-stores.ts and the category-specific pipelines.
+ * Each STORE_COLLECTIONS entry is synced through its platform's
+ * RetailerAdapter (Shopify, WooCommerce, BigCommerce).
  */
 
-import { getSupabase, getRetailers, buildAffiliateUrl, type Retailer } from '../config/retailers.ts';
-import { fetchShopifyCollection, type ShopifyProduct } from '../scrapers/shopify.ts';
+import { getSupabase, getRetailers, type Retailer } from '../config/retailers.ts';
 import { STORE_COLLECTIONS, type CategoryId, type CollectionMapping, type StoreConfig } from '../config/store-collections.ts';
+import { getStoreAdapter, type AdapterContext, type FetchOptions, type RetailerAdapter } from '../adapters/index.ts';
+import { getHttpClient } from './http.ts';
+import { toStoreProductRow, upsertStoreProducts, UPSERT_BATCH_SIZE } from './store-products.ts';
 import { log, logError, delay } from './log.ts';
+import { reportStats } from './run-stats.ts';
 
-const UPSERT_BATCH_SIZE = 100;
 const COLLECTION_DELAY_MS = 400;
 const STORE_CONCURRENCY = 3;
 
@@ -20,148 +23,96 @@ export interface SyncStoresOptions {
   label: string;
 }
 
-function extractPrice(product: ShopifyProduct): {
-  price: number | null;
-  compareAtPrice: number | null;
-  inStock: boolean;
-} {
-  if (!product.variants || product.variants.length === 0) {
-    return { price: null, compareAtPrice: null, inStock: false };
-  }
-
-  let lowestAvailable: number | null = null;
-  let lowestAny: number | null = null;
-  let hasAvailable = false;
-  let bestCompareAt: number | null = null;
-
-  for (const v of product.variants) {
-    const p = parseFloat(v.price);
-    if (isNaN(p) || p <= 0) continue;
-
-    if (lowestAny === null || p < lowestAny) lowestAny = p;
-
-    if (v.available) {
-      hasAvailable = true;
-      if (lowestAvailable === null || p < lowestAvailable) {
-        lowestAvailable = p;
-        // Use compare_at_price from the cheapest available variant
-        if (v.compare_at_price) {
-          const cap = parseFloat(v.compare_at_price);
-          if (!isNaN(cap) && cap > 0) bestCompareAt = cap;
-        }
-      }
-    }
-  }
-
-  // If no available variant had compare_at_price, check cheapest overall
-  if (bestCompareAt === null) {
-    for (const v of product.variants) {
-      if (v.compare_at_price) {
-        const cap = parseFloat(v.compare_at_price);
-        if (!isNaN(cap) && cap > 0 && (bestCompareAt === null || cap > bestCompareAt)) {
-          bestCompareAt = cap;
-        }
-      }
-    }
-  }
-
-  const finalPrice = lowestAvailable ?? lowestAny;
-  // Only keep compare_at_price if it's actually higher than the sale price
-  const validCompareAt = bestCompareAt !== null && finalPrice !== null && bestCompareAt > finalPrice
-    ? bestCompareAt
-    : null;
-
-  return {
-    price: finalPrice,
-    compareAtPrice: validCompareAt,
-    inStock: hasAvailable,
-  };
+function fetchOptions(devMode: boolean): FetchOptions {
+  return devMode ? { maxPages: 1, limit: 100 } : { maxPages: 100, limit: 250 };
 }
 
-async function upsertStoreProducts(
-  rows: Record<string, unknown>[],
+/**
+ * Remove rows replaced by a change in variant layout: the collapsed
+ * handle-keyed row once a product has several variants, or stale
+ * variant rows once a product is back to a single variant.
+ */
+async function pruneReplacedRows(
+  retailerId: string,
+  splitHandles: string[],
+  singleHandles: string[],
   domain: string
-): Promise<number> {
-  if (rows.length === 0) return 0;
-
+): Promise<void> {
   const supabase = getSupabase();
-  let successCount = 0;
 
-  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
-    const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
-    try {
+  for (let i = 0; i < splitHandles.length; i += UPSERT_BATCH_SIZE) {
+    const batch = splitHandles.slice(i, i + UPSERT_BATCH_SIZE);
+    for (const table of ['price_listings', 'store_products']) {
       const { error } = await supabase
-        .from('store_products')
-        .upsert(batch, { onConflict: 'retailer_id,external_id' });
-
-      if (error) {
-        logError('UPSERT', `Batch ${Math.floor(i / UPSERT_BATCH_SIZE) + 1} for ${domain}`, error);
-      } else {
-        successCount += batch.length;
-      }
-    } catch (err) {
-      logError('UPSERT', `Batch exception for ${domain}`, err);
+        .from(table)
+        .delete()
+        .eq('retailer_id', retailerId)
+        .in('external_id', batch);
+      if (error) logError('PRUNE', `${table} collapsed rows for ${domain}`, error);
     }
   }
 
-  return successCount;
+  for (let i = 0; i < singleHandles.length; i += UPSERT_BATCH_SIZE) {
+    const batch = singleHandles.slice(i, i + UPSERT_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('store_products')
+      .delete()
+      .eq('retailer_id', retailerId)
+      .in('product_handle', batch)
+      .not('variant_id', 'is', null)
+      .select('external_id');
+    if (error) {
+      logError('PRUNE', `store_products variant rows for ${domain}`, error);
+      continue;
+    }
+    const staleIds = (data ?? []).map((r) => r.external_id as string);
+    if (staleIds.length > 0) {
+      await supabase.from('price_listings').delete().eq('retailer_id', retailerId).in('external_id', staleIds);
+    }
+  }
 }
 
-async function syncShopifyStore(
-  domain: string,
-  retailer: Retailer,
+async function syncStore(
+  adapter: RetailerAdapter,
+  ctx: AdapterContext,
   collections: CollectionMapping[],
   devMode: boolean
 ): Promise<{ fetched: number; upserted: number }> {
   let totalFetched = 0;
   let totalUpserted = 0;
-  const DEV_LIMIT = 100;
+  const { domain, retailer } = ctx;
 
   for (const mapping of collections) {
-    const maxPages = devMode ? 1 : 100;
-    const limit = devMode ? DEV_LIMIT : 250;
-
-    const products = await fetchShopifyCollection(domain, mapping.handle, {
-      maxPages,
-      limit,
-    });
+    let products: unknown[] = [];
+    try {
+      products = await adapter.fetchProducts(mapping, ctx, fetchOptions(devMode));
+    } catch (err) {
+      logError('SYNC', `${domain}/${mapping.handle}`, err);
+    }
 
     totalFetched += products.length;
 
-    const rows = products.map((p) => {
-      const { price, compareAtPrice, inStock } = extractPrice(p);
-      const productUrl = `https://${domain}/products/${p.handle}`;
-      const affiliateUrl = buildAffiliateUrl(
-        retailer,
-        productUrl,
-        p.handle,
-        String(p.id)
-      );
+    const rows: Record<string, unknown>[] = [];
+    const splitHandles: string[] = [];
+    const singleHandles: string[] = [];
+
+    for (const p of products) {
+      const listings = adapter.normalize(p, ctx);
+      if (listings.length === 0) continue;
 
-      return {
-        retailer_id: retailer.id,
-        external_id: p.handle,
-        title: p.title,
-        vendor: p.vendor || null,
-        product_type: p.product_type || null,
-        tags: p.tags || [],
-        category_id: mapping.categoryId,
-        price,
-        compare_at_price: compareAtPrice,
-        in_stock: inStock,
-        image_url: p.images?.[0]?.src ?? null,
-        product_url: productUrl,
-        affiliate_url: affiliateUrl ?? productUrl,
-        raw_data: {},
-        imported_at: new Date().toISOString(),
-        processed: false,
-      };
-    });
+      if (listings[0].variantId) splitHandles.push(listings[0].handle);
+      else singleHandles.push(listings[0].handle);
+
+      for (const listing of listings) {
+        rows.push(toStoreProductRow(listing, retailer.id, mapping.categoryId, adapter.buildAffiliateUrl(listing, retailer)));
+      }
+    }
 
     const upserted = await upsertStoreProducts(rows, domain);
     totalUpserted += upserted;
+    await pruneReplacedRows(retailer.id, splitHandles, singleHandles, domain);
 
-    log('SYNC', `${domain}/${mapping.handle} (${mapping.categoryId}): ${products.length} fetched, ${upserted} upserted`);
+    log('SYNC', `${domain}/${mapping.handle} (${mapping.categoryId}): ${products.length} fetched (${splitHandles.length} with variants), ${upserted} rows upserted`);
 
     if (collections.indexOf(mapping) < collections.length - 1) {
       await delay(COLLECTION_DELAY_MS);
@@ -177,29 +128,35 @@ async function syncShopifyStore(
  * This does NOT create new store_products -- it only flags existing ones.
  */
 async function syncDealCollections(
-  domain: string,
-  retailer: Retailer,
+  adapter: RetailerAdapter,
+  ctx: AdapterContext,
   dealCollections: string[],
   devMode: boolean
 ): Promise<number> {
   if (dealCollections.length === 0) return 0;
 
   const supabase = getSupabase();
+  const { domain, retailer } = ctx;
   let totalFlagged = 0;
 
   for (const handle of dealCollections) {
-    const maxPages = devMode ? 1 : 100;
-    const limit = devMode ? 100 : 250;
-
-    const products = await fetchShopifyCollection(domain, handle, { maxPages, limit });
+    let products: unknown[] = [];
+    try {
+      // Deal collections only flag rows, so the category is never written
+      products = await adapter.fetchProducts({ handle, categoryId: 'iem' }, ctx, fetchOptions(devMode));
+    } catch (err) {
+      logError('DEALS', `${domain}/${handle}`, err);
+    }
 
     if (products.length === 0) {
       log('DEALS', `${domain}/${handle}: empty collection, skipping`);
       continue;
     }
 
+    const listings = products.flatMap((p) => adapter.normalize(p, ctx));
+
     // Extract handles of products in this deal collection
-    const handles = products.map((p) => p.handle);
+    const handles = [...new Set(listings.map((l) => l.handle))];
 
     // Batch update on_sale flag for matching store_products
     for (let i = 0; i < handles.length; i += UPSERT_BATCH_SIZE) {
@@ -208,7 +165,7 @@ async function syncDealCollections(
         .from('store_products')
         .update({ on_sale: true })
         .eq('retailer_id', retailer.id)
-        .in('external_id', batch)
+        .in('product_handle', batch)
         .select('id');
 
       if (error) {
@@ -219,20 +176,15 @@ async function syncDealCollections(
     }
 
     // Also update compare_at_price for products from deal collections
-    // that might have sale pricing
-    const saleRows = products
-      .map((p) => {
-        const { compareAtPrice } = extractPrice(p);
-        return compareAtPrice ? { handle: p.handle, compareAtPrice } : null;
-      })
-      .filter((r): r is { handle: string; compareAtPrice: number } => r !== null);
+    // that might have sale pricing (per variant row)
+    const saleRows = listings.filter((l) => l.compareAtPrice !== null);
 
     for (const row of saleRows) {
       await supabase
         .from('store_products')
         .update({ compare_at_price: row.compareAtPrice })
         .eq('retailer_id', retailer.id)
-        .eq('external_id', row.handle)
+        .eq('external_id', row.externalId)
         .is('compare_at_price', null); // Don't overwrite if already set
     }
 
@@ -266,7 +218,10 @@ export async function runSyncStores(options: SyncStoresOptions): Promise<void> {
   let storesProcessed = 0;
 
   // Build list of valid store jobs, filtering collections by category
-  const storeJobs: { domain: string; retailer: Retailer; collections: CollectionMapping[] }[] = [];
+  const http = getHttpClient();
+  const contextFor = (domain: string, retailer: Retailer): AdapterContext => ({ domain, retailer, http });
+
+  const storeJobs: { config: StoreConfig; ctx: AdapterContext; collections: CollectionMapping[] }[] = [];
   for (const [domain, config] of storeEntries) {
     const retailer = retailerMap.get(config.retailerId);
     if (!retailer) {
@@ -274,16 +229,28 @@ export async function runSyncStores(options: SyncStoresOptions): Promise<void> {
       continue;
     }
 
-    const filteredCollections = options.categoryFilter
-      ? config.collections.filter((c) => options.categoryFilter!.has(c.categoryId))
-      : config.collections;
-
-    if (filteredCollections.length === 0) {
+    const ctx = contextFor(domain, retailer);
+    const wanted = options.categoryFilter
+      ? { ...config, collections: config.collections.filter((c) => options.categoryFilter!.has(c.categoryId)) }
+      : config;
+    if (wanted.collections.length === 0) {
       log('SKIP', `${domain}: no matching collections for ${options.label}, skipping`);
       continue;
     }
 
-    storeJobs.push({ domain, retailer, collections: filteredCollections });
+    let collections: CollectionMapping[] = [];
+    try {
+      collections = await getStoreAdapter(config).listCollections(wanted, ctx);
+    } catch (err) {
+      logError('SKIP', `${domain}: could not list collections`, err);
+    }
+
+    if (collections.length === 0) {
+      log('SKIP', `${domain}: none of its ${options.label} collections exist on the store, skipping`);
+      continue;
+    }
+
+    storeJobs.push({ config, ctx, collections });
   }
 
   log('INIT', `${storeJobs.length} stores with matching collections`);
@@ -295,9 +262,10 @@ export async function runSyncStores(options: SyncStoresOptions): Promise<void> {
 
     const results = await Promise.all(
       chunk.map(async (job) => {
-        log('STORE', `  Starting ${job.domain} (${job.collections.length} collections)...`);
-        const result = await syncShopifyStore(job.domain, job.retailer, job.collections, options.devMode);
-        log('STORE', `  ${job.domain} complete: ${result.fetched} fetched, ${result.upserted} upserted`);
+        const adapter = getStoreAdapter(job.config);
+        log('STORE', `  Starting ${job.ctx.domain} (${adapter.platform}, ${job.collections.length} collections)...`);
+        const result = await syncStore(adapter, job.ctx, job.collections, options.devMode);
+        log('STORE', `  ${job.ctx.domain} complete: ${result.fetched} fetched, ${result.upserted} upserted`);
         return result;
       })
     );
@@ -313,13 +281,13 @@ export async function runSyncStores(options: SyncStoresOptions): Promise<void> {
   // Deal collection sync: flag on_sale for products in sale/deals collections
   // -------------------------------------------------------------------------
   let totalDealsFlagged = 0;
-  const dealJobs: { domain: string; retailer: Retailer; dealCollections: string[] }[] = [];
+  const dealJobs: { config: StoreConfig; ctx: AdapterContext; dealCollections: string[] }[] = [];
 
   for (const [domain, config] of storeEntries) {
     if (!config.dealCollections || config.dealCollections.length === 0) continue;
     const retailer = retailerMap.get(config.retailerId);
     if (!retailer) continue;
-    dealJobs.push({ domain, retailer, dealCollections: config.dealCollections });
+    dealJobs.push({ config, ctx: contextFor(domain, retailer), dealCollections: config.dealCollections });
   }
 
   if (dealJobs.length > 0) {
@@ -331,14 +299,14 @@ export async function runSyncStores(options: SyncStoresOptions): Promise<void> {
       await getSupabase()
         .from('store_products')
         .update({ on_sale: false })
-        .eq('retailer_id', job.retailer.id)
+        .eq('retailer_id', job.ctx.retailer.id)
         .eq('on_sale', true);
     }
 
     for (const job of dealJobs) {
       const flagged = await syncDealCollections(
-        job.domain,
-        job.retailer,
+        getStoreAdapter(job.config),
+        job.ctx,
         job.dealCollections,
         options.devMode,
       );
@@ -346,6 +314,14 @@ export async function runSyncStores(options: SyncStoresOptions): Promise<void> {
     }
   }
 
+  reportStats({
+    stores: storeJobs.length,
+    storesProcessed,
+    fetched: grandFetched,
+    upserted: grandUpserted,
+    dealsFlagged: totalDealsFlagged,
+  });
+
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log('\n=================================================================');
   console.log(`  STORE SYNC COMPLETE — ${options.label}`);
@@ -0,0 +1,96 @@
+/**
+ * transducer-known-specs.ts
+ *
+ * Known impedance/sensitivity lookup table for well-known IEMs and headphones.
+ * Used as a fallback when store tags don't carry the specs.
+ * Values are the manufacturers' published nominal specs, in the unit they quote.
+ */
+
+export interface KnownTransducerSpecs {
+  impedance_ohms: number;
+  sensitivity_db: number;
+  sensitivity_unit: 'db_mw' | 'db_v';
+}
+
+/**
+ * Regex pattern -> known specs. Ordered most-specific first.
+ * Patterns run against "<brand> <name>", so generic model names
+ * (Aria, Clear, Utopia) are anchored on the brand.
+ */
+export const KNOWN_TRANSDUCER_SPECS: [RegExp, KnownTransducerSpecs][] = [
+  // ── Sennheiser ──
+  [/\bhd\s?660\s?s2\b/i, { impedance_ohms: 300, sensitivity_db: 104, sensitivity_unit: 'db_v' }],
+  [/\bhd\s?660\s?s\b/i, { impedance_ohms: 150, sensitivity_db: 104, sensitivity_unit: 'db_v' }],
+  [/\bhd\s?6xx\b/i, { impedance_ohms: 300, sensitivity_db: 103, sensitivity_unit: 'db_v' }],
+  [/\bhd\s?650\b/i, { impedance_ohms: 300, sensitivity_db: 103, sensitivity_unit: 'db_v' }],
+  [/\bhd\s?600\b/i, { impedance_ohms: 300, sensitivity_db: 97, sensitivity_unit: 'db_v' }],
+  [/\bhd\s?800\s?s\b/i, { impedance_ohms: 300, sensitivity_db: 102, sensitivity_unit: 'db_v' }],
+  [/\bhd\s?560\s?s\b/i, { impedance_ohms: 120, sensitivity_db: 110, sensitivity_unit: 'db_v' }],
+  [/\bhd\s?58x\b/i, { impedance_ohms: 150, sensitivity_db: 104, sensitivity_unit: 'db_v' }],
+  [/\bie\s?600\b/i, { impedance_ohms: 18, sensitivity_db: 118, sensitivity_unit: 'db_v' }],
+  [/\bie\s?300\b/i, { impedance_ohms: 16, sensitivity_db: 125, sensitivity_unit: 'db_v' }],
+
+  // ── Beyerdynamic ──
+  [/\bdt\s?770\b.*\b250\s?(?:ω|Ω|ohm)/i, { impedance_ohms: 250, sensitivity_db: 96, sensitivity_unit: 'db_mw' }],
+  [/\bdt\s?770\b.*\b80\s?(?:ω|Ω|ohm)/i, { impedance_ohms: 80, sensitivity_db: 96, sensitivity_unit: 'db_mw' }],
+  [/\bdt\s?770\b.*\b32\s?(?:ω|Ω|ohm)/i, { impedance_ohms: 32, sensitivity_db: 96, sensitivity_unit: 'db_mw' }],
+  [/\bdt\s?990\s?pro\b/i, { impedance_ohms: 250, sensitivity_db: 96, sensitivity_unit: 'db_mw' }],
+  [/\bdt\s?1990\b/i, { impedance_ohms: 250, sensitivity_db: 102, sensitivity_unit: 'db_v' }],
+
+  // ── HiFiMAN ──
+  [/\bsusvara\b/i, { impedance_ohms: 60, sensitivity_db: 83, sensitivity_unit: 'db_mw' }],
+  [/\bhifiman\b.*\barya\b/i, { impedance_ohms: 32, sensitivity_db: 94, sensitivity_unit: 'db_mw' }],
+  [/\bhifiman\b.*\bananda\b/i, { impedance_ohms: 25, sensitivity_db: 103, sensitivity_unit: 'db_mw' }],
+  [/\bsundara\b/i, { impedance_ohms: 37, sensitivity_db: 94, sensitivity_unit: 'db_mw' }],
+  [/\bedition\s?xs\b/i, { impedance_ohms: 18, sensitivity_db: 92, sensitivity_unit: 'db_mw' }],
+  [/\bhe\s?400\s?se\b/i, { impedance_ohms: 25, sensitivity_db: 91, sensitivity_unit: 'db_mw' }],
+
+  // ── Audeze ──
+  [/\blcd[\s-]?x\b/i, { impedance_ohms: 20, sensitivity_db: 103, sensitivity_unit: 'db_mw' }],
+  [/\blcd[\s-]?2\b/i, { impedance_ohms: 70, sensitivity_db: 101, sensitivity_unit: 'db_mw' }],
+
+  // ── Focal ──
+  [/\bfocal\b.*\butopia\b/i, { impedance_ohms: 80, sensitivity_db: 104, sensitivity_unit: 'db_mw' }],
+  [/\bfocal\b.*\bclear\b/i, { impedance_ohms: 55, sensitivity_db: 104, sensitivity_unit: 'db_mw' }],
+
+  // ── Studio closed-backs ──
+  [/\bmdr[\s-]?7506\b/i, { impedance_ohms: 63, sensitivity_db: 106, sensitivity_unit: 'db_mw' }],
+  [/\bath[\s-]?m50x\b/i, { impedance_ohms: 38, sensitivity_db: 99, sensitivity_unit: 'db_mw' }],
+
+  // ── IEMs ──
+  [/\bmoondrop\b.*\baria\b(?!\s?(?:2|snow))/i, { impedance_ohms: 32, sensitivity_db: 122, sensitivity_unit: 'db_v' }],
+  [/\bmoondrop\b.*\bblessing\s?2\b/i, { impedance_ohms: 22, sensitivity_db: 117, sensitivity_unit: 'db_v' }],
+  [/\btruthear\b.*\bzero\b/i, { impedance_ohms: 17.5, sensitivity_db: 117.5, sensitivity_unit: 'db_v' }],
+];
+
+/**
+ * Look up known transducer specs by brand + product name.
+ * Returns the specs for the first matching pattern, or null.
+ */
+export function lookupKnownTransducerSpecs(
+  productName: string,
+  brand?: string | null
+): KnownTransducerSpecs | null {
+  const lower = `${brand ?? ''} ${productName}`.toLowerCase();
+  for (const [pattern, specs] of KNOWN_TRANSDUCER_SPECS) {
+    if (pattern.test(lower)) {
+      return specs;
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize a sensitivity spec to dB SPL / 1 mW.
+ * 1 V into Z ohms is 1000/Z mW, so dB/mW = dB/V - 10*log10(1000/Z).
+ * Returns null for dB/V without a known impedance.
+ */
+export function toSensitivityDbMw(
+  sensitivityDb: number,
+  unit: 'db_mw' | 'db_v',
+  impedanceOhms: number | null | undefined
+): number | null {
+  if (unit === 'db_mw') return sensitivityDb;
+  if (!impedanceOhms || impedanceOhms <= 0) return null;
+  return Math.round((sensitivityDb - 10 * Math.log10(1000 / impedanceOhms)) * 10) / 10;
+}
@@ -2,14 +2,20 @@
  * link-measurements.ts
  *
  * Daily enrichment: fetches Squig-Rank PPI measurement data and links it
- * to existing products in the database. Products matched get PPI fields
+ * to existing products in the database. Every published target group is
+ * ingested (see lib/squig-rank.ts). Products matched get PPI fields
  * updated and source_type set to 'merged'. Unmatched measurements are
  * inserted as source_type='measurement'.
  *
+ * The raw FR curve of every linked measurement is stored in
+ * frequency_responses, and the target curves in fr_targets, for the
+ * graph on product pages (see lib/frequency-response.ts).
+ *
  * Usage:
- *   SUPABASE_SERVICE_KEY=<key> npx tsx scripts/link-measurements.ts [--dev]
+ *   SUPABASE_SERVICE_KEY=<key> npx tsx scripts/link-measurements.ts [--dev] [--refresh-fr]
  *
- * --dev: Limit to top 100 measurements by PPI score per data file.
+ * --dev:        Limit to top 100 measurements by PPI score per data file.
+ * --refresh-fr: Re-fetch FR curves that are already stored for the same measurement.
  */
 
 import "./lib/env.js";
@@ -17,70 +23,31 @@ import { getSupabase } from './config/retailers.ts';
 import { extractBrand } from './brand-config.ts';
 import { normalizeName, findBestMatch, buildCandidateIndex, findBestMatchIndexed, type IndexedCandidate } from './scrapers/matcher.ts';
 import { parseProductVariant } from './variant-config.ts';
+import {
+  DATA_SOURCES,
+  TARGET_TYPES,
+  collectMeasurements,
+  mergeMeasurements,
+  primarySimilarity,
+  targetScoreColumns,
+  type MeasurementScores,
+  type ResultsFile,
+} from './lib/squig-rank.ts';
+import { fetchMeasurementFr, fetchTargetFr } from './lib/frequency-response.ts';
+import { reportStats } from './lib/run-stats.ts';
 
 const DEV_MODE = process.argv.includes('--dev');
+const REFRESH_FR = process.argv.includes('--refresh-fr');
 const DEV_LIMIT_PER_FILE = 100;
 const BATCH_SIZE = 1000;
 const UPSERT_BATCH_SIZE = 500;
 const MATCH_THRESHOLD = 0.75;
-
-// ---------------------------------------------------------------------------
-// Data sources — same 3 Squig-Rank GitHub files as sync-to-supabase.ts
-// ---------------------------------------------------------------------------
-
-const DATA_SOURCES = [
-  {
-    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results.json',
-    label: 'IEM (711)',
-    targetMatch: 'ISO 11904-2 DF',
-    categoryId: 'iem' as const,
-  },
-  {
-    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results_hp_kb5.json',
-    label: 'HP KB5',
-    targetMatch: 'KEMAR DF',
-    categoryId: 'headphone' as const,
-  },
-  {
-    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results_hp_5128.json',
-    label: 'HP 5128',
-    targetMatch: '5128 DF',
-    categoryId: 'headphone' as const,
-  },
-] as const;
+const FR_FETCH_CONCURRENCY = 8;
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-interface RankedEntry {
-  id: string;
-  name: string;
-  similarity: number;
-  stdev: number;
-  slope: number;
-  avgError: number;
-  price: number | null;
-  quality: 'high' | 'low';
-  sourceDomain: string;
-  type: 'iem' | 'headphone';
-  rig: '711' | '5128';
-  pinna: string | null;
-  firstSeen: string | null;
-  lastSeen: string | null;
-}
-
-interface TargetGroup {
-  targetName: string;
-  ranked: RankedEntry[];
-}
-
-interface ResultsFile {
-  generatedAt: string;
-  totalIEMs: number;
-  results: TargetGroup[];
-}
-
 type ExistingProduct = {
   id: string;
   name: string;
@@ -97,6 +64,20 @@ type Stats = {
   errors: number;
 };
 
+/** A measurement and the product it ended up attached to */
+type LinkedMeasurement = {
+  productId: string;
+  measurement: MeasurementScores;
+};
+
+type FrStats = {
+  stored: number;
+  skipped: number;
+  missing: number;
+  targets: number;
+  errors: number;
+};
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -129,19 +110,6 @@ async function fetchJson<T>(url: string, label: string): Promise<T | null> {
   }
 }
 
-function findDfTarget(data: ResultsFile, matchStr: string, label: string): RankedEntry[] {
-  const matchLower = matchStr.toLowerCase();
-  const group = data.results.find((g) =>
-    g.targetName.toLowerCase().includes(matchLower),
-  );
-  if (!group) {
-    log('PARSE', `WARNING: No target group containing "${matchStr}" found in ${label}. Available: ${data.results.map((g) => g.targetName).join(', ')}`);
-    return [];
-  }
-  log('PARSE', `Found target "${group.targetName}" with ${group.ranked.length} entries in ${label}`);
-  return group.ranked;
-}
-
 // ---------------------------------------------------------------------------
 // Load existing products for matching
 // ---------------------------------------------------------------------------
@@ -187,37 +155,14 @@ async function loadExistingProducts(): Promise<Map<string, ExistingProduct[]>> {
   return byCategory;
 }
 
-// ---------------------------------------------------------------------------
-// Deduplicate measurement entries by source_id, keep highest PPI
-// ---------------------------------------------------------------------------
-
-interface MeasurementEntry {
-  sourceId: string;
-  entry: RankedEntry;
-  categoryId: string;
-}
-
-function deduplicateMeasurements(entries: MeasurementEntry[]): MeasurementEntry[] {
-  const bySourceId = new Map<string, MeasurementEntry>();
-
-  for (const m of entries) {
-    const existing = bySourceId.get(m.sourceId);
-    if (!existing || m.entry.similarity > existing.entry.similarity) {
-      bySourceId.set(m.sourceId, m);
-    }
-  }
-
-  return Array.from(bySourceId.values());
-}
-
 // ---------------------------------------------------------------------------
 // Main processing
 // ---------------------------------------------------------------------------
 
 async function linkMeasurements(
-  measurements: MeasurementEntry[],
+  measurements: MeasurementScores[],
   existingByCategory: Map<string, ExistingProduct[]>
-): Promise<Stats> {
+): Promise<{ stats: Stats; linked: LinkedMeasurement[] }> {
   const supabase = getSupabase();
   const stats: Stats = {
     fetched: measurements.length,
@@ -230,6 +175,8 @@ async function linkMeasurements(
   // Collect updates and inserts for batch processing
   const updates: { id: string; data: Record<string, unknown> }[] = [];
   const inserts: Record<string, unknown>[] = [];
+  const linked: LinkedMeasurement[] = [];
+  const insertedBySourceId = new Map<string, MeasurementScores>();
 
   // Pre-build candidate indices per category
   log('LINK', 'Building candidate indices...');
@@ -285,10 +232,7 @@ async function linkMeasurements(
         updates.push({
           id: match.id,
           data: {
-            ppi_score: entry.similarity,
-            ppi_stdev: entry.stdev,
-            ppi_slope: entry.slope,
-            ppi_avg_error: entry.avgError,
+            ...targetScoreColumns(m),
             source_domain: entry.sourceDomain,
             rig_type: entry.rig,
             pinna: entry.pinna,
@@ -297,6 +241,7 @@ async function linkMeasurements(
             updated_at: new Date().toISOString(),
           },
         });
+        linked.push({ productId: match.id, measurement: m });
         stats.matched++;
       } else {
         inserts.push({
@@ -305,10 +250,7 @@ async function linkMeasurements(
           name: entry.name,
           brand,
           price: entry.price,
-          ppi_score: entry.similarity,
-          ppi_stdev: entry.stdev,
-          ppi_slope: entry.slope,
-          ppi_avg_error: entry.avgError,
+          ...targetScoreColumns(m),
           source_domain: entry.sourceDomain,
           rig_type: entry.rig,
           pinna: entry.pinna,
@@ -320,6 +262,7 @@ async function linkMeasurements(
           in_stock: false,
           updated_at: new Date().toISOString(),
         });
+        insertedBySourceId.set(entry.id, m);
         stats.inserted++;
       }
     } catch (err) {
@@ -358,17 +301,138 @@ async function linkMeasurements(
     log('INSERT', `Upserting ${inserts.length} measurement-only products...`);
     for (let i = 0; i < inserts.length; i += UPSERT_BATCH_SIZE) {
       const batch = inserts.slice(i, i + UPSERT_BATCH_SIZE);
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('products')
-        .upsert(batch, { onConflict: 'source_id' });
+        .upsert(batch, { onConflict: 'source_id' })
+        .select('id, source_id');
 
       if (error) {
         logError('INSERT', `Batch ${Math.floor(i / UPSERT_BATCH_SIZE) + 1}`, error);
         stats.errors++;
+        continue;
+      }
+
+      for (const row of (data ?? []) as { id: string; source_id: string }[]) {
+        const measurement = insertedBySourceId.get(row.source_id);
+        if (measurement) linked.push({ productId: row.id, measurement });
       }
     }
   }
 
+  return { stats, linked };
+}
+
+// ---------------------------------------------------------------------------
+// Frequency-response curves
+// ---------------------------------------------------------------------------
+
+/** measurement_id already stored per product, so unchanged curves are not re-fetched */
+async function loadStoredFrMeasurements(): Promise<Map<string, string>> {
+  const supabase = getSupabase();
+  const stored = new Map<string, string>();
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('frequency_responses')
+      .select('product_id, measurement_id')
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) {
+      logError('FR', `Failed to load stored curves at offset ${offset}`, error);
+      break;
+    }
+
+    const batch = (data ?? []) as { product_id: string; measurement_id: string }[];
+    for (const row of batch) stored.set(row.product_id, row.measurement_id);
+    offset += BATCH_SIZE;
+    if (batch.length < BATCH_SIZE) break;
+  }
+
+  return stored;
+}
+
+async function storeFrequencyResponses(
+  linked: LinkedMeasurement[],
+  targetCategories: Map<string, string>,
+): Promise<FrStats> {
+  const supabase = getSupabase();
+  const stats: FrStats = { stored: 0, skipped: 0, missing: 0, targets: 0, errors: 0 };
+
+  // Target curves: one per Squig-Rank target group
+  log('FR', `Fetching ${targetCategories.size} target curves...`);
+  const targetRows: Record<string, unknown>[] = [];
+  for (const [name, categoryId] of targetCategories) {
+    const curve = await fetchTargetFr(name);
+    if (!curve) {
+      log('FR', `  No curve published for target "${name}"`);
+      continue;
+    }
+    targetRows.push({ name, category_id: categoryId, ...curve, updated_at: new Date().toISOString() });
+  }
+  if (targetRows.length > 0) {
+    const { error } = await supabase.from('fr_targets').upsert(targetRows, { onConflict: 'name' });
+    if (error) {
+      logError('FR', 'Target upsert failed', error);
+      stats.errors++;
+    } else {
+      stats.targets = targetRows.length;
+    }
+  }
+
+  // Measurement curves (a product linked to several measurements keeps the last one)
+  const byProduct = new Map<string, MeasurementScores>();
+  for (const { productId, measurement } of linked) byProduct.set(productId, measurement);
+
+  const stored = REFRESH_FR ? new Map<string, string>() : await loadStoredFrMeasurements();
+  const pending = [...byProduct].filter(([productId, m]) => {
+    if (stored.get(productId) === m.sourceId) {
+      stats.skipped++;
+      return false;
+    }
+    return true;
+  });
+
+  log('FR', `Fetching ${pending.length} measurement curves (${stats.skipped} unchanged, ${FR_FETCH_CONCURRENCY} concurrent)...`);
+
+  for (let i = 0; i < pending.length; i += FR_FETCH_CONCURRENCY) {
+    const chunk = pending.slice(i, i + FR_FETCH_CONCURRENCY);
+    const curves = await Promise.all(
+      chunk.map(([, m]) => fetchMeasurementFr(m.entry, m.categoryId)),
+    );
+
+    const rows: Record<string, unknown>[] = [];
+    chunk.forEach(([productId, m], j) => {
+      const curve = curves[j];
+      if (!curve) {
+        stats.missing++;
+        return;
+      }
+      rows.push({
+        product_id: productId,
+        measurement_id: m.sourceId,
+        source_domain: m.entry.sourceDomain,
+        rig_type: m.entry.rig,
+        ...curve,
+        fetched_at: new Date().toISOString(),
+      });
+    });
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('frequency_responses').upsert(rows, { onConflict: 'product_id' });
+      if (error) {
+        logError('FR', `Upsert failed for chunk at ${i}`, error);
+        stats.errors++;
+      } else {
+        stats.stored += rows.length;
+      }
+    }
+
+    if ((i / FR_FETCH_CONCURRENCY) % 25 === 0) {
+      log('FR', `  ${Math.min(i + FR_FETCH_CONCURRENCY, pending.length)}/${pending.length}`);
+    }
+  }
+
   return stats;
 }
 
@@ -390,32 +454,39 @@ async function main(): Promise<void> {
     DATA_SOURCES.map((src) => fetchJson<ResultsFile>(src.url, src.label)),
   );
 
-  // 2. Extract DF-target entries
-  log('PARSE', 'Extracting DF-target groups...');
-  const allMeasurements: MeasurementEntry[] = [];
+  // 2. Extract every target group, keyed by measurement
+  log('PARSE', 'Extracting target groups...');
+  const allMeasurements: MeasurementScores[] = [];
+  const targetCategories = new Map<string, string>();
 
   for (let i = 0; i < DATA_SOURCES.length; i++) {
     const data = results[i];
     const src = DATA_SOURCES[i];
     if (!data) continue;
 
-    let entries = findDfTarget(data, src.targetMatch, src.label);
+    const { measurements, groups } = collectMeasurements(data, src);
+    for (const group of data.results) targetCategories.set(group.targetName, src.categoryId);
+    log('PARSE', `${src.label}: ${data.results.length} target groups (${data.results.map((g) => g.targetName).join(', ')})`);
+    for (const type of TARGET_TYPES) {
+      const group = groups[type];
+      if (group) {
+        log('PARSE', `  ${type.toUpperCase()} target: "${group.targetName}" with ${group.ranked.length} entries`);
+      } else {
+        log('PARSE', `  WARNING: No target group containing "${src.targets[type]}" found in ${src.label}`);
+      }
+    }
+
+    let entries = measurements;
 
     // Dev mode: take top 100 by PPI score
     if (DEV_MODE && entries.length > DEV_LIMIT_PER_FILE) {
       entries = [...entries]
-        .sort((a, b) => b.similarity - a.similarity)
+        .sort((a, b) => primarySimilarity(b) - primarySimilarity(a))
         .slice(0, DEV_LIMIT_PER_FILE);
       log('PARSE', `  DEV: Limited ${src.label} to top ${DEV_LIMIT_PER_FILE} by PPI`);
     }
 
-    for (const entry of entries) {
-      allMeasurements.push({
-        sourceId: entry.id,
-        entry,
-        categoryId: src.categoryId,
-      });
-    }
+    allMeasurements.push(...entries);
   }
 
   log('PARSE', `Total measurement entries: ${allMeasurements.length}`);
@@ -425,8 +496,8 @@ async function main(): Promise<void> {
     return;
   }
 
-  // 3. Deduplicate by source_id (keep highest PPI)
-  const deduplicated = deduplicateMeasurements(allMeasurements);
+  // 3. Merge by source_id (keep highest PPI per target)
+  const deduplicated = mergeMeasurements(allMeasurements);
   log('DEDUP', `Deduplicated: ${allMeasurements.length} → ${deduplicated.length}`);
 
   // 4. Load existing products for matching
@@ -434,7 +505,11 @@ async function main(): Promise<void> {
 
   // 5. Link measurements to products
   log('LINK', `Linking ${deduplicated.length} measurements to products...`);
-  const stats = await linkMeasurements(deduplicated, existingByCategory);
+  const { stats, linked } = await linkMeasurements(deduplicated, existingByCategory);
+
+  // 6. Store FR curves for linked measurements and their targets
+  const frStats = await storeFrequencyResponses(linked, targetCategories);
+  reportStats({ ...stats, fr: frStats });
 
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log('\n=================================================================');
@@ -446,6 +521,9 @@ async function main(): Promise<void> {
   console.log(`  Matched (merged):   ${stats.matched}`);
   console.log(`  Inserted (new):     ${stats.inserted}`);
   console.log(`  Errors:             ${stats.errors}`);
+  console.log(`  FR curves stored:   ${frStats.stored} (${frStats.skipped} unchanged, ${frStats.missing} not found)`);
+  console.log(`  FR targets stored:  ${frStats.targets}`);
+  console.log(`  FR errors:          ${frStats.errors}`);
   console.log(`  Mode:               ${DEV_MODE ? 'DEV (limited)' : 'FULL'}`);
   console.log('=================================================================\n');
 }
@@ -18,6 +18,7 @@
 import "./lib/env.js";
 import { getSupabase } from './config/retailers.ts';
 import { extractBrand } from './brand-config.ts';
+import { reportStats } from './lib/run-stats.ts';
 import {
   normalizeName,
   buildCandidateIndex,
@@ -563,6 +564,7 @@ async function main(): Promise<void> {
   // 4. Link SINAD data to products
   log('LINK', `Linking ${records.length} ASR records to products...`);
   const stats = await linkSinad(records, existingByCategory);
+  reportStats({ records: records.length, ...stats });
 
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log('\n=================================================================');
@@ -254,38 +254,6 @@ async function main() {
     }
   }
 
-  // Step 3: Denormalize prices for affected winners
-  if (!dryRun && totalListingsMoved > 0) {
-    console.log('\nDenormalizing lowest prices for merged products...');
-    const winnerIds = dupes.slice(0, limit).map(([, products]) => pickWinner(products).id);
-    const uniqueWinnerIds = [...new Set(winnerIds)];
-
-    for (let i = 0; i < uniqueWinnerIds.length; i += 50) {
-      const batch = uniqueWinnerIds.slice(i, i + 50);
-      for (const productId of batch) {
-        const { data: listings } = await supabase
-          .from('price_listings')
-          .select('price, affiliate_url, product_url, in_stock')
-          .eq('product_id', productId)
-          .eq('in_stock', true)
-          .order('price', { ascending: true })
-          .limit(1);
-
-        if (listings && listings.length > 0) {
-          const best = listings[0];
-          await supabase
-            .from('products')
-            .update({
-              price: best.price,
-              affiliate_url: best.affiliate_url ?? best.product_url,
-              in_stock: true,
-            })
-            .eq('id', productId);
-        }
-      }
-    }
-  }
-
   console.log(`\n=================================================================`);
   console.log(`  MERGE COMPLETE ${dryRun ? '(DRY RUN)' : ''}`);
   console.log(`  Groups merged: ${totalMerged}`);
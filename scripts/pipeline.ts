@@ -0,0 +1,318 @@
+/**
+ * pipeline.ts
+ *
+ * Runs the daily sync as a graph of steps instead of an `&&` chain. Each
+ * step is a script run in its own process; a failed step skips only the
+ * steps that depend on it. Every run is recorded in pipeline_runs with the
+ * stats each script reports (see lib/run-stats.ts), and shows up on the
+ * admin dashboard.
+ *
+ * Usage:
+ *   SUPABASE_SERVICE_KEY=<key> npx tsx scripts/pipeline.ts [options]
+ *
+ * Options:
+ *   --from=<step>     Start at this step (earlier steps are not run)
+ *   --only=<a,b>      Run only these steps
+ *   --retry[=<id>]    Re-run the failed and skipped steps of a run (default: latest)
+ *   --attempts=N      Tries per step before it counts as failed (default: 1)
+ *   --dry-run         Print the plan without running anything
+ *   --list            List the steps and their dependencies
+ */
+
+import "./lib/env.js";
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { getSupabase } from './config/retailers.ts';
+import { log, logError, delay } from './lib/log.ts';
+
+// ---------------------------------------------------------------------------
+// Steps
+// ---------------------------------------------------------------------------
+
+type StepDef = {
+  name: string;
+  script: string;
+  args: string[];
+  deps: string[];
+};
+
+/** In run order; every dependency appears before its dependents */
+const STEPS: StepDef[] = [
+  { name: 'sync-stores', script: 'sync-stores.ts', args: [], deps: [] },
+  { name: 'sync-aliexpress', script: 'aliexpress-sync.ts', args: ['--mode=daily', '--budget=4500'], deps: [] },
+  { name: 'process-store-products', script: 'process-store-products.ts', args: [], deps: ['sync-stores', 'sync-aliexpress'] },
+  { name: 'link-measurements', script: 'link-measurements.ts', args: [], deps: ['process-store-products'] },
+  { name: 'link-sinad', script: 'link-sinad.ts', args: [], deps: ['process-store-products'] },
+  { name: 'sync-prices', script: 'sync-prices.ts', args: ['--skip-amazon'], deps: ['process-store-products'] },
+  {
+    name: 'sync-amazon',
+    script: 'amazon-bulk-sync.ts',
+    args: ['--mode=daily', '--time-budget=300', '--concurrency=6', '--delay=3000'],
+    deps: ['process-store-products'],
+  },
+  { name: 'snapshot-prices', script: 'snapshot-prices.ts', args: [], deps: ['sync-prices'] },
+  { name: 'check-price-watches', script: 'check-price-watches.ts', args: [], deps: ['snapshot-prices'] },
+];
+
+const STEP_NAMES = new Set(STEPS.map((s) => s.name));
+const RETRY_DELAY_MS = 30_000;
+const SCRIPTS_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+type StepStatus = 'succeeded' | 'failed' | 'skipped';
+type RunStatus = 'running' | 'succeeded' | 'failed' | 'partial';
+
+/** One entry of pipeline_runs.steps */
+type StepResult = {
+  name: string;
+  status: StepStatus;
+  started_at: string | null;
+  finished_at: string | null;
+  duration_ms: number;
+  attempts: number;
+  exit_code: number | null;
+  stats: Record<string, unknown> | null;
+  error: string | null;
+};
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | null {
+  const prefix = `--${name}=`;
+  const arg = args.find((a) => a.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : null;
+}
+
+const FROM = getArg('from');
+const ONLY = getArg('only')?.split(',').map((s) => s.trim()).filter(Boolean) ?? null;
+const RETRY = args.includes('--retry') || getArg('retry') !== null;
+const RETRY_ID = getArg('retry');
+const ATTEMPTS = Math.max(1, parseInt(getArg('attempts') ?? '1', 10) || 1);
+const DRY_RUN = args.includes('--dry-run');
+const LIST = args.includes('--list');
+
+function assertKnownSteps(names: string[], flag: string): void {
+  const unknown = names.filter((n) => !STEP_NAMES.has(n));
+  if (unknown.length > 0) {
+    console.error(`Unknown step(s) for --${flag}: ${unknown.join(', ')}`);
+    console.error(`Steps: ${STEPS.map((s) => s.name).join(', ')}`);
+    process.exit(1);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Run history
+// ---------------------------------------------------------------------------
+
+async function loadRetryTarget(): Promise<{ id: string; steps: StepResult[] }> {
+  const supabase = getSupabase();
+  let query = supabase.from('pipeline_runs').select('id, steps, status');
+  query = RETRY_ID ? query.eq('id', RETRY_ID) : query.order('started_at', { ascending: false }).limit(1);
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load pipeline run: ${error.message}`);
+  const run = data?.[0];
+  if (!run) throw new Error(RETRY_ID ? `No pipeline run ${RETRY_ID}` : 'No previous pipeline run to retry');
+  return { id: run.id as string, steps: (run.steps ?? []) as StepResult[] };
+}
+
+async function insertRun(retryOf: string | null): Promise<string | null> {
+  const { data, error } = await getSupabase()
+    .from('pipeline_runs')
+    .insert({ status: 'running', args, retry_of: retryOf })
+    .select('id')
+    .single();
+  if (error) {
+    logError('RUN', 'Could not record run in pipeline_runs (continuing without history)', error);
+    return null;
+  }
+  return data.id as string;
+}
+
+async function updateRun(runId: string | null, steps: StepResult[], status: RunStatus): Promise<void> {
+  if (!runId) return;
+  const { error } = await getSupabase()
+    .from('pipeline_runs')
+    .update({
+      steps,
+      status,
+      finished_at: status === 'running' ? null : new Date().toISOString(),
+    })
+    .eq('id', runId);
+  if (error) logError('RUN', `Could not update pipeline run ${runId}`, error);
+}
+
+function runStatus(results: StepResult[]): RunStatus {
+  const succeeded = results.filter((r) => r.status === 'succeeded').length;
+  if (succeeded === results.length) return 'succeeded';
+  return succeeded === 0 ? 'failed' : 'partial';
+}
+
+// ---------------------------------------------------------------------------
+// Step execution
+// ---------------------------------------------------------------------------
+
+/** Run a script under the same tsx loader as this process; resolves to its exit code */
+function runScript(step: StepDef, statsFile: string): Promise<number> {
+  return new Promise((resolve) => {
+    const child = spawn(
+      process.execPath,
+      [...process.execArgv, path.join(SCRIPTS_DIR, step.script), ...step.args],
+      { stdio: 'inherit', env: { ...process.env, PIPELINE_STATS_FILE: statsFile } },
+    );
+    child.on('error', (err) => {
+      logError(step.name, 'Failed to start', err);
+      resolve(1);
+    });
+    child.on('exit', (code, signal) => resolve(code ?? (signal ? 1 : 0)));
+  });
+}
+
+function readStats(statsFile: string): Record<string, unknown> | null {
+  if (!fs.existsSync(statsFile)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(statsFile, 'utf-8')) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+async function runStep(step: StepDef, statsFile: string): Promise<StepResult> {
+  const startedAt = new Date();
+  let exitCode = 0;
+  let attempts = 0;
+
+  while (attempts < ATTEMPTS) {
+    attempts++;
+    fs.rmSync(statsFile, { force: true });
+    log(step.name, `Starting (attempt ${attempts}/${ATTEMPTS}): ${step.script} ${step.args.join(' ')}`.trimEnd());
+    exitCode = await runScript(step, statsFile);
+    if (exitCode === 0) break;
+    log(step.name, `Exited with code ${exitCode}`);
+    if (attempts < ATTEMPTS) await delay(RETRY_DELAY_MS);
+  }
+
+  const finishedAt = new Date();
+  const stats = readStats(statsFile);
+  fs.rmSync(statsFile, { force: true });
+
+  return {
+    name: step.name,
+    status: exitCode === 0 ? 'succeeded' : 'failed',
+    started_at: startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: finishedAt.getTime() - startedAt.getTime(),
+    attempts,
+    exit_code: exitCode,
+    stats,
+    error: exitCode === 0 ? null : `exit code ${exitCode}`,
+  };
+}
+
+function skippedStep(name: string, reason: string): StepResult {
+  return {
+    name,
+    status: 'skipped',
+    started_at: null,
+    finished_at: null,
+    duration_ms: 0,
+    attempts: 0,
+    exit_code: null,
+    stats: null,
+    error: reason,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  return s >= 60 ? `${Math.floor(s / 60)}m${String(s % 60).padStart(2, '0')}s` : `${s}s`;
+}
+
+async function selectSteps(): Promise<{ steps: StepDef[]; retryOf: string | null }> {
+  if (RETRY) {
+    const previous = await loadRetryTarget();
+    const rerun = new Set(previous.steps.filter((s) => s.status !== 'succeeded').map((s) => s.name));
+    log('PLAN', `Retrying run ${previous.id}: ${rerun.size > 0 ? [...rerun].join(', ') : 'nothing failed'}`);
+    return { steps: STEPS.filter((s) => rerun.has(s.name)), retryOf: previous.id };
+  }
+  if (ONLY) {
+    assertKnownSteps(ONLY, 'only');
+    return { steps: STEPS.filter((s) => ONLY.includes(s.name)), retryOf: null };
+  }
+  if (FROM) {
+    assertKnownSteps([FROM], 'from');
+    return { steps: STEPS.slice(STEPS.findIndex((s) => s.name === FROM)), retryOf: null };
+  }
+  return { steps: STEPS, retryOf: null };
+}
+
+async function main(): Promise<void> {
+  if (LIST) {
+    for (const step of STEPS) {
+      console.log(`  ${step.name.padEnd(24)} ${step.deps.length > 0 ? `after ${step.deps.join(', ')}` : '(no dependencies)'}`);
+    }
+    return;
+  }
+
+  const startTime = Date.now();
+  console.log('=================================================================');
+  console.log('  AudioList Sync Pipeline');
+  console.log(`  Started at ${new Date().toISOString()}`);
+  console.log('=================================================================\n');
+
+  const { steps, retryOf } = await selectSteps();
+  log('PLAN', steps.map((s) => s.name).join(' -> ') || '(no steps)');
+  if (DRY_RUN || steps.length === 0) return;
+
+  const runId = await insertRun(retryOf);
+  if (runId) log('RUN', `Recording as pipeline run ${runId}`);
+
+  // Dependencies outside this run's selection are assumed to be satisfied
+  const selected = new Set(steps.map((s) => s.name));
+  const results: StepResult[] = [];
+  const outcome = new Map<string, StepStatus>();
+
+  for (const step of steps) {
+    const blockedBy = step.deps.filter((d) => selected.has(d) && outcome.get(d) !== 'succeeded');
+    const result = blockedBy.length > 0
+      ? skippedStep(step.name, `dependency did not succeed: ${blockedBy.join(', ')}`)
+      : await runStep(step, path.join(os.tmpdir(), `pipeline-${runId ?? process.pid}-${step.name}.json`));
+
+    if (result.status === 'skipped') log(step.name, `Skipped (${result.error})`);
+    else log(step.name, `${result.status} in ${formatDuration(result.duration_ms)}`);
+
+    results.push(result);
+    outcome.set(step.name, result.status);
+    await updateRun(runId, results, 'running');
+  }
+
+  const status = runStatus(results);
+  await updateRun(runId, results, status);
+
+  console.log('\n=================================================================');
+  console.log(`  PIPELINE ${status.toUpperCase()}`);
+  console.log('=================================================================');
+  for (const r of results) {
+    const detail = r.status === 'skipped' ? r.error : `${formatDuration(r.duration_ms)}${r.attempts > 1 ? `, ${r.attempts} attempts` : ''}`;
+    console.log(`  ${r.name.padEnd(24)} ${r.status.padEnd(10)} ${detail}`);
+  }
+  console.log(`  Duration: ${formatDuration(Date.now() - startTime)}`);
+  if (runId && status !== 'succeeded') console.log(`  Resume with: npx tsx scripts/pipeline.ts --retry=${runId}`);
+  console.log('=================================================================\n');
+
+  if (status !== 'succeeded') process.exit(1);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
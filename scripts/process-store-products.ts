@@ -2,7 +2,8 @@
  * process-store-products.ts
  *
  * Processes unprocessed store_products: extracts brand, deduplicates across stores,
- * creates/updates products and price_listings, denormalizes lowest price.
+ * creates/updates products and price_listings (the database rolls the lowest
+ * listing up onto products.price).
  *
  * Usage:
  *   SUPABASE_SERVICE_KEY=<key> npx tsx scripts/process-store-products.ts [--dev]
@@ -12,7 +13,10 @@
 
 import "./lib/env.js";
 import { getSupabase, buildAffiliateUrl, getRetailers, type Retailer } from './config/retailers.ts';
+import { getExchangeRates, toUsd, type ExchangeRates } from './lib/currency.ts';
 import { extractBrand } from './brand-config.ts';
+import { reportStats } from './lib/run-stats.ts';
+import { publishListings } from './lib/price-guard.ts';
 import { normalizeName, diceCoefficient, findBestMatch, buildCandidateIndex, findBestMatchIndexed, type IndexedCandidate } from './scrapers/matcher.ts';
 
 const DEV_MODE = process.argv.includes('--dev');
@@ -28,6 +32,10 @@ type StoreProduct = {
   id: string;
   retailer_id: string;
   external_id: string;
+  product_handle: string | null;
+  variant_id: string | null;
+  variant_title: string | null;
+  variant_options: Record<string, string> | null;
   title: string;
   vendor: string | null;
   product_type: string | null;
@@ -54,6 +62,7 @@ type Stats = {
   skipped: number;
   errors: number;
   listingsCreated: number;
+  quarantined: number;
 };
 
 function timestamp(): string {
@@ -84,7 +93,7 @@ async function loadUnprocessed(): Promise<StoreProduct[]> {
   while (true) {
     let query = supabase
       .from('store_products')
-      .select('id, retailer_id, external_id, title, vendor, product_type, tags, category_id, price, in_stock, image_url, product_url, affiliate_url')
+      .select('id, retailer_id, external_id, product_handle, variant_id, variant_title, variant_options, title, vendor, product_type, tags, category_id, price, in_stock, image_url, product_url, affiliate_url')
       .eq('processed', false)
       .not('category_id', 'is', null)
       .range(offset, offset + BATCH_SIZE - 1);
@@ -193,7 +202,8 @@ function extractStoreBrand(sp: StoreProduct): string | null {
 async function processStoreProducts(
   storeProducts: StoreProduct[],
   existingByCategory: Map<string, ExistingProduct[]>,
-  retailerMap: Map<string, Retailer>
+  retailerMap: Map<string, Retailer>,
+  rates: ExchangeRates
 ): Promise<Stats> {
   const supabase = getSupabase();
   const stats: Stats = {
@@ -203,6 +213,7 @@ async function processStoreProducts(
     skipped: 0,
     errors: 0,
     listingsCreated: 0,
+    quarantined: 0,
   };
 
   const listingRows: Record<string, unknown>[] = [];
@@ -282,11 +293,12 @@ async function processStoreProducts(
         const { data: newProduct, error: insertError } = await supabase
           .from('products')
           .insert({
-            source_id: `store:${sp.retailer_id}:${sp.external_id}`,
+            source_id: `store:${sp.retailer_id}:${sp.product_handle ?? sp.external_id}`,
             category_id: categoryId,
             name: sp.title,
             brand,
-            price: sp.price,
+            // products.price is always USD; store prices are in the retailer's currency
+            price: sp.price != null ? toUsd(sp.price, retailer?.currency, rates) : null,
             image_url: sp.image_url,
             affiliate_url: sp.affiliate_url ?? sp.product_url,
             source_type: 'store',
@@ -300,7 +312,7 @@ async function processStoreProducts(
             const { data: existing } = await supabase
               .from('products')
               .select('id')
-              .eq('source_id', `store:${sp.retailer_id}:${sp.external_id}`)
+              .eq('source_id', `store:${sp.retailer_id}:${sp.product_handle ?? sp.external_id}`)
               .single();
 
             if (existing) {
@@ -354,8 +366,11 @@ async function processStoreProducts(
           product_id: canonicalProductId,
           retailer_id: sp.retailer_id,
           external_id: sp.external_id,
+          variant_id: sp.variant_id,
+          variant_title: sp.variant_title,
+          variant_options: sp.variant_options,
           price: sp.price,
-          currency: 'USD',
+          currency: retailer?.currency ?? 'USD',
           in_stock: sp.in_stock,
           product_url: sp.product_url,
           affiliate_url: sp.affiliate_url ?? sp.product_url,
@@ -412,19 +427,11 @@ async function processStoreProducts(
     return [...map.values()];
   })();
 
-  // Batch upsert price_listings
+  // Batch upsert price_listings, holding back suspicious prices
   if (dedupedListings.length > 0) {
     log('UPSERT', `Upserting ${dedupedListings.length} price_listings (deduped from ${listingRows.length})...`);
-    for (let i = 0; i < dedupedListings.length; i += UPSERT_BATCH_SIZE) {
-      const batch = dedupedListings.slice(i, i + UPSERT_BATCH_SIZE);
-      const { error } = await supabase
-        .from('price_listings')
-        .upsert(batch, { onConflict: 'retailer_id,external_id' });
-
-      if (error) {
-        logError('UPSERT', 'price_listings batch', error);
-      }
-    }
+    const { quarantined } = await publishListings(dedupedListings, 'retailer_id,external_id', 'UPSERT');
+    stats.quarantined += quarantined;
   }
 
   // Deduplicate product_matches by (product_id, retailer_id)
@@ -455,87 +462,6 @@ async function processStoreProducts(
   return stats;
 }
 
-/**
- * Denormalize lowest in-stock price onto products table.
- * Reuses logic from sync-prices.ts Phase D.
- */
-async function denormalizeLowestPrices(): Promise<number> {
-  const supabase = getSupabase();
-  const PAGE_SIZE = 1000;
-
-  log('DENORM', 'Finding lowest in-stock price per product...');
-
-  const listings: { product_id: string; price: number; affiliate_url: string | null; product_url: string | null }[] = [];
-  let offset = 0;
-
-  while (true) {
-    const { data, error } = await supabase
-      .from('price_listings')
-      .select('product_id, price, affiliate_url, product_url')
-      .eq('in_stock', true)
-      .order('price', { ascending: true })
-      .range(offset, offset + PAGE_SIZE - 1);
-
-    if (error) {
-      logError('DENORM', 'Failed to fetch price_listings', error);
-      return 0;
-    }
-
-    if (!data || data.length === 0) break;
-    listings.push(...data);
-    offset += data.length;
-    if (data.length < PAGE_SIZE) break;
-  }
-
-  if (listings.length === 0) {
-    log('DENORM', 'No in-stock listings found.');
-    return 0;
-  }
-
-  log('DENORM', `Fetched ${listings.length} in-stock listings`);
-
-  // Group by product_id, keep lowest price
-  const lowestByProduct = new Map<string, { price: number; affiliate_url: string | null }>();
-  for (const listing of listings) {
-    const existing = lowestByProduct.get(listing.product_id);
-    if (!existing || listing.price < existing.price) {
-      lowestByProduct.set(listing.product_id, {
-        price: listing.price,
-        affiliate_url: listing.affiliate_url ?? listing.product_url,
-      });
-    }
-  }
-
-  log('DENORM', `Updating ${lowestByProduct.size} products with lowest prices...`);
-
-  let updatedCount = 0;
-  const entries = Array.from(lowestByProduct.entries());
-  const DENORM_CONCURRENCY = 25;
-
-  for (let i = 0; i < entries.length; i += DENORM_CONCURRENCY) {
-    const chunk = entries.slice(i, i + DENORM_CONCURRENCY);
-    const results = await Promise.all(
-      chunk.map(([productId, info]) =>
-        supabase
-          .from('products')
-          .update({ price: info.price, affiliate_url: info.affiliate_url, in_stock: true })
-          .eq('id', productId)
-      )
-    );
-
-    for (let j = 0; j < results.length; j++) {
-      if (results[j].error) {
-        logError('DENORM', `Failed to update product ${chunk[j][0]}`, results[j].error);
-      } else {
-        updatedCount++;
-      }
-    }
-  }
-
-  log('DENORM', `Updated ${updatedCount} products`);
-  return updatedCount;
-}
-
 async function main(): Promise<void> {
   const startTime = Date.now();
   console.log('=================================================================');
@@ -547,11 +473,13 @@ async function main(): Promise<void> {
   // Load retailers
   const retailers = await getRetailers();
   const retailerMap = new Map(retailers.map((r) => [r.id, r]));
+  const rates = await getExchangeRates();
 
   // Load unprocessed store products
   const storeProducts = await loadUnprocessed();
   if (storeProducts.length === 0) {
     log('DONE', 'No unprocessed store products. Nothing to do.');
+    reportStats({ storeProducts: 0 });
     return;
   }
 
@@ -560,11 +488,9 @@ async function main(): Promise<void> {
 
   // Process
   log('PROCESS', `Processing ${storeProducts.length} store products...`);
-  const stats = await processStoreProducts(storeProducts, existingByCategory, retailerMap);
+  const stats = await processStoreProducts(storeProducts, existingByCategory, retailerMap, rates);
 
-  // Denormalize prices
-  console.log('\n--- Denormalize Lowest Prices ---\n');
-  const denormalized = await denormalizeLowestPrices();
+  reportStats({ storeProducts: storeProducts.length, ...stats });
 
   const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log('\n=================================================================');
@@ -578,7 +504,7 @@ async function main(): Promise<void> {
   console.log(`  Skipped:            ${stats.skipped}`);
   console.log(`  Errors:             ${stats.errors}`);
   console.log(`  Listings created:   ${stats.listingsCreated}`);
-  console.log(`  Prices denormalized: ${denormalized}`);
+  console.log(`  Quarantined:        ${stats.quarantined}`);
   console.log('=================================================================\n');
 }
 
@@ -8,7 +8,7 @@
  * Usage: npx tsx scripts/reprocess-pending-matches.ts [--dev] [--threshold 0.78]
  */
 
-import { getSupabase } from './config/retailers.ts';
+import { getSupabase, getRetailers } from './config/retailers.ts';
 import {
   normalizeName,
   buildCandidateIndex,
@@ -73,6 +73,9 @@ async function main() {
   console.log(`Loaded ${pending.length} pending matches`);
   if (pending.length === 0) return;
 
+  // Listings are stored in the retailer's catalog currency
+  const retailerCurrency = new Map((await getRetailers()).map((r) => [r.id, r.currency]));
+
   // Step 2: Load existing products for re-matching (include brand for brand-aware scoring)
   const productsByCategory = new Map<string, { id: string; name: string; category_id: string; brand: string | null }[]>();
   let pOffset = 0;
@@ -173,7 +176,7 @@ async function main() {
         retailer_id: pm.retailer_id,
         external_id: pm.external_id,
         price: pm.external_price,
-        currency: 'USD',
+        currency: retailerCurrency.get(pm.retailer_id) ?? 'USD',
         in_stock: true,
         product_url: null, // We don't have the URL in product_matches
         affiliate_url: null,
@@ -307,34 +310,6 @@ async function main() {
     }
   }
 
-  // Step 6: Denormalize lowest prices for approved products
-  if (autoApproved > 0) {
-    console.log('\nDenormalizing lowest prices for approved products...');
-    const approvedProductIds = [...new Set(pending.filter((pm) => approvedIds.includes(pm.id)).map((pm) => pm.product_id))];
-
-    for (const productId of approvedProductIds) {
-      const { data: listings } = await supabase
-        .from('price_listings')
-        .select('price, affiliate_url, product_url, in_stock')
-        .eq('product_id', productId)
-        .eq('in_stock', true)
-        .order('price', { ascending: true })
-        .limit(1);
-
-      if (listings && listings.length > 0) {
-        const best = listings[0];
-        await supabase
-          .from('products')
-          .update({
-            price: best.price,
-            affiliate_url: best.affiliate_url ?? best.product_url,
-            in_stock: true,
-          })
-          .eq('id', productId);
-      }
-    }
-  }
-
   console.log(`\n=================================================================`);
   console.log('  REPROCESSING COMPLETE');
   console.log(`  Pending matches processed: ${limit}`);
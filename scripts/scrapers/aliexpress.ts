@@ -11,12 +11,14 @@
  * Rate limit: 5,000 requests/day (affiliate tier).
  *
  * Exports:
- *   - createAliExpressClient(config)  -- factory for the API client
+ *   - createAliExpressClient(config, http?)  -- factory for the API client
  *   - AliExpressProduct type          -- product data from API responses
  *   - AliExpressConfig type           -- API credentials
  */
 
 import crypto from 'crypto';
+import { delay } from '../lib/log.ts';
+import type { HttpClient } from '../lib/http.ts';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -164,11 +166,10 @@ const DAILY_LIMIT = 5000;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 2000;
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-export function createAliExpressClient(config: AliExpressConfig): AliExpressClient {
+export function createAliExpressClient(
+  config: AliExpressConfig,
+  http: HttpClient = fetch,
+): AliExpressClient {
   let callCount = 0;
   let lastResetDate = new Date().toISOString().slice(0, 10);
 
@@ -207,7 +208,7 @@ export function createAliExpressClient(config: AliExpressConfig): AliExpressClie
     for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
       try {
         callCount++;
-        const response = await fetch(API_ENDPOINT, {
+        const response = await http(API_ENDPOINT, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded;charset=utf-8',
@@ -10,9 +10,11 @@
  *   - createAmazonPage()      — create an isolated page with its own context
  *   - getBrowser/closeBrowser  — manage shared Chromium instance
  *   - batchSearchAmazon()     — sequential batch with rate limiting
+ *   - parseAmazonSearchHtml() — extract results from saved page HTML (fixtures)
  */
 
 import { chromium, type Browser, type BrowserContext, type Page } from "playwright";
+import { delay } from "../lib/log.ts";
 
 export type { Page, BrowserContext };
 
@@ -47,10 +49,6 @@ function nextUserAgent(): string {
   return ua;
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 let browserInstance: Browser | null = null;
 
 /**
@@ -180,6 +178,24 @@ async function extractSearchResults(page: Page, maxResults: number): Promise<Raw
   );
 }
 
+export function amazonSearchUrl(query: string): string {
+  return `https://www.amazon.com/s?k=${encodeURIComponent(query)}&i=electronics`;
+}
+
+/**
+ * Extract results from a saved search results page (see adapters/amazon.ts
+ * fixtures). Loads the HTML into `page` without network access.
+ */
+export async function parseAmazonSearchHtml(
+  page: Page,
+  html: string,
+  maxResults: number
+): Promise<AmazonProduct[]> {
+  await page.setContent(html, { waitUntil: "domcontentloaded" });
+  const raw = await extractSearchResults(page, maxResults);
+  return raw.map((p) => ({ ...p, manufacturer: null }));
+}
+
 // ---------------------------------------------------------------------------
 // Create isolated Amazon page (for bulk workers)
 // ---------------------------------------------------------------------------
@@ -229,8 +245,7 @@ export async function searchAmazonWithPage(
   const affiliateTag = options?.affiliateTag ?? null;
 
   try {
-    const encodedQuery = encodeURIComponent(query);
-    const searchUrl = `https://www.amazon.com/s?k=${encodedQuery}&i=electronics`;
+    const searchUrl = amazonSearchUrl(query);
 
     const response = await page.goto(searchUrl, {
       waitUntil: "domcontentloaded",
@@ -308,8 +323,7 @@ export async function searchAmazon(
         "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
     });
 
-    const encodedQuery = encodeURIComponent(query);
-    const searchUrl = `https://www.amazon.com/s?k=${encodedQuery}&i=electronics`;
+    const searchUrl = amazonSearchUrl(query);
 
     const response = await page.goto(searchUrl, {
       waitUntil: "domcontentloaded",
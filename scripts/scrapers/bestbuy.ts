@@ -1,3 +1,5 @@
+import type { HttpClient } from "../lib/http.ts";
+
 export type BestBuyProduct = {
   sku: number;
   name: string;
@@ -13,16 +15,19 @@ export type BestBuyProduct = {
 
 export async function searchBestBuy(
   query: string,
-  apiKey: string
+  apiKey: string,
+  options?: { pageSize?: number; http?: HttpClient }
 ): Promise<BestBuyProduct[]> {
+  const pageSize = options?.pageSize ?? 10;
+  const http = options?.http ?? fetch;
   const encodedQuery = encodeURIComponent(query);
   const filter = `(search=${encodedQuery}&categoryPath.name="Headphones"|categoryPath.name="Portable Audio"|categoryPath.name="Microphones")`;
   const fields =
     "show=sku,name,salePrice,regularPrice,onlineAvailability,url,affiliateUrl,image,manufacturer,modelNumber";
-  const url = `https://api.bestbuy.com/v1/products${filter}?${fields}&pageSize=10&format=json&apiKey=${apiKey}`;
+  const url = `https://api.bestbuy.com/v1/products${filter}?${fields}&pageSize=${pageSize}&format=json&apiKey=${apiKey}`;
 
   try {
-    const response = await fetch(url, {
+    const response = await http(url, {
       headers: { "User-Agent": "AudioList Price Checker/1.0" },
     });
 
@@ -1,3 +1,6 @@
+import { delay } from "../lib/log.ts";
+import type { HttpClient } from "../lib/http.ts";
+
 export type ShopifyProduct = {
   id: number;
   title: string;
@@ -12,16 +15,94 @@ export type ShopifyProduct = {
     compare_at_price: string | null;
     available: boolean;
     sku: string | null;
+    option1?: string | null;
+    option2?: string | null;
+    option3?: string | null;
   }>;
+  options?: Array<{ name: string; position: number; values: string[] }>;
   images: Array<{ src: string }>;
 };
 
-const USER_AGENT = "AudioList Price Checker/1.0";
+/** One purchasable listing from a Shopify product (a variant, or the whole product). */
+export type ShopifyListing = {
+  /** '<handle>' for single-variant products, '<handle>::<variant id>' otherwise */
+  externalId: string;
+  handle: string;
+  variantId: string | null;
+  variantTitle: string | null;
+  /** Option name -> value, e.g. { Termination: '4.4mm' } */
+  variantOptions: Record<string, string> | null;
+  price: number;
+  compareAtPrice: number | null;
+  inStock: boolean;
+  /** Product URL with ?variant= so buyers land on this option */
+  productUrl: string;
+};
+
+function parsePositivePrice(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const n = parseFloat(value);
+  return isNaN(n) || n <= 0 ? null : n;
+}
+
+/**
+ * Expand a Shopify product into per-variant listings. Products with a single
+ * variant ("Default Title") keep one listing keyed by handle, so existing
+ * store_products/price_listings rows stay stable.
+ */
+export function expandVariants(product: ShopifyProduct, domain: string): ShopifyListing[] {
+  const baseUrl = `https://${domain}/products/${product.handle}`;
+  const variants = (product.variants ?? []).filter((v) => parsePositivePrice(v.price) !== null);
+  if (variants.length === 0) return [];
+
+  if (variants.length === 1) {
+    const v = variants[0];
+    const price = parsePositivePrice(v.price)!;
+    const cap = parsePositivePrice(v.compare_at_price);
+    return [{
+      externalId: product.handle,
+      handle: product.handle,
+      variantId: null,
+      variantTitle: null,
+      variantOptions: null,
+      price,
+      compareAtPrice: cap !== null && cap > price ? cap : null,
+      inStock: v.available,
+      productUrl: baseUrl,
+    }];
+  }
+
+  const optionNames = (product.options ?? [])
+    .slice()
+    .sort((a, b) => a.position - b.position)
+    .map((o) => o.name);
+
+  return variants.map((v) => {
+    const price = parsePositivePrice(v.price)!;
+    const cap = parsePositivePrice(v.compare_at_price);
+    const values = [v.option1, v.option2, v.option3];
+    const variantOptions: Record<string, string> = {};
+    optionNames.forEach((name, i) => {
+      const value = values[i];
+      if (value) variantOptions[name] = value;
+    });
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+    return {
+      externalId: `${product.handle}::${v.id}`,
+      handle: product.handle,
+      variantId: String(v.id),
+      variantTitle: v.title,
+      variantOptions: Object.keys(variantOptions).length > 0 ? variantOptions : null,
+      price,
+      compareAtPrice: cap !== null && cap > price ? cap : null,
+      inStock: v.available,
+      productUrl: `${baseUrl}?variant=${v.id}`,
+    };
+  });
 }
 
+const USER_AGENT = "AudioList Price Checker/1.0";
+
 // Simple in-memory cache keyed by domain
 const catalogCache = new Map<string, ShopifyProduct[]>();
 
@@ -87,11 +168,12 @@ export async function fetchShopifyCatalog(
 export async function fetchShopifyCollection(
   domain: string,
   collectionHandle: string,
-  options?: { maxPages?: number; delayMs?: number; limit?: number }
+  options?: { maxPages?: number; delayMs?: number; limit?: number; http?: HttpClient }
 ): Promise<ShopifyProduct[]> {
   const maxPages = options?.maxPages ?? 100;
   const delayMs = options?.delayMs ?? 600;
   const limit = options?.limit ?? 250;
+  const http = options?.http ?? fetch;
   const allProducts: ShopifyProduct[] = [];
 
   for (let page = 1; page <= maxPages; page++) {
@@ -101,7 +183,7 @@ export async function fetchShopifyCollection(
         `Fetching ${domain}/collections/${collectionHandle} page ${page}... (${allProducts.length} products)`
       );
 
-      const response = await fetch(url, {
+      const response = await http(url, {
         headers: { "User-Agent": USER_AGENT },
       });
 
@@ -1,5 +1,7 @@
 /**
- * Seed retailer trust information (description, ships_from, return_policy, authorized_dealer).
+ * Seed retailer trust information (description, ships_from, return_policy, authorized_dealer),
+ * region tags (region, ships_to) used by the header region selector, and shipping
+ * rules (shipping_cost, free_shipping_min) used by the "Buy this build" optimizer.
  * Run: npx tsx scripts/seed-retailer-trust.ts
  */
 import { getSupabase } from './config/retailers';
@@ -10,6 +12,14 @@ interface RetailerTrust {
   ships_from: string;
   return_policy: string;
   authorized_dealer: boolean;
+  /** Home region; defaults to 'us' */
+  region?: string;
+  /** Regions shipped to ('global' = everywhere); defaults to [region] */
+  ships_to?: string[];
+  /** Standard shipping per order in the store's currency; unset = not known */
+  shipping_cost?: number;
+  /** Subtotal from which shipping is free; unset = no threshold */
+  free_shipping_min?: number;
 }
 
 const RETAILER_TRUST_DATA: RetailerTrust[] = [
@@ -26,6 +36,8 @@ const RETAILER_TRUST_DATA: RetailerTrust[] = [
     ships_from: 'US (various warehouses)',
     return_policy: '30-day return',
     authorized_dealer: false,
+    shipping_cost: 5.99,
+    free_shipping_min: 35,
   },
   {
     id: 'aperionaudio',
@@ -54,6 +66,8 @@ const RETAILER_TRUST_DATA: RetailerTrust[] = [
     ships_from: 'US (various)',
     return_policy: '15-day return',
     authorized_dealer: true,
+    shipping_cost: 5.99,
+    free_shipping_min: 35,
   },
   {
     id: 'bloomaudio',
@@ -68,6 +82,7 @@ const RETAILER_TRUST_DATA: RetailerTrust[] = [
     ships_from: 'Denmark / EU',
     return_policy: '30-day return',
     authorized_dealer: true,
+    region: 'eu',
   },
   {
     id: 'campfireaudio',
@@ -110,6 +125,8 @@ const RETAILER_TRUST_DATA: RetailerTrust[] = [
     ships_from: 'China / US warehouse',
     return_policy: '15-day return',
     authorized_dealer: true,
+    region: 'cn',
+    ships_to: ['global'],
   },
   {
     id: 'jamo',
@@ -131,6 +148,8 @@ const RETAILER_TRUST_DATA: RetailerTrust[] = [
     ships_from: 'China / US warehouse',
     return_policy: '15-day return',
     authorized_dealer: true,
+    region: 'cn',
+    ships_to: ['global'],
   },
   {
     id: 'moonaudio',
@@ -187,6 +206,8 @@ const RETAILER_TRUST_DATA: RetailerTrust[] = [
     ships_from: 'China',
     return_policy: '15-day return',
     authorized_dealer: true,
+    region: 'cn',
+    ships_to: ['global'],
   },
   {
     id: 'svsound',
@@ -224,6 +245,10 @@ async function main() {
         ships_from: trust.ships_from,
         return_policy: trust.return_policy,
         authorized_dealer: trust.authorized_dealer,
+        region: trust.region ?? 'us',
+        ships_to: trust.ships_to ?? [trust.region ?? 'us'],
+        shipping_cost: trust.shipping_cost ?? null,
+        free_shipping_min: trust.free_shipping_min ?? null,
       })
       .eq('id', trust.id);
 
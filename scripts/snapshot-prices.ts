@@ -2,56 +2,222 @@
  * Snapshots current price_listings into price_history.
  * Designed to run daily via cron or manual invocation.
  * Run: npx tsx scripts/snapshot-prices.ts
+ * Follow with scripts/check-price-watches.ts (npm run sync:history runs both).
+ *
+ * Each listing's in_stock is compared with its newest price_history row and
+ * every flip is written to stock_events (migration 027). A listing that was
+ * in stock at the last snapshot and has since disappeared gets a sold-out
+ * history row and event, so its return is detected as a restock.
+ *
+ * price stays in the retailer's currency; price_usd (migration 040) is what
+ * price watches and charts compare across retailers.
  */
 import { getSupabase } from './config/retailers';
+import { reportStats } from './lib/run-stats';
 
-async function main() {
+const BATCH_SIZE = 500;
+const PAGE_SIZE = 1000;
+/** How far back to look for a listing's previous state */
+const STOCK_LOOKBACK_DAYS = 90;
+
+type Listing = {
+  product_id: string;
+  retailer_id: string;
+  price: number;
+  price_usd: number | null;
+  in_stock: boolean;
+};
+
+type StockState = Listing & { recorded_at: string };
+
+type StockEvent = {
+  product_id: string;
+  retailer_id: string;
+  in_stock: boolean;
+  price: number | null;
+  price_usd: number | null;
+  delisted: boolean;
+  out_of_stock_since: string | null;
+};
+
+const pairKey = (r: { product_id: string; retailer_id: string }) => `${r.product_id}|${r.retailer_id}`;
+
+async function loadListings(): Promise<Listing[]> {
   const supabase = getSupabase();
+  const listings: Listing[] = [];
+  let offset = 0;
 
-  console.log('Fetching current price listings...');
+  while (true) {
+    const { data, error } = await supabase
+      .from('price_listings')
+      .select('product_id, retailer_id, price, price_usd, in_stock')
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to fetch listings: ${error.message}`);
+    if (!data || data.length === 0) break;
+    listings.push(...(data as Listing[]));
+    offset += data.length;
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return listings;
+}
+
+/** Newest price_history row per (product, retailer) */
+async function loadPreviousStates(): Promise<Map<string, StockState>> {
+  const supabase = getSupabase();
+  const since = new Date(Date.now() - STOCK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const states = new Map<string, StockState>();
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .rpc('latest_stock_states', { p_since: since })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load previous stock states: ${error.message}`);
+    if (!data || data.length === 0) break;
+    for (const row of data as StockState[]) states.set(pairKey(row), row);
+    offset += data.length;
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return states;
+}
+
+/** When each restocked pair last sold out, from its newest sold-out event */
+async function loadSoldOutSince(restocks: StockEvent[]): Promise<Map<string, string>> {
+  const supabase = getSupabase();
+  const since = new Map<string, string>();
+  const productIds = [...new Set(restocks.map((e) => e.product_id))];
+
+  for (let i = 0; i < productIds.length; i += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('stock_events')
+      .select('product_id, retailer_id, changed_at')
+      .in('product_id', productIds.slice(i, i + BATCH_SIZE))
+      .eq('in_stock', false)
+      .order('changed_at', { ascending: false });
+    if (error) throw new Error(`Failed to load sold-out events: ${error.message}`);
+    for (const row of data ?? []) {
+      if (!since.has(pairKey(row))) since.set(pairKey(row), row.changed_at);
+    }
+  }
+
+  return since;
+}
+
+async function insertBatches(table: string, rows: object[]): Promise<number> {
+  const supabase = getSupabase();
+  let inserted = 0;
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const { error: insertError } = await supabase.from(table).insert(batch);
+
+    if (insertError) {
+      console.error(`Failed to insert ${table} batch at offset ${i}: ${insertError.message}`);
+    } else {
+      inserted += batch.length;
+      console.log(`  Inserted ${table} batch ${Math.floor(i / BATCH_SIZE) + 1} (${batch.length} rows)`);
+    }
+  }
+
+  return inserted;
+}
 
-  // Fetch all active price listings
-  const { data: listings, error: fetchError } = await supabase
-    .from('price_listings')
-    .select('product_id, retailer_id, price, in_stock');
+async function main() {
+  console.log('Fetching current price listings...');
 
-  if (fetchError) {
-    console.error(`Failed to fetch listings: ${fetchError.message}`);
+  let listings: Listing[];
+  try {
+    listings = await loadListings();
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
     process.exit(1);
   }
 
-  if (!listings || listings.length === 0) {
+  if (listings.length === 0) {
     console.log('No price listings found. Nothing to snapshot.');
+    reportStats({ listings: 0, inserted: 0 });
     return;
   }
 
-  console.log(`Found ${listings.length} price listings. Inserting into price_history...`);
+  // Compare against the previous state before this snapshot lands in price_history
+  console.log('Loading previous stock states...');
+  const previous = await loadPreviousStates();
 
-  // Insert in batches of 500 to avoid payload limits
-  const BATCH_SIZE = 500;
-  let inserted = 0;
-
-  for (let i = 0; i < listings.length; i += BATCH_SIZE) {
-    const batch = listings.slice(i, i + BATCH_SIZE).map((l) => ({
+  const events: StockEvent[] = [];
+  const current = new Set<string>();
+  for (const l of listings) {
+    current.add(pairKey(l));
+    const prev = previous.get(pairKey(l));
+    if (!prev || prev.in_stock === l.in_stock) continue;
+    events.push({
       product_id: l.product_id,
       retailer_id: l.retailer_id,
-      price: l.price,
       in_stock: l.in_stock,
-    }));
+      price: l.price,
+      price_usd: l.price_usd,
+      delisted: false,
+      out_of_stock_since: null,
+    });
+  }
 
-    const { error: insertError } = await supabase
-      .from('price_history')
-      .insert(batch);
+  // Listings that vanished while in stock: record them as sold out
+  const delisted: Listing[] = [];
+  for (const [key, prev] of previous) {
+    if (current.has(key) || !prev.in_stock) continue;
+    delisted.push({
+      product_id: prev.product_id,
+      retailer_id: prev.retailer_id,
+      price: prev.price,
+      price_usd: prev.price_usd,
+      in_stock: false,
+    });
+    events.push({
+      product_id: prev.product_id,
+      retailer_id: prev.retailer_id,
+      in_stock: false,
+      price: prev.price,
+      price_usd: prev.price_usd,
+      delisted: true,
+      out_of_stock_since: null,
+    });
+  }
 
-    if (insertError) {
-      console.error(`Failed to insert batch at offset ${i}: ${insertError.message}`);
-    } else {
-      inserted += batch.length;
-      console.log(`  Inserted batch ${Math.floor(i / BATCH_SIZE) + 1} (${batch.length} rows)`);
-    }
+  const restocks = events.filter((e) => e.in_stock);
+  if (restocks.length > 0) {
+    const soldOutSince = await loadSoldOutSince(restocks);
+    for (const e of restocks) e.out_of_stock_since = soldOutSince.get(pairKey(e)) ?? null;
   }
 
-  console.log(`Done. Snapshot complete: ${inserted} / ${listings.length} rows inserted.`);
+  const soldOut = events.length - restocks.length;
+  console.log(`Stock changes: ${restocks.length} restocked, ${soldOut} sold out (${delisted.length} delisted)`);
+
+  console.log(`Found ${listings.length} price listings. Inserting into price_history...`);
+
+  const inserted = await insertBatches(
+    'price_history',
+    [...listings, ...delisted].map((l) => ({
+      product_id: l.product_id,
+      retailer_id: l.retailer_id,
+      price: l.price,
+      price_usd: l.price_usd,
+      in_stock: l.in_stock,
+    }))
+  );
+  const eventsInserted = await insertBatches('stock_events', events);
+
+  reportStats({
+    listings: listings.length,
+    inserted,
+    restocked: restocks.length,
+    sold_out: soldOut,
+    stock_events: eventsInserted,
+  });
+  console.log(`Done. Snapshot complete: ${inserted} / ${listings.length + delisted.length} rows inserted.`);
 }
 
-main().catch(console.error);
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
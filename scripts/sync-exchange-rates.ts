@@ -0,0 +1,34 @@
+/**
+ * sync-exchange-rates.ts
+ *
+ * Refreshes the exchange_rates table from a rates file and re-converts
+ * non-USD price_listings.price_usd. sync-prices.ts does the same at startup;
+ * run this on its own after editing the rates file.
+ *
+ * Usage:
+ *   SUPABASE_SERVICE_KEY=<key> npx tsx scripts/sync-exchange-rates.ts [--file=<path>]
+ *
+ * --file=<path>: Rates JSON to load (default: scripts/config/exchange-rates.json,
+ *                or EXCHANGE_RATES_FILE when set).
+ */
+
+import "./lib/env.js";
+import { refreshExchangeRates } from './lib/currency.ts';
+import { logError } from './lib/log.ts';
+
+const RATES_FILE = (() => {
+  const idx = process.argv.findIndex((a) => a.startsWith('--file='));
+  return idx >= 0 ? process.argv[idx].split('=')[1] : undefined;
+})();
+
+async function main() {
+  const rates = await refreshExchangeRates(RATES_FILE);
+  for (const [currency, rate] of Object.entries(rates)) {
+    console.log(`  ${currency}: ${rate}`);
+  }
+}
+
+main().catch((err) => {
+  logError('FATAL', 'Exchange rate refresh failed', err);
+  process.exit(1);
+});
@@ -2,8 +2,13 @@
  * sync-prices.ts
  *
  * Main orchestrator that coordinates price scraping across all retailers.
- * Fetches catalogs, matches products, creates price_listings, and denormalizes
- * the lowest price back onto the products table.
+ * Fetches catalogs, matches products and creates price_listings. The database
+ * rolls the lowest available listing up onto products (see
+ * lib/product-prices.ts).
+ *
+ * Listings are stored in the retailer's currency. Exchange rates are refreshed
+ * from scripts/config/exchange-rates.json first so price_usd (used to pick the
+ * lowest price) is current.
  *
  * Usage:
  *   SUPABASE_SERVICE_KEY=<key> BESTBUY_API_KEY=<key> npx tsx scripts/sync-prices.ts
@@ -28,12 +33,21 @@ import {
 import {
   fetchShopifyCatalog,
   fetchShopifyCollection,
+  expandVariants,
   type ShopifyProduct,
+  type ShopifyListing,
 } from "./scrapers/shopify.ts";
-import { searchBestBuy } from "./scrapers/bestbuy.ts";
+import { createBestBuyAdapter, type AdapterContext } from "./adapters/index.ts";
+import { getHttpClient } from "./lib/http.ts";
+import { log, logError, delay } from "./lib/log.ts";
+import { upsertInBatches } from "./lib/store-products.ts";
+import { refreshProductPrices } from "./lib/product-prices.ts";
+import { publishListings } from "./lib/price-guard.ts";
 import { searchAmazon, closeBrowser as closeAmazonBrowser } from "./scrapers/amazon.ts";
 import { findBestMatch, MATCH_THRESHOLDS } from "./scrapers/matcher.ts";
 import { STORE_COLLECTIONS, type CategoryId } from "./config/store-collections.ts";
+import { refreshExchangeRates } from "./lib/currency.ts";
+import { reportStats } from "./lib/run-stats.ts";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -73,11 +87,13 @@ type RetailerStats = {
 // ---------------------------------------------------------------------------
 
 const PRODUCT_BATCH_SIZE = 1000;
-const UPSERT_BATCH_SIZE = 100;
 const PROGRESS_LOG_INTERVAL = 100;
 const BESTBUY_DELAY_MS = 200; // 5 QPS limit
 const AMAZON_DELAY_MS = 3000; // ~1 request per 3 seconds to be respectful
 
+/** Listings held back by the price guard (lib/price-guard.ts) this run */
+let listingsQuarantined = 0;
+
 // CLI flags
 const AMAZON_ONLY = process.argv.includes("--amazon-only");
 const SKIP_AMAZON = process.argv.includes("--skip-amazon");
@@ -94,32 +110,6 @@ const CATEGORY_FILTER = (() => {
   return ""; // empty = all categories
 })();
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-function timestamp(): string {
-  return new Date().toISOString().slice(11, 19);
-}
-
-function log(phase: string, msg: string): void {
-  console.log(`[${timestamp()}] [${phase}] ${msg}`);
-}
-
-function logError(phase: string, msg: string, err: unknown): void {
-  const detail =
-    err instanceof Error
-      ? err.message
-      : typeof err === "object" && err !== null
-        ? JSON.stringify(err)
-        : String(err);
-  console.error(`[${timestamp()}] [${phase}] ERROR: ${msg} — ${detail}`);
-}
-
 // ---------------------------------------------------------------------------
 // Database helpers
 // ---------------------------------------------------------------------------
@@ -158,41 +148,6 @@ async function loadAllProducts(): Promise<Product[]> {
   return allProducts;
 }
 
-async function upsertBatch(
-  table: string,
-  rows: Record<string, unknown>[],
-  conflictColumns: string,
-  phase: string
-): Promise<number> {
-  if (rows.length === 0) return 0;
-
-  const supabase = getSupabase();
-  let successCount = 0;
-
-  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
-    const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
-    const batchNum = Math.floor(i / UPSERT_BATCH_SIZE) + 1;
-    const totalBatches = Math.ceil(rows.length / UPSERT_BATCH_SIZE);
-
-    try {
-      const { error } = await supabase
-        .from(table)
-        .upsert(batch, { onConflict: conflictColumns });
-
-      if (error) {
-        logError(phase, `Upsert ${table} batch ${batchNum}/${totalBatches} failed`, error);
-      } else {
-        successCount += batch.length;
-        log(phase, `Upserted ${table} batch ${batchNum}/${totalBatches} (${batch.length} rows)`);
-      }
-    } catch (err) {
-      logError(phase, `Upsert ${table} batch ${batchNum}/${totalBatches} exception`, err);
-    }
-  }
-
-  return successCount;
-}
-
 // ---------------------------------------------------------------------------
 // Phase A: Fetch Shopify catalogs
 // ---------------------------------------------------------------------------
@@ -393,6 +348,10 @@ async function matchProducts(
   const shopifyRetailers = retailers.filter((r) => r.api_type === "shopify");
   const bestBuyRetailer = retailers.find((r) => r.api_type === "bestbuy");
   const amazonRetailer = retailers.find((r) => r.api_type === "amazon");
+  const bestBuyAdapter = bestBuyApiKey ? createBestBuyAdapter(bestBuyApiKey) : null;
+  const bestBuyContext: AdapterContext | null = bestBuyRetailer
+    ? { domain: "www.bestbuy.com", retailer: bestBuyRetailer, http: getHttpClient() }
+    : null;
 
   // Initialize stats
   for (const r of retailers) {
@@ -426,8 +385,9 @@ async function matchProducts(
   async function flushRows() {
     if (matchRows.length > 0) {
       log("PHASE-B", `Flushing ${matchRows.length} matches, ${listingRows.length} listings to Supabase...`);
-      await upsertBatch("product_matches", [...matchRows], "product_id,retailer_id", "PHASE-B-FLUSH");
-      await upsertBatch("price_listings", [...listingRows], "retailer_id,external_id", "PHASE-B-FLUSH");
+      await upsertInBatches("product_matches", [...matchRows], "product_id,retailer_id", "PHASE-B-FLUSH");
+      const { quarantined } = await publishListings([...listingRows], "retailer_id,external_id", "PHASE-B-FLUSH");
+      listingsQuarantined += quarantined;
       matchRows.length = 0;
       listingRows.length = 0;
     }
@@ -494,11 +454,13 @@ async function matchProducts(
         // Look up the actual Shopify product for price/image/availability
         const handleMap = shopifyProductByHandle.get(retailer.id);
         const shopifyProduct = handleMap?.get(match.id);
-        const firstVariant = shopifyProduct?.variants?.[0];
-        const price = firstVariant ? parseFloat(firstVariant.price) : null;
-        const inStock = firstVariant?.available ?? false;
+        const variantListings = shopifyProduct ? expandVariants(shopifyProduct, retailer.shop_domain) : [];
+        const cheapest = variantListings.reduce<ShopifyListing | null>(
+          (best, l) => (!best || l.price < best.price ? l : best),
+          null
+        );
+        const price = cheapest?.price ?? null;
         const imageUrl = shopifyProduct?.images?.[0]?.src ?? null;
-        const productUrl = `https://${retailer.shop_domain}/products/${match.id}`;
 
         // Build product_matches row
         matchRows.push({
@@ -517,27 +479,33 @@ async function matchProducts(
           rStats.pending++;
         }
 
-        // If auto-approved, also create a price_listing
-        if (isAutoApprove && price !== null) {
-          const affiliateUrl = buildAffiliateUrl(
-            retailer,
-            productUrl,
-            match.id,
-            String(shopifyProduct?.id ?? "")
-          );
-
-          listingRows.push({
-            product_id: product.id,
-            retailer_id: retailer.id,
-            external_id: match.id,
-            price,
-            currency: "USD",
-            in_stock: inStock,
-            product_url: productUrl,
-            affiliate_url: affiliateUrl ?? productUrl,
-            image_url: imageUrl,
-            last_checked: new Date().toISOString(),
-          });
+        // If auto-approved, also create one price_listing per variant
+        if (isAutoApprove) {
+          for (const listing of variantListings) {
+            const affiliateUrl = buildAffiliateUrl(
+              retailer,
+              listing.productUrl,
+              match.id,
+              String(shopifyProduct?.id ?? "")
+            );
+
+            listingRows.push({
+              product_id: product.id,
+              retailer_id: retailer.id,
+              external_id: listing.externalId,
+              variant_id: listing.variantId,
+              variant_title: listing.variantTitle,
+              variant_options: listing.variantOptions,
+              price: listing.price,
+              compare_at_price: listing.compareAtPrice,
+              currency: retailer.currency,
+              in_stock: listing.inStock,
+              product_url: listing.productUrl,
+              affiliate_url: affiliateUrl ?? listing.productUrl,
+              image_url: imageUrl,
+              last_checked: new Date().toISOString(),
+            });
+          }
         }
       } catch (err) {
         rStats.errors++;
@@ -546,17 +514,21 @@ async function matchProducts(
     }
 
     // --- Best Buy ---
-    if (bestBuyRetailer && bestBuyApiKey && !AMAZON_ONLY && !SKIP_BESTBUY) {
+    if (bestBuyRetailer && bestBuyAdapter && bestBuyContext && !AMAZON_ONLY && !SKIP_BESTBUY) {
       const rStats = stats.get(bestBuyRetailer.id)!;
 
       try {
-        const bbResults = await searchBestBuy(product.name, bestBuyApiKey);
+        const bbResults = (await bestBuyAdapter.fetchProducts(
+          { handle: product.name, categoryId: (product.category_id ?? "headphone") as CategoryId },
+          bestBuyContext,
+          { maxPages: 1, limit: 10 },
+        )).flatMap((bp) => bestBuyAdapter.normalize(bp, bestBuyContext));
 
         if (bbResults.length > 0) {
           // Build candidates from Best Buy results
           const bbCandidates: MatchCandidate[] = bbResults.map((bp) => ({
-            name: bp.name,
-            id: String(bp.sku),
+            name: bp.title,
+            id: bp.externalId,
           }));
 
           const match = findBestMatch(
@@ -570,11 +542,8 @@ async function matchProducts(
             const status = isAutoApprove ? "approved" : "pending";
 
             // Find the full Best Buy product data
-            const bbProduct = bbResults.find((bp) => String(bp.sku) === match.id);
-            const price = bbProduct?.salePrice ?? bbProduct?.regularPrice ?? null;
-            const inStock = bbProduct?.onlineAvailability ?? false;
-            const imageUrl = bbProduct?.image ?? null;
-            const productUrl = bbProduct?.url ?? `https://www.bestbuy.com/site/${match.id}.p`;
+            const bbProduct = bbResults.find((bp) => bp.externalId === match.id);
+            const price = bbProduct?.price ?? null;
 
             matchRows.push({
               product_id: product.id,
@@ -592,24 +561,17 @@ async function matchProducts(
               rStats.pending++;
             }
 
-            if (isAutoApprove && price !== null) {
-              const affiliateUrl = buildAffiliateUrl(
-                bestBuyRetailer,
-                productUrl,
-                match.id,
-                match.id
-              );
-
+            if (isAutoApprove && bbProduct && price !== null) {
               listingRows.push({
                 product_id: product.id,
                 retailer_id: bestBuyRetailer.id,
                 external_id: match.id,
                 price,
                 currency: "USD",
-                in_stock: inStock,
-                product_url: productUrl,
-                affiliate_url: affiliateUrl ?? productUrl,
-                image_url: imageUrl,
+                in_stock: bbProduct.inStock,
+                product_url: bbProduct.productUrl,
+                affiliate_url: bestBuyAdapter.buildAffiliateUrl(bbProduct, bestBuyRetailer),
+                image_url: bbProduct.imageUrl,
                 last_checked: new Date().toISOString(),
               });
             }
@@ -749,7 +711,7 @@ async function upsertMatchesAndListings(
   listingRows: Record<string, unknown>[]
 ): Promise<{ matchesUpserted: number; listingsUpserted: number }> {
   log("PHASE-C", `Upserting ${matchRows.length} product_matches...`);
-  const matchesUpserted = await upsertBatch(
+  const matchesUpserted = await upsertInBatches(
     "product_matches",
     matchRows,
     "product_id,retailer_id",
@@ -757,124 +719,17 @@ async function upsertMatchesAndListings(
   );
 
   log("PHASE-C", `Upserting ${listingRows.length} price_listings...`);
-  const listingsUpserted = await upsertBatch(
-    "price_listings",
+  const { upserted: listingsUpserted, quarantined } = await publishListings(
     listingRows,
     "product_id,retailer_id",
     "PHASE-C"
   );
+  listingsQuarantined += quarantined;
 
   log("PHASE-C", `Upserted: ${matchesUpserted} matches, ${listingsUpserted} listings`);
   return { matchesUpserted, listingsUpserted };
 }
 
-// ---------------------------------------------------------------------------
-// Phase D: Denormalize lowest price onto products
-// ---------------------------------------------------------------------------
-
-async function denormalizeLowestPrices(): Promise<number> {
-  const supabase = getSupabase();
-
-  log("PHASE-D", "Finding lowest in-stock price per product...");
-
-  // Fetch all in-stock price_listings (paginated to avoid Supabase 1000-row default limit)
-  const PAGE_SIZE = 1000;
-  const listings: { product_id: string; price: number; affiliate_url: string | null; product_url: string | null; image_url: string | null }[] = [];
-  let offset = 0;
-
-  while (true) {
-    const { data, error } = await supabase
-      .from("price_listings")
-      .select("product_id, price, affiliate_url, product_url, image_url")
-      .eq("in_stock", true)
-      .order("price", { ascending: true })
-      .range(offset, offset + PAGE_SIZE - 1);
-
-    if (error) {
-      logError("PHASE-D", "Failed to fetch price_listings", error);
-      return 0;
-    }
-
-    if (!data || data.length === 0) break;
-    listings.push(...data);
-    offset += data.length;
-    if (data.length < PAGE_SIZE) break;
-  }
-
-  if (listings.length === 0) {
-    log("PHASE-D", "No in-stock listings found. Nothing to denormalize.");
-    return 0;
-  }
-
-  log("PHASE-D", `Fetched ${listings.length} in-stock listings`);
-
-  // Group by product_id, keep only the lowest price per product
-  const lowestByProduct = new Map<
-    string,
-    { price: number; affiliate_url: string | null; image_url: string | null }
-  >();
-
-  for (const listing of listings) {
-    const existing = lowestByProduct.get(listing.product_id);
-    if (!existing || listing.price < existing.price) {
-      lowestByProduct.set(listing.product_id, {
-        price: listing.price,
-        affiliate_url: listing.affiliate_url ?? listing.product_url,
-        image_url: listing.image_url,
-      });
-    }
-  }
-
-  // Second pass: fill in missing images from any listing that has one
-  for (const listing of listings) {
-    const existing = lowestByProduct.get(listing.product_id);
-    if (existing && !existing.image_url && listing.image_url) {
-      existing.image_url = listing.image_url;
-    }
-  }
-
-  log("PHASE-D", `Found lowest prices for ${lowestByProduct.size} product(s). Updating...`);
-
-  // Update products individually (can't upsert since we only have partial columns)
-  let updatedCount = 0;
-  const entries = Array.from(lowestByProduct.entries());
-  for (let i = 0; i < entries.length; i += UPSERT_BATCH_SIZE) {
-    const batch = entries.slice(i, i + UPSERT_BATCH_SIZE);
-    const batchNum = Math.floor(i / UPSERT_BATCH_SIZE) + 1;
-    const totalBatches = Math.ceil(entries.length / UPSERT_BATCH_SIZE);
-
-    try {
-      let batchSuccess = 0;
-      for (const [productId, info] of batch) {
-        const updatePayload: { price: number; affiliate_url: string | null; image_url?: string } = {
-          price: info.price,
-          affiliate_url: info.affiliate_url,
-        };
-        if (info.image_url) {
-          updatePayload.image_url = info.image_url;
-        }
-        const { error: updateError } = await supabase
-          .from("products")
-          .update(updatePayload)
-          .eq("id", productId);
-
-        if (updateError) {
-          logError("PHASE-D", `Failed to update product ${productId}`, updateError);
-        } else {
-          batchSuccess++;
-        }
-      }
-      updatedCount += batchSuccess;
-      log("PHASE-D", `Updated products batch ${batchNum}/${totalBatches} (${batchSuccess}/${batch.length} rows)`);
-    } catch (err) {
-      logError("PHASE-D", `Update batch ${batchNum}/${totalBatches} exception`, err);
-    }
-  }
-
-  log("PHASE-D", `Denormalized prices for ${updatedCount} product(s)`);
-  return updatedCount;
-}
-
 // ---------------------------------------------------------------------------
 // Main
 // ---------------------------------------------------------------------------
@@ -917,6 +772,13 @@ async function main(): Promise<void> {
   }
   log("INIT", `Loaded ${retailers.length} active retailer(s): ${retailers.map((r) => r.name).join(", ")}`);
 
+  // Step 1b: Refresh exchange rates so price_usd is current before Phase D
+  try {
+    await refreshExchangeRates();
+  } catch (err) {
+    logError("INIT", "Exchange rate refresh failed — using rates already in the database", err);
+  }
+
   // Step 2: Load products
   let products = await loadAllProducts();
   if (products.length === 0) {
@@ -976,9 +838,18 @@ async function main(): Promise<void> {
     listingRows
   );
 
-  // Phase D: Denormalize lowest price
-  console.log("\n--- Phase D: Denormalize Lowest Price ---\n");
-  const productsUpdated = await denormalizeLowestPrices();
+  // Phase D: products.price is rolled up from the listings by the database;
+  // sweep it so listings that went stale this run drop out
+  console.log("\n--- Phase D: Refresh Product Prices ---\n");
+  const productsUpdated = await refreshProductPrices("PHASE-D");
+  reportStats({
+    products: products.length,
+    retailers: Object.fromEntries(stats),
+    matchesUpserted,
+    listingsUpserted,
+    listingsQuarantined,
+    productsUpdated,
+  });
 
   // Clean up Amazon browser
   await closeAmazonBrowser();
@@ -1005,6 +876,7 @@ async function main(): Promise<void> {
   console.log("");
   console.log(`  product_matches upserted: ${matchesUpserted}`);
   console.log(`  price_listings upserted:  ${listingsUpserted}`);
+  console.log(`  listings quarantined:     ${listingsQuarantined}`);
   console.log(`  products.price updated:   ${productsUpdated}`);
   console.log("=================================================================\n");
 }
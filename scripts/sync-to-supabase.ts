@@ -2,7 +2,8 @@
  * sync-to-supabase.ts
  *
  * Fetches pre-built PPI ranking data from the Squig-Rank GitHub repo
- * and upserts it into the Supabase `products` table.
+ * and upserts it into the Supabase `products` table, with scores for
+ * every published target curve (see lib/squig-rank.ts).
  *
  * Usage:
  *   SUPABASE_SERVICE_KEY=<key> npx tsx scripts/sync-to-supabase.ts
@@ -11,6 +12,15 @@
 import { createClient } from '@supabase/supabase-js';
 import { extractBrand } from './brand-config';
 import { parseProductVariant } from './variant-config';
+import {
+  DATA_SOURCES,
+  TARGET_TYPES,
+  collectMeasurements,
+  mergeMeasurements,
+  type MeasurementScores,
+  type ResultsFile,
+  type TargetScore,
+} from './lib/squig-rank';
 
 // ---------------------------------------------------------------------------
 // Config
@@ -27,68 +37,27 @@ if (!SUPABASE_SERVICE_KEY) {
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
-const DATA_SOURCES = [
-  {
-    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results.json',
-    label: 'IEM (711)',
-    targetMatch: 'ISO 11904-2 DF',
-  },
-  {
-    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results_hp_kb5.json',
-    label: 'HP KB5',
-    targetMatch: 'KEMAR DF',
-  },
-  {
-    url: 'https://raw.githubusercontent.com/AudioList/Squig-Rank/main/public/data/results_hp_5128.json',
-    label: 'HP 5128',
-    targetMatch: '5128 DF',
-  },
-] as const;
-
 const UPSERT_BATCH_SIZE = 500;
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-interface RankedEntry {
-  id: string;
-  name: string;
-  similarity: number;
-  stdev: number;
-  slope: number;
-  avgError: number;
-  price: number | null;
-  quality: 'high' | 'low';
-  sourceDomain: string;
-  type: 'iem' | 'headphone';
-  rig: '711' | '5128';
-  pinna: string | null;
-  firstSeen: string | null;
-  lastSeen: string | null;
-}
-
-interface TargetGroup {
-  targetName: string;
-  ranked: RankedEntry[];
-}
-
-interface ResultsFile {
-  generatedAt: string;
-  totalIEMs: number;
-  results: TargetGroup[];
-}
-
 interface ProductRow {
   source_id: string;
   category_id: string;
   name: string;
   brand: string | null;
   price: number | null;
-  ppi_score: number;
-  ppi_stdev: number;
-  ppi_slope: number;
-  ppi_avg_error: number;
+  ppi_score: number | null;
+  ppi_stdev: number | null;
+  ppi_slope: number | null;
+  ppi_avg_error: number | null;
+  ppi_harman_score: number | null;
+  ppi_harman_stdev: number | null;
+  ppi_harman_slope: number | null;
+  ppi_harman_avg_error: number | null;
+  ppi_targets: Record<string, TargetScore>;
   source_domain: string;
   rig_type: string;
   pinna: string | null;
@@ -118,20 +87,11 @@ async function fetchJson<T>(url: string, label: string): Promise<T | null> {
   }
 }
 
-function findDfTarget(data: ResultsFile, matchStr: string, label: string): RankedEntry[] {
-  const matchLower = matchStr.toLowerCase();
-  const group = data.results.find((g) =>
-    g.targetName.toLowerCase().includes(matchLower),
-  );
-  if (!group) {
-    console.warn(`  WARNING: No target group containing "${matchStr}" found in ${label}. Available targets: ${data.results.map((g) => g.targetName).join(', ')}`);
-    return [];
-  }
-  console.log(`  Found target "${group.targetName}" with ${group.ranked.length} entries in ${label}`);
-  return group.ranked;
-}
+function mapToProductRow(m: MeasurementScores): ProductRow {
+  const { entry } = m;
+  const df = m.byType.df ?? null;
+  const harman = m.byType.harman ?? null;
 
-function mapToProductRow(entry: RankedEntry): ProductRow {
   // Parse variant modifiers from the product name
   const parsed = parseProductVariant(entry.name);
   const primaryVariant = parsed.variants[0] ?? null;
@@ -142,10 +102,15 @@ function mapToProductRow(entry: RankedEntry): ProductRow {
     name: entry.name,
     brand: extractBrand(entry.name),
     price: entry.price,
-    ppi_score: entry.similarity,
-    ppi_stdev: entry.stdev,
-    ppi_slope: entry.slope,
-    ppi_avg_error: entry.avgError,
+    ppi_score: df?.similarity ?? null,
+    ppi_stdev: df?.stdev ?? null,
+    ppi_slope: df?.slope ?? null,
+    ppi_avg_error: df?.avgError ?? null,
+    ppi_harman_score: harman?.similarity ?? null,
+    ppi_harman_stdev: harman?.stdev ?? null,
+    ppi_harman_slope: harman?.slope ?? null,
+    ppi_harman_avg_error: harman?.avgError ?? null,
+    ppi_targets: m.allTargets,
     source_domain: entry.sourceDomain,
     rig_type: entry.rig,
     pinna: entry.pinna,
@@ -166,26 +131,32 @@ async function main() {
 
   // 1. Fetch all three files in parallel
   console.log('Step 1: Fetching data from GitHub...');
-  const [iemData, hpKb5Data, hp5128Data] = await Promise.all(
+  const results = await Promise.all(
     DATA_SOURCES.map((src) => fetchJson<ResultsFile>(src.url, src.label)),
   );
 
-  // 2. Extract DF-target ranked arrays
-  console.log('\nStep 2: Extracting DF-target groups...');
-  const allEntries: RankedEntry[] = [];
-  let totalFetched = 0;
+  // 2. Extract every target group, keyed by measurement
+  console.log('\nStep 2: Extracting target groups...');
+  const allEntries: MeasurementScores[] = [];
 
-  for (const [data, src] of [
-    [iemData, DATA_SOURCES[0]] as const,
-    [hpKb5Data, DATA_SOURCES[1]] as const,
-    [hp5128Data, DATA_SOURCES[2]] as const,
-  ]) {
+  for (let i = 0; i < DATA_SOURCES.length; i++) {
+    const data = results[i];
+    const src = DATA_SOURCES[i];
     if (!data) continue;
-    const entries = findDfTarget(data, src.targetMatch, src.label);
-    totalFetched += entries.length;
-    allEntries.push(...entries);
+
+    const { measurements, groups } = collectMeasurements(data, src);
+    for (const type of TARGET_TYPES) {
+      const group = groups[type];
+      if (group) {
+        console.log(`  Found ${type.toUpperCase()} target "${group.targetName}" with ${group.ranked.length} entries in ${src.label}`);
+      } else {
+        console.warn(`  WARNING: No target group containing "${src.targets[type]}" found in ${src.label}. Available targets: ${data.results.map((g) => g.targetName).join(', ')}`);
+      }
+    }
+    allEntries.push(...measurements);
   }
 
+  const totalFetched = allEntries.length;
   console.log(`\n  Total entries fetched: ${totalFetched}`);
 
   if (allEntries.length === 0) {
@@ -193,19 +164,9 @@ async function main() {
     process.exit(1);
   }
 
-  // 3. Map to product rows
+  // 3. Map to product rows (merging measurements that appear in several files)
   console.log('\nStep 3: Mapping & deduplicating...');
-  const productMap = new Map<string, ProductRow>();
-
-  for (const entry of allEntries) {
-    const row = mapToProductRow(entry);
-    const existing = productMap.get(row.source_id);
-    if (!existing || row.ppi_score > existing.ppi_score) {
-      productMap.set(row.source_id, row);
-    }
-  }
-
-  const products = Array.from(productMap.values());
+  const products = mergeMeasurements(allEntries).map(mapToProductRow);
   console.log(`  Deduplicated: ${totalFetched} -> ${products.length} unique products`);
 
   // 4. Upsert into Supabase in batches
@@ -237,7 +198,17 @@ async function main() {
     }
   }
 
-  // 5. Summary
+  // 5. The upsert wrote catalog prices; put back prices rolled up from listings
+  console.log('\nStep 5: Re-applying listing prices (refresh_product_prices)...');
+  const { data: repriced, error: repriceError } = await supabase.rpc('refresh_product_prices');
+  if (repriceError) {
+    console.error(`  ERROR: ${repriceError.message}`);
+    errorCount++;
+  } else {
+    console.log(`  ${repriced ?? 0} products re-priced from their listings`);
+  }
+
+  // 6. Summary
   console.log('\n=== Sync Complete ===');
   console.log(`  Total fetched:      ${totalFetched}`);
   console.log(`  After dedup:        ${products.length}`);
@@ -2,8 +2,12 @@ import { lazy, Suspense } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { ThemeProvider } from './context/ThemeContext';
 import { ExperienceModeProvider } from './context/ExperienceModeContext';
+import { TargetTypeProvider } from './context/TargetTypeContext';
+import { RegionProvider } from './context/RegionContext';
 import { BuildProvider } from './context/BuildContext';
+import { CompareProvider } from './context/CompareContext';
 import { ToastProvider } from './context/ToastContext';
+import { AuthProvider } from './context/AuthContext';
 import Layout from './components/layout/Layout';
 import GlassLayout from './components/layout/GlassLayout';
 import HomePage from './pages/HomePage';
@@ -16,7 +20,8 @@ const QuizPage = lazy(() => import('./pages/QuizPage'));
 const CommunityBuildsPage = lazy(() => import('./pages/CommunityBuildsPage'));
 const DealsPage = lazy(() => import('./pages/DealsPage'));
 const NotFoundPage = lazy(() => import('./pages/NotFoundPage'));
-const TriagePage = lazy(() => import('./pages/TriagePage'));
+const ComparePage = lazy(() => import('./pages/ComparePage'));
+const AccountPage = lazy(() => import('./pages/AccountPage'));
 
 function LoadingSpinner() {
   return (
@@ -30,8 +35,12 @@ export default function App() {
   return (
     <ThemeProvider>
       <ExperienceModeProvider>
+      <TargetTypeProvider>
+      <RegionProvider>
       <BuildProvider>
+      <CompareProvider>
       <ToastProvider>
+      <AuthProvider>
         <BrowserRouter>
           <Suspense fallback={<LoadingSpinner />}>
             <Routes>
@@ -40,10 +49,11 @@ export default function App() {
                 <Route path="/build/:shareCode" element={<SharedBuildPage />} />
                 <Route path="/products/:category" element={<ProductListPage />} />
                 <Route path="/product/:id" element={<ProductDetailPage />} />
+                <Route path="/compare" element={<ComparePage />} />
                 <Route path="/deals" element={<DealsPage />} />
                 <Route path="/quiz" element={<QuizPage />} />
                 <Route path="/builds" element={<CommunityBuildsPage />} />
-                <Route path="/triage" element={<TriagePage />} />
+                <Route path="/account" element={<AccountPage />} />
                 <Route path="*" element={<NotFoundPage />} />
               </Route>
               {/* Glass theme routes -- same pages, different layout */}
@@ -52,15 +62,21 @@ export default function App() {
                 <Route path="/glass/build/:shareCode" element={<SharedBuildPage />} />
                 <Route path="/glass/products/:category" element={<ProductListPage />} />
                 <Route path="/glass/product/:id" element={<ProductDetailPage />} />
+                <Route path="/glass/compare" element={<ComparePage />} />
                 <Route path="/glass/deals" element={<DealsPage />} />
                 <Route path="/glass/quiz" element={<QuizPage />} />
                 <Route path="/glass/builds" element={<CommunityBuildsPage />} />
+                <Route path="/glass/account" element={<AccountPage />} />
               </Route>
             </Routes>
           </Suspense>
         </BrowserRouter>
+      </AuthProvider>
       </ToastProvider>
+      </CompareProvider>
       </BuildProvider>
+      </RegionProvider>
+      </TargetTypeProvider>
       </ExperienceModeProvider>
     </ThemeProvider>
   );
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { TargetType } from '../../types';
 import { useGlassMode } from '../../context/GlassModeContext';
+import TargetToggle from '../shared/TargetToggle';
 
 interface AdvancedSettingsProps {
   targetType: TargetType;
@@ -50,34 +51,7 @@ export default function AdvancedSettings({ targetType, onTargetTypeChange }: Adv
                 Reference target used for audio quality score calculations
               </p>
             </div>
-            <div
-              className="inline-flex rounded-lg border border-surface-300 dark:border-surface-600"
-              role="group"
-              aria-label="Target curve"
-            >
-              <button
-                type="button"
-                onClick={() => onTargetTypeChange('df')}
-                className={`rounded-l-lg px-3 py-1.5 text-sm font-medium transition-colors ${
-                  targetType === 'df'
-                    ? 'bg-primary-600 text-white'
-                    : 'bg-white text-surface-600 hover:bg-surface-100 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700'
-                }`}
-              >
-                Diffuse Field
-              </button>
-              <button
-                type="button"
-                onClick={() => onTargetTypeChange('harman')}
-                className={`-ml-px rounded-r-lg px-3 py-1.5 text-sm font-medium transition-colors ${
-                  targetType === 'harman'
-                    ? 'bg-primary-600 text-white'
-                    : 'bg-white text-surface-600 hover:bg-surface-100 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700'
-                }`}
-              >
-                Harman
-              </button>
-            </div>
+            <TargetToggle targetType={targetType} onChange={onTargetTypeChange} />
           </div>
         </div>
       )}
@@ -0,0 +1,325 @@
+import { useState, useRef, useEffect } from 'react';
+import type { BuildSelection } from '../../types';
+import { useBuild } from '../../context/BuildContext';
+import { useGlassMode } from '../../context/GlassModeContext';
+import { CATEGORY_MAP } from '../../lib/categories';
+import { formatCurrency } from '../../lib/currency';
+import { getDisplayName } from '../../lib/productUtils';
+import { diffBuilds } from '../../lib/buildDiff';
+
+function formatUsd(amount: number): string {
+  return formatCurrency(amount, 'USD');
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+function SelectionLabel({ sel }: { sel: BuildSelection }) {
+  return (
+    <span>
+      {getDisplayName(sel.product)}
+      {sel.quantity > 1 && <span className="text-surface-400"> x{sel.quantity}</span>}
+    </span>
+  );
+}
+
+/** Added/removed/changed items going from the active build to another one */
+function BuildDiffPanel({ otherId, onClose }: { otherId: string; onClose: () => void }) {
+  const { items, name, getBuild } = useBuild();
+  const isGlass = useGlassMode();
+  const other = getBuild(otherId);
+  if (!other) return null;
+
+  const diff = diffBuilds(items, other.items);
+  const unchanged = diff.added.length + diff.removed.length + diff.changed.length === 0;
+  const categoryName = (sel: BuildSelection) => CATEGORY_MAP.get(sel.category_id)?.name ?? sel.category_id;
+
+  return (
+    <div
+      className={isGlass
+        ? 'glass-1 rounded-2xl p-4 text-sm'
+        : 'rounded-xl border border-surface-200 bg-white p-4 text-sm dark:border-surface-700 dark:bg-surface-900'
+      }
+    >
+      <div className="mb-3 flex items-start justify-between gap-3">
+        <p className="font-semibold text-surface-900 dark:text-surface-100">
+          {name || 'This build'} <span className="font-normal text-surface-400">&rarr;</span> {other.name || 'Untitled build'}
+        </p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs font-medium text-surface-500 hover:text-surface-700 dark:text-surface-400 dark:hover:text-surface-200"
+        >
+          Close
+        </button>
+      </div>
+
+      {unchanged ? (
+        <p className="text-surface-500 dark:text-surface-400">Both builds have the same components.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {diff.added.map((sel) => (
+            <li key={`add-${sel.category_id}-${sel.product.id}`} className="text-green-700 dark:text-green-400">
+              + <span className="font-medium">{categoryName(sel)}:</span> <SelectionLabel sel={sel} />
+            </li>
+          ))}
+          {diff.removed.map((sel) => (
+            <li key={`rm-${sel.category_id}-${sel.product.id}`} className="text-red-600 dark:text-red-400">
+              &minus; <span className="font-medium">{categoryName(sel)}:</span> <SelectionLabel sel={sel} />
+            </li>
+          ))}
+          {diff.changed.map(({ category, before, after }) => (
+            <li key={`chg-${category}-${before.product.id}`} className="text-amber-700 dark:text-amber-400">
+              ~ <span className="font-medium">{categoryName(before)}:</span> <SelectionLabel sel={before} />
+              <span className="text-surface-400"> &rarr; </span>
+              <SelectionLabel sel={after} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-3 border-t border-surface-200 pt-2 text-surface-600 dark:border-surface-700 dark:text-surface-300">
+        Price difference:{' '}
+        <span
+          className={`font-semibold ${
+            diff.priceDelta > 0
+              ? 'text-red-600 dark:text-red-400'
+              : diff.priceDelta < 0
+                ? 'text-green-700 dark:text-green-400'
+                : ''
+          }`}
+        >
+          {diff.priceDelta > 0 ? '+' : diff.priceDelta < 0 ? '−' : ''}
+          {formatUsd(Math.abs(diff.priceDelta))}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Builder header controls for the build library: switch, create, duplicate,
+ * rename, delete and diff builds, plus undo/redo for the active build.
+ */
+export default function BuildSwitcher() {
+  const {
+    builds,
+    activeBuildId,
+    createBuild,
+    duplicateBuild,
+    renameBuild,
+    switchBuild,
+    deleteBuild,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useBuild();
+  const isGlass = useGlassMode();
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [diffId, setDiffId] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    function handleClick(e: MouseEvent) {
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(e.target as Node) &&
+        buttonRef.current &&
+        !buttonRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false);
+        setEditingId(null);
+      }
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), leaving text fields their own undo
+  useEffect(() => {
+    function handleKey(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    }
+    document.addEventListener('keydown', handleKey);
+    return () => document.removeEventListener('keydown', handleKey);
+  }, [undo, redo]);
+
+  const active = builds.find((b) => b.id === activeBuildId);
+  const visibleDiffId = diffId && diffId !== activeBuildId && builds.some((b) => b.id === diffId) ? diffId : null;
+
+  function startRename(id: string, current: string) {
+    setEditingId(id);
+    setEditName(current);
+  }
+
+  function commitRename() {
+    if (editingId) renameBuild(editingId, editName.trim().slice(0, 100) || 'Untitled build');
+    setEditingId(null);
+  }
+
+  function handleDelete(id: string, buildName: string, itemCount: number) {
+    if (itemCount > 0 && !window.confirm(`Delete "${buildName}" from this browser?`)) return;
+    deleteBuild(id);
+  }
+
+  const secondaryBtn = isGlass
+    ? 'glass-btn-secondary rounded-lg px-2.5 py-2 text-sm font-medium disabled:opacity-40'
+    : 'rounded-lg border border-surface-300 bg-white px-2.5 py-2 text-sm font-medium text-surface-700 transition-colors hover:bg-surface-100 disabled:opacity-40 disabled:hover:bg-white dark:border-surface-600 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700';
+  const rowAction = 'rounded px-1.5 py-0.5 text-xs text-surface-500 hover:bg-surface-100 hover:text-surface-800 dark:text-surface-400 dark:hover:bg-surface-700 dark:hover:text-surface-100';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative">
+          <button
+            ref={buttonRef}
+            type="button"
+            onClick={() => setOpen((prev) => !prev)}
+            aria-expanded={open}
+            aria-haspopup="true"
+            className={`${secondaryBtn} inline-flex max-w-[16rem] items-center gap-1.5 !px-3`}
+          >
+            <span className="truncate">{active?.name || 'Untitled build'}</span>
+            <span className="shrink-0 text-xs text-surface-400">({builds.length})</span>
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="h-4 w-4 shrink-0" aria-hidden="true">
+              <path fillRule="evenodd" d="M5.22 8.22a.75.75 0 0 1 1.06 0L10 11.94l3.72-3.72a.75.75 0 1 1 1.06 1.06l-4.25 4.25a.75.75 0 0 1-1.06 0L5.22 9.28a.75.75 0 0 1 0-1.06Z" clipRule="evenodd" />
+            </svg>
+          </button>
+
+          {open && (
+            <div
+              ref={panelRef}
+              className={isGlass
+                ? 'absolute left-0 top-full z-50 mt-2 w-80 glass-2 rounded-xl p-2 shadow-lg'
+                : 'absolute left-0 top-full z-50 mt-2 w-80 rounded-lg border border-surface-200 bg-white p-2 shadow-lg dark:border-surface-600 dark:bg-surface-800'
+              }
+            >
+              <p className="px-2 pb-1 pt-1 text-xs font-semibold uppercase tracking-wide text-surface-400">
+                Your builds
+              </p>
+              <ul className="max-h-72 overflow-y-auto">
+                {builds.map((b) => (
+                  <li
+                    key={b.id}
+                    className={`flex items-center gap-2 rounded-md px-2 py-1.5 ${
+                      b.id === activeBuildId ? 'bg-primary-50 dark:bg-primary-900/20' : ''
+                    }`}
+                  >
+                    {editingId === b.id ? (
+                      <input
+                        type="text"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        maxLength={100}
+                        autoFocus
+                        aria-label="Build name"
+                        className="min-w-0 flex-1 rounded border border-surface-300 bg-white px-2 py-0.5 text-sm text-surface-900 outline-none focus:border-primary-500 dark:border-surface-600 dark:bg-surface-900 dark:text-surface-100"
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          switchBuild(b.id);
+                          setOpen(false);
+                        }}
+                        className="min-w-0 flex-1 text-left"
+                      >
+                        <span className="block truncate text-sm font-medium text-surface-900 dark:text-surface-100">
+                          {b.name || 'Untitled build'}
+                        </span>
+                        <span className="block text-xs text-surface-500 dark:text-surface-400">
+                          {b.itemCount} item{b.itemCount === 1 ? '' : 's'} &middot; {formatUsd(b.totalPrice)}
+                        </span>
+                      </button>
+                    )}
+                    <div className="flex shrink-0 items-center">
+                      {b.id !== activeBuildId && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setDiffId(b.id);
+                            setOpen(false);
+                          }}
+                          className={rowAction}
+                          title="Compare with the current build"
+                        >
+                          Diff
+                        </button>
+                      )}
+                      <button type="button" onClick={() => startRename(b.id, b.name)} className={rowAction}>
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(b.id, b.name, b.itemCount)}
+                        className={`${rowAction} hover:!text-red-600`}
+                        aria-label={`Delete ${b.name}`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="mt-1 flex gap-2 border-t border-surface-200 px-2 pt-2 dark:border-surface-700">
+                <button
+                  type="button"
+                  onClick={() => {
+                    createBuild();
+                    setOpen(false);
+                  }}
+                  className="text-sm font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400"
+                >
+                  + New build
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    duplicateBuild();
+                    setOpen(false);
+                  }}
+                  className="text-sm font-medium text-surface-600 hover:text-surface-800 dark:text-surface-300 dark:hover:text-surface-100"
+                >
+                  Duplicate current
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <button type="button" onClick={undo} disabled={!canUndo} className={secondaryBtn} title="Undo (Ctrl+Z)" aria-label="Undo">
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="h-4 w-4" aria-hidden="true">
+            <path fillRule="evenodd" d="M7.793 2.232a.75.75 0 0 1-.025 1.06L3.622 7.25h10.003a5.375 5.375 0 0 1 0 10.75H10.75a.75.75 0 0 1 0-1.5h2.875a3.875 3.875 0 0 0 0-7.75H3.622l4.146 3.957a.75.75 0 0 1-1.036 1.085l-5.5-5.25a.75.75 0 0 1 0-1.085l5.5-5.25a.75.75 0 0 1 1.06.025Z" clipRule="evenodd" />
+          </svg>
+        </button>
+        <button type="button" onClick={redo} disabled={!canRedo} className={secondaryBtn} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="h-4 w-4 -scale-x-100" aria-hidden="true">
+            <path fillRule="evenodd" d="M7.793 2.232a.75.75 0 0 1-.025 1.06L3.622 7.25h10.003a5.375 5.375 0 0 1 0 10.75H10.75a.75.75 0 0 1 0-1.5h2.875a3.875 3.875 0 0 0 0-7.75H3.622l4.146 3.957a.75.75 0 0 1-1.036 1.085l-5.5-5.25a.75.75 0 0 1 0-1.085l5.5-5.25a.75.75 0 0 1 1.06.025Z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      {visibleDiffId && <BuildDiffPanel otherId={visibleDiffId} onClose={() => setDiffId(null)} />}
+    </div>
+  );
+}
@@ -5,9 +5,10 @@ import { useBuild } from '../../context/BuildContext';
 import { useGlassMode } from '../../context/GlassModeContext';
 import CategoryRow from './CategoryRow';
 import TotalRow from './TotalRow';
+import BuyBuildPanel from './BuyBuildPanel';
 
 interface BuilderTableProps {
-  onChooseProduct: (categoryId: CategoryId) => void;
+  onChooseProduct: (categoryId: CategoryId, replaceProductId?: string) => void;
   onViewDetail: (product: Product) => void;
 }
 
@@ -18,7 +19,7 @@ interface TreeRow {
 }
 
 export default function BuilderTable({ onChooseProduct, onViewDetail }: BuilderTableProps) {
-  const { getSelection } = useBuild();
+  const { getSelections } = useBuild();
 
   /** Build a flat list of categories with tree metadata for rendering. */
   const treeRows = useMemo<TreeRow[]>(() => {
@@ -71,7 +72,7 @@ export default function BuilderTable({ onChooseProduct, onViewDetail }: BuilderT
               <CategoryRow
                 key={row.category.id}
                 category={row.category}
-                selection={getSelection(row.category.id)}
+                selections={getSelections(row.category.id)}
                 onChoose={onChooseProduct}
                 onViewDetail={onViewDetail}
                 isChild={row.isChild}
@@ -91,7 +92,7 @@ export default function BuilderTable({ onChooseProduct, onViewDetail }: BuilderT
           <CategoryRow
             key={row.category.id}
             category={row.category}
-            selection={getSelection(row.category.id)}
+            selections={getSelections(row.category.id)}
             onChoose={onChooseProduct}
             onViewDetail={onViewDetail}
             isChild={row.isChild}
@@ -101,6 +102,8 @@ export default function BuilderTable({ onChooseProduct, onViewDetail }: BuilderT
         <TotalRow />
       </div>
 
+      <BuyBuildPanel />
+
       {/* Compatibility note */}
       <div className={`mt-4 rounded-lg border px-4 py-3 ${
         isGlass
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { useGlassMode } from '../../context/GlassModeContext';
+import { useRegion } from '../../context/RegionContext';
+import { useCartOptimizer } from '../../hooks/useCartOptimizer';
+import { REGIONS, formatCurrency } from '../../lib/currency';
+import type { StoreOrder } from '../../lib/cartOptimizer';
+import CouponChip from '../shared/CouponChip';
+
+function StoreOrderCard({ order, format }: { order: StoreOrder; format: (amount: number) => string }) {
+  const isGlass = useGlassMode();
+  const { store } = order;
+  // Unknown flat rate below the free-shipping threshold (or with none) is not "free"
+  const shippingUnknown =
+    order.shipping === 0 &&
+    store.shippingCost === null &&
+    order.coupon?.discount_type !== 'free_shipping' &&
+    (store.freeShippingMin === null || order.subtotal < store.freeShippingMin);
+
+  return (
+    <div className={isGlass ? 'bg-white/30 rounded-xl p-3' : 'rounded-lg border border-surface-200 bg-surface-50 p-3 dark:border-surface-700 dark:bg-surface-800'}>
+      <div className="mb-2 flex items-baseline justify-between gap-2">
+        <a
+          href={store.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-semibold text-surface-900 hover:text-primary-600 hover:underline dark:text-surface-100 dark:hover:text-primary-400"
+        >
+          {store.name}
+        </a>
+        <span className="text-sm font-bold text-surface-900 dark:text-surface-100">{format(order.total)}</span>
+      </div>
+
+      <ul className="space-y-1 text-xs">
+        {/* The same product can be in a build more than once */}
+        {order.lines.map(({ line, offer }, i) => (
+          <li key={`${line.productId}-${i}`} className="flex items-baseline justify-between gap-2">
+            <span className="min-w-0 truncate text-surface-700 dark:text-surface-300">
+              {line.name}
+              {line.quantity > 1 && <span className="ml-1 text-surface-500 dark:text-surface-400">&times;{line.quantity}</span>}
+            </span>
+            <span className="shrink-0">
+              {offer.url ? (
+                <a
+                  href={offer.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-primary-600 hover:underline dark:text-primary-400"
+                >
+                  {format(offer.price * line.quantity)}
+                </a>
+              ) : (
+                <span className="text-surface-600 dark:text-surface-300">{format(offer.price * line.quantity)}</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <dl className="mt-2 space-y-0.5 border-t border-surface-200 pt-2 text-[0.6875rem] text-surface-500 dark:border-surface-700 dark:text-surface-400">
+        <div className="flex justify-between">
+          <dt>Subtotal</dt>
+          <dd>{format(order.subtotal)}</dd>
+        </div>
+        {order.coupon && (
+          <div className="flex items-center justify-between gap-2">
+            <dt><CouponChip coupon={order.coupon} /></dt>
+            <dd className="text-emerald-600 dark:text-emerald-400">
+              {order.discount > 0 ? `-${format(order.discount)}` : 'applied'}
+            </dd>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <dt>Shipping</dt>
+          <dd>
+            {shippingUnknown ? 'not listed' : order.shipping === 0 ? 'Free' : format(order.shipping)}
+          </dd>
+        </div>
+        {order.shipping > 0 && store.freeShippingMin !== null && (
+          <p className="text-right">
+            Free from {format(store.freeShippingMin)} ({format(store.freeShippingMin - order.subtotal)} more)
+          </p>
+        )}
+      </dl>
+    </div>
+  );
+}
+
+/** "Buy this build": the cheapest combination of stores, under the build total */
+export default function BuyBuildPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const isGlass = useGlassMode();
+  const { region } = useRegion();
+  const { plan, currency, loading } = useCartOptimizer();
+
+  if (!plan || plan.orders.length === 0) return null;
+
+  const format = (amount: number) => formatCurrency(amount, currency, REGIONS[region].locale);
+  const savings = plan.naiveTotal - plan.total;
+
+  return (
+    <div className={`mt-4 shadow-sm ${
+      isGlass
+        ? 'glass-1 rounded-2xl'
+        : 'rounded-xl border border-surface-200 dark:border-surface-700 bg-white dark:bg-surface-900'
+    }`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center justify-between gap-3 px-4 py-3 text-left transition-colors hover:bg-surface-50 dark:hover:bg-surface-800/60"
+        aria-expanded={isOpen}
+      >
+        <span>
+          <span className="block text-sm font-semibold text-surface-900 dark:text-surface-100">Buy this build</span>
+          <span className="block text-xs text-surface-500 dark:text-surface-400">
+            {plan.orders.length} {plan.orders.length === 1 ? 'store' : 'stores'} &middot; {format(plan.total)} with shipping and coupons
+            {savings >= 1 && (
+              <span className="text-emerald-600 dark:text-emerald-400">
+                {' '}&middot; {format(savings)} less than each item's cheapest store
+              </span>
+            )}
+            {loading && ' · updating...'}
+          </span>
+        </span>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+          className={`w-4 h-4 shrink-0 text-surface-500 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          aria-hidden="true"
+        >
+          <path
+            fillRule="evenodd"
+            d="M5.22 8.22a.75.75 0 0 1 1.06 0L10 11.94l3.72-3.72a.75.75 0 1 1 1.06 1.06l-4.25 4.25a.75.75 0 0 1-1.06 0L5.22 9.28a.75.75 0 0 1 0-1.06Z"
+            clipRule="evenodd"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-surface-200 dark:border-surface-700 px-4 py-4">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {plan.orders.map((order) => (
+              <StoreOrderCard key={order.store.id} order={order} format={format} />
+            ))}
+          </div>
+          {plan.unavailable.length > 0 && (
+            <p className="mt-3 text-xs text-surface-500 dark:text-surface-400">
+              Not available from a store that ships to you: {plan.unavailable.map((line) => line.name).join(', ')}
+            </p>
+          )}
+          <p className="mt-3 text-[0.6875rem] text-surface-400 dark:text-surface-500">
+            In-stock prices from today's listings; one coupon per store. Shipping and coupon terms can change, so check the total at checkout.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { TARGET_PEAK_SPL_DB, type PowerMatch, type PowerMatchStatus } from '../../lib/powerMatching';
+import { formatPowerMw } from '../../lib/categories';
+
+interface PowerMatchIndicatorProps {
+  match: PowerMatch;
+  /** 'compact' is the pill used in builder rows; 'full' adds the numbers */
+  variant?: 'compact' | 'full';
+}
+
+const STATUS_STYLES: Record<PowerMatchStatus, { label: string; className: string }> = {
+  ok: {
+    label: 'Power OK',
+    className: 'bg-green-100 text-green-700 ring-green-300 dark:bg-green-900/30 dark:text-green-400 dark:ring-green-500/40',
+  },
+  marginal: {
+    label: 'Power marginal',
+    className: 'bg-amber-100 text-amber-700 ring-amber-300 dark:bg-amber-900/30 dark:text-amber-400 dark:ring-amber-500/40',
+  },
+  insufficient: {
+    label: 'Underpowered',
+    className: 'bg-red-100 text-red-700 ring-red-300 dark:bg-red-900/30 dark:text-red-400 dark:ring-red-500/40',
+  },
+};
+
+function describe(match: PowerMatch): string {
+  const headroom = `${match.headroomDb >= 0 ? '+' : ''}${match.headroomDb.toFixed(1)} dB`;
+  const base =
+    `About ${formatPowerMw(match.availableMw)} into ${Math.round(match.impedanceOhms)} Ω reaches ` +
+    `${match.maxSplDb.toFixed(0)} dB SPL (${headroom} vs the ${TARGET_PEAK_SPL_DB} dB peak target; ` +
+    `needs ${formatPowerMw(match.requiredMw)}).`;
+  if (match.status === 'ok') return `${base} The amp drives this comfortably.`;
+  if (match.status === 'marginal') return `${base} Fine at normal volume, but loud peaks may clip.`;
+  return `${base} This amp can't drive it to a healthy volume -- consider a more powerful amp.`;
+}
+
+export default function PowerMatchIndicator({ match, variant = 'compact' }: PowerMatchIndicatorProps) {
+  const style = STATUS_STYLES[match.status];
+  const description = describe(match);
+
+  return (
+    <span
+      className={`inline-flex shrink-0 items-center gap-1 rounded-md px-1.5 py-0.5 text-[0.625rem] font-bold ring-1 ${style.className}`}
+      title={description}
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="h-3 w-3" aria-hidden="true">
+        <path d="M11.983 1.907a.75.75 0 0 0-1.292-.657l-8.5 9.5A.75.75 0 0 0 2.75 12h6.572l-1.305 6.093a.75.75 0 0 0 1.292.657l8.5-9.5A.75.75 0 0 0 17.25 8h-6.572l1.305-6.093Z" />
+      </svg>
+      {style.label}
+      {variant === 'full' && (
+        <span className="font-mono font-medium opacity-80">
+          · {match.maxSplDb.toFixed(0)} dB max
+        </span>
+      )}
+      <span className="sr-only">: {description}</span>
+    </span>
+  );
+}
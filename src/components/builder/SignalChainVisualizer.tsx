@@ -1,8 +1,10 @@
-import type { CategoryId, BuildSelection } from '../../types';
+import type { CategoryId, BuildItems, BuildSelection } from '../../types';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { getBuildPowerMatch } from '../../lib/powerMatching';
+import PowerMatchIndicator from './PowerMatchIndicator';
 
 interface SignalChainVisualizerProps {
-  items: Map<CategoryId, BuildSelection>;
+  items: BuildItems;
 }
 
 /** Output categories -- only one is used per build */
@@ -146,15 +148,17 @@ export default function SignalChainVisualizer({ items }: SignalChainVisualizerPr
   const isGlass = useGlassMode();
   // Determine which output is selected
   const output = OUTPUT_CATEGORIES.find((cat) => items.has(cat.categoryId));
-  const outputSelection = output ? items.get(output.categoryId) : undefined;
+  // The chain follows the first product in each category
+  const outputSelection = output ? items.get(output.categoryId)?.[0] : undefined;
 
-  const dacSelection = items.get('dac');
-  const ampSelection = items.get('amp');
+  const dacSelection = items.get('dac')?.[0];
+  const ampSelection = items.get('amp')?.[0];
   const dacIsCombo = isDacAmpCombo(dacSelection);
 
   // If the DAC is a combo unit and no separate amp is selected,
   // show a single combined "DAC/Amp" node instead of two separate nodes
   const showComboNode = dacIsCombo && !ampSelection;
+  const powerMatch = getBuildPowerMatch(items);
 
   const iconClass = 'h-5 w-5';
 
@@ -315,6 +319,15 @@ export default function SignalChainVisualizer({ items }: SignalChainVisualizerPr
       <div className="flex sm:hidden flex-col items-center gap-1 py-2">
         {renderMobileChain()}
       </div>
+
+      {powerMatch && (
+        <div className="mt-2 flex flex-wrap items-center justify-center gap-2 text-[0.6875rem] text-surface-500 dark:text-surface-400">
+          <PowerMatchIndicator match={powerMatch} variant="full" />
+          <span>
+            {powerMatch.sourceCategoryId === 'amp' ? 'Amp' : 'DAC/Amp'} → {powerMatch.outputCategoryId === 'iem' ? 'IEM' : 'Headphone'} at {Math.round(powerMatch.impedanceOhms)} Ω
+          </span>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,9 +1,10 @@
 import { useState, useCallback } from 'react';
-import type { CategoryId, Product } from '../../types';
+import type { BuildSelection, CategoryId, Product } from '../../types';
 import { useBuild } from '../../context/BuildContext';
 import { useGlassMode } from '../../context/GlassModeContext';
 import { supabase } from '../../lib/supabase';
 import { STARTER_BUILDS, type StarterBuild } from '../../lib/starterBuilds';
+import { groupBuildItems } from '../../lib/buildItems';
 
 const TIER_COLORS: Record<string, { bg: string; text: string; border: string }> = {
   '$50': {
@@ -147,7 +148,7 @@ function StarterBuildCard({ build, onLoad, loading }: StarterBuildCardProps) {
 }
 
 export default function StarterBuildCards() {
-  const { setProduct, setName, setDescription, clearBuild } = useBuild();
+  const { startBuildFrom } = useBuild();
   const isGlass = useGlassMode();
   const [loading, setLoading] = useState<string | null>(null);
   const [loaded, setLoaded] = useState(false);
@@ -183,23 +184,15 @@ export default function StarterBuildCards() {
           productMap.set(p.id, p as Product);
         }
 
-        // Clear existing build first
-        clearBuild();
-
-        // Small delay to let clear propagate
-        await new Promise((resolve) => setTimeout(resolve, 50));
-
-        // Set the build name and description
-        setName(build.name);
-        setDescription(build.description);
-
-        // Set each product into the build
+        // Assemble the selections, then load them in a single (undoable) step
+        const selections: BuildSelection[] = [];
         for (const item of build.items) {
           const product = productMap.get(item.productId);
           if (product) {
-            setProduct(item.categoryId as CategoryId, product);
+            selections.push({ category_id: item.categoryId as CategoryId, product, quantity: 1 });
           }
         }
+        startBuildFrom({ items: groupBuildItems(selections), name: build.name, description: build.description });
 
         setLoaded(true);
         setTimeout(() => setLoaded(false), 3000);
@@ -209,7 +202,7 @@ export default function StarterBuildCards() {
         setLoading(null);
       }
     },
-    [setProduct, setName, setDescription, clearBuild]
+    [startBuildFrom]
   );
 
   const toggleButton = (
@@ -1,9 +1,19 @@
 import { useBuild } from '../../context/BuildContext';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { useRegion } from '../../context/RegionContext';
+import { useRegionalTotal } from '../../hooks/useRegionalTotal';
+import { REGIONS, formatCurrency } from '../../lib/currency';
 
 export default function TotalRow() {
-  const { totalPrice, itemCount } = useBuild();
+  const { itemCount } = useBuild();
+  const { region } = useRegion();
+  const { total, currency, fallbackCount } = useRegionalTotal();
   const isGlass = useGlassMode();
+  const formattedTotal = formatCurrency(total, currency, REGIONS[region].locale);
+  // Only worth noting outside the US, where a fallback means a converted US price
+  const note = region !== 'us' && fallbackCount > 0
+    ? `${fallbackCount} ${fallbackCount === 1 ? 'item' : 'items'} converted from US prices`
+    : null;
 
   return (
     <>
@@ -25,8 +35,13 @@ export default function TotalRow() {
         </td>
         <td className="px-4 py-4 text-right">
           <span className="text-lg font-bold text-surface-900 dark:text-surface-100">
-            ${totalPrice.toFixed(2)}
+            {formattedTotal}
           </span>
+          {note && (
+            <span className="block text-[0.6875rem] text-surface-400 dark:text-surface-500">
+              {note}
+            </span>
+          )}
         </td>
         <td className="px-4 py-4">{/* Remove column spacer */}</td>
       </tr>
@@ -47,9 +62,14 @@ export default function TotalRow() {
             </span>
           </div>
           <span className="text-lg font-bold text-surface-900 dark:text-surface-100">
-            ${totalPrice.toFixed(2)}
+            {formattedTotal}
           </span>
         </div>
+        {note && (
+          <p className="mt-1 text-right text-[0.6875rem] text-surface-400 dark:text-surface-500">
+            {note}
+          </p>
+        )}
       </div>
     </>
   );
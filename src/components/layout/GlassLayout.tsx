@@ -3,6 +3,7 @@ import { GlassModeProvider } from '../../context/GlassModeContext';
 import Header from './Header';
 import Footer from './Footer';
 import PriceAlertBanner from '../shared/PriceAlertBanner';
+import CompareTray from '../shared/CompareTray';
 
 export default function GlassLayout() {
   return (
@@ -14,6 +15,7 @@ export default function GlassLayout() {
           <PriceAlertBanner />
           <Outlet />
         </main>
+        <CompareTray />
         <Footer />
       </div>
     </GlassModeProvider>
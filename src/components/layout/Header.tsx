@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import { Link, NavLink } from 'react-router-dom';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { useAuth } from '../../context/AuthContext';
 import ThemeToggle from './ThemeToggle';
 import ExperienceModeToggle from './ExperienceModeToggle';
+import RegionSelector from './RegionSelector';
 
 const GLOSSARY_URL = 'https://headphones.com/blogs/features/the-glossary-of-audio-measurements-and-terms';
 
@@ -62,6 +64,7 @@ function ExternalNavItem({ href, label, isGlass }: { href: string; label: string
 export default function Header() {
   const [mobileOpen, setMobileOpen] = useState(false);
   const isGlass = useGlassMode();
+  const { user, profile } = useAuth();
   const homeLink = isGlass ? '/glass' : '/';
 
   return (
@@ -91,7 +94,20 @@ export default function Header() {
           <div className="hidden sm:block">
             <ExperienceModeToggle />
           </div>
+          <RegionSelector />
           <ThemeToggle />
+          <Link
+            to={isGlass ? '/glass/account' : '/account'}
+            className={[
+              'max-w-[9rem] truncate rounded-lg px-3 py-1.5 text-sm font-medium transition-colors',
+              isGlass
+                ? 'text-surface-600 hover:bg-white/40 dark:text-surface-300 dark:hover:bg-white/[0.06]'
+                : 'text-surface-600 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-800',
+            ].join(' ')}
+            title={user?.email ?? 'Sign in'}
+          >
+            {user ? profile?.display_name || 'Account' : 'Sign in'}
+          </Link>
 
           {/* Mobile hamburger */}
           <button
@@ -2,6 +2,7 @@ import { Outlet } from 'react-router-dom';
 import Header from './Header';
 import Footer from './Footer';
 import PriceAlertBanner from '../shared/PriceAlertBanner';
+import CompareTray from '../shared/CompareTray';
 
 export default function Layout() {
   return (
@@ -11,6 +12,7 @@ export default function Layout() {
         <PriceAlertBanner />
         <Outlet />
       </main>
+      <CompareTray />
       <Footer />
     </div>
   );
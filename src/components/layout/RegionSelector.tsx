@@ -0,0 +1,32 @@
+import { useRegion } from '../../context/RegionContext';
+import { useGlassMode } from '../../context/GlassModeContext';
+import { REGIONS, REGION_IDS } from '../../lib/currency';
+import type { RegionId } from '../../types';
+
+export default function RegionSelector() {
+  const { region, setRegion } = useRegion();
+  const isGlass = useGlassMode();
+
+  return (
+    <label className="inline-flex items-center">
+      <span className="sr-only">Region and currency</span>
+      <select
+        value={region}
+        onChange={(e) => setRegion(e.target.value as RegionId)}
+        title="Region: shows stores that ship to you and prices in your currency"
+        className={[
+          'rounded-md border px-2 py-1 text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500/40',
+          isGlass
+            ? 'border-white/30 bg-white/50 text-surface-700 backdrop-blur-sm dark:border-white/10 dark:bg-white/[0.06] dark:text-surface-300'
+            : 'border-surface-300 bg-surface-100 text-surface-600 hover:bg-surface-200 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700',
+        ].join(' ')}
+      >
+        {REGION_IDS.map((id) => (
+          <option key={id} value={id}>
+            {id.toUpperCase()} · {REGIONS[id].currency}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -2,10 +2,12 @@ import type { Product } from '../../types';
 import { isSpinormaCategory, sinadToScore } from '../../lib/categories';
 import { useExperienceMode } from '../../context/ExperienceModeContext';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { useTargetType } from '../../context/TargetTypeContext';
 import PPIBadge from '../shared/PPIBadge';
 import PriceDisplay from '../shared/PriceDisplay';
 import BestValueBadge from '../shared/BestValueBadge';
-import { getDisplayName, getBestModeLabel } from '../../lib/productUtils';
+import CompareButton from '../shared/CompareButton';
+import { getDisplayName, getBestModeLabel, getPpiStats, hasTargetScores } from '../../lib/productUtils';
 
 interface ProductCardProps {
   product: Product;
@@ -26,6 +28,8 @@ export default function ProductCard({
 }: ProductCardProps) {
   const { mode } = useExperienceMode();
   const isGlass = useGlassMode();
+  const { targetType } = useTargetType();
+  const ppiScore = getPpiStats(product, targetType).score;
 
   return (
     <div
@@ -110,7 +114,7 @@ export default function ProductCard({
       {/* PPI Badge */}
       {showPPI && (
         <div className="shrink-0">
-          <PPIBadge score={product.ppi_score} size="sm" label={isSpinormaCategory(product.category_id) ? 'Spinorama' : undefined} />
+          <PPIBadge score={ppiScore} size="sm" label={isSpinormaCategory(product.category_id) ? 'Spinorama' : undefined} target={hasTargetScores(product.category_id) ? targetType : undefined} />
         </div>
       )}
 
@@ -127,14 +131,15 @@ export default function ProductCard({
       {/* Price + Value */}
       <div className="shrink-0 flex items-center gap-1.5">
         <BestValueBadge
-          score={showSinad && product.sinad_db !== null ? sinadToScore(product.sinad_db) : product.ppi_score}
+          score={showSinad && product.sinad_db !== null ? sinadToScore(product.sinad_db) : ppiScore}
           price={product.price}
         />
         <PriceDisplay price={product.price} affiliateUrl={product.affiliate_url} inStock={product.in_stock} discontinued={product.discontinued} />
       </div>
 
-      {/* Action button */}
-      <div className="shrink-0">
+      {/* Action buttons */}
+      <div className="flex shrink-0 items-center gap-1">
+        <CompareButton product={product} />
         {isSelected ? (
           <button
             type="button"
@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import type { CategoryId, ProductFilters, ProductSort, Product } from '../../types';
 import { useProducts, useFilterOptions } from '../../hooks/useProducts';
 import { useBuild } from '../../context/BuildContext';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { useCompare } from '../../context/CompareContext';
+import { MIN_COMPARE, getCompareUrl } from '../../lib/compare';
 import { CATEGORY_MAP, isSinadCategory } from '../../lib/categories';
 import SearchBar from './SearchBar';
 import SortControls from './SortControls';
@@ -14,6 +17,8 @@ interface ProductPickerProps {
   isOpen: boolean;
   onClose: () => void;
   onViewDetail?: (product: Product) => void;
+  /** Product being swapped out; when omitted the pick is added to the category */
+  replaceProductId?: string | null;
 }
 
 const emptyFilters: ProductFilters = {
@@ -38,7 +43,7 @@ const emptyFilters: ProductFilters = {
   micPatterns: [],
 };
 
-export default function ProductPicker({ categoryId, isOpen, onClose, onViewDetail }: ProductPickerProps) {
+export default function ProductPicker({ categoryId, isOpen, onClose, onViewDetail, replaceProductId = null }: ProductPickerProps) {
   const isGlass = useGlassMode();
   const category = CATEGORY_MAP.get(categoryId);
   const showPPI = category?.has_ppi ?? false;
@@ -57,8 +62,10 @@ export default function ProductPicker({ categoryId, isOpen, onClose, onViewDetai
   });
 
   const { brands, retailers, speakerTypes, headphoneDesigns, iemTypes, driverTypes, micConnections, micTypes, micPatterns } = useFilterOptions(categoryId);
-  const { setProduct, getSelection } = useBuild();
-  const currentSelection = getSelection(categoryId);
+  const { addProduct, setProduct, getSelections } = useBuild();
+  const selectedIds = new Set(getSelections(categoryId).map((sel) => sel.product.id));
+  const { items: compareItems, categoryId: compareCategoryId } = useCompare();
+  const compareCount = compareCategoryId === categoryId ? compareItems.length : 0;
   const backdropRef = useRef<HTMLDivElement>(null);
 
   // Reset state when opening
@@ -156,10 +163,14 @@ export default function ProductPicker({ categoryId, isOpen, onClose, onViewDetai
 
   const handleSelect = useCallback(
     (product: Product) => {
-      setProduct(categoryId, product);
+      if (replaceProductId) {
+        setProduct(categoryId, product, replaceProductId);
+      } else {
+        addProduct(categoryId, product);
+      }
       onClose();
     },
-    [categoryId, setProduct, onClose]
+    [categoryId, replaceProductId, addProduct, setProduct, onClose]
   );
 
   function handleSearchChange(value: string) {
@@ -188,12 +199,22 @@ export default function ProductPicker({ categoryId, isOpen, onClose, onViewDetai
         <div className="flex items-center justify-between border-b border-surface-700 px-5 py-4">
           <div>
             <h2 className="text-lg font-bold text-surface-100">
-              {category?.name ?? 'Products'}
+              {replaceProductId ? 'Swap' : selectedIds.size > 0 ? 'Add another' : 'Choose'} {category?.name ?? 'product'}
             </h2>
             <p className="text-sm text-surface-400">
               {total} product{total !== 1 ? 's' : ''} found
             </p>
           </div>
+          <div className="flex items-center gap-2">
+          {compareCount >= MIN_COMPARE && (
+            <Link
+              to={getCompareUrl(compareItems.map((i) => i.id), isGlass)}
+              onClick={onClose}
+              className="rounded-lg border border-primary-500/60 px-3 py-1.5 text-xs font-medium text-primary-300 transition-colors hover:bg-primary-600/20"
+            >
+              Compare ({compareCount})
+            </Link>
+          )}
           <button
             type="button"
             onClick={onClose}
@@ -214,6 +235,7 @@ export default function ProductPicker({ categoryId, isOpen, onClose, onViewDetai
               />
             </svg>
           </button>
+          </div>
         </div>
 
         {/* Search + Sort row */}
@@ -262,7 +284,7 @@ export default function ProductPicker({ categoryId, isOpen, onClose, onViewDetai
                     product={product}
                     onSelect={handleSelect}
                     onViewDetail={onViewDetail}
-                    isSelected={currentSelection?.product.id === product.id}
+                    isSelected={selectedIds.has(product.id)}
                     showPPI={showPPI}
                     showSinad={isSinadCategory(categoryId)}
                   />
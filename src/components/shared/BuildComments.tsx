@@ -0,0 +1,197 @@
+import { useState, useCallback, type FormEvent } from 'react';
+import { useGlassMode } from '../../context/GlassModeContext';
+import { useAuth } from '../../context/AuthContext';
+import {
+  useBuildComments,
+  MAX_COMMENT_DEPTH,
+  MAX_COMMENT_LENGTH,
+  type CommentNode,
+} from '../../hooks/useBuildComments';
+
+const AUTHOR_KEY = 'audiolist_comment_author';
+
+function formatCommentDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+interface CommentFormProps {
+  onSubmit: (body: string, authorName: string) => Promise<string | null>;
+  onCancel?: () => void;
+  placeholder: string;
+  submitLabel: string;
+}
+
+function CommentForm({ onSubmit, onCancel, placeholder, submitLabel }: CommentFormProps) {
+  const isGlass = useGlassMode();
+  const { user, profile } = useAuth();
+  const [body, setBody] = useState('');
+  const [authorName, setAuthorName] = useState(() => localStorage.getItem(AUTHOR_KEY) ?? '');
+  const [posting, setPosting] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      if (!body.trim() || posting) return;
+      setPosting(true);
+      setErrorMsg(null);
+      // Signed-in comments carry the account's display name
+      const name = user ? profile?.display_name ?? '' : authorName;
+      const error = await onSubmit(body, name);
+      setPosting(false);
+      if (error) {
+        setErrorMsg(error);
+        return;
+      }
+      if (!user) {
+        try {
+          localStorage.setItem(AUTHOR_KEY, authorName.trim());
+        } catch {
+          // Storage unavailable: the name is just not remembered
+        }
+      }
+      setBody('');
+      onCancel?.();
+    },
+    [body, posting, user, profile, authorName, onSubmit, onCancel]
+  );
+
+  const inputClass = isGlass
+    ? 'w-full glass-input px-3 py-1.5 text-sm text-surface-900 dark:text-surface-100'
+    : 'w-full rounded-md border border-surface-300 bg-white px-3 py-1.5 text-sm text-surface-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-100';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={3}
+        className={inputClass}
+        aria-label={placeholder}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        {!user && (
+          <input
+            type="text"
+            value={authorName}
+            onChange={(e) => setAuthorName(e.target.value)}
+            placeholder="Your name (optional)"
+            maxLength={50}
+            className={`sm:max-w-[12rem] ${inputClass}`}
+            aria-label="Your name"
+          />
+        )}
+        <button
+          type="submit"
+          disabled={posting || !body.trim()}
+          className="rounded-md bg-primary-600 px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-primary-500 disabled:opacity-50"
+        >
+          {posting ? 'Posting...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md px-3 py-1.5 text-xs font-medium text-surface-500 hover:text-surface-700 dark:text-surface-400 dark:hover:text-surface-200"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      {errorMsg && <p className="text-xs text-red-600 dark:text-red-400">{errorMsg}</p>}
+    </form>
+  );
+}
+
+interface CommentThreadProps {
+  comment: CommentNode;
+  onReply: (body: string, authorName: string, parentId: string) => Promise<string | null>;
+}
+
+function CommentThread({ comment, onReply }: CommentThreadProps) {
+  const [replying, setReplying] = useState(false);
+
+  return (
+    <li>
+      <div className="rounded-lg px-3 py-2">
+        <p className="text-xs text-surface-400 dark:text-surface-500">
+          <span className="font-semibold text-surface-700 dark:text-surface-300">{comment.author_name || 'Anonymous'}</span>
+          {' · '}
+          {formatCommentDate(comment.created_at)}
+        </p>
+        <p className="mt-1 whitespace-pre-line break-words text-sm text-surface-700 dark:text-surface-200">{comment.body}</p>
+        {comment.depth < MAX_COMMENT_DEPTH && !replying && (
+          <button
+            type="button"
+            onClick={() => setReplying(true)}
+            className="mt-1 text-xs font-medium text-surface-500 hover:text-primary-600 dark:text-surface-400 dark:hover:text-primary-400"
+          >
+            Reply
+          </button>
+        )}
+        {replying && (
+          <div className="mt-2">
+            <CommentForm
+              onSubmit={(body, authorName) => onReply(body, authorName, comment.id)}
+              onCancel={() => setReplying(false)}
+              placeholder={`Reply to ${comment.author_name || 'Anonymous'}...`}
+              submitLabel="Reply"
+            />
+          </div>
+        )}
+      </div>
+      {comment.replies.length > 0 && (
+        <ul className="ml-3 space-y-1 border-l border-surface-200 pl-3 dark:border-surface-700">
+          {comment.replies.map((reply) => (
+            <CommentThread key={reply.id} comment={reply} onReply={onReply} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+interface BuildCommentsProps {
+  buildId: string;
+}
+
+export default function BuildComments({ buildId }: BuildCommentsProps) {
+  const isGlass = useGlassMode();
+  const { comments, count, loading, error, postComment } = useBuildComments(buildId);
+
+  const handlePost = useCallback(
+    (body: string, authorName: string) => postComment(body, { authorName }),
+    [postComment]
+  );
+
+  const handleReply = useCallback(
+    (body: string, authorName: string, parentId: string) => postComment(body, { authorName, parentId }),
+    [postComment]
+  );
+
+  return (
+    <section className={isGlass ? 'glass-1 rounded-2xl p-5' : 'rounded-xl border border-surface-200 bg-white p-5 dark:border-surface-700 dark:bg-surface-900'}>
+      <h2 className="mb-3 text-lg font-bold text-surface-900 dark:text-surface-100">
+        Comments {count > 0 && <span className="text-sm font-medium text-surface-400">({count})</span>}
+      </h2>
+
+      <CommentForm onSubmit={handlePost} placeholder="Share your thoughts on this build..." submitLabel="Post Comment" />
+
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">Failed to load comments: {error}</p>}
+
+      {!loading && !error && comments.length === 0 && (
+        <p className="mt-4 text-sm text-surface-400 dark:text-surface-500">No comments yet.</p>
+      )}
+
+      {comments.length > 0 && (
+        <ul className="mt-4 space-y-1">
+          {comments.map((comment) => (
+            <CommentThread key={comment.id} comment={comment} onReply={handleReply} />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
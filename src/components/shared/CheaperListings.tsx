@@ -0,0 +1,57 @@
+import { usePriceListings } from '../../hooks/usePriceListings';
+import { useRegion } from '../../context/RegionContext';
+import { REGIONS, formatCurrency } from '../../lib/currency';
+import type { PriceListing } from '../../types';
+
+const LISTINGS_SHOWN = 3;
+
+type BuyableListing = PriceListing & { price_usd: number };
+
+/** In stock, priced in USD and linked somewhere */
+function isBuyable(listing: PriceListing): listing is BuyableListing {
+  return listing.in_stock && listing.price_usd !== null && Boolean(listing.affiliate_url || listing.product_url);
+}
+
+interface CheaperListingsProps {
+  productId: string;
+  /** Unit price when the build was shared */
+  sharedPrice: number;
+}
+
+/** The cheapest in-stock listings, for an item that got more expensive since it was shared */
+export default function CheaperListings({ productId, sharedPrice }: CheaperListingsProps) {
+  const { listings, loading } = usePriceListings(productId);
+  const { region, currency, convert } = useRegion();
+  const { locale } = REGIONS[region];
+
+  const inStock = listings.filter(isBuyable).slice(0, LISTINGS_SHOWN);
+  if (loading || inStock.length === 0) return null;
+
+  // Shown in the display currency; without an exchange rate, in USD
+  const format = (usd: number) => {
+    const amount = convert(usd);
+    return amount === null ? formatCurrency(usd, 'USD', locale) : formatCurrency(amount, currency, locale);
+  };
+
+  return (
+    <div className="mt-1.5 text-xs text-surface-500 dark:text-surface-400">
+      <span className="font-medium">In stock now:</span>{' '}
+      {inStock.map((listing, i) => (
+        <span key={listing.id}>
+          {i > 0 && ' · '}
+          <a
+            href={listing.affiliate_url ?? listing.product_url ?? undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary-600 hover:underline dark:text-primary-400"
+          >
+            {listing.retailer?.name ?? listing.retailer_id} {format(listing.price_usd)}
+          </a>
+          {listing.price_usd <= sharedPrice && (
+            <span className="ml-1 text-emerald-600 dark:text-emerald-400">(at or below shared price)</span>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -1,17 +1,19 @@
 import { useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { CategoryId, BuildItem, Product } from '../../types';
-import { useBuild } from '../../context/BuildContext';
+import type { CategoryId, BuildItem, BuildSelection, Product } from '../../types';
+import { useBuild, type BuildOrigin } from '../../context/BuildContext';
 import { supabase } from '../../lib/supabase';
+import { groupBuildItems } from '../../lib/buildItems';
 
 interface CloneBuildButtonProps {
   items: BuildItem[];
-  buildName: string;
+  /** The shared build being cloned; its name titles the copy */
+  source: BuildOrigin;
 }
 
-export default function CloneBuildButton({ items, buildName }: CloneBuildButtonProps) {
+export default function CloneBuildButton({ items, source }: CloneBuildButtonProps) {
   const navigate = useNavigate();
-  const { setProduct, setName, setDescription, clearBuild } = useBuild();
+  const { startBuildFrom } = useBuild();
   const [state, setState] = useState<'idle' | 'loading' | 'done'>('idle');
 
   const handleClone = useCallback(async () => {
@@ -46,18 +48,19 @@ export default function CloneBuildButton({ items, buildName }: CloneBuildButtonP
         }
       }
 
-      clearBuild();
-      await new Promise((resolve) => setTimeout(resolve, 50));
-
-      setName(`Copy of ${buildName}`);
-      setDescription('');
-
+      const selections: BuildSelection[] = [];
       for (const item of items) {
         const product = productMap.get(item.product_id);
         if (product) {
-          setProduct(item.category_id as CategoryId, product);
+          selections.push({ category_id: item.category_id as CategoryId, product, quantity: item.quantity });
         }
       }
+      startBuildFrom({
+        items: groupBuildItems(selections),
+        name: `Copy of ${source.name}`.slice(0, 100),
+        description: '',
+        forkedFrom: source,
+      });
 
       setState('done');
       setTimeout(() => {
@@ -67,7 +70,7 @@ export default function CloneBuildButton({ items, buildName }: CloneBuildButtonP
       console.error('Clone error:', err);
       setState('idle');
     }
-  }, [items, buildName, setProduct, setName, setDescription, clearBuild, navigate]);
+  }, [items, source, startBuildFrom, navigate]);
 
   return (
     <button
@@ -0,0 +1,76 @@
+import type { Product } from '../../types';
+import { useCompare } from '../../context/CompareContext';
+import { useToast } from '../../context/ToastContext';
+import { MAX_COMPARE } from '../../lib/compare';
+
+interface CompareButtonProps {
+  product: Product;
+  /** 'icon' for dense rows (ProductCard), 'button' for detail views */
+  variant?: 'icon' | 'button';
+}
+
+export default function CompareButton({ product, variant = 'icon' }: CompareButtonProps) {
+  const { addItem, removeItem, isInCompare, categoryId } = useCompare();
+  const { addToast } = useToast();
+  const active = isInCompare(product.id);
+
+  function handleClick(e: React.MouseEvent) {
+    e.stopPropagation();
+    if (active) {
+      removeItem(product.id);
+      return;
+    }
+    const startsNewTray = categoryId !== null && categoryId !== product.category_id;
+    const result = addItem(product);
+    if (!result.added && result.reason === 'full') {
+      addToast(`You can compare up to ${MAX_COMPARE} products at a time`, 'error');
+    } else if (startsNewTray) {
+      addToast('Started a new comparison -- only products of the same category can be compared', 'info');
+    }
+  }
+
+  const label = active ? 'Remove from compare' : 'Add to compare';
+
+  if (variant === 'button') {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        aria-pressed={active}
+        className={`inline-flex items-center gap-1.5 rounded-lg border px-3 py-2 text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500/40 ${
+          active
+            ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300'
+            : 'border-surface-300 text-surface-700 hover:bg-surface-100 dark:border-surface-600 dark:text-surface-300 dark:hover:bg-surface-800'
+        }`}
+      >
+        <CompareIcon className="h-4 w-4" />
+        {active ? 'In compare' : 'Compare'}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={active}
+      aria-label={label}
+      title={label}
+      className={`rounded-md p-1.5 transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500/40 ${
+        active
+          ? 'bg-primary-600/30 text-primary-300'
+          : 'text-surface-400 hover:bg-surface-700 hover:text-surface-100'
+      }`}
+    >
+      <CompareIcon className="h-4 w-4" />
+    </button>
+  );
+}
+
+function CompareIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={className} aria-hidden="true">
+      <path d="M2 4.75A.75.75 0 0 1 2.75 4h5.5a.75.75 0 0 1 .75.75v10.5a.75.75 0 0 1-.75.75h-5.5a.75.75 0 0 1-.75-.75V4.75Zm9 0a.75.75 0 0 1 .75-.75h5.5a.75.75 0 0 1 .75.75v10.5a.75.75 0 0 1-.75.75h-5.5a.75.75 0 0 1-.75-.75V4.75Z" />
+    </svg>
+  );
+}
@@ -0,0 +1,76 @@
+import { Link, useLocation } from 'react-router-dom';
+import { useCompare } from '../../context/CompareContext';
+import { useGlassMode } from '../../context/GlassModeContext';
+import { CATEGORY_MAP } from '../../lib/categories';
+import { MAX_COMPARE, MIN_COMPARE, getCompareUrl } from '../../lib/compare';
+
+/** Floating tray listing the products picked for comparison */
+export default function CompareTray() {
+  const { items, categoryId, removeItem, clear } = useCompare();
+  const isGlass = useGlassMode();
+  const { pathname } = useLocation();
+
+  if (items.length === 0 || pathname.endsWith('/compare')) return null;
+
+  const ready = items.length >= MIN_COMPARE;
+  const categoryName = categoryId ? CATEGORY_MAP.get(categoryId)?.name : null;
+
+  return (
+    <div
+      className={`fixed bottom-4 left-1/2 z-40 flex w-[min(40rem,calc(100%-2rem))] -translate-x-1/2 items-center gap-3 px-4 py-3 shadow-xl ${
+        isGlass
+          ? 'glass-2 rounded-2xl'
+          : 'rounded-xl border border-surface-200 bg-white dark:border-surface-700 dark:bg-surface-900'
+      }`}
+      role="region"
+      aria-label="Compare tray"
+    >
+      <div className="min-w-0 flex-1">
+        <p className="text-xs font-semibold text-surface-700 dark:text-surface-300">
+          Compare {categoryName ?? 'products'} ({items.length}/{MAX_COMPARE})
+        </p>
+        <ul className="mt-1.5 flex flex-wrap gap-1.5">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="inline-flex max-w-[10rem] items-center gap-1 rounded-md bg-surface-100 py-0.5 pl-2 pr-1 text-xs text-surface-700 dark:bg-surface-800 dark:text-surface-300"
+            >
+              <span className="truncate">{item.name}</span>
+              <button
+                type="button"
+                onClick={() => removeItem(item.id)}
+                className="shrink-0 rounded p-0.5 text-surface-400 hover:text-red-500"
+                aria-label={`Remove ${item.name} from compare`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="h-3 w-3" aria-hidden="true">
+                  <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        <button
+          type="button"
+          onClick={clear}
+          className="text-xs font-medium text-surface-500 hover:text-surface-700 dark:text-surface-400 dark:hover:text-surface-200"
+        >
+          Clear
+        </button>
+        {ready ? (
+          <Link
+            to={getCompareUrl(items.map((i) => i.id), isGlass)}
+            className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-500"
+          >
+            Compare
+          </Link>
+        ) : (
+          <span className="text-xs text-surface-400 dark:text-surface-500">
+            Add {MIN_COMPARE - items.length} more
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Link } from 'react-router-dom';
+import type { Build } from '../../types';
+
+/** The build a shared build was forked from (builds.forked_from) */
+export type ForkParent = Pick<Build, 'share_code' | 'name' | 'is_public' | 'is_flagged'>;
+
+/** "forked from <name>"; unlisted or flagged parents are not linked */
+export default function ForkedFrom({ parent }: { parent: ForkParent }) {
+  if (!parent.is_public || parent.is_flagged) return <>forked from a private build</>;
+  return (
+    <>
+      forked from{' '}
+      <Link to={`/build/${parent.share_code}`} className="text-primary-600 hover:underline dark:text-primary-400">
+        {parent.name || 'Untitled Build'}
+      </Link>
+    </>
+  );
+}
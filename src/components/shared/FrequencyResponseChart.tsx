@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import type { Product } from '../../types';
+import { useGlassMode } from '../../context/GlassModeContext';
+import { useTargetType } from '../../context/TargetTypeContext';
+import { useFrequencyResponse, useFrTarget, useFrSearch, type FrSearchResult } from '../../hooks/useFrequencyResponse';
+import {
+  FR_NORMALIZE_HZ,
+  FR_TICKS,
+  formatHz,
+  getTargetCurveName,
+  normalizeCurve,
+  splAt,
+} from '../../lib/frequencyResponse';
+import { getDisplayName, hasTargetScores } from '../../lib/productUtils';
+import TargetToggle from './TargetToggle';
+
+interface FrequencyResponseChartProps {
+  product: Product;
+}
+
+const PRODUCT_COLOR = '#6366f1';
+const COMPARE_COLOR = '#f59e0b';
+const TARGET_COLOR = '#9ca3af';
+
+/** Measured FR with the selected target and an optional second product overlaid */
+export default function FrequencyResponseChart({ product }: FrequencyResponseChartProps) {
+  const isGlass = useGlassMode();
+  const { targetType, setTargetType } = useTargetType();
+  const { curve, loading } = useFrequencyResponse(product.id);
+
+  const targetName = getTargetCurveName(product, targetType);
+  const target = useFrTarget(targetName);
+
+  const [compareWith, setCompareWith] = useState<FrSearchResult | null>(null);
+  const [query, setQuery] = useState('');
+  const searchResults = useFrSearch(product.category_id, compareWith ? '' : query, product.id);
+  const { curve: compareCurve } = useFrequencyResponse(compareWith?.id);
+
+  const chartData = useMemo(() => {
+    if (!curve) return [];
+
+    // Level-match the target and the overlay to this product at FR_NORMALIZE_HZ
+    const level = splAt(curve.frequencies, curve.spl, FR_NORMALIZE_HZ) ?? 0;
+    const overlays: { key: string; frequencies: number[]; spl: number[] }[] = [];
+    if (target) overlays.push({ key: 'target', frequencies: target.frequencies, spl: normalizeCurve(target.frequencies, target.spl, level) });
+    if (compareCurve) overlays.push({ key: 'compare', frequencies: compareCurve.frequencies, spl: normalizeCurve(compareCurve.frequencies, compareCurve.spl, level) });
+
+    return curve.frequencies.map((hz, i) => {
+      const row: Record<string, number> = { hz, product: curve.spl[i] };
+      for (const overlay of overlays) {
+        const db = splAt(overlay.frequencies, overlay.spl, hz);
+        if (db !== null) row[overlay.key] = Math.round(db * 100) / 100;
+      }
+      return row;
+    });
+  }, [curve, target, compareCurve]);
+
+  const panelClass = isGlass
+    ? 'glass-1 rounded-2xl p-5'
+    : 'rounded-xl border border-surface-200 bg-white p-5 dark:border-surface-700 dark:bg-surface-900';
+
+  if (loading) {
+    return (
+      <div className={panelClass}>
+        <div className="mb-3 h-5 w-40 animate-pulse rounded bg-surface-200 dark:bg-surface-700" />
+        <div className="h-64 animate-pulse rounded bg-surface-100 dark:bg-surface-800" />
+      </div>
+    );
+  }
+
+  // Nothing to show for products without a stored measurement
+  if (!curve) return null;
+
+  return (
+    <div className={panelClass}>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-base font-bold text-surface-900 dark:text-surface-100">
+            Frequency Response
+          </h3>
+          <p className="text-xs text-surface-500 dark:text-surface-400">
+            {curve.rig_type ? `${curve.rig_type} rig` : 'Measured'}
+            {curve.source_domain ? ` · ${curve.source_domain}` : ''}
+            {` · normalized at ${formatHz(FR_NORMALIZE_HZ)} Hz`}
+          </p>
+        </div>
+        {hasTargetScores(product.category_id) && (
+          <TargetToggle targetType={targetType} onChange={setTargetType} />
+        )}
+      </div>
+
+      <ResponsiveContainer width="100%" height={320}>
+        <LineChart data={chartData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+          <XAxis
+            dataKey="hz"
+            type="number"
+            scale="log"
+            domain={[20, 20000]}
+            ticks={FR_TICKS}
+            tickFormatter={formatHz}
+            allowDataOverflow
+            tick={{ fontSize: 11, fill: '#9ca3af' }}
+            stroke="#4b5563"
+            tickLine={false}
+          />
+          <YAxis
+            domain={['dataMin - 5', 'dataMax + 5']}
+            tickFormatter={(v) => `${Math.round(Number(v))}`}
+            tick={{ fontSize: 11, fill: '#9ca3af' }}
+            stroke="#4b5563"
+            tickLine={false}
+            axisLine={false}
+            width={40}
+            unit=" dB"
+          />
+          <Tooltip
+            labelFormatter={(label) => `${Math.round(Number(label))} Hz`}
+            formatter={(value, name) => [`${Number(value).toFixed(1)} dB`, String(name)]}
+            contentStyle={{
+              backgroundColor: '#1f2937',
+              border: '1px solid #374151',
+              borderRadius: '8px',
+              fontSize: '12px',
+              color: '#f9fafb',
+            }}
+            itemStyle={{ color: '#f9fafb' }}
+            labelStyle={{ color: '#9ca3af', marginBottom: '4px' }}
+          />
+          <Legend wrapperStyle={{ fontSize: '11px', paddingTop: '8px' }} />
+          {target && (
+            <Line
+              type="monotone"
+              dataKey="target"
+              name={`Target: ${target.name}`}
+              stroke={TARGET_COLOR}
+              strokeWidth={1.5}
+              strokeDasharray="5 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+          )}
+          <Line
+            type="monotone"
+            dataKey="product"
+            name={getDisplayName(product)}
+            stroke={PRODUCT_COLOR}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+          {compareCurve && compareWith && (
+            <Line
+              type="monotone"
+              dataKey="compare"
+              name={compareWith.name}
+              stroke={COMPARE_COLOR}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+
+      {targetName && !target && (
+        <p className="mt-2 text-xs text-surface-400 dark:text-surface-500">
+          The {targetName} target curve isn't available yet.
+        </p>
+      )}
+
+      {/* Second product overlay */}
+      <div className="relative mt-4">
+        {compareWith ? (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: COMPARE_COLOR }} aria-hidden="true" />
+            <span className="text-surface-700 dark:text-surface-300">
+              Comparing with <span className="font-semibold">{compareWith.name}</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => {
+                setCompareWith(null);
+                setQuery('');
+              }}
+              className="text-xs text-surface-400 hover:text-red-500"
+            >
+              Remove
+            </button>
+          </div>
+        ) : (
+          <>
+            <label htmlFor="fr-compare-search" className="sr-only">
+              Overlay another product
+            </label>
+            <input
+              id="fr-compare-search"
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Overlay another product..."
+              autoComplete="off"
+              className="w-full max-w-sm rounded-lg border border-surface-300 bg-white px-3 py-1.5 text-sm text-surface-900 placeholder:text-surface-400 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-100"
+            />
+            {searchResults.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full max-w-sm overflow-hidden rounded-lg border border-surface-200 bg-white shadow-lg dark:border-surface-700 dark:bg-surface-800">
+                {searchResults.map((result) => (
+                  <li key={result.id}>
+                    <button
+                      type="button"
+                      onClick={() => setCompareWith(result)}
+                      className="w-full px-3 py-2 text-left text-sm text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700"
+                    >
+                      {result.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
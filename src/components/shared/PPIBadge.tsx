@@ -1,10 +1,14 @@
+import type { TargetType } from '../../types';
 import { getPPIColor, getPPILabel, getPPITooltip } from '../../lib/categories';
+import { TARGET_TYPE_LABELS } from '../../lib/productUtils';
 import { useGlassMode } from '../../context/GlassModeContext';
 
 interface PPIBadgeProps {
   score: number | null;
   size?: 'sm' | 'md' | 'lg';
   label?: string;
+  /** Target curve the score was computed against (shown in the tooltip) */
+  target?: TargetType;
 }
 
 const sizeClasses: Record<'sm' | 'md' | 'lg', string> = {
@@ -13,7 +17,7 @@ const sizeClasses: Record<'sm' | 'md' | 'lg', string> = {
   lg: 'text-base px-3 py-1.5',
 };
 
-export default function PPIBadge({ score, size = 'md', label: scoreLabel }: PPIBadgeProps) {
+export default function PPIBadge({ score, size = 'md', label: scoreLabel, target }: PPIBadgeProps) {
   const isGlass = useGlassMode();
 
   if (score === null) {
@@ -27,7 +31,7 @@ export default function PPIBadge({ score, size = 'md', label: scoreLabel }: PPIB
   const isSinad = scoreLabel === 'SINAD';
   const tooltip = isSinad
     ? `SINAD Score: ${display} — ${qualityLabel}. Normalized from raw dB measurement.`
-    : getPPITooltip(score, isSpinorama);
+    : getPPITooltip(score, isSpinorama, target ? TARGET_TYPE_LABELS[target] : undefined);
 
   return (
     <span
@@ -11,12 +11,12 @@ interface PopularPairingsProps {
 
 function PairingCard({ product, count }: { product: Product; count: number }) {
   const isGlass = useGlassMode();
-  const { setProduct, getSelection } = useBuild();
+  const { addProduct, getSelections } = useBuild();
   const category = CATEGORY_MAP.get(product.category_id);
-  const isInBuild = !!getSelection(product.category_id);
+  const isInBuild = getSelections(product.category_id).some((sel) => sel.product.id === product.id);
 
   function handleAdd() {
-    setProduct(product.category_id as CategoryId, product);
+    addProduct(product.category_id as CategoryId, product);
   }
 
   return (
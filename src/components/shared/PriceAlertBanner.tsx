@@ -1,16 +1,51 @@
+import type { ReactNode } from 'react';
 import { Link } from 'react-router-dom';
 import { useWatchlist } from '../../hooks/useWatchlist';
 import { useGlassMode } from '../../context/GlassModeContext';
 
 export default function PriceAlertBanner() {
   const isGlass = useGlassMode();
-  const { alerts, dismissAlert } = useWatchlist();
+  const { alerts, restockAlerts, dismissAlert } = useWatchlist();
 
-  if (alerts.length === 0) return null;
+  // A product can be both back in stock and at its target: show the price drop
+  const priceAlertIds = new Set(alerts.map((item) => item.productId));
+  const banners: { item: (typeof alerts)[number]; title: string; detail: ReactNode }[] = [
+    ...alerts.map((item) => ({
+      item,
+      title: 'Price drop!',
+      detail: (
+        <>
+          is now{' '}
+          <span className="font-bold">${item.lastPrice?.toFixed(0)}</span>{' '}
+          <span className="text-green-600 dark:text-green-400">
+            (your target: ${item.targetPrice?.toFixed(0)})
+          </span>
+        </>
+      ),
+    })),
+    ...restockAlerts
+      .filter((item) => !priceAlertIds.has(item.productId))
+      .map((item) => ({
+        item,
+        title: 'Back in stock!',
+        detail: (
+          <>
+            is available again
+            {item.lastPrice !== null && (
+              <>
+                {' '}from <span className="font-bold">${item.lastPrice.toFixed(0)}</span>
+              </>
+            )}
+          </>
+        ),
+      })),
+  ];
+
+  if (banners.length === 0) return null;
 
   return (
     <div className="space-y-2">
-      {alerts.map((item) => (
+      {banners.map(({ item, title, detail }) => (
         <div
           key={item.productId}
           className={isGlass
@@ -35,18 +70,14 @@ export default function PriceAlertBanner() {
 
           {/* Message */}
           <div className="min-w-0 flex-1 text-sm text-green-800 dark:text-green-200">
-            <span className="font-semibold">Price drop!</span>{' '}
+            <span className="font-semibold">{title}</span>{' '}
             <Link
               to={`/product/${item.productId}`}
               className="font-medium underline hover:text-green-900 dark:hover:text-green-100"
             >
               {item.productName}
             </Link>{' '}
-            is now{' '}
-            <span className="font-bold">${item.lastPrice?.toFixed(0)}</span>{' '}
-            <span className="text-green-600 dark:text-green-400">
-              (your target: ${item.targetPrice.toFixed(0)})
-            </span>
+            {detail}
           </div>
 
           {/* Dismiss */}
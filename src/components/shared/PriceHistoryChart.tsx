@@ -10,6 +10,8 @@ import {
 } from 'recharts';
 import { usePriceHistory } from '../../hooks/usePriceHistory';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { useRegion } from '../../context/RegionContext';
+import { REGIONS, formatCurrency } from '../../lib/currency';
 
 interface PriceHistoryChartProps {
   productId: string;
@@ -39,13 +41,24 @@ function formatTooltipDate(dateStr: string): string {
   return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
+interface RetailerAvailability {
+  id: string;
+  name: string;
+  /** In stock at the day's last snapshot, per date key */
+  days: Map<string, boolean>;
+  /** In stock -> sold out transitions in the window */
+  soldOutCount: number;
+}
+
 export default function PriceHistoryChart({ productId }: PriceHistoryChartProps) {
   const isGlass = useGlassMode();
   const { history, loading, error } = usePriceHistory(productId);
+  const { region, currency, convert } = useRegion();
+  const format = (amount: number) => formatCurrency(amount, currency, REGIONS[region].locale);
 
   // Group data by date and pivot retailers into columns
-  const { chartData, retailers } = useMemo(() => {
-    if (history.length === 0) return { chartData: [], retailers: [] };
+  const { chartData, retailers, availability } = useMemo(() => {
+    if (history.length === 0) return { chartData: [], retailers: [], availability: [] };
 
     // Collect unique retailers
     const retailerSet = new Map<string, string>();
@@ -58,22 +71,32 @@ export default function PriceHistoryChart({ productId }: PriceHistoryChartProps)
 
     // Group by date (day granularity)
     const byDate = new Map<string, Record<string, number | string>>();
+    const stock = new Map<string, RetailerAvailability>(
+      retailers.map((r) => [r.id, { ...r, days: new Map(), soldOutCount: 0 }])
+    );
+    const lastInStock = new Map<string, boolean>();
     for (const point of history) {
       const dateKey = new Date(point.recorded_at).toISOString().split('T')[0];
+      stock.get(point.retailer_id)!.days.set(dateKey, point.in_stock);
+      if (lastInStock.get(point.retailer_id) === true && !point.in_stock) {
+        stock.get(point.retailer_id)!.soldOutCount++;
+      }
+      lastInStock.set(point.retailer_id, point.in_stock);
       if (!byDate.has(dateKey)) {
         byDate.set(dateKey, { date: dateKey });
       }
       const entry = byDate.get(dateKey)!;
-      // Use last price for that day per retailer
-      entry[point.retailer_id] = point.price;
+      // Use last price for that day per retailer, in the display currency
+      const price = point.price_usd === null ? null : convert(point.price_usd);
+      if (price !== null) entry[point.retailer_id] = Math.round(price * 100) / 100;
     }
 
     const chartData = Array.from(byDate.values()).sort((a, b) =>
       (a.date as string).localeCompare(b.date as string)
     );
 
-    return { chartData, retailers };
-  }, [history]);
+    return { chartData, retailers, availability: Array.from(stock.values()) };
+  }, [history, convert]);
 
   if (loading) {
     return (
@@ -116,7 +139,7 @@ export default function PriceHistoryChart({ productId }: PriceHistoryChartProps)
             tickLine={false}
           />
           <YAxis
-            tickFormatter={(v) => `$${v}`}
+            tickFormatter={(v) => format(Number(v))}
             tick={{ fontSize: 11, fill: '#9ca3af' }}
             stroke="#4b5563"
             tickLine={false}
@@ -125,7 +148,7 @@ export default function PriceHistoryChart({ productId }: PriceHistoryChartProps)
           />
           <Tooltip
             labelFormatter={(label) => formatTooltipDate(String(label))}
-            formatter={(value, name) => [`$${Number(value).toFixed(2)}`, String(name)]}
+            formatter={(value, name) => [format(Number(value)), String(name)]}
             contentStyle={{
               backgroundColor: '#1f2937',
               border: '1px solid #374151',
@@ -153,6 +176,56 @@ export default function PriceHistoryChart({ productId }: PriceHistoryChartProps)
           ))}
         </LineChart>
       </ResponsiveContainer>
+
+      {/* Availability timeline: one strip per retailer, one cell per snapshot day */}
+      <div className="mt-4 border-t border-surface-200 pt-3 dark:border-surface-700">
+        <div className="mb-2 flex items-center justify-between">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-surface-500 dark:text-surface-400">
+            Availability
+          </h4>
+          <div className="flex items-center gap-3 text-[0.6875rem] text-surface-500 dark:text-surface-400">
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-sm bg-emerald-500" /> In stock
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-sm bg-red-400" /> Sold out
+            </span>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          {availability.map((retailer) => (
+            <div key={retailer.id} className="flex items-center gap-2">
+              <span className="w-28 shrink-0 truncate text-xs text-surface-600 dark:text-surface-300">
+                {retailer.name}
+              </span>
+              <div className="flex h-2.5 flex-1 gap-px overflow-hidden rounded-sm">
+                {chartData.map((entry) => {
+                  const date = entry.date as string;
+                  const inStock = retailer.days.get(date);
+                  return (
+                    <div
+                      key={date}
+                      title={`${formatTooltipDate(date)}: ${inStock === undefined ? 'not tracked' : inStock ? 'in stock' : 'sold out'}`}
+                      className={`flex-1 ${
+                        inStock === undefined
+                          ? 'bg-surface-100 dark:bg-surface-800'
+                          : inStock
+                            ? 'bg-emerald-500'
+                            : 'bg-red-400'
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+              <span className="w-20 shrink-0 text-right text-[0.6875rem] text-surface-500 dark:text-surface-400">
+                {retailer.soldOutCount === 0
+                  ? 'never sold out'
+                  : `sold out ${retailer.soldOutCount}×`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
     </div>
   );
 }
@@ -4,13 +4,14 @@ import type { Product } from '../../types';
 import { CATEGORY_MAP, getScoreLabel } from '../../lib/categories';
 import { useExperienceMode } from '../../context/ExperienceModeContext';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { useTargetType } from '../../context/TargetTypeContext';
 import PPIBadge from './PPIBadge';
 import PriceDisplay from './PriceDisplay';
 import WhereToBuy from './WhereToBuy';
 import ScoreExplainer from './ScoreExplainer';
 import BestValueBadge from './BestValueBadge';
 import { buildSourceUrl, formatSourceLabel } from '../../lib/sourceUrl';
-import { getDisplayName, getBestModeLabel } from '../../lib/productUtils';
+import { getDisplayName, getBestModeLabel, getPpiStats, hasTargetScores } from '../../lib/productUtils';
 
 interface ProductDetailModalProps {
   product: Product | null;
@@ -66,6 +67,7 @@ export default function ProductDetailModal({
 
   const { mode } = useExperienceMode();
   const isGlass = useGlassMode();
+  const { targetType } = useTargetType();
 
 
 
@@ -74,6 +76,7 @@ export default function ProductDetailModal({
   const bestModeLabel = getBestModeLabel(product);
 
   const category = CATEGORY_MAP.get(product.category_id);
+  const ppi = getPpiStats(product, targetType);
 
   return (
     <div
@@ -174,7 +177,7 @@ export default function ProductDetailModal({
           {/* Price + value badge */}
           <div className="flex items-center gap-3 text-xl">
             <PriceDisplay price={product.price} affiliateUrl={product.affiliate_url} />
-            <BestValueBadge score={product.ppi_score} price={product.price} />
+            <BestValueBadge score={ppi.score} price={product.price} />
           </div>
 
           {/* PPI badge (large) */}
@@ -183,17 +186,17 @@ export default function ProductDetailModal({
               <span className="text-sm font-medium text-surface-400">
                 {getScoreLabel(product.category_id, mode)}:
               </span>
-              <PPIBadge score={product.ppi_score} size="lg" />
+              <PPIBadge score={ppi.score} size="lg" target={hasTargetScores(product.category_id) ? targetType : undefined} />
             </div>
           )}
 
           {/* Score explainer (beginner/default) */}
-          {mode !== 'advanced' && categoryHasPpi && product.ppi_score !== null && (
-            <ScoreExplainer scoreType="ppi" score={product.ppi_score} />
+          {mode !== 'advanced' && categoryHasPpi && ppi.score !== null && (
+            <ScoreExplainer scoreType="ppi" score={ppi.score} />
           )}
 
           {/* PPI breakdown table */}
-          {mode !== 'beginner' && categoryHasPpi && product.ppi_score !== null && (
+          {mode !== 'beginner' && categoryHasPpi && ppi.score !== null && (
             <div className={isGlass ? "glass-1 rounded-xl" : "rounded-lg border border-surface-700 bg-surface-800"}>
               <table className="w-full text-sm">
                 <thead>
@@ -206,19 +209,19 @@ export default function ProductDetailModal({
                   <tr className="border-b border-surface-700">
                     <td className="px-4 py-2 text-surface-300">Std Deviation</td>
                     <td className="px-4 py-2 text-right font-mono text-surface-100">
-                      {product.ppi_stdev !== null ? product.ppi_stdev.toFixed(2) : 'N/A'}
+                      {ppi.stdev !== null ? ppi.stdev.toFixed(2) : 'N/A'}
                     </td>
                   </tr>
                   <tr className="border-b border-surface-700">
                     <td className="px-4 py-2 text-surface-300">Slope</td>
                     <td className="px-4 py-2 text-right font-mono text-surface-100">
-                      {product.ppi_slope !== null ? product.ppi_slope.toFixed(3) : 'N/A'}
+                      {ppi.slope !== null ? ppi.slope.toFixed(3) : 'N/A'}
                     </td>
                   </tr>
                   <tr>
                     <td className="px-4 py-2 text-surface-300">Avg Error</td>
                     <td className="px-4 py-2 text-right font-mono text-surface-100">
-                      {product.ppi_avg_error !== null ? product.ppi_avg_error.toFixed(2) : 'N/A'}
+                      {ppi.avgError !== null ? ppi.avgError.toFixed(2) : 'N/A'}
                     </td>
                   </tr>
                 </tbody>
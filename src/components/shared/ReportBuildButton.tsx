@@ -0,0 +1,128 @@
+import { useState, useRef, useEffect } from 'react';
+import { useGlassMode } from '../../context/GlassModeContext';
+import { useToast } from '../../context/ToastContext';
+import { reportBuild, BUILD_REPORT_REASONS, type BuildReportReason } from '../../hooks/useCommunityBuilds';
+
+interface ReportBuildButtonProps {
+  buildId: string;
+  /** Small text link for build cards instead of a full button */
+  compact?: boolean;
+}
+
+export default function ReportBuildButton({ buildId, compact = false }: ReportBuildButtonProps) {
+  const isGlass = useGlassMode();
+  const { addToast } = useToast();
+  const [showPopover, setShowPopover] = useState(false);
+  const [reason, setReason] = useState<BuildReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [sending, setSending] = useState(false);
+  const [reported, setReported] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!showPopover) return;
+    function handleClick(e: MouseEvent) {
+      if (
+        popoverRef.current &&
+        !popoverRef.current.contains(e.target as Node) &&
+        buttonRef.current &&
+        !buttonRef.current.contains(e.target as Node)
+      ) {
+        setShowPopover(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [showPopover]);
+
+  async function handleSubmit() {
+    if (sending) return;
+    setSending(true);
+    const result = await reportBuild(buildId, reason, details);
+    setSending(false);
+    if (!result.success) {
+      addToast(result.error ?? 'Could not send report', 'error');
+      return;
+    }
+    setReported(true);
+    setShowPopover(false);
+    setDetails('');
+    addToast('Thanks, a moderator will take a look', 'success');
+  }
+
+  const buttonClass = compact
+    ? 'text-xs font-medium text-surface-400 transition-colors hover:text-red-600 disabled:opacity-60 dark:text-surface-500 dark:hover:text-red-400'
+    : `inline-flex items-center gap-1.5 rounded-lg border px-4 py-2.5 text-sm font-medium transition-colors disabled:opacity-60 ${
+        isGlass
+          ? 'border-white/30 bg-white/50 backdrop-blur-sm text-surface-700 hover:bg-white/60 dark:text-surface-300'
+          : 'border-surface-300 bg-white text-surface-700 hover:bg-surface-100 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700'
+      }`;
+
+  return (
+    <div className="relative inline-flex">
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={() => setShowPopover((v) => !v)}
+        disabled={reported}
+        className={buttonClass}
+        aria-label="Report this build"
+      >
+        {!compact && (
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="h-4 w-4" aria-hidden="true">
+            <path d="M3.5 2.75a.75.75 0 0 0-1.5 0v14.5a.75.75 0 0 0 1.5 0v-4.392l1.657-.348a6.449 6.449 0 0 1 4.271.572 7.948 7.948 0 0 0 5.965.524l2.078-.64A.75.75 0 0 0 18 12.25v-8.5a.75.75 0 0 0-.904-.734l-2.38.501a7.25 7.25 0 0 1-4.186-.363l-.502-.2a8.75 8.75 0 0 0-5.053-.439l-1.475.31V2.75Z" />
+          </svg>
+        )}
+        {reported ? 'Reported' : 'Report'}
+      </button>
+
+      {showPopover && (
+        <div
+          ref={popoverRef}
+          className={`absolute z-50 w-64 p-3 shadow-lg ${compact ? 'bottom-full right-0 mb-2' : 'left-0 top-full mt-2'} ${
+            isGlass
+              ? 'glass-2 rounded-xl'
+              : 'rounded-lg border border-surface-200 bg-white dark:border-surface-600 dark:bg-surface-800'
+          }`}
+        >
+          <p className="mb-2 text-xs font-medium text-surface-600 dark:text-surface-300">
+            What's wrong with this build?
+          </p>
+          <div className="space-y-1">
+            {BUILD_REPORT_REASONS.map((r) => (
+              <label key={r.value} className="flex items-center gap-2 text-xs text-surface-700 dark:text-surface-300">
+                <input
+                  type="radio"
+                  name={`report-reason-${buildId}`}
+                  value={r.value}
+                  checked={reason === r.value}
+                  onChange={() => setReason(r.value)}
+                  className="border-surface-300 text-primary-600 focus:ring-primary-500 dark:border-surface-600"
+                />
+                {r.label}
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Details (optional)"
+            maxLength={500}
+            rows={2}
+            className="mt-2 w-full rounded-md border border-surface-300 bg-white px-2 py-1.5 text-sm text-surface-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-700 dark:text-surface-100"
+          />
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={sending}
+            className="mt-2 w-full rounded-md bg-red-600 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-red-500 disabled:opacity-60"
+          >
+            {sending ? 'Sending...' : 'Send Report'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
+import { useBuild } from '../../context/BuildContext';
+import { useGlassMode } from '../../context/GlassModeContext';
+import { useToast } from '../../context/ToastContext';
+import { saveBuildToAccount, notifySavedBuildsChanged } from '../../hooks/useSavedBuilds';
+
+/**
+ * Saves the working build to the signed-in user's account, overwriting the
+ * saved build it was opened from. Signed-out users get a sign-in link instead.
+ */
+export default function SaveBuildButton() {
+  const { user } = useAuth();
+  const { items, name, description, savedBuildId, setSavedBuildId } = useBuild();
+  const { addToast } = useToast();
+  const isGlass = useGlassMode();
+  const [saving, setSaving] = useState(false);
+
+  const className = isGlass
+    ? 'glass-btn-secondary rounded-lg px-4 py-2 text-sm font-medium'
+    : 'rounded-lg border border-surface-300 bg-white px-4 py-2 text-sm font-medium text-surface-700 transition-colors hover:bg-surface-100 disabled:opacity-50 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700';
+
+  if (!user) {
+    return (
+      <Link to={isGlass ? '/glass/account' : '/account'} className={className} title="Sign in to keep builds in your account">
+        Sign in to save
+      </Link>
+    );
+  }
+
+  async function handleSave() {
+    if (!user || saving) return;
+    setSaving(true);
+    try {
+      const id = await saveBuildToAccount(user.id, { buildId: savedBuildId, name, description, items });
+      setSavedBuildId(id);
+      notifySavedBuildsChanged();
+      addToast(`Saved "${name.trim() || 'My Audio Build'}" to your account`, 'success');
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to save build', 'error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <button type="button" onClick={handleSave} disabled={saving || items.size === 0} className={className}>
+      {saving ? 'Saving...' : savedBuildId ? 'Save' : 'Save to account'}
+    </button>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { parseBuildTags } from '../../hooks/useCommunityBuilds';
 
 interface ShareButtonProps {
-  onShare: (opts?: { isPublic?: boolean; authorName?: string }) => Promise<string>;
+  onShare: (opts?: { isPublic?: boolean; authorName?: string; tags?: string[] }) => Promise<string>;
   disabled?: boolean;
 }
 
@@ -45,6 +46,7 @@ export default function ShareButton({ onShare, disabled = false }: ShareButtonPr
   const [showPanel, setShowPanel] = useState(false);
   const [publishToCommunity, setPublishToCommunity] = useState(false);
   const [authorName, setAuthorName] = useState('');
+  const [tagsInput, setTagsInput] = useState('');
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const panelRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
@@ -75,6 +77,7 @@ export default function ShareButton({ onShare, disabled = false }: ShareButtonPr
       const url = await onShare({
         isPublic: publishToCommunity,
         authorName: publishToCommunity ? authorName.trim() || undefined : undefined,
+        tags: publishToCommunity ? parseBuildTags(tagsInput) : undefined,
       });
       await navigator.clipboard.writeText(url);
       setState('copied');
@@ -84,7 +87,7 @@ export default function ShareButton({ onShare, disabled = false }: ShareButtonPr
       setState('idle');
       setErrorMsg(err instanceof Error ? err.message : 'Failed to share build');
     }
-  }, [onShare, state, disabled, publishToCommunity, authorName]);
+  }, [onShare, state, disabled, publishToCommunity, authorName, tagsInput]);
 
   const handleClick = useCallback(() => {
     if (state === 'copied') return;
@@ -166,6 +169,21 @@ export default function ShareButton({ onShare, disabled = false }: ShareButtonPr
                   : "mt-1 w-full rounded-md border border-surface-300 bg-white px-3 py-1.5 text-sm text-surface-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-700 dark:text-surface-100"
                 }
               />
+              <label className="mt-3 block text-xs font-medium text-surface-600 dark:text-surface-400" htmlFor="build-tags">
+                Tags (optional, up to 5)
+              </label>
+              <input
+                id="build-tags"
+                type="text"
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                placeholder="budget, desk setup"
+                maxLength={160}
+                className={isGlass
+                  ? "mt-1 w-full glass-input px-3 py-1.5 text-sm text-surface-900 dark:text-surface-100"
+                  : "mt-1 w-full rounded-md border border-surface-300 bg-white px-3 py-1.5 text-sm text-surface-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-700 dark:text-surface-100"
+                }
+              />
             </div>
           )}
 
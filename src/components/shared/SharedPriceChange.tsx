@@ -0,0 +1,22 @@
+interface SharedPriceChangeProps {
+  /** Price when the build was shared */
+  was: number;
+  now: number;
+  /** Retailer that sold at `was` */
+  retailerName?: string | null;
+}
+
+/** "was $480 when shared, +$140" under a live price; nothing when unchanged */
+export default function SharedPriceChange({ was, now, retailerName }: SharedPriceChangeProps) {
+  const diff = now - was;
+  if (Math.abs(diff) < 0.01) return null;
+
+  return (
+    <p className="text-[0.6875rem] text-surface-400 dark:text-surface-500">
+      was ${was.toFixed(2)} when shared{retailerName ? ` at ${retailerName}` : ''},{' '}
+      <span className={diff > 0 ? 'font-semibold text-red-600 dark:text-red-400' : 'font-semibold text-emerald-600 dark:text-emerald-400'}>
+        {diff > 0 ? '+' : '-'}${Math.abs(diff).toFixed(2)}
+      </span>
+    </p>
+  );
+}
@@ -0,0 +1,36 @@
+import type { TargetType } from '../../types';
+import { TARGET_TYPE_LABELS } from '../../lib/productUtils';
+
+interface TargetToggleProps {
+  targetType: TargetType;
+  onChange: (type: TargetType) => void;
+}
+
+const TARGETS: TargetType[] = ['df', 'harman'];
+
+/** Segmented DF/Harman switch for the PPI target curve. */
+export default function TargetToggle({ targetType, onChange }: TargetToggleProps) {
+  return (
+    <div
+      className="inline-flex rounded-lg border border-surface-300 dark:border-surface-600"
+      role="group"
+      aria-label="Target curve"
+    >
+      {TARGETS.map((type, index) => (
+        <button
+          key={type}
+          type="button"
+          onClick={() => onChange(type)}
+          aria-pressed={targetType === type}
+          className={`${index === 0 ? 'rounded-l-lg' : '-ml-px rounded-r-lg'} px-3 py-1.5 text-sm font-medium transition-colors ${
+            targetType === type
+              ? 'bg-primary-600 text-white'
+              : 'bg-white text-surface-600 hover:bg-surface-100 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700'
+          }`}
+        >
+          {TARGET_TYPE_LABELS[type]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -4,31 +4,33 @@ import { useGlassMode } from '../../context/GlassModeContext';
 
 interface WatchPriceButtonProps {
   productId: string;
-  productName: string;
   currentPrice: number | null;
+  /** Sold out everywhere: offer a back-in-stock alert first */
+  inStock?: boolean;
 }
 
+const INPUT_CLASS =
+  'w-full rounded-md border border-surface-300 bg-white py-1.5 px-2 text-sm text-surface-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-700 dark:text-surface-100';
+
 export default function WatchPriceButton({
   productId,
-  productName,
   currentPrice,
+  inStock = true,
 }: WatchPriceButtonProps) {
   const isGlass = useGlassMode();
-  const { isWatching, addProduct, removeProduct, getWatchItem, updatePrice } = useWatchlist();
+  const { isWatching, addProduct, removeProduct, getWatchItem } = useWatchlist();
   const watching = isWatching(productId);
   const watchItem = getWatchItem(productId);
   const [showPopover, setShowPopover] = useState(false);
   const [targetPrice, setTargetPrice] = useState('');
+  const [email, setEmail] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [notifyRestock, setNotifyRestock] = useState(!inStock);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const popoverRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
 
-  // Update last known price when component mounts / price changes
-  useEffect(() => {
-    if (watching && currentPrice !== null) {
-      updatePrice(productId, currentPrice);
-    }
-  }, [watching, currentPrice, productId, updatePrice]);
-
   // Close on outside click
   useEffect(() => {
     if (!showPopover) return;
@@ -46,10 +48,26 @@ export default function WatchPriceButton({
     return () => document.removeEventListener('mousedown', handleClick);
   }, [showPopover]);
 
-  function handleWatch() {
-    const price = parseFloat(targetPrice);
-    if (isNaN(price) || price <= 0) return;
-    addProduct(productId, productName, price);
+  async function handleWatch() {
+    const price = targetPrice.trim() === '' ? null : parseFloat(targetPrice);
+    if (saving) return;
+    if (price === null ? !notifyRestock : isNaN(price) || price <= 0) return;
+    setSaving(true);
+    setError(null);
+    const result = await addProduct(
+      productId,
+      price,
+      {
+        email: email.trim() || undefined,
+        webhookUrl: webhookUrl.trim() || undefined,
+      },
+      notifyRestock
+    );
+    setSaving(false);
+    if (!result.success) {
+      setError(result.error ?? 'Could not save price watch.');
+      return;
+    }
     setShowPopover(false);
     setTargetPrice('');
   }
@@ -59,7 +77,7 @@ export default function WatchPriceButton({
       removeProduct(productId);
     } else {
       // Pre-fill with 10% below current price
-      if (currentPrice !== null) {
+      if (currentPrice !== null && inStock) {
         setTargetPrice(Math.floor(currentPrice * 0.9).toString());
       }
       setShowPopover(true);
@@ -99,8 +117,12 @@ export default function WatchPriceButton({
           )}
         </svg>
         {watching
-          ? `Watching ($${watchItem?.targetPrice ?? ''})`
-          : 'Watch Price'}
+          ? watchItem?.targetPrice != null
+            ? `Watching ($${watchItem.targetPrice})`
+            : 'Watching (restock)'
+          : inStock
+            ? 'Watch Price'
+            : 'Notify When in Stock'}
       </button>
 
       {showPopover && (
@@ -124,8 +146,8 @@ export default function WatchPriceButton({
                 value={targetPrice}
                 onChange={(e) => setTargetPrice(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleWatch()}
-                className="w-full rounded-md border border-surface-300 bg-white py-1.5 pl-6 pr-2 text-sm text-surface-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-700 dark:text-surface-100"
-                placeholder="Target price"
+                className={`${INPUT_CLASS} pl-6`}
+                placeholder={notifyRestock ? "Target (optional)" : "Target price"}
                 min="0"
                 step="1"
                 autoFocus
@@ -134,16 +156,51 @@ export default function WatchPriceButton({
             <button
               type="button"
               onClick={handleWatch}
-              className="rounded-md bg-primary-600 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-primary-500"
+              disabled={saving}
+              className="rounded-md bg-primary-600 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-primary-500 disabled:opacity-60"
             >
-              Watch
+              {saving ? 'Saving...' : 'Watch'}
             </button>
           </div>
-          {currentPrice !== null && (
+          {currentPrice !== null && inStock && (
             <p className="mt-1.5 text-[0.6875rem] text-surface-400 dark:text-surface-500">
               Current price: ${currentPrice.toFixed(0)}
             </p>
           )}
+          <label className="mt-2 flex items-center gap-2 text-xs text-surface-600 dark:text-surface-300">
+            <input
+              type="checkbox"
+              checked={notifyRestock}
+              onChange={(e) => setNotifyRestock(e.target.checked)}
+              className="rounded border-surface-300 text-primary-600 focus:ring-primary-500 dark:border-surface-600"
+            />
+            Alert me when it's back in stock
+          </label>
+          <p className="mb-1.5 mt-3 text-xs font-medium text-surface-600 dark:text-surface-300">
+            Notify me (optional):
+          </p>
+          <div className="space-y-1.5">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={INPUT_CLASS}
+              placeholder="Email address"
+            />
+            <input
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              className={INPUT_CLASS}
+              placeholder="Webhook URL (https://...)"
+            />
+          </div>
+          <p className="mt-1.5 text-[0.6875rem] text-surface-400 dark:text-surface-500">
+            Prices are checked daily. Without a contact you'll see the alert here.
+          </p>
+          {error && (
+            <p className="mt-1.5 text-[0.6875rem] text-red-600 dark:text-red-400">{error}</p>
+          )}
         </div>
       )}
     </div>
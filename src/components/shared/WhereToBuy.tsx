@@ -1,14 +1,16 @@
-import { Fragment, useMemo } from 'react';
+import { Fragment, useMemo, useState } from 'react';
 import { usePriceListings } from '../../hooks/usePriceListings';
 import { useBundleListings } from '../../hooks/useBundleListings';
 import { usePriceInsights } from '../../hooks/usePriceInsights';
 import { useCoupons } from '../../hooks/useCoupons';
 import { useGlassMode } from '../../context/GlassModeContext';
+import { useRegion } from '../../context/RegionContext';
 import { extractBundleDescription } from '../../lib/bundleUtils';
+import { REGIONS, formatCurrency, retailerServesRegion } from '../../lib/currency';
 import RetailerTrustInfo from './RetailerTrustInfo';
 import DealBadge from './DealBadge';
 import CouponChip from './CouponChip';
-import type { StoreProductBundle } from '../../types';
+import type { PriceListing, StoreProductBundle } from '../../types';
 
 interface WhereToBuyProps {
   productId: string;
@@ -16,17 +18,6 @@ interface WhereToBuyProps {
   discontinued?: boolean;
 }
 
-function formatPrice(price: number, currency: string): string {
-  try {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-    }).format(price);
-  } catch {
-    return `$${price.toFixed(2)}`;
-  }
-}
-
 function relativeTime(dateString: string): string {
   const now = Date.now();
   const then = new Date(dateString).getTime();
@@ -43,14 +34,51 @@ function relativeTime(dateString: string): string {
   return 'just now';
 }
 
+/** One table row: a retailer's listing, or all variants of one retailer product */
+interface ListingGroup {
+  key: string;
+  variants: PriceListing[];
+}
+
+/**
+ * Variant listings of the same store product ('<handle>::<variant id>')
+ * collapse into one row with a picker; everything else stays one row each.
+ */
+function groupListings(listings: PriceListing[]): ListingGroup[] {
+  const groups: ListingGroup[] = [];
+  const byKey = new Map<string, ListingGroup>();
+  for (const listing of listings) {
+    if (!listing.variant_id) {
+      groups.push({ key: listing.id, variants: [listing] });
+      continue;
+    }
+    const key = `${listing.retailer_id}|${listing.external_id.split('::')[0]}`;
+    const group = byKey.get(key);
+    if (group) group.variants.push(listing);
+    else {
+      const next = { key, variants: [listing] };
+      byKey.set(key, next);
+      groups.push(next);
+    }
+  }
+  return groups;
+}
+
+/** Cheapest in-stock variant (listings arrive sorted by price), else the cheapest */
+function defaultVariant(variants: PriceListing[]): PriceListing {
+  return variants.find((v) => v.in_stock) ?? variants[0];
+}
+
 function BundleRow({
   bundle,
   productName,
   isGlass,
+  locale,
 }: {
   bundle: StoreProductBundle;
   productName: string;
   isGlass: boolean;
+  locale: string;
 }) {
   const description = extractBundleDescription(bundle.title, productName);
   const buyUrl = bundle.affiliate_url ?? bundle.product_url;
@@ -83,7 +111,7 @@ function BundleRow({
         </div>
       </td>
       <td className="py-2 pr-4 font-mono text-xs text-surface-700 dark:text-surface-300">
-        {bundle.price ? formatPrice(bundle.price, 'USD') : '--'}
+        {bundle.price ? formatCurrency(bundle.price, bundle.retailer?.currency ?? 'USD', locale) : '--'}
       </td>
       <td className="py-2 pr-4">
         {bundle.in_stock ? (
@@ -136,8 +164,30 @@ function BundleRow({
 
 export default function WhereToBuy({ productId, productName, discontinued }: WhereToBuyProps) {
   const isGlass = useGlassMode();
-  const { listings, loading, error } = usePriceListings(productId);
-  const { bundles } = useBundleListings(productId, productName);
+  const { region, currency: displayCurrency, formatPrice: formatConverted } = useRegion();
+  const { locale } = REGIONS[region];
+  const [showAllRegions, setShowAllRegions] = useState(false);
+  const { listings: allListings, loading, error } = usePriceListings(productId);
+  const { bundles: allBundles } = useBundleListings(productId, productName);
+
+  // Only stores that sell into the selected region, unless the user expands
+  const regionalListings = useMemo(
+    () => allListings.filter((l) => retailerServesRegion(l.retailer, region)),
+    [allListings, region],
+  );
+  const hiddenCount = allListings.length - regionalListings.length;
+  // Nothing ships to the region: show everything rather than an empty table
+  const showingAll = showAllRegions || (regionalListings.length === 0 && hiddenCount > 0);
+  const listings = showingAll ? allListings : regionalListings;
+  const bundles = useMemo(
+    () => showingAll ? allBundles : allBundles.filter((b) => retailerServesRegion(b.retailer, region)),
+    [allBundles, showingAll, region],
+  );
+
+  const listingGroups = useMemo(() => groupListings(listings), [listings]);
+  // Picked variant per group key; unset groups show their default variant
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
+
   const { insights } = usePriceInsights(productId, listings);
   const retailerIds = useMemo(() => listings.map(l => l.retailer_id), [listings]);
   const { coupons } = useCoupons(retailerIds);
@@ -237,13 +287,15 @@ export default function WhereToBuy({ productId, productName, discontinued }: Whe
                   </tr>
                 </thead>
                 <tbody>
-                  {listings.map((listing) => {
+                  {listingGroups.map((group) => {
+                    const listing = group.variants.find((v) => v.id === selectedVariants[group.key])
+                      ?? defaultVariant(group.variants);
                     const buyUrl = listing.affiliate_url ?? listing.product_url;
                     const hasUrl = buyUrl !== null;
                     const retailerBundles = bundlesByRetailer.get(listing.retailer_id) ?? [];
 
                     return (
-                      <Fragment key={listing.id}>
+                      <Fragment key={group.key}>
                         <tr
                           className="border-b border-surface-100 last:border-b-0 dark:border-surface-800"
                         >
@@ -253,6 +305,30 @@ export default function WhereToBuy({ productId, productName, discontinued }: Whe
                                 {listing.retailer?.name ?? 'Unknown'}
                                 {listing.retailer && <RetailerTrustInfo retailer={listing.retailer} />}
                               </span>
+                              {group.variants.length > 1 ? (
+                                <label className="inline-flex">
+                                  <span className="sr-only">Variant at {listing.retailer?.name ?? 'retailer'}</span>
+                                  <select
+                                    value={listing.id}
+                                    onChange={(e) => {
+                                      const id = e.target.value;
+                                      setSelectedVariants((prev) => ({ ...prev, [group.key]: id }));
+                                    }}
+                                    className="max-w-[14rem] rounded-md border border-surface-300 bg-white px-1.5 py-0.5 text-xs text-surface-700 focus:outline-none focus:ring-2 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-300"
+                                  >
+                                    {group.variants.map((v) => (
+                                      <option key={v.id} value={v.id}>
+                                        {v.variant_title ?? 'Default'} · {formatCurrency(v.price, v.currency, locale)}
+                                        {v.in_stock ? '' : ' (out of stock)'}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </label>
+                              ) : listing.variant_title && (
+                                <span className="text-xs text-surface-500 dark:text-surface-400">
+                                  {listing.variant_title}
+                                </span>
+                              )}
                               {coupons.get(listing.retailer_id)?.map((coupon) => (
                                 <CouponChip
                                   key={coupon.id}
@@ -267,14 +343,19 @@ export default function WhereToBuy({ productId, productName, discontinued }: Whe
                             <div className="flex flex-col gap-0.5">
                               <div className="flex items-center gap-1.5">
                                 <span className="font-mono text-surface-900 dark:text-surface-100">
-                                  {formatPrice(listing.price, listing.currency)}
+                                  {formatCurrency(listing.price, listing.currency, locale)}
                                 </span>
                                 {listing.compare_at_price != null && listing.compare_at_price > listing.price && (
                                   <span className="font-mono text-xs text-surface-400 line-through dark:text-surface-500">
-                                    {formatPrice(listing.compare_at_price, listing.currency)}
+                                    {formatCurrency(listing.compare_at_price, listing.currency, locale)}
                                   </span>
                                 )}
                               </div>
+                              {listing.currency !== displayCurrency && (
+                                <span className="font-mono text-[0.6875rem] text-surface-400 dark:text-surface-500">
+                                  ≈ {formatConverted(listing.price, listing.currency)}
+                                </span>
+                              )}
                               <div className="flex flex-wrap items-center gap-1">
                                 {listing.compare_at_price != null && listing.compare_at_price > listing.price && (
                                   <DealBadge
@@ -357,6 +438,7 @@ export default function WhereToBuy({ productId, productName, discontinued }: Whe
                             bundle={bundle}
                             productName={productName}
                             isGlass={isGlass}
+                            locale={locale}
                           />
                         ))}
                       </Fragment>
@@ -389,6 +471,7 @@ export default function WhereToBuy({ productId, productName, discontinued }: Whe
                             bundle={bundle}
                             productName={productName}
                             isGlass={isGlass}
+                            locale={locale}
                           />
                         ))}
                       </Fragment>
@@ -398,6 +481,25 @@ export default function WhereToBuy({ productId, productName, discontinued }: Whe
               </table>
             </div>
 
+            {hiddenCount > 0 && (
+              <p className="mt-3 text-xs text-surface-500 dark:text-surface-400">
+                {regionalListings.length === 0
+                  ? `No stores ship to ${REGIONS[region].label} yet. Showing all stores.`
+                  : showingAll
+                    ? `Showing stores from all regions.`
+                    : `${hiddenCount} ${hiddenCount === 1 ? 'store doesn\'t' : 'stores don\'t'} ship to ${REGIONS[region].label}.`}
+                {regionalListings.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setShowAllRegions((prev) => !prev)}
+                    className="ml-1 font-medium text-primary-600 hover:underline dark:text-primary-400"
+                  >
+                    {showingAll ? 'Only show my region' : 'Show all regions'}
+                  </button>
+                )}
+              </p>
+            )}
+
             {lastChecked && (
               <p className="mt-3 text-xs text-surface-400 dark:text-surface-500">
                 Prices updated {relativeTime(lastChecked)}
@@ -0,0 +1,156 @@
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { Profile } from '../types';
+import { useBuild } from './BuildContext';
+import { useToast } from './ToastContext';
+import { claimAnonymousData, notifySavedBuildsChanged, saveBuildToAccount } from '../hooks/useSavedBuilds';
+import { notifyWatchlistChanged } from '../hooks/useWatchlist';
+
+/** Account ids whose browser-local data has already been moved to the server */
+const SYNCED_KEY = 'audiolist_synced_accounts';
+
+interface AuthContextValue {
+  user: User | null;
+  profile: Profile | null;
+  /** True until the stored session has been restored */
+  loading: boolean;
+  /** Email a magic sign-in link that returns to `redirectPath` */
+  signInWithEmail: (email: string, redirectPath?: string) => Promise<{ error?: string }>;
+  signOut: () => Promise<void>;
+  updateDisplayName: (displayName: string) => Promise<{ error?: string }>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+function loadSyncedAccounts(): string[] {
+  try {
+    const raw = localStorage.getItem(SYNCED_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { items, name, description, savedBuildId, setSavedBuildId } = useBuild();
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setUser(data.session?.user ?? null);
+      setLoading(false);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const userId = user?.id ?? null;
+
+  // Profile for the signed-in user
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchProfile() {
+      if (!userId) {
+        setProfile(null);
+        return;
+      }
+      const { data } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+      if (!cancelled) setProfile((data as Profile | null) ?? null);
+    }
+
+    fetchProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // First login on this browser: move the local build, votes and watches to the account
+  useEffect(() => {
+    if (!userId) return;
+    const synced = loadSyncedAccounts();
+    if (synced.includes(userId)) return;
+
+    async function syncLocalData(uid: string) {
+      try {
+        const claimed = await claimAnonymousData();
+        if (claimed.watches > 0) notifyWatchlistChanged();
+        let savedBuild = false;
+        if (items.size > 0 && !savedBuildId) {
+          const id = await saveBuildToAccount(uid, { buildId: null, name, description, items });
+          setSavedBuildId(id);
+          notifySavedBuildsChanged();
+          savedBuild = true;
+        }
+
+        localStorage.setItem(SYNCED_KEY, JSON.stringify([...synced, uid]));
+
+        const moved = [
+          savedBuild ? 'your current build' : null,
+          claimed.votes > 0 ? `${claimed.votes} vote${claimed.votes === 1 ? '' : 's'}` : null,
+          claimed.watches > 0 ? `${claimed.watches} price watch${claimed.watches === 1 ? '' : 'es'}` : null,
+        ].filter(Boolean);
+        if (moved.length > 0) {
+          addToast(`Saved ${moved.join(', ')} to your account`, 'success');
+        }
+      } catch (err) {
+        // Not marked as synced, so the next sign-in retries
+        console.error('Account sync failed:', err);
+        addToast('Could not copy your local data to your account. We will retry next time.', 'error');
+      }
+    }
+
+    syncLocalData(userId);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  const signInWithEmail = useCallback(async (email: string, redirectPath = '/account') => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}${redirectPath}` },
+    });
+    return error ? { error: error.message } : {};
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    // The working build stays local; it is no longer tied to the account
+    setSavedBuildId(null);
+  }, [setSavedBuildId]);
+
+  const updateDisplayName = useCallback(
+    async (displayName: string) => {
+      if (!userId) return { error: 'Not signed in' };
+      const { data, error } = await supabase
+        .from('profiles')
+        .update({ display_name: displayName.trim().slice(0, 50) || null, updated_at: new Date().toISOString() })
+        .eq('id', userId)
+        .select('*')
+        .single();
+      if (error) return { error: error.message };
+      setProfile(data as Profile);
+      return {};
+    },
+    [userId]
+  );
+
+  return (
+    <AuthContext.Provider value={{ user, profile, loading, signInWithEmail, signOut, updateDisplayName }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error('useAuth must be used within AuthProvider');
+  return ctx;
+}
@@ -1,133 +1,456 @@
-import { createContext, useContext, useReducer, useEffect, useCallback, type ReactNode } from 'react';
-import type { CategoryId, Product, BuildSelection } from '../types';
+import { createContext, useContext, useReducer, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import type { CategoryId, Product, BuildSelection, BuildItems } from '../types';
+import {
+  MAX_BUILD_ITEMS,
+  MAX_ITEMS_PER_CATEGORY,
+  MAX_QUANTITY,
+  countBuildItems,
+  getBuildTotal,
+  groupBuildItems,
+} from '../lib/buildItems';
 
-interface BuildState {
-  items: Map<CategoryId, BuildSelection>;
+const STORAGE_KEY = 'audiolist_builds';
+/** Single-build storage used before the build library */
+const LEGACY_STORAGE_KEY = 'audiolist_build';
+const DEFAULT_NAME = 'My Audio Build';
+/** Undo steps kept per build */
+const HISTORY_LIMIT = 50;
+
+/** Shared build a working build was cloned from; recorded as forked_from when it is shared */
+export interface BuildOrigin {
+  id: string;
+  shareCode: string;
+  name: string;
+}
+
+export interface BuildState {
+  items: BuildItems;
   name: string;
   description: string;
+  /** Account saved build this working copy was loaded from / saved to */
+  savedBuildId: string | null;
+  forkedFrom: BuildOrigin | null;
 }
 
+interface LibraryBuild extends BuildState {
+  id: string;
+  updatedAt: string;
+}
+
+interface BuildHistory {
+  past: BuildState[];
+  future: BuildState[];
+  /** Last recorded action, so runs of keystrokes in the name/description collapse into one step */
+  lastAction: BuildAction['type'] | null;
+}
+
+interface LibraryState {
+  builds: LibraryBuild[];
+  activeId: string;
+  /** In-memory undo/redo stacks per build id (not persisted) */
+  history: Record<string, BuildHistory>;
+}
+
+/** Edits to the active build; all except SET_SAVED_BUILD_ID can be undone */
 type BuildAction =
-  | { type: 'SET_PRODUCT'; category: CategoryId; product: Product }
-  | { type: 'REMOVE_PRODUCT'; category: CategoryId }
+  | { type: 'ADD_PRODUCT'; category: CategoryId; product: Product }
+  | { type: 'SET_PRODUCT'; category: CategoryId; product: Product; replaceProductId?: string }
+  | { type: 'REMOVE_PRODUCT'; category: CategoryId; productId?: string }
+  | { type: 'SET_QUANTITY'; category: CategoryId; productId: string; quantity: number }
   | { type: 'CLEAR' }
-  | { type: 'LOAD'; items: Map<CategoryId, BuildSelection>; name: string; description: string }
+  | { type: 'LOAD'; items: BuildItems; name: string; description: string; savedBuildId: string | null; forkedFrom: BuildOrigin | null }
   | { type: 'SET_NAME'; name: string }
-  | { type: 'SET_DESCRIPTION'; description: string };
+  | { type: 'SET_DESCRIPTION'; description: string }
+  | { type: 'SET_SAVED_BUILD_ID'; savedBuildId: string | null };
+
+type LibraryAction =
+  | BuildAction
+  | { type: 'CREATE_BUILD'; id: string; build?: Partial<BuildState> }
+  | { type: 'DUPLICATE_BUILD'; id: string; sourceId: string }
+  | { type: 'RENAME_BUILD'; id: string; name: string }
+  | { type: 'SWITCH_BUILD'; id: string }
+  | { type: 'DELETE_BUILD'; id: string; replacementId: string }
+  | { type: 'UNDO' }
+  | { type: 'REDO' };
+
+function emptyBuild(): BuildState {
+  return { items: new Map(), name: DEFAULT_NAME, description: '', savedBuildId: null, forkedFrom: null };
+}
+
+function newSelection(category: CategoryId, product: Product): BuildSelection {
+  return { category_id: category, product, quantity: 1 };
+}
+
+/** Replace one category's list; empty categories are dropped from the map */
+function withCategory(state: BuildState, category: CategoryId, list: BuildSelection[]): BuildState {
+  const items = new Map(state.items);
+  if (list.length > 0) items.set(category, list);
+  else items.delete(category);
+  return { ...state, items };
+}
 
 function buildReducer(state: BuildState, action: BuildAction): BuildState {
   switch (action.type) {
+    case 'ADD_PRODUCT': {
+      const list = state.items.get(action.category) ?? [];
+      const existing = list.findIndex((sel) => sel.product.id === action.product.id);
+      // Adding a product that is already there buys one more of it
+      if (existing >= 0) {
+        return withCategory(state, action.category, list.map((sel, i) =>
+          i === existing ? { ...sel, quantity: Math.min(MAX_QUANTITY, sel.quantity + 1) } : sel
+        ));
+      }
+      if (list.length >= MAX_ITEMS_PER_CATEGORY || countBuildItems(state.items) >= MAX_BUILD_ITEMS) return state;
+      return withCategory(state, action.category, [...list, newSelection(action.category, action.product)]);
+    }
     case 'SET_PRODUCT': {
-      const items = new Map(state.items);
-      items.set(action.category, {
-        category_id: action.category,
-        product: action.product,
-        quantity: 1,
-      });
-      return { ...state, items };
+      const list = state.items.get(action.category) ?? [];
+      const index = list.findIndex((sel) => sel.product.id === action.replaceProductId);
+      if (action.replaceProductId === undefined || index < 0) {
+        return withCategory(state, action.category, [newSelection(action.category, action.product)]);
+      }
+      // Swap in place, keeping the quantity; drop the line if the product is already elsewhere in the list
+      const duplicate = list.some((sel, i) => i !== index && sel.product.id === action.product.id);
+      const next = duplicate
+        ? list.filter((_, i) => i !== index)
+        : list.map((sel, i) => (i === index ? { ...newSelection(action.category, action.product), quantity: sel.quantity } : sel));
+      return withCategory(state, action.category, next);
     }
     case 'REMOVE_PRODUCT': {
-      const items = new Map(state.items);
-      items.delete(action.category);
-      return { ...state, items };
+      if (action.productId === undefined) return withCategory(state, action.category, []);
+      const list = state.items.get(action.category) ?? [];
+      return withCategory(state, action.category, list.filter((sel) => sel.product.id !== action.productId));
+    }
+    case 'SET_QUANTITY': {
+      const quantity = Math.max(1, Math.min(MAX_QUANTITY, Math.round(action.quantity)));
+      const list = state.items.get(action.category) ?? [];
+      return withCategory(state, action.category, list.map((sel) =>
+        sel.product.id === action.productId ? { ...sel, quantity } : sel
+      ));
     }
     case 'CLEAR':
-      return { items: new Map(), name: 'My Audio Build', description: '' };
+      return emptyBuild();
     case 'LOAD':
-      return { items: action.items, name: action.name, description: action.description };
+      return {
+        items: action.items,
+        name: action.name,
+        description: action.description,
+        savedBuildId: action.savedBuildId,
+        forkedFrom: action.forkedFrom,
+      };
     case 'SET_NAME':
       return { ...state, name: action.name };
     case 'SET_DESCRIPTION':
       return { ...state, description: action.description };
+    case 'SET_SAVED_BUILD_ID':
+      return { ...state, savedBuildId: action.savedBuildId };
     default:
       return state;
   }
 }
 
+function toBuildState({ items, name, description, savedBuildId, forkedFrom }: BuildState): BuildState {
+  return { items, name, description, savedBuildId, forkedFrom };
+}
+
+const NO_SELECTIONS: BuildSelection[] = [];
+
+const EMPTY_HISTORY: BuildHistory = { past: [], future: [], lastAction: null };
+
+function replaceBuild(state: LibraryState, id: string, next: BuildState, history?: BuildHistory): LibraryState {
+  return {
+    ...state,
+    builds: state.builds.map((b) => (b.id === id ? { ...b, ...next, updatedAt: new Date().toISOString() } : b)),
+    history: history ? { ...state.history, [id]: history } : state.history,
+  };
+}
+
+function libraryReducer(state: LibraryState, action: LibraryAction): LibraryState {
+  const active = state.builds.find((b) => b.id === state.activeId)!;
+  const history = state.history[state.activeId] ?? EMPTY_HISTORY;
+
+  switch (action.type) {
+    case 'CREATE_BUILD': {
+      const build: LibraryBuild = { ...emptyBuild(), ...action.build, id: action.id, updatedAt: new Date().toISOString() };
+      return { ...state, builds: [...state.builds, build], activeId: action.id };
+    }
+    case 'DUPLICATE_BUILD': {
+      const source = state.builds.find((b) => b.id === action.sourceId);
+      if (!source) return state;
+      const copy: LibraryBuild = {
+        ...source,
+        id: action.id,
+        name: `Copy of ${source.name}`.slice(0, 100),
+        items: new Map(source.items),
+        // The copy is a new working build, not the account build it came from
+        savedBuildId: null,
+        updatedAt: new Date().toISOString(),
+      };
+      return { ...state, builds: [...state.builds, copy], activeId: action.id };
+    }
+    case 'RENAME_BUILD': {
+      const target = state.builds.find((b) => b.id === action.id);
+      if (!target) return state;
+      return replaceBuild(state, action.id, { ...toBuildState(target), name: action.name });
+    }
+    case 'SWITCH_BUILD':
+      return state.builds.some((b) => b.id === action.id) ? { ...state, activeId: action.id } : state;
+    case 'DELETE_BUILD': {
+      const remaining = state.builds.filter((b) => b.id !== action.id);
+      const restHistory = { ...state.history };
+      delete restHistory[action.id];
+      // Always keep one build to work on
+      if (remaining.length === 0) {
+        remaining.push({ ...emptyBuild(), id: action.replacementId, updatedAt: new Date().toISOString() });
+      }
+      const activeId = remaining.some((b) => b.id === state.activeId) ? state.activeId : remaining[0].id;
+      return { builds: remaining, activeId, history: restHistory };
+    }
+    case 'UNDO': {
+      if (history.past.length === 0) return state;
+      const previous = history.past[history.past.length - 1];
+      return replaceBuild(state, state.activeId, previous, {
+        past: history.past.slice(0, -1),
+        future: [toBuildState(active), ...history.future],
+        lastAction: null,
+      });
+    }
+    case 'REDO': {
+      if (history.future.length === 0) return state;
+      const [next, ...future] = history.future;
+      return replaceBuild(state, state.activeId, next, {
+        past: [...history.past, toBuildState(active)],
+        future,
+        lastAction: null,
+      });
+    }
+    case 'SET_SAVED_BUILD_ID':
+      return replaceBuild(state, state.activeId, buildReducer(active, action));
+    default: {
+      const next = buildReducer(active, action);
+      const coalesce =
+        (action.type === 'SET_NAME' || action.type === 'SET_DESCRIPTION') && history.lastAction === action.type;
+      const past = coalesce ? history.past : [...history.past, toBuildState(active)].slice(-HISTORY_LIMIT);
+      return replaceBuild(state, state.activeId, next, { past, future: [], lastAction: action.type });
+    }
+  }
+}
+
+interface SerializedSelection {
+  product: Product;
+  quantity: number;
+  custom_price?: number;
+}
+
 interface SerializedBuild {
-  items: Record<string, { product: Product; quantity: number }>;
+  id?: string;
+  updatedAt?: string;
+  items: Record<string, SerializedSelection[]>;
   name?: string;
   description?: string;
+  savedBuildId?: string | null;
+  forkedFrom?: BuildOrigin | null;
 }
 
-function serializeBuild(state: BuildState): string {
-  const obj: SerializedBuild = { items: {}, name: state.name, description: state.description };
-  state.items.forEach((sel, key) => {
-    obj.items[key] = { product: sel.product, quantity: sel.quantity };
+function serializeBuild(build: LibraryBuild): SerializedBuild {
+  const obj: SerializedBuild = {
+    id: build.id,
+    updatedAt: build.updatedAt,
+    items: {},
+    name: build.name,
+    description: build.description,
+    savedBuildId: build.savedBuildId,
+    forkedFrom: build.forkedFrom,
+  };
+  build.items.forEach((list, key) => {
+    obj.items[key] = list.map((sel) => ({ product: sel.product, quantity: sel.quantity, custom_price: sel.custom_price }));
   });
-  return JSON.stringify(obj);
+  return obj;
 }
 
-function deserializeBuild(json: string): BuildState {
+function deserializeBuild(raw: unknown): BuildState {
+  if (!raw || typeof raw !== 'object') return emptyBuild();
+  const obj = raw as Record<string, unknown>;
+  const selections: BuildSelection[] = [];
+
+  // Support both old format (flat object) and new format (nested under .items)
+  const nested = obj.items as Record<string, unknown> | undefined;
+  const itemsObj = nested && typeof nested === 'object' && !Array.isArray(nested) && nested.product === undefined
+    ? nested
+    : obj;
+
+  for (const [key, val] of Object.entries(itemsObj)) {
+    // One selection per category before multi-item builds, a list after
+    const list = (Array.isArray(val) ? val : [val]) as Partial<SerializedSelection>[];
+    for (const entry of list) {
+      if (!entry || typeof entry !== 'object' || !entry.product) continue;
+      selections.push({
+        category_id: key as CategoryId,
+        product: entry.product,
+        quantity: typeof entry.quantity === 'number' ? entry.quantity : 1,
+        custom_price: typeof entry.custom_price === 'number' ? entry.custom_price : undefined,
+      });
+    }
+  }
+
+  return {
+    items: groupBuildItems(selections),
+    name: typeof obj.name === 'string' ? obj.name : DEFAULT_NAME,
+    description: typeof obj.description === 'string' ? obj.description : '',
+    savedBuildId: typeof obj.savedBuildId === 'string' ? obj.savedBuildId : null,
+    forkedFrom: parseOrigin(obj.forkedFrom),
+  };
+}
+
+function parseOrigin(raw: unknown): BuildOrigin | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, shareCode, name } = raw as Record<string, unknown>;
+  return typeof id === 'string' && typeof shareCode === 'string' && typeof name === 'string'
+    ? { id, shareCode, name }
+    : null;
+}
+
+function loadLibrary(): LibraryState {
   try {
-    const raw = JSON.parse(json);
-    const map = new Map<CategoryId, BuildSelection>();
-
-    // Support both old format (flat object) and new format (nested under .items)
-    const itemsObj = raw.items && typeof raw.items === 'object' && !Array.isArray(raw.items) && raw.items.product === undefined
-      ? raw.items as Record<string, { product: Product; quantity: number }>
-      : raw as Record<string, { product: Product; quantity: number }>;
-
-    for (const [key, val] of Object.entries(itemsObj)) {
-      if (val && typeof val === 'object' && 'product' in val) {
-        map.set(key as CategoryId, {
-          category_id: key as CategoryId,
-          product: val.product,
-          quantity: val.quantity,
-        });
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const raw = JSON.parse(stored) as { activeId?: string; builds?: SerializedBuild[] };
+      const builds = (raw.builds ?? []).map((b) => ({
+        ...deserializeBuild(b),
+        id: b.id ?? crypto.randomUUID(),
+        updatedAt: b.updatedAt ?? new Date().toISOString(),
+      }));
+      if (builds.length > 0) {
+        const activeId = builds.some((b) => b.id === raw.activeId) ? raw.activeId! : builds[0].id;
+        return { builds, activeId, history: {} };
       }
     }
 
-    return {
-      items: map,
-      name: typeof raw.name === 'string' ? raw.name : 'My Audio Build',
-      description: typeof raw.description === 'string' ? raw.description : '',
-    };
+    // First run with the library: adopt the single stored build
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      const build = { ...deserializeBuild(JSON.parse(legacy)), id: crypto.randomUUID(), updatedAt: new Date().toISOString() };
+      return { builds: [build], activeId: build.id, history: {} };
+    }
   } catch {
-    return { items: new Map(), name: 'My Audio Build', description: '' };
+    // Corrupt storage: start fresh
   }
+
+  const id = crypto.randomUUID();
+  return { builds: [{ ...emptyBuild(), id, updatedAt: new Date().toISOString() }], activeId: id, history: {} };
+}
+
+export interface BuildSummary {
+  id: string;
+  name: string;
+  itemCount: number;
+  totalPrice: number;
+  savedBuildId: string | null;
+  updatedAt: string;
 }
 
 interface BuildContextValue {
-  items: Map<CategoryId, BuildSelection>;
+  items: BuildItems;
   totalPrice: number;
+  /** Number of product lines (a line can have a quantity above 1) */
   itemCount: number;
   name: string;
   description: string;
-  setProduct: (category: CategoryId, product: Product) => void;
-  removeProduct: (category: CategoryId) => void;
+  /** Add a product to a category; adding one that is already there bumps its quantity */
+  addProduct: (category: CategoryId, product: Product) => void;
+  /** Swap `replaceProductId` for `product`, or make `product` the category's only pick */
+  setProduct: (category: CategoryId, product: Product, replaceProductId?: string) => void;
+  /** Remove one product, or the whole category when `productId` is omitted */
+  removeProduct: (category: CategoryId, productId?: string) => void;
+  setQuantity: (category: CategoryId, productId: string, quantity: number) => void;
+  /** Empty the active build (undoable) */
   clearBuild: () => void;
+  /** First (primary) product in a category */
   getSelection: (category: CategoryId) => BuildSelection | undefined;
+  getSelections: (category: CategoryId) => BuildSelection[];
   setName: (name: string) => void;
   setDescription: (description: string) => void;
+  savedBuildId: string | null;
+  /** Shared build the active build was cloned from */
+  forkedFrom: BuildOrigin | null;
+  /** Replace the active build's contents in one undoable step */
+  loadBuild: (
+    items: BuildItems,
+    name: string,
+    description: string,
+    savedBuildId?: string | null
+  ) => void;
+  setSavedBuildId: (id: string | null) => void;
+
+  // Build library
+  builds: BuildSummary[];
+  activeBuildId: string;
+  /** Add a build (empty unless `initial` is given) and switch to it; returns its id */
+  createBuild: (initial?: Partial<BuildState>) => string;
+  /** Copy a build (the active one by default) and switch to the copy; returns its id */
+  duplicateBuild: (id?: string) => string;
+  /**
+   * Open ready-made contents (a clone, starter or quiz pick): fills the active
+   * build when it is empty, otherwise adds a new build so nothing is overwritten
+   */
+  startBuildFrom: (initial: Partial<BuildState>) => void;
+  renameBuild: (id: string, name: string) => void;
+  switchBuild: (id: string) => void;
+  deleteBuild: (id: string) => void;
+  getBuild: (id: string) => BuildState | undefined;
+
+  // History of the active build
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 const BuildContext = createContext<BuildContextValue | null>(null);
 
 export function BuildProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(buildReducer, undefined, () => {
-    const stored = localStorage.getItem('audiolist_build');
-    if (stored) {
-      return deserializeBuild(stored);
-    }
-    return { items: new Map(), name: 'My Audio Build', description: '' } as BuildState;
-  });
+  const [state, dispatch] = useReducer(libraryReducer, undefined, loadLibrary);
 
   useEffect(() => {
-    localStorage.setItem('audiolist_build', serializeBuild(state));
-  }, [state]);
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ activeId: state.activeId, builds: state.builds.map(serializeBuild) })
+    );
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }, [state.builds, state.activeId]);
 
-  const totalPrice = Array.from(state.items.values()).reduce((sum, sel) => {
-    const price = sel.custom_price ?? sel.product.price;
-    return sum + (price ?? 0) * sel.quantity;
-  }, 0);
+  const active = state.builds.find((b) => b.id === state.activeId)!;
+  const history = state.history[state.activeId] ?? EMPTY_HISTORY;
 
-  const setProduct = useCallback((category: CategoryId, product: Product) => {
-    dispatch({ type: 'SET_PRODUCT', category, product });
+  const totalPrice = getBuildTotal(active.items);
+
+  const builds = useMemo(
+    () =>
+      state.builds.map((b) => ({
+        id: b.id,
+        name: b.name,
+        itemCount: countBuildItems(b.items),
+        totalPrice: getBuildTotal(b.items),
+        savedBuildId: b.savedBuildId,
+        updatedAt: b.updatedAt,
+      })),
+    [state.builds]
+  );
+
+  const addProduct = useCallback((category: CategoryId, product: Product) => {
+    dispatch({ type: 'ADD_PRODUCT', category, product });
   }, []);
 
-  const removeProduct = useCallback((category: CategoryId) => {
-    dispatch({ type: 'REMOVE_PRODUCT', category });
+  const setProduct = useCallback((category: CategoryId, product: Product, replaceProductId?: string) => {
+    dispatch({ type: 'SET_PRODUCT', category, product, replaceProductId });
+  }, []);
+
+  const removeProduct = useCallback((category: CategoryId, productId?: string) => {
+    dispatch({ type: 'REMOVE_PRODUCT', category, productId });
+  }, []);
+
+  const setQuantity = useCallback((category: CategoryId, productId: string, quantity: number) => {
+    dispatch({ type: 'SET_QUANTITY', category, productId, quantity });
   }, []);
 
   const clearBuild = useCallback(() => {
@@ -135,8 +458,13 @@ export function BuildProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const getSelection = useCallback(
-    (category: CategoryId) => state.items.get(category),
-    [state.items]
+    (category: CategoryId) => active.items.get(category)?.[0],
+    [active.items]
+  );
+
+  const getSelections = useCallback(
+    (category: CategoryId) => active.items.get(category) ?? NO_SELECTIONS,
+    [active.items]
   );
 
   const setName = useCallback((name: string) => {
@@ -147,20 +475,109 @@ export function BuildProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_DESCRIPTION', description });
   }, []);
 
+  const loadBuild = useCallback(
+    (items: BuildItems, name: string, description: string, savedBuildId: string | null = null) => {
+      dispatch({ type: 'LOAD', items, name, description, savedBuildId, forkedFrom: null });
+    },
+    []
+  );
+
+  const setSavedBuildId = useCallback((savedBuildId: string | null) => {
+    dispatch({ type: 'SET_SAVED_BUILD_ID', savedBuildId });
+  }, []);
+
+  const createBuild = useCallback((initial?: Partial<BuildState>) => {
+    const id = crypto.randomUUID();
+    dispatch({ type: 'CREATE_BUILD', id, build: initial });
+    return id;
+  }, []);
+
+  const duplicateBuild = useCallback(
+    (sourceId?: string) => {
+      const id = crypto.randomUUID();
+      dispatch({ type: 'DUPLICATE_BUILD', id, sourceId: sourceId ?? state.activeId });
+      return id;
+    },
+    [state.activeId]
+  );
+
+  const activeIsEmpty = active.items.size === 0;
+  const startBuildFrom = useCallback(
+    (initial: Partial<BuildState>) => {
+      if (activeIsEmpty) {
+        const next = { ...emptyBuild(), ...initial };
+        dispatch({
+          type: 'LOAD',
+          items: next.items,
+          name: next.name,
+          description: next.description,
+          savedBuildId: next.savedBuildId,
+          forkedFrom: next.forkedFrom,
+        });
+      } else {
+        dispatch({ type: 'CREATE_BUILD', id: crypto.randomUUID(), build: initial });
+      }
+    },
+    [activeIsEmpty]
+  );
+
+  const renameBuild = useCallback((id: string, name: string) => {
+    dispatch({ type: 'RENAME_BUILD', id, name });
+  }, []);
+
+  const switchBuild = useCallback((id: string) => {
+    dispatch({ type: 'SWITCH_BUILD', id });
+  }, []);
+
+  const deleteBuild = useCallback((id: string) => {
+    dispatch({ type: 'DELETE_BUILD', id, replacementId: crypto.randomUUID() });
+  }, []);
+
+  const getBuild = useCallback(
+    (id: string) => {
+      const build = state.builds.find((b) => b.id === id);
+      return build ? toBuildState(build) : undefined;
+    },
+    [state.builds]
+  );
+
+  const undo = useCallback(() => dispatch({ type: 'UNDO' }), []);
+  const redo = useCallback(() => dispatch({ type: 'REDO' }), []);
+
   return (
     <BuildContext.Provider
       value={{
-        items: state.items,
+        items: active.items,
         totalPrice,
-        itemCount: state.items.size,
-        name: state.name,
-        description: state.description,
+        itemCount: countBuildItems(active.items),
+        name: active.name,
+        description: active.description,
+        addProduct,
         setProduct,
         removeProduct,
+        setQuantity,
         clearBuild,
         getSelection,
+        getSelections,
         setName,
         setDescription,
+        savedBuildId: active.savedBuildId,
+        forkedFrom: active.forkedFrom,
+        loadBuild,
+        setSavedBuildId,
+        builds,
+        activeBuildId: state.activeId,
+        createBuild,
+        duplicateBuild,
+        startBuildFrom,
+        renameBuild,
+        switchBuild,
+        deleteBuild,
+        getBuild,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
       }}
     >
       {children}
@@ -0,0 +1,103 @@
+import { createContext, useContext, useState, useCallback, type ReactNode } from 'react';
+import type { CategoryId, Product } from '../types';
+import { MAX_COMPARE, type CompareItem } from '../lib/compare';
+
+const STORAGE_KEY = 'audiolist_compare';
+
+type AddResult = { added: true } | { added: false; reason: 'full' | 'duplicate' };
+
+interface CompareContextValue {
+  items: CompareItem[];
+  /** Category of the products in the tray (all items share one) */
+  categoryId: CategoryId | null;
+  /**
+   * Add a product. A product from another category starts a fresh tray,
+   * since only same-category products are comparable.
+   */
+  addItem: (product: Product) => AddResult;
+  removeItem: (productId: string) => void;
+  clear: () => void;
+  isInCompare: (productId: string) => boolean;
+}
+
+const CompareContext = createContext<CompareContextValue | null>(null);
+
+function loadItems(): CompareItem[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as CompareItem[];
+    return Array.isArray(parsed) ? parsed.slice(0, MAX_COMPARE) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveItems(items: CompareItem[]) {
+  if (items.length === 0) localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+export function CompareProvider({ children }: { children: ReactNode }) {
+  const [items, setItems] = useState<CompareItem[]>(loadItems);
+
+  const update = useCallback((next: CompareItem[]) => {
+    setItems(next);
+    saveItems(next);
+  }, []);
+
+  const addItem = useCallback(
+    (product: Product): AddResult => {
+      const entry: CompareItem = {
+        id: product.id,
+        name: product.name,
+        brand: product.brand,
+        category_id: product.category_id,
+        image_url: product.image_url,
+      };
+      if (items.some((i) => i.id === product.id)) return { added: false, reason: 'duplicate' };
+      if (items.length > 0 && items[0].category_id !== product.category_id) {
+        update([entry]);
+        return { added: true };
+      }
+      if (items.length >= MAX_COMPARE) return { added: false, reason: 'full' };
+      update([...items, entry]);
+      return { added: true };
+    },
+    [items, update]
+  );
+
+  const removeItem = useCallback(
+    (productId: string) => update(items.filter((i) => i.id !== productId)),
+    [items, update]
+  );
+
+  const clear = useCallback(() => update([]), [update]);
+
+  const isInCompare = useCallback(
+    (productId: string) => items.some((i) => i.id === productId),
+    [items]
+  );
+
+  return (
+    <CompareContext.Provider
+      value={{
+        items,
+        categoryId: items[0]?.category_id ?? null,
+        addItem,
+        removeItem,
+        clear,
+        isInCompare,
+      }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+}
+
+export function useCompare(): CompareContextValue {
+  const ctx = useContext(CompareContext);
+  if (!ctx) throw new Error('useCompare must be used within CompareProvider');
+  return ctx;
+}
+
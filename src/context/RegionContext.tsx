@@ -0,0 +1,74 @@
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { REGIONS, REGION_IDS, detectRegion, convertPrice, formatCurrency, type ExchangeRates } from '../lib/currency';
+import type { RegionId } from '../types';
+
+const STORAGE_KEY = 'audiolist_region';
+
+interface RegionContextValue {
+  region: RegionId;
+  setRegion: (region: RegionId) => void;
+  /** Display currency for the selected region */
+  currency: string;
+  rates: ExchangeRates;
+  /** Convert an amount into the display currency (null when no rate is known) */
+  convert: (amount: number, fromCurrency?: string) => number | null;
+  /** Format an amount in the display currency, falling back to its own currency */
+  formatPrice: (amount: number, fromCurrency?: string) => string;
+}
+
+const RegionContext = createContext<RegionContextValue | null>(null);
+
+export function RegionProvider({ children }: { children: ReactNode }) {
+  const [region, setRegionState] = useState<RegionId>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && (REGION_IDS as string[]).includes(stored) ? (stored as RegionId) : detectRegion();
+  });
+  const [rates, setRates] = useState<ExchangeRates>({ USD: 1 });
+
+  useEffect(() => {
+    supabase
+      .from('exchange_rates')
+      .select('currency, rate')
+      .then(({ data }) => {
+        if (!data) return;
+        const next: ExchangeRates = { USD: 1 };
+        for (const row of data) next[row.currency] = Number(row.rate);
+        setRates(next);
+      });
+  }, []);
+
+  const setRegion = useCallback((next: RegionId) => {
+    setRegionState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  const { currency, locale } = REGIONS[region];
+
+  const convert = useCallback(
+    (amount: number, fromCurrency = 'USD') => convertPrice(amount, fromCurrency, currency, rates),
+    [currency, rates]
+  );
+
+  const formatPrice = useCallback(
+    (amount: number, fromCurrency = 'USD') => {
+      const converted = convertPrice(amount, fromCurrency, currency, rates);
+      return converted !== null
+        ? formatCurrency(converted, currency, locale)
+        : formatCurrency(amount, fromCurrency, locale);
+    },
+    [currency, locale, rates]
+  );
+
+  return (
+    <RegionContext.Provider value={{ region, setRegion, currency, rates, convert, formatPrice }}>
+      {children}
+    </RegionContext.Provider>
+  );
+}
+
+export function useRegion(): RegionContextValue {
+  const ctx = useContext(RegionContext);
+  if (!ctx) throw new Error('useRegion must be used within RegionProvider');
+  return ctx;
+}
@@ -0,0 +1,37 @@
+import { createContext, useContext, useState, useCallback, type ReactNode } from 'react';
+import type { TargetType } from '../types';
+
+interface TargetTypeContextValue {
+  targetType: TargetType;
+  setTargetType: (type: TargetType) => void;
+}
+
+const TargetTypeContext = createContext<TargetTypeContextValue | null>(null);
+
+export function TargetTypeProvider({ children }: { children: ReactNode }) {
+  const [targetType, setTargetTypeState] = useState<TargetType>(() => {
+    const stored = localStorage.getItem('audiolist_target_type');
+    return stored === 'harman' ? 'harman' : 'df';
+  });
+
+  const setTargetType = useCallback((type: TargetType) => {
+    setTargetTypeState(type);
+    if (type === 'df') {
+      localStorage.removeItem('audiolist_target_type');
+    } else {
+      localStorage.setItem('audiolist_target_type', type);
+    }
+  }, []);
+
+  return (
+    <TargetTypeContext.Provider value={{ targetType, setTargetType }}>
+      {children}
+    </TargetTypeContext.Provider>
+  );
+}
+
+export function useTargetType(): TargetTypeContextValue {
+  const ctx = useContext(TargetTypeContext);
+  if (!ctx) throw new Error('useTargetType must be used within TargetTypeProvider');
+  return ctx;
+}
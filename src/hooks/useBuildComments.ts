@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import type { BuildComment } from '../types';
+import { getClientHash } from './useCommunityBuilds';
+
+export interface CommentNode extends BuildComment {
+  replies: CommentNode[];
+}
+
+export const MAX_COMMENT_LENGTH = 2000;
+/** Deepest reply depth the database accepts (0 = top level) */
+export const MAX_COMMENT_DEPTH = 4;
+
+const COMMENT_COLUMNS = 'id, build_id, parent_id, depth, body, author_name, user_id, client_hash, is_flagged, flagged_at, created_at';
+
+/** Nest comments under their parents, oldest first at every level */
+export function buildCommentTree(comments: BuildComment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  for (const c of comments) nodes.set(c.id, { ...c, replies: [] });
+
+  const roots: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    // Replies to a hidden (flagged) comment have no parent here; show them at the top
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  }
+
+  const byDate = (a: CommentNode, b: CommentNode) => a.created_at.localeCompare(b.created_at);
+  const sortTree = (list: CommentNode[]) => {
+    list.sort(byDate);
+    list.forEach((n) => sortTree(n.replies));
+  };
+  sortTree(roots);
+  return roots;
+}
+
+function formatCommentError(message: string): string {
+  if (message.includes('Rate limit exceeded')) {
+    return 'You are commenting too quickly. Please wait a while and try again.';
+  }
+  if (message.includes('Duplicate comment')) return 'You already posted this comment.';
+  if (message.includes('Posting is disabled')) return 'Posting is disabled for this browser.';
+  if (message.includes('chk_build_comments_body_length')) {
+    return `Comments must be between 1 and ${MAX_COMMENT_LENGTH} characters.`;
+  }
+  return message;
+}
+
+export function useBuildComments(buildId: string | null) {
+  const [comments, setComments] = useState<BuildComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!buildId) return;
+    let cancelled = false;
+
+    async function fetchComments() {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from('build_comments')
+        .select(COMMENT_COLUMNS)
+        .eq('build_id', buildId)
+        .order('created_at');
+      if (cancelled) return;
+      if (fetchError) setError(fetchError.message);
+      else setComments((data ?? []) as BuildComment[]);
+      setLoading(false);
+    }
+
+    fetchComments();
+    return () => {
+      cancelled = true;
+    };
+  }, [buildId]);
+
+  const tree = useMemo(() => buildCommentTree(comments), [comments]);
+
+  /** Post a comment or reply; resolves to an error message, or null on success */
+  const postComment = useCallback(
+    async (body: string, opts: { parentId?: string | null; authorName?: string } = {}): Promise<string | null> => {
+      if (!buildId) return 'Build not loaded';
+      const { data: session } = await supabase.auth.getSession();
+
+      // No RETURNING: a comment the spam check hides cannot be read back,
+      // and its author should not be told; show it locally instead
+      const row = {
+        id: crypto.randomUUID(),
+        build_id: buildId,
+        parent_id: opts.parentId ?? null,
+        body: body.trim(),
+        author_name: opts.authorName?.trim().slice(0, 50) || null,
+        user_id: session.session?.user.id ?? null,
+        client_hash: await getClientHash(),
+      };
+      const { error: insertError } = await supabase.from('build_comments').insert(row);
+
+      if (insertError) return formatCommentError(insertError.message);
+      const parentDepth = row.parent_id ? comments.find((c) => c.id === row.parent_id)?.depth ?? -1 : -1;
+      const comment: BuildComment = {
+        ...row,
+        depth: parentDepth + 1,
+        is_flagged: false,
+        flagged_at: null,
+        created_at: new Date().toISOString(),
+      };
+      setComments((prev) => [...prev, comment]);
+      return null;
+    },
+    [buildId, comments]
+  );
+
+  return { comments: tree, count: comments.length, loading, error, postComment };
+}
@@ -51,7 +51,7 @@ export function useBundleListings(
         const { data, error: queryError } = await supabase
           .from('store_products')
           .select(
-            'id, retailer_id, title, price, in_stock, product_url, affiliate_url, image_url, retailer:retailers!retailer_id(id, name, base_url, is_active, description, ships_from, return_policy, authorized_dealer)',
+            'id, retailer_id, title, price, in_stock, product_url, affiliate_url, image_url, retailer:retailers!retailer_id(id, name, base_url, is_active, description, ships_from, return_policy, authorized_dealer, region, ships_to, currency)',
           )
           .eq('canonical_product_id', productId)
           .order('price', { ascending: true });
@@ -0,0 +1,142 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { useBuild } from '../context/BuildContext';
+import { useRegion } from '../context/RegionContext';
+import { retailerServesRegion } from '../lib/currency';
+import { flattenBuildItems } from '../lib/buildItems';
+import { optimizeCart, type CartLine, type CartPlan, type CartStore } from '../lib/cartOptimizer';
+import { useCoupons } from './useCoupons';
+import type { Retailer } from '../types';
+
+interface CartListing {
+  product_id: string;
+  price: number;
+  currency: string;
+  product_url: string | null;
+  affiliate_url: string | null;
+  retailer: Pick<
+    Retailer,
+    'id' | 'name' | 'base_url' | 'is_active' | 'region' | 'ships_to' | 'currency' | 'shipping_cost' | 'free_shipping_min'
+  > | null;
+}
+
+interface UseCartOptimizerReturn {
+  /** null until listings are loaded or when the build is empty */
+  plan: CartPlan | null;
+  /** Display currency of every amount in the plan */
+  currency: string;
+  loading: boolean;
+}
+
+/**
+ * Cheapest combination of stores for the current build: in-stock listings
+ * from active stores selling into the selected region, with each store's
+ * shipping rules and coupons, in the display currency.
+ */
+export function useCartOptimizer(): UseCartOptimizerReturn {
+  const { items } = useBuild();
+  const { region, currency, convert } = useRegion();
+  const [listings, setListings] = useState<CartListing[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const productIds = useMemo(
+    () => [...new Set(flattenBuildItems(items).map((sel) => sel.product.id))].sort(),
+    [items]
+  );
+  const idsKey = productIds.join(',');
+
+  useEffect(() => {
+    if (productIds.length === 0) {
+      setListings([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function fetchListings() {
+      setLoading(true);
+      const { data } = await supabase
+        .from('price_listings')
+        .select(
+          'product_id, price, currency, product_url, affiliate_url, retailer:retailers!retailer_id(id, name, base_url, is_active, region, ships_to, currency, shipping_cost, free_shipping_min)'
+        )
+        .in('product_id', productIds)
+        .eq('in_stock', true)
+        .gt('price', 0);
+
+      if (!cancelled) {
+        setListings((data ?? []) as unknown as CartListing[]);
+        setLoading(false);
+      }
+    }
+
+    fetchListings();
+    return () => {
+      cancelled = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey]);
+
+  const usable = useMemo(
+    () =>
+      listings.filter(
+        (l) => l.retailer?.is_active && retailerServesRegion(l.retailer as Retailer, region)
+      ),
+    [listings, region]
+  );
+  const retailerIds = useMemo(() => [...new Set(usable.map((l) => l.retailer!.id))], [usable]);
+  const { coupons, loading: couponsLoading } = useCoupons(retailerIds);
+
+  const plan = useMemo(() => {
+    const selections = flattenBuildItems(items);
+    if (selections.length === 0 || loading) return null;
+
+    const stores = new Map<string, CartStore>();
+    for (const l of usable) {
+      const r = l.retailer!;
+      if (stores.has(r.id)) continue;
+      // Without an exchange rate its shipping and fixed coupons cannot be
+      // priced: leave the store out, so items only it sells show as unavailable
+      const storeCurrency = r.currency ?? 'USD';
+      if (convert(1, storeCurrency) === null) continue;
+      const fromStore = (amount: number | null | undefined) =>
+        amount == null ? null : convert(Number(amount), storeCurrency);
+      stores.set(r.id, {
+        id: r.id,
+        name: r.name,
+        url: r.base_url,
+        shippingCost: fromStore(r.shipping_cost),
+        freeShippingMin: fromStore(r.free_shipping_min),
+        coupons: (coupons.get(r.id) ?? []).map((c) => ({
+          ...c,
+          discount_value: c.discount_type === 'fixed' ? fromStore(c.discount_value) : c.discount_value,
+          min_purchase: fromStore(c.min_purchase),
+        })),
+      });
+    }
+
+    const lines: CartLine[] = selections.map((sel) => {
+      // A store can list a product several times (variants): keep its cheapest
+      const best = new Map<string, CartLine['offers'][number]>();
+      for (const l of usable) {
+        if (l.product_id !== sel.product.id) continue;
+        const price = convert(Number(l.price), l.currency);
+        if (price === null) continue;
+        const current = best.get(l.retailer!.id);
+        if (!current || price < current.price) {
+          best.set(l.retailer!.id, { retailerId: l.retailer!.id, price, url: l.affiliate_url ?? l.product_url });
+        }
+      }
+      return {
+        productId: sel.product.id,
+        name: sel.product.brand ? `${sel.product.brand} ${sel.product.name}` : sel.product.name,
+        quantity: sel.quantity,
+        offers: [...best.values()],
+      };
+    });
+
+    return optimizeCart(lines, stores);
+  }, [items, usable, coupons, convert, loading]);
+
+  return { plan, currency, loading: loading || couponsLoading };
+}
@@ -1,23 +1,106 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
-import type { Build, BuildItem } from '../types';
+import type { Build, BuildItem, CategoryId } from '../types';
 
 export type CommunitySortOption = 'recent' | 'popular' | 'budget_asc' | 'budget_desc';
 
-interface CommunityBuild extends Build {
+export interface CommunityBuild extends Build {
   build_items: (BuildItem & { product: { id: string; name: string; brand: string | null; price: number | null; category_id: string; image_url: string | null } })[];
-  totalPrice: number;
+  parent: Pick<Build, 'share_code' | 'name' | 'is_public' | 'is_flagged'> | null;
+}
+
+export interface CommunityBuildFilters {
+  /** Full-text search over build name and description */
+  search: string;
+  /** Builds carrying all of these tags */
+  tags: string[];
+  /** Builds with a product in each of these categories */
+  categories: CategoryId[];
+  /** Builds containing a product whose brand/name matches, e.g. "hexa" */
+  contains: string;
+  priceMin: number | null;
+  priceMax: number | null;
+}
+
+export const EMPTY_COMMUNITY_FILTERS: CommunityBuildFilters = {
+  search: '',
+  tags: [],
+  categories: [],
+  contains: '',
+  priceMin: null,
+  priceMax: null,
+};
+
+export interface BuildTag {
+  tag: string;
+  builds: number;
 }
 
 const PAGE_SIZE = 20;
+const MAX_TAGS = 5;
+/** Products matched by a "contains" term before the build query */
+const CONTAINS_PRODUCT_LIMIT = 200;
+
+// Everything but search_vector
+const BUILD_COLUMNS =
+  'id, share_code, name, description, is_public, upvotes, author_name, tags, client_hash, user_id, is_saved, ' +
+  'is_flagged, flagged_at, total_price, item_count, product_ids, category_ids, forked_from, fork_count, comment_count, shared_total, ' +
+  'created_at, updated_at, parent:builds!forked_from(share_code, name, is_public, is_flagged)';
+
+/** Products whose brand or name contains every word of the term */
+async function findProductIds(term: string): Promise<string[]> {
+  // Words only: or() filters are comma/parenthesis delimited
+  const words = term.toLowerCase().split(/[^\p{L}\p{N}.-]+/u).filter(Boolean);
+  if (words.length === 0) return [];
+
+  let query = supabase.from('products').select('id').limit(CONTAINS_PRODUCT_LIMIT);
+  for (const word of words) {
+    query = query.or(`name.ilike.%${word}%,brand.ilike.%${word}%`);
+  }
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data ?? []).map((p) => p.id as string);
+}
+
+export function hasCommunityFilters(filters: CommunityBuildFilters): boolean {
+  return (
+    filters.search.trim() !== '' ||
+    filters.tags.length > 0 ||
+    filters.categories.length > 0 ||
+    filters.contains.trim() !== '' ||
+    filters.priceMin !== null ||
+    filters.priceMax !== null
+  );
+}
+
+/** "Budget, Desk Setup,,budget" -> ['budget', 'desk setup'] */
+export function parseBuildTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map((t) => t.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 30))
+    .filter(Boolean);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
 
 export function useCommunityBuilds() {
   const [builds, setBuilds] = useState<CommunityBuild[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [sort, setSort] = useState<CommunitySortOption>('recent');
+  const [filters, setFilters] = useState<CommunityBuildFilters>(EMPTY_COMMUNITY_FILTERS);
   const [page, setPage] = useState(0);
   const [hasMore, setHasMore] = useState(true);
+  const [tags, setTags] = useState<BuildTag[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    supabase.rpc('get_build_tags').then(({ data }) => {
+      if (!cancelled && data) setTags(data as BuildTag[]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const fetchBuilds = useCallback(
     async (pageNum: number, append: boolean) => {
@@ -28,21 +111,37 @@ export function useCommunityBuilds() {
         let query = supabase
           .from('builds')
           .select(
-            '*, build_items(*, product:products!product_id(id, name, brand, price, category_id, image_url))'
+            `${BUILD_COLUMNS}, build_items(*, product:products!product_id(id, name, brand, price, category_id, image_url))`
           )
           .eq('is_public', true)
-          .eq('is_flagged', false)
-          .range(pageNum * PAGE_SIZE, (pageNum + 1) * PAGE_SIZE - 1);
+          .eq('is_flagged', false);
+
+        const search = filters.search.trim();
+        if (search) query = query.textSearch('search_vector', search, { type: 'websearch', config: 'english' });
+        if (filters.tags.length > 0) query = query.contains('tags', filters.tags);
+        if (filters.categories.length > 0) query = query.contains('category_ids', filters.categories);
+        if (filters.priceMin !== null) query = query.gte('total_price', filters.priceMin);
+        if (filters.priceMax !== null) query = query.lte('total_price', filters.priceMax);
+
+        if (filters.contains.trim()) {
+          const productIds = await findProductIds(filters.contains);
+          if (productIds.length === 0) {
+            if (!append) setBuilds([]);
+            setHasMore(false);
+            return;
+          }
+          query = query.overlaps('product_ids', productIds);
+        }
 
         switch (sort) {
           case 'popular':
             query = query.order('upvotes', { ascending: false });
             break;
           case 'budget_asc':
-            query = query.order('created_at', { ascending: false });
+            query = query.order('total_price', { ascending: true });
             break;
           case 'budget_desc':
-            query = query.order('created_at', { ascending: false });
+            query = query.order('total_price', { ascending: false });
             break;
           case 'recent':
           default:
@@ -50,30 +149,17 @@ export function useCommunityBuilds() {
             break;
         }
 
-        const { data, error: fetchError } = await query;
+        // Stable order across pages when the sort key ties
+        const { data, error: fetchError } = await query
+          .order('id')
+          .range(pageNum * PAGE_SIZE, (pageNum + 1) * PAGE_SIZE - 1);
 
         if (fetchError) {
           setError(fetchError.message);
           return;
         }
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const processed = (data ?? []).map((b: any) => {
-          const totalPrice = (b.build_items ?? []).reduce(
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            (sum: number, item: any) => sum + (item.product?.price ?? 0),
-            0
-          );
-          return { ...b, totalPrice } as CommunityBuild;
-        });
-
-        // Sort by budget client-side for budget sorts
-        if (sort === 'budget_asc') {
-          processed.sort((a: CommunityBuild, b: CommunityBuild) => a.totalPrice - b.totalPrice);
-        } else if (sort === 'budget_desc') {
-          processed.sort((a: CommunityBuild, b: CommunityBuild) => b.totalPrice - a.totalPrice);
-        }
-
+        const processed = (data ?? []) as unknown as CommunityBuild[];
         setHasMore(processed.length === PAGE_SIZE);
 
         if (append) {
@@ -87,13 +173,13 @@ export function useCommunityBuilds() {
         setLoading(false);
       }
     },
-    [sort]
+    [sort, filters]
   );
 
   useEffect(() => {
     setPage(0);
     fetchBuilds(0, false);
-  }, [sort, fetchBuilds]);
+  }, [sort, filters, fetchBuilds]);
 
   const loadMore = useCallback(() => {
     const nextPage = page + 1;
@@ -101,38 +187,68 @@ export function useCommunityBuilds() {
     fetchBuilds(nextPage, true);
   }, [page, fetchBuilds]);
 
-  return { builds, loading, error, sort, setSort, hasMore, loadMore };
+  return { builds, loading, error, sort, setSort, filters, setFilters, tags, hasMore, loadMore };
 }
 
-/** Generate a stable voter hash from localStorage */
-export function getVoterHash(): string {
-  const KEY = 'audiolist_voter_hash';
-  let hash = localStorage.getItem(KEY);
-  if (!hash) {
-    hash = crypto.randomUUID();
-    localStorage.setItem(KEY, hash);
+/** A random per-browser secret, created on first use and kept in localStorage */
+function getBrowserKey(storageKey: string): string {
+  let key = localStorage.getItem(storageKey);
+  if (!key) {
+    key = crypto.randomUUID();
+    localStorage.setItem(storageKey, key);
   }
-  return hash;
+  return key;
 }
 
-/** Generate a stable client hash for rate limiting */
-export function getClientHash(): string {
-  const KEY = 'audiolist_client_hash';
-  let hash = localStorage.getItem(KEY);
-  if (!hash) {
-    hash = crypto.randomUUID();
-    localStorage.setItem(KEY, hash);
-  }
-  return hash;
+/** Hex SHA-256, matching client_key_hash() in 034_private_watch_keys.sql */
+async function hashBrowserKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * This browser's secret keys. They are only sent to RPCs that need proof of
+ * ownership (price watches, claim_anonymous_data) and never written to a row;
+ * rows carry their hashes, which are public.
+ */
+export function getClientKey(): string {
+  return getBrowserKey('audiolist_client_key');
+}
+
+export function getVoterKey(): string {
+  return getBrowserKey('audiolist_voter_key');
+}
+
+/** Stable client hash for rate limiting and build/comment ownership */
+export function getClientHash(): Promise<string> {
+  return hashBrowserKey(getClientKey());
+}
+
+/** Stable voter hash for build_votes */
+export function getVoterHash(): Promise<string> {
+  return hashBrowserKey(getVoterKey());
+}
+
+/** Vote identity: the account when signed in, otherwise this browser's voter hash */
+async function getVoter(): Promise<{ voterHash: string; userId: string | null }> {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id ?? null;
+  return { voterHash: userId ? `user:${userId}` : await getVoterHash(), userId };
+}
+
+/** Builds the signed-in user has voted for (empty when signed out) */
+export async function fetchAccountVotedIds(userId: string): Promise<string[]> {
+  const { data } = await supabase.from('build_votes').select('build_id').eq('user_id', userId);
+  return (data ?? []).map((row) => row.build_id as string);
 }
 
 export async function upvoteBuild(buildId: string): Promise<{ success: boolean; newCount?: number; error?: string }> {
-  const voterHash = getVoterHash();
+  const { voterHash, userId } = await getVoter();
 
   // Insert vote (will fail silently on duplicate due to unique constraint)
   const { error: voteError } = await supabase
     .from('build_votes')
-    .insert({ build_id: buildId, voter_hash: voterHash });
+    .insert({ build_id: buildId, voter_hash: voterHash, user_id: userId });
 
   if (voteError) {
     // Unique violation means already voted - let them unvote
@@ -161,3 +277,37 @@ export async function upvoteBuild(buildId: string): Promise<{ success: boolean;
     .rpc('increment_upvotes', { build_uuid: buildId });
   return { success: true, newCount: data ?? undefined };
 }
+
+export type BuildReportReason = 'spam' | 'offensive' | 'misleading' | 'other';
+
+export const BUILD_REPORT_REASONS: { value: BuildReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'offensive', label: 'Offensive or abusive' },
+  { value: 'misleading', label: 'Misleading or fake' },
+  { value: 'other', label: 'Something else' },
+];
+
+/** Report a shared build for moderation; each browser can report a build once */
+export async function reportBuild(
+  buildId: string,
+  reason: BuildReportReason,
+  details: string
+): Promise<{ success: boolean; error?: string }> {
+  const { data } = await supabase.auth.getSession();
+  const { error } = await supabase.from('build_reports').insert({
+    build_id: buildId,
+    reason,
+    details: details.trim().slice(0, 500) || null,
+    client_hash: await getClientHash(),
+    user_id: data.session?.user.id ?? null,
+  });
+
+  if (error) {
+    if (error.code === '23505') return { success: false, error: 'You already reported this build.' };
+    if (error.message?.includes('Report rate limit')) {
+      return { success: false, error: 'Too many reports today. Please try again later.' };
+    }
+    return { success: false, error: error.message };
+  }
+  return { success: true };
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { FrequencyResponse, FrTarget } from '../types';
+
+interface UseFrequencyResponseReturn {
+  curve: FrequencyResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/** Stored FR curve for a product (null when it has none) */
+export function useFrequencyResponse(productId: string | undefined): UseFrequencyResponseReturn {
+  const [curve, setCurve] = useState<FrequencyResponse | null>(null);
+  const [loading, setLoading] = useState(!!productId);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!productId) {
+      setCurve(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function fetchCurve() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: queryError } = await supabase
+          .from('frequency_responses')
+          .select('*')
+          .eq('product_id', productId)
+          .maybeSingle();
+
+        if (queryError) throw queryError;
+        if (!cancelled) setCurve((data as FrequencyResponse | null) ?? null);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load frequency response');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchCurve();
+    return () => {
+      cancelled = true;
+    };
+  }, [productId]);
+
+  return { curve, loading, error };
+}
+
+/** Target curve by Squig-Rank target group name (null when not stored) */
+export function useFrTarget(name: string | null): FrTarget | null {
+  const [target, setTarget] = useState<FrTarget | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchTarget() {
+      if (!name) {
+        setTarget(null);
+        return;
+      }
+
+      const { data } = await supabase
+        .from('fr_targets')
+        .select('name, category_id, frequencies, spl')
+        .eq('name', name)
+        .maybeSingle();
+
+      if (!cancelled) setTarget((data as FrTarget | null) ?? null);
+    }
+
+    fetchTarget();
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  return target;
+}
+
+export interface FrSearchResult {
+  id: string;
+  name: string;
+  brand: string | null;
+}
+
+/**
+ * Products in a category that have a stored FR curve, filtered by name.
+ * Used to pick a second product to overlay on the graph.
+ */
+export function useFrSearch(categoryId: string, query: string, excludeId: string): FrSearchResult[] {
+  const [results, setResults] = useState<FrSearchResult[]>([]);
+  const trimmed = query.trim();
+  const active = trimmed.length >= 2;
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      const { data } = await supabase
+        .from('frequency_responses')
+        .select('product:products!inner(id, name, brand, category_id)')
+        .eq('product.category_id', categoryId)
+        .ilike('product.name', `%${trimmed}%`)
+        .neq('product_id', excludeId)
+        .limit(8);
+
+      if (cancelled) return;
+      const rows = (data ?? []) as unknown as { product: FrSearchResult }[];
+      setResults(rows.map((r) => r.product));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [active, categoryId, trimmed, excludeId]);
+
+  return active ? results : [];
+}
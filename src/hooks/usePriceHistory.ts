@@ -3,12 +3,35 @@ import { supabase } from '../lib/supabase';
 
 export interface PriceHistoryPoint {
   recorded_at: string;
-  price: number;
+  /** USD (migration 040), so retailers in different currencies share a scale; null without an exchange rate */
+  price_usd: number | null;
   in_stock: boolean;
   retailer_id: string;
   retailer_name: string;
 }
 
+async function fetchPriceHistory(productId: string, days: number): Promise<PriceHistoryPoint[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const { data, error } = await supabase
+    .from('price_history')
+    .select('recorded_at, price_usd, in_stock, retailer_id, retailer:retailers!retailer_id(name)')
+    .eq('product_id', productId)
+    .gte('recorded_at', since.toISOString())
+    .order('recorded_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map((row: Record<string, unknown>) => ({
+    recorded_at: row.recorded_at as string,
+    price_usd: row.price_usd == null ? null : Number(row.price_usd),
+    in_stock: row.in_stock as boolean,
+    retailer_id: row.retailer_id as string,
+    retailer_name: (row.retailer as { name: string } | null)?.name ?? 'Unknown',
+  }));
+}
+
 interface UsePriceHistoryReturn {
   history: PriceHistoryPoint[];
   loading: boolean;
@@ -35,27 +58,7 @@ export function usePriceHistory(
       setError(null);
 
       try {
-        const since = new Date();
-        since.setDate(since.getDate() - days);
-
-        const { data, error: queryError } = await supabase
-          .from('price_history')
-          .select('recorded_at, price, in_stock, retailer_id, retailer:retailers!retailer_id(name)')
-          .eq('product_id', productId)
-          .gte('recorded_at', since.toISOString())
-          .order('recorded_at', { ascending: true });
-
-        if (queryError) throw queryError;
-
-        const points: PriceHistoryPoint[] = (data ?? []).map((row: Record<string, unknown>) => ({
-          recorded_at: row.recorded_at as string,
-          price: Number(row.price),
-          in_stock: row.in_stock as boolean,
-          retailer_id: row.retailer_id as string,
-          retailer_name: (row.retailer as { name: string } | null)?.name ?? 'Unknown',
-        }));
-
-        setHistory(points);
+        setHistory(await fetchPriceHistory(productId!, days));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load price history');
       } finally {
@@ -68,3 +71,47 @@ export function usePriceHistory(
 
   return { history, loading, error };
 }
+
+interface UsePriceHistoriesReturn {
+  /** Price history per product id */
+  histories: Map<string, PriceHistoryPoint[]>;
+  loading: boolean;
+  error: string | null;
+}
+
+/** Price history for several products at once (compare page overlays) */
+export function usePriceHistories(
+  productIds: string[],
+  days: number = 90
+): UsePriceHistoriesReturn {
+  const [histories, setHistories] = useState<Map<string, PriceHistoryPoint[]>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const idsKey = productIds.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchAll() {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const results = await Promise.all(productIds.map((id) => fetchPriceHistory(id, days)));
+        if (!cancelled) setHistories(new Map(productIds.map((id, i) => [id, results[i]])));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load price history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchAll();
+    return () => {
+      cancelled = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey, days]);
+
+  return { histories, loading, error };
+}
@@ -13,7 +13,9 @@ export interface PriceInsight {
 }
 
 interface UsePriceInsightsReturn {
+  /** Per retailer, in that retailer's own currency (its listing and price_history.price) */
   insights: Map<string, PriceInsight>;
+  /** Lowest current price across retailers, in USD */
   globalLowest: number | null;
   loading: boolean;
 }
@@ -120,8 +122,9 @@ export function usePriceInsights(
         else if (priceChangePct > 2) trend = 'up';
       }
 
-      if (globalMin === null || currentPrice < globalMin) {
-        globalMin = currentPrice;
+      // Retailers price in different currencies; compare them in USD
+      if (listing.price_usd !== null && (globalMin === null || listing.price_usd < globalMin)) {
+        globalMin = listing.price_usd;
       }
 
       insights.set(listing.retailer_id, {
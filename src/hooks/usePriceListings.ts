@@ -30,10 +30,10 @@ export function usePriceListings(
         const { data, error: queryError } = await supabase
           .from('price_listings')
           .select(
-            '*, retailer:retailers!retailer_id(id, name, base_url, is_active, description, ships_from, return_policy, authorized_dealer)'
+            '*, retailer:retailers!retailer_id(id, name, base_url, is_active, description, ships_from, return_policy, authorized_dealer, region, ships_to, currency)'
           )
           .eq('product_id', productId)
-          .order('price', { ascending: true });
+          .order('price_usd', { ascending: true, nullsFirst: false });
 
         if (queryError) throw queryError;
 
@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
+import { getPpiScoreColumn } from '../lib/productUtils';
+import { applyProductFilters } from '../lib/productQuery';
+import { useTargetType } from '../context/TargetTypeContext';
 import type { Product, CategoryId, ProductFilters, ProductSort } from '../types';
 
 const PAGE_SIZE = 50;
@@ -58,6 +61,7 @@ export function useProducts({
   const [page, setPage] = useState(0);
   const [hasMore, setHasMore] = useState(true);
   const [total, setTotal] = useState(0);
+  const { targetType } = useTargetType();
 
   const fetchProducts = useCallback(
     async (pageNum: number, append: boolean, signal?: AbortSignal) => {
@@ -65,6 +69,8 @@ export function useProducts({
       setError(null);
 
       try {
+        // PPI range and ppi_score sorting follow the selected target curve
+        const ppiColumn = getPpiScoreColumn(category, targetType);
         const hasRetailerFilter = filters.retailers.length > 0;
         const selectStr = hasRetailerFilter
           ? '*, price_listings!inner(retailer_id, price, affiliate_url, product_url, in_stock)'
@@ -80,101 +86,15 @@ export function useProducts({
           query = query.abortSignal(signal);
         }
 
-        // Retailer filter (via inner join on price_listings)
-        if (hasRetailerFilter) {
-          query = query.in('price_listings.retailer_id', filters.retailers);
-        }
-
-        // Search
-        if (filters.search) {
-          query = query.ilike('name', `%${filters.search}%`);
-        }
-
-        // Brand filter
-        if (filters.brands.length > 0) {
-          query = query.in('brand', filters.brands);
-        }
-
-        // Price range
-        if (filters.priceMin !== null) {
-          query = query.gte('price', filters.priceMin);
-        }
-        if (filters.priceMax !== null) {
-          query = query.lte('price', filters.priceMax);
-        }
-
-        // PPI range
-        if (filters.ppiMin !== null) {
-          query = query.gte('ppi_score', filters.ppiMin);
-        }
-        if (filters.ppiMax !== null) {
-          query = query.lte('ppi_score', filters.ppiMax);
-        }
-
-        // SINAD range (DAC/Amp)
-        if (filters.sinadMin !== null) {
-          query = query.gte('sinad_db', filters.sinadMin);
-        }
-        if (filters.sinadMax !== null) {
-          query = query.lte('sinad_db', filters.sinadMax);
-        }
-
-        // Quality
-        if (filters.quality) {
-          query = query.eq('quality', filters.quality);
-        }
-
-        // Rig type
-        if (filters.rigType) {
-          query = query.eq('rig_type', filters.rigType);
-        }
-
-        // Speaker type
-        if (filters.speakerTypes.length > 0) {
-          query = query.in('speaker_type', filters.speakerTypes);
-        }
-
-        // Headphone design (open/closed back)
-        if (filters.headphoneDesigns.length > 0) {
-          query = query.in('headphone_design', filters.headphoneDesigns);
-        }
-
-        // IEM type (passive/active/tws)
-        if (filters.iemTypes.length > 0) {
-          query = query.in('iem_type', filters.iemTypes);
-        }
-
-        // Driver type (dynamic/planar/hybrid/tribrid/etc.)
-        if (filters.driverTypes.length > 0) {
-          query = query.in('driver_type', filters.driverTypes);
-        }
-
-        // Microphone filters
-        if (filters.micConnections.length > 0) {
-          query = query.in('mic_connection', filters.micConnections);
-        }
-        if (filters.micTypes.length > 0) {
-          query = query.in('mic_type', filters.micTypes);
-        }
-        if (filters.micPatterns.length > 0) {
-          query = query.in('mic_pattern', filters.micPatterns);
-        }
-
-        // Hide non-best DSP/ANC variants from search results
-        query = query.eq('is_best_variant', true);
-
-        // Hide out of stock (DB-level only when no retailer filter;
-        // with retailer filter we post-process after overriding in_stock)
-        if (filters.hideOutOfStock && !hasRetailerFilter) {
-          query = query.eq('in_stock', true);
-        }
+        query = applyProductFilters(query, filters, ppiColumn);
 
         // Sort: in_stock first (purchasable products above measurement-only)
         query = query.order('in_stock', { ascending: false, nullsFirst: false });
 
         // Primary sort field
         const ascending = sort.direction === 'asc';
-        query = query.order(sort.field, {
+        const sortColumn = sort.field === 'ppi_score' ? ppiColumn : sort.field;
+        query = query.order(sortColumn, {
           ascending,
           nullsFirst: false,
         });
@@ -249,7 +169,7 @@ export function useProducts({
         }
       }
     },
-    [category, filters, sort]
+    [category, filters, sort, targetType]
   );
 
   // Reset and fetch on filter/sort/category change.
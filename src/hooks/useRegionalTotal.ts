@@ -0,0 +1,105 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { useBuild } from '../context/BuildContext';
+import { useRegion } from '../context/RegionContext';
+import { retailerServesRegion } from '../lib/currency';
+import { flattenBuildItems } from '../lib/buildItems';
+import type { Retailer } from '../types';
+
+interface RegionalListing {
+  product_id: string;
+  price: number;
+  currency: string;
+  retailer: Pick<Retailer, 'is_active' | 'region' | 'ships_to'> | null;
+}
+
+interface UseRegionalTotalReturn {
+  /** Build total in the region's display currency */
+  total: number;
+  currency: string;
+  /** Items priced from a store that ships to the region */
+  regionalCount: number;
+  /** Items whose price fell back to the converted US price */
+  fallbackCount: number;
+  loading: boolean;
+}
+
+/**
+ * Build total for the selected region: each item uses its cheapest in-stock
+ * listing from a store that sells into the region, converted to the display
+ * currency. Items without such a listing fall back to products.price (USD).
+ * Custom prices entered by the user are taken as USD.
+ */
+export function useRegionalTotal(): UseRegionalTotalReturn {
+  const { items } = useBuild();
+  const { region, currency, convert } = useRegion();
+  const [listings, setListings] = useState<RegionalListing[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const productIds = useMemo(
+    () => [...new Set(flattenBuildItems(items).map((sel) => sel.product.id))].sort(),
+    [items]
+  );
+  const idsKey = productIds.join(',');
+
+  useEffect(() => {
+    if (productIds.length === 0) {
+      setListings([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function fetchListings() {
+      setLoading(true);
+      const { data } = await supabase
+        .from('price_listings')
+        .select('product_id, price, currency, retailer:retailers!retailer_id(is_active, region, ships_to)')
+        .in('product_id', productIds)
+        .eq('in_stock', true);
+
+      if (!cancelled) {
+        setListings((data ?? []) as unknown as RegionalListing[]);
+        setLoading(false);
+      }
+    }
+
+    fetchListings();
+    return () => {
+      cancelled = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey]);
+
+  return useMemo(() => {
+    // Cheapest in-region price per product, in display currency
+    const bestByProduct = new Map<string, number>();
+    for (const l of listings) {
+      if (!l.retailer?.is_active) continue;
+      if (!retailerServesRegion(l.retailer as Retailer, region)) continue;
+      const converted = convert(Number(l.price), l.currency);
+      if (converted === null) continue;
+      const best = bestByProduct.get(l.product_id);
+      if (best === undefined || converted < best) bestByProduct.set(l.product_id, converted);
+    }
+
+    let total = 0;
+    let regionalCount = 0;
+    let fallbackCount = 0;
+
+    for (const sel of flattenBuildItems(items)) {
+      const regional = sel.custom_price == null ? bestByProduct.get(sel.product.id) : undefined;
+      if (regional !== undefined) {
+        total += regional * sel.quantity;
+        regionalCount++;
+        continue;
+      }
+      const usd = sel.custom_price ?? sel.product.price;
+      if (usd == null) continue;
+      total += (convert(usd) ?? usd) * sel.quantity;
+      if (sel.custom_price == null) fallbackCount++;
+    }
+
+    return { total, currency, regionalCount, fallbackCount, loading };
+  }, [listings, items, region, currency, convert, loading]);
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+
+export interface RestockListing {
+  product_id: string;
+  product_name: string;
+  product_brand: string | null;
+  product_image: string | null;
+  retailer_id: string;
+  retailer_name: string;
+  /** USD at the restock; null when the retailer's currency had no exchange rate */
+  price: number | null;
+  restocked_at: string;
+  /** When the listing sold out before this restock (null if unknown) */
+  out_of_stock_since: string | null;
+}
+
+interface UseRestocksReturn {
+  restocks: RestockListing[];
+  loading: boolean;
+  error: string | null;
+}
+
+/** Products that came back in stock in the last `days` days and are still available */
+export function useRestocks(days: number = 7): UseRestocksReturn {
+  const [restocks, setRestocks] = useState<RestockListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchRestocks() {
+      setLoading(true);
+      setError(null);
+
+      const since = new Date();
+      since.setDate(since.getDate() - days);
+
+      try {
+        // stock_events rows are written by scripts/snapshot-prices.ts
+        const { data, error: queryError } = await supabase
+          .from('stock_events')
+          .select(`
+            product_id,
+            retailer_id,
+            price_usd,
+            changed_at,
+            out_of_stock_since,
+            retailer:retailers!retailer_id(name),
+            product:products!product_id(name, brand, image_url, in_stock)
+          `)
+          .eq('in_stock', true)
+          .gte('changed_at', since.toISOString())
+          .order('changed_at', { ascending: false })
+          .limit(200);
+
+        if (queryError) throw queryError;
+
+        // Newest restock per product, skipping products that sold out again
+        const seen = new Map<string, RestockListing>();
+        for (const row of (data ?? []) as Record<string, unknown>[]) {
+          const product = row.product as { name: string; brand: string | null; image_url: string | null; in_stock: boolean } | null;
+          const retailer = row.retailer as { name: string } | null;
+          const productId = row.product_id as string;
+          if (!product?.in_stock || seen.has(productId)) continue;
+
+          seen.set(productId, {
+            product_id: productId,
+            product_name: product.name,
+            product_brand: product.brand,
+            product_image: product.image_url,
+            retailer_id: row.retailer_id as string,
+            retailer_name: retailer?.name ?? 'Unknown',
+            price: row.price_usd != null ? Number(row.price_usd) : null,
+            restocked_at: row.changed_at as string,
+            out_of_stock_since: row.out_of_stock_since as string | null,
+          });
+        }
+
+        setRestocks([...seen.values()]);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load restocks');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchRestocks();
+  }, [days]);
+
+  return { restocks, loading, error };
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from 'react';
+import { nanoid } from 'nanoid';
+import { supabase } from '../lib/supabase';
+import type { Build, BuildItem, BuildItems, Product } from '../types';
+import { groupBuildItems, toBuildItemRows } from '../lib/buildItems';
+import { getClientKey, getVoterKey } from './useCommunityBuilds';
+
+export interface SavedBuild extends Build {
+  build_items: (BuildItem & { product: Product | null })[];
+}
+
+export interface SaveBuildInput {
+  /** Existing saved build to overwrite; a new one is created when null */
+  buildId: string | null;
+  name: string;
+  description: string;
+  items: BuildItems;
+}
+
+/** Rebuild the BuildContext items from a saved build's rows */
+export function toBuildSelections(build: SavedBuild): BuildItems {
+  const rows = [...build.build_items].sort((a, b) => a.position - b.position);
+  return groupBuildItems(
+    rows
+      .filter((item) => item.product)
+      .map((item) => ({
+        category_id: item.category_id,
+        product: item.product!,
+        custom_price: item.custom_price ?? undefined,
+        quantity: item.quantity,
+      }))
+  );
+}
+
+function formatSaveError(message: string): string {
+  if (message.includes('Saved build limit exceeded')) {
+    return 'You can keep up to 50 saved builds. Delete one to save another.';
+  }
+  return message;
+}
+
+/**
+ * Create or overwrite a saved build in the signed-in user's account.
+ * Items are replaced wholesale. Returns the saved build's id.
+ */
+export async function saveBuildToAccount(userId: string, input: SaveBuildInput): Promise<string> {
+  const fields = {
+    name: input.name.trim().slice(0, 100) || 'My Audio Build',
+    description: input.description.trim().slice(0, 500),
+    updated_at: new Date().toISOString(),
+  };
+
+  let buildId = input.buildId;
+
+  if (buildId) {
+    const { data, error } = await supabase
+      .from('builds')
+      .update(fields)
+      .eq('id', buildId)
+      .eq('user_id', userId)
+      .eq('is_saved', true)
+      .select('id');
+
+    if (error) throw new Error(formatSaveError(error.message));
+    // The saved build was deleted (or belongs to another account): save a new one
+    if (!data || data.length === 0) buildId = null;
+  }
+
+  if (!buildId) {
+    const { data, error } = await supabase
+      .from('builds')
+      .insert({ ...fields, share_code: nanoid(8), user_id: userId, is_saved: true, is_public: false })
+      .select('id')
+      .single();
+
+    if (error || !data) throw new Error(formatSaveError(error?.message ?? 'Failed to save build'));
+    buildId = data.id as string;
+  } else {
+    const { error } = await supabase.from('build_items').delete().eq('build_id', buildId);
+    if (error) throw new Error(error.message);
+  }
+
+  const rows = toBuildItemRows(buildId!, input.items);
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('build_items').insert(rows);
+    if (error) throw new Error(error.message);
+  }
+
+  return buildId!;
+}
+
+export async function deleteSavedBuild(buildId: string): Promise<void> {
+  const { error } = await supabase.from('builds').delete().eq('id', buildId).eq('is_saved', true);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Attach this browser's anonymous builds, votes and watches to the signed-in
+ * account. The browser keys prove ownership; the hashes they produce are
+ * public (see 035_claim_by_client_key.sql).
+ */
+export async function claimAnonymousData(): Promise<{ builds: number; votes: number; watches: number }> {
+  const { data, error } = await supabase.rpc('claim_anonymous_data', {
+    p_client_key: getClientKey(),
+    p_voter_key: getVoterKey(),
+  });
+  if (error) throw new Error(error.message);
+  return data as { builds: number; votes: number; watches: number };
+}
+
+/** Fired after a save/delete so every mounted useSavedBuilds refetches */
+const CHANGE_EVENT = 'audiolist:saved-builds-changed';
+
+export function notifySavedBuildsChanged() {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** A user's saved builds, most recently updated first (empty when signed out) */
+export function useSavedBuilds(userId: string | null) {
+  const [builds, setBuilds] = useState<SavedBuild[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchSavedBuilds() {
+      if (!userId) {
+        setBuilds([]);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('builds')
+        .select('*, build_items(*, product:products!product_id(*))')
+        .eq('user_id', userId)
+        .eq('is_saved', true)
+        .order('updated_at', { ascending: false });
+
+      if (cancelled) return;
+      if (fetchError) {
+        setError(fetchError.message);
+      } else {
+        setBuilds((data ?? []) as SavedBuild[]);
+      }
+      setLoading(false);
+    }
+
+    fetchSavedBuilds();
+    window.addEventListener(CHANGE_EVENT, fetchSavedBuilds);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CHANGE_EVENT, fetchSavedBuilds);
+    };
+  }, [userId]);
+
+  const save = useCallback(
+    async (input: SaveBuildInput): Promise<string> => {
+      if (!userId) throw new Error('Sign in to save builds to your account.');
+      const id = await saveBuildToAccount(userId, input);
+      notifySavedBuildsChanged();
+      return id;
+    },
+    [userId]
+  );
+
+  const remove = useCallback(async (buildId: string) => {
+    setBuilds((prev) => prev.filter((b) => b.id !== buildId));
+    await deleteSavedBuild(buildId);
+    notifySavedBuildsChanged();
+  }, []);
+
+  return { builds, loading, error, save, remove };
+}
@@ -1,70 +1,186 @@
 import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { getClientKey } from './useCommunityBuilds';
 
 export interface WatchlistItem {
   productId: string;
   productName: string;
-  targetPrice: number;
+  /** Null for a back-in-stock-only watch */
+  targetPrice: number | null;
+  notifyRestock: boolean;
   addedAt: string;
+  /** Lowest in-stock price from the latest server price check */
   lastPrice: number | null;
+  email: string | null;
+  webhookUrl: string | null;
+  /** Availability at the latest server check (null until checked) */
+  lastInStock: boolean | null;
+  /** Set by scripts/check-price-watches.ts when lastPrice reaches targetPrice */
+  triggeredAt: string | null;
+  /** Set by scripts/check-price-watches.ts when a sold-out product is back in stock */
+  restockedAt: string | null;
 }
 
-const STORAGE_KEY = 'audiolist_watchlist';
+export interface WatchContact {
+  email?: string;
+  webhookUrl?: string;
+}
 
-function loadWatchlist(): WatchlistItem[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    return JSON.parse(raw) as WatchlistItem[];
-  } catch {
-    return [];
-  }
+interface PriceWatchRow {
+  product_id: string;
+  product_name: string;
+  target_price: number | null;
+  notify_restock: boolean;
+  email: string | null;
+  webhook_url: string | null;
+  last_price: number | null;
+  last_in_stock: boolean | null;
+  triggered_at: string | null;
+  restocked_at: string | null;
+  created_at: string;
+}
+
+/** Pre-server watchlist, migrated once and then removed */
+const LEGACY_STORAGE_KEY = 'audiolist_watchlist';
+/** Fired after a mutation so every mounted useWatchlist refetches */
+const CHANGE_EVENT = 'audiolist:watchlist-changed';
+
+let legacyMigration: Promise<void> | null = null;
+
+function toItem(row: PriceWatchRow): WatchlistItem {
+  return {
+    productId: row.product_id,
+    productName: row.product_name,
+    targetPrice: row.target_price !== null ? Number(row.target_price) : null,
+    notifyRestock: row.notify_restock,
+    addedAt: row.created_at,
+    lastPrice: row.last_price !== null ? Number(row.last_price) : null,
+    email: row.email,
+    webhookUrl: row.webhook_url,
+    lastInStock: row.last_in_stock,
+    triggeredAt: row.triggered_at,
+    restockedAt: row.restocked_at,
+  };
+}
+
+/** Move watches saved by the old localStorage-only watchlist to the server. */
+function migrateLegacyWatchlist(): Promise<void> {
+  if (legacyMigration) return legacyMigration;
+
+  legacyMigration = (async () => {
+    let legacy: { productId: string; targetPrice: number }[] = [];
+    try {
+      const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!raw) return;
+      legacy = JSON.parse(raw);
+    } catch {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+
+    const clientKey = getClientKey();
+    const results = await Promise.all(
+      legacy.map((item) =>
+        supabase.rpc('upsert_price_watch', {
+          p_client_key: clientKey,
+          p_product_id: item.productId,
+          p_target_price: item.targetPrice,
+        })
+      )
+    );
+
+    // Keep the legacy list if anything failed so the next visit retries
+    if (results.every((r) => !r.error)) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+  })();
+
+  return legacyMigration;
+}
+
+export function notifyWatchlistChanged() {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
 }
 
-function saveWatchlist(items: WatchlistItem[]) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+function formatWatchError(message: string): string {
+  if (message.includes('Watch limit exceeded')) {
+    return 'You can watch up to 50 products. Remove one to add another.';
+  }
+  if (message.includes('chk_price_watches_kind')) {
+    return 'Set a target price or ask to be told when it is back in stock.';
+  }
+  if (message.includes('chk_price_watches_webhook')) {
+    return 'Webhook URL must start with https://';
+  }
+  return message;
 }
 
 export function useWatchlist() {
-  const [watchlist, setWatchlist] = useState<WatchlistItem[]>(loadWatchlist);
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
+  const [loading, setLoading] = useState(true);
 
-  // Sync across tabs
+  // Initial load + refetch when another hook instance changes the list or the
+  // user signs in/out (the RPCs resolve signed-in callers to their account)
   useEffect(() => {
-    function handleStorage(e: StorageEvent) {
-      if (e.key === STORAGE_KEY) {
-        setWatchlist(loadWatchlist());
+    let cancelled = false;
+
+    async function fetchWatchlist() {
+      await migrateLegacyWatchlist();
+
+      const { data, error } = await supabase.rpc('get_price_watches', {
+        p_client_key: getClientKey(),
+      });
+
+      if (cancelled) return;
+      if (!error) {
+        setWatchlist(((data ?? []) as PriceWatchRow[]).map(toItem));
       }
+      setLoading(false);
     }
-    window.addEventListener('storage', handleStorage);
-    return () => window.removeEventListener('storage', handleStorage);
+
+    fetchWatchlist();
+    window.addEventListener(CHANGE_EVENT, fetchWatchlist);
+    const { data: auth } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') fetchWatchlist();
+    });
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CHANGE_EVENT, fetchWatchlist);
+      auth.subscription.unsubscribe();
+    };
   }, []);
 
   const addProduct = useCallback(
-    (productId: string, productName: string, targetPrice: number) => {
-      setWatchlist((prev) => {
-        const filtered = prev.filter((item) => item.productId !== productId);
-        const next = [
-          ...filtered,
-          {
-            productId,
-            productName,
-            targetPrice,
-            addedAt: new Date().toISOString(),
-            lastPrice: null,
-          },
-        ];
-        saveWatchlist(next);
-        return next;
+    async (
+      productId: string,
+      targetPrice: number | null,
+      contact: WatchContact = {},
+      notifyRestock = false
+    ): Promise<{ success: boolean; error?: string }> => {
+      const { error } = await supabase.rpc('upsert_price_watch', {
+        p_client_key: getClientKey(),
+        p_product_id: productId,
+        p_target_price: targetPrice,
+        p_email: contact.email ?? null,
+        p_webhook_url: contact.webhookUrl ?? null,
+        p_notify_restock: notifyRestock,
       });
+
+      if (error) return { success: false, error: formatWatchError(error.message) };
+      notifyWatchlistChanged();
+      return { success: true };
     },
     []
   );
 
-  const removeProduct = useCallback((productId: string) => {
-    setWatchlist((prev) => {
-      const next = prev.filter((item) => item.productId !== productId);
-      saveWatchlist(next);
-      return next;
+  const removeProduct = useCallback(async (productId: string) => {
+    // Optimistic: drop locally, then let every instance refetch
+    setWatchlist((prev) => prev.filter((item) => item.productId !== productId));
+    await supabase.rpc('delete_price_watch', {
+      p_client_key: getClientKey(),
+      p_product_id: productId,
     });
+    notifyWatchlistChanged();
   }, []);
 
   const isWatching = useCallback(
@@ -77,40 +193,24 @@ export function useWatchlist() {
     [watchlist]
   );
 
-  const updatePrice = useCallback(
-    (productId: string, currentPrice: number) => {
-      setWatchlist((prev) => {
-        const next = prev.map((item) =>
-          item.productId === productId ? { ...item, lastPrice: currentPrice } : item
-        );
-        saveWatchlist(next);
-        return next;
-      });
-    },
-    []
-  );
-
   const alerts = watchlist.filter(
-    (item) => item.lastPrice !== null && item.lastPrice <= item.targetPrice
+    (item) => item.triggeredAt !== null && item.lastPrice !== null
   );
 
-  const dismissAlert = useCallback((productId: string) => {
-    setWatchlist((prev) => {
-      // Remove the alert by updating target to below current price
-      const next = prev.filter((item) => item.productId !== productId);
-      saveWatchlist(next);
-      return next;
-    });
-  }, []);
+  const restockAlerts = watchlist.filter((item) => item.restockedAt !== null);
+
+  // Dismissing an alert ends the watch
+  const dismissAlert = removeProduct;
 
   return {
     watchlist,
+    loading,
     addProduct,
     removeProduct,
     isWatching,
     getWatchItem,
-    updatePrice,
     alerts,
+    restockAlerts,
     dismissAlert,
   };
 }
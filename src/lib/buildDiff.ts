@@ -0,0 +1,58 @@
+import type { BuildItems, BuildSelection, CategoryId } from '../types';
+import { getBuildTotal, getSelectionPrice } from './buildItems';
+
+export interface BuildItemChange {
+  category: CategoryId;
+  before: BuildSelection;
+  after: BuildSelection;
+}
+
+export interface BuildDiff {
+  /** Products in `b` but not in `a` */
+  added: BuildSelection[];
+  /** Products in `a` but not in `b` */
+  removed: BuildSelection[];
+  /** Products swapped within a category, or kept with a different quantity or price */
+  changed: BuildItemChange[];
+  /** Total of `b` minus total of `a` */
+  priceDelta: number;
+}
+
+/** What changes going from build `a` to build `b` */
+export function diffBuilds(a: BuildItems, b: BuildItems): BuildDiff {
+  const added: BuildSelection[] = [];
+  const removed: BuildSelection[] = [];
+  const changed: BuildItemChange[] = [];
+
+  const categories = new Set<CategoryId>([...a.keys(), ...b.keys()]);
+  for (const category of categories) {
+    const before = a.get(category) ?? [];
+    const after = b.get(category) ?? [];
+
+    // Same product on both sides: changed only if quantity or price moved
+    const unmatchedBefore: BuildSelection[] = [];
+    const afterIds = new Map(after.map((sel) => [sel.product.id, sel]));
+    for (const sel of before) {
+      const match = afterIds.get(sel.product.id);
+      if (!match) {
+        unmatchedBefore.push(sel);
+        continue;
+      }
+      afterIds.delete(sel.product.id);
+      if (sel.quantity !== match.quantity || getSelectionPrice(sel) !== getSelectionPrice(match)) {
+        changed.push({ category, before: sel, after: match });
+      }
+    }
+
+    // Leftovers pair up in order as swaps; the rest were added or removed
+    const unmatchedAfter = [...afterIds.values()];
+    const swaps = Math.min(unmatchedBefore.length, unmatchedAfter.length);
+    for (let i = 0; i < swaps; i++) {
+      changed.push({ category, before: unmatchedBefore[i], after: unmatchedAfter[i] });
+    }
+    removed.push(...unmatchedBefore.slice(swaps));
+    added.push(...unmatchedAfter.slice(swaps));
+  }
+
+  return { added, removed, changed, priceDelta: getBuildTotal(b) - getBuildTotal(a) };
+}
@@ -0,0 +1,81 @@
+import type { BuildItem, BuildItems, BuildSelection, CategoryId } from '../types';
+
+/** Products per category and per build (matches check_build_items_limit) */
+export const MAX_ITEMS_PER_CATEGORY = 8;
+export const MAX_BUILD_ITEMS = 40;
+/** Units per line (matches chk_build_items_quantity) */
+export const MAX_QUANTITY = 99;
+
+/** Price of one selection line, honouring a custom price override */
+export function getSelectionPrice(sel: BuildSelection): number {
+  return (sel.custom_price ?? sel.product.price ?? 0) * sel.quantity;
+}
+
+/** A shared item's unit price when the build was shared and today, when both are known */
+export function getSharedPriceChange(item: BuildItem): { was: number; now: number } | null {
+  const now = item.custom_price ?? item.product?.price ?? null;
+  if (item.shared_price === null || now === null) return null;
+  return { was: Number(item.shared_price), now: Number(now) };
+}
+
+/** Every selection in the build, category by category */
+export function flattenBuildItems(items: BuildItems): BuildSelection[] {
+  return Array.from(items.values()).flat();
+}
+
+export function getBuildTotal(items: BuildItems): number {
+  return flattenBuildItems(items).reduce((sum, sel) => sum + getSelectionPrice(sel), 0);
+}
+
+/** Number of selection lines (not units) in the build */
+export function countBuildItems(items: BuildItems): number {
+  let count = 0;
+  items.forEach((list) => {
+    count += list.length;
+  });
+  return count;
+}
+
+/**
+ * Group selections by category, keeping their order. A product listed twice
+ * in a category becomes one line with the quantities added.
+ */
+export function groupBuildItems(selections: BuildSelection[]): BuildItems {
+  const items: BuildItems = new Map();
+  for (const sel of selections) {
+    const list = items.get(sel.category_id) ?? [];
+    const existing = list.findIndex((s) => s.product.id === sel.product.id);
+    if (existing >= 0) {
+      list[existing] = { ...list[existing], quantity: Math.min(MAX_QUANTITY, list[existing].quantity + sel.quantity) };
+    } else if (list.length < MAX_ITEMS_PER_CATEGORY) {
+      list.push(sel);
+    }
+    items.set(sel.category_id, list);
+  }
+  return items;
+}
+
+/** build_items rows for a build, numbering each category's products from 0 */
+export function toBuildItemRows(buildId: string, items: BuildItems) {
+  const rows: {
+    build_id: string;
+    category_id: CategoryId;
+    product_id: string;
+    custom_price: number | null;
+    quantity: number;
+    position: number;
+  }[] = [];
+  items.forEach((list) => {
+    list.forEach((sel, position) => {
+      rows.push({
+        build_id: buildId,
+        category_id: sel.category_id,
+        product_id: sel.product.id,
+        custom_price: sel.custom_price ?? null,
+        quantity: sel.quantity,
+        position,
+      });
+    });
+  });
+  return rows;
+}
@@ -0,0 +1,233 @@
+import type { RetailerCoupon } from '../types';
+
+/**
+ * Cheapest way to buy a whole build across stores. Each store order pays
+ * its own shipping (free from the store's threshold) and can use one coupon;
+ * so splitting a build across the cheapest store for each item is not always
+ * cheapest overall. All amounts are in one currency (the display currency).
+ */
+
+/** Stores considered in every combination; beyond this only the best-covering ones are */
+const MAX_STORES_SEARCHED = 10;
+/** Local-search passes per combination */
+const MAX_IMPROVE_PASSES = 4;
+
+export interface CartOffer {
+  retailerId: string;
+  /** Unit price */
+  price: number;
+  /** Deep link to the listing */
+  url: string | null;
+}
+
+export interface CartLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  offers: CartOffer[];
+}
+
+export interface CartStore {
+  id: string;
+  name: string;
+  url: string;
+  /** Flat shipping per order; null when the store's shipping is not known (counted as free) */
+  shippingCost: number | null;
+  /** Subtotal from which shipping is free */
+  freeShippingMin: number | null;
+  /** Active coupons, with fixed amounts and min_purchase converted like prices */
+  coupons: RetailerCoupon[];
+}
+
+export interface StoreOrder {
+  store: CartStore;
+  lines: { line: CartLine; offer: CartOffer }[];
+  subtotal: number;
+  /** The coupon worth the most on this order, if any applies */
+  coupon: RetailerCoupon | null;
+  discount: number;
+  shipping: number;
+  total: number;
+}
+
+export interface CartPlan {
+  orders: StoreOrder[];
+  total: number;
+  /** Lines no store in `stores` has in stock */
+  unavailable: CartLine[];
+  /** Every item from its cheapest store, for comparison */
+  naiveTotal: number;
+}
+
+/** Shipping, best coupon and total for one store order */
+export function priceStoreOrder(
+  store: CartStore,
+  subtotal: number
+): { coupon: RetailerCoupon | null; discount: number; shipping: number; total: number } {
+  const baseShipping =
+    store.freeShippingMin !== null && subtotal >= store.freeShippingMin ? 0 : store.shippingCost ?? 0;
+  let best = { coupon: null as RetailerCoupon | null, discount: 0, shipping: baseShipping };
+
+  for (const coupon of store.coupons) {
+    if (coupon.min_purchase !== null && subtotal < coupon.min_purchase) continue;
+    const value = coupon.discount_value ?? 0;
+    const discount =
+      coupon.discount_type === 'percentage'
+        ? (subtotal * value) / 100
+        : coupon.discount_type === 'fixed'
+          ? Math.min(value, subtotal)
+          : 0;
+    const shipping = coupon.discount_type === 'free_shipping' ? 0 : baseShipping;
+    if (discount - shipping > best.discount - best.shipping) best = { coupon, discount, shipping };
+  }
+
+  return { ...best, total: subtotal - best.discount + best.shipping };
+}
+
+/** Total of the orders an assignment (line index -> store index) implies */
+function assignmentTotal(assignment: number[], prices: number[][], storeList: CartStore[]): number {
+  const subtotals = new Array<number>(storeList.length).fill(0);
+  const used = new Array<boolean>(storeList.length).fill(false);
+  assignment.forEach((s, i) => {
+    subtotals[s] += prices[i][s];
+    used[s] = true;
+  });
+  let total = 0;
+  storeList.forEach((store, s) => {
+    if (used[s]) total += priceStoreOrder(store, subtotals[s]).total;
+  });
+  return total;
+}
+
+/**
+ * Move single lines between the allowed stores while that lowers the total,
+ * e.g. to reach a free-shipping threshold or a coupon minimum
+ */
+function improveAssignment(assignment: number[], prices: number[][], storeList: CartStore[], allowed: number): number[] {
+  const result = [...assignment];
+  const subtotals = new Array<number>(storeList.length).fill(0);
+  const counts = new Array<number>(storeList.length).fill(0);
+  result.forEach((s, i) => {
+    subtotals[s] += prices[i][s];
+    counts[s]++;
+  });
+  const orderTotal = (s: number, subtotal: number, count: number) =>
+    count === 0 ? 0 : priceStoreOrder(storeList[s], subtotal).total;
+
+  for (let pass = 0; pass < MAX_IMPROVE_PASSES; pass++) {
+    let moved = false;
+    for (let i = 0; i < result.length; i++) {
+      const from = result[i];
+      for (let to = 0; to < storeList.length; to++) {
+        if (to === from || !(allowed & (1 << to)) || !Number.isFinite(prices[i][to])) continue;
+        const before = orderTotal(from, subtotals[from], counts[from]) + orderTotal(to, subtotals[to], counts[to]);
+        const after =
+          orderTotal(from, subtotals[from] - prices[i][from], counts[from] - 1) +
+          orderTotal(to, subtotals[to] + prices[i][to], counts[to] + 1);
+        if (after < before - 0.005) {
+          subtotals[from] -= prices[i][from];
+          counts[from]--;
+          subtotals[to] += prices[i][to];
+          counts[to]++;
+          result[i] = to;
+          moved = true;
+          break;
+        }
+      }
+    }
+    if (!moved) break;
+  }
+  return result;
+}
+
+/**
+ * The cheapest set of store orders covering every line that is in stock
+ * somewhere. Every combination of up to MAX_STORES_SEARCHED stores is tried
+ * (each line at its cheapest store in the combination, then improved by
+ * moving single lines); ties go to fewer stores.
+ */
+export function optimizeCart(lines: CartLine[], stores: Map<string, CartStore>): CartPlan {
+  const unavailable: CartLine[] = [];
+  const buyable: CartLine[] = [];
+  for (const line of lines) {
+    const offers = line.offers.filter((o) => stores.has(o.retailerId));
+    if (offers.length === 0) unavailable.push(line);
+    else buyable.push({ ...line, offers });
+  }
+  if (buyable.length === 0) return { orders: [], total: 0, unavailable, naiveTotal: 0 };
+
+  const cheapestOffer = (line: CartLine) => line.offers.reduce((a, b) => (b.price < a.price ? b : a));
+
+  // Each line's cheapest store always takes part; the rest by how many lines they carry
+  const coverage = new Map<string, { lines: number; cost: number }>();
+  for (const line of buyable) {
+    for (const offer of line.offers) {
+      const c = coverage.get(offer.retailerId) ?? { lines: 0, cost: 0 };
+      coverage.set(offer.retailerId, { lines: c.lines + 1, cost: c.cost + offer.price * line.quantity });
+    }
+  }
+  const searched = new Set(buyable.map((line) => cheapestOffer(line).retailerId));
+  const ranked = [...coverage.entries()].sort((a, b) => b[1].lines - a[1].lines || a[1].cost - b[1].cost);
+  for (const [id] of ranked) {
+    if (searched.size >= MAX_STORES_SEARCHED) break;
+    searched.add(id);
+  }
+  const storeList = [...searched].map((id) => stores.get(id)!);
+
+  // prices[line][store]: line cost at that store, Infinity where it is not sold
+  const prices = buyable.map((line) =>
+    storeList.map((store) => {
+      const offer = line.offers.find((o) => o.retailerId === store.id);
+      return offer ? offer.price * line.quantity : Infinity;
+    })
+  );
+  const cheapestIn = (mask: number) =>
+    prices.map((row) => {
+      let best = -1;
+      row.forEach((price, s) => {
+        if (mask & (1 << s) && Number.isFinite(price) && (best < 0 || price < row[best])) best = s;
+      });
+      return best;
+    });
+
+  // Store sets are bitmasks over storeList; -1 allows every store
+  const exhaustive = storeList.length <= MAX_STORES_SEARCHED;
+  const allStores = exhaustive ? (1 << storeList.length) - 1 : -1;
+  const naive = cheapestIn(allStores);
+  let bestAssignment = naive;
+  let bestTotal = assignmentTotal(naive, prices, storeList);
+  let bestStoreCount = new Set(naive).size;
+
+  const masks = exhaustive ? Array.from({ length: allStores }, (_, m) => m + 1) : [allStores];
+  for (const mask of masks) {
+    const initial = cheapestIn(mask);
+    if (initial.includes(-1)) continue;
+    const assignment = improveAssignment(initial, prices, storeList, mask);
+    const total = assignmentTotal(assignment, prices, storeList);
+    const storeCount = new Set(assignment).size;
+    if (total < bestTotal - 0.005 || (total < bestTotal + 0.005 && storeCount < bestStoreCount)) {
+      bestAssignment = assignment;
+      bestTotal = total;
+      bestStoreCount = storeCount;
+    }
+  }
+
+  const orders: StoreOrder[] = [];
+  storeList.forEach((store, s) => {
+    const orderLines = buyable
+      .map((line, i) => ({ line, i }))
+      .filter(({ i }) => bestAssignment[i] === s)
+      .map(({ line }) => ({ line, offer: line.offers.find((o) => o.retailerId === store.id)! }));
+    if (orderLines.length === 0) return;
+    const subtotal = orderLines.reduce((sum, { line, offer }) => sum + offer.price * line.quantity, 0);
+    orders.push({ store, lines: orderLines, subtotal, ...priceStoreOrder(store, subtotal) });
+  });
+  orders.sort((a, b) => b.total - a.total);
+
+  return {
+    orders,
+    total: orders.reduce((sum, o) => sum + o.total, 0),
+    unavailable,
+    naiveTotal: assignmentTotal(naive, prices, storeList),
+  };
+}
@@ -148,9 +148,12 @@ export function getCategoryBgColor(id: CategoryId): string {
   }
 }
 
-/** Get beginner-friendly tooltip text for a PPI/Spinorama/SINAD score */
-export function getPPITooltip(score: number, isSpinorama: boolean): string {
-  const type = isSpinorama ? 'Spinorama Score' : 'Predicted Preference Index';
+/** Get beginner-friendly tooltip text for a PPI/Spinorama/SINAD score.
+ *  `targetLabel` names the PPI target curve the score was computed against. */
+export function getPPITooltip(score: number, isSpinorama: boolean, targetLabel?: string): string {
+  const type = isSpinorama
+    ? 'Spinorama Score'
+    : targetLabel ? `Predicted Preference Index (${targetLabel} target)` : 'Predicted Preference Index';
   if (score >= 85) return `${type}: ${score.toFixed(1)} — Excellent. Top-tier measured audio quality.`;
   if (score >= 70) return `${type}: ${score.toFixed(1)} — Great. Above-average sound quality.`;
   if (score >= 55) return `${type}: ${score.toFixed(1)} — Good. Solid performer for the price.`;
@@ -0,0 +1,20 @@
+import type { Product } from '../types';
+
+/** Fewest / most products shown side by side on /compare */
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+/** Enough of a product to render the compare tray without refetching */
+export type CompareItem = Pick<Product, 'id' | 'name' | 'brand' | 'category_id' | 'image_url'>;
+
+/** /compare URL for a list of product ids */
+export function getCompareUrl(productIds: string[], glass = false): string {
+  return `${glass ? '/glass' : ''}/compare?ids=${productIds.map(encodeURIComponent).join(',')}`;
+}
+
+/** Product ids from the ?ids= query value: deduplicated, capped at MAX_COMPARE */
+export function parseCompareIds(value: string | null): string[] {
+  if (!value) return [];
+  const ids = value.split(',').map((id) => id.trim()).filter(Boolean);
+  return [...new Set(ids)].slice(0, MAX_COMPARE);
+}
@@ -0,0 +1,66 @@
+import type { RegionId, Retailer } from '../types';
+
+export interface RegionInfo {
+  id: RegionId;
+  label: string;
+  currency: string;
+  locale: string;
+}
+
+export const REGIONS: Record<RegionId, RegionInfo> = {
+  us: { id: 'us', label: 'United States', currency: 'USD', locale: 'en-US' },
+  eu: { id: 'eu', label: 'Europe', currency: 'EUR', locale: 'de-DE' },
+  uk: { id: 'uk', label: 'United Kingdom', currency: 'GBP', locale: 'en-GB' },
+  au: { id: 'au', label: 'Australia', currency: 'AUD', locale: 'en-AU' },
+};
+
+export const REGION_IDS = Object.keys(REGIONS) as RegionId[];
+
+/** Units of each currency per 1 USD (from the exchange_rates table) */
+export type ExchangeRates = Record<string, number>;
+
+/** Best guess at the shopper's region from the browser locale. */
+export function detectRegion(): RegionId {
+  const lang = (typeof navigator !== 'undefined' ? navigator.language : 'en-US').toLowerCase();
+  if (lang.endsWith('-gb')) return 'uk';
+  if (lang.endsWith('-au')) return 'au';
+  if (lang.startsWith('en')) return 'us';
+  const euLangs = ['de', 'fr', 'es', 'it', 'nl', 'pt', 'pl', 'sv', 'da', 'fi', 'cs', 'el', 'ga'];
+  return euLangs.some((l) => lang.startsWith(l)) ? 'eu' : 'us';
+}
+
+/**
+ * Convert between currencies via USD. Returns null when either currency
+ * has no rate, so callers can fall back to showing the native price.
+ */
+export function convertPrice(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates,
+): number | null {
+  if (from === to) return amount;
+  const fromRate = from === 'USD' ? 1 : rates[from];
+  const toRate = to === 'USD' ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+export function formatCurrency(amount: number, currency: string, locale = 'en-US'): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+/**
+ * Whether a retailer sells into a region. Retailers without region data
+ * (older selects) are treated as US stores.
+ */
+export function retailerServesRegion(retailer: Retailer | undefined, region: RegionId): boolean {
+  if (!retailer) return region === 'us';
+  const home = retailer.region ?? 'us';
+  const shipsTo = retailer.ships_to ?? [home];
+  return home === region || shipsTo.includes(region) || shipsTo.includes('global');
+}
@@ -0,0 +1,50 @@
+import type { Product, TargetType } from '../types';
+
+/** Frequency all curves are level-matched at before plotting */
+export const FR_NORMALIZE_HZ = 500;
+
+/** Log-axis ticks for the FR graph */
+export const FR_TICKS = [20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+export function formatHz(hz: number): string {
+  return hz >= 1000 ? `${hz / 1000}k` : String(hz);
+}
+
+/**
+ * Name of the target curve a product was scored against for the selected
+ * target type, picked from its ppi_targets keys. Diffuse Field groups are
+ * named per rig ("ISO 11904-2 DF", "KEMAR DF", "5128 DF"), so the one
+ * matching the product's rig wins when several are present.
+ */
+export function getTargetCurveName(product: Product, target: TargetType): string | null {
+  const names = Object.keys(product.ppi_targets ?? {});
+  const pattern = target === 'harman' ? /harman/i : /\bDF\b|diffuse/i;
+  const candidates = names.filter((name) => pattern.test(name));
+  if (candidates.length === 0) return null;
+
+  const rig = product.rig_type;
+  return (rig && candidates.find((name) => name.includes(rig))) ?? candidates[0];
+}
+
+/** SPL at `hz`, linearly interpolated in log-frequency */
+export function splAt(frequencies: number[], spl: number[], hz: number): number | null {
+  if (frequencies.length === 0) return null;
+  if (hz <= frequencies[0]) return spl[0];
+  for (let i = 1; i < frequencies.length; i++) {
+    if (frequencies[i] >= hz) {
+      const t =
+        (Math.log(hz) - Math.log(frequencies[i - 1])) /
+        (Math.log(frequencies[i]) - Math.log(frequencies[i - 1]));
+      return spl[i - 1] + t * (spl[i] - spl[i - 1]);
+    }
+  }
+  return spl[spl.length - 1];
+}
+
+/** Shift a curve so it reads `level` dB at FR_NORMALIZE_HZ */
+export function normalizeCurve(frequencies: number[], spl: number[], level: number): number[] {
+  const current = splAt(frequencies, spl, FR_NORMALIZE_HZ);
+  if (current === null) return spl;
+  const offset = level - current;
+  return spl.map((db) => Math.round((db + offset) * 100) / 100);
+}
@@ -0,0 +1,102 @@
+import type { BuildItems, CategoryId, Product } from '../types';
+import { AMP_LOAD_IMPEDANCES } from './categories';
+
+/**
+ * Peak SPL a build should reach: ~85 dB average listening plus ~25 dB of
+ * dynamic-range headroom for peaks.
+ */
+export const TARGET_PEAK_SPL_DB = 110;
+
+/** Below target by at most this much: fine for normal levels, loud peaks clip */
+const MARGINAL_HEADROOM_DB = -6;
+
+export type PowerMatchStatus = 'ok' | 'marginal' | 'insufficient';
+
+export interface PowerMatch {
+  status: PowerMatchStatus;
+  /** Build category that supplies the power (amp, or a DAC/amp combo) */
+  sourceCategoryId: CategoryId;
+  /** Output category being driven */
+  outputCategoryId: CategoryId;
+  impedanceOhms: number;
+  /** Estimated amp output into the transducer's impedance */
+  availableMw: number;
+  /** Power needed to reach TARGET_PEAK_SPL_DB */
+  requiredMw: number;
+  maxSplDb: number;
+  /** maxSplDb - TARGET_PEAK_SPL_DB */
+  headroomDb: number;
+}
+
+/** Outputs that are driven by a headphone amp */
+const DRIVEN_OUTPUTS: CategoryId[] = ['headphone', 'iem'];
+
+function measuredPower(product: Product): { ohms: number; mw: number }[] {
+  return AMP_LOAD_IMPEDANCES
+    .map((ohms) => ({ ohms, mw: product[`power_${ohms}ohm_mw` as keyof Product] as number | null }))
+    .filter((p): p is { ohms: (typeof AMP_LOAD_IMPEDANCES)[number]; mw: number } => p.mw != null && p.mw > 0);
+}
+
+/**
+ * Estimate output power into an arbitrary load from the measured loads.
+ * Above a measured load the amp is treated as voltage-limited (P ∝ 1/Z),
+ * below it as current-limited (P ∝ Z) -- the conservative direction in both
+ * cases. The better of the two nearest measurements wins.
+ */
+export function estimatePowerAtLoad(product: Product, ohms: number): number | null {
+  const points = measuredPower(product);
+  if (points.length === 0) return null;
+
+  const exact = points.find((p) => p.ohms === ohms);
+  if (exact) return exact.mw;
+
+  const below = [...points].reverse().find((p) => p.ohms < ohms);
+  const above = points.find((p) => p.ohms > ohms);
+  const estimates: number[] = [];
+  if (below) estimates.push(below.mw * (below.ohms / ohms));
+  if (above) estimates.push(above.mw * (ohms / above.ohms));
+  return Math.max(...estimates);
+}
+
+/** Max SPL a transducer reaches with the given power */
+export function maxSplDb(sensitivityDbMw: number, powerMw: number): number {
+  return sensitivityDbMw + 10 * Math.log10(powerMw);
+}
+
+/**
+ * Check whether the build's amp can drive its headphone/IEM.
+ * The dedicated amp is used when selected; otherwise a DAC with measured
+ * power output (a DAC/amp combo). With several products in a category the
+ * first one is used. Returns null when either side is missing or lacks the specs.
+ */
+export function getBuildPowerMatch(items: BuildItems): PowerMatch | null {
+  const outputCategoryId = DRIVEN_OUTPUTS.find((id) => items.has(id));
+  if (!outputCategoryId) return null;
+  const output = items.get(outputCategoryId)![0].product;
+  if (output.impedance_ohms == null || output.sensitivity_db_mw == null) return null;
+
+  const sourceCategoryId = (['amp', 'dac'] as CategoryId[]).find((id) => {
+    const sel = items.get(id)?.[0];
+    return sel && measuredPower(sel.product).length > 0;
+  });
+  if (!sourceCategoryId) return null;
+
+  const impedanceOhms = Number(output.impedance_ohms);
+  const sensitivity = Number(output.sensitivity_db_mw);
+  const availableMw = estimatePowerAtLoad(items.get(sourceCategoryId)![0].product, impedanceOhms);
+  if (availableMw === null) return null;
+
+  const max = maxSplDb(sensitivity, availableMw);
+  const headroomDb = max - TARGET_PEAK_SPL_DB;
+
+  return {
+    status: headroomDb >= 0 ? 'ok' : headroomDb >= MARGINAL_HEADROOM_DB ? 'marginal' : 'insufficient',
+    sourceCategoryId,
+    outputCategoryId,
+    impedanceOhms,
+    availableMw,
+    requiredMw: Math.pow(10, (TARGET_PEAK_SPL_DB - sensitivity) / 10),
+    maxSplDb: max,
+    headroomDb,
+  };
+}
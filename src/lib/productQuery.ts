@@ -0,0 +1,117 @@
+import type { ProductFilters } from '../types';
+
+/** The PostgREST filter methods applyProductFilters uses */
+interface FilterableQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  in(column: string, values: readonly unknown[]): Q;
+  ilike(column: string, pattern: string): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+}
+
+/**
+ * Apply ProductFilters to a products query. Shared by useProducts and the
+ * public API (scripts/api-server.ts) so both filter the catalog the same way.
+ *
+ * The retailer filter needs the query to select
+ * `price_listings!inner(...)`; in_stock then reflects the product, not the
+ * filtered retailers, so callers that override it handle hideOutOfStock.
+ */
+export function applyProductFilters<Q extends FilterableQuery<Q>>(
+  query: Q,
+  filters: ProductFilters,
+  ppiColumn: string
+): Q {
+  const hasRetailerFilter = filters.retailers.length > 0;
+
+  // Retailer filter (via inner join on price_listings)
+  if (hasRetailerFilter) {
+    query = query.in('price_listings.retailer_id', filters.retailers);
+  }
+
+  // Search
+  if (filters.search) {
+    query = query.ilike('name', `%${filters.search}%`);
+  }
+
+  // Brand filter
+  if (filters.brands.length > 0) {
+    query = query.in('brand', filters.brands);
+  }
+
+  // Price range
+  if (filters.priceMin !== null) {
+    query = query.gte('price', filters.priceMin);
+  }
+  if (filters.priceMax !== null) {
+    query = query.lte('price', filters.priceMax);
+  }
+
+  // PPI range
+  if (filters.ppiMin !== null) {
+    query = query.gte(ppiColumn, filters.ppiMin);
+  }
+  if (filters.ppiMax !== null) {
+    query = query.lte(ppiColumn, filters.ppiMax);
+  }
+
+  // SINAD range (DAC/Amp)
+  if (filters.sinadMin !== null) {
+    query = query.gte('sinad_db', filters.sinadMin);
+  }
+  if (filters.sinadMax !== null) {
+    query = query.lte('sinad_db', filters.sinadMax);
+  }
+
+  // Quality
+  if (filters.quality) {
+    query = query.eq('quality', filters.quality);
+  }
+
+  // Rig type
+  if (filters.rigType) {
+    query = query.eq('rig_type', filters.rigType);
+  }
+
+  // Speaker type
+  if (filters.speakerTypes.length > 0) {
+    query = query.in('speaker_type', filters.speakerTypes);
+  }
+
+  // Headphone design (open/closed back)
+  if (filters.headphoneDesigns.length > 0) {
+    query = query.in('headphone_design', filters.headphoneDesigns);
+  }
+
+  // IEM type (passive/active/tws)
+  if (filters.iemTypes.length > 0) {
+    query = query.in('iem_type', filters.iemTypes);
+  }
+
+  // Driver type (dynamic/planar/hybrid/tribrid/etc.)
+  if (filters.driverTypes.length > 0) {
+    query = query.in('driver_type', filters.driverTypes);
+  }
+
+  // Microphone filters
+  if (filters.micConnections.length > 0) {
+    query = query.in('mic_connection', filters.micConnections);
+  }
+  if (filters.micTypes.length > 0) {
+    query = query.in('mic_type', filters.micTypes);
+  }
+  if (filters.micPatterns.length > 0) {
+    query = query.in('mic_pattern', filters.micPatterns);
+  }
+
+  // Hide non-best DSP/ANC variants from search results
+  query = query.eq('is_best_variant', true);
+
+  // Hide out of stock (DB-level only when no retailer filter;
+  // with retailer filter the caller post-processes after overriding in_stock)
+  if (filters.hideOutOfStock && !hasRetailerFilter) {
+    query = query.eq('in_stock', true);
+  }
+
+  return query;
+}
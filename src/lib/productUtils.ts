@@ -1,4 +1,4 @@
-import type { Product } from '../types';
+import type { CategoryId, Product, TargetType } from '../types';
 
 /**
  * Variant types that get display name truncation and "Best Mode" badges.
@@ -70,3 +70,47 @@ export function getBestModeLabel(product: Product): string | null {
       return null;
   }
 }
+
+/** Display names for the selectable PPI target curves */
+export const TARGET_TYPE_LABELS: Record<TargetType, string> = {
+  df: 'Diffuse Field',
+  harman: 'Harman',
+};
+
+/** Whether the DF/Harman target toggle applies to a category (speakers use Spinorama in ppi_score). */
+export function hasTargetScores(categoryId: CategoryId): boolean {
+  return categoryId === 'iem' || categoryId === 'headphone';
+}
+
+/** Returns the products column holding the PPI score for the selected target. */
+export function getPpiScoreColumn(categoryId: CategoryId, target: TargetType): 'ppi_score' | 'ppi_harman_score' {
+  return target === 'harman' && hasTargetScores(categoryId) ? 'ppi_harman_score' : 'ppi_score';
+}
+
+export interface PpiStats {
+  score: number | null;
+  stdev: number | null;
+  slope: number | null;
+  avgError: number | null;
+}
+
+/**
+ * Returns the PPI score and breakdown for the selected target curve.
+ * Categories without per-target scores always return the ppi_* columns.
+ */
+export function getPpiStats(product: Product, target: TargetType): PpiStats {
+  if (target === 'harman' && hasTargetScores(product.category_id)) {
+    return {
+      score: product.ppi_harman_score ?? null,
+      stdev: product.ppi_harman_stdev ?? null,
+      slope: product.ppi_harman_slope ?? null,
+      avgError: product.ppi_harman_avg_error ?? null,
+    };
+  }
+  return {
+    score: product.ppi_score,
+    stdev: product.ppi_stdev,
+    slope: product.ppi_slope,
+    avgError: product.ppi_avg_error,
+  };
+}
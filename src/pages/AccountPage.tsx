@@ -0,0 +1,280 @@
+import { useState, type FormEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useBuild } from '../context/BuildContext';
+import { useGlassMode } from '../context/GlassModeContext';
+import { useToast } from '../context/ToastContext';
+import { useSavedBuilds, toBuildSelections, type SavedBuild } from '../hooks/useSavedBuilds';
+import { useWatchlist } from '../hooks/useWatchlist';
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(price);
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function buildTotal(build: SavedBuild): number {
+  return build.build_items.reduce(
+    (sum, item) => sum + (item.custom_price ?? item.product?.price ?? 0) * item.quantity,
+    0
+  );
+}
+
+function SignInForm({ panelClass, redirectPath }: { panelClass: string; redirectPath: string }) {
+  const { signInWithEmail } = useAuth();
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!email.trim()) return;
+    setSending(true);
+    setError(null);
+    const result = await signInWithEmail(email, redirectPath);
+    setSending(false);
+    if (result.error) setError(result.error);
+    else setSentTo(email.trim());
+  }
+
+  return (
+    <div className={`${panelClass} mx-auto max-w-md p-8`}>
+      <h1 className="text-2xl font-bold text-surface-900 dark:text-surface-50">Sign in</h1>
+      <p className="mt-2 text-sm text-surface-500 dark:text-surface-400">
+        Keep several named builds, your votes and price watches in sync across browsers.
+        We'll email you a sign-in link -- no password needed.
+      </p>
+
+      {sentTo ? (
+        <p className="mt-6 rounded-lg bg-green-50 px-4 py-3 text-sm text-green-800 dark:bg-green-900/30 dark:text-green-300">
+          Check <span className="font-semibold">{sentTo}</span> for your sign-in link.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="mt-6 space-y-3">
+          <label htmlFor="account-email" className="block text-sm font-medium text-surface-700 dark:text-surface-300">
+            Email
+          </label>
+          <input
+            id="account-email"
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+            autoComplete="email"
+            className="w-full rounded-lg border border-surface-300 bg-white px-3 py-2 text-sm text-surface-900 placeholder:text-surface-400 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-100"
+          />
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={sending}
+            className="w-full rounded-lg bg-primary-600 px-4 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-500 disabled:opacity-50"
+          >
+            {sending ? 'Sending...' : 'Email me a sign-in link'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default function AccountPage() {
+  const { user, profile, loading, signOut, updateDisplayName } = useAuth();
+  const { savedBuildId, builds: localBuilds, switchBuild, startBuildFrom } = useBuild();
+  const { builds, loading: buildsLoading, error: buildsError, remove } = useSavedBuilds(user?.id ?? null);
+  const { watchlist, removeProduct } = useWatchlist();
+  const { addToast } = useToast();
+  const isGlass = useGlassMode();
+  const navigate = useNavigate();
+  const [displayName, setDisplayName] = useState<string | null>(null);
+
+  const prefix = isGlass ? '/glass' : '';
+  const panelClass = isGlass
+    ? 'glass-1 rounded-2xl'
+    : 'rounded-xl border border-surface-200 bg-white dark:border-surface-700 dark:bg-surface-900';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="mx-auto h-8 w-8 animate-spin rounded-full border-2 border-primary-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="py-10">
+        <SignInForm panelClass={panelClass} redirectPath={`${prefix}/account`} />
+      </div>
+    );
+  }
+
+  async function handleSaveName(e: FormEvent) {
+    e.preventDefault();
+    if (displayName === null) return;
+    const result = await updateDisplayName(displayName);
+    if (result.error) {
+      addToast(result.error, 'error');
+    } else {
+      setDisplayName(null);
+      addToast('Display name updated', 'success');
+    }
+  }
+
+  function handleOpen(build: SavedBuild) {
+    // Reuse the local working copy if this saved build is already in the library
+    const local = localBuilds.find((b) => b.savedBuildId === build.id);
+    if (local) {
+      switchBuild(local.id);
+    } else {
+      startBuildFrom({
+        items: toBuildSelections(build),
+        name: build.name,
+        description: build.description ?? '',
+        savedBuildId: build.id,
+      });
+    }
+    navigate(prefix || '/');
+  }
+
+  async function handleDelete(build: SavedBuild) {
+    if (!window.confirm(`Delete "${build.name}"? This can't be undone.`)) return;
+    try {
+      await remove(build.id);
+      addToast(`Deleted "${build.name}"`, 'info');
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to delete build', 'error');
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-extrabold text-surface-900 dark:text-surface-50">Your account</h1>
+          <p className="mt-1 text-sm text-surface-500 dark:text-surface-400">{user.email}</p>
+        </div>
+        <button
+          type="button"
+          onClick={signOut}
+          className={isGlass ? 'glass-btn-secondary rounded-lg px-4 py-2 text-sm font-medium' : 'rounded-lg border border-surface-300 bg-white px-4 py-2 text-sm font-medium text-surface-700 transition-colors hover:bg-surface-100 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700'}
+        >
+          Sign out
+        </button>
+      </div>
+
+      {/* Profile */}
+      <form onSubmit={handleSaveName} className={`${panelClass} flex flex-wrap items-end gap-3 p-5`}>
+        <div className="min-w-[12rem] flex-1">
+          <label htmlFor="account-display-name" className="block text-sm font-medium text-surface-700 dark:text-surface-300">
+            Display name
+          </label>
+          <input
+            id="account-display-name"
+            type="text"
+            maxLength={50}
+            value={displayName ?? profile?.display_name ?? ''}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-surface-300 bg-white px-3 py-2 text-sm text-surface-900 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-100"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={displayName === null}
+          className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-primary-500 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </form>
+
+      {/* Saved builds */}
+      <section className={`${panelClass} p-5`}>
+        <h2 className="text-base font-bold text-surface-900 dark:text-surface-100">Saved builds</h2>
+        {buildsLoading ? (
+          <div className="mt-4 h-16 animate-pulse rounded bg-surface-100 dark:bg-surface-800" />
+        ) : buildsError ? (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400">{buildsError}</p>
+        ) : builds.length === 0 ? (
+          <p className="mt-2 text-sm text-surface-500 dark:text-surface-400">
+            No saved builds yet. Use <span className="font-medium">Save</span> on the{' '}
+            <Link to={prefix || '/'} className="text-primary-600 hover:underline dark:text-primary-400">builder</Link>{' '}
+            to keep one here.
+          </p>
+        ) : (
+          <ul className="mt-3 divide-y divide-surface-200 dark:divide-surface-700">
+            {builds.map((build) => (
+              <li key={build.id} className="flex flex-wrap items-center gap-3 py-3">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-semibold text-surface-900 dark:text-surface-100">
+                    {build.name}
+                    {build.id === savedBuildId && (
+                      <span className="ml-2 rounded-full bg-primary-100 px-2 py-0.5 text-xs font-medium text-primary-700 dark:bg-primary-900/30 dark:text-primary-300">
+                        Open in builder
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-surface-500 dark:text-surface-400">
+                    {build.build_items.length} item{build.build_items.length === 1 ? '' : 's'} · {formatPrice(buildTotal(build))} · updated {formatDate(build.updated_at)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleOpen(build)}
+                  className="rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-500"
+                >
+                  Open
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(build)}
+                  className="text-xs text-surface-400 hover:text-red-500"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Price watches */}
+      <section className={`${panelClass} p-5`}>
+        <h2 className="text-base font-bold text-surface-900 dark:text-surface-100">Price watches</h2>
+        {watchlist.length === 0 ? (
+          <p className="mt-2 text-sm text-surface-500 dark:text-surface-400">
+            You aren't watching any products. Use "Watch price" on a product page.
+          </p>
+        ) : (
+          <ul className="mt-3 divide-y divide-surface-200 dark:divide-surface-700">
+            {watchlist.map((item) => (
+              <li key={item.productId} className="flex items-center gap-3 py-2 text-sm">
+                <Link
+                  to={`${prefix}/product/${item.productId}`}
+                  className="min-w-0 flex-1 truncate text-surface-800 hover:underline dark:text-surface-200"
+                >
+                  {item.productName}
+                </Link>
+                <span className="font-mono text-xs text-surface-500 dark:text-surface-400">
+                  {[
+                    item.targetPrice !== null ? `below ${formatPrice(item.targetPrice)}` : null,
+                    item.notifyRestock ? 'back in stock' : null,
+                  ].filter(Boolean).join(' · ')}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeProduct(item.productId)}
+                  className="text-xs text-surface-400 hover:text-red-500"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -3,13 +3,24 @@ import { Link } from 'react-router-dom';
 import {
   useCommunityBuilds,
   upvoteBuild,
+  fetchAccountVotedIds,
+  hasCommunityFilters,
+  EMPTY_COMMUNITY_FILTERS,
+  type BuildTag,
+  type CommunityBuildFilters,
   type CommunitySortOption,
 } from '../hooks/useCommunityBuilds';
-import type { CategoryId, Product } from '../types';
+import type { BuildSelection, CategoryId, Product } from '../types';
 import { useBuild } from '../context/BuildContext';
 import { useToast } from '../context/ToastContext';
 import { useGlassMode } from '../context/GlassModeContext';
+import { useAuth } from '../context/AuthContext';
 import { supabase } from '../lib/supabase';
+import { groupBuildItems } from '../lib/buildItems';
+import { getTopLevelCategories } from '../lib/categories';
+import SearchBar from '../components/products/SearchBar';
+import ForkedFrom from '../components/shared/ForkedFrom';
+import ReportBuildButton from '../components/shared/ReportBuildButton';
 
 const SORT_OPTIONS: { value: CommunitySortOption; label: string }[] = [
   { value: 'recent', label: 'Recent' },
@@ -18,11 +29,143 @@ const SORT_OPTIONS: { value: CommunitySortOption; label: string }[] = [
   { value: 'budget_desc', label: 'Budget: High' },
 ];
 
+/** Text and price inputs apply after typing pauses this long */
+const FILTER_DEBOUNCE_MS = 300;
+const TAGS_SHOWN = 12;
+
+const chipClass = (active: boolean, isGlass: boolean) =>
+  `rounded-full border px-2.5 py-1 text-xs font-medium transition-colors ${
+    active
+      ? 'border-primary-500 bg-primary-50 text-primary-700 dark:border-primary-400 dark:bg-primary-900/20 dark:text-primary-400'
+      : isGlass
+        ? 'border-white/20 bg-white/30 text-surface-600 hover:bg-white/50 dark:border-white/10 dark:text-surface-400 dark:hover:bg-white/[0.1]'
+        : 'border-surface-200 text-surface-600 hover:border-surface-300 dark:border-surface-700 dark:text-surface-400 dark:hover:border-surface-600'
+  }`;
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+function parsePrice(value: string): number | null {
+  const n = Number(value);
+  return value.trim() !== '' && Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+interface FilterBarProps {
+  filters: CommunityBuildFilters;
+  onChange: (filters: CommunityBuildFilters) => void;
+  tags: BuildTag[];
+}
+
+function FilterBar({ filters, onChange, tags }: FilterBarProps) {
+  const isGlass = useGlassMode();
+  const [search, setSearch] = useState(filters.search);
+  const [contains, setContains] = useState(filters.contains);
+  const [priceMin, setPriceMin] = useState(filters.priceMin?.toString() ?? '');
+  const [priceMax, setPriceMax] = useState(filters.priceMax?.toString() ?? '');
+
+  useEffect(() => {
+    const next = { search, contains, priceMin: parsePrice(priceMin), priceMax: parsePrice(priceMax) };
+    if (
+      next.search === filters.search &&
+      next.contains === filters.contains &&
+      next.priceMin === filters.priceMin &&
+      next.priceMax === filters.priceMax
+    ) {
+      return;
+    }
+    const timer = setTimeout(() => onChange({ ...filters, ...next }), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, contains, priceMin, priceMax, filters, onChange]);
+
+  const inputClass = isGlass
+    ? 'glass-input rounded-lg px-3 py-1.5 text-sm text-surface-900 dark:text-surface-100'
+    : 'rounded-lg border border-surface-300 bg-white px-3 py-1.5 text-sm text-surface-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500/40 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-100';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <div className="sm:flex-1">
+          <SearchBar value={search} onChange={setSearch} placeholder="Search builds..." />
+        </div>
+        <input
+          type="text"
+          value={contains}
+          onChange={(e) => setContains(e.target.value)}
+          placeholder="Contains product, e.g. Hexa"
+          aria-label="Builds containing a product"
+          className={`sm:w-56 ${inputClass}`}
+        />
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            value={priceMin}
+            onChange={(e) => setPriceMin(e.target.value)}
+            placeholder="Min $"
+            aria-label="Minimum total price"
+            className={`w-24 ${inputClass}`}
+          />
+          <span className="text-surface-400">-</span>
+          <input
+            type="number"
+            min={0}
+            value={priceMax}
+            onChange={(e) => setPriceMax(e.target.value)}
+            placeholder="Max $"
+            aria-label="Maximum total price"
+            className={`w-24 ${inputClass}`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {getTopLevelCategories().map((cat) => (
+          <button
+            key={cat.id}
+            type="button"
+            onClick={() => onChange({ ...filters, categories: toggle(filters.categories, cat.id) })}
+            className={chipClass(filters.categories.includes(cat.id), isGlass)}
+            aria-pressed={filters.categories.includes(cat.id)}
+          >
+            {cat.name}
+          </button>
+        ))}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-surface-400 dark:text-surface-500">Tags:</span>
+          {tags.slice(0, TAGS_SHOWN).map(({ tag, builds }) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => onChange({ ...filters, tags: toggle(filters.tags, tag) })}
+              className={chipClass(filters.tags.includes(tag), isGlass)}
+              aria-pressed={filters.tags.includes(tag)}
+            >
+              #{tag} <span className="opacity-60">{builds}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function CommunityBuildsPage() {
-  const { builds, loading, error, sort, setSort, hasMore, loadMore } = useCommunityBuilds();
-  const { setProduct, setName, setDescription, clearBuild } = useBuild();
+  const { builds, loading, error, sort, setSort, filters, setFilters, tags, hasMore, loadMore } = useCommunityBuilds();
+  const filtered = hasCommunityFilters(filters);
+  // Remounts the filter bar so its inputs empty too
+  const [filterBarKey, setFilterBarKey] = useState(0);
+  const clearFilters = useCallback(() => {
+    setFilters(EMPTY_COMMUNITY_FILTERS);
+    setFilterBarKey((k) => k + 1);
+  }, [setFilters]);
+  const { startBuildFrom } = useBuild();
   const { addToast } = useToast();
   const isGlass = useGlassMode();
+  const { user } = useAuth();
   const [votingId, setVotingId] = useState<string | null>(null);
   const [votedIds, setVotedIds] = useState<Set<string>>(() => {
     try {
@@ -39,6 +182,20 @@ export default function CommunityBuildsPage() {
     } catch { return {}; }
   });
 
+  // Votes cast from other devices come with the account
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    fetchAccountVotedIds(userId).then((ids) => {
+      if (cancelled || ids.length === 0) return;
+      setVotedIds((prev) => new Set([...prev, ...ids]));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
   // Persist votedIds to localStorage
   useEffect(() => {
     try { localStorage.setItem('audiolist_voted_ids', JSON.stringify([...votedIds])); } catch {}
@@ -80,14 +237,15 @@ export default function CommunityBuildsPage() {
   );
 
   const handleClone = useCallback(
-    async (buildId: string, buildName: string) => {
+    async (buildId: string, buildName: string, shareCode: string) => {
       setCloneLoadingId(buildId);
       try {
         // Fetch full build items with product data
         const { data: items, error: fetchErr } = await supabase
           .from('build_items')
           .select('*, product:products!product_id(*)')
-          .eq('build_id', buildId);
+          .eq('build_id', buildId)
+          .order('position');
 
         if (fetchErr || !items) {
           console.error('Failed to fetch build items:', fetchErr?.message);
@@ -95,16 +253,18 @@ export default function CommunityBuildsPage() {
           return;
         }
 
-        clearBuild();
-        await new Promise((resolve) => setTimeout(resolve, 50));
-        setName(`Copy of ${buildName}`);
-        setDescription('');
-
+        const selections: BuildSelection[] = [];
         for (const item of items) {
           if (item.product) {
-            setProduct(item.category_id as CategoryId, item.product as Product);
+            selections.push({ category_id: item.category_id as CategoryId, product: item.product as Product, quantity: item.quantity ?? 1 });
           }
         }
+        startBuildFrom({
+          items: groupBuildItems(selections),
+          name: `Copy of ${buildName}`.slice(0, 100),
+          description: '',
+          forkedFrom: { id: buildId, shareCode, name: buildName },
+        });
 
         // Brief success indicator
         addToast(`Cloned "${buildName}" to your build!`, 'success');
@@ -115,7 +275,7 @@ export default function CommunityBuildsPage() {
         setCloneLoadingId(null);
       }
     },
-    [setProduct, setName, setDescription, clearBuild]
+    [startBuildFrom]
   );
 
   return (
@@ -150,6 +310,8 @@ export default function CommunityBuildsPage() {
         </div>
       </div>
 
+      <FilterBar key={filterBarKey} filters={filters} onChange={setFilters} tags={tags} />
+
       {/* Error */}
       {error && (
         <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400">
@@ -157,8 +319,24 @@ export default function CommunityBuildsPage() {
         </div>
       )}
 
+      {/* No matches */}
+      {!loading && builds.length === 0 && !error && filtered && (
+        <div className="py-16 text-center">
+          <p className="text-lg font-medium text-surface-600 dark:text-surface-400">
+            No builds match these filters.
+          </p>
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="mt-2 text-sm text-primary-600 hover:underline dark:text-primary-400"
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+
       {/* Empty state */}
-      {!loading && builds.length === 0 && !error && (
+      {!loading && builds.length === 0 && !error && !filtered && (
         <div className="py-16 text-center">
           <p className="text-lg font-medium text-surface-600 dark:text-surface-400">
             No community builds yet.
@@ -195,9 +373,11 @@ export default function CommunityBuildsPage() {
                   >
                     {build.name || 'Untitled Build'}
                   </Link>
-                  {build.author_name && (
+                  {(build.author_name || build.parent) && (
                     <p className="text-xs text-surface-400 dark:text-surface-500">
-                      by {build.author_name}
+                      {build.author_name && <>by {build.author_name}</>}
+                      {build.author_name && build.parent && ', '}
+                      {build.parent && <ForkedFrom parent={build.parent} />}
                     </p>
                   )}
                 </div>
@@ -234,6 +414,22 @@ export default function CommunityBuildsPage() {
                 </p>
               )}
 
+              {/* Tags */}
+              {build.tags.length > 0 && (
+                <div className="mb-3 flex flex-wrap gap-1">
+                  {build.tags.map((tag) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => setFilters({ ...filters, tags: filters.tags.includes(tag) ? filters.tags : [...filters.tags, tag] })}
+                      className="rounded bg-surface-100 px-1.5 py-0.5 text-[10px] font-medium text-surface-500 hover:text-primary-600 dark:bg-surface-800 dark:text-surface-400 dark:hover:text-primary-400"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {/* Items preview */}
               <div className="mb-3 flex-1 space-y-1">
                 {build.build_items.slice(0, 4).map((item) => (
@@ -262,16 +458,35 @@ export default function CommunityBuildsPage() {
               <div className="flex items-center justify-between border-t border-surface-100 pt-3 dark:border-surface-800">
                 <div className="flex items-center gap-3">
                   <span className="text-sm font-bold text-surface-900 dark:text-surface-100">
-                    ${build.totalPrice.toFixed(0)}
+                    ${Number(build.total_price).toFixed(0)}
                   </span>
+                  {build.shared_total !== null && Math.round(Number(build.shared_total)) !== Math.round(Number(build.total_price)) && (
+                    <span className="text-xs text-surface-400 dark:text-surface-500" title="Total when this build was shared">
+                      was ${Number(build.shared_total).toFixed(0)}
+                    </span>
+                  )}
                   <span className="text-xs text-surface-400 dark:text-surface-500">
-                    {build.build_items.length} items
+                    {build.item_count} items
                   </span>
+                  {build.fork_count > 0 && (
+                    <span className="text-xs text-surface-400 dark:text-surface-500" title="Times this build was forked">
+                      {build.fork_count} {build.fork_count === 1 ? 'fork' : 'forks'}
+                    </span>
+                  )}
+                  {build.comment_count > 0 && (
+                    <Link
+                      to={`/build/${build.share_code}`}
+                      className="text-xs text-surface-400 hover:text-primary-600 dark:text-surface-500 dark:hover:text-primary-400"
+                    >
+                      {build.comment_count} {build.comment_count === 1 ? 'comment' : 'comments'}
+                    </Link>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
+                  <ReportBuildButton buildId={build.id} compact />
                   <button
                     type="button"
-                    onClick={() => handleClone(build.id, build.name)}
+                    onClick={() => handleClone(build.id, build.name, build.share_code)}
                     disabled={isCloning}
                     className={isGlass ? 'rounded-md border border-white/20 bg-white/30 px-2.5 py-1.5 text-xs font-medium text-surface-600 transition-colors hover:bg-white/50 dark:border-white/10 dark:text-surface-400 dark:hover:bg-white/[0.1]' : 'rounded-md border border-surface-200 px-2.5 py-1.5 text-xs font-medium text-surface-600 transition-colors hover:bg-surface-50 dark:border-surface-700 dark:text-surface-400 dark:hover:bg-surface-800'}
                   >
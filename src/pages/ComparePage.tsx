@@ -0,0 +1,621 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
+import { Link, useSearchParams, useNavigate } from 'react-router-dom';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import type { Product } from '../types';
+import { supabase } from '../lib/supabase';
+import {
+  CATEGORY_MAP,
+  AMP_LOAD_IMPEDANCES,
+  getPowerColumnForLoad,
+  type AmpLoadOhms,
+  getScoreLabel,
+  isAmpCategory,
+  isSinadCategory,
+  isSpinormaCategory,
+  sinadToScore,
+  formatPowerMw,
+} from '../lib/categories';
+import { getDisplayName, getPpiStats, hasTargetScores, TARGET_TYPE_LABELS } from '../lib/productUtils';
+import { MIN_COMPARE, getCompareUrl, parseCompareIds } from '../lib/compare';
+import { formatCurrency, REGIONS } from '../lib/currency';
+import { useExperienceMode } from '../context/ExperienceModeContext';
+import { useGlassMode } from '../context/GlassModeContext';
+import { useTargetType } from '../context/TargetTypeContext';
+import { useRegion } from '../context/RegionContext';
+import { useCompare } from '../context/CompareContext';
+import { usePriceListings } from '../hooks/usePriceListings';
+import { usePriceHistories } from '../hooks/usePriceHistory';
+import PPIBadge from '../components/shared/PPIBadge';
+import PriceDisplay from '../components/shared/PriceDisplay';
+import TargetToggle from '../components/shared/TargetToggle';
+
+// One color per compared product (max 4)
+const PRODUCT_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ef4444'];
+
+type Better = 'higher' | 'lower' | 'zero';
+
+/** Index of the best value in a row, or -1 when fewer than two values exist */
+function bestIndex(values: (number | null)[], better: Better): number {
+  let best = -1;
+  let count = 0;
+  values.forEach((v, i) => {
+    if (v === null) return;
+    count++;
+    if (best === -1) {
+      best = i;
+      return;
+    }
+    const current = values[best]!;
+    const wins =
+      better === 'higher' ? v > current : better === 'lower' ? v < current : Math.abs(v) < Math.abs(current);
+    if (wins) best = i;
+  });
+  return count >= 2 ? best : -1;
+}
+
+function powerAt(product: Product, ohms: AmpLoadOhms): number | null {
+  return (product[getPowerColumnForLoad(ohms) as keyof Product] as number | null) ?? null;
+}
+
+function formatSpecValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '--';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/** Lowest current price per retailer for one product */
+function RetailerPrices({ productId }: { productId: string }) {
+  const { region } = useRegion();
+  const { locale } = REGIONS[region];
+  const { listings, loading } = usePriceListings(productId);
+
+  const cheapest = useMemo(() => {
+    const byRetailer = new Map<string, (typeof listings)[number]>();
+    for (const l of listings) {
+      const current = byRetailer.get(l.retailer_id);
+      const rank = (x: typeof l) => (x.in_stock ? 0 : 1e9) + (x.price_usd ?? x.price);
+      if (!current || rank(l) < rank(current)) byRetailer.set(l.retailer_id, l);
+    }
+    return [...byRetailer.values()].sort((a, b) => (a.price_usd ?? a.price) - (b.price_usd ?? b.price));
+  }, [listings]);
+
+  if (loading) {
+    return <div className="h-4 w-24 animate-pulse rounded bg-surface-200 dark:bg-surface-700" />;
+  }
+  if (cheapest.length === 0) {
+    return <span className="text-xs italic text-surface-400 dark:text-surface-500">No listings</span>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {cheapest.map((l) => (
+        <li key={l.retailer_id} className="flex items-baseline justify-between gap-2 text-xs">
+          <a
+            href={l.affiliate_url ?? l.product_url ?? undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`truncate hover:underline ${l.in_stock ? 'text-surface-700 dark:text-surface-300' : 'text-surface-400 line-through dark:text-surface-500'}`}
+          >
+            {l.retailer?.name ?? l.retailer_id}
+          </a>
+          <span className="shrink-0 font-mono text-surface-900 dark:text-surface-100">
+            {formatCurrency(l.price, l.currency, locale)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ComparePage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { mode } = useExperienceMode();
+  const isGlass = useGlassMode();
+  const { targetType, setTargetType } = useTargetType();
+  const { removeItem } = useCompare();
+  const { region, currency, convert } = useRegion();
+  const formatPrice = (amount: number) => formatCurrency(amount, currency, REGIONS[region].locale);
+
+  const ids = useMemo(() => parseCompareIds(searchParams.get('ids')), [searchParams]);
+  const idsKey = ids.join(',');
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchProducts() {
+      if (ids.length === 0) {
+        setProducts([]);
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      setError(null);
+
+      const { data, error: queryError } = await supabase
+        .from('products')
+        .select('*')
+        .in('id', ids);
+
+      if (cancelled) return;
+      if (queryError) {
+        setError(queryError.message);
+      } else {
+        // Keep the order from the URL
+        const byId = new Map(((data ?? []) as Product[]).map((p) => [p.id, p]));
+        setProducts(ids.map((id) => byId.get(id)).filter((p): p is Product => !!p));
+      }
+      setLoading(false);
+    }
+
+    fetchProducts();
+    return () => {
+      cancelled = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idsKey]);
+
+  // Only same-category products are comparable: keep the first product's category
+  const categoryId = products[0]?.category_id;
+  const compared = useMemo(
+    () => products.filter((p) => p.category_id === categoryId),
+    [products, categoryId]
+  );
+  const droppedCount = products.length - compared.length;
+  const comparedIds = useMemo(() => compared.map((p) => p.id), [compared]);
+
+  const { histories, loading: historyLoading } = usePriceHistories(comparedIds);
+
+  // Daily lowest price per product in the display currency, pivoted into one row per date
+  const historyData = useMemo(() => {
+    const byDate = new Map<string, Record<string, number | string>>();
+    for (const [productId, points] of histories) {
+      for (const point of points) {
+        const price = point.price_usd === null ? null : convert(point.price_usd);
+        if (price === null) continue;
+        const dateKey = new Date(point.recorded_at).toISOString().split('T')[0];
+        const entry = byDate.get(dateKey) ?? { date: dateKey };
+        const current = entry[productId] as number | undefined;
+        if (current === undefined || price < current) entry[productId] = Math.round(price * 100) / 100;
+        byDate.set(dateKey, entry);
+      }
+    }
+    return [...byDate.values()].sort((a, b) => (a.date as string).localeCompare(b.date as string));
+  }, [histories, convert]);
+
+  // Power vs load, one row per measured impedance
+  const powerData = useMemo(
+    () =>
+      AMP_LOAD_IMPEDANCES.map((ohms) => {
+        const row: Record<string, number | string> = { load: `${ohms} Ω` };
+        for (const p of compared) {
+          const mw = powerAt(p, ohms);
+          if (mw !== null) row[p.id] = mw;
+        }
+        return row;
+      }).filter((row) => Object.keys(row).length > 1),
+    [compared]
+  );
+
+  // Union of spec keys across products
+  const specKeys = useMemo(() => {
+    const keys = new Set<string>();
+    for (const p of compared) {
+      for (const key of Object.keys(p.specs ?? {})) keys.add(key);
+    }
+    return [...keys].sort();
+  }, [compared]);
+
+  const panelClass = isGlass
+    ? 'glass-1 rounded-2xl'
+    : 'rounded-xl border border-surface-200 bg-white dark:border-surface-700 dark:bg-surface-900';
+  const rowBorder = isGlass
+    ? 'border-b border-white/15 dark:border-white/[0.06]'
+    : 'border-b border-surface-200 dark:border-surface-700';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="mx-auto h-8 w-8 animate-spin rounded-full border-2 border-primary-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (error || compared.length < MIN_COMPARE) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <div className={`${panelClass} p-8 text-center`}>
+          <h2 className="text-xl font-bold text-surface-900 dark:text-surface-100">
+            {error ? 'Could not load products' : 'Pick at least two products to compare'}
+          </h2>
+          <p className="mt-2 text-sm text-surface-500 dark:text-surface-400">
+            {error ?? 'Use "Add to compare" on products of the same category, then open the compare tray.'}
+          </p>
+          <Link
+            to={categoryId ? `/products/${categoryId}` : '/'}
+            className="mt-6 inline-block rounded-lg bg-primary-600 px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-500"
+          >
+            Browse products
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const category = categoryId ? CATEGORY_MAP.get(categoryId) : undefined;
+  const ppiStats = compared.map((p) => getPpiStats(p, targetType));
+  const showPpi = !!category?.has_ppi && !isSpinormaCategory(categoryId!);
+  const showSpinorama = isSpinormaCategory(categoryId!);
+  const showSinad = isSinadCategory(categoryId!);
+  const showPower = isAmpCategory(categoryId!);
+  const showTransducer = categoryId === 'iem' || categoryId === 'headphone';
+  const showTargetToggle = hasTargetScores(categoryId!) && mode !== 'beginner';
+
+  function handleRemove(productId: string) {
+    removeItem(productId);
+    navigate(getCompareUrl(comparedIds.filter((id) => id !== productId), isGlass), { replace: true });
+  }
+
+  function MetricRow({
+    label,
+    title,
+    values,
+    format,
+    better,
+  }: {
+    label: string;
+    title?: string;
+    values: (number | null)[];
+    format: (v: number) => string;
+    better?: Better;
+  }) {
+    const best = better ? bestIndex(values, better) : -1;
+    return (
+      <tr className={rowBorder}>
+        <th scope="row" className="px-4 py-2 text-left font-normal text-surface-700 dark:text-surface-300" title={title}>
+          {label}
+        </th>
+        {values.map((v, i) => (
+          <td
+            key={compared[i].id}
+            className={`px-4 py-2 text-right font-mono ${
+              i === best ? 'font-bold text-green-600 dark:text-green-400' : 'text-surface-900 dark:text-surface-100'
+            }`}
+          >
+            {v !== null ? format(v) : 'N/A'}
+          </td>
+        ))}
+      </tr>
+    );
+  }
+
+  function SectionRow({ children }: { children: ReactNode }) {
+    return (
+      <tr className={rowBorder}>
+        <th
+          scope="colgroup"
+          colSpan={compared.length + 1}
+          className="px-4 pb-1 pt-4 text-left text-xs font-semibold uppercase tracking-wide text-surface-500 dark:text-surface-400"
+        >
+          {children}
+        </th>
+      </tr>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-surface-900 dark:text-surface-50">
+            Compare {category?.name ?? 'products'}
+          </h1>
+          {droppedCount > 0 && (
+            <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+              {droppedCount} product{droppedCount === 1 ? '' : 's'} from another category hidden -- only the same category can be compared.
+            </p>
+          )}
+        </div>
+        {showTargetToggle && <TargetToggle targetType={targetType} onChange={setTargetType} />}
+      </div>
+
+      <div className={`${panelClass} overflow-x-auto`}>
+        <table className="w-full min-w-[36rem] table-fixed text-sm">
+          <colgroup>
+            <col className="w-40" />
+            {compared.map((p) => (
+              <col key={p.id} />
+            ))}
+          </colgroup>
+          <thead>
+            <tr className={rowBorder}>
+              <th scope="col" className="px-4 py-3">
+                <span className="sr-only">Metric</span>
+              </th>
+              {compared.map((p, i) => (
+                <th key={p.id} scope="col" className="px-4 py-3 text-left align-top font-normal">
+                  <div className="flex flex-col gap-2">
+                    <div className="flex h-24 items-center justify-center rounded-lg bg-surface-100 dark:bg-surface-800">
+                      {p.image_url ? (
+                        <img src={p.image_url} alt="" className="max-h-full max-w-full object-contain p-2" />
+                      ) : (
+                        <span className="text-2xl text-surface-300 dark:text-surface-600" aria-hidden="true">?</span>
+                      )}
+                    </div>
+                    <div className="flex items-start gap-1.5">
+                      <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: PRODUCT_COLORS[i] }} aria-hidden="true" />
+                      <Link
+                        to={`${isGlass ? '/glass' : ''}/product/${p.id}`}
+                        className="font-semibold text-primary-600 hover:underline dark:text-primary-400"
+                      >
+                        {getDisplayName(p)}
+                      </Link>
+                    </div>
+                    {p.brand && <span className="text-xs text-surface-500 dark:text-surface-400">{p.brand}</span>}
+                    <div className="flex items-center justify-between gap-2">
+                      <PriceDisplay price={p.price} affiliateUrl={p.affiliate_url} inStock={p.in_stock} discontinued={p.discontinued} />
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(p.id)}
+                        className="text-xs text-surface-400 hover:text-red-500"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {showPpi && (
+              <>
+                <SectionRow>
+                  {getScoreLabel(categoryId!, mode)}
+                  {hasTargetScores(categoryId!) ? ` (${TARGET_TYPE_LABELS[targetType]})` : ''}
+                </SectionRow>
+                <tr className={rowBorder}>
+                  <th scope="row" className="px-4 py-2 text-left font-normal text-surface-700 dark:text-surface-300">Score</th>
+                  {compared.map((p, i) => (
+                    <td key={p.id} className="px-4 py-2 text-right">
+                      {ppiStats[i].score !== null ? (
+                        <PPIBadge score={ppiStats[i].score} size="sm" target={hasTargetScores(categoryId!) ? targetType : undefined} />
+                      ) : (
+                        <span className="font-mono text-surface-400">N/A</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+                <MetricRow
+                  label="Std Deviation"
+                  title="Standard deviation from target curve — lower = closer to ideal tuning"
+                  values={ppiStats.map((s) => s.stdev)}
+                  format={(v) => v.toFixed(2)}
+                  better="lower"
+                />
+                <MetricRow
+                  label="Slope"
+                  title="Frequency response slope — closer to 0 = more balanced bass-to-treble tilt"
+                  values={ppiStats.map((s) => s.slope)}
+                  format={(v) => v.toFixed(3)}
+                  better="zero"
+                />
+                <MetricRow
+                  label="Avg Error"
+                  title="Average error from target curve — lower = more accurate sound reproduction"
+                  values={ppiStats.map((s) => s.avgError)}
+                  format={(v) => v.toFixed(2)}
+                  better="lower"
+                />
+              </>
+            )}
+
+            {showSpinorama && (
+              <>
+                <SectionRow>Spinorama</SectionRow>
+                <MetricRow label="Preference Score" values={compared.map((p) => p.pref_score)} format={(v) => v.toFixed(2)} better="higher" />
+                <MetricRow label="With Subwoofer" values={compared.map((p) => p.pref_score_wsub)} format={(v) => v.toFixed(2)} better="higher" />
+                <MetricRow label="Bass Extension" title="Low-frequency extension (-6 dB point)" values={compared.map((p) => p.lfx_hz)} format={(v) => `${Math.round(v)} Hz`} better="lower" />
+                <MetricRow label="NBD On-Axis" values={compared.map((p) => p.nbd_on_axis)} format={(v) => v.toFixed(2)} better="lower" />
+                <MetricRow label="Smoothness (SM PIR)" values={compared.map((p) => p.sm_pred_in_room)} format={(v) => v.toFixed(2)} better="higher" />
+              </>
+            )}
+
+            {showSinad && (
+              <>
+                <SectionRow>SINAD</SectionRow>
+                <tr className={rowBorder}>
+                  <th scope="row" className="px-4 py-2 text-left font-normal text-surface-700 dark:text-surface-300">Score</th>
+                  {compared.map((p) => (
+                    <td key={p.id} className="px-4 py-2 text-right">
+                      {p.sinad_db !== null ? (
+                        <PPIBadge score={sinadToScore(p.sinad_db)} size="sm" label="SINAD" />
+                      ) : (
+                        <span className="font-mono text-surface-400">N/A</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+                <MetricRow label="SINAD" values={compared.map((p) => p.sinad_db)} format={(v) => `${v} dB`} better="higher" />
+              </>
+            )}
+
+            {showPower && (
+              <>
+                <SectionRow>Output Power</SectionRow>
+                {AMP_LOAD_IMPEDANCES.map((ohms) => {
+                  const values = compared.map((p) => powerAt(p, ohms));
+                  if (values.every((v) => v === null)) return null;
+                  return (
+                    <MetricRow key={ohms} label={`@ ${ohms} Ω`} values={values} format={formatPowerMw} better="higher" />
+                  );
+                })}
+              </>
+            )}
+
+            {showTransducer && (
+              <>
+                <SectionRow>Electrical</SectionRow>
+                <MetricRow label="Impedance" values={compared.map((p) => p.impedance_ohms)} format={(v) => `${v} Ω`} />
+                <MetricRow label="Sensitivity" values={compared.map((p) => p.sensitivity_db_mw)} format={(v) => `${v} dB/mW`} />
+              </>
+            )}
+
+            {specKeys.length > 0 && (
+              <>
+                <SectionRow>Specs</SectionRow>
+                {specKeys.map((key) => (
+                  <tr key={key} className={rowBorder}>
+                    <th scope="row" className="px-4 py-2 text-left font-normal capitalize text-surface-700 dark:text-surface-300">
+                      {key.replace(/_/g, ' ')}
+                    </th>
+                    {compared.map((p) => (
+                      <td key={p.id} className="break-words px-4 py-2 text-right text-surface-900 dark:text-surface-100">
+                        {formatSpecValue(p.specs?.[key])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </>
+            )}
+
+            <SectionRow>Lowest price per retailer</SectionRow>
+            <tr>
+              <th scope="row" className="px-4 py-2 text-left align-top font-normal text-surface-700 dark:text-surface-300">Retailers</th>
+              {compared.map((p) => (
+                <td key={p.id} className="px-4 py-2 align-top">
+                  <RetailerPrices productId={p.id} />
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Power curves */}
+      {showPower && powerData.length > 1 && (
+        <div className={`${panelClass} p-5`}>
+          <h2 className="mb-4 text-base font-bold text-surface-900 dark:text-surface-100">
+            Power vs Load
+          </h2>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={powerData} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+              <XAxis dataKey="load" tick={{ fontSize: 11, fill: '#9ca3af' }} stroke="#4b5563" tickLine={false} />
+              <YAxis
+                scale="log"
+                domain={['auto', 'auto']}
+                tickFormatter={(v) => formatPowerMw(Number(v))}
+                tick={{ fontSize: 11, fill: '#9ca3af' }}
+                stroke="#4b5563"
+                tickLine={false}
+                axisLine={false}
+                width={70}
+              />
+              <Tooltip
+                formatter={(value, name) => [formatPowerMw(Number(value)), String(name)]}
+                contentStyle={{
+                  backgroundColor: '#1f2937',
+                  border: '1px solid #374151',
+                  borderRadius: '8px',
+                  fontSize: '12px',
+                  color: '#f9fafb',
+                }}
+                itemStyle={{ color: '#f9fafb' }}
+                labelStyle={{ color: '#9ca3af', marginBottom: '4px' }}
+              />
+              <Legend wrapperStyle={{ fontSize: '11px', paddingTop: '8px' }} />
+              {compared.map((p, i) => (
+                <Line
+                  key={p.id}
+                  type="monotone"
+                  dataKey={p.id}
+                  name={getDisplayName(p)}
+                  stroke={PRODUCT_COLORS[i]}
+                  strokeWidth={2}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Price history overlay */}
+      <div className={`${panelClass} p-5`}>
+        <h2 className="mb-4 text-base font-bold text-surface-900 dark:text-surface-100">
+          Lowest Price History (Last 90 Days)
+        </h2>
+        {historyLoading ? (
+          <div className="h-48 animate-pulse rounded bg-surface-100 dark:bg-surface-800" />
+        ) : historyData.length === 0 ? (
+          <p className="text-sm text-surface-500 dark:text-surface-400">
+            No price history data available yet for these products.
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height={280}>
+            <LineChart data={historyData} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+              <XAxis
+                dataKey="date"
+                tickFormatter={formatDate}
+                tick={{ fontSize: 11, fill: '#9ca3af' }}
+                stroke="#4b5563"
+                tickLine={false}
+              />
+              <YAxis
+                tickFormatter={(v) => formatPrice(Number(v))}
+                tick={{ fontSize: 11, fill: '#9ca3af' }}
+                stroke="#4b5563"
+                tickLine={false}
+                axisLine={false}
+                width={60}
+              />
+              <Tooltip
+                labelFormatter={(label) => formatDate(String(label))}
+                formatter={(value, name) => [formatPrice(Number(value)), String(name)]}
+                contentStyle={{
+                  backgroundColor: '#1f2937',
+                  border: '1px solid #374151',
+                  borderRadius: '8px',
+                  fontSize: '12px',
+                  color: '#f9fafb',
+                }}
+                itemStyle={{ color: '#f9fafb' }}
+                labelStyle={{ color: '#9ca3af', marginBottom: '4px' }}
+              />
+              <Legend wrapperStyle={{ fontSize: '11px', paddingTop: '8px' }} />
+              {compared.map((p, i) => (
+                <Line
+                  key={p.id}
+                  type="monotone"
+                  dataKey={p.id}
+                  name={getDisplayName(p)}
+                  stroke={PRODUCT_COLORS[i]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { useDeals } from '../hooks/useDeals';
+import { useRestocks } from '../hooks/useRestocks';
 import { useCoupons } from '../hooks/useCoupons';
 import { useGlassMode } from '../context/GlassModeContext';
 import DealBadge from '../components/shared/DealBadge';
@@ -10,13 +11,23 @@ import type { RetailerCoupon } from '../types';
 
 type DealTab = 'all' | 'on-sale' | 'coupons';
 
+const RESTOCKS_SHOWN = 8;
+
 function formatPrice(price: number): string {
   return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(price);
 }
 
+function formatSoldOutFor(since: string, until: string): string | null {
+  const days = Math.round((new Date(until).getTime() - new Date(since).getTime()) / (24 * 60 * 60 * 1000));
+  if (days < 1) return null;
+  if (days < 14) return `sold out ${days} day${days === 1 ? '' : 's'}`;
+  return `sold out ${Math.round(days / 7)} weeks`;
+}
+
 export default function DealsPage() {
   const isGlass = useGlassMode();
   const { deals, loading, error } = useDeals();
+  const { restocks } = useRestocks();
   const [activeTab, setActiveTab] = useState<DealTab>('all');
 
   // Get all unique retailer IDs to fetch coupons
@@ -84,6 +95,53 @@ export default function DealsPage() {
         </p>
       </div>
 
+      {/* Restocked this week */}
+      {restocks.length > 0 && (
+        <section className="mb-8">
+          <h2 className="mb-3 text-lg font-bold text-surface-900 dark:text-surface-100">
+            Restocked this week
+          </h2>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            {restocks.slice(0, RESTOCKS_SHOWN).map((item) => {
+              const soldOutFor = item.out_of_stock_since
+                ? formatSoldOutFor(item.out_of_stock_since, item.restocked_at)
+                : null;
+              return (
+                <Link
+                  key={item.product_id}
+                  to={`/product/${item.product_id}`}
+                  className={`group flex items-center gap-3 rounded-xl p-3 transition-shadow hover:shadow-md ${
+                    isGlass ? 'glass-1' : 'border border-surface-200 bg-white dark:border-surface-700 dark:bg-surface-900'
+                  }`}
+                >
+                  {item.product_image ? (
+                    <img src={item.product_image} alt="" className="h-12 w-12 rounded-lg object-cover" />
+                  ) : (
+                    <div className="h-12 w-12 rounded-lg bg-surface-100 dark:bg-surface-800" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-semibold text-surface-900 group-hover:text-primary-600 dark:text-surface-100 dark:group-hover:text-primary-400">
+                      {item.product_name}
+                    </p>
+                    <p className="text-xs text-surface-500 dark:text-surface-400">
+                      {item.price !== null && (
+                        <span className="font-mono font-semibold text-surface-700 dark:text-surface-200">
+                          {formatPrice(item.price)}
+                        </span>
+                      )}{' '}
+                      at {item.retailer_name}
+                    </p>
+                    <p className="text-[0.6875rem] text-emerald-600 dark:text-emerald-400">
+                      Back in stock{soldOutFor ? ` after being ${soldOutFor}` : ''}
+                    </p>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
       {/* Tabs */}
       <div className="mb-6 flex gap-1 border-b border-surface-200 dark:border-surface-700">
         {tabs.map((tab) => (
@@ -1,31 +1,40 @@
 import { useState, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { nanoid } from 'nanoid';
-import type { CategoryId, TargetType, Product } from '../types';
+import type { CategoryId, Product } from '../types';
 import { useBuild } from '../context/BuildContext';
 import { CATEGORY_MAP } from '../lib/categories';
+import { toBuildItemRows } from '../lib/buildItems';
 import { supabase } from '../lib/supabase';
 import BuilderTable from '../components/builder/BuilderTable';
 import ProductPicker from '../components/products/ProductPicker';
 import ProductDetailModal from '../components/shared/ProductDetailModal';
 import ShareButton from '../components/shared/ShareButton';
+import SaveBuildButton from '../components/shared/SaveBuildButton';
 import { getClientHash } from '../hooks/useCommunityBuilds';
 import AdvancedSettings from '../components/builder/AdvancedSettings';
 import SignalChainVisualizer from '../components/builder/SignalChainVisualizer';
 import StarterBuildCards from '../components/builder/StarterBuildCards';
+import BuildSwitcher from '../components/builder/BuildSwitcher';
 import { useExperienceMode } from '../context/ExperienceModeContext';
 import { useGlassMode } from '../context/GlassModeContext';
+import { useTargetType } from '../context/TargetTypeContext';
+import { useAuth } from '../context/AuthContext';
 
 export default function HomePage() {
-  const { items, itemCount, clearBuild, name, description, setName, setDescription } = useBuild();
+  const { items, itemCount, createBuild, name, description, setName, setDescription, forkedFrom } = useBuild();
   const { mode } = useExperienceMode();
   const isGlass = useGlassMode();
   const [pickerCategory, setPickerCategory] = useState<CategoryId | null>(null);
+  /** Product the picker swaps out; null adds to the category instead */
+  const [pickerReplaceId, setPickerReplaceId] = useState<string | null>(null);
   const [detailProduct, setDetailProduct] = useState<Product | null>(null);
-  const [targetType, setTargetType] = useState<TargetType>('df');
+  const { targetType, setTargetType } = useTargetType();
+  const { user } = useAuth();
 
-  const handleChooseProduct = useCallback((categoryId: CategoryId) => {
+  const handleChooseProduct = useCallback((categoryId: CategoryId, replaceProductId?: string) => {
     setPickerCategory(categoryId);
+    setPickerReplaceId(replaceProductId ?? null);
   }, []);
 
   const handleClosePicker = useCallback(() => {
@@ -45,9 +54,10 @@ export default function HomePage() {
     const categoryId = detailProduct.category_id;
     setDetailProduct(null);
     setPickerCategory(categoryId);
+    setPickerReplaceId(detailProduct.id);
   }, [detailProduct]);
 
-  const handleShare = useCallback(async (opts?: { isPublic?: boolean; authorName?: string }): Promise<string> => {
+  const handleShare = useCallback(async (opts?: { isPublic?: boolean; authorName?: string; tags?: string[] }): Promise<string> => {
     // Quality gate for community publishing
     if (opts?.isPublic && !name.trim()) {
       throw new Error('A build name is required to publish to the community.');
@@ -59,19 +69,27 @@ export default function HomePage() {
     const shareCode = nanoid(8);
 
     // Insert the build record
-    const { data: build, error: buildError } = await supabase
+    const row = {
+      share_code: shareCode,
+      name: name.trim().slice(0, 100),
+      description: description.trim().slice(0, 500),
+      is_public: opts?.isPublic ?? false,
+      author_name: opts?.authorName?.trim().slice(0, 50) ?? null,
+      tags: opts?.tags ?? [],
+      client_hash: await getClientHash(),
+      user_id: user?.id ?? null,
+    };
+    let { data: build, error: buildError } = await supabase
       .from('builds')
-      .insert({
-        share_code: shareCode,
-        name: name.trim().slice(0, 100),
-        description: description.trim().slice(0, 500),
-        is_public: opts?.isPublic ?? false,
-        author_name: opts?.authorName?.trim().slice(0, 50) ?? null,
-        client_hash: getClientHash(),
-      })
+      .insert({ ...row, forked_from: forkedFrom?.id ?? null })
       .select('id')
       .single();
 
+    // The build this was cloned from has since been deleted: share without the link
+    if (buildError?.code === '23503' && forkedFrom) {
+      ({ data: build, error: buildError } = await supabase.from('builds').insert(row).select('id').single());
+    }
+
     if (buildError || !build) {
       if (buildError?.message?.includes('Rate limit exceeded')) {
         throw new Error('You are creating builds too quickly. Please wait a few minutes and try again.');
@@ -80,13 +98,7 @@ export default function HomePage() {
     }
 
     // Insert build items
-    const buildItems = Array.from(items.values()).map((sel) => ({
-      build_id: build.id,
-      category_id: sel.category_id,
-      product_id: sel.product.id,
-      custom_price: sel.custom_price ?? null,
-      quantity: sel.quantity,
-    }));
+    const buildItems = toBuildItemRows(build.id, items);
 
     if (buildItems.length > 0) {
       const { error: itemsError } = await supabase
@@ -99,13 +111,16 @@ export default function HomePage() {
     }
 
     return `${window.location.origin}/build/${shareCode}`;
-  }, [items, name, description]);
+  }, [items, name, description, user, forkedFrom]);
 
   return (
     <div className="space-y-6">
       {/* Header section */}
       <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
         <div className="min-w-0 flex-1">
+          <div className="mb-3">
+            <BuildSwitcher />
+          </div>
           <input
             type="text"
             value={name}
@@ -124,17 +139,27 @@ export default function HomePage() {
             className="mt-1 w-full border-b border-transparent bg-transparent text-sm text-surface-600 outline-none transition-colors placeholder:text-surface-400 hover:border-surface-200 focus:border-primary-400 dark:text-surface-300 dark:placeholder:text-surface-500 dark:hover:border-surface-700 dark:focus:border-primary-500"
             aria-label="Build description"
           />
+          {forkedFrom && (
+            <p className="mt-1 text-xs text-surface-400 dark:text-surface-500">
+              Forked from{' '}
+              <Link to={`/build/${forkedFrom.shareCode}`} className="text-primary-600 hover:underline dark:text-primary-400">
+                {forkedFrom.name || 'Untitled Build'}
+              </Link>
+            </p>
+          )}
         </div>
 
         <div className="flex flex-shrink-0 flex-wrap items-center gap-3">
           {/* Share button -- always visible so users know the feature exists */}
           <ShareButton onShare={handleShare} disabled={itemCount === 0} />
 
-          {/* Clear build */}
+          <SaveBuildButton />
+
+          {/* New build (the current one stays in the build switcher) */}
           {itemCount > 0 && (
             <button
               type="button"
-              onClick={clearBuild}
+              onClick={() => createBuild()}
               className={isGlass ? 'glass-btn-secondary rounded-lg px-4 py-2 text-sm font-medium' : 'rounded-lg border border-surface-300 bg-white px-4 py-2 text-sm font-medium text-surface-700 transition-colors hover:bg-surface-100 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700'}
             >
               Start New Build
@@ -195,6 +220,7 @@ export default function HomePage() {
         isOpen={pickerCategory !== null}
         onClose={handleClosePicker}
         onViewDetail={handleViewDetail}
+        replaceProductId={pickerReplaceId}
       />
     </div>
   );
@@ -7,24 +7,29 @@ import type { AmpLoadOhms } from '../lib/categories';
 import { useBuild } from '../context/BuildContext';
 import { useExperienceMode } from '../context/ExperienceModeContext';
 import { useGlassMode } from '../context/GlassModeContext';
+import { useTargetType } from '../context/TargetTypeContext';
 import { getMicConnectionLabel, getMicTypeLabel, getMicPatternLabel } from '../hooks/useProducts';
 import PPIBadge from '../components/shared/PPIBadge';
 import PriceDisplay from '../components/shared/PriceDisplay';
+import CompareButton from '../components/shared/CompareButton';
 import WhereToBuy from '../components/shared/WhereToBuy';
 import PriceHistoryChart from '../components/shared/PriceHistoryChart';
+import FrequencyResponseChart from '../components/shared/FrequencyResponseChart';
 import ScoreExplainer from '../components/shared/ScoreExplainer';
 import BestValueBadge from '../components/shared/BestValueBadge';
 import WatchPriceButton from '../components/shared/WatchPriceButton';
 import PopularPairings from '../components/shared/PopularPairings';
 import { buildSourceUrl, formatSourceLabel } from '../lib/sourceUrl';
-import { getDisplayName, getBestModeLabel } from '../lib/productUtils';
+import { getDisplayName, getBestModeLabel, getPpiStats, hasTargetScores, TARGET_TYPE_LABELS } from '../lib/productUtils';
+import TargetToggle from '../components/shared/TargetToggle';
 
 export default function ProductDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { setProduct, getSelection, removeProduct } = useBuild();
+  const { addProduct, getSelections, removeProduct } = useBuild();
   const { mode } = useExperienceMode();
   const isGlass = useGlassMode();
+  const { targetType, setTargetType } = useTargetType();
 
   const [product, setProductData] = useState<Product | null>(null);
   const [loading, setLoading] = useState(true);
@@ -62,17 +67,19 @@ export default function ProductDetailPage() {
     fetchProduct();
   }, [id]);
 
-  const isInBuild = product ? getSelection(product.category_id)?.product.id === product.id : false;
+  const isInBuild = product
+    ? getSelections(product.category_id).some((sel) => sel.product.id === product.id)
+    : false;
   const bestModeLabel = product ? getBestModeLabel(product) : null;
 
   function handleAddToBuild(categoryId: CategoryId) {
     if (!product) return;
     // Toggle: remove if already in build, add otherwise
     if (isInBuild) {
-      removeProduct(categoryId);
+      removeProduct(categoryId, product.id);
       return;
     }
-    setProduct(categoryId, product);
+    addProduct(categoryId, product);
     setAddedCategory(categoryId);
     setTimeout(() => setAddedCategory(null), 2000);
   }
@@ -113,6 +120,8 @@ export default function ProductDetailPage() {
   }
 
   const category = CATEGORY_MAP.get(product.category_id);
+  const ppi = getPpiStats(product, targetType);
+  const showTargetToggle = hasTargetScores(product.category_id) && mode !== 'beginner';
 
   return (
     <div className="space-y-6">
@@ -221,7 +230,7 @@ export default function ProductDetailPage() {
             <BestValueBadge
               score={isSinadCategory(product.category_id)
                 ? (product.sinad_db !== null ? sinadToScore(product.sinad_db) : null)
-                : product.ppi_score}
+                : ppi.score}
               price={product.price}
             />
           </div>
@@ -232,20 +241,23 @@ export default function ProductDetailPage() {
               <span className="text-sm font-semibold text-surface-700 dark:text-surface-300">
                 {getScoreLabel(product.category_id, mode)}:
               </span>
-              <PPIBadge score={product.ppi_score} size="lg" label={getScoreLabel(product.category_id, mode)} />
+              <PPIBadge score={ppi.score} size="lg" label={getScoreLabel(product.category_id, mode)} target={hasTargetScores(product.category_id) ? targetType : undefined} />
+              {showTargetToggle && (
+                <TargetToggle targetType={targetType} onChange={setTargetType} />
+              )}
             </div>
           )}
 
           {/* Score explainer (beginner/default only) */}
-          {mode !== 'advanced' && category?.has_ppi && product.ppi_score !== null && (
+          {mode !== 'advanced' && category?.has_ppi && ppi.score !== null && (
             <ScoreExplainer
               scoreType={isSpinormaCategory(product.category_id) ? 'spinorama' : 'ppi'}
-              score={product.ppi_score}
+              score={ppi.score}
             />
           )}
 
           {/* Spinorama breakdown table (speakers, hidden in beginner mode) */}
-          {mode !== 'beginner' && category?.has_ppi && product.ppi_score !== null && isSpinormaCategory(product.category_id) && (
+          {mode !== 'beginner' && category?.has_ppi && ppi.score !== null && isSpinormaCategory(product.category_id) && (
             <div className={isGlass ? 'glass-1 rounded-xl' : 'rounded-lg border border-surface-200 bg-surface-50 dark:border-surface-700 dark:bg-surface-800'}>
               <table className="w-full text-sm">
                 <thead>
@@ -309,12 +321,12 @@ export default function ProductDetailPage() {
           )}
 
           {/* PPI breakdown table (IEM/headphone, hidden in beginner mode) */}
-          {mode !== 'beginner' && category?.has_ppi && product.ppi_score !== null && !isSpinormaCategory(product.category_id) && (
+          {mode !== 'beginner' && category?.has_ppi && ppi.score !== null && !isSpinormaCategory(product.category_id) && (
             <div className={isGlass ? 'glass-1 rounded-xl' : 'rounded-lg border border-surface-200 bg-surface-50 dark:border-surface-700 dark:bg-surface-800'}>
               <table className="w-full text-sm">
                 <thead>
                   <tr className={isGlass ? 'border-b bg-white/40 text-left text-surface-500 dark:bg-white/[0.04] dark:text-surface-400 border-white/15 dark:border-white/[0.06]' : 'border-b border-surface-200 text-left text-surface-500 dark:border-surface-700 dark:text-surface-400'}>
-                    <th className="px-4 py-2 font-medium">Metric</th>
+                    <th className="px-4 py-2 font-medium">Metric{showTargetToggle ? ` (${TARGET_TYPE_LABELS[targetType]})` : ''}</th>
                     <th className="px-4 py-2 text-right font-medium">Value</th>
                     <th className="hidden px-4 py-2 text-right font-medium sm:table-cell">Hint</th>
                   </tr>
@@ -325,7 +337,7 @@ export default function ProductDetailPage() {
                       Std Deviation
                     </td>
                     <td className="px-4 py-2 text-right font-mono text-surface-900 dark:text-surface-100">
-                      {product.ppi_stdev !== null ? product.ppi_stdev.toFixed(2) : 'N/A'}
+                      {ppi.stdev !== null ? ppi.stdev.toFixed(2) : 'N/A'}
                     </td>
                     <td className="hidden px-4 py-2 text-right text-xs text-surface-400 sm:table-cell">lower is better</td>
                   </tr>
@@ -334,7 +346,7 @@ export default function ProductDetailPage() {
                       Slope
                     </td>
                     <td className="px-4 py-2 text-right font-mono text-surface-900 dark:text-surface-100">
-                      {product.ppi_slope !== null ? product.ppi_slope.toFixed(3) : 'N/A'}
+                      {ppi.slope !== null ? ppi.slope.toFixed(3) : 'N/A'}
                     </td>
                     <td className="hidden px-4 py-2 text-right text-xs text-surface-400 sm:table-cell">closer to 0</td>
                   </tr>
@@ -343,8 +355,8 @@ export default function ProductDetailPage() {
                       Avg Error
                     </td>
                     <td className="px-4 py-2 text-right font-mono text-surface-900 dark:text-surface-100">
-                      {product.ppi_avg_error !== null
-                        ? product.ppi_avg_error.toFixed(2)
+                      {ppi.avgError !== null
+                        ? ppi.avgError.toFixed(2)
                         : 'N/A'}
                     </td>
                     <td className="hidden px-4 py-2 text-right text-xs text-surface-400 sm:table-cell">lower is better</td>
@@ -637,6 +649,8 @@ export default function ProductDetailPage() {
                   : `Add to Build (${category?.name ?? product.category_id})`}
             </button>
 
+            <CompareButton product={product} variant="button" />
+
             {/* Affiliate / buy link */}
             {product.affiliate_url && (
               <a
@@ -662,13 +676,16 @@ export default function ProductDetailPage() {
             {/* Watch price */}
             <WatchPriceButton
               productId={product.id}
-              productName={product.name}
               currentPrice={product.price}
+              inStock={product.in_stock}
             />
           </div>
         </div>
       </div>
 
+      {/* Frequency response graph (measured IEM/headphone) */}
+      {hasTargetScores(product.category_id) && <FrequencyResponseChart product={product} />}
+
       {/* Where to Buy */}
       <WhereToBuy productId={product.id} productName={product.name} discontinued={product.discontinued} />
 
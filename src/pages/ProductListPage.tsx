@@ -4,13 +4,15 @@ import type { CategoryId, ProductFilters, ProductSort, Product } from '../types'
 import { CATEGORIES, CATEGORY_MAP, getScoreLabel, isSpinormaCategory, isSinadCategory, sinadToScore } from '../lib/categories';
 import { useExperienceMode } from '../context/ExperienceModeContext';
 import { useGlassMode } from '../context/GlassModeContext';
+import { useTargetType } from '../context/TargetTypeContext';
 import { useProducts, useFilterOptions } from '../hooks/useProducts';
 import SearchBar from '../components/products/SearchBar';
 import SortControls from '../components/products/SortControls';
 import PPIBadge from '../components/shared/PPIBadge';
 import PriceDisplay from '../components/shared/PriceDisplay';
 import BestValueBadge from '../components/shared/BestValueBadge';
-import { getDisplayName, getBestModeLabel } from '../lib/productUtils';
+import { getDisplayName, getBestModeLabel, getPpiStats, hasTargetScores } from '../lib/productUtils';
+import TargetToggle from '../components/shared/TargetToggle';
 
 const DEFAULT_CATEGORY: CategoryId = 'iem';
 
@@ -79,6 +81,7 @@ export default function ProductListPage() {
   const { category: categoryParam } = useParams<{ category: string }>();
   const navigate = useNavigate();
   const { mode } = useExperienceMode();
+  const { targetType, setTargetType } = useTargetType();
 
   const isGlass = useGlassMode();
 
@@ -198,7 +201,12 @@ export default function ProductListPage() {
             placeholder={`Search ${category.name}...`}
           />
         </div>
-        <SortControls sort={sort} onChange={setSort} showPPI={category.has_ppi} showSinad={isSinadCategory(categoryId)} scoreLabel={getScoreLabel(categoryId, mode)} />
+        <div className="flex flex-wrap items-center gap-3">
+          {hasTargetScores(categoryId) && mode !== 'beginner' && (
+            <TargetToggle targetType={targetType} onChange={setTargetType} />
+          )}
+          <SortControls sort={sort} onChange={setSort} showPPI={category.has_ppi} showSinad={isSinadCategory(categoryId)} scoreLabel={getScoreLabel(categoryId, mode)} />
+        </div>
       </div>
 
       {/* Filter sidebar + grid layout */}
@@ -740,6 +748,8 @@ export default function ProductListPage() {
 function ProductCard({ product, showPPI, showSinad = false }: { product: Product; showPPI: boolean; showSinad?: boolean }) {
   const { mode } = useExperienceMode();
   const isGlass = useGlassMode();
+  const { targetType } = useTargetType();
+  const ppiScore = getPpiStats(product, targetType).score;
 
   return (
     <Link
@@ -795,7 +805,7 @@ function ProductCard({ product, showPPI, showSinad = false }: { product: Product
       {/* Score + Price row */}
       <div className="mt-auto flex items-center justify-between pt-3">
         <div>
-          {showPPI && <PPIBadge score={product.ppi_score} size="sm" label={mode === 'beginner' ? 'Score' : (isSpinormaCategory(product.category_id) ? 'Spinorama' : undefined)} />}
+          {showPPI && <PPIBadge score={ppiScore} size="sm" label={mode === 'beginner' ? 'Score' : (isSpinormaCategory(product.category_id) ? 'Spinorama' : undefined)} target={hasTargetScores(product.category_id) ? targetType : undefined} />}
           {showSinad && product.sinad_db !== null && (
             <span className="inline-flex items-center gap-1.5">
               <PPIBadge score={sinadToScore(product.sinad_db)} size="sm" label={mode === 'beginner' ? 'Score' : 'SINAD'} />
@@ -808,7 +818,7 @@ function ProductCard({ product, showPPI, showSinad = false }: { product: Product
         <div className="flex items-center gap-2">
           <PriceDisplay price={product.price} affiliateUrl={product.affiliate_url} inStock={product.in_stock} discontinued={product.discontinued} />
           <BestValueBadge
-            score={showSinad && product.sinad_db !== null ? sinadToScore(product.sinad_db) : product.ppi_score}
+            score={showSinad && product.sinad_db !== null ? sinadToScore(product.sinad_db) : ppiScore}
             price={product.price}
           />
         </div>
@@ -1,12 +1,13 @@
 import { useState, useCallback } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import type { CategoryId, Product } from '../types';
+import type { BuildSelection, CategoryId, Product } from '../types';
 import { useBuild } from '../context/BuildContext';
 import { useToast } from '../context/ToastContext';
 import { useGlassMode } from '../context/GlassModeContext';
 import { supabase } from '../lib/supabase';
 import { getRecommendation, type QuizAnswers, type QuizResult } from '../lib/quizRecommender';
 import type { StarterBuild } from '../lib/starterBuilds';
+import { groupBuildItems } from '../lib/buildItems';
 
 /** ------------------------------------------------------------------ */
 /* Quiz Questions Definition                                           */
@@ -105,7 +106,7 @@ const TIER_COLORS: Record<string, { bg: string; text: string; border: string }>
 
 export default function QuizPage() {
   const navigate = useNavigate();
-  const { setProduct, setName, setDescription, clearBuild } = useBuild();
+  const { startBuildFrom } = useBuild();
   const { addToast } = useToast();
   const isGlass = useGlassMode();
 
@@ -178,18 +179,14 @@ export default function QuizPage() {
           productMap.set(p.id, p as Product);
         }
 
-        clearBuild();
-        await new Promise((resolve) => setTimeout(resolve, 50));
-
-        setName(build.name);
-        setDescription(build.description);
-
+        const selections: BuildSelection[] = [];
         for (const item of build.items) {
           const product = productMap.get(item.productId);
           if (product) {
-            setProduct(item.categoryId as CategoryId, product);
+            selections.push({ category_id: item.categoryId as CategoryId, product, quantity: 1 });
           }
         }
+        startBuildFrom({ items: groupBuildItems(selections), name: build.name, description: build.description });
 
         navigate('/');
       } catch (err) {
@@ -199,7 +196,7 @@ export default function QuizPage() {
         setLoading(false);
       }
     },
-    [setProduct, setName, setDescription, clearBuild, navigate]
+    [startBuildFrom, navigate]
   );
 
   return (
@@ -4,21 +4,38 @@ import type { BuildItem } from '../types';
 import { supabase } from '../lib/supabase';
 import { CATEGORY_MAP } from '../lib/categories';
 import { useGlassMode } from '../context/GlassModeContext';
+import { useTargetType } from '../context/TargetTypeContext';
+import { getPpiStats, hasTargetScores } from '../lib/productUtils';
+import { getSharedPriceChange } from '../lib/buildItems';
 import PPIBadge from '../components/shared/PPIBadge';
 import PriceDisplay from '../components/shared/PriceDisplay';
 import CloneBuildButton from '../components/shared/CloneBuildButton';
+import BuildComments from '../components/shared/BuildComments';
+import ReportBuildButton from '../components/shared/ReportBuildButton';
+import SharedPriceChange from '../components/shared/SharedPriceChange';
+import CheaperListings from '../components/shared/CheaperListings';
+import ForkedFrom, { type ForkParent } from '../components/shared/ForkedFrom';
+
+interface SharedBuildItem extends BuildItem {
+  /** Name of shared_retailer_id */
+  sharedRetailerName: string | null;
+}
 
 interface SharedBuild {
   id: string;
   share_code: string;
   name: string;
   description: string;
-  items: BuildItem[];
+  fork_count: number;
+  shared_total: number | null;
+  parent: ForkParent | null;
+  items: SharedBuildItem[];
 }
 
 export default function SharedBuildPage() {
   const { shareCode } = useParams<{ shareCode: string }>();
   const isGlass = useGlassMode();
+  const { targetType } = useTargetType();
   const [build, setBuild] = useState<SharedBuild | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -34,7 +51,7 @@ export default function SharedBuildPage() {
         // Fetch build by share_code
         const { data: buildData, error: buildError } = await supabase
           .from('builds')
-          .select('id, share_code, name, description')
+          .select('id, share_code, name, description, fork_count, shared_total, parent:builds!forked_from(share_code, name, is_public, is_flagged)')
           .eq('share_code', shareCode)
           .single();
 
@@ -47,21 +64,26 @@ export default function SharedBuildPage() {
         // Fetch build items with joined product data
         const { data: itemsData, error: itemsError } = await supabase
           .from('build_items')
-          .select('id, build_id, category_id, product_id, custom_price, quantity, products(*)')
+          .select('id, build_id, category_id, product_id, custom_price, quantity, position, shared_price, shared_retailer_id, shared_retailer:retailers!shared_retailer_id(name), products(*)')
           .eq('build_id', buildData.id)
-          .order('category_id');
+          .order('category_id')
+          .order('position');
 
         if (itemsError) {
           throw new Error(itemsError.message);
         }
 
-        const items: BuildItem[] = (itemsData ?? []).map((item) => ({
+        const items: SharedBuildItem[] = (itemsData ?? []).map((item) => ({
           id: item.id,
           build_id: item.build_id,
           category_id: item.category_id,
           product_id: item.product_id,
           custom_price: item.custom_price,
           quantity: item.quantity,
+          position: item.position,
+          shared_price: item.shared_price,
+          shared_retailer_id: item.shared_retailer_id,
+          sharedRetailerName: (item.shared_retailer as unknown as { name: string } | null)?.name ?? null,
           product: (item.products ?? undefined) as unknown as BuildItem['product'],
         }));
 
@@ -70,6 +92,9 @@ export default function SharedBuildPage() {
           share_code: buildData.share_code,
           name: buildData.name,
           description: buildData.description ?? '',
+          fork_count: buildData.fork_count ?? 0,
+          shared_total: buildData.shared_total,
+          parent: (buildData.parent ?? null) as unknown as ForkParent | null,
           items,
         });
       } catch (err) {
@@ -136,6 +161,12 @@ export default function SharedBuildPage() {
         <p className="mt-1 text-sm text-surface-500 dark:text-surface-400">
           Shared build &mdash; {build.items.length}{' '}
           {build.items.length === 1 ? 'component' : 'components'}
+          {build.parent && <>, <ForkedFrom parent={build.parent} /></>}
+          {build.fork_count > 0 && (
+            <>
+              {' '}&middot; forked {build.fork_count} {build.fork_count === 1 ? 'time' : 'times'}
+            </>
+          )}
         </p>
       </div>
 
@@ -153,7 +184,9 @@ export default function SharedBuildPage() {
             {build.items.map((item) => {
               const category = CATEGORY_MAP.get(item.category_id);
               const product = item.product;
-              const price = item.custom_price ?? product?.price ?? null;
+              const unitPrice = item.custom_price ?? product?.price ?? null;
+              const price = unitPrice !== null ? unitPrice * item.quantity : null;
+              const change = getSharedPriceChange(item);
 
               return (
                 <tr
@@ -176,9 +209,18 @@ export default function SharedBuildPage() {
                     ) : (
                       <span className="italic text-surface-400">Unknown product</span>
                     )}
+                    {item.quantity > 1 && (
+                      <span className="ml-1.5 text-xs text-surface-500 dark:text-surface-400">&times;{item.quantity}</span>
+                    )}
+                    {change && change.now > change.was && (
+                      <CheaperListings productId={item.product_id} sharedPrice={change.was} />
+                    )}
                   </td>
                   <td className="px-4 py-3 text-right">
                     <PriceDisplay price={price} affiliateUrl={product?.affiliate_url} />
+                    {change && (
+                      <SharedPriceChange was={change.was * item.quantity} now={change.now * item.quantity} retailerName={item.sharedRetailerName} />
+                    )}
                   </td>
                 </tr>
               );
@@ -195,6 +237,7 @@ export default function SharedBuildPage() {
                 <span className="text-lg font-bold text-surface-900 dark:text-surface-100">
                   ${totalPrice.toFixed(2)}
                 </span>
+                {build.shared_total !== null && <SharedPriceChange was={Number(build.shared_total)} now={totalPrice} />}
               </td>
             </tr>
           </tfoot>
@@ -205,7 +248,9 @@ export default function SharedBuildPage() {
           {build.items.map((item) => {
             const category = CATEGORY_MAP.get(item.category_id);
             const product = item.product;
-            const price = item.custom_price ?? product?.price ?? null;
+            const unitPrice = item.custom_price ?? product?.price ?? null;
+            const price = unitPrice !== null ? unitPrice * item.quantity : null;
+            const change = getSharedPriceChange(item);
 
             return (
               <div
@@ -226,15 +271,26 @@ export default function SharedBuildPage() {
                   ) : (
                     'Unknown product'
                   )}
+                  {item.quantity > 1 && (
+                    <span className="ml-1.5 text-xs font-normal text-surface-500 dark:text-surface-400">&times;{item.quantity}</span>
+                  )}
                 </div>
                 <div className="mt-2 flex items-center justify-between">
                   <div>
                     {category?.has_ppi && product && (
-                      <PPIBadge score={product.ppi_score} size="sm" />
+                      <PPIBadge score={getPpiStats(product, targetType).score} size="sm" target={hasTargetScores(product.category_id) ? targetType : undefined} />
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <PriceDisplay price={price} affiliateUrl={product?.affiliate_url} />
+                    {change && (
+                      <SharedPriceChange was={change.was * item.quantity} now={change.now * item.quantity} retailerName={item.sharedRetailerName} />
                     )}
                   </div>
-                  <PriceDisplay price={price} affiliateUrl={product?.affiliate_url} />
                 </div>
+                {change && change.now > change.was && (
+                  <CheaperListings productId={item.product_id} sharedPrice={change.was} />
+                )}
               </div>
             );
           })}
@@ -249,20 +305,28 @@ export default function SharedBuildPage() {
                 ${totalPrice.toFixed(2)}
               </span>
             </div>
+            {build.shared_total !== null && (
+              <div className="text-right">
+                <SharedPriceChange was={Number(build.shared_total)} now={totalPrice} />
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Clone + CTA */}
       <div className="flex flex-col items-center gap-3 sm:flex-row sm:justify-center">
-        <CloneBuildButton items={build.items} buildName={build.name} />
+        <CloneBuildButton items={build.items} source={{ id: build.id, shareCode: build.share_code, name: build.name }} />
         <Link
           to="/"
           className={isGlass ? 'glass-btn-secondary inline-block rounded-lg px-6 py-2.5 text-sm font-medium' : 'inline-block rounded-lg border border-surface-300 bg-white px-6 py-2.5 text-sm font-medium text-surface-700 transition-colors hover:bg-surface-100 dark:border-surface-600 dark:bg-surface-800 dark:text-surface-300 dark:hover:bg-surface-700'}
         >
           Create From Scratch
         </Link>
+        <ReportBuildButton buildId={build.id} />
       </div>
+
+      <BuildComments buildId={build.id} />
     </div>
   );
 }
@@ -4,6 +4,9 @@ export type CategoryId =
 
 export type TargetType = 'df' | 'harman';
 
+/** Shopper region chosen in the header; decides visible retailers and display currency */
+export type RegionId = 'us' | 'eu' | 'uk' | 'au';
+
 export interface Category {
   id: CategoryId;
   name: string;
@@ -27,6 +30,13 @@ export interface Product {
   ppi_stdev: number | null;
   ppi_slope: number | null;
   ppi_avg_error: number | null;
+  // Harman-target PPI (ppi_* above are Diffuse Field)
+  ppi_harman_score: number | null;
+  ppi_harman_stdev: number | null;
+  ppi_harman_slope: number | null;
+  ppi_harman_avg_error: number | null;
+  /** Every Squig-Rank target group keyed by target name */
+  ppi_targets: Record<string, PpiTargetScore> | null;
   source_domain: string | null;
   rig_type: string | null;
   pinna: string | null;
@@ -54,6 +64,10 @@ export interface Product {
   power_300ohm_mw: number | null;
   power_600ohm_mw: number | null;
   power_source: string | null;
+  // Electrical specs (IEM/Headphone) for amp power matching
+  impedance_ohms: number | null;
+  /** Sensitivity normalized to dB SPL / 1 mW */
+  sensitivity_db_mw: number | null;
   // Spinorama fields (speakers)
   pref_score: number | null;
   pref_score_wsub: number | null;
@@ -74,6 +88,32 @@ export interface Product {
   updated_at: string;
 }
 
+export interface PpiTargetScore {
+  score: number;
+  stdev: number;
+  slope: number;
+  avgError: number;
+}
+
+/** Measured frequency response, resampled to a 1/24-octave grid at sync time */
+export interface FrequencyResponse {
+  product_id: string;
+  measurement_id: string;
+  source_domain: string | null;
+  rig_type: string | null;
+  frequencies: number[];
+  spl: number[];
+  fetched_at: string;
+}
+
+/** Target curve, keyed by the Squig-Rank target group name used in ppi_targets */
+export interface FrTarget {
+  name: string;
+  category_id: CategoryId | null;
+  frequencies: number[];
+  spl: number[];
+}
+
 export interface ProductFamily {
   id: string;
   canonical_name: string;
@@ -94,9 +134,49 @@ export interface Build {
   author_name: string | null;
   tags: string[];
   client_hash: string | null;
+  /** Owning account (null for anonymous builds) */
+  user_id: string | null;
+  /** Private saved build in a user's account, as opposed to a share snapshot */
+  is_saved: boolean;
+  is_flagged: boolean;
+  flagged_at: string | null;
+  /** Sum of current product prices x quantity, kept up to date by triggers */
+  total_price: number;
+  item_count: number;
+  /** Distinct products and categories in the build, for "builds with ..." filters */
+  product_ids: string[];
+  category_ids: CategoryId[];
+  /** Shared build this one was cloned from */
+  forked_from: string | null;
+  /** Clients that shared a fork of this build */
+  fork_count: number;
+  comment_count: number;
+  /** Total when shared; null if any item has no price snapshot */
+  shared_total: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BuildComment {
+  id: string;
+  build_id: string;
+  /** Comment this replies to (null for top-level comments) */
+  parent_id: string | null;
+  /** 0 for top-level comments, at most 4 */
+  depth: number;
+  body: string;
+  author_name: string | null;
+  user_id: string | null;
+  client_hash: string | null;
   is_flagged: boolean;
   flagged_at: string | null;
   created_at: string;
+}
+
+export interface Profile {
+  id: string;
+  display_name: string | null;
+  created_at: string;
   updated_at: string;
 }
 
@@ -107,6 +187,12 @@ export interface BuildItem {
   product_id: string;
   custom_price: number | null;
   quantity: number;
+  /** Order within its category (a build can hold several products per category) */
+  position: number;
+  /** Unit price (USD) when the build was shared; null on saved builds */
+  shared_price: number | null;
+  /** Retailer selling at shared_price then */
+  shared_retailer_id: string | null;
   product?: Product;
 }
 
@@ -117,6 +203,9 @@ export interface BuildSelection {
   quantity: number;
 }
 
+/** Build contents: the products chosen in each category, in display order */
+export type BuildItems = Map<CategoryId, BuildSelection[]>;
+
 export type SortField = 'ppi_score' | 'price' | 'name' | 'sinad_db';
 export type SortDirection = 'asc' | 'desc';
 
@@ -156,16 +245,37 @@ export interface Retailer {
   ships_from: string | null;
   return_policy: string | null;
   authorized_dealer: boolean;
+  /** Home region ('us' | 'eu' | 'uk' | 'au' | 'cn'); only present when selected */
+  region?: string;
+  /** Regions the store ships to, 'global' meaning everywhere */
+  ships_to?: string[];
+  /** Currency the store's catalog is priced in */
+  currency?: string;
+  /** Standard shipping per order in the store's currency (null = not known); only present when selected */
+  shipping_cost?: number | null;
+  /** Subtotal from which shipping is free (null = no threshold) */
+  free_shipping_min?: number | null;
 }
 
 export interface PriceListing {
   id: string;
   product_id: string;
   retailer_id: string;
+  /** Retailer's id for the listing; '<handle>::<variant id>' for Shopify variants */
+  external_id: string;
   price: number;
   compare_at_price: number | null;
   on_sale: boolean;
+  /** Currency of price/compare_at_price (the retailer's catalog currency) */
   currency: string;
+  /** price converted with exchange_rates; null when the currency has no rate */
+  price_usd: number | null;
+  /** Shopify variant id when the retailer sells this product in several variants */
+  variant_id: string | null;
+  /** e.g. "4.4mm / Black" */
+  variant_title: string | null;
+  /** Option name -> value, e.g. { Termination: "4.4mm" } */
+  variant_options: Record<string, string> | null;
   in_stock: boolean;
   product_url: string | null;
   affiliate_url: string | null;
@@ -0,0 +1,14 @@
+-- 013_ppi_targets.sql
+-- Per-target PPI scores. ppi_* keeps the Diffuse Field score; the Harman
+-- columns back the DF/Harman toggle (sorting + filtering), and ppi_targets
+-- holds every Squig-Rank target group keyed by target name:
+--   { "<targetName>": { "score": 0, "stdev": 0, "slope": 0, "avgError": 0 } }
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS ppi_harman_score NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS ppi_harman_stdev NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS ppi_harman_slope NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS ppi_harman_avg_error NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS ppi_targets JSONB DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_products_ppi_harman
+  ON products(ppi_harman_score DESC NULLS LAST);
@@ -0,0 +1,167 @@
+-- 014_price_watches.sql
+--
+-- Server-side price watches and a notification outbox.
+-- Watches are owned by the browser's client_hash (same identity as builds).
+-- The anon client only reaches them through the SECURITY DEFINER RPCs below.
+-- These trust the caller's client_hash, which builds make public; 034 keys
+-- them on a private browser key instead.
+-- scripts/check-price-watches.ts (run after snapshot-prices.ts) compares new
+-- price_history rows against watch targets and queues notifications.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) price_watches
+-- ============================================================
+CREATE TABLE IF NOT EXISTS price_watches (
+  id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_hash          TEXT NOT NULL,
+  product_id           UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  target_price         NUMERIC NOT NULL,
+  email                TEXT,
+  webhook_url          TEXT,
+  last_price           NUMERIC,            -- lowest in-stock price at the last check
+  last_checked_at      TIMESTAMPTZ,
+  triggered_at         TIMESTAMPTZ,        -- set when last_price first reaches target_price
+  last_notified_price  NUMERIC,            -- price in the most recent notification
+  created_at           TIMESTAMPTZ DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(client_hash, product_id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_price_watches_target') THEN
+    ALTER TABLE price_watches ADD CONSTRAINT chk_price_watches_target
+      CHECK (target_price > 0);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_price_watches_email_length') THEN
+    ALTER TABLE price_watches ADD CONSTRAINT chk_price_watches_email_length
+      CHECK (email IS NULL OR char_length(email) <= 254);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_price_watches_webhook') THEN
+    ALTER TABLE price_watches ADD CONSTRAINT chk_price_watches_webhook
+      CHECK (webhook_url IS NULL OR (char_length(webhook_url) <= 500 AND webhook_url LIKE 'https://%'));
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_price_watches_client ON price_watches(client_hash);
+CREATE INDEX IF NOT EXISTS idx_price_watches_product ON price_watches(product_id);
+
+-- RLS on, no policies: only the service key and the RPCs below can touch it
+ALTER TABLE price_watches ENABLE ROW LEVEL SECURITY;
+
+-- Limit watches per client_hash (max 50)
+CREATE OR REPLACE FUNCTION check_price_watch_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  watch_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO watch_count
+  FROM price_watches
+  WHERE client_hash = NEW.client_hash;
+
+  IF watch_count >= 50 THEN
+    RAISE EXCEPTION 'Watch limit exceeded: maximum 50 price watches.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_price_watch_limit ON price_watches;
+CREATE TRIGGER trg_price_watch_limit
+  BEFORE INSERT ON price_watches
+  FOR EACH ROW
+  EXECUTE FUNCTION check_price_watch_limit();
+
+-- ============================================================
+-- B) notification_outbox
+-- ============================================================
+-- Rendered email/webhook payloads waiting for a sender. Delivery is out of
+-- scope for the checker; a mailer/webhook worker marks rows sent.
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  watch_id      UUID REFERENCES price_watches(id) ON DELETE SET NULL,
+  kind          TEXT NOT NULL,             -- 'price_drop'
+  channel       TEXT NOT NULL,             -- 'email' | 'webhook'
+  recipient     TEXT NOT NULL,             -- email address or webhook URL
+  payload       JSONB NOT NULL,
+  status        TEXT DEFAULT 'pending',    -- pending | sent | failed
+  attempts      INTEGER DEFAULT 0,
+  created_at    TIMESTAMPTZ DEFAULT NOW(),
+  sent_at       TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_pending
+  ON notification_outbox(created_at)
+  WHERE status = 'pending';
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+-- notification_outbox: no public access (service key only)
+
+-- ============================================================
+-- C) RPC functions (SECURITY DEFINER, scoped to the caller's client_hash)
+-- ============================================================
+CREATE OR REPLACE FUNCTION get_price_watches(p_client_hash TEXT)
+RETURNS TABLE (
+  product_id    UUID,
+  product_name  TEXT,
+  target_price  NUMERIC,
+  email         TEXT,
+  webhook_url   TEXT,
+  last_price    NUMERIC,
+  triggered_at  TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT w.product_id, p.name, w.target_price, w.email, w.webhook_url,
+         w.last_price, w.triggered_at, w.created_at
+  FROM price_watches w
+  JOIN products p ON p.id = w.product_id
+  WHERE w.client_hash = p_client_hash
+  ORDER BY w.created_at;
+$$;
+
+-- Creating or re-targeting a watch clears its trigger state.
+-- last_price is seeded from products.price so the banner works before the next check.
+CREATE OR REPLACE FUNCTION upsert_price_watch(
+  p_client_hash   TEXT,
+  p_product_id    UUID,
+  p_target_price  NUMERIC,
+  p_email         TEXT DEFAULT NULL,
+  p_webhook_url   TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  INSERT INTO price_watches (client_hash, product_id, target_price, email, webhook_url, last_price)
+  SELECT p_client_hash, p_product_id, p_target_price,
+         NULLIF(TRIM(p_email), ''), NULLIF(TRIM(p_webhook_url), ''), p.price
+  FROM products p
+  WHERE p.id = p_product_id
+  ON CONFLICT (client_hash, product_id) DO UPDATE
+  SET target_price = EXCLUDED.target_price,
+      email = EXCLUDED.email,
+      webhook_url = EXCLUDED.webhook_url,
+      triggered_at = NULL,
+      last_notified_price = NULL,
+      updated_at = NOW();
+$$;
+
+CREATE OR REPLACE FUNCTION delete_price_watch(p_client_hash TEXT, p_product_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  DELETE FROM price_watches
+  WHERE client_hash = p_client_hash AND product_id = p_product_id;
+$$;
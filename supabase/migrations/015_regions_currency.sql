@@ -0,0 +1,101 @@
+-- 015_regions_currency.sql
+--
+-- Region-aware retailers and native-currency listings.
+--   retailers.region    home region of the store ('us' | 'eu' | 'uk' | 'au' | 'cn')
+--   retailers.ships_to  regions the store ships to; 'global' means everywhere
+--   retailers.currency  currency the store's catalog is priced in
+--   price_listings.price stays in the listing's native currency; price_usd is
+--   the same price converted with exchange_rates so listings can be compared.
+-- exchange_rates is refreshed from scripts/config/exchange-rates.json by
+-- scripts/sync-exchange-rates.ts (also run at the start of sync-prices.ts).
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Retailer region + currency
+-- ============================================================
+ALTER TABLE retailers ADD COLUMN IF NOT EXISTS region TEXT NOT NULL DEFAULT 'us';
+ALTER TABLE retailers ADD COLUMN IF NOT EXISTS ships_to TEXT[] NOT NULL DEFAULT ARRAY['us'];
+ALTER TABLE retailers ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+-- Chinese stores ship worldwide (per-retailer regions live in seed-retailer-trust.ts)
+UPDATE retailers SET region = 'cn', ships_to = ARRAY['global']
+WHERE id IN ('aliexpress', 'linsoul', 'hifigo', 'shenzhenaudio');
+
+CREATE INDEX IF NOT EXISTS idx_retailers_region ON retailers(region);
+
+-- ============================================================
+-- B) exchange_rates
+-- ============================================================
+-- rate = units of `currency` per 1 USD (USD itself is 1)
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency    TEXT PRIMARY KEY,
+  rate        NUMERIC NOT NULL CHECK (rate > 0),
+  as_of       DATE,
+  updated_at  TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO exchange_rates (currency, rate) VALUES ('USD', 1)
+ON CONFLICT (currency) DO NOTHING;
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'exchange_rates_select' AND tablename = 'exchange_rates') THEN
+    CREATE POLICY "exchange_rates_select" ON exchange_rates FOR SELECT USING (true);
+  END IF;
+END$$;
+
+-- ============================================================
+-- C) price_listings.price_usd
+-- ============================================================
+ALTER TABLE price_listings ADD COLUMN IF NOT EXISTS price_usd NUMERIC;
+
+CREATE OR REPLACE FUNCTION set_price_listing_usd()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(NEW.currency, 'USD') = 'USD' THEN
+    NEW.price_usd := NEW.price;
+  ELSE
+    -- NULL when the currency has no rate yet; price comparisons skip it
+    SELECT ROUND(NEW.price / er.rate, 2) INTO NEW.price_usd
+    FROM exchange_rates er
+    WHERE er.currency = NEW.currency;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_price_listing_usd ON price_listings;
+CREATE TRIGGER trg_price_listing_usd
+  BEFORE INSERT OR UPDATE OF price, currency ON price_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_price_listing_usd();
+
+-- Re-convert non-USD listings after exchange_rates changes
+CREATE OR REPLACE FUNCTION refresh_price_listings_usd()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  UPDATE price_listings pl
+  SET price_usd = ROUND(pl.price / er.rate, 2)
+  FROM exchange_rates er
+  WHERE er.currency = pl.currency
+    AND pl.currency <> 'USD';
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+-- Backfill
+UPDATE price_listings SET price_usd = price WHERE currency = 'USD' OR currency IS NULL;
+SELECT refresh_price_listings_usd();
+
+CREATE INDEX IF NOT EXISTS idx_price_listings_price_usd
+  ON price_listings(product_id, price_usd)
+  WHERE in_stock = true;
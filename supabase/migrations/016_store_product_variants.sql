@@ -0,0 +1,35 @@
+-- 016_store_product_variants.sql
+--
+-- Variant-level Shopify listings. A Shopify product with more than one
+-- variant (termination, mic/no-mic, color, ...) is stored as one
+-- store_products row per variant instead of collapsing to its cheapest price:
+--   external_id      '<handle>::<variant id>' for variant rows, '<handle>' otherwise
+--   product_handle   Shopify handle shared by all variants of a product
+--   variant_id       Shopify variant id (NULL for single-variant products)
+--   variant_title    e.g. '4.4mm / Black'
+--   variant_options  option name -> value, e.g. {"Termination": "4.4mm", "Color": "Black"}
+--   variant_type     parseProductVariant() type for the variant title (cable, tips, ...)
+-- price_listings carries the same variant fields so WhereToBuy can offer a
+-- per-retailer variant picker.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) store_products
+-- ============================================================
+ALTER TABLE store_products ADD COLUMN IF NOT EXISTS product_handle TEXT;
+ALTER TABLE store_products ADD COLUMN IF NOT EXISTS variant_id TEXT;
+ALTER TABLE store_products ADD COLUMN IF NOT EXISTS variant_title TEXT;
+ALTER TABLE store_products ADD COLUMN IF NOT EXISTS variant_options JSONB;
+ALTER TABLE store_products ADD COLUMN IF NOT EXISTS variant_type TEXT;
+
+-- Existing rows are single-listing products keyed by handle
+UPDATE store_products SET product_handle = external_id WHERE product_handle IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sp_retailer_handle ON store_products(retailer_id, product_handle);
+
+-- ============================================================
+-- B) price_listings
+-- ============================================================
+ALTER TABLE price_listings ADD COLUMN IF NOT EXISTS variant_id TEXT;
+ALTER TABLE price_listings ADD COLUMN IF NOT EXISTS variant_title TEXT;
+ALTER TABLE price_listings ADD COLUMN IF NOT EXISTS variant_options JSONB;
@@ -0,0 +1,23 @@
+-- 017_transducer_power_specs.sql
+-- Electrical specs for IEMs and headphones, used by the builder to check
+-- whether the selected amp can drive the selected transducer.
+--   impedance_ohms     nominal impedance
+--   sensitivity_db_mw  sensitivity normalized to dB SPL / 1 mW
+--                      (dB/V specs are converted with the impedance at ingest)
+-- Filled from store tags and scripts/lib/transducer-known-specs.ts by
+-- scripts/backfill-transducer-specs.ts.
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS impedance_ohms NUMERIC;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS sensitivity_db_mw NUMERIC;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'products_impedance_ohms_check') THEN
+    ALTER TABLE products ADD CONSTRAINT products_impedance_ohms_check
+      CHECK (impedance_ohms IS NULL OR (impedance_ohms > 0 AND impedance_ohms <= 1000));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'products_sensitivity_db_mw_check') THEN
+    ALTER TABLE products ADD CONSTRAINT products_sensitivity_db_mw_check
+      CHECK (sensitivity_db_mw IS NULL OR (sensitivity_db_mw BETWEEN 60 AND 140));
+  END IF;
+END $$;
@@ -0,0 +1,68 @@
+-- 018_frequency_responses.sql
+--
+-- Raw frequency-response curves for measured IEMs/headphones and the target
+-- curves they are scored against, so product pages can plot the graph
+-- instead of sending users to squig.link.
+-- Filled by scripts/link-measurements.ts at sync time. Curves are resampled
+-- to a 1/24-octave grid (20 Hz - 20 kHz) and stored as parallel arrays.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) frequency_responses (one curve per product)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS frequency_responses (
+  product_id      UUID PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+  measurement_id  TEXT NOT NULL,           -- Squig-Rank id ("<domain>::<measurement name>")
+  source_domain   TEXT,
+  rig_type        TEXT,
+  frequencies     REAL[] NOT NULL,         -- Hz, ascending
+  spl             REAL[] NOT NULL,         -- dB, same length as frequencies
+  fetched_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_frequency_responses_length') THEN
+    ALTER TABLE frequency_responses ADD CONSTRAINT chk_frequency_responses_length
+      CHECK (cardinality(frequencies) = cardinality(spl) AND cardinality(frequencies) > 0);
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_frequency_responses_measurement ON frequency_responses(measurement_id);
+
+ALTER TABLE frequency_responses ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'frequency_responses_select' AND tablename = 'frequency_responses') THEN
+    CREATE POLICY "frequency_responses_select" ON frequency_responses FOR SELECT USING (true);
+  END IF;
+END$$;
+
+-- ============================================================
+-- B) fr_targets (keyed by Squig-Rank target group name, as in products.ppi_targets)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS fr_targets (
+  name          TEXT PRIMARY KEY,
+  category_id   TEXT REFERENCES categories(id),
+  frequencies   REAL[] NOT NULL,
+  spl           REAL[] NOT NULL,
+  updated_at    TIMESTAMPTZ DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_fr_targets_length') THEN
+    ALTER TABLE fr_targets ADD CONSTRAINT chk_fr_targets_length
+      CHECK (cardinality(frequencies) = cardinality(spl) AND cardinality(frequencies) > 0);
+  END IF;
+END$$;
+
+ALTER TABLE fr_targets ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'fr_targets_select' AND tablename = 'fr_targets') THEN
+    CREATE POLICY "fr_targets_select" ON fr_targets FOR SELECT USING (true);
+  END IF;
+END$$;
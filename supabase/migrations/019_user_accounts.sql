@@ -0,0 +1,314 @@
+-- 019_user_accounts.sql
+--
+-- Supabase Auth accounts (email magic link) on top of the anonymous
+-- client_hash identity:
+--   - profiles: one row per auth user, created by a trigger on auth.users
+--   - builds.user_id / is_saved: named saved builds owned by a user
+--     (private, mutable) next to the existing share snapshots
+--   - build_votes.user_id and price_watches.user_id with owner RLS
+--   - claim_anonymous_data(): moves a browser's anonymous builds, votes and
+--     watches onto the signed-in account (run once on first login)
+--
+-- Signed-in users keep working with the existing hash-keyed constraints and
+-- rate-limit triggers through the synthetic hash 'user:<auth uid>', used as
+-- voter_hash for votes and as client_hash for watches.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) profiles
+-- ============================================================
+CREATE TABLE IF NOT EXISTS profiles (
+  id            UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name  TEXT,
+  created_at    TIMESTAMPTZ DEFAULT NOW(),
+  updated_at    TIMESTAMPTZ DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_profiles_display_name_length') THEN
+    ALTER TABLE profiles ADD CONSTRAINT chk_profiles_display_name_length
+      CHECK (display_name IS NULL OR char_length(display_name) <= 50);
+  END IF;
+END$$;
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'profiles_select_own' AND tablename = 'profiles') THEN
+    CREATE POLICY "profiles_select_own" ON profiles FOR SELECT USING (id = auth.uid());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'profiles_update_own' AND tablename = 'profiles') THEN
+    CREATE POLICY "profiles_update_own" ON profiles FOR UPDATE USING (id = auth.uid()) WITH CHECK (id = auth.uid());
+  END IF;
+END$$;
+
+-- New auth user -> profile row (display name defaults to the email's local part)
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, display_name)
+  VALUES (NEW.id, LEFT(SPLIT_PART(COALESCE(NEW.email, ''), '@', 1), 50))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_auth_user_created ON auth.users;
+CREATE TRIGGER trg_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- ============================================================
+-- B) builds: ownership and saved builds
+-- ============================================================
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS is_saved BOOLEAN DEFAULT FALSE;
+
+DO $$
+BEGIN
+  -- Saved builds are private working copies; publishing creates a snapshot
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_builds_saved_owner') THEN
+    ALTER TABLE builds ADD CONSTRAINT chk_builds_saved_owner
+      CHECK (NOT is_saved OR (user_id IS NOT NULL AND NOT is_public));
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_builds_user ON builds(user_id, updated_at DESC) WHERE user_id IS NOT NULL;
+
+-- Share snapshots stay readable by link; saved builds only by their owner
+DROP POLICY IF EXISTS "builds_select" ON builds;
+CREATE POLICY "builds_select" ON builds FOR SELECT
+  USING (NOT is_saved OR user_id = auth.uid());
+
+DROP POLICY IF EXISTS "builds_insert" ON builds;
+CREATE POLICY "builds_insert" ON builds FOR INSERT
+  WITH CHECK ((user_id IS NULL AND NOT is_saved) OR user_id = auth.uid());
+
+DROP POLICY IF EXISTS "builds_update_own" ON builds;
+CREATE POLICY "builds_update_own" ON builds FOR UPDATE
+  USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "builds_delete_own" ON builds;
+CREATE POLICY "builds_delete_own" ON builds FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Limit saved builds per user (max 50)
+CREATE OR REPLACE FUNCTION check_saved_build_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  saved_count INTEGER;
+BEGIN
+  IF NOT NEW.is_saved THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO saved_count
+  FROM builds
+  WHERE user_id = NEW.user_id AND is_saved;
+
+  IF saved_count >= 50 THEN
+    RAISE EXCEPTION 'Saved build limit exceeded: maximum 50 saved builds.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_saved_build_limit ON builds;
+CREATE TRIGGER trg_saved_build_limit
+  BEFORE INSERT ON builds
+  FOR EACH ROW
+  EXECUTE FUNCTION check_saved_build_limit();
+
+-- ============================================================
+-- C) build_items follow their build
+-- ============================================================
+DROP POLICY IF EXISTS "build_items_select" ON build_items;
+CREATE POLICY "build_items_select" ON build_items FOR SELECT
+  USING (EXISTS (SELECT 1 FROM builds b WHERE b.id = build_id));
+
+DROP POLICY IF EXISTS "build_items_insert" ON build_items;
+CREATE POLICY "build_items_insert" ON build_items FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM builds b
+    WHERE b.id = build_id AND (b.user_id IS NULL OR b.user_id = auth.uid())
+  ));
+
+DROP POLICY IF EXISTS "build_items_update_own" ON build_items;
+CREATE POLICY "build_items_update_own" ON build_items FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM builds b WHERE b.id = build_id AND b.user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "build_items_delete_own" ON build_items;
+CREATE POLICY "build_items_delete_own" ON build_items FOR DELETE
+  USING (EXISTS (SELECT 1 FROM builds b WHERE b.id = build_id AND b.user_id = auth.uid()));
+
+-- ============================================================
+-- D) build_votes: account votes use voter_hash 'user:<uid>'
+-- ============================================================
+ALTER TABLE build_votes ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_build_votes_user ON build_votes(user_id) WHERE user_id IS NOT NULL;
+
+DROP POLICY IF EXISTS "build_votes_insert" ON build_votes;
+CREATE POLICY "build_votes_insert" ON build_votes FOR INSERT
+  WITH CHECK (
+    (user_id IS NULL AND voter_hash NOT LIKE 'user:%')
+    OR (user_id = auth.uid() AND voter_hash = 'user:' || auth.uid()::text)
+  );
+
+DROP POLICY IF EXISTS "build_votes_delete" ON build_votes;
+CREATE POLICY "build_votes_delete" ON build_votes FOR DELETE
+  USING (user_id IS NULL OR user_id = auth.uid());
+
+-- ============================================================
+-- E) price_watches: account watches use client_hash 'user:<uid>'
+-- ============================================================
+ALTER TABLE price_watches ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_price_watches_user ON price_watches(user_id) WHERE user_id IS NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'price_watches_select_own' AND tablename = 'price_watches') THEN
+    CREATE POLICY "price_watches_select_own" ON price_watches FOR SELECT USING (user_id = auth.uid());
+  END IF;
+END$$;
+
+-- Signed-in callers act as their account; anonymous callers as their client_hash
+CREATE OR REPLACE FUNCTION watch_owner_hash(p_client_hash TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE('user:' || auth.uid()::text, p_client_hash);
+$$;
+
+CREATE OR REPLACE FUNCTION get_price_watches(p_client_hash TEXT)
+RETURNS TABLE (
+  product_id    UUID,
+  product_name  TEXT,
+  target_price  NUMERIC,
+  email         TEXT,
+  webhook_url   TEXT,
+  last_price    NUMERIC,
+  triggered_at  TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT w.product_id, p.name, w.target_price, w.email, w.webhook_url,
+         w.last_price, w.triggered_at, w.created_at
+  FROM price_watches w
+  JOIN products p ON p.id = w.product_id
+  WHERE w.client_hash = watch_owner_hash(p_client_hash)
+  ORDER BY w.created_at;
+$$;
+
+CREATE OR REPLACE FUNCTION upsert_price_watch(
+  p_client_hash   TEXT,
+  p_product_id    UUID,
+  p_target_price  NUMERIC,
+  p_email         TEXT DEFAULT NULL,
+  p_webhook_url   TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  INSERT INTO price_watches (client_hash, user_id, product_id, target_price, email, webhook_url, last_price)
+  SELECT watch_owner_hash(p_client_hash), auth.uid(), p_product_id, p_target_price,
+         NULLIF(TRIM(p_email), ''), NULLIF(TRIM(p_webhook_url), ''), p.price
+  FROM products p
+  WHERE p.id = p_product_id
+  ON CONFLICT (client_hash, product_id) DO UPDATE
+  SET target_price = EXCLUDED.target_price,
+      email = EXCLUDED.email,
+      webhook_url = EXCLUDED.webhook_url,
+      triggered_at = NULL,
+      last_notified_price = NULL,
+      updated_at = NOW();
+$$;
+
+CREATE OR REPLACE FUNCTION delete_price_watch(p_client_hash TEXT, p_product_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  DELETE FROM price_watches
+  WHERE client_hash = watch_owner_hash(p_client_hash) AND product_id = p_product_id;
+$$;
+
+-- ============================================================
+-- F) claim_anonymous_data: first-login migration
+-- ============================================================
+-- Attaches the browser's anonymous builds, votes and watches to the caller's
+-- account. Where the account already voted on / watches the same thing, the
+-- account's row wins and the anonymous duplicate is dropped.
+CREATE OR REPLACE FUNCTION claim_anonymous_data(p_client_hash TEXT, p_voter_hash TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uid          UUID := auth.uid();
+  owner_hash   TEXT;
+  builds_count INTEGER := 0;
+  votes_count  INTEGER := 0;
+  watch_count  INTEGER := 0;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '28000';
+  END IF;
+  owner_hash := 'user:' || uid::text;
+
+  IF p_client_hash IS NOT NULL AND p_client_hash NOT LIKE 'user:%' THEN
+    UPDATE builds SET user_id = uid, updated_at = NOW()
+    WHERE client_hash = p_client_hash AND user_id IS NULL;
+    GET DIAGNOSTICS builds_count = ROW_COUNT;
+
+    DELETE FROM price_watches anon
+    USING price_watches mine
+    WHERE anon.client_hash = p_client_hash
+      AND mine.client_hash = owner_hash
+      AND mine.product_id = anon.product_id;
+
+    UPDATE price_watches SET client_hash = owner_hash, user_id = uid, updated_at = NOW()
+    WHERE client_hash = p_client_hash;
+    GET DIAGNOSTICS watch_count = ROW_COUNT;
+  END IF;
+
+  IF p_voter_hash IS NOT NULL AND p_voter_hash NOT LIKE 'user:%' THEN
+    -- Duplicate votes were counted twice; undo one count per dropped vote
+    WITH dropped AS (
+      DELETE FROM build_votes anon
+      USING build_votes mine
+      WHERE anon.voter_hash = p_voter_hash
+        AND mine.voter_hash = owner_hash
+        AND mine.build_id = anon.build_id
+      RETURNING anon.build_id
+    )
+    UPDATE builds b SET upvotes = GREATEST(b.upvotes - 1, 0)
+    FROM dropped d
+    WHERE b.id = d.build_id;
+
+    UPDATE build_votes SET voter_hash = owner_hash, user_id = uid
+    WHERE voter_hash = p_voter_hash;
+    GET DIAGNOSTICS votes_count = ROW_COUNT;
+  END IF;
+
+  RETURN json_build_object('builds', builds_count, 'votes', votes_count, 'watches', watch_count);
+END;
+$$;
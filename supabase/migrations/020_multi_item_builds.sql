@@ -0,0 +1,60 @@
+-- 020_multi_item_builds.sql
+--
+-- Builds can hold several products per category (two IEMs, a desk DAC and a
+-- travel DAC, ...):
+--   - build_items.position orders the products within a category
+--   - check_build_items_limit() now allows 40 rows per build and 8 per
+--     category (was 12 per build, when a build had one product per category)
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Order within a category
+-- ============================================================
+ALTER TABLE build_items ADD COLUMN IF NOT EXISTS position SMALLINT NOT NULL DEFAULT 0;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_build_items_position') THEN
+    ALTER TABLE build_items ADD CONSTRAINT chk_build_items_position
+      CHECK (position >= 0 AND position < 8);
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_build_items_build_category
+  ON build_items(build_id, category_id, position);
+
+-- ============================================================
+-- B) Item limits (replaces F2 from 006_community_spam_prevention.sql)
+-- ============================================================
+CREATE OR REPLACE FUNCTION check_build_items_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  item_count INTEGER;
+  category_count INTEGER;
+BEGIN
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE category_id = NEW.category_id)
+  INTO item_count, category_count
+  FROM build_items
+  WHERE build_id = NEW.build_id;
+
+  IF item_count >= 40 THEN
+    RAISE EXCEPTION 'Build item limit exceeded: maximum 40 items per build.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF category_count >= 8 THEN
+    RAISE EXCEPTION 'Build item limit exceeded: maximum 8 products per category.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_build_items_limit ON build_items;
+CREATE TRIGGER trg_build_items_limit
+  BEFORE INSERT ON build_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_build_items_limit();
@@ -0,0 +1,36 @@
+-- 021_pipeline_runs.sql
+--
+-- Run history for scripts/pipeline.ts (npm run sync:all). One row per run;
+-- `steps` holds each step's outcome and the stats object its script
+-- reported, e.g.
+--   [{"name": "sync-prices", "status": "succeeded", "attempts": 1,
+--     "duration_ms": 81234, "exit_code": 0, "stats": {...}}, ...]
+-- A `--retry` run points back at the run it resumes via retry_of.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) pipeline_runs
+-- ============================================================
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status       TEXT NOT NULL DEFAULT 'running',
+  args         TEXT[] NOT NULL DEFAULT '{}',   -- CLI flags the run was started with
+  steps        JSONB NOT NULL DEFAULT '[]',
+  retry_of     UUID REFERENCES pipeline_runs(id) ON DELETE SET NULL,
+  started_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at  TIMESTAMPTZ
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_pipeline_runs_status') THEN
+    ALTER TABLE pipeline_runs ADD CONSTRAINT chk_pipeline_runs_status
+      CHECK (status IN ('running', 'succeeded', 'failed', 'partial'));
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_started ON pipeline_runs(started_at DESC);
+
+-- RLS on, no policies: written by the pipeline and read by the admin
+-- server, both with the service key
+ALTER TABLE pipeline_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,148 @@
+-- 022_product_price_rollup.sql
+--
+-- products.price / affiliate_url / in_stock are maintained by the database
+-- from price_listings, replacing the per-script denormalize passes.
+--
+-- The rule, per product:
+--   - A listing is AVAILABLE when it is in stock, has a positive price_usd,
+--     its retailer is active, and it was checked within the last 14 days
+--     (price syncs run daily; a listing no sync has touched for two weeks
+--     is no longer trusted to be in stock).
+--   - With at least one available listing: price is the lowest available
+--     price_usd, affiliate_url is that listing's affiliate_url (falling back
+--     to product_url), in_stock = true.
+--   - With listings but none available: in_stock = false and price /
+--     affiliate_url come from the cheapest priced listing, so the site shows
+--     a real (struck-through) last-known price rather than an unrelated one.
+--   - With no priced listing at all: in_stock = false, affiliate_url = NULL,
+--     price keeps the catalog value written by sync-to-supabase.ts.
+--   - Coupons are never applied. products.price is the sticker price; coupon
+--     codes depend on the cart (minimum spend, expiry) and are shown beside
+--     it from retailer_coupons.
+--   - image_url is only filled in when the product has none.
+--
+-- Triggers keep this current as listings change. Staleness is time-based, so
+-- refresh_product_prices() is also swept once per sync run.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Roll-up function
+-- ============================================================
+CREATE OR REPLACE FUNCTION refresh_product_prices(p_product_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  WITH best AS (
+    SELECT DISTINCT ON (pl.product_id)
+      pl.product_id,
+      pl.price_usd,
+      COALESCE(pl.affiliate_url, pl.product_url) AS affiliate_url,
+      pl.image_url,
+      (COALESCE(pl.in_stock, FALSE)
+        AND COALESCE(r.is_active, FALSE)
+        AND pl.last_checked >= NOW() - INTERVAL '14 days') AS available
+    FROM price_listings pl
+    JOIN retailers r ON r.id = pl.retailer_id
+    WHERE pl.price_usd > 0
+      AND (p_product_ids IS NULL OR pl.product_id = ANY(p_product_ids))
+    ORDER BY pl.product_id, available DESC, pl.price_usd ASC
+  ),
+  target AS (
+    SELECT
+      p.id,
+      CASE WHEN b.product_id IS NULL THEN p.price ELSE b.price_usd END AS price,
+      b.affiliate_url,
+      COALESCE(p.image_url, b.image_url) AS image_url,
+      COALESCE(b.available, FALSE) AS in_stock
+    FROM products p
+    LEFT JOIN best b ON b.product_id = p.id
+    WHERE p_product_ids IS NULL OR p.id = ANY(p_product_ids)
+  )
+  UPDATE products p
+  SET price = t.price,
+      affiliate_url = t.affiliate_url,
+      image_url = t.image_url,
+      in_stock = t.in_stock
+  FROM target t
+  WHERE p.id = t.id
+    AND (p.price IS DISTINCT FROM t.price
+      OR p.affiliate_url IS DISTINCT FROM t.affiliate_url
+      OR p.image_url IS DISTINCT FROM t.image_url
+      OR p.in_stock IS DISTINCT FROM t.in_stock);
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+-- ============================================================
+-- B) price_listings triggers (statement-level: one roll-up per batch upsert)
+-- ============================================================
+CREATE OR REPLACE FUNCTION price_listings_refresh_products()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_product_prices(ARRAY(SELECT DISTINCT product_id FROM new_rows));
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM refresh_product_prices(ARRAY(
+      SELECT product_id FROM new_rows UNION SELECT product_id FROM old_rows
+    ));
+  ELSE
+    PERFORM refresh_product_prices(ARRAY(SELECT DISTINCT product_id FROM old_rows));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_price_listings_refresh_insert ON price_listings;
+CREATE TRIGGER trg_price_listings_refresh_insert
+  AFTER INSERT ON price_listings
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION price_listings_refresh_products();
+
+DROP TRIGGER IF EXISTS trg_price_listings_refresh_update ON price_listings;
+CREATE TRIGGER trg_price_listings_refresh_update
+  AFTER UPDATE ON price_listings
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION price_listings_refresh_products();
+
+DROP TRIGGER IF EXISTS trg_price_listings_refresh_delete ON price_listings;
+CREATE TRIGGER trg_price_listings_refresh_delete
+  AFTER DELETE ON price_listings
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION price_listings_refresh_products();
+
+-- ============================================================
+-- C) Retailer activation changes which listings count
+-- ============================================================
+CREATE OR REPLACE FUNCTION retailers_refresh_products()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_product_prices(ARRAY(
+    SELECT DISTINCT product_id FROM price_listings WHERE retailer_id = NEW.id
+  ));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_retailers_refresh_products ON retailers;
+CREATE TRIGGER trg_retailers_refresh_products
+  AFTER UPDATE OF is_active ON retailers
+  FOR EACH ROW
+  WHEN (OLD.is_active IS DISTINCT FROM NEW.is_active)
+  EXECUTE FUNCTION retailers_refresh_products();
+
+-- ============================================================
+-- D) Backfill
+-- ============================================================
+SELECT refresh_product_prices();
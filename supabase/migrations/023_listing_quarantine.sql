@@ -0,0 +1,117 @@
+-- 023_listing_quarantine.sql
+--
+-- Price anomaly quarantine. Before the sync scripts upsert price_listings
+-- they compare each new price against the product's recent price_history
+-- and the other retailers' current listings (scripts/lib/price-guard.ts).
+-- Outliers are parked here with the full listing row instead of being
+-- published, and reviewed on the admin dashboard:
+--   approve -> the stored row is upserted into price_listings
+--   reject  -> nothing is published; the same price is not re-flagged
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) listing_quarantine
+-- ============================================================
+CREATE TABLE IF NOT EXISTS listing_quarantine (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id        UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  retailer_id       TEXT NOT NULL REFERENCES retailers(id),
+  external_id       TEXT NOT NULL,
+  price             NUMERIC NOT NULL,          -- native currency, as scraped
+  price_usd         NUMERIC,
+  reference_price   NUMERIC NOT NULL,          -- USD
+  reference_source  TEXT NOT NULL,             -- 'history' | 'retailers'
+  ratio             NUMERIC NOT NULL,          -- price_usd / reference_price
+  listing           JSONB NOT NULL,            -- the price_listings row held back
+  source            TEXT,                      -- script phase that produced it
+  status            TEXT NOT NULL DEFAULT 'pending',
+  created_at        TIMESTAMPTZ DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_at       TIMESTAMPTZ,
+  UNIQUE(retailer_id, external_id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_listing_quarantine_status') THEN
+    ALTER TABLE listing_quarantine ADD CONSTRAINT chk_listing_quarantine_status
+      CHECK (status IN ('pending', 'approved', 'rejected'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_listing_quarantine_reference') THEN
+    ALTER TABLE listing_quarantine ADD CONSTRAINT chk_listing_quarantine_reference
+      CHECK (reference_source IN ('history', 'retailers'));
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_listing_quarantine_pending
+  ON listing_quarantine(created_at DESC)
+  WHERE status = 'pending';
+
+-- RLS on, no policies: only the sync scripts and admin server (service key)
+ALTER TABLE listing_quarantine ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- B) Reference prices for a batch of products
+-- ============================================================
+-- history_median: median in-stock USD price over the last 90 days of
+-- price_history (all retailers). listings: every current priced listing,
+-- so the caller can exclude the retailer being checked.
+CREATE OR REPLACE FUNCTION listing_price_references(p_product_ids UUID[])
+RETURNS TABLE (
+  product_id      UUID,
+  history_median  NUMERIC,
+  history_points  INTEGER,
+  listings        JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH history AS (
+    SELECT
+      ph.product_id,
+      CASE
+        WHEN COALESCE(r.currency, 'USD') = 'USD' THEN ph.price
+        ELSE ROUND(ph.price / er.rate, 2)
+      END AS price_usd
+    FROM price_history ph
+    JOIN retailers r ON r.id = ph.retailer_id
+    LEFT JOIN exchange_rates er ON er.currency = r.currency
+    WHERE ph.product_id = ANY(p_product_ids)
+      AND ph.in_stock
+      AND ph.price > 0
+      AND ph.recorded_at >= NOW() - INTERVAL '90 days'
+  ),
+  history_stats AS (
+    SELECT
+      h.product_id,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY h.price_usd)::NUMERIC AS history_median,
+      COUNT(*)::INTEGER AS history_points
+    FROM history h
+    WHERE h.price_usd IS NOT NULL
+    GROUP BY h.product_id
+  ),
+  current_listings AS (
+    SELECT
+      pl.product_id,
+      jsonb_agg(jsonb_build_object(
+        'retailer_id', pl.retailer_id,
+        'external_id', pl.external_id,
+        'price', pl.price,
+        'price_usd', pl.price_usd,
+        'in_stock', pl.in_stock
+      )) AS listings
+    FROM price_listings pl
+    WHERE pl.product_id = ANY(p_product_ids)
+      AND pl.price_usd > 0
+    GROUP BY pl.product_id
+  )
+  SELECT
+    ids.id,
+    hs.history_median,
+    COALESCE(hs.history_points, 0),
+    COALESCE(cl.listings, '[]'::JSONB)
+  FROM unnest(p_product_ids) AS ids(id)
+  LEFT JOIN history_stats hs ON hs.product_id = ids.id
+  LEFT JOIN current_listings cl ON cl.product_id = ids.id;
+$$;
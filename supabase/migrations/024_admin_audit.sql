@@ -0,0 +1,33 @@
+-- 024_admin_audit.sql
+--
+-- Audit log for scripts/admin-server.ts. Every mutating admin action writes
+-- one row with the rows it touched, before and after:
+--   changes = [{"table": "product_matches", "before": {...}, "after": {...}},
+--              {"table": "price_listings",  "before": null,  "after": {...}}]
+-- (before = null: the action created the row; after = null: it deleted it).
+-- A bulk approve is a single row, so it can be reverted in one click. A
+-- revert is logged as its own row pointing back via revert_of, and the
+-- original is stamped with reverted_at / reverted_by.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) admin_audit
+-- ============================================================
+CREATE TABLE IF NOT EXISTS admin_audit (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action       TEXT NOT NULL,                  -- e.g. 'match.approve', 'bulk_approve', 'revert'
+  admin        TEXT NOT NULL,                  -- name given at admin login
+  summary      TEXT,
+  product_ids  UUID[] NOT NULL DEFAULT '{}',   -- products touched, for per-product history
+  changes      JSONB NOT NULL DEFAULT '[]',
+  revert_of    UUID REFERENCES admin_audit(id) ON DELETE SET NULL,
+  reverted_at  TIMESTAMPTZ,
+  reverted_by  TEXT,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_created ON admin_audit(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_products ON admin_audit USING GIN (product_ids);
+
+-- RLS on, no policies: only the admin server (service key) reads or writes
+ALTER TABLE admin_audit ENABLE ROW LEVEL SECURITY;
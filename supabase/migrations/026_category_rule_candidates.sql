@@ -0,0 +1,41 @@
+-- 026_category_rule_candidates.sql
+--
+-- Category triage decisions from the admin server (/triage). Every move or
+-- delete an admin makes is kept here as a rule candidate alongside what
+-- detectCorrectCategory() suggested at the time.
+-- scripts/export-category-rules.ts turns them into MISPLACED_OVERRIDES /
+-- JUNK_PRODUCT_PATTERNS entries in scripts/config/category-rules.ts, so the
+-- next sync classifies the same store title the same way.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) category_rule_candidates
+-- ============================================================
+CREATE TABLE IF NOT EXISTS category_rule_candidates (
+  id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id          UUID REFERENCES products(id) ON DELETE SET NULL,
+  product_name        TEXT NOT NULL,           -- kept: deleted products lose product_id
+  brand               TEXT,
+  action              TEXT NOT NULL,           -- 'move' | 'delete'
+  from_category       TEXT NOT NULL,
+  to_category         TEXT,                    -- NULL for 'delete'
+  suggested_category  TEXT,                    -- triage suggestion at decision time ('DELETE' = junk)
+  decided_by          TEXT NOT NULL,
+  decided_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  exported_at         TIMESTAMPTZ              -- last written into category-rules.ts
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_category_rule_candidates_action') THEN
+    ALTER TABLE category_rule_candidates ADD CONSTRAINT chk_category_rule_candidates_action
+      CHECK ((action = 'move' AND to_category IS NOT NULL) OR (action = 'delete' AND to_category IS NULL));
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_category_rule_candidates_decided
+  ON category_rule_candidates(decided_at DESC);
+
+-- RLS on, no policies: written by the admin server, read by the export
+-- script, both with the service key
+ALTER TABLE category_rule_candidates ENABLE ROW LEVEL SECURITY;
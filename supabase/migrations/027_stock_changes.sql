@@ -0,0 +1,147 @@
+-- 027_stock_changes.sql
+--
+-- Stock transitions and back-in-stock watches.
+--   stock_events: one row each time a (product, retailer) listing flips
+--     between in stock and sold out, written by scripts/snapshot-prices.ts
+--     when it compares a new snapshot with the previous state in
+--     price_history. A listing that disappears while in stock counts as
+--     sold out. Read by the product page timeline and the Deals page.
+--   price_watches.notify_restock: a watch can ask for a 'back_in_stock'
+--     notification, with or without a price target.
+--     scripts/check-price-watches.ts tracks each watched product's
+--     availability in last_in_stock and queues the notification when it
+--     goes from sold out everywhere to in stock somewhere.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) stock_events
+-- ============================================================
+CREATE TABLE IF NOT EXISTS stock_events (
+  id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id          UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  retailer_id         TEXT NOT NULL REFERENCES retailers(id),
+  in_stock            BOOLEAN NOT NULL,       -- state after the change
+  price               NUMERIC,                -- listing price at the change
+  delisted            BOOLEAN NOT NULL DEFAULT FALSE,  -- sold out because the listing vanished
+  out_of_stock_since  TIMESTAMPTZ,            -- restocks: when the listing last sold out
+  changed_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_events_product ON stock_events(product_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_events_restocks ON stock_events(changed_at DESC) WHERE in_stock;
+
+ALTER TABLE stock_events ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'stock_events_select' AND tablename = 'stock_events') THEN
+    CREATE POLICY "stock_events_select" ON stock_events FOR SELECT USING (true);
+  END IF;
+END$$;
+
+-- Newest price_history row per (product, retailer) since p_since: the
+-- state the next snapshot is compared against
+CREATE OR REPLACE FUNCTION latest_stock_states(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  product_id   UUID,
+  retailer_id  TEXT,
+  in_stock     BOOLEAN,
+  price        NUMERIC,
+  recorded_at  TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (ph.product_id, ph.retailer_id)
+    ph.product_id, ph.retailer_id, ph.in_stock, ph.price, ph.recorded_at
+  FROM price_history ph
+  WHERE ph.recorded_at >= p_since
+  ORDER BY ph.product_id, ph.retailer_id, ph.recorded_at DESC;
+$$;
+
+-- ============================================================
+-- B) price_watches: back-in-stock watches
+-- ============================================================
+ALTER TABLE price_watches ADD COLUMN IF NOT EXISTS notify_restock BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE price_watches ADD COLUMN IF NOT EXISTS last_in_stock BOOLEAN;        -- availability at the last check
+ALTER TABLE price_watches ADD COLUMN IF NOT EXISTS restocked_at TIMESTAMPTZ;     -- set when a back_in_stock notification is queued
+
+-- A restock-only watch has no price target
+ALTER TABLE price_watches ALTER COLUMN target_price DROP NOT NULL;
+
+ALTER TABLE price_watches DROP CONSTRAINT IF EXISTS chk_price_watches_target;
+ALTER TABLE price_watches ADD CONSTRAINT chk_price_watches_target
+  CHECK (target_price IS NULL OR target_price > 0);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_price_watches_kind') THEN
+    ALTER TABLE price_watches ADD CONSTRAINT chk_price_watches_kind
+      CHECK (target_price IS NOT NULL OR notify_restock);
+  END IF;
+END$$;
+
+-- notification_outbox.kind is now 'price_drop' | 'back_in_stock'
+
+-- ============================================================
+-- C) RPC functions (return type and arguments changed: drop first)
+-- ============================================================
+DROP FUNCTION IF EXISTS get_price_watches(TEXT);
+CREATE OR REPLACE FUNCTION get_price_watches(p_client_hash TEXT)
+RETURNS TABLE (
+  product_id      UUID,
+  product_name    TEXT,
+  target_price    NUMERIC,
+  notify_restock  BOOLEAN,
+  email           TEXT,
+  webhook_url     TEXT,
+  last_price      NUMERIC,
+  last_in_stock   BOOLEAN,
+  triggered_at    TIMESTAMPTZ,
+  restocked_at    TIMESTAMPTZ,
+  created_at      TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT w.product_id, p.name, w.target_price, w.notify_restock, w.email, w.webhook_url,
+         w.last_price, w.last_in_stock, w.triggered_at, w.restocked_at, w.created_at
+  FROM price_watches w
+  JOIN products p ON p.id = w.product_id
+  WHERE w.client_hash = watch_owner_hash(p_client_hash)
+  ORDER BY w.created_at;
+$$;
+
+-- last_in_stock is seeded from products.in_stock, so a watch created while
+-- the product is sold out notifies on the next restock
+DROP FUNCTION IF EXISTS upsert_price_watch(TEXT, UUID, NUMERIC, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION upsert_price_watch(
+  p_client_hash     TEXT,
+  p_product_id      UUID,
+  p_target_price    NUMERIC,
+  p_email           TEXT DEFAULT NULL,
+  p_webhook_url     TEXT DEFAULT NULL,
+  p_notify_restock  BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  INSERT INTO price_watches (client_hash, user_id, product_id, target_price, notify_restock,
+                             email, webhook_url, last_price, last_in_stock)
+  SELECT watch_owner_hash(p_client_hash), auth.uid(), p_product_id, p_target_price, p_notify_restock,
+         NULLIF(TRIM(p_email), ''), NULLIF(TRIM(p_webhook_url), ''), p.price, p.in_stock
+  FROM products p
+  WHERE p.id = p_product_id
+  ON CONFLICT (client_hash, product_id) DO UPDATE
+  SET target_price = EXCLUDED.target_price,
+      notify_restock = EXCLUDED.notify_restock,
+      email = EXCLUDED.email,
+      webhook_url = EXCLUDED.webhook_url,
+      last_in_stock = EXCLUDED.last_in_stock,
+      triggered_at = NULL,
+      last_notified_price = NULL,
+      restocked_at = NULL,
+      updated_at = NOW();
+$$;
@@ -0,0 +1,109 @@
+-- 028_api_keys.sql
+--
+-- Keys and rate limits for the public read-only API (scripts/api-server.ts,
+-- /api/v1). Keys are issued with scripts/create-api-key.ts; only their
+-- SHA-256 hash is stored, plus a short prefix so an admin can tell keys
+-- apart. Every request goes through consume_api_request(), which counts it
+-- in a per-minute window and reports whether the key is still within its
+-- per-minute and per-day limits.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) api_keys
+-- ============================================================
+CREATE TABLE IF NOT EXISTS api_keys (
+  id                   UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name                 TEXT NOT NULL,                 -- who/what the key is for, e.g. 'discord bot'
+  contact              TEXT,
+  key_prefix           TEXT NOT NULL,                 -- first characters of the key, for display
+  key_hash             TEXT NOT NULL UNIQUE,          -- hex SHA-256 of the full key
+  requests_per_minute  INTEGER NOT NULL DEFAULT 60,
+  requests_per_day     INTEGER NOT NULL DEFAULT 10000,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at         TIMESTAMPTZ,
+  revoked_at           TIMESTAMPTZ
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_api_keys_limits') THEN
+    ALTER TABLE api_keys ADD CONSTRAINT chk_api_keys_limits
+      CHECK (requests_per_minute > 0 AND requests_per_day > 0);
+  END IF;
+END$$;
+
+-- RLS on, no policies: only the API server and the key script (service key)
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- B) api_key_usage: request counts per key per minute
+-- ============================================================
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  key_id        UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start  TIMESTAMPTZ NOT NULL,     -- date_trunc('minute', request time)
+  requests      INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
+
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- C) consume_api_request
+-- ============================================================
+-- Counts one request against the key with this hash. Returns NULL for an
+-- unknown or revoked key, otherwise
+--   {"key_id", "allowed", "limit", "remaining", "reset_at"}
+-- where limit / remaining / reset_at describe whichever window (minute or
+-- day) is closer to running out. Rejected requests count too, so a client
+-- that ignores 429s stays limited.
+CREATE OR REPLACE FUNCTION consume_api_request(p_key_hash TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  k api_keys%ROWTYPE;
+  minute_start TIMESTAMPTZ := date_trunc('minute', NOW());
+  day_start TIMESTAMPTZ := date_trunc('day', NOW());
+  minute_count INTEGER;
+  day_count INTEGER;
+  allowed BOOLEAN;
+BEGIN
+  SELECT * INTO k FROM api_keys WHERE key_hash = p_key_hash AND revoked_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO api_key_usage (key_id, window_start, requests)
+  VALUES (k.id, minute_start, 1)
+  ON CONFLICT (key_id, window_start) DO UPDATE SET requests = api_key_usage.requests + 1
+  RETURNING requests INTO minute_count;
+
+  SELECT COALESCE(SUM(requests), 0) INTO day_count
+  FROM api_key_usage
+  WHERE key_id = k.id AND window_start >= day_start;
+
+  -- Only today's windows are ever summed
+  DELETE FROM api_key_usage WHERE key_id = k.id AND window_start < day_start - INTERVAL '1 day';
+  UPDATE api_keys SET last_used_at = NOW() WHERE id = k.id;
+
+  allowed := minute_count <= k.requests_per_minute AND day_count <= k.requests_per_day;
+
+  IF k.requests_per_day - day_count < k.requests_per_minute - minute_count THEN
+    RETURN jsonb_build_object(
+      'key_id', k.id,
+      'allowed', allowed,
+      'limit', k.requests_per_day,
+      'remaining', GREATEST(k.requests_per_day - day_count, 0),
+      'reset_at', day_start + INTERVAL '1 day'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'key_id', k.id,
+    'allowed', allowed,
+    'limit', k.requests_per_minute,
+    'remaining', GREATEST(k.requests_per_minute - minute_count, 0),
+    'reset_at', minute_start + INTERVAL '1 minute'
+  );
+END;
+$$;
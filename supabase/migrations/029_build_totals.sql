@@ -0,0 +1,144 @@
+-- 029_build_totals.sql
+--
+-- Server-side sorting, filtering and search for community builds:
+--   - builds.total_price / item_count / product_ids / category_ids are kept
+--     up to date from build_items x products.price by triggers, so budget
+--     sorts and price ranges work across pages instead of within one
+--   - builds.search_vector: full-text search over name and description
+--   - builds.tags: at most 5, lowercase; get_build_tags() lists the tags in
+--     use on the community page
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Materialized totals
+-- ============================================================
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS total_price NUMERIC NOT NULL DEFAULT 0;      -- SUM(products.price * quantity)
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS item_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS product_ids UUID[] NOT NULL DEFAULT '{}';
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS category_ids TEXT[] NOT NULL DEFAULT '{}';
+
+-- Recompute the totals of the given builds. SECURITY DEFINER: triggers fire
+-- for anonymous inserts, which cannot update builds under RLS.
+CREATE OR REPLACE FUNCTION refresh_build_totals(p_build_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE builds b
+  SET total_price = t.total_price,
+      item_count = t.item_count,
+      product_ids = t.product_ids,
+      category_ids = t.category_ids
+  FROM (
+    SELECT
+      b2.id,
+      COALESCE(SUM(COALESCE(p.price, 0) * COALESCE(bi.quantity, 1)), 0) AS total_price,
+      COUNT(bi.id)::INTEGER AS item_count,
+      COALESCE(array_agg(DISTINCT bi.product_id) FILTER (WHERE bi.product_id IS NOT NULL), '{}') AS product_ids,
+      COALESCE(array_agg(DISTINCT bi.category_id) FILTER (WHERE bi.category_id IS NOT NULL), '{}') AS category_ids
+    FROM builds b2
+    LEFT JOIN build_items bi ON bi.build_id = b2.id
+    LEFT JOIN products p ON p.id = bi.product_id
+    WHERE b2.id = ANY(p_build_ids)
+    GROUP BY b2.id
+  ) t
+  WHERE b.id = t.id
+    AND (b.total_price, b.item_count, b.product_ids, b.category_ids)
+        IS DISTINCT FROM (t.total_price, t.item_count, t.product_ids, t.category_ids);
+$$;
+
+CREATE OR REPLACE FUNCTION trg_build_items_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_build_totals(ARRAY[OLD.build_id]);
+  ELSIF TG_OP = 'UPDATE' AND OLD.build_id <> NEW.build_id THEN
+    PERFORM refresh_build_totals(ARRAY[OLD.build_id, NEW.build_id]);
+  ELSE
+    PERFORM refresh_build_totals(ARRAY[NEW.build_id]);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_build_items_totals ON build_items;
+CREATE TRIGGER trg_build_items_totals
+  AFTER INSERT OR UPDATE OR DELETE ON build_items
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_build_items_totals();
+
+-- Price syncs update products one by one; only builds holding the product
+-- are touched
+CREATE INDEX IF NOT EXISTS idx_build_items_product ON build_items(product_id);
+
+CREATE OR REPLACE FUNCTION trg_products_build_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_build_totals(ARRAY(SELECT DISTINCT build_id FROM build_items WHERE product_id = NEW.id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_build_totals ON products;
+CREATE TRIGGER trg_products_build_totals
+  AFTER UPDATE OF price ON products
+  FOR EACH ROW
+  WHEN (OLD.price IS DISTINCT FROM NEW.price)
+  EXECUTE FUNCTION trg_products_build_totals();
+
+-- Backfill
+SELECT refresh_build_totals(ARRAY(SELECT id FROM builds));
+
+-- ============================================================
+-- B) Full-text search
+-- ============================================================
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_builds_search ON builds USING GIN (search_vector);
+
+-- ============================================================
+-- C) Tags
+-- ============================================================
+UPDATE builds SET tags = '{}' WHERE tags IS NULL;
+ALTER TABLE builds ALTER COLUMN tags SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_builds_tags') THEN
+    ALTER TABLE builds ADD CONSTRAINT chk_builds_tags
+      CHECK (cardinality(tags) <= 5);
+  END IF;
+END$$;
+
+-- Tags on community builds, most used first
+CREATE OR REPLACE FUNCTION get_build_tags(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (tag TEXT, builds BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.tag, COUNT(*) AS builds
+  FROM builds b, unnest(b.tags) AS t(tag)
+  WHERE b.is_public = TRUE AND b.is_flagged = FALSE
+  GROUP BY t.tag
+  ORDER BY COUNT(*) DESC, t.tag
+  LIMIT p_limit;
+$$;
+
+-- ============================================================
+-- D) Indexes for community listing
+-- ============================================================
+CREATE INDEX IF NOT EXISTS idx_builds_community_budget
+  ON builds(total_price)
+  WHERE is_public = TRUE AND is_flagged = FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_builds_tags ON builds USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_builds_product_ids ON builds USING GIN (product_ids);
+CREATE INDEX IF NOT EXISTS idx_builds_category_ids ON builds USING GIN (category_ids);
@@ -0,0 +1,210 @@
+-- 030_build_forks_comments.sql
+--
+-- Lineage and discussion for shared builds:
+--   - builds.forked_from: the shared build a clone started from, recorded
+--     when the clone is shared; builds.fork_count counts the clients
+--     (account or client_hash) that shared a fork of it
+--   - build_comments: threaded comments on shared builds, rate limited per
+--     client_hash / account and flaggable like builds (006)
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Forks
+-- ============================================================
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS forked_from UUID REFERENCES builds(id) ON DELETE SET NULL;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS fork_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_builds_forked_from ON builds(forked_from) WHERE forked_from IS NOT NULL;
+
+-- Re-sharing a fork creates another snapshot; each client counts once.
+-- SECURITY DEFINER: the parent usually belongs to someone else.
+CREATE OR REPLACE FUNCTION refresh_fork_count(p_build_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE builds
+  SET fork_count = (
+    SELECT COUNT(DISTINCT COALESCE(f.user_id::TEXT, f.client_hash, f.id::TEXT))
+    FROM builds f
+    WHERE f.forked_from = p_build_id AND NOT f.is_saved
+  )
+  WHERE id = p_build_id;
+$$;
+
+CREATE OR REPLACE FUNCTION trg_builds_fork_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.forked_from IS NOT NULL THEN
+    PERFORM refresh_fork_count(OLD.forked_from);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.forked_from IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.forked_from IS DISTINCT FROM OLD.forked_from) THEN
+    PERFORM refresh_fork_count(NEW.forked_from);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_builds_fork_count ON builds;
+CREATE TRIGGER trg_builds_fork_count
+  AFTER INSERT OR DELETE OR UPDATE OF forked_from ON builds
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_builds_fork_count();
+
+-- ============================================================
+-- B) build_comments
+-- ============================================================
+CREATE TABLE IF NOT EXISTS build_comments (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  build_id     UUID NOT NULL REFERENCES builds(id) ON DELETE CASCADE,
+  parent_id    UUID REFERENCES build_comments(id) ON DELETE CASCADE,
+  depth        SMALLINT NOT NULL DEFAULT 0,       -- set by trg_build_comment_checks
+  body         TEXT NOT NULL,
+  author_name  TEXT,
+  user_id      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  client_hash  TEXT,
+  is_flagged   BOOLEAN NOT NULL DEFAULT FALSE,
+  flagged_at   TIMESTAMPTZ,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_build_comments_body_length') THEN
+    ALTER TABLE build_comments ADD CONSTRAINT chk_build_comments_body_length
+      CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_build_comments_author_name_length') THEN
+    ALTER TABLE build_comments ADD CONSTRAINT chk_build_comments_author_name_length
+      CHECK (author_name IS NULL OR char_length(author_name) <= 50);
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_build_comments_build ON build_comments(build_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_build_comments_client_hash_created
+  ON build_comments(client_hash, created_at)
+  WHERE client_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_build_comments_user_created
+  ON build_comments(user_id, created_at)
+  WHERE user_id IS NOT NULL;
+
+ALTER TABLE build_comments ENABLE ROW LEVEL SECURITY;
+
+-- RLS: anyone reads unflagged comments; anonymous or own-account inserts.
+-- No update/delete: flagging and removal go through the service key.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'build_comments_select' AND tablename = 'build_comments') THEN
+    CREATE POLICY "build_comments_select" ON build_comments FOR SELECT USING (NOT is_flagged);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'build_comments_insert' AND tablename = 'build_comments') THEN
+    CREATE POLICY "build_comments_insert" ON build_comments FOR INSERT
+      WITH CHECK ((user_id IS NULL OR user_id = auth.uid()) AND NOT is_flagged);
+  END IF;
+END$$;
+
+-- ============================================================
+-- C) Comment checks and rate limits
+-- ============================================================
+-- Replies stay on the parent's build and at most 4 levels deep; the build
+-- must be a share snapshot that has not been flagged. Max 10 comments per
+-- client_hash or account per hour, and no repeating the same text within a
+-- day.
+CREATE OR REPLACE FUNCTION check_build_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  parent build_comments%ROWTYPE;
+  recent_count INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM builds WHERE id = NEW.build_id AND NOT is_saved AND NOT COALESCE(is_flagged, FALSE)
+  ) THEN
+    RAISE EXCEPTION 'Comments are not open on this build.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  NEW.depth := 0;
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO parent FROM build_comments WHERE id = NEW.parent_id;
+    IF NOT FOUND OR parent.build_id <> NEW.build_id THEN
+      RAISE EXCEPTION 'Reply target not found on this build.'
+        USING ERRCODE = 'P0001';
+    END IF;
+    IF parent.depth >= 4 THEN
+      RAISE EXCEPTION 'Replies can only be nested 5 levels deep.'
+        USING ERRCODE = 'P0001';
+    END IF;
+    NEW.depth := parent.depth + 1;
+  END IF;
+
+  IF NEW.client_hash IS NULL AND NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO recent_count
+  FROM build_comments
+  WHERE (client_hash = NEW.client_hash OR user_id = NEW.user_id)
+    AND created_at > NOW() - INTERVAL '1 hour';
+
+  IF recent_count >= 10 THEN
+    RAISE EXCEPTION 'Rate limit exceeded: too many comments posted recently. Please wait before commenting again.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM build_comments
+    WHERE (client_hash = NEW.client_hash OR user_id = NEW.user_id)
+      AND lower(btrim(body)) = lower(btrim(NEW.body))
+      AND created_at > NOW() - INTERVAL '24 hours'
+  ) THEN
+    RAISE EXCEPTION 'Duplicate comment: you already posted this.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_build_comment_checks ON build_comments;
+CREATE TRIGGER trg_build_comment_checks
+  BEFORE INSERT ON build_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_build_comment();
+
+-- ============================================================
+-- D) Comment counts on builds
+-- ============================================================
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS comment_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION refresh_comment_count(p_build_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE builds
+  SET comment_count = (SELECT COUNT(*) FROM build_comments WHERE build_id = p_build_id AND NOT is_flagged)
+  WHERE id = p_build_id;
+$$;
+
+CREATE OR REPLACE FUNCTION trg_build_comments_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_comment_count(COALESCE(NEW.build_id, OLD.build_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_build_comments_count ON build_comments;
+CREATE TRIGGER trg_build_comments_count
+  AFTER INSERT OR DELETE OR UPDATE OF is_flagged ON build_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION trg_build_comments_count();
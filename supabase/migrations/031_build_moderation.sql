@@ -0,0 +1,350 @@
+-- 031_build_moderation.sql
+--
+-- Moderation for community content, reviewed in the admin server's
+-- /moderation queue (replaces running scripts/flag-build.ts by hand):
+--   - build_reports: "Report" from the site, one per client_hash per build;
+--     a build is hidden automatically once 3 different clients report it
+--   - classify_community_text(): blocked terms and link spam in build
+--     name/description/author_name and comment bodies flag the row at
+--     insert time, queuing it for review instead of rejecting it
+--   - banned_client_hashes: browsers that may no longer post builds,
+--     comments or reports (votes are not covered; see 041)
+--   - owners can still edit their builds but not un-hide them
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Moderation state on builds and comments
+-- ============================================================
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS flag_reason TEXT;        -- 'reports', 'auto: ...', 'manual'
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;  -- last admin decision
+ALTER TABLE build_comments ADD COLUMN IF NOT EXISTS flag_reason TEXT;
+ALTER TABLE build_comments ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_builds_flagged_unreviewed
+  ON builds(flagged_at DESC)
+  WHERE is_flagged = TRUE AND reviewed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_build_comments_flagged_unreviewed
+  ON build_comments(flagged_at DESC)
+  WHERE is_flagged = TRUE AND reviewed_at IS NULL;
+
+-- RLS checks the row after BEFORE triggers, so the 030 insert policy would
+-- reject comments the classifier flags; a client flagging its own comment
+-- only hides it
+DROP POLICY IF EXISTS "build_comments_insert" ON build_comments;
+CREATE POLICY "build_comments_insert" ON build_comments FOR INSERT
+  WITH CHECK (user_id IS NULL OR user_id = auth.uid());
+
+-- ============================================================
+-- B) build_reports
+-- ============================================================
+CREATE TABLE IF NOT EXISTS build_reports (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  build_id     UUID NOT NULL REFERENCES builds(id) ON DELETE CASCADE,
+  reason       TEXT NOT NULL,
+  details      TEXT,
+  client_hash  TEXT NOT NULL,
+  user_id      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at  TIMESTAMPTZ,
+  resolution   TEXT               -- 'approved' (build kept) or 'flagged' (build hidden)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'uq_build_reports_build_client') THEN
+    ALTER TABLE build_reports
+      ADD CONSTRAINT uq_build_reports_build_client UNIQUE (build_id, client_hash);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_build_reports_reason') THEN
+    ALTER TABLE build_reports ADD CONSTRAINT chk_build_reports_reason
+      CHECK (reason IN ('spam', 'offensive', 'misleading', 'other'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_build_reports_details_length') THEN
+    ALTER TABLE build_reports ADD CONSTRAINT chk_build_reports_details_length
+      CHECK (details IS NULL OR char_length(details) <= 500);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_build_reports_resolution') THEN
+    ALTER TABLE build_reports ADD CONSTRAINT chk_build_reports_resolution
+      CHECK (resolution IS NULL OR resolution IN ('approved', 'flagged'));
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_build_reports_open ON build_reports(build_id) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_build_reports_client_created ON build_reports(client_hash, created_at);
+
+ALTER TABLE build_reports ENABLE ROW LEVEL SECURITY;
+
+-- RLS: insert only; reports are read by the admin server (service key)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'build_reports_insert' AND tablename = 'build_reports') THEN
+    CREATE POLICY "build_reports_insert" ON build_reports FOR INSERT
+      WITH CHECK ((user_id IS NULL OR user_id = auth.uid()) AND resolved_at IS NULL AND resolution IS NULL);
+  END IF;
+END$$;
+
+-- ============================================================
+-- C) Banned client hashes
+-- ============================================================
+CREATE TABLE IF NOT EXISTS banned_client_hashes (
+  client_hash  TEXT PRIMARY KEY,
+  reason       TEXT,
+  banned_by    TEXT NOT NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- RLS on, no policies: checked by the SECURITY DEFINER trigger below
+ALTER TABLE banned_client_hashes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION check_banned_client()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  hash TEXT;
+BEGIN
+  -- build_votes identify the browser by voter_hash, the other tables by client_hash.
+  -- Bans are issued on client_hash, so votes never match; 041 drops the vote trigger.
+  hash := CASE WHEN TG_TABLE_NAME = 'build_votes' THEN to_jsonb(NEW)->>'voter_hash' ELSE to_jsonb(NEW)->>'client_hash' END;
+  IF hash IS NOT NULL AND EXISTS (SELECT 1 FROM banned_client_hashes WHERE client_hash = hash) THEN
+    RAISE EXCEPTION 'Posting is disabled for this browser.'
+      USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_builds_banned_client ON builds;
+CREATE TRIGGER trg_builds_banned_client
+  BEFORE INSERT ON builds
+  FOR EACH ROW
+  EXECUTE FUNCTION check_banned_client();
+
+DROP TRIGGER IF EXISTS trg_build_comments_banned_client ON build_comments;
+CREATE TRIGGER trg_build_comments_banned_client
+  BEFORE INSERT ON build_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_banned_client();
+
+DROP TRIGGER IF EXISTS trg_build_votes_banned_client ON build_votes;
+CREATE TRIGGER trg_build_votes_banned_client
+  BEFORE INSERT ON build_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION check_banned_client();
+
+DROP TRIGGER IF EXISTS trg_build_reports_banned_client ON build_reports;
+CREATE TRIGGER trg_build_reports_banned_client
+  BEFORE INSERT ON build_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION check_banned_client();
+
+-- ============================================================
+-- D) Report rate limit and auto-hide
+-- ============================================================
+-- Max 20 reports per client_hash per day
+CREATE OR REPLACE FUNCTION check_report_rate_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  daily_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO daily_count
+  FROM build_reports
+  WHERE client_hash = NEW.client_hash
+    AND created_at > NOW() - INTERVAL '24 hours';
+
+  IF daily_count >= 20 THEN
+    RAISE EXCEPTION 'Report rate limit exceeded: too many reports today. Please try again later.'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_report_rate_limit ON build_reports;
+CREATE TRIGGER trg_report_rate_limit
+  BEFORE INSERT ON build_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION check_report_rate_limit();
+
+-- Hide a build once 3 different clients have open reports on it. A build an
+-- admin approved only counts reports filed after that review.
+CREATE OR REPLACE FUNCTION auto_hide_reported_build()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  reporters INTEGER;
+BEGIN
+  SELECT COUNT(DISTINCT client_hash) INTO reporters
+  FROM build_reports
+  WHERE build_id = NEW.build_id AND resolved_at IS NULL;
+
+  IF reporters >= 3 THEN
+    UPDATE builds
+    SET is_flagged = TRUE, flagged_at = NOW(), flag_reason = 'reports', reviewed_at = NULL
+    WHERE id = NEW.build_id AND NOT COALESCE(is_flagged, FALSE);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_auto_hide_reported_build ON build_reports;
+CREATE TRIGGER trg_auto_hide_reported_build
+  AFTER INSERT ON build_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION auto_hide_reported_build();
+
+-- ============================================================
+-- E) Spam / profanity classifier
+-- ============================================================
+CREATE TABLE IF NOT EXISTS blocked_terms (
+  term        TEXT PRIMARY KEY,       -- lowercase; matched as a whole word
+  kind        TEXT NOT NULL DEFAULT 'profanity',
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_blocked_terms_kind') THEN
+    ALTER TABLE blocked_terms ADD CONSTRAINT chk_blocked_terms_kind
+      CHECK (kind IN ('profanity', 'spam'));
+  END IF;
+END$$;
+
+ALTER TABLE blocked_terms ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO blocked_terms (term, kind) VALUES
+  ('fuck', 'profanity'), ('fucking', 'profanity'), ('shit', 'profanity'), ('cunt', 'profanity'),
+  ('bitch', 'profanity'), ('asshole', 'profanity'), ('dickhead', 'profanity'), ('motherfucker', 'profanity'),
+  ('casino', 'spam'), ('viagra', 'spam'), ('crypto giveaway', 'spam'), ('onlyfans', 'spam'),
+  ('whatsapp', 'spam'), ('telegram', 'spam'), ('escort', 'spam')
+ON CONFLICT (term) DO NOTHING;
+
+-- Why `content` looks like spam or abuse, or NULL when it looks fine:
+-- a blocked term, a link (http(s)://, www., or a bare domain), or shouting
+CREATE OR REPLACE FUNCTION classify_community_text(content TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  normalized TEXT := lower(COALESCE(content, ''));
+  hit blocked_terms%ROWTYPE;
+BEGIN
+  IF normalized = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO hit FROM blocked_terms
+  WHERE normalized ~ ('\m' || regexp_replace(term, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '\M')
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN 'auto: ' || hit.kind || ' (' || hit.term || ')';
+  END IF;
+
+  IF normalized ~ '(https?://|www\.)'
+     OR normalized ~ '\m[a-z0-9-]{2,}\.(com|net|org|io|ru|cn|xyz|top|shop|store|biz|info|link|click|online|site|co)\M' THEN
+    RETURN 'auto: link';
+  END IF;
+
+  -- Mostly capitals over a long stretch
+  IF char_length(content) >= 20
+     AND char_length(regexp_replace(content, '[^A-Z]', '', 'g')) > 0.7 * char_length(regexp_replace(content, '[^A-Za-z]', '', 'g')) THEN
+    RETURN 'auto: shouting';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Flag (not reject) on insert, so the author is not told what tripped it
+CREATE OR REPLACE FUNCTION classify_build()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reason TEXT;
+BEGIN
+  reason := COALESCE(
+    classify_community_text(NEW.name),
+    classify_community_text(NEW.description),
+    classify_community_text(NEW.author_name)
+  );
+  IF reason IS NOT NULL THEN
+    NEW.is_flagged := TRUE;
+    NEW.flagged_at := NOW();
+    NEW.flag_reason := reason;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_classify_build ON builds;
+CREATE TRIGGER trg_classify_build
+  BEFORE INSERT ON builds
+  FOR EACH ROW
+  WHEN (NEW.is_public)
+  EXECUTE FUNCTION classify_build();
+
+CREATE OR REPLACE FUNCTION classify_build_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reason TEXT;
+BEGIN
+  reason := COALESCE(classify_community_text(NEW.body), classify_community_text(NEW.author_name));
+  IF reason IS NOT NULL THEN
+    NEW.is_flagged := TRUE;
+    NEW.flagged_at := NOW();
+    NEW.flag_reason := reason;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after trg_build_comment_checks (triggers fire in name order)
+DROP TRIGGER IF EXISTS trg_classify_build_comment ON build_comments;
+CREATE TRIGGER trg_classify_build_comment
+  BEFORE INSERT ON build_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION classify_build_comment();
+
+-- ============================================================
+-- F) Keep moderation state out of owners' hands
+-- ============================================================
+-- builds_update_own (019) lets owners update their builds; only the service
+-- key (admin server, scripts) and SECURITY DEFINER functions may change
+-- whether one is hidden
+CREATE OR REPLACE FUNCTION protect_build_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.is_flagged := OLD.is_flagged;
+    NEW.flagged_at := OLD.flagged_at;
+    NEW.flag_reason := OLD.flag_reason;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_protect_build_moderation ON builds;
+CREATE TRIGGER trg_protect_build_moderation
+  BEFORE UPDATE ON builds
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_build_moderation();
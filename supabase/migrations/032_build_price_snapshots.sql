@@ -0,0 +1,135 @@
+-- 032_build_price_snapshots.sql
+--
+-- "Price then vs now" for shared builds. Totals follow today's
+-- products.price (029), so a build shared at $480 silently shows $620 a
+-- month later. Share snapshots now keep what each item cost when shared:
+--   - build_items.shared_price / shared_retailer_id: the unit price (USD)
+--     and the retailer selling at it, set by trigger when an item is added
+--     to a share snapshot, never by the client
+--   - builds.shared_total: SUM(shared_price * quantity), NULL unless every
+--     item has a snapshot
+-- custom_price stays a user override; a snapshot is not one.
+-- Existing shares are backfilled from price_history as of their created_at.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Snapshot columns
+-- ============================================================
+ALTER TABLE build_items ADD COLUMN IF NOT EXISTS shared_price NUMERIC;
+ALTER TABLE build_items ADD COLUMN IF NOT EXISTS shared_retailer_id TEXT REFERENCES retailers(id) ON DELETE SET NULL;
+ALTER TABLE builds ADD COLUMN IF NOT EXISTS shared_total NUMERIC;
+
+-- ============================================================
+-- B) Snapshot on insert
+-- ============================================================
+-- The price is the product's rolled-up price (022), or the item's
+-- custom_price; the retailer is the cheapest available listing at that price
+CREATE OR REPLACE FUNCTION snapshot_build_item_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.shared_price := NULL;
+  NEW.shared_retailer_id := NULL;
+
+  IF NOT EXISTS (SELECT 1 FROM builds WHERE id = NEW.build_id AND NOT is_saved) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(NEW.custom_price, p.price) INTO NEW.shared_price
+  FROM products p
+  WHERE p.id = NEW.product_id;
+
+  IF NEW.custom_price IS NULL THEN
+    SELECT pl.retailer_id INTO NEW.shared_retailer_id
+    FROM price_listings pl
+    JOIN retailers r ON r.id = pl.retailer_id
+    WHERE pl.product_id = NEW.product_id
+      AND pl.price_usd = NEW.shared_price
+      AND pl.in_stock
+      AND r.is_active
+    ORDER BY pl.last_checked DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_snapshot_build_item_price ON build_items;
+CREATE TRIGGER trg_snapshot_build_item_price
+  BEFORE INSERT ON build_items
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_build_item_price();
+
+-- ============================================================
+-- C) shared_total alongside the live totals (replaces 029's function)
+-- ============================================================
+CREATE OR REPLACE FUNCTION refresh_build_totals(p_build_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE builds b
+  SET total_price = t.total_price,
+      item_count = t.item_count,
+      product_ids = t.product_ids,
+      category_ids = t.category_ids,
+      shared_total = t.shared_total
+  FROM (
+    SELECT
+      b2.id,
+      COALESCE(SUM(COALESCE(p.price, 0) * COALESCE(bi.quantity, 1)), 0) AS total_price,
+      COUNT(bi.id)::INTEGER AS item_count,
+      COALESCE(array_agg(DISTINCT bi.product_id) FILTER (WHERE bi.product_id IS NOT NULL), '{}') AS product_ids,
+      COALESCE(array_agg(DISTINCT bi.category_id) FILTER (WHERE bi.category_id IS NOT NULL), '{}') AS category_ids,
+      CASE
+        WHEN COUNT(bi.id) > 0 AND COUNT(bi.id) = COUNT(bi.shared_price)
+          THEN SUM(bi.shared_price * COALESCE(bi.quantity, 1))
+      END AS shared_total
+    FROM builds b2
+    LEFT JOIN build_items bi ON bi.build_id = b2.id
+    LEFT JOIN products p ON p.id = bi.product_id
+    WHERE b2.id = ANY(p_build_ids)
+    GROUP BY b2.id
+  ) t
+  WHERE b.id = t.id
+    AND (b.total_price, b.item_count, b.product_ids, b.category_ids, b.shared_total)
+        IS DISTINCT FROM (t.total_price, t.item_count, t.product_ids, t.category_ids, t.shared_total);
+$$;
+
+-- ============================================================
+-- D) Backfill existing shares from price_history
+-- ============================================================
+-- Per item: each retailer's last in-stock price recorded before the build
+-- was shared, converted to USD at today's rate; the cheapest wins
+UPDATE build_items bi
+SET shared_price = h.price_usd,
+    shared_retailer_id = h.retailer_id
+FROM builds b,
+LATERAL (
+  SELECT s.retailer_id, s.price_usd
+  FROM (
+    SELECT DISTINCT ON (ph.retailer_id)
+      ph.retailer_id,
+      ph.in_stock,
+      CASE
+        WHEN COALESCE(r.currency, 'USD') = 'USD' THEN ph.price
+        ELSE ROUND(ph.price / er.rate, 2)
+      END AS price_usd
+    FROM price_history ph
+    JOIN retailers r ON r.id = ph.retailer_id
+    LEFT JOIN exchange_rates er ON er.currency = r.currency
+    WHERE ph.product_id = bi.product_id
+      AND ph.recorded_at <= b.created_at
+    ORDER BY ph.retailer_id, ph.recorded_at DESC
+  ) s
+  WHERE s.in_stock AND s.price_usd > 0
+  ORDER BY s.price_usd
+  LIMIT 1
+) h
+WHERE b.id = bi.build_id
+  AND NOT b.is_saved
+  AND bi.shared_price IS NULL;
+
+SELECT refresh_build_totals(ARRAY(SELECT id FROM builds WHERE NOT is_saved));
@@ -0,0 +1,21 @@
+-- 033_retailer_shipping.sql
+--
+-- Shipping rules per retailer, for the "Buy this build" cart optimizer:
+--   - shipping_cost: flat standard shipping per order, in the retailer's
+--     currency (NULL = not known; the optimizer then counts it as free and
+--     says so)
+--   - free_shipping_min: order subtotal from which shipping is free (NULL =
+--     no threshold)
+-- Seeded by scripts/seed-retailer-trust.ts and editable in the admin server.
+-- Idempotent -- safe to re-run.
+
+ALTER TABLE retailers ADD COLUMN IF NOT EXISTS shipping_cost NUMERIC;
+ALTER TABLE retailers ADD COLUMN IF NOT EXISTS free_shipping_min NUMERIC;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_retailers_shipping') THEN
+    ALTER TABLE retailers ADD CONSTRAINT chk_retailers_shipping
+      CHECK ((shipping_cost IS NULL OR shipping_cost >= 0) AND (free_shipping_min IS NULL OR free_shipping_min >= 0));
+  END IF;
+END$$;
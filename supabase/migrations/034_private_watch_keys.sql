@@ -0,0 +1,118 @@
+-- 034_private_watch_keys.sql
+--
+-- Anonymous price watches are owned by a browser secret, not its client_hash.
+-- The RPCs in 014 / 019 / 027 trusted whatever client_hash the caller sent,
+-- and that hash is public (builds, comments and votes expose it), so anyone
+-- could read another visitor's email and webhook_url or change their watches.
+--   - The browser keeps a random client key in localStorage and sends it
+--     only to these RPCs; it is never written to a row.
+--   - An anonymous watch's client_hash is now client_key_hash(key), the
+--     SHA-256 of that key. Knowing the hash does not give access.
+--   - Signed-in callers are unchanged ('user:<auth uid>').
+-- Anonymous watches created before this migration are keyed on a public
+-- hash, so nothing can prove who owns them: they keep notifying their email
+-- or webhook, but can no longer be read or changed from a browser.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Key -> owner hash
+-- ============================================================
+-- Hex SHA-256 of the browser's client key; NULL for a missing or short key
+CREATE OR REPLACE FUNCTION client_key_hash(p_client_key TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN char_length(p_client_key) >= 32 THEN encode(sha256(convert_to(p_client_key, 'UTF8')), 'hex')
+  END;
+$$;
+
+-- Signed-in callers act as their account; anonymous callers as their key
+DROP FUNCTION IF EXISTS watch_owner_hash(TEXT);
+CREATE OR REPLACE FUNCTION watch_owner_hash(p_client_key TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE('user:' || auth.uid()::text, client_key_hash(p_client_key));
+$$;
+
+-- ============================================================
+-- B) RPC functions (argument renamed: drop first)
+-- ============================================================
+DROP FUNCTION IF EXISTS get_price_watches(TEXT);
+CREATE OR REPLACE FUNCTION get_price_watches(p_client_key TEXT)
+RETURNS TABLE (
+  product_id      UUID,
+  product_name    TEXT,
+  target_price    NUMERIC,
+  notify_restock  BOOLEAN,
+  email           TEXT,
+  webhook_url     TEXT,
+  last_price      NUMERIC,
+  last_in_stock   BOOLEAN,
+  triggered_at    TIMESTAMPTZ,
+  restocked_at    TIMESTAMPTZ,
+  created_at      TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT w.product_id, p.name, w.target_price, w.notify_restock, w.email, w.webhook_url,
+         w.last_price, w.last_in_stock, w.triggered_at, w.restocked_at, w.created_at
+  FROM price_watches w
+  JOIN products p ON p.id = w.product_id
+  WHERE w.client_hash = watch_owner_hash(p_client_key)
+  ORDER BY w.created_at;
+$$;
+
+DROP FUNCTION IF EXISTS upsert_price_watch(TEXT, UUID, NUMERIC, TEXT, TEXT, BOOLEAN);
+CREATE OR REPLACE FUNCTION upsert_price_watch(
+  p_client_key      TEXT,
+  p_product_id      UUID,
+  p_target_price    NUMERIC,
+  p_email           TEXT DEFAULT NULL,
+  p_webhook_url     TEXT DEFAULT NULL,
+  p_notify_restock  BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  owner_hash TEXT := watch_owner_hash(p_client_key);
+BEGIN
+  IF owner_hash IS NULL THEN
+    RAISE EXCEPTION 'Missing client key' USING ERRCODE = '28000';
+  END IF;
+
+  INSERT INTO price_watches (client_hash, user_id, product_id, target_price, notify_restock,
+                             email, webhook_url, last_price, last_in_stock)
+  SELECT owner_hash, auth.uid(), p_product_id, p_target_price, p_notify_restock,
+         NULLIF(TRIM(p_email), ''), NULLIF(TRIM(p_webhook_url), ''), p.price, p.in_stock
+  FROM products p
+  WHERE p.id = p_product_id
+  ON CONFLICT (client_hash, product_id) DO UPDATE
+  SET target_price = EXCLUDED.target_price,
+      notify_restock = EXCLUDED.notify_restock,
+      email = EXCLUDED.email,
+      webhook_url = EXCLUDED.webhook_url,
+      last_in_stock = EXCLUDED.last_in_stock,
+      triggered_at = NULL,
+      last_notified_price = NULL,
+      restocked_at = NULL,
+      updated_at = NOW();
+END;
+$$;
+
+DROP FUNCTION IF EXISTS delete_price_watch(TEXT, UUID);
+CREATE OR REPLACE FUNCTION delete_price_watch(p_client_key TEXT, p_product_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  DELETE FROM price_watches
+  WHERE client_hash = watch_owner_hash(p_client_key) AND product_id = p_product_id;
+$$;
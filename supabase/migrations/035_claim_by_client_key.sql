@@ -0,0 +1,75 @@
+-- 035_claim_by_client_key.sql
+--
+-- claim_anonymous_data() (019) moved every build, vote and watch carrying the
+-- client_hash / voter_hash the caller named onto the caller's account. Both
+-- hashes are public (builds_select, build_comments, build_votes_select), so
+-- any signed-in user could take over someone else's anonymous builds, watches
+-- and votes.
+--
+-- Browsers now derive both hashes from secret keys, as 034 does for watches:
+-- client_hash = client_key_hash(client key) and voter_hash =
+-- client_key_hash(voter key). The claim takes the keys and hashes them
+-- itself, so only the browser holding them can claim.
+-- Anonymous data written before this change carries random hashes no key
+-- produces: it stays anonymous and can no longer be claimed.
+-- Idempotent -- safe to re-run.
+
+DROP FUNCTION IF EXISTS claim_anonymous_data(TEXT, TEXT);
+CREATE OR REPLACE FUNCTION claim_anonymous_data(p_client_key TEXT, p_voter_key TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uid          UUID := auth.uid();
+  owner_hash   TEXT;
+  client_hash_ TEXT := client_key_hash(p_client_key);
+  voter_hash_  TEXT := client_key_hash(p_voter_key);
+  builds_count INTEGER := 0;
+  votes_count  INTEGER := 0;
+  watch_count  INTEGER := 0;
+BEGIN
+  IF uid IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '28000';
+  END IF;
+  owner_hash := 'user:' || uid::text;
+
+  IF client_hash_ IS NOT NULL THEN
+    UPDATE builds SET user_id = uid, updated_at = NOW()
+    WHERE client_hash = client_hash_ AND user_id IS NULL;
+    GET DIAGNOSTICS builds_count = ROW_COUNT;
+
+    DELETE FROM price_watches anon
+    USING price_watches mine
+    WHERE anon.client_hash = client_hash_
+      AND mine.client_hash = owner_hash
+      AND mine.product_id = anon.product_id;
+
+    UPDATE price_watches SET client_hash = owner_hash, user_id = uid, updated_at = NOW()
+    WHERE client_hash = client_hash_;
+    GET DIAGNOSTICS watch_count = ROW_COUNT;
+  END IF;
+
+  IF voter_hash_ IS NOT NULL THEN
+    -- Duplicate votes were counted twice; undo one count per dropped vote
+    WITH dropped AS (
+      DELETE FROM build_votes anon
+      USING build_votes mine
+      WHERE anon.voter_hash = voter_hash_
+        AND mine.voter_hash = owner_hash
+        AND mine.build_id = anon.build_id
+      RETURNING anon.build_id
+    )
+    UPDATE builds b SET upvotes = GREATEST(b.upvotes - 1, 0)
+    FROM dropped d
+    WHERE b.id = d.build_id;
+
+    UPDATE build_votes SET voter_hash = owner_hash, user_id = uid
+    WHERE voter_hash = voter_hash_;
+    GET DIAGNOSTICS votes_count = ROW_COUNT;
+  END IF;
+
+  RETURN json_build_object('builds', builds_count, 'votes', votes_count, 'watches', watch_count);
+END;
+$$;
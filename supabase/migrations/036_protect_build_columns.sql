@@ -0,0 +1,44 @@
+-- 036_protect_build_columns.sql
+--
+-- builds_update_own (019) lets an owner update any column of their build,
+-- including the ones the database maintains: upvotes (vote sort), total_price
+-- / shared_total (budget sort, "price then vs now"), fork_count,
+-- comment_count. 031 only protected the moderation columns.
+-- Owners may now change name, description and tags (and updated_at); items
+-- live in build_items. Every other column keeps its value unless the change
+-- comes from the service key or a SECURITY DEFINER function, like 031.
+-- Idempotent -- safe to re-run.
+
+CREATE OR REPLACE FUNCTION protect_build_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.id := OLD.id;
+    NEW.share_code := OLD.share_code;
+    NEW.user_id := OLD.user_id;
+    NEW.client_hash := OLD.client_hash;
+    NEW.is_public := OLD.is_public;
+    NEW.is_saved := OLD.is_saved;
+    NEW.author_name := OLD.author_name;
+    NEW.upvotes := OLD.upvotes;
+    NEW.total_price := OLD.total_price;
+    NEW.item_count := OLD.item_count;
+    NEW.product_ids := OLD.product_ids;
+    NEW.category_ids := OLD.category_ids;
+    NEW.shared_total := OLD.shared_total;
+    NEW.forked_from := OLD.forked_from;
+    NEW.fork_count := OLD.fork_count;
+    NEW.comment_count := OLD.comment_count;
+    NEW.created_at := OLD.created_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_protect_build_columns ON builds;
+CREATE TRIGGER trg_protect_build_columns
+  BEFORE UPDATE ON builds
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_build_columns();
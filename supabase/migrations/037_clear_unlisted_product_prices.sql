@@ -0,0 +1,67 @@
+-- 037_clear_unlisted_product_prices.sql
+--
+-- refresh_product_prices() (022) kept the catalog price that
+-- sync-to-supabase.ts writes for a product with no priced listing at all.
+-- That is not a price anyone sells at, so such products now get price and
+-- affiliate_url NULL and in_stock = false, like the rest of the roll-up.
+-- (This change was first made by editing 022 in place, which databases that
+-- had already applied 022 never picked up.)
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Roll-up function (replaces 022's)
+-- ============================================================
+CREATE OR REPLACE FUNCTION refresh_product_prices(p_product_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  WITH best AS (
+    SELECT DISTINCT ON (pl.product_id)
+      pl.product_id,
+      pl.price_usd,
+      COALESCE(pl.affiliate_url, pl.product_url) AS affiliate_url,
+      pl.image_url,
+      (COALESCE(pl.in_stock, FALSE)
+        AND COALESCE(r.is_active, FALSE)
+        AND pl.last_checked >= NOW() - INTERVAL '14 days') AS available
+    FROM price_listings pl
+    JOIN retailers r ON r.id = pl.retailer_id
+    WHERE pl.price_usd > 0
+      AND (p_product_ids IS NULL OR pl.product_id = ANY(p_product_ids))
+    ORDER BY pl.product_id, available DESC, pl.price_usd ASC
+  ),
+  target AS (
+    SELECT
+      p.id,
+      b.price_usd AS price,
+      b.affiliate_url,
+      COALESCE(p.image_url, b.image_url) AS image_url,
+      COALESCE(b.available, FALSE) AS in_stock
+    FROM products p
+    LEFT JOIN best b ON b.product_id = p.id
+    WHERE p_product_ids IS NULL OR p.id = ANY(p_product_ids)
+  )
+  UPDATE products p
+  SET price = t.price,
+      affiliate_url = t.affiliate_url,
+      image_url = t.image_url,
+      in_stock = t.in_stock
+  FROM target t
+  WHERE p.id = t.id
+    AND (p.price IS DISTINCT FROM t.price
+      OR p.affiliate_url IS DISTINCT FROM t.affiliate_url
+      OR p.image_url IS DISTINCT FROM t.image_url
+      OR p.in_stock IS DISTINCT FROM t.in_stock);
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+-- ============================================================
+-- B) Backfill
+-- ============================================================
+SELECT refresh_product_prices();
@@ -0,0 +1,166 @@
+-- 038_merge_split_stock_events.sql
+--
+-- stock_events (027) references products ON DELETE CASCADE, but
+-- merge_products() and split_product() (025) predate it: a merge deleted the
+-- losers' stock timeline along with the losers, and a split left the moved
+-- retailers' events on the source product.
+-- Both now treat stock_events like price_history: a merge moves the losers'
+-- events to the winner (and counts them), a split moves a retailer's events
+-- to the new product when the source has no listings left at that retailer.
+-- Idempotent -- safe to re-run.
+
+-- ============================================================
+-- A) Merge
+-- ============================================================
+CREATE OR REPLACE FUNCTION merge_products(p_winner UUID, p_losers UUID[])
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  loser UUID;
+  moved INTEGER;
+  counts JSONB := jsonb_build_object(
+    'price_listings', 0, 'product_matches', 0, 'build_items', 0, 'price_history', 0,
+    'store_products', 0, 'price_watches', 0, 'listing_quarantine', 0, 'stock_events', 0,
+    'products_deleted', 0
+  );
+BEGIN
+  IF p_winner = ANY(p_losers) THEN
+    RAISE EXCEPTION 'Cannot merge product % into itself', p_winner;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_winner) THEN
+    RAISE EXCEPTION 'Product % not found', p_winner;
+  END IF;
+
+  FOREACH loser IN ARRAY p_losers LOOP
+    IF NOT EXISTS (SELECT 1 FROM products WHERE id = loser) THEN
+      RAISE EXCEPTION 'Product % not found', loser;
+    END IF;
+
+    UPDATE price_listings SET product_id = p_winner WHERE product_id = loser;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    counts := jsonb_set(counts, '{price_listings}', to_jsonb((counts->>'price_listings')::INTEGER + moved));
+
+    -- One match per (product, retailer): the winner's own match wins
+    DELETE FROM product_matches pm
+    WHERE pm.product_id = loser
+      AND EXISTS (SELECT 1 FROM product_matches w WHERE w.product_id = p_winner AND w.retailer_id = pm.retailer_id);
+    UPDATE product_matches SET product_id = p_winner WHERE product_id = loser;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    counts := jsonb_set(counts, '{product_matches}', to_jsonb((counts->>'product_matches')::INTEGER + moved));
+
+    UPDATE build_items SET product_id = p_winner WHERE product_id = loser;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    counts := jsonb_set(counts, '{build_items}', to_jsonb((counts->>'build_items')::INTEGER + moved));
+
+    UPDATE price_history SET product_id = p_winner WHERE product_id = loser;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    counts := jsonb_set(counts, '{price_history}', to_jsonb((counts->>'price_history')::INTEGER + moved));
+
+    UPDATE store_products SET canonical_product_id = p_winner WHERE canonical_product_id = loser;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    counts := jsonb_set(counts, '{store_products}', to_jsonb((counts->>'store_products')::INTEGER + moved));
+
+    DELETE FROM price_watches pw
+    WHERE pw.product_id = loser
+      AND EXISTS (SELECT 1 FROM price_watches w WHERE w.product_id = p_winner AND w.client_hash = pw.client_hash);
+    UPDATE price_watches SET product_id = p_winner WHERE product_id = loser;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    counts := jsonb_set(counts, '{price_watches}', to_jsonb((counts->>'price_watches')::INTEGER + moved));
+
+    UPDATE listing_quarantine SET product_id = p_winner WHERE product_id = loser;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    counts := jsonb_set(counts, '{listing_quarantine}', to_jsonb((counts->>'listing_quarantine')::INTEGER + moved));
+
+    UPDATE stock_events SET product_id = p_winner WHERE product_id = loser;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    counts := jsonb_set(counts, '{stock_events}', to_jsonb((counts->>'stock_events')::INTEGER + moved));
+
+    UPDATE frequency_responses SET product_id = p_winner
+    WHERE product_id = loser
+      AND NOT EXISTS (SELECT 1 FROM frequency_responses WHERE product_id = p_winner);
+
+    UPDATE product_families SET base_product_id = p_winner WHERE base_product_id = loser;
+
+    DELETE FROM products WHERE id = loser;
+    counts := jsonb_set(counts, '{products_deleted}', to_jsonb((counts->>'products_deleted')::INTEGER + 1));
+  END LOOP;
+
+  RETURN counts;
+END;
+$$;
+
+-- ============================================================
+-- B) Split
+-- ============================================================
+CREATE OR REPLACE FUNCTION split_product(
+  p_source UUID,
+  p_listing_ids UUID[],
+  p_name TEXT,
+  p_brand TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_id UUID;
+  listing_count INTEGER;
+BEGIN
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'A name is required for the new product';
+  END IF;
+
+  SELECT COUNT(*) INTO listing_count
+  FROM price_listings
+  WHERE id = ANY(p_listing_ids) AND product_id = p_source;
+  IF listing_count = 0 OR listing_count <> cardinality(p_listing_ids) THEN
+    RAISE EXCEPTION 'Listings to split off must all belong to product %', p_source;
+  END IF;
+
+  INSERT INTO products (category_id, name, brand, source_type, product_family_id)
+  SELECT category_id, trim(p_name), NULLIF(trim(p_brand), ''), 'store', product_family_id
+  FROM products
+  WHERE id = p_source
+  RETURNING id INTO new_id;
+
+  IF new_id IS NULL THEN
+    RAISE EXCEPTION 'Product % not found', p_source;
+  END IF;
+
+  CREATE TEMP TABLE split_listings AS
+    SELECT retailer_id, external_id FROM price_listings WHERE id = ANY(p_listing_ids);
+
+  UPDATE price_listings SET product_id = new_id WHERE id = ANY(p_listing_ids);
+
+  UPDATE product_matches pm SET product_id = new_id
+  FROM split_listings s
+  WHERE pm.product_id = p_source AND pm.retailer_id = s.retailer_id AND pm.external_id = s.external_id;
+
+  UPDATE store_products sp SET canonical_product_id = new_id
+  FROM split_listings s
+  WHERE sp.canonical_product_id = p_source AND sp.retailer_id = s.retailer_id AND sp.external_id = s.external_id;
+
+  UPDATE listing_quarantine q SET product_id = new_id
+  FROM split_listings s
+  WHERE q.product_id = p_source AND q.retailer_id = s.retailer_id AND q.external_id = s.external_id;
+
+  -- price_history and stock_events have no external_id: a retailer's
+  -- history follows its listings only when the source has none left there
+  UPDATE price_history ph SET product_id = new_id
+  WHERE ph.product_id = p_source
+    AND ph.retailer_id IN (SELECT retailer_id FROM split_listings)
+    AND NOT EXISTS (
+      SELECT 1 FROM price_listings pl WHERE pl.product_id = p_source AND pl.retailer_id = ph.retailer_id
+    );
+
+  UPDATE stock_events se SET product_id = new_id
+  WHERE se.product_id = p_source
+    AND se.retailer_id IN (SELECT retailer_id FROM split_listings)
+    AND NOT EXISTS (
+      SELECT 1 FROM price_listings pl WHERE pl.product_id = p_source AND pl.retailer_id = se.retailer_id
+    );
+
+  DROP TABLE split_listings;
+  RETURN new_id;
+END;
+$$;
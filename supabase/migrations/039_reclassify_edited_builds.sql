@@ -0,0 +1,51 @@
+-- 039_reclassify_edited_builds.sql
+--
+-- classify_build() (031) only ran on insert: an owner could share a clean
+-- build and then edit spam or a link into its name or description through
+-- builds_update_own, and it stayed visible.
+-- Public builds are now classified again whenever name, description,
+-- author_name or is_public change. A build the classifier flags goes back
+-- to the /moderation queue (reviewed_at cleared), even if an admin had
+-- approved it before the edit. A build that is already hidden keeps its
+-- original flag reason.
+-- Idempotent -- safe to re-run.
+
+CREATE OR REPLACE FUNCTION classify_build()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  reason TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND COALESCE(NEW.is_flagged, FALSE) THEN
+    RETURN NEW;
+  END IF;
+
+  reason := COALESCE(
+    classify_community_text(NEW.name),
+    classify_community_text(NEW.description),
+    classify_community_text(NEW.author_name)
+  );
+  IF reason IS NOT NULL THEN
+    NEW.is_flagged := TRUE;
+    NEW.flagged_at := NOW();
+    NEW.flag_reason := reason;
+    NEW.reviewed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Must sort after trg_protect_build_columns and trg_protect_build_moderation
+-- (triggers fire in name order): those reset the flag columns on owner
+-- updates and would undo the flag if they ran later
+DROP TRIGGER IF EXISTS trg_reclassify_build ON builds;
+CREATE TRIGGER trg_reclassify_build
+  BEFORE UPDATE OF name, description, author_name, is_public ON builds
+  FOR EACH ROW
+  WHEN (
+    NEW.is_public
+    AND (NEW.name, NEW.description, NEW.author_name, NEW.is_public)
+        IS DISTINCT FROM (OLD.name, OLD.description, OLD.author_name, OLD.is_public)
+  )
+  EXECUTE FUNCTION classify_build();
@@ -0,0 +1,62 @@
+-- 040_price_history_usd.sql
+--
+-- price_history.price is copied from price_listings.price, which is in the
+-- retailer's catalog currency (015), so one product's history mixes USD,
+-- EUR, GBP and AUD rows. The price watch checker compared the lowest of
+-- those raw numbers with its USD targets, and the product page charted them
+-- as one series.
+--   - price_history.price_usd: the listing's price_usd at snapshot time,
+--     written by scripts/snapshot-prices.ts. NULL when the currency had no
+--     exchange rate; price comparisons skip those rows.
+--   - Existing rows are backfilled through the retailer's currency and the
+--     current exchange_rates, as listing_price_references() (023) converts.
+--   - stock_events.price_usd likewise, for the Deals page restock list.
+--   - latest_stock_states() also returns price_usd, for the sold-out rows
+--     the snapshot writes when a listing disappears.
+-- Idempotent -- safe to re-run.
+
+ALTER TABLE price_history ADD COLUMN IF NOT EXISTS price_usd NUMERIC;
+
+UPDATE price_history ph
+SET price_usd = CASE
+    WHEN COALESCE(r.currency, 'USD') = 'USD' THEN ph.price
+    ELSE ROUND(ph.price / er.rate, 2)
+  END
+FROM retailers r
+LEFT JOIN exchange_rates er ON er.currency = r.currency
+WHERE r.id = ph.retailer_id
+  AND ph.price_usd IS NULL
+  AND ph.price IS NOT NULL;
+
+ALTER TABLE stock_events ADD COLUMN IF NOT EXISTS price_usd NUMERIC;
+
+UPDATE stock_events se
+SET price_usd = CASE
+    WHEN COALESCE(r.currency, 'USD') = 'USD' THEN se.price
+    ELSE ROUND(se.price / er.rate, 2)
+  END
+FROM retailers r
+LEFT JOIN exchange_rates er ON er.currency = r.currency
+WHERE r.id = se.retailer_id
+  AND se.price_usd IS NULL
+  AND se.price IS NOT NULL;
+
+DROP FUNCTION IF EXISTS latest_stock_states(TIMESTAMPTZ);
+CREATE OR REPLACE FUNCTION latest_stock_states(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  product_id   UUID,
+  retailer_id  TEXT,
+  in_stock     BOOLEAN,
+  price        NUMERIC,
+  price_usd    NUMERIC,
+  recorded_at  TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (ph.product_id, ph.retailer_id)
+    ph.product_id, ph.retailer_id, ph.in_stock, ph.price, ph.price_usd, ph.recorded_at
+  FROM price_history ph
+  WHERE ph.recorded_at >= p_since
+  ORDER BY ph.product_id, ph.retailer_id, ph.recorded_at DESC;
+$$;
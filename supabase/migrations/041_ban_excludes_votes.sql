@@ -0,0 +1,28 @@
+-- 041_ban_excludes_votes.sql
+--
+-- check_banned_client() (031) rejected build_votes whose voter_hash was in
+-- banned_client_hashes. Bans are issued on a build's or comment's
+-- client_hash, and since 035 voter_hash is derived from a separate voter
+-- key, so no vote ever matched and the check only looked like it worked.
+-- Linking the two hashes would make every public vote traceable to the
+-- builds and comments of the same browser, so bans now cover builds,
+-- comments and reports only; anonymous votes are one per build per
+-- browser and are not moderated.
+-- Idempotent -- safe to re-run.
+
+DROP TRIGGER IF EXISTS trg_build_votes_banned_client ON build_votes;
+
+CREATE OR REPLACE FUNCTION check_banned_client()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.client_hash IS NOT NULL
+     AND EXISTS (SELECT 1 FROM banned_client_hashes WHERE client_hash = NEW.client_hash) THEN
+    RAISE EXCEPTION 'Posting is disabled for this browser.'
+      USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
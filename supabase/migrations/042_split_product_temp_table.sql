@@ -0,0 +1,84 @@
+-- 042_split_product_temp_table.sql
+--
+-- split_product() (038) created its split_listings temp table without
+-- ON COMMIT DROP and only dropped it at the end, so a split that failed
+-- partway through could leave the table in a pooled session, and the next
+-- split in that session failed with "relation already exists".
+-- The table is now dropped first if present and created ON COMMIT DROP.
+-- Otherwise unchanged from 038.
+-- Idempotent -- safe to re-run.
+
+CREATE OR REPLACE FUNCTION split_product(
+  p_source UUID,
+  p_listing_ids UUID[],
+  p_name TEXT,
+  p_brand TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_id UUID;
+  listing_count INTEGER;
+BEGIN
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'A name is required for the new product';
+  END IF;
+
+  SELECT COUNT(*) INTO listing_count
+  FROM price_listings
+  WHERE id = ANY(p_listing_ids) AND product_id = p_source;
+  IF listing_count = 0 OR listing_count <> cardinality(p_listing_ids) THEN
+    RAISE EXCEPTION 'Listings to split off must all belong to product %', p_source;
+  END IF;
+
+  INSERT INTO products (category_id, name, brand, source_type, product_family_id)
+  SELECT category_id, trim(p_name), NULLIF(trim(p_brand), ''), 'store', product_family_id
+  FROM products
+  WHERE id = p_source
+  RETURNING id INTO new_id;
+
+  IF new_id IS NULL THEN
+    RAISE EXCEPTION 'Product % not found', p_source;
+  END IF;
+
+  -- ON COMMIT DROP so a failed split cannot leave it behind in the session;
+  -- the explicit drops let two splits run in one transaction
+  DROP TABLE IF EXISTS split_listings;
+  CREATE TEMP TABLE split_listings ON COMMIT DROP AS
+    SELECT retailer_id, external_id FROM price_listings WHERE id = ANY(p_listing_ids);
+
+  UPDATE price_listings SET product_id = new_id WHERE id = ANY(p_listing_ids);
+
+  UPDATE product_matches pm SET product_id = new_id
+  FROM split_listings s
+  WHERE pm.product_id = p_source AND pm.retailer_id = s.retailer_id AND pm.external_id = s.external_id;
+
+  UPDATE store_products sp SET canonical_product_id = new_id
+  FROM split_listings s
+  WHERE sp.canonical_product_id = p_source AND sp.retailer_id = s.retailer_id AND sp.external_id = s.external_id;
+
+  UPDATE listing_quarantine q SET product_id = new_id
+  FROM split_listings s
+  WHERE q.product_id = p_source AND q.retailer_id = s.retailer_id AND q.external_id = s.external_id;
+
+  -- price_history and stock_events have no external_id: a retailer's
+  -- history follows its listings only when the source has none left there
+  UPDATE price_history ph SET product_id = new_id
+  WHERE ph.product_id = p_source
+    AND ph.retailer_id IN (SELECT retailer_id FROM split_listings)
+    AND NOT EXISTS (
+      SELECT 1 FROM price_listings pl WHERE pl.product_id = p_source AND pl.retailer_id = ph.retailer_id
+    );
+
+  UPDATE stock_events se SET product_id = new_id
+  WHERE se.product_id = p_source
+    AND se.retailer_id IN (SELECT retailer_id FROM split_listings)
+    AND NOT EXISTS (
+      SELECT 1 FROM price_listings pl WHERE pl.product_id = p_source AND pl.retailer_id = se.retailer_id
+    );
+
+  DROP TABLE split_listings;
+  RETURN new_id;
+END;
+$$;